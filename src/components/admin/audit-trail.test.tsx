@@ -0,0 +1,113 @@
+/**
+ * Audit Trail Tests
+ *
+ * @module components/admin/auditTrail.test
+ */
+
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { SnackbarProvider } from "notistack";
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+
+import type { AuditEvent } from "@/types/domain";
+import { audit } from "@/lib/api/wms-api";
+
+import { AuditTrail, formatChanges } from "./audit-trail";
+
+interface MockColumn {
+	field: string;
+	valueGetter?: (value: unknown, row: Record<string, unknown>) => unknown;
+	valueFormatter?: (value: unknown) => unknown;
+}
+
+// Plain table instead of the data grid (its CSS imports do not load under vitest)
+vi.mock("@mui/x-data-grid", () => ({
+	DataGrid: ({ rows, columns }: { rows: Record<string, unknown>[]; columns: MockColumn[] }) => (
+		<table>
+			<tbody>
+				{rows.map((row) => (
+					<tr key={String(row.id)}>
+						{columns.map((column) => {
+							const raw = column.valueGetter ? column.valueGetter(row[column.field], row) : row[column.field];
+							return <td key={column.field}>{String(column.valueFormatter ? column.valueFormatter(raw) : raw)}</td>;
+						})}
+					</tr>
+				))}
+			</tbody>
+		</table>
+	),
+}));
+
+vi.mock("@/lib/api/wms-api", () => ({
+	audit: {
+		query: vi.fn(),
+	},
+}));
+
+const WRITE_OFF: AuditEvent = {
+	id: "event-1",
+	entity_type: "pallet",
+	entity_id: "pallet-0000-1234abcd",
+	action: "write_off",
+	actor_id: "user-1",
+	actor_email: "ops@example.com",
+	before: { status: "Stored" },
+	after: { status: "WriteOff" },
+	reason: "Damaged",
+	created_at: "2026-10-01T12:00:00Z",
+};
+
+describe("AuditTrail", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(audit.query as Mock).mockResolvedValue([WRITE_OFF]);
+	});
+
+	it("lists the latest events with their changes", async () => {
+		render(
+			<SnackbarProvider>
+				<AuditTrail />
+			</SnackbarProvider>
+		);
+
+		expect(await screen.findByText("status: Stored → WriteOff")).toBeInTheDocument();
+		expect(screen.getByText("ops@example.com")).toBeInTheDocument();
+		expect(screen.getByText("Damaged")).toBeInTheDocument();
+		expect(audit.query).toHaveBeenCalledWith({
+			entity_type: undefined,
+			entity_id: undefined,
+			actor: undefined,
+			created_at: { from: undefined, to: undefined },
+		});
+	});
+
+	it("searches by id, user and date", async () => {
+		render(
+			<SnackbarProvider>
+				<AuditTrail />
+			</SnackbarProvider>
+		);
+		await screen.findByText("status: Stored → WriteOff");
+
+		fireEvent.change(screen.getByLabelText("Pallet / Order ID"), { target: { value: " pallet-0000-1234abcd " } });
+		fireEvent.change(screen.getByLabelText("User"), { target: { value: "ops" } });
+		fireEvent.change(screen.getByLabelText("From"), { target: { value: "2026-10-01" } });
+		fireEvent.click(screen.getByRole("button", { name: /search/i }));
+
+		await waitFor(() => expect(audit.query).toHaveBeenCalledTimes(2));
+		expect(audit.query).toHaveBeenLastCalledWith({
+			entity_type: undefined,
+			entity_id: "pallet-0000-1234abcd",
+			actor: "ops",
+			created_at: { from: new Date("2026-10-01T00:00:00").toISOString(), to: undefined },
+		});
+	});
+
+	it("summarizes creates and deletes", () => {
+		expect(formatChanges({ ...WRITE_OFF, before: null, after: { status: "Received" } })).toBe("Created");
+		expect(formatChanges({ ...WRITE_OFF, before: { status: "Received" }, after: null })).toBe("Deleted");
+		expect(formatChanges({ ...WRITE_OFF, before: { location_id: null }, after: { location_id: "W1-1-1-A" } })).toBe(
+			"location_id: — → W1-1-1-A"
+		);
+	});
+});
@@ -0,0 +1,228 @@
+/**
+ * Audit Trail
+ *
+ * Admin view of every recorded pallet, order and manifest mutation. Searches
+ * the trail by entity (pallet, receiving/shipping order, manifest), user and
+ * date range; newest events first.
+ *
+ * @module components/admin/auditTrail
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+	Box,
+	Button,
+	Card,
+	CardContent,
+	FormControl,
+	InputLabel,
+	MenuItem,
+	Select,
+	TextField,
+	Typography,
+} from "@mui/material";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+import { MagnifyingGlassIcon } from "@phosphor-icons/react/dist/ssr/MagnifyingGlass";
+import { useSnackbar } from "notistack";
+
+import type { AuditEntityType, AuditEvent } from "@/types/domain";
+import { audit } from "@/lib/api/wms-api";
+import type { AuditEventFilters } from "@/lib/api/wms-backend";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
+
+interface SearchForm {
+	entityType: AuditEntityType | "";
+	entityId: string;
+	actor: string;
+	fromDate: string;
+	toDate: string;
+}
+
+const EMPTY_SEARCH: SearchForm = { entityType: "", entityId: "", actor: "", fromDate: "", toDate: "" };
+
+const ENTITY_LABELS: Record<AuditEntityType, string> = {
+	pallet: "Pallet",
+	receiving_order: "Receiving order",
+	shipping_order: "Shipping order",
+	manifest: "Manifest",
+};
+
+/**
+ * Turn the search form into audit query filters (dates are local calendar days)
+ */
+function toFilters(form: SearchForm): AuditEventFilters {
+	return {
+		entity_type: form.entityType || undefined,
+		entity_id: form.entityId.trim() || undefined,
+		actor: form.actor.trim() || undefined,
+		created_at: {
+			from: form.fromDate ? new Date(`${form.fromDate}T00:00:00`).toISOString() : undefined,
+			to: form.toDate ? new Date(`${form.toDate}T23:59:59.999`).toISOString() : undefined,
+		},
+	};
+}
+
+/**
+ * Render a field value for the changes column
+ */
+function formatValue(value: unknown): string {
+	if (value === null || value === undefined) return "—";
+	return typeof value === "object" ? JSON.stringify(value) : String(value);
+}
+
+/**
+ * Summarize an event's before/after values, e.g. "status: Stored → WriteOff"
+ */
+export function formatChanges(event: AuditEvent): string {
+	if (!event.before) return "Created";
+	if (!event.after) return "Deleted";
+	return Object.keys(event.after)
+		.map((field) => `${field}: ${formatValue(event.before?.[field])} → ${formatValue(event.after?.[field])}`)
+		.join("; ");
+}
+
+const columns: GridColDef<AuditEvent>[] = [
+	{
+		field: "created_at",
+		headerName: "Time",
+		width: 180,
+		valueFormatter: (value: string) => new Date(value).toLocaleString(),
+	},
+	{
+		field: "entity_type",
+		headerName: "Entity",
+		width: 140,
+		valueFormatter: (value: AuditEntityType) => ENTITY_LABELS[value] ?? value,
+	},
+	{ field: "entity_id", headerName: "ID", width: 130, valueFormatter: (value: string) => value.slice(-8) },
+	{ field: "action", headerName: "Action", width: 130 },
+	{
+		field: "actor_email",
+		headerName: "User",
+		width: 200,
+		valueFormatter: (value: string | null) => value ?? "system",
+	},
+	{
+		field: "changes",
+		headerName: "Changes",
+		flex: 1,
+		minWidth: 280,
+		sortable: false,
+		valueGetter: (_value, row) => formatChanges(row),
+	},
+	{ field: "reason", headerName: "Reason", width: 160 },
+];
+
+export function AuditTrail() {
+	const { enqueueSnackbar } = useSnackbar();
+	const [form, setForm] = useState<SearchForm>(EMPTY_SEARCH);
+	const [events, setEvents] = useState<AuditEvent[]>([]);
+	const [loading, setLoading] = useState(true);
+
+	const search = useCallback(
+		async (criteria: SearchForm) => {
+			try {
+				setLoading(true);
+				setEvents(await audit.query(toFilters(criteria)));
+			} catch (error_) {
+				const message = getErrorToastMessage(error_, "Failed to load audit trail");
+				enqueueSnackbar(message, { variant: "error" });
+			} finally {
+				setLoading(false);
+			}
+		},
+		[enqueueSnackbar]
+	);
+
+	// Latest events on mount
+	useEffect(() => {
+		search(EMPTY_SEARCH);
+	}, [search]);
+
+	const handleChange = (field: keyof SearchForm) => (e: { target: { value: string } }) =>
+		setForm((prev) => ({ ...prev, [field]: e.target.value }));
+
+	const handleClear = () => {
+		setForm(EMPTY_SEARCH);
+		search(EMPTY_SEARCH);
+	};
+
+	return (
+		<Box>
+			<Card sx={{ mb: 3 }}>
+				<CardContent>
+					<Typography variant="h6" sx={{ mb: 2, fontWeight: 600 }}>
+						Search Audit Trail
+					</Typography>
+
+					<Box
+						component="form"
+						onSubmit={(e: React.FormEvent) => {
+							e.preventDefault();
+							search(form);
+						}}
+						sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}
+					>
+						<FormControl size="small" sx={{ minWidth: 170 }}>
+							<InputLabel id="audit-entity-label">Entity</InputLabel>
+							<Select
+								labelId="audit-entity-label"
+								label="Entity"
+								value={form.entityType}
+								onChange={handleChange("entityType")}
+							>
+								<MenuItem value="">All</MenuItem>
+								{Object.entries(ENTITY_LABELS).map(([value, label]) => (
+									<MenuItem key={value} value={value}>
+										{label}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+						<TextField
+							label="Pallet / Order ID"
+							size="small"
+							value={form.entityId}
+							onChange={handleChange("entityId")}
+							sx={{ minWidth: 280 }}
+						/>
+						<TextField label="User" size="small" value={form.actor} onChange={handleChange("actor")} />
+						<TextField
+							label="From"
+							type="date"
+							size="small"
+							value={form.fromDate}
+							onChange={handleChange("fromDate")}
+							slotProps={{ inputLabel: { shrink: true } }}
+						/>
+						<TextField
+							label="To"
+							type="date"
+							size="small"
+							value={form.toDate}
+							onChange={handleChange("toDate")}
+							slotProps={{ inputLabel: { shrink: true } }}
+						/>
+						<Button type="submit" variant="contained" startIcon={<MagnifyingGlassIcon />}>
+							Search
+						</Button>
+						<Button variant="outlined" onClick={handleClear}>
+							Clear
+						</Button>
+					</Box>
+				</CardContent>
+			</Card>
+
+			<Box sx={{ height: 600, width: "100%" }}>
+				<DataGrid
+					rows={events}
+					columns={columns}
+					loading={loading}
+					pageSizeOptions={[25, 50, 100]}
+					initialState={{ pagination: { paginationModel: { pageSize: 25, page: 0 } } }}
+					disableRowSelectionOnClick
+				/>
+			</Box>
+		</Box>
+	);
+}
@@ -0,0 +1,172 @@
+/**
+ * Location Manager Tests
+ *
+ * @module components/admin/locationManager.test
+ */
+
+import React from "react";
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { SnackbarProvider } from "notistack";
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+
+import type { Location } from "@/types/domain";
+import { locations, pallets, warehouses } from "@/lib/api/wms-api";
+import { printLocationLabels } from "@/components/inventory/location-labels";
+
+import { getLocationState, LocationManager } from "./location-manager";
+
+interface MockColumn {
+	field: string;
+	renderCell?: (params: { row: Record<string, unknown> }) => React.ReactNode;
+}
+
+// Plain table instead of the data grid (its CSS imports do not load under vitest)
+vi.mock("@mui/x-data-grid", () => ({
+	DataGrid: ({ rows, columns }: { rows: Record<string, unknown>[]; columns: MockColumn[] }) => (
+		<table>
+			<tbody>
+				{rows.map((row) => (
+					<tr key={String(row.id)} data-testid={`row-${String(row.id)}`}>
+						{columns.map((column) => (
+							<td key={column.field}>
+								{column.renderCell ? column.renderCell({ row }) : String(row[column.field] ?? "")}
+							</td>
+						))}
+					</tr>
+				))}
+			</tbody>
+		</table>
+	),
+}));
+
+vi.mock("@/components/inventory/location-labels", () => ({
+	printLocationLabels: vi.fn().mockResolvedValue(undefined),
+}));
+
+vi.mock("@/lib/api/wms-api", () => ({
+	locations: {
+		getAll: vi.fn(),
+		create: vi.fn(),
+		update: vi.fn(),
+	},
+	pallets: {
+		getFiltered: vi.fn(),
+	},
+	warehouses: {
+		getDefault: vi.fn(),
+	},
+}));
+
+const LOCATIONS: Location[] = [
+	{ location_id: "W1-1-1-A", warehouse_id: "wh-1", type: "RACK", rack: 1, level: 1, position: "A", is_active: true },
+	{ location_id: "W1-1-1-B", warehouse_id: "wh-1", type: "RACK", rack: 1, level: 1, position: "B", is_blocked: true },
+	{ location_id: "W1-2-1-A", warehouse_id: "wh-1", type: "RACK", rack: 2, level: 1, position: "A", is_active: false },
+];
+
+const renderManager = () =>
+	render(
+		<SnackbarProvider>
+			<LocationManager />
+		</SnackbarProvider>
+	);
+
+describe("LocationManager", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(locations.getAll as Mock).mockResolvedValue(LOCATIONS);
+		(pallets.getFiltered as Mock).mockResolvedValue([
+			{ id: "pallet-1", location_id: "W1-1-1-A", status: "Stored" },
+			{ id: "pallet-2", location_id: "W1-1-1-A", status: "Stored" },
+		]);
+		(warehouses.getDefault as Mock).mockResolvedValue({ id: "wh-1", code: "W1", name: "Main" });
+		(locations.update as Mock).mockResolvedValue([]);
+	});
+
+	it("lists locations with their occupancy and status", async () => {
+		renderManager();
+
+		const row = await screen.findByTestId("row-W1-1-1-A");
+		expect(within(row).getByText("2")).toBeInTheDocument();
+		expect(within(row).getByText("Active")).toBeInTheDocument();
+		expect(within(screen.getByTestId("row-W1-1-1-B")).getByText("Blocked")).toBeInTheDocument();
+		expect(within(screen.getByTestId("row-W1-2-1-A")).getByText("Retired")).toBeInTheDocument();
+	});
+
+	it("blocks a single slot", async () => {
+		renderManager();
+
+		const row = await screen.findByTestId("row-W1-1-1-A");
+		fireEvent.click(within(row).getByRole("button", { name: "Block" }));
+
+		await waitFor(() => {
+			expect(locations.update).toHaveBeenCalledWith(["W1-1-1-A"], { is_blocked: true });
+		});
+		expect(await screen.findByText("W1-1-1-A blocked")).toBeInTheDocument();
+	});
+
+	it("retires every location the filters show", async () => {
+		renderManager();
+
+		await screen.findByTestId("row-W1-1-1-A");
+		fireEvent.mouseDown(screen.getByRole("combobox", { name: "Rack" }));
+		fireEvent.click(await screen.findByRole("option", { name: "Rack 1" }));
+		expect(screen.queryByTestId("row-W1-2-1-A")).not.toBeInTheDocument();
+
+		fireEvent.click(screen.getByRole("button", { name: "Retire shown" }));
+
+		await waitFor(() => {
+			expect(locations.update).toHaveBeenCalledWith(["W1-1-1-A", "W1-1-1-B"], { is_active: false });
+		});
+	});
+
+	it("adds locations generated from a pattern", async () => {
+		(locations.create as Mock).mockImplementation(async (input: Location[]) => input.slice(1));
+		renderManager();
+
+		await screen.findByTestId("row-W1-1-1-A");
+		fireEvent.click(screen.getByRole("button", { name: /add locations/i }));
+		const dialog = await screen.findByRole("dialog");
+		fireEvent.change(within(dialog).getByLabelText("Rack from"), { target: { value: "3" } });
+		fireEvent.change(within(dialog).getByLabelText("Level from"), { target: { value: "1" } });
+		fireEvent.change(within(dialog).getByLabelText("Level to"), { target: { value: "2" } });
+		fireEvent.change(within(dialog).getByLabelText("Position from"), { target: { value: "A" } });
+		fireEvent.change(within(dialog).getByLabelText("Position to"), { target: { value: "B" } });
+		fireEvent.click(within(dialog).getByRole("button", { name: "Add" }));
+
+		await waitFor(() => {
+			expect(locations.create).toHaveBeenCalledWith([
+				expect.objectContaining({ location_id: "W1-3-1-A", rack: 3, level: 1, position: "A" }),
+				expect.objectContaining({ location_id: "W1-3-1-B" }),
+				expect.objectContaining({ location_id: "W1-3-2-A" }),
+				expect.objectContaining({ location_id: "W1-3-2-B" }),
+			]);
+		});
+		expect(await screen.findByText("Added 3 location(s), 1 already existed")).toBeInTheDocument();
+	});
+
+	it("prints labels for one rack, leaving retired locations out", async () => {
+		renderManager();
+
+		await screen.findByTestId("row-W1-1-1-A");
+		fireEvent.mouseDown(screen.getByRole("combobox", { name: "Rack" }));
+		fireEvent.click(await screen.findByRole("option", { name: "Rack 1" }));
+		fireEvent.click(screen.getByRole("button", { name: "Print Labels" }));
+
+		const dialog = screen.getByRole("dialog");
+		expect(within(dialog).getByText(/2 label\(s\)/)).toBeInTheDocument();
+		fireEvent.click(within(dialog).getByLabelText("Colour by level"));
+		fireEvent.click(within(dialog).getByRole("button", { name: "Print" }));
+
+		await waitFor(() => {
+			expect(printLocationLabels).toHaveBeenCalledWith(
+				[expect.objectContaining({ location_id: "W1-1-1-A" }), expect.objectContaining({ location_id: "W1-1-1-B" })],
+				{ layout: "4x2", colourByLevel: false }
+			);
+		});
+	});
+
+	it("treats retired as taking precedence over blocked", () => {
+		expect(getLocationState({ is_active: false, is_blocked: true })).toBe("Retired");
+		expect(getLocationState({})).toBe("Active");
+	});
+});
@@ -0,0 +1,494 @@
+/**
+ * Location Manager
+ *
+ * Admin view of the warehouse layout. Lists every location with the pallets
+ * on it, blocks or unblocks slots (damaged racks), retires or reactivates
+ * locations one at a time or everything the filters show (a whole rack or
+ * level), and adds racks, levels, positions or aisle zones from a pattern.
+ * Labels for the locations shown (say one rack) print as a batch, optionally
+ * coloured by level.
+ *
+ * @module components/admin/locationManager
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Checkbox,
+	Chip,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControl,
+	FormControlLabel,
+	InputLabel,
+	MenuItem,
+	Select,
+	TextField,
+	Typography,
+} from "@mui/material";
+import { DataGrid, GridColDef } from "@mui/x-data-grid";
+import { PlusIcon } from "@phosphor-icons/react/dist/ssr/Plus";
+import { PrinterIcon } from "@phosphor-icons/react/dist/ssr/Printer";
+import { useSnackbar } from "notistack";
+
+import type { Location, Warehouse } from "@/types/domain";
+import { generateLocations, getLocationOccupancy, type LocationPattern } from "@/lib/api/location-layout";
+import { locations as locationsApi, pallets as palletsApi, warehouses } from "@/lib/api/wms-api";
+import type { LocationUpdate } from "@/lib/api/wms-backend";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
+import { printLocationLabels, type LocationLabelOptions } from "@/components/inventory/location-labels";
+
+type LocationState = "Active" | "Blocked" | "Retired";
+
+interface LocationRow extends Location {
+	id: string;
+	pallets: number;
+	state: LocationState;
+}
+
+interface Filters {
+	rack: string;
+	level: string;
+	state: LocationState | "";
+}
+
+const EMPTY_FILTERS: Filters = { rack: "", level: "", state: "" };
+
+const STATE_COLORS: Record<LocationState, "success" | "warning" | "default"> = {
+	Active: "success",
+	Blocked: "warning",
+	Retired: "default",
+};
+
+const EMPTY_PATTERN = {
+	type: "RACK" as LocationPattern["type"],
+	racks: ["", ""],
+	levels: ["", ""],
+	positions: ["", ""],
+	zones: ["", ""],
+};
+
+type PatternForm = typeof EMPTY_PATTERN;
+
+/**
+ * Status shown for a location: retired wins over blocked
+ */
+export function getLocationState(location: Pick<Location, "is_active" | "is_blocked">): LocationState {
+	if (location.is_active === false) return "Retired";
+	return location.is_blocked ? "Blocked" : "Active";
+}
+
+/** A from/to pair of fields; an empty "to" means a single value */
+function toRange([from, to]: string[]): [number, number] {
+	return [Number(from), Number(to || from)];
+}
+
+/**
+ * Turn the add-locations form into a generation pattern
+ */
+function toPattern(form: PatternForm): LocationPattern {
+	if (form.type === "AISLE") return { type: "AISLE", zones: toRange(form.zones) };
+	return {
+		type: "RACK",
+		racks: toRange(form.racks),
+		levels: toRange(form.levels),
+		positions: [form.positions[0], form.positions[1] || form.positions[0]],
+	};
+}
+
+function matchesFilters(row: LocationRow, filters: Filters): boolean {
+	if (filters.rack === "AISLE" ? row.type !== "AISLE" : filters.rack && row.rack !== Number(filters.rack)) {
+		return false;
+	}
+	if (filters.level && row.level !== Number(filters.level)) return false;
+	return !filters.state || row.state === filters.state;
+}
+
+export function LocationManager() {
+	const { enqueueSnackbar } = useSnackbar();
+	const [rows, setRows] = useState<LocationRow[]>([]);
+	const [warehouse, setWarehouse] = useState<Warehouse | null>(null);
+	const [loading, setLoading] = useState(true);
+	const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+	const [showAdd, setShowAdd] = useState(false);
+	const [pattern, setPattern] = useState<PatternForm>(EMPTY_PATTERN);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [showPrint, setShowPrint] = useState(false);
+	const [labelOptions, setLabelOptions] = useState<LocationLabelOptions>({ layout: "4x2", colourByLevel: true });
+
+	const load = useCallback(async () => {
+		try {
+			setLoading(true);
+			const [allLocations, floorPallets, defaultWarehouse] = await Promise.all([
+				locationsApi.getAll(),
+				palletsApi.getFiltered({ status: ["Received", "Stored", "Staged"] }),
+				warehouses.getDefault(),
+			]);
+			const occupancy = getLocationOccupancy(floorPallets);
+			setWarehouse(defaultWarehouse);
+			setRows(
+				allLocations.map((location) => ({
+					...location,
+					id: location.location_id,
+					pallets: occupancy.get(location.location_id) ?? 0,
+					state: getLocationState(location),
+				}))
+			);
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to load locations");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setLoading(false);
+		}
+	}, [enqueueSnackbar]);
+
+	useEffect(() => {
+		load();
+	}, [load]);
+
+	const racks = useMemo(
+		() => [...new Set(rows.filter((r) => r.type === "RACK").map((r) => r.rack as number))].sort((a, b) => a - b),
+		[rows]
+	);
+	const levels = useMemo(
+		() => [...new Set(rows.filter((r) => r.type === "RACK").map((r) => r.level as number))].sort((a, b) => a - b),
+		[rows]
+	);
+	const shown = useMemo(() => rows.filter((row) => matchesFilters(row, filters)), [rows, filters]);
+	// Retired locations have no slot to label
+	const printable = shown.filter((row) => row.state !== "Retired");
+
+	const applyUpdate = async (ids: string[], updates: LocationUpdate, done: string) => {
+		if (ids.length === 0) return;
+		try {
+			setIsSubmitting(true);
+			await locationsApi.update(ids, updates);
+			enqueueSnackbar(done, { variant: "success" });
+			load();
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to update locations");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const handleBulk = (updates: LocationUpdate, verb: string) => {
+		const ids = shown.filter((row) => Object.entries(updates).some(([k, v]) => row[k as keyof Location] !== v));
+		if (ids.length === 0) {
+			enqueueSnackbar(`Nothing to ${verb.toLowerCase()}`, { variant: "info" });
+			return;
+		}
+		applyUpdate(
+			ids.map((row) => row.location_id),
+			updates,
+			`${verb} ${ids.length} location(s)`
+		);
+	};
+
+	const handleAdd = async () => {
+		if (!warehouse) return;
+		try {
+			setIsSubmitting(true);
+			const generated = generateLocations(warehouse, toPattern(pattern));
+			const added = await locationsApi.create(generated);
+			const skipped = generated.length - added.length;
+			enqueueSnackbar(`Added ${added.length} location(s)${skipped > 0 ? `, ${skipped} already existed` : ""}`, {
+				variant: "success",
+			});
+			setShowAdd(false);
+			setPattern(EMPTY_PATTERN);
+			load();
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to add locations");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const handlePrint = async () => {
+		try {
+			setIsSubmitting(true);
+			await printLocationLabels(printable, labelOptions);
+			setShowPrint(false);
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to print labels");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const handleFilter = (field: keyof Filters) => (e: { target: { value: string } }) =>
+		setFilters((prev) => ({ ...prev, [field]: e.target.value }));
+
+	const handlePattern =
+		(field: "racks" | "levels" | "positions" | "zones", index: 0 | 1) => (e: { target: { value: string } }) =>
+			setPattern((prev) => {
+				const next = [...prev[field]];
+				next[index] = e.target.value;
+				return { ...prev, [field]: next };
+			});
+
+	const columns: GridColDef<LocationRow>[] = [
+		{ field: "location_id", headerName: "Location", width: 150 },
+		{ field: "type", headerName: "Type", width: 90 },
+		{ field: "rack", headerName: "Rack", width: 80 },
+		{ field: "level", headerName: "Level", width: 80 },
+		{ field: "position", headerName: "Position", width: 90 },
+		{ field: "pallets", headerName: "Pallets", width: 90, type: "number" },
+		{
+			field: "state",
+			headerName: "Status",
+			width: 110,
+			renderCell: ({ row }) => <Chip label={row.state} color={STATE_COLORS[row.state]} size="small" />,
+		},
+		{
+			field: "actions",
+			headerName: "Actions",
+			flex: 1,
+			minWidth: 220,
+			sortable: false,
+			renderCell: ({ row }) => (
+				<Box sx={{ display: "flex", gap: 1, alignItems: "center", height: "100%" }}>
+					{row.state !== "Retired" && (
+						<Button
+							size="small"
+							variant="outlined"
+							color="warning"
+							disabled={isSubmitting}
+							onClick={() =>
+								applyUpdate(
+									[row.location_id],
+									{ is_blocked: !row.is_blocked },
+									`${row.location_id} ${row.is_blocked ? "unblocked" : "blocked"}`
+								)
+							}
+						>
+							{row.is_blocked ? "Unblock" : "Block"}
+						</Button>
+					)}
+					<Button
+						size="small"
+						variant="outlined"
+						disabled={isSubmitting}
+						onClick={() =>
+							applyUpdate(
+								[row.location_id],
+								{ is_active: row.state === "Retired" },
+								`${row.location_id} ${row.state === "Retired" ? "reactivated" : "retired"}`
+							)
+						}
+					>
+						{row.state === "Retired" ? "Reactivate" : "Retire"}
+					</Button>
+				</Box>
+			),
+		},
+	];
+
+	return (
+		<Box>
+			<Card sx={{ mb: 3 }}>
+				<CardContent>
+					<Box sx={{ display: "flex", flexWrap: "wrap", gap: 2, alignItems: "center" }}>
+						<FormControl size="small" sx={{ minWidth: 130 }}>
+							<InputLabel id="location-rack-label">Rack</InputLabel>
+							<Select labelId="location-rack-label" label="Rack" value={filters.rack} onChange={handleFilter("rack")}>
+								<MenuItem value="">All</MenuItem>
+								{racks.map((rack) => (
+									<MenuItem key={rack} value={String(rack)}>
+										Rack {rack}
+									</MenuItem>
+								))}
+								<MenuItem value="AISLE">Aisle zones</MenuItem>
+							</Select>
+						</FormControl>
+						<FormControl size="small" sx={{ minWidth: 110 }}>
+							<InputLabel id="location-level-label">Level</InputLabel>
+							<Select
+								labelId="location-level-label"
+								label="Level"
+								value={filters.level}
+								onChange={handleFilter("level")}
+							>
+								<MenuItem value="">All</MenuItem>
+								{levels.map((level) => (
+									<MenuItem key={level} value={String(level)}>
+										Level {level}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+						<FormControl size="small" sx={{ minWidth: 130 }}>
+							<InputLabel id="location-state-label">Status</InputLabel>
+							<Select
+								labelId="location-state-label"
+								label="Status"
+								value={filters.state}
+								onChange={handleFilter("state")}
+							>
+								<MenuItem value="">All</MenuItem>
+								{Object.keys(STATE_COLORS).map((state) => (
+									<MenuItem key={state} value={state}>
+										{state}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+						<Box sx={{ flex: 1 }} />
+						<Button variant="outlined" startIcon={<PrinterIcon size={16} />} onClick={() => setShowPrint(true)}>
+							Print Labels
+						</Button>
+						<Button variant="contained" startIcon={<PlusIcon size={16} />} onClick={() => setShowAdd(true)}>
+							Add Locations
+						</Button>
+					</Box>
+
+					<Box sx={{ display: "flex", flexWrap: "wrap", gap: 1, alignItems: "center", mt: 2 }}>
+						<Typography variant="body2" color="text.secondary" sx={{ mr: 1 }}>
+							{shown.length} shown · {shown.reduce((sum, row) => sum + row.pallets, 0)} pallets
+						</Typography>
+						<Button size="small" disabled={isSubmitting} onClick={() => handleBulk({ is_blocked: true }, "Blocked")}>
+							Block shown
+						</Button>
+						<Button size="small" disabled={isSubmitting} onClick={() => handleBulk({ is_blocked: false }, "Unblocked")}>
+							Unblock shown
+						</Button>
+						<Button size="small" disabled={isSubmitting} onClick={() => handleBulk({ is_active: false }, "Retired")}>
+							Retire shown
+						</Button>
+						<Button size="small" disabled={isSubmitting} onClick={() => handleBulk({ is_active: true }, "Reactivated")}>
+							Reactivate shown
+						</Button>
+					</Box>
+				</CardContent>
+			</Card>
+
+			<Box sx={{ height: 560, width: "100%" }}>
+				<DataGrid
+					rows={shown}
+					columns={columns}
+					loading={loading}
+					initialState={{ pagination: { paginationModel: { pageSize: 25 } } }}
+					pageSizeOptions={[25, 50, 100]}
+					disableRowSelectionOnClick
+				/>
+			</Box>
+
+			{/* Print Labels Dialog */}
+			<Dialog open={showPrint} onClose={() => setShowPrint(false)}>
+				<DialogTitle>Print Location Labels</DialogTitle>
+				<DialogContent sx={{ minWidth: "420px" }}>
+					<Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+						<FormControl fullWidth>
+							<InputLabel id="label-layout-label">Layout</InputLabel>
+							<Select
+								labelId="label-layout-label"
+								label="Layout"
+								value={labelOptions.layout}
+								onChange={(e) =>
+									setLabelOptions({ ...labelOptions, layout: e.target.value as LocationLabelOptions["layout"] })
+								}
+							>
+								<MenuItem value="4x2">4×2 in labels (label printer)</MenuItem>
+								<MenuItem value="A4">A4 sheets, 14 per sheet</MenuItem>
+							</Select>
+						</FormControl>
+						<FormControlLabel
+							control={
+								<Checkbox
+									checked={labelOptions.colourByLevel}
+									onChange={(e) => setLabelOptions({ ...labelOptions, colourByLevel: e.target.checked })}
+								/>
+							}
+							label="Colour by level"
+						/>
+						<Alert severity="info">
+							{printable.length} label(s) for the locations shown; retired locations are left out. Filter by rack to
+							print one rack.
+						</Alert>
+					</Box>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setShowPrint(false)}>Cancel</Button>
+					<Button onClick={handlePrint} variant="contained" disabled={isSubmitting || printable.length === 0}>
+						{isSubmitting ? <CircularProgress size={24} /> : "Print"}
+					</Button>
+				</DialogActions>
+			</Dialog>
+
+			{/* Add Locations Dialog */}
+			<Dialog open={showAdd} onClose={() => setShowAdd(false)}>
+				<DialogTitle>Add Locations</DialogTitle>
+				<DialogContent sx={{ minWidth: "420px" }}>
+					<Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+						<FormControl fullWidth>
+							<InputLabel id="pattern-type-label">Type</InputLabel>
+							<Select
+								labelId="pattern-type-label"
+								label="Type"
+								value={pattern.type}
+								onChange={(e) => setPattern({ ...pattern, type: e.target.value as LocationPattern["type"] })}
+							>
+								<MenuItem value="RACK">Rack slots</MenuItem>
+								<MenuItem value="AISLE">Aisle zones</MenuItem>
+							</Select>
+						</FormControl>
+
+						{pattern.type === "RACK" ? (
+							(
+								[
+									["racks", "Rack"],
+									["levels", "Level"],
+									["positions", "Position"],
+								] as const
+							).map(([field, label]) => (
+								<Box key={field} sx={{ display: "flex", gap: 2 }}>
+									<TextField
+										label={`${label} from`}
+										value={pattern[field][0]}
+										onChange={handlePattern(field, 0)}
+										fullWidth
+									/>
+									<TextField
+										label={`${label} to`}
+										value={pattern[field][1]}
+										onChange={handlePattern(field, 1)}
+										fullWidth
+									/>
+								</Box>
+							))
+						) : (
+							<Box sx={{ display: "flex", gap: 2 }}>
+								<TextField label="Zone from" value={pattern.zones[0]} onChange={handlePattern("zones", 0)} fullWidth />
+								<TextField label="Zone to" value={pattern.zones[1]} onChange={handlePattern("zones", 1)} fullWidth />
+							</Box>
+						)}
+
+						<Alert severity="info">
+							{pattern.type === "RACK"
+								? "Every rack × level × position in the ranges is added, e.g. racks 9-10, levels 1-4, positions A-T."
+								: "Aisle zones are named W1-AISLE-05 and so on."}{" "}
+							Locations that already exist are skipped.
+						</Alert>
+					</Box>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setShowAdd(false)}>Cancel</Button>
+					<Button onClick={handleAdd} variant="contained" disabled={isSubmitting || !warehouse}>
+						{isSubmitting ? <CircularProgress size={24} /> : "Add"}
+					</Button>
+				</DialogActions>
+			</Dialog>
+		</Box>
+	);
+}
@@ -30,3 +30,6 @@ export type { PhotoCaptureProps } from "./PhotoCapture";
 export { EnvIndicator } from "./env-indicator";
 export { FeatureFlagGuard } from "./feature-flag-guard";
 export { ErrorBoundary } from "./error-boundary/error-boundary";
+
+export { ScanBar } from "./scan-bar";
+export type { ScanBarProps } from "./scan-bar";
@@ -1,5 +1,7 @@
 import { closeSnackbar, enqueueSnackbar, SnackbarKey } from "notistack";
 
+import { toWmsError } from "@/lib/api/errors";
+
 // Define toast durations according to requirements
 export const TOAST_DURATIONS = {
 	success: 3000, // 3000 ms
@@ -15,8 +17,32 @@ export const MESSAGE_TEMPLATES = {
 	FORM_SAVED_MOCK: "Saved successfully (mock).",
 	FORM_VALIDATION_ERROR: "Please fix the highlighted fields.",
 	NETWORK_ERROR: "We couldn't reach the server. Try again.",
+	SESSION_EXPIRED: "Your session has expired. Sign in again.",
+	PERMISSION_DENIED: "You don't have permission to do that.",
 };
 
+/**
+ * Toast copy for an API error: generic copy for network, session, permission
+ * and field errors (the form shows the details), otherwise the error's own message
+ */
+export function getErrorToastMessage(error: unknown, fallbackMessage: string): string {
+	const wmsError = toWmsError(error, fallbackMessage);
+	switch (wmsError.code) {
+		case "network": {
+			return MESSAGE_TEMPLATES.NETWORK_ERROR;
+		}
+		case "unauthenticated": {
+			return MESSAGE_TEMPLATES.SESSION_EXPIRED;
+		}
+		case "permission_denied": {
+			return MESSAGE_TEMPLATES.PERMISSION_DENIED;
+		}
+		default: {
+			return Object.keys(wmsError.fieldErrors).length > 0 ? MESSAGE_TEMPLATES.FORM_VALIDATION_ERROR : wmsError.message;
+		}
+	}
+}
+
 // Utility toast functions to be used throughout the app
 export const toast = {
 	/**
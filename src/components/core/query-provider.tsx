@@ -0,0 +1,19 @@
+"use client";
+
+import * as React from "react";
+import { QueryClientProvider } from "@tanstack/react-query";
+
+import { createWmsQueryClient } from "@/hooks/wms/query-client";
+
+export interface QueryProviderProps {
+	children: React.ReactNode;
+}
+
+/**
+ * Shares one React Query cache across the app (see hooks/wms)
+ */
+export function QueryProvider({ children }: QueryProviderProps): React.JSX.Element {
+	const [queryClient] = React.useState(createWmsQueryClient);
+
+	return <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>;
+}
@@ -0,0 +1,184 @@
+/**
+ * ScanBar Component
+ *
+ * Scan entry for floor screens: a field for scans and typed barcodes, a
+ * camera button (browsers with the Barcode Detection API) and the outcome of
+ * the last scan. Keyboard-wedge scans are picked up by useScanInput anywhere
+ * on the page.
+ *
+ * @component
+ * @example
+ * ```tsx
+ * const scanner = useScanInput(handleScan);
+ * <ScanBar scanner={scanner} hint="Scan a pallet label" />
+ * ```
+ *
+ * @module components/core/ScanBar
+ */
+
+import React, { useCallback, useEffect, useRef, useState } from "react";
+import {
+	Alert,
+	Box,
+	Button,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	IconButton,
+	TextField,
+} from "@mui/material";
+import { BarcodeIcon } from "@phosphor-icons/react/dist/ssr/Barcode";
+import { CameraIcon } from "@phosphor-icons/react/dist/ssr/Camera";
+
+import type { ScanInputController } from "@/hooks/use-scan-input";
+
+/** The parts of the Barcode Detection API used here (not in the TS DOM types yet) */
+interface BarcodeDetectorLike {
+	detect: (source: HTMLVideoElement) => Promise<{ rawValue: string }[]>;
+}
+
+type BarcodeDetectorConstructor = new (options: { formats: string[] }) => BarcodeDetectorLike;
+
+function getBarcodeDetector(): BarcodeDetectorConstructor | undefined {
+	return (globalThis as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+}
+
+export interface ScanBarProps {
+	/** Controller from useScanInput */
+	scanner: ScanInputController;
+	/** What to scan next */
+	hint?: string;
+	/** Disable the field and camera (e.g. while saving) */
+	disabled?: boolean;
+}
+
+interface CameraScanDialogProps {
+	open: boolean;
+	onClose: () => void;
+	onDetect: (raw: string) => void;
+}
+
+/**
+ * Camera preview that closes on the first barcode found
+ */
+function CameraScanDialog({ open, onClose, onDetect }: CameraScanDialogProps) {
+	const videoRef = useRef<HTMLVideoElement>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		const BarcodeDetector = getBarcodeDetector();
+		if (!open || !BarcodeDetector) return;
+		let stream: MediaStream | undefined;
+		let frame = 0;
+		let stopped = false;
+		const detector = new BarcodeDetector({ formats: ["code_128", "qr_code"] });
+
+		const detect = async () => {
+			const video = videoRef.current;
+			if (stopped || !video) return;
+			const codes = await detector.detect(video).catch(() => []);
+			if (codes.length > 0) {
+				onDetect(codes[0].rawValue);
+				return;
+			}
+			frame = requestAnimationFrame(detect);
+		};
+
+		const start = async () => {
+			try {
+				stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: "environment" } });
+				if (stopped || !videoRef.current) return;
+				videoRef.current.srcObject = stream;
+				await videoRef.current.play();
+				detect();
+			} catch (error_) {
+				setError(error_ instanceof Error ? error_.message : "Camera unavailable");
+			}
+		};
+
+		setError(null);
+		start();
+		return () => {
+			stopped = true;
+			cancelAnimationFrame(frame);
+			for (const track of stream?.getTracks() ?? []) track.stop();
+		};
+	}, [open, onDetect]);
+
+	return (
+		<Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+			<DialogTitle>Scan with Camera</DialogTitle>
+			<DialogContent>
+				{error ? (
+					<Alert severity="error">{error}</Alert>
+				) : (
+					<Box component="video" ref={videoRef} muted playsInline sx={{ width: "100%", borderRadius: 1 }} />
+				)}
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose}>Cancel</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
+
+/**
+ * ScanBar Component
+ *
+ * @param props - ScanBar props
+ * @returns ScanBar component
+ */
+export function ScanBar({ scanner, hint = "Scan a barcode", disabled = false }: ScanBarProps) {
+	const [value, setValue] = useState("");
+	const [cameraOpen, setCameraOpen] = useState(false);
+	const cameraSupported = getBarcodeDetector() !== undefined;
+	const { submit, feedback } = scanner;
+
+	const handleDetect = useCallback(
+		(raw: string) => {
+			setCameraOpen(false);
+			submit(raw);
+		},
+		[submit]
+	);
+
+	return (
+		<Box sx={{ mb: 2 }}>
+			<Box sx={{ display: "flex", gap: 1, alignItems: "center" }}>
+				<TextField
+					size="small"
+					fullWidth
+					value={value}
+					placeholder={hint}
+					disabled={disabled}
+					onChange={(event) => setValue(event.target.value)}
+					onKeyDown={(event) => {
+						if (event.key === "Enter") {
+							event.preventDefault();
+							submit(value);
+							setValue("");
+						}
+					}}
+					slotProps={{
+						htmlInput: { "aria-label": "Scan barcode" },
+						input: { startAdornment: <BarcodeIcon size={20} style={{ marginRight: 8 }} /> },
+					}}
+				/>
+				{cameraSupported && (
+					<IconButton aria-label="Scan with camera" onClick={() => setCameraOpen(true)} disabled={disabled}>
+						<CameraIcon size={24} />
+					</IconButton>
+				)}
+			</Box>
+			{feedback && (
+				<Alert severity={feedback.status} sx={{ mt: 1 }} role="status">
+					{feedback.message}
+				</Alert>
+			)}
+			{cameraSupported && (
+				<CameraScanDialog open={cameraOpen} onClose={() => setCameraOpen(false)} onDetect={handleDetect} />
+			)}
+		</Box>
+	);
+}
@@ -0,0 +1,82 @@
+/**
+ * Global Search Dialog Tests
+ *
+ * @module components/dashboard/layout/searchDialog.test
+ */
+
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { MemoryRouter, Route, Routes, useLocation } from "react-router-dom";
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+
+import type { ReceivingOrder } from "@/types/domain";
+import { paths } from "@/paths";
+import { receivingOrders } from "@/lib/api/wms-api";
+
+import { SearchDialog } from "./search-dialog";
+
+vi.mock("@/lib/api/wms-api", () => ({
+	receivingOrders: {
+		query: vi.fn(),
+	},
+}));
+
+const ORDER: ReceivingOrder = {
+	id: "order-42",
+	receipt_ref: "RCV-2026-0042",
+	container_num: "MSCU1234567",
+	seal_num: "SEAL-9",
+	status: "Staged",
+	created_at: "2026-10-01T12:00:00Z",
+	created_by: "user-1",
+};
+
+function ReceivingSummary() {
+	const location = useLocation();
+	return <p>Summary of {(location.state as { receivingOrderId: string }).receivingOrderId}</p>;
+}
+
+function renderDialog(onClose = vi.fn()) {
+	render(
+		<MemoryRouter>
+			<Routes>
+				<Route path="/" element={<SearchDialog open onClose={onClose} />} />
+				<Route path={paths.warehouseScreens.screen2} element={<ReceivingSummary />} />
+			</Routes>
+		</MemoryRouter>
+	);
+	return onClose;
+}
+
+function search(text: string) {
+	const input = screen.getByPlaceholderText(/RCV-2026-0042/);
+	fireEvent.change(input, { target: { value: text } });
+	fireEvent.submit(input.closest("form") as HTMLFormElement);
+}
+
+describe("SearchDialog", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(receivingOrders.query as Mock).mockResolvedValue([ORDER]);
+	});
+
+	it("finds receiving orders by receipt ref and opens the receiving summary", async () => {
+		const onClose = renderDialog();
+
+		search("0042");
+
+		fireEvent.click(await screen.findByText("RCV-2026-0042"));
+		expect(receivingOrders.query).toHaveBeenCalledWith({ search: "0042" });
+		expect(await screen.findByText("Summary of order-42")).toBeInTheDocument();
+		expect(onClose).toHaveBeenCalled();
+	});
+
+	it("says when nothing matches", async () => {
+		(receivingOrders.query as Mock).mockResolvedValue([]);
+		renderDialog();
+
+		search("RCV-2025-9999");
+
+		expect(await screen.findByText('No receiving orders match "RCV-2025-9999"')).toBeInTheDocument();
+	});
+});
@@ -1,106 +1,92 @@
 "use client";
 
 import * as React from "react";
-import Badge from "@mui/material/Badge";
+import Alert from "@mui/material/Alert";
 import Box from "@mui/material/Box";
+import Chip from "@mui/material/Chip";
 import CircularProgress from "@mui/material/CircularProgress";
 import Dialog from "@mui/material/Dialog";
 import DialogContent from "@mui/material/DialogContent";
 import Divider from "@mui/material/Divider";
 import IconButton from "@mui/material/IconButton";
 import InputAdornment from "@mui/material/InputAdornment";
+import ListItemButton from "@mui/material/ListItemButton";
 import OutlinedInput from "@mui/material/OutlinedInput";
 import Stack from "@mui/material/Stack";
 import Typography from "@mui/material/Typography";
 import { MagnifyingGlassIcon } from "@phosphor-icons/react/dist/ssr/MagnifyingGlass";
 import { XIcon } from "@phosphor-icons/react/dist/ssr/X";
+import { useNavigate } from "react-router-dom";
 
+import type { ReceivingOrder } from "@/types/domain";
+import { paths } from "@/paths";
+import { receivingOrders } from "@/lib/api/wms-api";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
 import { Tip } from "@/components/core/tip";
 
-function wait(time: number): Promise<void> {
-	return new Promise((res) => {
-		setTimeout(res, time);
-	});
-}
-
-interface Article {
-	id: string;
-	description: string;
-	title: string;
-	category: string;
-}
-
-const articles: Record<string, Article[]> = {
-	Platform: [
-		{
-			id: "ART-1",
-			description:
-				"Provide your users with the content they need, exactly when they need it, by building a next-level site search experience using our AI-powered search API.",
-			title: "Level up your site search experience with our hosted API",
-			category: "Users / Api-usage",
-		},
-		{
-			id: "ART-2",
-			description:
-				"Algolia is a search-as-a-service API that helps marketplaces build performant search experiences at scale while reducing engineering time.",
-			title: "Build performant marketplace search at scale",
-			category: "Users / Api-usage",
-		},
-	],
-	Resources: [
-		{
-			id: "ART-3",
-			description: "Algolia's architecture is heavily redundant, hosting every application on …",
-			title: "Using NetInfo API to Improve Algolia's JavaScript Client",
-			category: "Resources / Blog posts",
-		},
-		{
-			id: "ART-4",
-			description: "Explore the intricacies of building high-performance applications with Algolia.",
-			title: "Build performance",
-			category: "Resources / UI libraries",
-		},
-	],
-};
-
 export interface SearchDialogProps {
 	onClose?: () => void;
 	open?: boolean;
 }
 
+/**
+ * Global search: receiving orders by receipt ref (RCV-2026-0042) or container #
+ *
+ * Staged and received orders open in the receiving summary (Screen 2); orders
+ * still at the warehouse open the pending receipts list (Screen 5).
+ */
 export function SearchDialog({ onClose, open = false }: SearchDialogProps): React.JSX.Element {
+	const navigate = useNavigate();
 	const [value, setValue] = React.useState<string>("");
 	const [isLoading, setIsLoading] = React.useState<boolean>(false);
-	const [displayArticles, setDisplayArticles] = React.useState<boolean>(false);
+	const [results, setResults] = React.useState<ReceivingOrder[] | null>(null);
+	const [error, setError] = React.useState<string | null>(null);
+
+	const handleSubmit = React.useCallback(
+		async (event: React.FormEvent): Promise<void> => {
+			event.preventDefault();
+			if (!value.trim()) return;
+			setResults(null);
+			setError(null);
+			setIsLoading(true);
+			try {
+				setResults(await receivingOrders.query({ search: value }));
+			} catch (error_) {
+				setError(getErrorToastMessage(error_, "Search failed"));
+			} finally {
+				setIsLoading(false);
+			}
+		},
+		[value]
+	);
 
-	const handleSubmit = React.useCallback(async (event: React.FormEvent): Promise<void> => {
-		event.preventDefault();
-		setDisplayArticles(false);
-		setIsLoading(true);
-		// Do search here
-		await wait(1500);
-		setIsLoading(false);
-		setDisplayArticles(true);
-	}, []);
+	const handleSelect = (order: ReceivingOrder) => {
+		if (order.status === "Staged" || order.status === "Received") {
+			navigate(paths.warehouseScreens.screen2, { state: { receivingOrderId: order.id } });
+		} else {
+			navigate(paths.warehouseScreens.screen5);
+		}
+		onClose?.();
+	};
 
 	return (
 		<Dialog fullWidth maxWidth="sm" onClose={onClose} open={open}>
 			<Stack direction="row" spacing={3} sx={{ alignItems: "center", justifyContent: "space-between", px: 3, py: 2 }}>
 				<Typography variant="h6">Search</Typography>
-				<IconButton onClick={onClose}>
+				<IconButton aria-label="Close search" onClick={onClose}>
 					<XIcon />
 				</IconButton>
 			</Stack>
 			<DialogContent>
 				<Stack spacing={3}>
-					<Tip message="Search by entering a keyword and pressing Enter" />
+					<Tip message="Search receiving orders by receipt ref or container # and press Enter" />
 					<form onSubmit={handleSubmit}>
 						<OutlinedInput
 							fullWidth
 							onChange={(event) => {
 								setValue(event.target.value);
 							}}
-							placeholder="Search..."
+							placeholder="e.g., RCV-2026-0042 or MSCU1234567"
 							startAdornment={
 								<InputAdornment position="start">
 									<MagnifyingGlassIcon />
@@ -114,31 +100,31 @@ export function SearchDialog({ onClose, open = false }: SearchDialogProps): Reac
 							<CircularProgress />
 						</Box>
 					) : null}
-					{displayArticles ? (
+					{error ? <Alert severity="error">{error}</Alert> : null}
+					{results?.length === 0 ? (
+						<Typography color="text.secondary" variant="body2">
+							No receiving orders match &quot;{value.trim()}&quot;
+						</Typography>
+					) : null}
+					{results && results.length > 0 ? (
 						<Stack spacing={2}>
-							{Object.keys(articles).map((group) => (
-								<Stack key={group} spacing={2}>
-									<Typography variant="h6">{group}</Typography>
-									<Stack divider={<Divider />} sx={{ border: "1px solid var(--mui-palette-divider)", borderRadius: 1 }}>
-										{articles[group].map((article) => (
-											<Stack key={article.id} spacing={1} sx={{ p: 2 }}>
-												<div>
-													<Stack direction="row" spacing={2} sx={{ alignItems: "center", pl: 1 }}>
-														<Badge color="primary" variant="dot" />
-														<Typography variant="subtitle1">{article.title}</Typography>
-													</Stack>
-													<Typography color="text.secondary" variant="body2">
-														{article.category}
-													</Typography>
-												</div>
+							<Typography variant="h6">Receiving Orders</Typography>
+							<Stack divider={<Divider />} sx={{ border: "1px solid var(--mui-palette-divider)", borderRadius: 1 }}>
+								{results.map((order) => (
+									<ListItemButton key={order.id} onClick={() => handleSelect(order)} sx={{ p: 2 }}>
+										<Stack direction="row" spacing={2} sx={{ alignItems: "center", width: "100%" }}>
+											<Box sx={{ flex: 1 }}>
+												<Typography variant="subtitle1">{order.receipt_ref}</Typography>
 												<Typography color="text.secondary" variant="body2">
-													{article.description}
+													Container {order.container_num} · Seal {order.seal_num} ·{" "}
+													{new Date(order.created_at).toLocaleDateString()}
 												</Typography>
-											</Stack>
-										))}
-									</Stack>
-								</Stack>
-							))}
+											</Box>
+											<Chip label={order.status} size="small" variant="outlined" />
+										</Stack>
+									</ListItemButton>
+								))}
+							</Stack>
 						</Stack>
 					) : null}
 				</Stack>
@@ -0,0 +1,53 @@
+/**
+ * Rack Occupancy Widget Tests
+ *
+ * @module components/dashboard/overview/rackOccupancy.test
+ */
+
+import React from "react";
+import { fireEvent, render, screen } from "@testing-library/react";
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+
+import { locations, pallets, products } from "@/lib/api/wms-api";
+
+import { RackOccupancy } from "./rack-occupancy";
+
+vi.mock("@/lib/api/wms-api", () => ({
+	locations: {
+		getAll: vi.fn(),
+	},
+	pallets: {
+		getFiltered: vi.fn(),
+	},
+	products: {
+		getAll: vi.fn(),
+	},
+}));
+
+describe("RackOccupancy", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(locations.getAll as Mock).mockResolvedValue([
+			{ location_id: "W1-1-1-A", warehouse_id: "wh-1", type: "RACK", rack: 1, level: 1, position: "A" },
+			{ location_id: "W1-1-1-B", warehouse_id: "wh-1", type: "RACK", rack: 1, level: 1, position: "B" },
+			{ location_id: "W1-2-1-A", warehouse_id: "wh-1", type: "RACK", rack: 2, level: 1, position: "A" },
+		]);
+		(pallets.getFiltered as Mock).mockResolvedValue([
+			{ id: "p1", item_id: "ITEM-001", qty: 10, status: "Stored", is_cross_dock: false, location_id: "W1-1-1-A" },
+		]);
+		(products.getAll as Mock).mockResolvedValue([{ item_id: "ITEM-001", pallet_positions: 1 }]);
+	});
+
+	it("shows utilisation per rack and opens a rack's map", async () => {
+		render(<RackOccupancy />);
+
+		expect(await screen.findByText("1/2 · 50%")).toBeInTheDocument();
+		expect(screen.getByText("0/1 · 0%")).toBeInTheDocument();
+		expect(screen.getByText("1 of 3 slots in use (33%)")).toBeInTheDocument();
+		expect(pallets.getFiltered).toHaveBeenCalledWith({ status: ["Received", "Stored", "Staged"] });
+
+		fireEvent.click(screen.getByRole("button", { name: "Rack 1" }));
+		expect(screen.getByLabelText("W1-1-1-A Occupied")).toBeInTheDocument();
+		expect(screen.getByLabelText("W1-1-1-B Empty")).toBeInTheDocument();
+	});
+});
@@ -0,0 +1,117 @@
+/**
+ * Rack Occupancy Widget
+ *
+ * Dashboard card with the % of slots in use per rack; clicking a rack opens
+ * its map (the same map put-away uses on Screen8).
+ *
+ * @module components/dashboard/overview/rackOccupancy
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { buildRackGrids, getRackUtilisation } from "@/utils/rack-map";
+import { Box, Card, CardContent, CardHeader, CircularProgress, LinearProgress, Stack, Typography } from "@mui/material";
+
+import type { Location, Pallet, Product } from "@/types/domain";
+import { locations as locationsApi, pallets as palletsApi, products as productsApi } from "@/lib/api/wms-api";
+import { RackMap, RackMapLegend } from "@/components/inventory/rack-map";
+
+export function RackOccupancy(): React.JSX.Element {
+	const [allLocations, setAllLocations] = useState<Location[]>([]);
+	const [floorPallets, setFloorPallets] = useState<Pallet[]>([]);
+	const [productList, setProductList] = useState<Product[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [openRack, setOpenRack] = useState<number | null>(null);
+
+	useEffect(() => {
+		const load = async () => {
+			try {
+				setLoading(true);
+				const [locationList, palletList, products] = await Promise.all([
+					locationsApi.getAll(),
+					palletsApi.getFiltered({ status: ["Received", "Stored", "Staged"] }),
+					productsApi.getAll(),
+				]);
+				setAllLocations(locationList);
+				setFloorPallets(palletList);
+				setProductList(products);
+			} catch (error) {
+				console.error("Error loading rack occupancy:", error);
+			} finally {
+				setLoading(false);
+			}
+		};
+
+		load();
+	}, []);
+
+	const grids = useMemo(
+		() => buildRackGrids(allLocations, floorPallets, productList),
+		[allLocations, floorPallets, productList]
+	);
+	const utilisation = useMemo(() => getRackUtilisation(grids), [grids]);
+	const totals = utilisation.reduce(
+		(sum, rack) => ({ slots: sum.slots + rack.slots, occupied: sum.occupied + rack.occupied }),
+		{ slots: 0, occupied: 0 }
+	);
+	const openGrid = grids.find((grid) => grid.rack === openRack);
+
+	return (
+		<Card>
+			<CardHeader
+				title="Rack Occupancy"
+				subheader={
+					loading || totals.slots === 0
+						? undefined
+						: `${totals.occupied} of ${totals.slots} slots in use (${Math.round((totals.occupied / totals.slots) * 100)}%)`
+				}
+			/>
+			<CardContent>
+				{loading ? (
+					<Box sx={{ display: "flex", justifyContent: "center", py: 2 }}>
+						<CircularProgress size={24} />
+					</Box>
+				) : utilisation.length === 0 ? (
+					<Typography color="text.secondary">No rack locations</Typography>
+				) : (
+					<Stack spacing={1.5}>
+						{utilisation.map((rack) => (
+							<Box
+								key={rack.rack}
+								role="button"
+								aria-label={`Rack ${rack.rack}`}
+								onClick={() => setOpenRack(openRack === rack.rack ? null : rack.rack)}
+								sx={{ cursor: "pointer" }}
+							>
+								<Box sx={{ display: "flex", justifyContent: "space-between", mb: 0.5 }}>
+									<Typography variant="body2" sx={{ fontWeight: openRack === rack.rack ? "bold" : "normal" }}>
+										Rack {rack.rack}
+									</Typography>
+									<Typography variant="body2" color="text.secondary">
+										{rack.occupied}/{rack.slots} · {rack.percent}%
+									</Typography>
+								</Box>
+								<LinearProgress
+									variant="determinate"
+									value={rack.percent}
+									color={rack.percent >= 90 ? "error" : rack.percent >= 75 ? "warning" : "primary"}
+								/>
+							</Box>
+						))}
+
+						{openGrid && (
+							<Box sx={{ pt: 2 }}>
+								<Typography variant="subtitle2" sx={{ mb: 1 }}>
+									Rack {openGrid.rack}
+								</Typography>
+								<RackMap grid={openGrid} />
+								<Box sx={{ mt: 1.5 }}>
+									<RackMapLegend />
+								</Box>
+							</Box>
+						)}
+					</Stack>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
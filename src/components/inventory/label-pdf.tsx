@@ -0,0 +1,96 @@
+/**
+ * Label PDF Helpers
+ *
+ * Pieces shared by the printable labels (pallet labels, location labels):
+ * a Code 128 barcode drawn for @react-pdf/renderer, splitting labels into
+ * pages and opening a rendered document in a new tab for printing (or
+ * downloading it when the tab is blocked).
+ *
+ * @module components/inventory/labelPdf
+ */
+
+import React from "react";
+import { encodeCode128, getCode128Width } from "@/utils/code128";
+import { pdf, Rect, Svg, type DocumentProps } from "@react-pdf/renderer";
+
+/** Blank modules either side of a barcode */
+const QUIET_ZONE = 10;
+
+interface PdfBarcodeProps {
+	value: string;
+	/** Bar height in points; the barcode fills the available width */
+	height: number;
+}
+
+export function PdfBarcode({ value, height }: PdfBarcodeProps) {
+	const widths = encodeCode128(value);
+	const total = getCode128Width(widths) + QUIET_ZONE * 2;
+	let x = QUIET_ZONE;
+	const bars = widths.map((width, index) => {
+		const bar = index % 2 === 0 ? <Rect key={index} x={x} y={0} width={width} height={height} fill="#000" /> : null;
+		x += width;
+		return bar;
+	});
+
+	return (
+		<Svg viewBox={`0 0 ${total} ${height}`} preserveAspectRatio="none" style={{ width: "100%", height }}>
+			{bars}
+		</Svg>
+	);
+}
+
+/**
+ * Split labels into pages of perPage
+ */
+export function toPages<T>(labels: T[], perPage: number): T[][] {
+	return Array.from({ length: Math.ceil(labels.length / perPage) }, (_, page) =>
+		labels.slice(page * perPage, (page + 1) * perPage)
+	);
+}
+
+/** How long a new tab gets to load the PDF before its object URL is revoked */
+const OBJECT_URL_LIFETIME_MS = 60_000;
+
+/**
+ * Download a file from an object URL
+ */
+function downloadUrl(url: string, filename: string): void {
+	const link = document.createElement("a");
+	link.href = url;
+	link.download = filename;
+	document.body.append(link);
+	link.click();
+	link.remove();
+}
+
+/**
+ * Render a document to a PDF and open it in a new tab for printing
+ *
+ * Call it straight from a click handler: the tab opens before the document
+ * renders, while the click still counts as a user gesture, so popup blockers
+ * let it through. If the tab is blocked anyway the PDF is downloaded instead.
+ * The object URL is revoked once the tab has had time to load it.
+ *
+ * @param content - Document to render
+ * @param filename - Name of the file when it is downloaded instead
+ */
+export async function openPdf(content: React.ReactElement<DocumentProps>, filename: string): Promise<void> {
+	const tab = window.open("", "_blank");
+	if (tab) tab.opener = null;
+
+	let url: string;
+	try {
+		url = URL.createObjectURL(await pdf(content).toBlob());
+	} catch (error) {
+		tab?.close();
+		throw error;
+	}
+
+	if (tab) {
+		tab.location.href = url;
+		setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+	} else {
+		downloadUrl(url, filename);
+		URL.revokeObjectURL(url);
+	}
+}
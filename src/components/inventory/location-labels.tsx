@@ -0,0 +1,148 @@
+/**
+ * Location Labels
+ *
+ * Printable rack slot and aisle zone labels rendered with
+ * @react-pdf/renderer: rack, level and position (or aisle zone) in large
+ * type, and a Code 128 barcode of the location ID that the put-away and
+ * cycle count screens scan.
+ *
+ * Two layouts: "4x2" puts one label on each 4×2 in page (thermal label
+ * printers), "A4" puts fourteen labels on each A4 sheet. Labels can be
+ * coloured by level so each beam of a rack carries the same colour.
+ *
+ * @module components/inventory/locationLabels
+ */
+
+import React from "react";
+import { Document, Page, StyleSheet, Text, View } from "@react-pdf/renderer";
+
+import type { Location } from "@/types/domain";
+import { openPdf, PdfBarcode, toPages } from "@/components/inventory/label-pdf";
+
+export type LocationLabelLayout = "4x2" | "A4";
+
+export interface LocationLabelOptions {
+	layout: LocationLabelLayout;
+	/** Colour the level (and the label's edge) by level */
+	colourByLevel: boolean;
+}
+
+/** Labels per page and page size in points (72 pt = 1 in) */
+const LAYOUTS: Record<LocationLabelLayout, { size: [number, number]; columns: number; rows: number }> = {
+	"4x2": { size: [288, 144], columns: 1, rows: 1 },
+	A4: { size: [595.28, 841.89], columns: 2, rows: 7 },
+};
+
+const PAGE_MARGIN = 12;
+
+/** Level colours from the floor up; repeats above level 6 */
+export const LEVEL_COLORS = ["#c62828", "#f9a825", "#2e7d32", "#1565c0", "#6a1b9a", "#ef6c00"];
+
+const styles = StyleSheet.create({
+	page: { padding: PAGE_MARGIN, flexDirection: "row", flexWrap: "wrap", fontFamily: "Helvetica" },
+	label: { flexDirection: "row", border: "1pt solid #000" },
+	band: { width: 12 },
+	body: { flex: 1, padding: 6, justifyContent: "space-between" },
+	parts: { flexDirection: "row", justifyContent: "space-around" },
+	part: { alignItems: "center", paddingHorizontal: 6, borderRadius: 3 },
+	partLabel: { fontSize: 7 },
+	partValue: { fontFamily: "Helvetica-Bold" },
+	locationId: { fontSize: 7, textAlign: "center", marginTop: 1 },
+});
+
+/**
+ * Colour of a level's labels
+ */
+export function getLevelColor(level: number): string {
+	return LEVEL_COLORS[(level - 1) % LEVEL_COLORS.length];
+}
+
+/**
+ * The large parts of a location label: rack, level and position, or the aisle zone
+ */
+function getLabelParts(location: Location): { label: string; value: string; level?: number }[] {
+	if (location.type === "AISLE") {
+		return [{ label: "AISLE", value: location.location_id.match(/(\d+)$/)?.[1] ?? location.location_id }];
+	}
+	return [
+		{ label: "RACK", value: String(location.rack ?? "") },
+		{ label: "LEVEL", value: String(location.level ?? ""), level: location.level },
+		{ label: "POS", value: location.position ?? "" },
+	];
+}
+
+interface LabelProps {
+	location: Location;
+	width: number;
+	height: number;
+	colourByLevel: boolean;
+}
+
+function Label({ location, width, height, colourByLevel }: LabelProps) {
+	const color = colourByLevel && location.level ? getLevelColor(location.level) : undefined;
+	const valueSize = Math.round(height * 0.3);
+
+	return (
+		<View style={[styles.label, { width, height }]} wrap={false}>
+			{color && <View style={[styles.band, { backgroundColor: color }]} />}
+			<View style={styles.body}>
+				<View style={styles.parts}>
+					{getLabelParts(location).map((part) => {
+						const highlight = color && part.level !== undefined;
+						return (
+							<View key={part.label} style={[styles.part, highlight ? { backgroundColor: color, color: "#fff" } : {}]}>
+								<Text style={styles.partLabel}>{part.label}</Text>
+								<Text style={[styles.partValue, { fontSize: valueSize }]}>{part.value}</Text>
+							</View>
+						);
+					})}
+				</View>
+				<View>
+					<PdfBarcode value={location.location_id} height={Math.round(height * 0.22)} />
+					<Text style={styles.locationId}>{location.location_id}</Text>
+				</View>
+			</View>
+		</View>
+	);
+}
+
+interface LocationLabelsDocumentProps extends LocationLabelOptions {
+	/** Locations in print order */
+	locations: Location[];
+}
+
+export function LocationLabelsDocument({ locations, layout, colourByLevel }: LocationLabelsDocumentProps) {
+	const { size, columns, rows } = LAYOUTS[layout];
+	const width = Math.floor((size[0] - PAGE_MARGIN * 2) / columns);
+	const height = Math.floor((size[1] - PAGE_MARGIN * 2) / rows);
+
+	return (
+		<Document title="Location Labels">
+			{toPages(locations, columns * rows).map((pageLocations, page) => (
+				<Page key={page} size={size} style={styles.page}>
+					{pageLocations.map((location) => (
+						<Label
+							key={location.location_id}
+							location={location}
+							width={width}
+							height={height}
+							colourByLevel={colourByLevel}
+						/>
+					))}
+				</Page>
+			))}
+		</Document>
+	);
+}
+
+/**
+ * Render location labels to a PDF and open it in a new tab for printing
+ *
+ * Call it from the click handler before anything is awaited (see openPdf).
+ *
+ * @param locations - Locations in print order
+ * @param options - Layout and level colours
+ */
+export async function printLocationLabels(locations: Location[], options: LocationLabelOptions): Promise<void> {
+	await openPdf(<LocationLabelsDocument locations={locations} {...options} />, "location-labels.pdf");
+}
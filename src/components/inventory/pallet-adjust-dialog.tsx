@@ -0,0 +1,160 @@
+/**
+ * Pallet Adjust Dialog
+ *
+ * Adjusts a pallet's qty up or down (Screen 15) with a reason code, notes and
+ * an optional photo. Taking the whole pallet is a write-off, so at least 1
+ * unit must remain.
+ *
+ * @module components/inventory/palletAdjustDialog
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { zodResolver } from "@hookform/resolvers/zod";
+import {
+	Alert,
+	Button,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControl,
+	FormHelperText,
+	InputLabel,
+	MenuItem,
+	Select,
+	Stack,
+	TextField,
+	Typography,
+} from "@mui/material";
+import { Controller, useForm } from "react-hook-form";
+
+import type { InventoryAdjustment, Pallet } from "@/types/domain";
+import { ADJUSTMENT_REASONS, wmsApi } from "@/lib/api";
+import { inventoryAdjustmentSchema, type InventoryAdjustmentFormData } from "@/lib/validators";
+import { PhotoCapture } from "@/components/core";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
+
+interface PalletAdjustDialogProps {
+	/** Pallet to adjust; the dialog is closed when null */
+	pallet: Pallet | null;
+	onClose: () => void;
+	onAdjust: (adjustment: InventoryAdjustment) => void;
+}
+
+/**
+ * Adjustment schema that also keeps at least 1 unit on a pallet of the given qty
+ */
+function getAdjustmentSchema(qty: number) {
+	return inventoryAdjustmentSchema.refine((data) => qty + data.qty_change > 0, {
+		message: `Must leave at least 1 of ${qty}; write the pallet off instead`,
+		path: ["qty_change"],
+	});
+}
+
+export function PalletAdjustDialog({ pallet, onClose, onAdjust }: PalletAdjustDialogProps) {
+	const [error, setError] = useState<string | null>(null);
+	const schema = useMemo(() => getAdjustmentSchema(pallet?.qty ?? 0), [pallet?.qty]);
+
+	const {
+		register,
+		control,
+		handleSubmit,
+		reset,
+		watch,
+		formState: { errors, isSubmitting },
+	} = useForm<InventoryAdjustmentFormData>({ resolver: zodResolver(schema) });
+
+	useEffect(() => {
+		if (!pallet) return;
+		reset({ pallet_id: pallet.id, qty_change: undefined, reason: undefined, notes: "", photo: undefined });
+		setError(null);
+	}, [pallet, reset]);
+
+	const qtyChange = watch("qty_change");
+	const newQty = (pallet?.qty ?? 0) + (Number.isFinite(qtyChange) ? qtyChange : 0);
+
+	const onSubmit = async (data: InventoryAdjustmentFormData) => {
+		try {
+			setError(null);
+			onAdjust(await wmsApi.adjustments.create(data));
+		} catch (error_) {
+			setError(getErrorToastMessage(error_, "Failed to adjust pallet"));
+		}
+	};
+
+	return (
+		<Dialog open={pallet !== null} onClose={onClose} maxWidth="xs" fullWidth>
+			<form onSubmit={handleSubmit(onSubmit)} noValidate>
+				<DialogTitle>
+					Adjust pallet qty
+					{pallet && (
+						<Typography variant="body2" color="textSecondary">
+							{pallet.lpn} · {pallet.item_id} · Qty {pallet.qty}
+						</Typography>
+					)}
+				</DialogTitle>
+				<DialogContent>
+					<Stack spacing={2} sx={{ pt: 1 }}>
+						<TextField
+							label="Qty change"
+							type="number"
+							{...register("qty_change", { valueAsNumber: true })}
+							error={!!errors.qty_change}
+							helperText={errors.qty_change?.message || "Negative takes units off, positive adds found units"}
+							inputProps={{ step: 1 }}
+							fullWidth
+							autoFocus
+						/>
+						<Typography variant="h6" color={newQty > 0 ? "textPrimary" : "error"}>
+							New qty: {newQty}
+						</Typography>
+
+						<FormControl fullWidth error={!!errors.reason}>
+							<InputLabel id="adjustment-reason-label">Reason</InputLabel>
+							<Controller
+								name="reason"
+								control={control}
+								render={({ field }) => (
+									<Select {...field} value={field.value ?? ""} labelId="adjustment-reason-label" label="Reason">
+										{ADJUSTMENT_REASONS.map((reason) => (
+											<MenuItem key={reason} value={reason}>
+												{reason}
+											</MenuItem>
+										))}
+									</Select>
+								)}
+							/>
+							{errors.reason && <FormHelperText>{errors.reason.message}</FormHelperText>}
+						</FormControl>
+
+						<TextField
+							label="Notes"
+							{...register("notes")}
+							error={!!errors.notes}
+							helperText={errors.notes?.message}
+							multiline
+							minRows={2}
+							fullWidth
+						/>
+
+						<Controller
+							name="photo"
+							control={control}
+							render={({ field }) => <PhotoCapture onCapture={field.onChange} loading={isSubmitting} />}
+						/>
+
+						{error && <Alert severity="error">{error}</Alert>}
+					</Stack>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={onClose} disabled={isSubmitting} size="large">
+						Cancel
+					</Button>
+					<Button type="submit" variant="contained" disabled={isSubmitting} size="large">
+						{isSubmitting ? "Saving..." : "Save Adjustment"}
+					</Button>
+				</DialogActions>
+			</form>
+		</Dialog>
+	);
+}
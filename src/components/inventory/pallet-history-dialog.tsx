@@ -0,0 +1,225 @@
+/**
+ * Pallet History Dialog
+ *
+ * Vertical timeline of one pallet: tallied, put away, moved, picked, loaded,
+ * shipped or written off, with who did it and when. A date field answers
+ * "where was this pallet on date D".
+ *
+ * @module components/inventory/palletHistoryDialog
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import {
+	Timeline,
+	TimelineConnector,
+	TimelineContent,
+	TimelineDot,
+	TimelineItem,
+	TimelineOppositeContent,
+	TimelineSeparator,
+} from "@mui/lab";
+import {
+	Alert,
+	Box,
+	Button,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	TextField,
+	Typography,
+} from "@mui/material";
+import { useSnackbar } from "notistack";
+
+import type { Pallet } from "@/types/domain";
+import {
+	buildPalletTimeline,
+	findEntryAt,
+	getHistoryReferences,
+	type PalletHistoryEntry,
+	type PalletHistoryKind,
+} from "@/lib/api/pallet-history";
+import { manifests, pallets, receivingOrders, shippingOrders } from "@/lib/api/wms-api";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
+
+type DotColor = "grey" | "primary" | "secondary" | "success" | "warning" | "error" | "info";
+
+const DOT_COLORS: Record<PalletHistoryKind, DotColor> = {
+	tallied: "primary",
+	put_away: "info",
+	moved: "info",
+	picked: "secondary",
+	unpicked: "grey",
+	loaded: "secondary",
+	unloaded: "grey",
+	shipped: "success",
+	write_off_requested: "warning",
+	written_off: "error",
+	write_off_rejected: "grey",
+	write_off_reversed: "info",
+	split: "warning",
+	merged: "warning",
+	adjusted: "warning",
+	status_change: "grey",
+	updated: "grey",
+	deleted: "error",
+};
+
+/**
+ * Look up display names, keeping whatever loads (a missing row falls back to its short id)
+ */
+async function loadNames<T>(
+	ids: string[],
+	load: (id: string) => Promise<T>,
+	name: (row: T) => string | undefined
+): Promise<Map<string, string>> {
+	const rows = await Promise.all(ids.map((id) => load(id).catch(() => null)));
+	return new Map(
+		ids.flatMap((id, index) => {
+			const row = rows[index];
+			const label = row ? name(row) : undefined;
+			return label ? [[id, label] as [string, string]] : [];
+		})
+	);
+}
+
+interface PalletHistoryDialogProps {
+	/** Pallet to show; null keeps the dialog closed */
+	palletId: string | null;
+	onClose: () => void;
+}
+
+export function PalletHistoryDialog({ palletId, onClose }: PalletHistoryDialogProps) {
+	const { enqueueSnackbar } = useSnackbar();
+	const [pallet, setPallet] = useState<Pallet | null>(null);
+	const [timeline, setTimeline] = useState<PalletHistoryEntry[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [onDate, setOnDate] = useState("");
+
+	useEffect(() => {
+		if (!palletId) return;
+		let cancelled = false;
+
+		const load = async () => {
+			try {
+				setLoading(true);
+				setOnDate("");
+				const [row, events] = await Promise.all([pallets.getById(palletId), pallets.getHistory(palletId)]);
+				const ids = getHistoryReferences(row, events);
+				const [containers, orders, manifestNames] = await Promise.all([
+					loadNames(
+						ids.receivingOrderIds,
+						(id) => receivingOrders.getById(id),
+						(order) => order.container_num
+					),
+					loadNames(
+						ids.shippingOrderIds,
+						(id) => shippingOrders.getById(id),
+						(order) => order.order_ref
+					),
+					loadNames(
+						ids.manifestIds,
+						(id) => manifests.getById(id),
+						(manifest) => manifest.container_num || manifest.id.slice(-8)
+					),
+				]);
+				if (cancelled) return;
+				setPallet(row);
+				setTimeline(buildPalletTimeline(row, events, { containers, orders, manifests: manifestNames }));
+			} catch (error_) {
+				if (cancelled) return;
+				const message = getErrorToastMessage(error_, "Failed to load pallet history");
+				enqueueSnackbar(message, { variant: "error" });
+			} finally {
+				if (!cancelled) setLoading(false);
+			}
+		};
+
+		load();
+		return () => {
+			cancelled = true;
+		};
+	}, [palletId, enqueueSnackbar]);
+
+	// Entry in effect at the end of the chosen (local) day
+	const entryOnDate = useMemo(
+		() => (onDate ? findEntryAt(timeline, new Date(`${onDate}T23:59:59.999`).toISOString()) : null),
+		[onDate, timeline]
+	);
+
+	return (
+		<Dialog open={!!palletId} onClose={onClose} maxWidth="md" fullWidth>
+			<DialogTitle>
+				Pallet History {palletId && <strong>{pallet?.id === palletId ? pallet.lpn : palletId.slice(-8)}</strong>}
+			</DialogTitle>
+			<DialogContent>
+				{loading || !pallet ? (
+					<Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+						<CircularProgress />
+					</Box>
+				) : (
+					<>
+						<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+							{pallet.item_id} · Qty {pallet.qty} · Currently {pallet.status}
+							{pallet.location_id ? ` at ${pallet.location_id}` : ""}
+						</Typography>
+
+						<Box sx={{ display: "flex", alignItems: "center", gap: 2, mb: 1 }}>
+							<TextField
+								label="Where was it on"
+								type="date"
+								size="small"
+								value={onDate}
+								onChange={(e) => setOnDate(e.target.value)}
+								slotProps={{ inputLabel: { shrink: true } }}
+							/>
+							{onDate && (
+								<Typography variant="body2">{entryOnDate ? entryOnDate.title : "Not received yet"}</Typography>
+							)}
+						</Box>
+
+						{timeline.some((entry) => entry.derived) && (
+							<Alert severity="info" sx={{ my: 1 }}>
+								Steps marked &quot;from pallet record&quot; happened before history was recorded.
+							</Alert>
+						)}
+
+						<Timeline position="right" sx={{ px: 0 }}>
+							{timeline.map((entry, index) => (
+								<TimelineItem key={entry.id}>
+									<TimelineOppositeContent sx={{ flex: 0.3 }} color="text.secondary" variant="body2">
+										{new Date(entry.at).toLocaleString()}
+									</TimelineOppositeContent>
+									<TimelineSeparator>
+										<TimelineDot
+											color={DOT_COLORS[entry.kind]}
+											variant={entry === entryOnDate ? "filled" : "outlined"}
+										/>
+										{index < timeline.length - 1 && <TimelineConnector />}
+									</TimelineSeparator>
+									<TimelineContent>
+										<Typography variant="body1" sx={{ fontWeight: entry === entryOnDate ? 600 : 400 }}>
+											{entry.title}
+										</Typography>
+										{entry.detail && (
+											<Typography variant="body2" color="text.secondary">
+												{entry.detail}
+											</Typography>
+										)}
+										<Typography variant="caption" color="text.secondary">
+											{entry.derived ? "from pallet record" : `by ${entry.actor ?? "system"}`}
+										</Typography>
+									</TimelineContent>
+								</TimelineItem>
+							))}
+						</Timeline>
+					</>
+				)}
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose}>Close</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
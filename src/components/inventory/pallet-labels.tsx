@@ -0,0 +1,136 @@
+/**
+ * Pallet Labels
+ *
+ * Printable pallet labels rendered with @react-pdf/renderer: the pallet's
+ * LPN in large type and as a Code 128 barcode, and the item, description,
+ * qty, container number and received date.
+ *
+ * Two layouts: "4x6" puts one label on each 4×6 in page (thermal label
+ * printers), "A4" puts eight labels on each A4 sheet (office printers).
+ *
+ * @module components/inventory/palletLabels
+ */
+
+import React from "react";
+import { Document, Page, StyleSheet, Text, View } from "@react-pdf/renderer";
+
+import type { Pallet, Product } from "@/types/domain";
+import { openPdf, PdfBarcode, toPages } from "@/components/inventory/label-pdf";
+
+export type PalletLabelLayout = "4x6" | "A4";
+
+export interface PalletLabel {
+	pallet_id: string;
+	lpn: string;
+	item_id: string;
+	description: string;
+	qty: number;
+	container_num: string;
+	/** ISO date the pallet was received */
+	received_at: string;
+}
+
+/** Labels per page and page size in points (72 pt = 1 in) */
+const LAYOUTS: Record<PalletLabelLayout, { size: [number, number]; columns: number; rows: number }> = {
+	"4x6": { size: [288, 432], columns: 1, rows: 1 },
+	A4: { size: [595.28, 841.89], columns: 2, rows: 4 },
+};
+
+const PAGE_MARGIN = 18;
+
+const styles = StyleSheet.create({
+	page: { padding: PAGE_MARGIN, flexDirection: "row", flexWrap: "wrap", fontFamily: "Helvetica" },
+	label: { padding: 10, border: "1pt solid #000", justifyContent: "space-between" },
+	lpn: { fontSize: 28, fontFamily: "Helvetica-Bold", textAlign: "center" },
+	itemId: { fontSize: 18, fontFamily: "Helvetica-Bold" },
+	description: { fontSize: 10, marginTop: 2 },
+	field: { flexDirection: "row", justifyContent: "space-between", fontSize: 10, marginTop: 2 },
+	fieldLabel: { color: "#555" },
+	barcodeText: { fontSize: 7, textAlign: "center", marginTop: 2 },
+});
+
+/**
+ * Build the label of a confirmed pallet
+ *
+ * @param pallet - The pallet
+ * @param product - Its product, for the description (item ID alone without it)
+ * @param containerNum - Container the pallet was received from
+ */
+export function toPalletLabel(pallet: Pallet, product: Product | undefined, containerNum: string): PalletLabel {
+	return {
+		pallet_id: pallet.id,
+		lpn: pallet.lpn,
+		item_id: pallet.item_id,
+		description: product?.description ?? "",
+		qty: pallet.qty,
+		container_num: containerNum,
+		received_at: pallet.received_at ?? pallet.created_at,
+	};
+}
+
+function Label({ label, width, height }: { label: PalletLabel; width: number; height: number }) {
+	const barcodeHeight = Math.round(height * 0.25);
+	return (
+		<View style={[styles.label, { width, height }]} wrap={false}>
+			<Text style={styles.lpn}>{label.lpn}</Text>
+			<View>
+				<Text style={styles.itemId}>{label.item_id}</Text>
+				{label.description && <Text style={styles.description}>{label.description}</Text>}
+			</View>
+			<View>
+				<View style={styles.field}>
+					<Text style={styles.fieldLabel}>Qty</Text>
+					<Text>{label.qty}</Text>
+				</View>
+				<View style={styles.field}>
+					<Text style={styles.fieldLabel}>Container #</Text>
+					<Text>{label.container_num}</Text>
+				</View>
+				<View style={styles.field}>
+					<Text style={styles.fieldLabel}>Received</Text>
+					<Text>{new Date(label.received_at).toLocaleDateString()}</Text>
+				</View>
+			</View>
+			<View>
+				<PdfBarcode value={label.lpn} height={barcodeHeight} />
+				<Text style={styles.barcodeText}>{label.lpn}</Text>
+			</View>
+		</View>
+	);
+}
+
+interface PalletLabelsDocumentProps {
+	labels: PalletLabel[];
+	layout: PalletLabelLayout;
+}
+
+export function PalletLabelsDocument({ labels, layout }: PalletLabelsDocumentProps) {
+	const { size, columns, rows } = LAYOUTS[layout];
+	const width = Math.floor((size[0] - PAGE_MARGIN * 2) / columns);
+	const height = Math.floor((size[1] - PAGE_MARGIN * 2) / rows);
+	const pages = toPages(labels, columns * rows);
+
+	return (
+		<Document title="Pallet Labels">
+			{pages.map((pageLabels, page) => (
+				<Page key={page} size={size} style={styles.page}>
+					{pageLabels.map((label) => (
+						<Label key={label.pallet_id} label={label} width={width} height={height} />
+					))}
+				</Page>
+			))}
+		</Document>
+	);
+}
+
+/**
+ * Render labels to a PDF and open it in a new tab for printing
+ *
+ * Call it from the click handler before anything is awaited (see openPdf).
+ *
+ * @param labels - Labels in print order
+ * @param layout - 4x6 label pages or A4 sheets
+ */
+export async function printPalletLabels(labels: PalletLabel[], layout: PalletLabelLayout): Promise<void> {
+	await openPdf(<PalletLabelsDocument labels={labels} layout={layout} />, "pallet-labels.pdf");
+}
@@ -0,0 +1,123 @@
+/**
+ * Pallet Merge Dialog
+ *
+ * Combines partial pallets of the same item into one (Screen 8 moves,
+ * Screen 10 picked pallets). The user picks which pallet is kept; the others
+ * become Merged and leave their location and order.
+ *
+ * @module components/inventory/palletMergeDialog
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+	Alert,
+	Button,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControlLabel,
+	Radio,
+	RadioGroup,
+	Typography,
+} from "@mui/material";
+
+import type { Pallet } from "@/types/domain";
+import { assertMergeable, wmsApi } from "@/lib/api";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
+
+interface PalletMergeDialogProps {
+	/** Pallets to merge (at least 2) */
+	pallets: Pallet[];
+	open: boolean;
+	onClose: () => void;
+	onMerge: (merged: Pallet, mergedIds: string[]) => void;
+}
+
+/**
+ * Problem with the selection, or null when it can be merged
+ */
+function getMergeProblem(pallets: Pallet[]): string | null {
+	try {
+		assertMergeable(pallets);
+		return null;
+	} catch (error) {
+		return error instanceof Error ? error.message : "These pallets cannot be merged";
+	}
+}
+
+export function PalletMergeDialog({ pallets, open, onClose, onMerge }: PalletMergeDialogProps) {
+	const [targetId, setTargetId] = useState<string>("");
+	const [submitting, setSubmitting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!open) return;
+		setTargetId("");
+		setError(null);
+	}, [open]);
+
+	const target = pallets.find((p) => p.id === targetId) ?? pallets[0];
+	const ordered = target ? [target, ...pallets.filter((p) => p.id !== target.id)] : [];
+	const problem = getMergeProblem(ordered);
+	const total = pallets.reduce((sum, p) => sum + p.qty, 0);
+
+	const handleSubmit = async () => {
+		if (problem) return;
+		try {
+			setSubmitting(true);
+			setError(null);
+			const ids = ordered.map((p) => p.id);
+			onMerge(await wmsApi.pallets.merge(ids), ids.slice(1));
+		} catch (error_) {
+			setError(getErrorToastMessage(error_, "Failed to merge pallets"));
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	return (
+		<Dialog open={open} onClose={onClose} maxWidth="xs" fullWidth>
+			<DialogTitle>
+				Merge {pallets.length} pallets
+				<Typography variant="body2" color="textSecondary">
+					{pallets[0]?.item_id} · Total qty {total}
+				</Typography>
+			</DialogTitle>
+			<DialogContent>
+				<Typography variant="subtitle2" sx={{ mb: 1 }}>
+					Keep this pallet:
+				</Typography>
+				<RadioGroup value={target?.id ?? ""} onChange={(e) => setTargetId(e.target.value)}>
+					{pallets.map((pallet) => (
+						<FormControlLabel
+							key={pallet.id}
+							value={pallet.id}
+							control={<Radio />}
+							label={`${pallet.lpn} · Qty ${pallet.qty} · ${pallet.location_id ?? pallet.status}`}
+							sx={{ py: 0.5 }}
+						/>
+					))}
+				</RadioGroup>
+				{problem && (
+					<Alert severity="warning" sx={{ mt: 2 }}>
+						{problem}
+					</Alert>
+				)}
+				{error && (
+					<Alert severity="error" sx={{ mt: 2 }}>
+						{error}
+					</Alert>
+				)}
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose} disabled={submitting} size="large">
+					Cancel
+				</Button>
+				<Button variant="contained" onClick={handleSubmit} disabled={!!problem || submitting} size="large">
+					{submitting ? "Merging..." : "Merge"}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
@@ -0,0 +1,125 @@
+/**
+ * Pallet Split Dialog
+ *
+ * Splits qty off a pallet onto one or more new pallets (Screen 8 moves,
+ * Screen 10 picking). The new pallets keep the original's location, order
+ * assignment and receiving order; the rest stays on the original pallet.
+ * Sized for tablets: large qty fields and buttons.
+ *
+ * @module components/inventory/palletSplitDialog
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+	Alert,
+	Box,
+	Button,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	IconButton,
+	Stack,
+	TextField,
+	Typography,
+} from "@mui/material";
+import { PlusIcon } from "@phosphor-icons/react/dist/ssr/Plus";
+import { XIcon } from "@phosphor-icons/react/dist/ssr/X";
+
+import type { Pallet } from "@/types/domain";
+import { wmsApi, type PalletSplitResult } from "@/lib/api";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
+
+interface PalletSplitDialogProps {
+	/** Pallet to split; the dialog is closed when null */
+	pallet: Pallet | null;
+	/** Qty to pre-fill for the first new pallet (e.g. what an order still needs) */
+	initialQty?: number;
+	onClose: () => void;
+	onSplit: (result: PalletSplitResult) => void;
+}
+
+export function PalletSplitDialog({ pallet, initialQty, onClose, onSplit }: PalletSplitDialogProps) {
+	const [qtys, setQtys] = useState<string[]>([""]);
+	const [submitting, setSubmitting] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!pallet) return;
+		setQtys([initialQty ? String(initialQty) : ""]);
+		setError(null);
+	}, [pallet, initialQty]);
+
+	const values = qtys.map(Number);
+	const total = values.reduce((sum, qty) => sum + (Number.isFinite(qty) ? qty : 0), 0);
+	const left = (pallet?.qty ?? 0) - total;
+	const valid = values.every((qty) => Number.isInteger(qty) && qty > 0) && left > 0;
+
+	const handleSubmit = async () => {
+		if (!pallet || !valid) return;
+		try {
+			setSubmitting(true);
+			setError(null);
+			onSplit(await wmsApi.pallets.split(pallet.id, values));
+		} catch (error_) {
+			setError(getErrorToastMessage(error_, "Failed to split pallet"));
+		} finally {
+			setSubmitting(false);
+		}
+	};
+
+	return (
+		<Dialog open={pallet !== null} onClose={onClose} maxWidth="xs" fullWidth>
+			<DialogTitle>
+				Split pallet
+				{pallet && (
+					<Typography variant="body2" color="textSecondary">
+						{pallet.item_id} · Qty {pallet.qty}
+						{pallet.location_id ? ` · ${pallet.location_id}` : ""}
+					</Typography>
+				)}
+			</DialogTitle>
+			<DialogContent>
+				<Stack spacing={2} sx={{ pt: 1 }}>
+					{qtys.map((qty, index) => (
+						<Box key={index} sx={{ display: "flex", alignItems: "center", gap: 1 }}>
+							<TextField
+								label={`New pallet ${index + 1} qty`}
+								type="number"
+								value={qty}
+								onChange={(e) => setQtys((prev) => prev.map((value, i) => (i === index ? e.target.value : value)))}
+								inputProps={{ min: 1, step: 1, inputMode: "numeric" }}
+								fullWidth
+								autoFocus={index === 0}
+							/>
+							{qtys.length > 1 && (
+								<IconButton
+									aria-label={`Remove new pallet ${index + 1}`}
+									onClick={() => setQtys((prev) => prev.filter((_, i) => i !== index))}
+								>
+									<XIcon size={20} />
+								</IconButton>
+							)}
+						</Box>
+					))}
+					<Button startIcon={<PlusIcon size={18} />} onClick={() => setQtys((prev) => [...prev, ""])}>
+						Add pallet
+					</Button>
+					<Typography variant="h6" color={left > 0 ? "textPrimary" : "error"}>
+						Left on this pallet: {left}
+					</Typography>
+					{left <= 0 && <Alert severity="warning">Leave at least 1 unit on the original pallet.</Alert>}
+					{error && <Alert severity="error">{error}</Alert>}
+				</Stack>
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose} disabled={submitting} size="large">
+					Cancel
+				</Button>
+				<Button variant="contained" onClick={handleSubmit} disabled={!valid || submitting} size="large">
+					{submitting ? "Splitting..." : "Split"}
+				</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
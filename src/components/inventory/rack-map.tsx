@@ -0,0 +1,130 @@
+/**
+ * Rack Map
+ *
+ * One rack drawn as a level × position grid, each slot coloured by what sits
+ * on it, with the pallets, qty and days stored on hover. Given onSelect, the
+ * slots that can take a pallet become clickable (put-away on Screen8).
+ *
+ * @module components/inventory/rackMap
+ */
+
+import React from "react";
+import type { RackCell, RackCellState, RackGrid } from "@/utils/rack-map";
+import { Box, Tooltip, Typography } from "@mui/material";
+
+import type { Location } from "@/types/domain";
+
+const CELL_COLORS: Record<RackCellState, string> = {
+	empty: "#e8f5e9",
+	occupied: "#90caf9",
+	multi: "#1565c0",
+	blocked: "#bdbdbd",
+	staging: "#ffb74d",
+};
+
+const CELL_LABELS: Record<RackCellState, string> = {
+	empty: "Empty",
+	occupied: "Occupied",
+	multi: "Multiple pallets",
+	blocked: "Blocked",
+	staging: "Cross-dock staging",
+};
+
+interface RackMapProps {
+	grid: RackGrid;
+	/** Location ID to highlight */
+	selectedId?: string;
+	/** Called with the clicked slot; blocked slots are not clickable */
+	onSelect?: (location: Location) => void;
+}
+
+function CellDetails({ cell }: { cell: RackCell }) {
+	return (
+		<Box>
+			<Typography variant="caption" sx={{ display: "block", fontWeight: "bold" }}>
+				{cell.location.location_id} · {CELL_LABELS[cell.state]}
+			</Typography>
+			{cell.pallets.map((pallet) => (
+				<Typography key={pallet.id} variant="caption" sx={{ display: "block" }}>
+					{pallet.item_id} · Qty {pallet.qty}
+					{pallet.days_stored === null ? "" : ` · ${pallet.days_stored} day(s)`}
+				</Typography>
+			))}
+		</Box>
+	);
+}
+
+export function RackMap({ grid, selectedId, onSelect }: RackMapProps) {
+	return (
+		<Box
+			sx={{
+				display: "grid",
+				gridTemplateColumns: `32px repeat(${grid.positions.length}, minmax(24px, 1fr))`,
+				gap: 0.5,
+			}}
+		>
+			<Box />
+			{grid.positions.map((position) => (
+				<Typography key={position} variant="caption" align="center" color="text.secondary">
+					{position}
+				</Typography>
+			))}
+			{grid.levels.map((level, row) => (
+				<React.Fragment key={level}>
+					<Typography variant="caption" color="text.secondary" sx={{ alignSelf: "center" }}>
+						L{level}
+					</Typography>
+					{grid.cells[row].map((cell, column) => {
+						if (!cell) return <Box key={grid.positions[column]} />;
+						const clickable = onSelect !== undefined && cell.state !== "blocked";
+						const selected = cell.location.location_id === selectedId;
+						return (
+							<Tooltip key={cell.location.location_id} title={<CellDetails cell={cell} />} arrow>
+								<Box
+									role={clickable ? "button" : undefined}
+									aria-label={`${cell.location.location_id} ${CELL_LABELS[cell.state]}`}
+									onClick={clickable ? () => onSelect(cell.location) : undefined}
+									sx={{
+										height: 28,
+										borderRadius: 0.5,
+										bgcolor: CELL_COLORS[cell.state],
+										border: selected ? "2px solid #2e7d32" : "1px solid rgba(0, 0, 0, 0.12)",
+										cursor: clickable ? "pointer" : "default",
+										display: "flex",
+										alignItems: "center",
+										justifyContent: "center",
+										color: cell.state === "multi" ? "white" : "text.primary",
+										fontSize: 11,
+									}}
+								>
+									{cell.pallets.length > 1 ? cell.pallets.length : ""}
+								</Box>
+							</Tooltip>
+						);
+					})}
+				</React.Fragment>
+			))}
+		</Box>
+	);
+}
+
+export function RackMapLegend() {
+	return (
+		<Box sx={{ display: "flex", flexWrap: "wrap", gap: 2 }}>
+			{(Object.keys(CELL_COLORS) as RackCellState[]).map((state) => (
+				<Box key={state} sx={{ display: "flex", alignItems: "center", gap: 0.5 }}>
+					<Box
+						sx={{
+							width: 12,
+							height: 12,
+							borderRadius: 0.5,
+							bgcolor: CELL_COLORS[state],
+							border: "1px solid rgba(0, 0, 0, 0.12)",
+						}}
+					/>
+					<Typography variant="caption">{CELL_LABELS[state]}</Typography>
+				</Box>
+			))}
+		</Box>
+	);
+}
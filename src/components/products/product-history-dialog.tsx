@@ -0,0 +1,107 @@
+/**
+ * Product History Dialog
+ *
+ * Lists the pallet spec versions of one product (Screen 0B), newest first.
+ * Billing and expected-pallet calculations use the version in force at the
+ * time, so this is what past reports were based on.
+ *
+ * @module components/products/productHistoryDialog
+ */
+
+import React, { useEffect, useState } from "react";
+import {
+	Alert,
+	Box,
+	Button,
+	Chip,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	Table,
+	TableBody,
+	TableCell,
+	TableHead,
+	TableRow,
+} from "@mui/material";
+
+import type { ProductVersion } from "@/types/domain";
+import { wmsApi } from "@/lib/api";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
+
+interface ProductHistoryDialogProps {
+	/** Item to show; the dialog is closed when null */
+	itemId: string | null;
+	onClose: () => void;
+}
+
+export function ProductHistoryDialog({ itemId, onClose }: ProductHistoryDialogProps) {
+	const [versions, setVersions] = useState<ProductVersion[]>([]);
+	const [loading, setLoading] = useState(false);
+	const [error, setError] = useState<string | null>(null);
+
+	useEffect(() => {
+		if (!itemId) return;
+		let cancelled = false;
+		setLoading(true);
+		setError(null);
+		wmsApi.products
+			.getVersions([itemId])
+			.then((data) => {
+				if (!cancelled) setVersions(data.toReversed());
+			})
+			.catch((error_: unknown) => {
+				if (!cancelled) setError(getErrorToastMessage(error_, "Failed to load product history"));
+			})
+			.finally(() => {
+				if (!cancelled) setLoading(false);
+			});
+		return () => {
+			cancelled = true;
+		};
+	}, [itemId]);
+
+	return (
+		<Dialog open={itemId !== null} onClose={onClose} maxWidth="sm" fullWidth>
+			<DialogTitle>Pallet spec history: {itemId}</DialogTitle>
+			<DialogContent>
+				{loading ? (
+					<Box sx={{ display: "flex", justifyContent: "center", py: 3 }}>
+						<CircularProgress size={28} />
+					</Box>
+				) : error ? (
+					<Alert severity="error">{error}</Alert>
+				) : versions.length === 0 ? (
+					<Alert severity="info">No spec changes recorded for this product.</Alert>
+				) : (
+					<Table size="small">
+						<TableHead>
+							<TableRow>
+								<TableCell>Effective from</TableCell>
+								<TableCell align="right">Units per Pallet</TableCell>
+								<TableCell align="right">Pallet Positions</TableCell>
+								<TableCell />
+							</TableRow>
+						</TableHead>
+						<TableBody>
+							{versions.map((version, index) => (
+								<TableRow key={version.id}>
+									<TableCell>{new Date(version.effective_from).toLocaleString()}</TableCell>
+									<TableCell align="right">{version.units_per_pallet}</TableCell>
+									<TableCell align="right">{version.pallet_positions}</TableCell>
+									<TableCell align="right">
+										{index === 0 && <Chip label="Current" size="small" color="primary" variant="outlined" />}
+									</TableCell>
+								</TableRow>
+							))}
+						</TableBody>
+					</Table>
+				)}
+			</DialogContent>
+			<DialogActions>
+				<Button onClick={onClose}>Close</Button>
+			</DialogActions>
+		</Dialog>
+	);
+}
@@ -0,0 +1,183 @@
+/**
+ * Product Master Diff Preview
+ *
+ * Shows what a replace-all Product Master upload will do before it is
+ * applied: new items, changed pallet specs and items that will be
+ * deactivated because they are missing from the file.
+ *
+ * @module components/products/productMasterDiffPreview
+ */
+
+import React from "react";
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	Paper,
+	Stack,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	Typography,
+} from "@mui/material";
+
+import { hasProductMasterChanges, type ProductMasterDiff, type ProductMasterField } from "@/lib/api/product-master";
+
+const FIELD_LABELS: Record<ProductMasterField, string> = {
+	description: "Description",
+	units_per_pallet: "Units/pallet",
+	pallet_positions: "Pallet positions",
+	active: "Active",
+};
+
+/** Keep long catalogs scrollable inside the card */
+const TABLE_SX = { maxHeight: 320 };
+
+interface ProductMasterDiffPreviewProps {
+	diff: ProductMasterDiff;
+	fileName: string;
+	applying: boolean;
+	onApply: () => void;
+	onCancel: () => void;
+}
+
+export function ProductMasterDiffPreview({
+	diff,
+	fileName,
+	applying,
+	onApply,
+	onCancel,
+}: ProductMasterDiffPreviewProps) {
+	const hasChanges = hasProductMasterChanges(diff);
+
+	return (
+		<Card sx={{ border: "2px solid", borderColor: "warning.light" }}>
+			<CardContent>
+				<Stack spacing={3}>
+					<Box>
+						<Typography variant="h6" sx={{ fontWeight: "bold", mb: 1 }}>
+							Review changes: {fileName}
+						</Typography>
+						<Box sx={{ display: "flex", gap: 1, flexWrap: "wrap" }}>
+							<Chip label={`${diff.added.length} new`} color="success" variant="outlined" />
+							<Chip label={`${diff.changed.length} changed`} color="info" variant="outlined" />
+							<Chip label={`${diff.deactivated.length} deactivated`} color="warning" variant="outlined" />
+							<Chip label={`${diff.unchanged} unchanged`} variant="outlined" />
+						</Box>
+					</Box>
+
+					{!hasChanges && <Alert severity="info">The product master already matches this file.</Alert>}
+
+					{diff.added.length > 0 && (
+						<Box>
+							<Typography variant="subtitle1" sx={{ fontWeight: "bold", mb: 1 }}>
+								New items
+							</Typography>
+							<TableContainer component={Paper} sx={TABLE_SX}>
+								<Table size="small" stickyHeader>
+									<TableHead>
+										<TableRow>
+											<TableCell>Item ID</TableCell>
+											<TableCell>Description</TableCell>
+											<TableCell align="right">Units/pallet</TableCell>
+											<TableCell align="right">Pallet positions</TableCell>
+										</TableRow>
+									</TableHead>
+									<TableBody>
+										{diff.added.map((row) => (
+											<TableRow key={row.item_id}>
+												<TableCell>{row.item_id}</TableCell>
+												<TableCell>{row.description}</TableCell>
+												<TableCell align="right">{row.units_per_pallet}</TableCell>
+												<TableCell align="right">{row.pallet_positions}</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</TableContainer>
+						</Box>
+					)}
+
+					{diff.changed.length > 0 && (
+						<Box>
+							<Typography variant="subtitle1" sx={{ fontWeight: "bold", mb: 1 }}>
+								Changed items
+							</Typography>
+							<TableContainer component={Paper} sx={TABLE_SX}>
+								<Table size="small" stickyHeader>
+									<TableHead>
+										<TableRow>
+											<TableCell>Item ID</TableCell>
+											<TableCell>Changes</TableCell>
+										</TableRow>
+									</TableHead>
+									<TableBody>
+										{diff.changed.map(({ before, after, fields }) => (
+											<TableRow key={before.item_id}>
+												<TableCell>{before.item_id}</TableCell>
+												<TableCell>
+													{fields.map((field) => (
+														<Typography key={field} variant="body2">
+															{field === "active"
+																? "Reactivated"
+																: `${FIELD_LABELS[field]}: ${before[field] || "—"} → ${after[field] || "—"}`}
+														</Typography>
+													))}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</TableContainer>
+						</Box>
+					)}
+
+					{diff.deactivated.length > 0 && (
+						<Box>
+							<Typography variant="subtitle1" sx={{ fontWeight: "bold", mb: 1 }}>
+								Missing from the file (will be deactivated)
+							</Typography>
+							<Alert severity="warning" sx={{ mb: 1 }}>
+								These products are not deleted: existing pallets and orders keep them, but they can no longer be used on
+								new receiving or shipping orders. Reactivate them in Product Master Maintenance.
+							</Alert>
+							<TableContainer component={Paper} sx={TABLE_SX}>
+								<Table size="small" stickyHeader>
+									<TableHead>
+										<TableRow>
+											<TableCell>Item ID</TableCell>
+											<TableCell>Description</TableCell>
+										</TableRow>
+									</TableHead>
+									<TableBody>
+										{diff.deactivated.map((product) => (
+											<TableRow key={product.item_id}>
+												<TableCell>{product.item_id}</TableCell>
+												<TableCell>{product.description}</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</TableContainer>
+						</Box>
+					)}
+
+					<Box sx={{ display: "flex", justifyContent: "flex-end", gap: 2 }}>
+						<Button onClick={onCancel} disabled={applying}>
+							Cancel
+						</Button>
+						<Button variant="contained" onClick={onApply} disabled={applying || !hasChanges}>
+							{applying ? "Applying..." : "Apply changes"}
+						</Button>
+					</Box>
+				</Stack>
+			</CardContent>
+		</Card>
+	);
+}
@@ -3,7 +3,9 @@
  * Screen 0: Product Master Upload
  *
  * Allows CSE users to upload product master data via CSV.
- * Validates, stores in database, and archives to storage.
+ * Validates, previews the replace-all diff (new, changed and deactivated
+ * items), then applies it as one batch after confirmation and archives the
+ * file to storage.
  *
  * @component
  * @module components/screens/Screen0
@@ -37,7 +39,10 @@ import { useNavigate } from "react-router-dom";
 
 import { paths } from "@/paths";
 import { wmsApi } from "@/lib/api";
+import type { ProductMasterDiff, ProductMasterRow } from "@/lib/api/product-master";
 import { ErrorAlert, FileUpload, LoadingSpinner, SuccessAlert } from "@/components/core";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
+import { ProductMasterDiffPreview } from "@/components/products/product-master-diff-preview";
 
 const downloadTemplate = () => {
 	const csvContent = `item_id,description,units_per_pallet,pallet_positions
@@ -71,6 +76,11 @@ export function Screen0() {
 	const [success, setSuccess] = useState<{ message: string; count: number } | null>(null);
 	const [validationErrors, setValidationErrors] = useState<Array<{ row: number; field: string; message: string }>>([]);
 	const [csvUploaded, setCsvUploaded] = useState(false);
+	// Dry-run result waiting for confirmation
+	const [preview, setPreview] = useState<{ file: File; rows: ProductMasterRow[]; diff: ProductMasterDiff } | null>(
+		null
+	);
+	const [applying, setApplying] = useState(false);
 
 	// Note: Supabase's autoRefreshToken handles session management automatically
 	// No need for manual refresh - it works across tab switches
@@ -80,6 +90,7 @@ export function Screen0() {
 		setError(null);
 		setSuccess(null);
 		setValidationErrors([]);
+		setPreview(null);
 
 		try {
 			// Supabase autoRefreshToken handles session refresh automatically
@@ -106,87 +117,59 @@ export function Screen0() {
 			}
 
 			// Transform data for database
-			const products = result.data.map((row) => ({
+			const rows: ProductMasterRow[] = result.data.map((row) => ({
 				item_id: row.item_id,
 				description: row.description || "",
 				units_per_pallet: Number.parseInt(row.units_per_pallet, 10),
 				pallet_positions: row.pallet_positions ? Number.parseInt(row.pallet_positions, 10) : 1,
-				active: true,
 			}));
 
-			// Upsert products (update existing, insert new) to prevent foreign key violations
-			let upsertedCount = 0;
-			for (const product of products) {
-				let retries = 0;
-				const maxRetries = 2;
-				let lastError: Error | null = null;
+			// Dry run: show what the replace-all upload would change before anything is written
+			const diff = await wmsApi.products.uploadMaster(rows, { dryRun: true });
+			setPreview({ file, rows, diff });
+		} catch (error_) {
+			console.error("Upload failed:", error_);
+			setError(getErrorToastMessage(error_, "Failed to upload products"));
+			enqueueSnackbar(getErrorToastMessage(error_, "Failed to upload products"), { variant: "error" });
+		} finally {
+			setLoading(false);
+		}
+	};
 
-				while (retries <= maxRetries) {
-					try {
-						// Try to update first
-						try {
-							await wmsApi.products.update(product.item_id, product);
-						} catch (updateError) {
-							// If update fails (product doesn't exist), create it
-							if (
-								updateError instanceof Error &&
-								(updateError.message.includes("Failed to update product") ||
-									updateError.message.includes("Cannot coerce the result to a single JSON object") ||
-									updateError.message.includes("Product not found") ||
-									updateError.message.includes("0 rows") ||
-									updateError.message.includes("PGRST116"))
-							) {
-								await wmsApi.products.create(product);
-							} else {
-								throw updateError;
-							}
-						}
-						upsertedCount++;
-						break; // Success, exit retry loop
-					} catch (error_) {
-						lastError = error_ instanceof Error ? error_ : new Error(String(error_));
-						const message = lastError.message;
-						console.error(`Error upserting product ${product.item_id} (attempt ${retries + 1}):`, message);
+	const handleApply = async () => {
+		if (!preview) return;
+		setApplying(true);
+		setError(null);
+
+		try {
+			// One batch: upsert every row and deactivate the products missing from the file
+			const diff = await wmsApi.products.uploadMaster(preview.rows);
 
-						if (retries < maxRetries) {
-							// Wait before retrying (exponential backoff)
-							const waitTime = Math.pow(2, retries) * 1000;
-							await new Promise((resolve) => setTimeout(resolve, waitTime));
-							retries++;
-						} else {
-							// Max retries exceeded
-							throw new Error(
-								`Failed to upsert product ${product.item_id} after ${maxRetries + 1} attempts: ${message}`
-							);
-						}
-					}
-				}
-			}
 			// Save original CSV to storage
 			try {
 				const timestamp = new Date().toISOString().replaceAll(/[:.]/g, "-");
 				const fileName = `products/master_${timestamp}.csv`;
-				await wmsApi.storage.upload("receiving", fileName, file);
+				await wmsApi.storage.upload("receiving", fileName, preview.file);
 			} catch (error_) {
-				const message = error_ instanceof Error ? error_.message : "Failed to save CSV";
+				const message = getErrorToastMessage(error_, "Failed to save CSV");
 				console.warn("Warning: Could not save CSV to storage:", message);
 				// Don't fail the entire operation if storage fails
 			}
 
 			// Success
 			setSuccess({
-				message: `Product master updated: ${upsertedCount} items processed`,
-				count: upsertedCount,
+				message: `Product master updated: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.deactivated.length} deactivated`,
+				count: preview.rows.length,
 			});
+			setPreview(null);
 			setCsvUploaded(true);
-			enqueueSnackbar(`✅ Successfully processed ${upsertedCount} products`, { variant: "success" });
+			enqueueSnackbar(`✅ Product master updated (${preview.rows.length} products)`, { variant: "success" });
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to upload products";
-			console.error("Upload failed:", error_);
-			setError(message);
-			enqueueSnackbar(message, { variant: "error" });
+			console.error("Apply failed:", error_);
+			setError(getErrorToastMessage(error_, "Failed to update product master"));
+			enqueueSnackbar(getErrorToastMessage(error_, "Failed to update product master"), { variant: "error" });
 		} finally {
-			setLoading(false);
+			setApplying(false);
 		}
 	};
 
@@ -339,7 +322,7 @@ PROD-005,500GB NVMe SSD,500,1`}
 						<CardContent>
 							<Stack spacing={3}>
 								{loading ? (
-									<LoadingSpinner message="Processing CSV and uploading products..." />
+									<LoadingSpinner message="Validating CSV and comparing with the product master..." />
 								) : (
 									<>
 										<FileUpload
@@ -358,6 +341,17 @@ PROD-005,500GB NVMe SSD,500,1`}
 						</CardContent>
 					</Card>
 
+					{/* Dry-run diff, applied only after confirmation */}
+					{preview && (
+						<ProductMasterDiffPreview
+							diff={preview.diff}
+							fileName={preview.file.name}
+							applying={applying}
+							onApply={handleApply}
+							onCancel={() => setPreview(null)}
+						/>
+					)}
+
 					{/* Validation Errors */}
 					{validationErrors.length > 0 && (
 						<Card sx={{ borderColor: "error.main", borderWidth: 1 }}>
@@ -4,6 +4,8 @@
  *
  * Allows CSE users to view, edit, add, and deactivate products.
  * Provides inline editing, modal for adding new products, and search/filter.
+ * Spec edits take effect from now on; each item's spec history is shown in a
+ * dialog.
  *
  * @component
  * @module components/screens/Screen0B
@@ -42,6 +44,8 @@ import { useNavigate } from "react-router-dom";
 import { Product } from "@/types/domain";
 import { paths } from "@/paths";
 import { wmsApi } from "@/lib/api";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
+import { ProductHistoryDialog } from "@/components/products/product-history-dialog";
 
 /**
  * Screen 0B Component - Product Master Maintenance
@@ -69,6 +73,7 @@ export function Screen0B() {
 	const [rowsPerPage, setRowsPerPage] = useState(25);
 	const [editingCell, setEditingCell] = useState<{ itemId: string; field: string } | null>(null);
 	const [editValue, setEditValue] = useState<unknown>("");
+	const [historyItemId, setHistoryItemId] = useState<string | null>(null);
 
 	const loadProducts = useCallback(async () => {
 		setLoading(true);
@@ -77,7 +82,7 @@ export function Screen0B() {
 			const data = await wmsApi.products.getAll();
 			setProducts(data);
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to load products";
+			const message = getErrorToastMessage(error_, "Failed to load products");
 			setError(message);
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
@@ -123,9 +128,14 @@ export function Screen0B() {
 
 			setProducts((prev) => prev.map((p) => (p.item_id === itemId ? updatedProduct : p)));
 
-			enqueueSnackbar("Product updated successfully", { variant: "success" });
+			// Spec changes are versioned: past billing keeps the spec that was in force
+			const isSpecChange = field === "units_per_pallet" || field === "pallet_positions";
+			enqueueSnackbar(
+				isSpecChange ? "Product updated; the new pallet spec applies from now on" : "Product updated successfully",
+				{ variant: "success" }
+			);
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to update product";
+			const message = getErrorToastMessage(error_, "Failed to update product");
 			enqueueSnackbar(message, { variant: "error" });
 		}
 	};
@@ -182,7 +192,7 @@ export function Screen0B() {
 
 			enqueueSnackbar("Product added successfully", { variant: "success" });
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to add product";
+			const message = getErrorToastMessage(error_, "Failed to add product");
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
 			setSubmitting(false);
@@ -372,6 +382,9 @@ export function Screen0B() {
 												>
 													Edit
 												</Button>
+												<Button size="small" sx={{ ml: 1 }} onClick={() => setHistoryItemId(product.item_id)}>
+													History
+												</Button>
 											</TableCell>
 										</TableRow>
 									))}
@@ -389,6 +402,9 @@ export function Screen0B() {
 						</TableContainer>
 					)}
 
+					{/* Pallet spec history */}
+					<ProductHistoryDialog itemId={historyItemId} onClose={() => setHistoryItemId(null)} />
+
 					{/* Add Product Modal */}
 					<Dialog open={openAddModal} onClose={() => setOpenAddModal(false)} maxWidth="sm" fullWidth>
 						<DialogTitle>Add New Product</DialogTitle>
@@ -44,6 +44,7 @@ import { wmsApi } from "@/lib/api";
 import { formatContainerNumber, getContainerNumberPlaceholder } from "@/lib/formatters";
 import { receivingOrderSchema } from "@/lib/validators";
 import { FileUpload, LoadingSpinner } from "@/components/core";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
 
 // Form schema
 const receivingOrderFormSchema = receivingOrderSchema;
@@ -123,7 +124,7 @@ export function Screen1() {
 			try {
 				products = await wmsApi.products.getAll();
 			} catch (error) {
-				const message = error instanceof Error ? error.message : "Failed to load products";
+				const message = getErrorToastMessage(error, "Failed to load products");
 				console.warn(`Warning loading products: ${message}`);
 				// Don't fail - allow CSV upload even if products can't be loaded
 				// Validation will happen at submission time
@@ -234,12 +235,13 @@ export function Screen1() {
 			setCsvData(null);
 			setCsvErrors([]);
 
-			enqueueSnackbar(`✅ Receiving order created: Container ${data.container_num}, Seal ${data.seal_num}`, {
-				variant: "success",
-			});
+			enqueueSnackbar(
+				`✅ Receiving order ${receivingOrder.receipt_ref} created: Container ${data.container_num}, Seal ${data.seal_num}`,
+				{ variant: "success" }
+			);
 		} catch (error) {
 			console.error("Error creating receiving order:", error);
-			const message = error instanceof Error ? error.message : "Failed to create receiving order";
+			const message = getErrorToastMessage(error, "Failed to create receiving order");
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
 			setLoading(false);
@@ -4,10 +4,11 @@
  *
  * Tests for Story 6.2: Picking Workflow
  * Tests for Story 6.3: Picking Filters
+ * Tests for pick suggestions and scanning
  */
 
 import React from "react";
-import { render, screen, waitFor } from "@testing-library/react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { SnackbarProvider } from "notistack";
 import { BrowserRouter } from "react-router-dom";
 import { beforeEach, describe, expect, it, vi } from "vitest";
@@ -42,9 +43,11 @@ vi.mock("../../lib/api/wms-api", () => {
 	const productsMock = {
 		getAll: vi.fn().mockResolvedValue([]),
 		getById: vi.fn(),
+		getByItemId: vi.fn(),
 	};
 	const locationsMock = {
 		getAll: vi.fn(),
+		getById: vi.fn().mockResolvedValue(null),
 	};
 	return {
 		shippingOrders: shippingOrdersMock,
@@ -155,6 +158,7 @@ describe("Screen 10: Picking Workflow", () => {
 		const mockPallets = [
 			{
 				id: "pallet-1",
+				lpn: "W1-P-000001",
 				item_id: "prod-1",
 				qty: 50,
 				status: "Stored" as const,
@@ -289,6 +293,7 @@ describe("Screen 10: Picking Workflow", () => {
 			const mockPallets = [
 				{
 					id: "pallet-1",
+					lpn: "W1-P-000002",
 					item_id: "PROD-001",
 					qty: 50,
 					status: "Stored" as const,
@@ -393,4 +398,127 @@ describe("Screen 10: Picking Workflow", () => {
 			expect(resetButton).toBeDisabled(); // Should be disabled when no filters applied
 		});
 	});
+
+	it("should list pallets along the walking route and suggest FIFO picks", async () => {
+		const mockOrder = {
+			id: "550e8400-e29b-41d4-a716-446655440000",
+			order_ref: "ORD-001",
+			shipment_type: "Hand_Delivery" as const,
+			status: "Pending" as const,
+			created_at: "2025-11-26T10:00:00Z",
+			created_by: "user-1",
+			lines: [
+				{
+					id: "line-1",
+					shipping_order_id: "550e8400-e29b-41d4-a716-446655440000",
+					item_id: "prod-1",
+					requested_qty: 40,
+					created_at: "2025-11-26T10:00:00Z",
+				},
+			],
+		};
+		const stored = (id: string, location_id: string, received_at: string) => ({
+			id,
+			lpn: "W1-P-000003",
+			item_id: "prod-1",
+			qty: 40,
+			status: "Stored" as const,
+			location_id,
+			is_cross_dock: false,
+			received_at,
+			created_at: received_at,
+		});
+
+		vi.mocked(wmsApi.default.shippingOrders.getById).mockResolvedValue(mockOrder as unknown as typeof mockOrder);
+		vi.mocked(wmsApi.default.pallets.getFiltered).mockImplementation(async (filters) =>
+			filters?.shipping_order_id === null
+				? [
+						stored("pallet-new", "W1-2-1-A", "2026-03-01T00:00:00Z"),
+						stored("pallet-old", "W1-1-3-C", "2026-01-01T00:00:00Z"),
+					]
+				: []
+		);
+		vi.mocked(wmsApi.default.locations.getAll).mockResolvedValue([
+			{ location_id: "W1-1-3-C", warehouse_id: "wh-1", type: "RACK", rack: 1, level: 3, position: "C" },
+			{ location_id: "W1-2-1-A", warehouse_id: "wh-1", type: "RACK", rack: 2, level: 1, position: "A" },
+		]);
+
+		renderScreen();
+
+		const rows = await screen.findAllByRole("row");
+		expect(wmsApi.default.locations.getAll).toHaveBeenCalledTimes(1);
+		expect(wmsApi.default.locations.getAll).toHaveBeenCalledWith(["W1-2-1-A", "W1-1-3-C"]);
+		expect(wmsApi.default.locations.getById).not.toHaveBeenCalled();
+
+		const pickRows = rows.filter((row) => row.textContent?.includes("W1-"));
+		expect(pickRows.map((row) => row.textContent?.match(/W1-\d+-\d+-[A-Z]/)?.[0])).toEqual(["W1-1-3-C", "W1-2-1-A"]);
+		expect(pickRows[0]).toHaveTextContent("Pick · exact qty");
+		expect(pickRows[1]).not.toHaveTextContent("Pick ·");
+	});
+
+	it("should pick a scanned pallet and refuse wrong pallets and orders", async () => {
+		const palletId = "a1b2c3d4-e5f6-4a7b-8c9d-0e1f2a3b4c5d";
+		const mockOrder = {
+			id: "550e8400-e29b-41d4-a716-446655440000",
+			order_ref: "ORD-001",
+			shipment_type: "Hand_Delivery" as const,
+			status: "Pending" as const,
+			created_at: "2025-11-26T10:00:00Z",
+			created_by: "user-1",
+			lines: [
+				{
+					id: "line-1",
+					shipping_order_id: "550e8400-e29b-41d4-a716-446655440000",
+					item_id: "prod-1",
+					requested_qty: 40,
+					created_at: "2025-11-26T10:00:00Z",
+				},
+			],
+		};
+		const pallet = {
+			id: palletId,
+			lpn: "W1-P-000004",
+			item_id: "prod-1",
+			qty: 40,
+			status: "Stored" as const,
+			location_id: "W1-1-1-A",
+			is_cross_dock: false,
+			created_at: "2026-01-01T00:00:00Z",
+		};
+
+		vi.mocked(wmsApi.default.shippingOrders.getById).mockResolvedValue(mockOrder as unknown as typeof mockOrder);
+		vi.mocked(wmsApi.default.pallets.getFiltered).mockImplementation(async (filters) =>
+			filters?.shipping_order_id === null ? [pallet] : []
+		);
+		vi.mocked(wmsApi.default.pallets.update).mockResolvedValue({
+			...pallet,
+			shipping_order_id: mockOrder.id,
+			status: "Staged",
+		});
+		vi.mocked(wmsApi.default.locations.getAll).mockResolvedValue([
+			{ location_id: "W1-1-1-A", warehouse_id: "wh-1", type: "RACK", rack: 1, level: 1, position: "A" },
+		]);
+
+		renderScreen();
+
+		const field = await screen.findByRole("textbox", { name: "Scan barcode" });
+		const scan = (text: string) => {
+			fireEvent.change(field, { target: { value: text } });
+			fireEvent.keyDown(field, { key: "Enter" });
+		};
+
+		scan("SO:ORD-999");
+		expect(screen.getByRole("status")).toHaveTextContent("Wrong order: ORD-999 scanned while picking ORD-001");
+		scan("ffffffff-e5f6-4a7b-8c9d-000000000000");
+		expect(screen.getByRole("status")).toHaveTextContent("Wrong pallet");
+		expect(wmsApi.default.pallets.update).not.toHaveBeenCalled();
+
+		scan("2a3b4c5d");
+		await waitFor(() => {
+			expect(wmsApi.default.pallets.update).toHaveBeenCalledWith(
+				palletId,
+				expect.objectContaining({ shipping_order_id: mockOrder.id, status: "Staged" })
+			);
+		});
+	});
 });
@@ -8,11 +8,22 @@
  * Story 6.2 Acceptance Criteria:
  * 1. Display shipping order (status=Pending or Picking)
  * 2. List pallets: status IN (Stored, Received), shipping_order_id=NULL, item has RemainingQty > 0
- * 3. Columns: Item ID, Description, Location, Qty, [Select] button
+ * 3. Columns: LPN, Item ID, Description, Location, Qty, [Select] button
  * 4. Verify picked_qty + pallet.qty ≤ requested_qty
  * 5. Update pallet.shipping_order_id on select
  * 6. Remove pallet from list, hide item if Remaining=0
  * 7. [Finish Picking] button sets status=Loading, navigates to Screen 11
+ *
+ * A pallet holding more than the order still needs can be split, picking the
+ * part the order needs; picked partial pallets of one item can be merged.
+ *
+ * Pallets are listed in walking-route order (aisle zones, then the racks in a
+ * snake) and the ones to pick are suggested FIFO by received_at, preferring a
+ * pallet that matches the remaining qty (lib/api/pick-list.ts).
+ *
+ * Scanning a pallet label picks that pallet (whatever the filters show);
+ * pallets the order cannot take and other orders' barcodes beep and show an
+ * error.
  */
 
 import React, { useEffect, useMemo, useState } from "react";
@@ -23,6 +34,7 @@ import {
 	ButtonGroup,
 	Card,
 	CardContent,
+	Checkbox,
 	Chip,
 	CircularProgress,
 	Paper,
@@ -41,20 +53,40 @@ import { CheckCircleIcon } from "@phosphor-icons/react/dist/ssr/CheckCircle";
 import { useSnackbar } from "notistack";
 import { useLocation, useNavigate } from "react-router-dom";
 
-import { products, shippingOrders } from "../../lib/api/wms-api";
-import { supabase } from "../../lib/auth/supabase-client";
-import type { ShippingOrder } from "../../types/domain";
+import { useScanInput } from "../../hooks/use-scan-input";
+import { getLineAllocations, getRemainingQty } from "../../lib/api/allocation";
+import { compareRoute, suggestPicks, type PickSuggestionReason } from "../../lib/api/pick-list";
+import { canTransition } from "../../lib/api/status-machine";
+import { locations, pallets, products, shippingOrders } from "../../lib/api/wms-api";
+import type { PalletSplitResult } from "../../lib/api/wms-backend";
+import type { Location, Pallet, ShippingOrder } from "../../types/domain";
+import { matchesPallet, type ParsedScan } from "../../utils/scan";
+import { getErrorToastMessage } from "../core/notifications/utils";
+import { ScanBar } from "../core/scan-bar";
+import { PalletMergeDialog } from "../inventory/pallet-merge-dialog";
+import { PalletSplitDialog } from "../inventory/pallet-split-dialog";
 
 interface PalletRow {
 	palletId: string;
+	lpn: string;
 	itemId: string;
 	description: string;
 	location: string;
 	qty: number;
 	rackNumber?: number;
 	shippingOrderId?: string;
+	/** Location record, for the walking route */
+	locationData?: Location;
+	receivedAt?: string;
+	createdAt: string;
 }
 
+const SUGGESTION_LABELS: Record<PickSuggestionReason, string> = {
+	exact: "Pick · exact qty",
+	fifo: "Pick · FIFO",
+	split: "Pick · split",
+};
+
 export default function Screen10() {
 	const location = useLocation();
 	const navigate = useNavigate();
@@ -73,11 +105,25 @@ export default function Screen10() {
 	const [textFilter, setTextFilter] = useState("");
 	const [selectedRack, setSelectedRack] = useState<number | null>(null);
 
-	// Summary state for Requested vs Remaining (Safety Net)
-	const [totalRequested, setTotalRequested] = useState(0);
-	const [totalRemaining, setTotalRemaining] = useState(0);
-	const [crossDockQty, setCrossDockQty] = useState(0);
-	const [pickedQty, setPickedQty] = useState(0);
+	// Pallets assigned to this order in any status (picked, cross-dock, loaded, shipped)
+	const [assignedPallets, setAssignedPallets] = useState<Pallet[]>([]);
+
+	// Split (pallet larger than the remaining qty) and merge (picked partial pallets)
+	const [splitCandidate, setSplitCandidate] = useState<{ pallet: Pallet; row: PalletRow; qty: number } | null>(null);
+	const [mergeSelection, setMergeSelection] = useState<string[]>([]);
+	const [showMergeDialog, setShowMergeDialog] = useState(false);
+
+	// Summary for Requested vs Remaining (Safety Net), per spec 5.1
+	const { totalRequested, totalRemaining, crossDockQty, pickedQty } = useMemo(() => {
+		const lines = shippingOrder ? getLineAllocations(shippingOrder, assignedPallets) : [];
+		const counted = assignedPallets.filter((p) => p.status !== "WriteOff");
+		return {
+			totalRequested: lines.reduce((sum, line) => sum + line.requestedQty, 0),
+			totalRemaining: lines.reduce((sum, line) => sum + line.remainingQty, 0),
+			crossDockQty: counted.filter((p) => p.is_cross_dock).reduce((sum, p) => sum + p.qty, 0),
+			pickedQty: counted.filter((p) => !p.is_cross_dock).reduce((sum, p) => sum + p.qty, 0),
+		};
+	}, [shippingOrder, assignedPallets]);
 
 	// Load shipping order and available pallets
 	const [refreshKey, setRefreshKey] = useState(0);
@@ -96,8 +142,8 @@ export default function Screen10() {
 				// Fetch shipping order
 				const order = await shippingOrders.getById(shippingOrderId);
 
-				// Only allow Pending or Picking status
-				if (!["Pending", "Picking"].includes(order.status)) {
+				// Only orders that can still be picked (Pending or Picking)
+				if (!canTransition("shippingOrder", order.status, "Picking")) {
 					enqueueSnackbar("Shipping order is not in Pending or Picking status", { variant: "error" });
 					navigate("/warehouse");
 					return;
@@ -105,26 +151,23 @@ export default function Screen10() {
 
 				setShippingOrder(order);
 
-				// Fetch pallets with Stored status (normal put-away pallets)
-
-				const { data: storedPalletsData, error: storedError } = await supabase
-					.from("pallets")
-					.select("*")
-					.eq("status", "Stored");
-				const storedPallets = storedPalletsData || [];
-				if (storedError) console.error(" [SCREEN 10] Error fetching stored pallets:", storedError);
-
-				// Fetch pallets with Staged status (SHIP-NOW cross-dock pallets ready for picking)
-
-				const { data: stagedPalletsData, error: stagedError } = await supabase
-					.from("pallets")
-					.select("*")
-					.eq("status", "Staged");
-				const stagedPallets = stagedPalletsData || [];
-				if (stagedError) console.error(" [SCREEN 10] Error fetching staged pallets:", stagedError);
+				// Unassigned Stored/Staged pallets of the order's items are pickable; every pallet
+				// already assigned to this order (any status) counts against RemainingQty
+				const orderItemIds = (order.lines || []).map((line) => line.item_id);
+				const [unassignedPallets, orderPallets] =
+					orderItemIds.length > 0
+						? await Promise.all([
+								pallets.getFiltered({ status: ["Stored", "Staged"], item_id: orderItemIds, shipping_order_id: null }),
+								pallets.getFiltered({ shipping_order_id: shippingOrderId }),
+							]).catch((fetchError) => {
+								console.error(" [SCREEN 10] Error fetching pallets:", fetchError);
+								return [[], []];
+							})
+						: [[], []];
 
 				// Combine all available pallets (Stored + Staged)
-				const allPallets = [...storedPallets, ...stagedPallets];
+				const allPallets = [...unassignedPallets, ...orderPallets];
+				setAssignedPallets(orderPallets);
 
 				// Filter for pallets that are available for this order:
 				// 1. Have no shipping_order_id (normal pallets not yet assigned)
@@ -148,133 +191,55 @@ export default function Screen10() {
 					return false;
 				});
 
-				// Build pallet rows with RemainingQty calculation
-				const rows: PalletRow[] = [];
-				const itemQtyMap = new Map<string, number>();
-
-				// Build map of requested qty per item
-				for (const line of order.lines || []) {
-					itemQtyMap.set(line.item_id, line.requested_qty);
-				}
-
-				// Calculate picked qty per item and cross-dock qty
-				const pickedQtyMap = new Map<string, number>();
-				let totalCrossDock = 0;
-				let totalPicked = 0;
-
-				for (const pallet of allPallets) {
-					if (pallet.shipping_order_id === shippingOrderId) {
-						const current = pickedQtyMap.get(pallet.item_id) || 0;
-						pickedQtyMap.set(pallet.item_id, current + pallet.qty);
-
-						// Track cross-dock vs picked separately
-						if (pallet.is_cross_dock) {
-							totalCrossDock += pallet.qty;
-						} else {
-							totalPicked += pallet.qty;
-						}
-					}
-				}
+				// Build pallet rows for items that still have RemainingQty
+				const remainingByItem = new Map(
+					getLineAllocations(order, orderPallets).map((line) => [line.itemId, line.remainingQty])
+				);
+				const pickable = availablePallets.filter(
+					(pallet) => (remainingByItem.get(pallet.item_id) ?? 0) > 0 || pallet.shipping_order_id === shippingOrderId
+				);
 
-				// Build rows for available pallets
-				for (const pallet of availablePallets) {
-					const requested = itemQtyMap.get(pallet.item_id) || 0;
-					const picked = pickedQtyMap.get(pallet.item_id) || 0;
-					const remaining = requested - picked;
-
-					// Show if:
-					// 1. RemainingQty > 0 (normal pallets not yet picked), OR
-					// 2. Pallet is already assigned to this order (cross-dock pallets)
-					if (remaining > 0 || pallet.shipping_order_id === shippingOrderId) {
-						// Fetch product for description
-						let product;
-						try {
-							const allProducts = await products.getAll();
-							product = allProducts.find((p) => p.item_id === pallet.item_id);
-							if (!product) {
-								throw new Error(`Product not found for item_id: ${pallet.item_id}`);
-							}
-						} catch (error) {
-							console.error("Error fetching product:", error);
-							// Use item_id as fallback description
-							product = {
-								id: "",
-								item_id: pallet.item_id,
-								description: pallet.item_id,
-								units_per_pallet: 0,
-								created_at: "",
-							};
-						}
-
-						// Fetch location for display and extract rack number
-						let locationStr = "N/A";
-						let rackNumber: number | undefined;
-						if (pallet.location_id) {
-							try {
-								// Fetch location directly from database using location_id
-								const { data: locationData, error: locError } = await supabase
-									.from("locations")
-									.select("*")
-									.eq("location_id", pallet.location_id)
-									.single();
-
-								if (locError) {
-									console.error("Error fetching location:", locError);
-								} else if (locationData) {
-									locationStr = locationData.location_id || "N/A";
-									// Extract rack number from location_id
-									// Rack format: "W1-5-3-D" -> rack 5
-									// Aisle format: "W1-AISLE-01" -> no rack number (undefined)
-									const rackMatch = locationStr.match(/W1-(\d+)-/);
-									if (rackMatch) {
-										rackNumber = Number.parseInt(rackMatch[1], 10);
-									}
-									// Note: Aisle locations (W1-AISLE-01, etc.) will have rackNumber = undefined
-									// This allows them to be shown regardless of rack filter selection
-								} else {
-									console.warn(`No location data returned for id: ${pallet.location_id}`);
-								}
-							} catch (error) {
-								console.error(`Error fetching location for pallet ${pallet.id}:`, error);
-								// Location fetch failed, use N/A
-							}
-						} else {
-							// SHIP-NOW pallets have no location_id (they skip put-away)
-							if (pallet.shipping_order_id) {
-								locationStr = "📦 Cross-Dock";
-							}
-						}
-
-						rows.push({
-							palletId: pallet.id,
-							itemId: pallet.item_id,
-							description: product.description,
-							location: locationStr,
-							qty: pallet.qty,
-							rackNumber,
-							shippingOrderId: pallet.shipping_order_id,
-						});
-					}
-				}
+				// Products and locations in one query each (not one per pallet)
+				const locationIds = [...new Set(pickable.map((p) => p.location_id).filter((id): id is string => !!id))];
+				const [allProducts, palletLocations] = await Promise.all([
+					products.getAll().catch((error) => {
+						console.error("Error fetching products:", error);
+						return [];
+					}),
+					locationIds.length > 0
+						? locations.getAll(locationIds).catch((error) => {
+								console.error("Error fetching locations:", error);
+								return [];
+							})
+						: [],
+				]);
+				const productByItem = new Map(allProducts.map((product) => [product.item_id, product]));
+				const locationById = new Map(palletLocations.map((loc) => [loc.location_id, loc]));
+
+				const rows: PalletRow[] = pickable.map((pallet) => {
+					const locationData = pallet.location_id ? locationById.get(pallet.location_id) : undefined;
+					return {
+						palletId: pallet.id,
+						lpn: pallet.lpn,
+						itemId: pallet.item_id,
+						// Use item_id as fallback description
+						description: productByItem.get(pallet.item_id)?.description ?? pallet.item_id,
+						// SHIP-NOW pallets have no location_id (they skip put-away)
+						location: locationData?.location_id ?? (pallet.shipping_order_id ? "📦 Cross-Dock" : "N/A"),
+						qty: pallet.qty,
+						// Aisle locations have no rack number, so they show regardless of the rack filter
+						rackNumber: locationData?.type === "RACK" ? locationData.rack : undefined,
+						shippingOrderId: pallet.shipping_order_id,
+						locationData,
+						receivedAt: pallet.received_at,
+						createdAt: pallet.created_at,
+					};
+				});
 
 				setPalletRows(rows);
-
-				// Calculate summary: Total Requested vs Total Remaining (Safety Net)
-				let requested = 0;
-				let remaining = 0;
-				for (const line of order.lines || []) {
-					const picked = pickedQtyMap.get(line.item_id) || 0;
-					const itemRemaining = line.requested_qty - picked;
-					requested += line.requested_qty;
-					remaining += Math.max(0, itemRemaining); // Don't count negative
-				}
-				setTotalRequested(requested);
-				setTotalRemaining(remaining);
-				setCrossDockQty(totalCrossDock);
-				setPickedQty(totalPicked);
 			} catch (error) {
 				console.error("Error loading data:", error);
-				const message = error instanceof Error ? error.message : "Failed to load data";
+				const message = getErrorToastMessage(error, "Failed to load data");
 				enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 			} finally {
 				setIsLoading(false);
@@ -296,9 +261,9 @@ export default function Screen10() {
 		return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
 	}, [shippingOrderId]);
 
-	// Compute filtered pallets based on text and rack filters
+	// Compute filtered pallets based on text and rack filters, in walking-route order
 	const filteredPalletRows = useMemo(() => {
-		return palletRows.filter((row) => {
+		const matching = palletRows.filter((row) => {
 			// Text filter: match Item ID or Description (case-insensitive)
 			if (textFilter.trim()) {
 				const searchTerm = textFilter.toLowerCase();
@@ -315,13 +280,57 @@ export default function Screen10() {
 
 			return true;
 		});
+		return matching.sort((a, b) => compareRoute(a.locationData, b.locationData));
 	}, [palletRows, textFilter, selectedRack]);
 
+	// FIFO pick suggestions for what each item still needs
+	const pickSuggestions = useMemo(() => {
+		if (!shippingOrder) return new Map<string, PickSuggestionReason>();
+		const remainingByItem = new Map(
+			getLineAllocations(shippingOrder, assignedPallets).map((line) => [line.itemId, line.remainingQty])
+		);
+		return suggestPicks(
+			palletRows.map((row) => ({
+				id: row.palletId,
+				item_id: row.itemId,
+				qty: row.qty,
+				received_at: row.receivedAt,
+				created_at: row.createdAt,
+			})),
+			remainingByItem
+		);
+	}, [palletRows, shippingOrder, assignedPallets]);
+
 	const handleResetFilters = () => {
 		setTextFilter("");
 		setSelectedRack(null);
 	};
 
+	// Assign a pallet to the order and stage it
+	const pickRow = async (row: PalletRow) => {
+		// If this is the first pallet being picked, update order status to 'Picking'
+		if (selectedPallets.size === 0) {
+			await shippingOrders.update(shippingOrderId, {
+				status: "Picking",
+			});
+		}
+
+		// Update pallet with shipping_order_id and status='Staged'
+		const picked = await pallets.update(row.palletId, {
+			shipping_order_id: shippingOrderId,
+			status: "Staged", // Move pallet to Staged status when picked
+			location_id: null, // Clear location when moving to Staged
+		});
+
+		// Remove from list and add to selected details
+		setPalletRows((prev) => prev.filter((r) => r.palletId !== row.palletId));
+		setSelectedPallets((prev) => new Set([...prev, row.palletId]));
+		setSelectedPalletDetails((prev) => [...prev, row]);
+
+		// Remaining qty decreases as we pick pallets (avoid full page reload)
+		setAssignedPallets((prev) => [...prev, picked]);
+	};
+
 	const handleSelectPallet = async (palletId: string) => {
 		try {
 			setIsSubmitting(true);
@@ -332,117 +341,97 @@ export default function Screen10() {
 				throw new Error("Pallet not found");
 			}
 
-			// CRITICAL VALIDATION: Prevent over-picking (picking more than ordered)
-			// Calculate total already picked for this item
-			const alreadyPickedForItem = selectedPalletDetails
-				.filter((p) => p.itemId === selectedPallet.itemId)
-				.reduce((sum, p) => sum + p.qty, 0);
-
-			// Get requested qty for this item from shipping order lines
-			const orderLine = shippingOrder?.lines?.find((l) => l.item_id === selectedPallet.itemId);
-			if (!orderLine) {
+			// CRITICAL VALIDATION: Prevent over-picking (picking more than RemainingQty)
+			if (!shippingOrder?.lines?.some((l) => l.item_id === selectedPallet.itemId)) {
 				throw new Error("Order line not found for this item");
 			}
+			const remaining = getRemainingQty(shippingOrder, selectedPallet.itemId, assignedPallets);
 
-			const requestedQty = orderLine.requested_qty;
-			const newTotal = alreadyPickedForItem + selectedPallet.qty;
-
-			if (newTotal > requestedQty) {
-				const remaining = requestedQty - alreadyPickedForItem;
+			if (selectedPallet.qty > remaining) {
+				if (remaining > 0) {
+					// Offer to split off what the order still needs and pick that part
+					setSplitCandidate({ pallet: await pallets.getById(palletId), row: selectedPallet, qty: remaining });
+					return;
+				}
 				enqueueSnackbar(
-					`Cannot pick: Total qty (${newTotal}) would exceed ordered qty (${requestedQty}). Only ${remaining} units remaining for ${selectedPallet.itemId}.`,
+					`Cannot pick: Pallet qty (${selectedPallet.qty}) exceeds the remaining qty. Only ${remaining} units remaining for ${selectedPallet.itemId}.`,
 					{ variant: "error" }
 				);
-				setIsSubmitting(false);
 				return;
 			}
 
-			// If this is the first pallet being picked, update order status to 'Picking'
-			if (selectedPallets.size === 0) {
-				await shippingOrders.update(shippingOrderId, {
-					status: "Picking",
-				});
-			}
-
-			// Update pallet with shipping_order_id and status='Staged' using direct Supabase query
-			const { error } = await supabase
-				.from("pallets")
-				.update({
-					shipping_order_id: shippingOrderId,
-					status: "Staged", // Move pallet to Staged status when picked
-					location_id: null, // Clear location when moving to Staged
-				})
-				.eq("id", palletId);
-
-			if (error) {
-				console.error("❌ [SELECT PALLET] Error updating pallet:", error);
-				throw error;
-			}
+			await pickRow(selectedPallet);
+			enqueueSnackbar("✅ Pallet selected and staged", { variant: "success" });
+		} catch (error) {
+			console.error("Error selecting pallet:", error);
+			const message = getErrorToastMessage(error, "Failed to select pallet");
+			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
 
-			// Remove from list and add to selected details
-			setPalletRows((prev) => prev.filter((r) => r.palletId !== palletId));
-			setSelectedPallets((prev) => new Set([...prev, palletId]));
-			if (selectedPallet) {
-				setSelectedPalletDetails((prev) => [...prev, selectedPallet]);
-			}
+	// Pick the first new pallet; the rest (and the original) stay available
+	const handleSplit = async (result: PalletSplitResult) => {
+		if (!splitCandidate) return;
+		const { row } = splitCandidate;
+		setSplitCandidate(null);
+		const [toPick, ...others] = result.created.map((pallet) => ({
+			...row,
+			palletId: pallet.id,
+			lpn: pallet.lpn,
+			qty: pallet.qty,
+		}));
+		setPalletRows((prev) => [
+			...prev.map((r) => (r.palletId === row.palletId ? { ...r, qty: result.source.qty } : r)),
+			...others,
+		]);
 
-			// Update summary calculations locally (avoid full page reload)
-			if (selectedPallet) {
-				setPickedQty((prev) => prev + selectedPallet.qty);
-				// Remaining qty decreases as we pick pallets
-				setTotalRemaining((prev) => Math.max(0, prev - selectedPallet.qty));
+		try {
+			setIsSubmitting(true);
+			const remaining = shippingOrder ? getRemainingQty(shippingOrder, row.itemId, assignedPallets) : 0;
+			if (toPick.qty > remaining) {
+				setPalletRows((prev) => [...prev, toPick]);
+				enqueueSnackbar("✅ Pallet split", { variant: "success" });
+				return;
 			}
-
-			enqueueSnackbar("✅ Pallet selected and staged", { variant: "success" });
+			await pickRow(toPick);
+			enqueueSnackbar(`✅ Pallet split, ${toPick.qty} units staged`, { variant: "success" });
 		} catch (error) {
-			console.error("Error selecting pallet:", error);
-			const message = error instanceof Error ? error.message : "Failed to select pallet";
+			console.error("Error picking split pallet:", error);
+			const message = getErrorToastMessage(error, "Failed to select pallet");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
 		}
 	};
 
+	// Keep the merged pallet with its new qty and drop the pallets merged into it
+	const handleMerge = (merged: Pallet, mergedIds: string[]) => {
+		setAssignedPallets((prev) =>
+			prev.filter((p) => !mergedIds.includes(p.id)).map((p) => (p.id === merged.id ? merged : p))
+		);
+		setSelectedPallets((prev) => new Set([...prev].filter((id) => !mergedIds.includes(id))));
+		setSelectedPalletDetails((prev) =>
+			prev
+				.filter((r) => !mergedIds.includes(r.palletId))
+				.map((r) => (r.palletId === merged.id ? { ...r, qty: merged.qty } : r))
+		);
+		setMergeSelection([]);
+		setShowMergeDialog(false);
+		enqueueSnackbar(`✅ ${mergedIds.length + 1} pallets merged (qty ${merged.qty})`, { variant: "success" });
+	};
+
 	const handleDeselectPallet = async (palletId: string) => {
 		try {
 			setIsSubmitting(true);
 
 			// Update pallet to remove shipping_order_id and set status back to 'Stored'
-			const { error } = await supabase
-				.from("pallets")
-				.update({
-					shipping_order_id: null,
-					status: "Stored", // Move pallet back to Stored status when deselected
-				})
-				.eq("id", palletId);
-
-			if (error) {
-				console.error("❌ [DESELECT PALLET] Error updating pallet:", error);
-				throw error;
-			}
-
-			// Get the pallet being deselected to restore it to the list
-			// We need to fetch the pallet details to restore it
-			const { data: palletData, error: fetchError } = await supabase
-				.from("pallets")
-				.select(
-					`
-					id,
-					item_id,
-					qty,
-					location_id,
-					products (
-						description
-					)
-				`
-				)
-				.eq("id", palletId)
-				.single();
-
-			if (fetchError) {
-				console.error("Error fetching pallet data:", fetchError);
-				throw fetchError;
-			}
+			const palletData = await pallets.update(palletId, {
+				shipping_order_id: null,
+				status: "Stored", // Move pallet back to Stored status when deselected
+			});
+			const palletProduct = await products.getByItemId(palletData.item_id).catch(() => null);
 
 			// Remove from selected set and details
 			setSelectedPallets((prev) => {
@@ -451,27 +440,14 @@ export default function Screen10() {
 				return newSet;
 			});
 			setSelectedPalletDetails((prev) => prev.filter((p) => p.palletId !== palletId));
+			setMergeSelection((prev) => prev.filter((id) => id !== palletId));
 
 			// Restore pallet to the list
 			if (palletData) {
-				let locationStr = "N/A";
-				let rackNumber: number | undefined;
-
+				let locationData: Location | undefined;
 				if (palletData.location_id) {
 					try {
-						const { data: locationData, error: locError } = await supabase
-							.from("locations")
-							.select("*")
-							.eq("location_id", palletData.location_id)
-							.single();
-
-						if (!locError && locationData) {
-							locationStr = locationData.location_id || "N/A";
-							const rackMatch = locationStr.match(/W1-(\d+)-/);
-							if (rackMatch) {
-								rackNumber = Number.parseInt(rackMatch[1], 10);
-							}
-						}
+						locationData = await locations.getById(palletData.location_id);
 					} catch (error) {
 						console.error(`Error fetching location for pallet ${palletData.id}:`, error);
 					}
@@ -479,26 +455,28 @@ export default function Screen10() {
 
 				const restoredPallet: PalletRow = {
 					palletId: palletData.id,
+					lpn: palletData.lpn,
 					itemId: palletData.item_id,
-					description:
-						(Array.isArray(palletData.products) && palletData.products[0]?.description) || palletData.item_id,
-					location: locationStr || "N/A",
+					description: palletProduct?.description || palletData.item_id,
+					location: locationData?.location_id ?? "N/A",
 					qty: palletData.qty,
-					rackNumber,
+					rackNumber: locationData?.type === "RACK" ? locationData.rack : undefined,
 					shippingOrderId: undefined,
+					locationData,
+					receivedAt: palletData.received_at,
+					createdAt: palletData.created_at,
 				};
 
 				setPalletRows((prev) => [...prev, restoredPallet]);
 
-				// Update summary calculations
-				setPickedQty((prev) => Math.max(0, prev - palletData.qty));
-				setTotalRemaining((prev) => prev + palletData.qty);
+				// Remaining qty goes back up
+				setAssignedPallets((prev) => prev.filter((p) => p.id !== palletId));
 			}
 
 			enqueueSnackbar("✅ Pallet deselected and returned to storage", { variant: "success" });
 		} catch (error) {
 			console.error("Error deselecting pallet:", error);
-			const message = error instanceof Error ? error.message : "Failed to deselect pallet";
+			const message = getErrorToastMessage(error, "Failed to deselect pallet");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -537,13 +515,46 @@ export default function Screen10() {
 			}, 1500);
 		} catch (error) {
 			console.error("Error finishing picking:", error);
-			const message = error instanceof Error ? error.message : "Failed to finish picking";
+			const message = getErrorToastMessage(error, "Failed to finish picking");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
 		}
 	};
 
+	// Handle a scan: a pallet label picks the pallet
+	const handleScan = (scan: ParsedScan) => {
+		if (scan.kind === "order") {
+			if (scan.value === shippingOrder?.order_ref) {
+				scanner.accept(`Order ${scan.value} - scan a pallet label`);
+			} else {
+				scanner.reject(`Wrong order: ${scan.value} scanned while picking ${shippingOrder?.order_ref}`);
+			}
+			return;
+		}
+		if (scan.kind !== "pallet") {
+			scanner.reject(`Not a pallet label: ${scan.value}`);
+			return;
+		}
+
+		if (selectedPalletDetails.some((r) => matchesPallet({ id: r.palletId, lpn: r.lpn }, scan.value))) {
+			scanner.reject(`Pallet ${scan.value} is already picked`);
+			return;
+		}
+		const row = palletRows.find((r) => matchesPallet({ id: r.palletId, lpn: r.lpn }, scan.value));
+		if (!row) {
+			scanner.reject(`Wrong pallet: ${scan.value} is not available for this order`);
+			return;
+		}
+		if (!shippingOrder || getRemainingQty(shippingOrder, row.itemId, assignedPallets) <= 0) {
+			scanner.reject(`Wrong pallet: the order needs no more ${row.itemId}`);
+			return;
+		}
+		scanner.accept(`Pallet ${row.lpn} (${row.itemId}) at ${row.location}`);
+		handleSelectPallet(row.palletId);
+	};
+	const scanner = useScanInput(handleScan, { enabled: !isSubmitting && !splitCandidate && !showMergeDialog });
+
 	if (isLoading) {
 		return (
 			<Box sx={{ display: "flex", justifyContent: "center", alignItems: "center", height: "100vh" }}>
@@ -655,6 +666,8 @@ export default function Screen10() {
 				</CardContent>
 			</Card>
 
+			<ScanBar scanner={scanner} hint="Scan a pallet label to pick it" disabled={isSubmitting} />
+
 			{/* Filters */}
 			<Card sx={{ mb: 3 }}>
 				<CardContent>
@@ -748,22 +761,40 @@ export default function Screen10() {
 					<Table>
 						<TableHead>
 							<TableRow sx={{ backgroundColor: "#f5f5f5" }}>
+								<TableCell>Stop</TableCell>
+								<TableCell>LPN</TableCell>
 								<TableCell>Item ID</TableCell>
 								<TableCell>Description</TableCell>
 								<TableCell>Location</TableCell>
 								<TableCell align="right">Qty</TableCell>
+								<TableCell>Suggestion</TableCell>
 								<TableCell align="center">Action</TableCell>
 							</TableRow>
 						</TableHead>
 						<TableBody>
-							{filteredPalletRows.map((row) => (
-								<TableRow key={row.palletId} hover>
+							{filteredPalletRows.map((row, index) => (
+								<TableRow
+									key={row.palletId}
+									hover
+									sx={{ backgroundColor: pickSuggestions.has(row.palletId) ? "#f0f8f0" : undefined }}
+								>
+									<TableCell>{index + 1}</TableCell>
+									<TableCell>{row.lpn}</TableCell>
 									<TableCell sx={{ fontWeight: "bold" }}>{row.itemId}</TableCell>
 									<TableCell>{row.description}</TableCell>
 									<TableCell>
 										<Chip label={row.location} size="small" variant="outlined" />
 									</TableCell>
 									<TableCell align="right">{row.qty}</TableCell>
+									<TableCell>
+										{pickSuggestions.has(row.palletId) && (
+											<Chip
+												label={SUGGESTION_LABELS[pickSuggestions.get(row.palletId) as PickSuggestionReason]}
+												size="small"
+												color="success"
+											/>
+										)}
+									</TableCell>
 									<TableCell align="center">
 										<Button
 											size="small"
@@ -786,13 +817,24 @@ export default function Screen10() {
 			{selectedPalletDetails.length > 0 && (
 				<Card sx={{ mb: 3 }}>
 					<CardContent>
-						<Typography variant="h6" sx={{ mb: 2, fontWeight: "bold", color: "success.main" }}>
-							✅ Selected Pallets ({selectedPalletDetails.length})
-						</Typography>
+						<Box sx={{ display: "flex", alignItems: "center", justifyContent: "space-between", mb: 2 }}>
+							<Typography variant="h6" sx={{ fontWeight: "bold", color: "success.main" }}>
+								✅ Selected Pallets ({selectedPalletDetails.length})
+							</Typography>
+							<Button
+								variant="outlined"
+								disabled={mergeSelection.length < 2 || isSubmitting}
+								onClick={() => setShowMergeDialog(true)}
+							>
+								Merge Selected ({mergeSelection.length})
+							</Button>
+						</Box>
 						<TableContainer component={Paper} variant="outlined">
 							<Table size="small">
 								<TableHead sx={{ backgroundColor: "#f8f9fa" }}>
 									<TableRow>
+										<TableCell padding="checkbox" />
+										<TableCell>LPN</TableCell>
 										<TableCell>Item ID</TableCell>
 										<TableCell>Description</TableCell>
 										<TableCell>Qty</TableCell>
@@ -802,6 +844,20 @@ export default function Screen10() {
 								<TableBody>
 									{selectedPalletDetails.map((row) => (
 										<TableRow key={row.palletId} hover sx={{ backgroundColor: "#f0f8f0" }}>
+											<TableCell padding="checkbox">
+												<Checkbox
+													checked={mergeSelection.includes(row.palletId)}
+													onChange={() =>
+														setMergeSelection((prev) =>
+															prev.includes(row.palletId)
+																? prev.filter((id) => id !== row.palletId)
+																: [...prev, row.palletId]
+														)
+													}
+													inputProps={{ "aria-label": `Select pallet ${row.lpn} to merge` }}
+												/>
+											</TableCell>
+											<TableCell>{row.lpn}</TableCell>
 											<TableCell sx={{ fontWeight: "bold" }}>{row.itemId}</TableCell>
 											<TableCell>{row.description}</TableCell>
 											<TableCell>{row.qty}</TableCell>
@@ -839,6 +895,19 @@ export default function Screen10() {
 				</Button>
 			</Box>
 
+			<PalletSplitDialog
+				pallet={splitCandidate?.pallet ?? null}
+				initialQty={splitCandidate?.qty}
+				onClose={() => setSplitCandidate(null)}
+				onSplit={handleSplit}
+			/>
+			<PalletMergeDialog
+				pallets={assignedPallets.filter((p) => mergeSelection.includes(p.id))}
+				open={showMergeDialog}
+				onClose={() => setShowMergeDialog(false)}
+				onMerge={handleMerge}
+			/>
+
 			{/* Summary */}
 			{selectedPallets.size > 0 && (
 				<Box sx={{ mt: 3, p: 2, backgroundColor: "#f5f5f5", borderRadius: 1 }}>
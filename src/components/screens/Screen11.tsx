@@ -35,8 +35,8 @@ import { useSnackbar } from "notistack";
 import { useLocation, useNavigate } from "react-router-dom";
 
 import { manifests as manifestsApi, shippingOrders } from "../../lib/api/wms-api";
-import { supabase } from "../../lib/auth/supabase-client";
 import type { Manifest, ShippingOrder } from "../../types/domain";
+import { getErrorToastMessage } from "../core/notifications/utils";
 
 export default function Screen11() {
 	const location = useLocation();
@@ -85,10 +85,6 @@ export default function Screen11() {
 				// Fetch manifests based on shipment type
 				if (order.shipment_type === "Hand_Delivery") {
 					try {
-						// Debug: Fetch ALL manifests to see what's in the database
-						const { error: allError } = await supabase.from("manifests").select("*");
-
-						if (allError) console.error("Error fetching all manifests:", allError);
 						const handDeliveryManifests = await manifestsApi.getFiltered({
 							type: "Hand",
 							status: "Open",
@@ -105,10 +101,6 @@ export default function Screen11() {
 					}
 				} else if (order.shipment_type === "Container_Loading") {
 					try {
-						// Debug: Fetch ALL manifests to see what's in the database
-						const { error: allError } = await supabase.from("manifests").select("*");
-
-						if (allError) console.error("Error fetching all manifests:", allError);
 						const containerManifests = await manifestsApi.getFiltered({
 							type: "Container",
 							status: "Open",
@@ -125,7 +117,7 @@ export default function Screen11() {
 					}
 				}
 			} catch (error_) {
-				const message = error_ instanceof Error ? error_.message : "Failed to load data";
+				const message = getErrorToastMessage(error_, "Failed to load data");
 				setError(message);
 				enqueueSnackbar(message, { variant: "error" });
 			} finally {
@@ -151,7 +143,7 @@ export default function Screen11() {
 				},
 			});
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to select manifest";
+			const message = getErrorToastMessage(error_, "Failed to select manifest");
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -9,10 +9,13 @@
  * 4. Checkbox unchecked: pallet.status=Staged; remove manifest_id
  * 5. [Finish Loading] button: enabled even if NOT all pallets loaded
  * 6. On finish: shipping_order.status=Completed; if container: manifest.status=Closed
+ *
+ * Scanning a pallet label ticks Loaded; other pallets are refused.
  */
 
 import React from "react";
-import { render, screen, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { SnackbarProvider } from "notistack";
 import { BrowserRouter } from "react-router-dom";
 import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
@@ -102,6 +105,7 @@ const mockProduct: Record<string, unknown> = {
 const mockPallets: Record<string, unknown>[] = [
 	{
 		id: "pallet-001",
+		lpn: "W1-P-000001",
 		item_id: "PROD-001",
 		qty: 100,
 		status: "Staged",
@@ -111,6 +115,7 @@ const mockPallets: Record<string, unknown>[] = [
 	},
 	{
 		id: "pallet-002",
+		lpn: "W1-P-000002",
 		item_id: "PROD-001",
 		qty: 100,
 		status: "Received",
@@ -145,12 +150,20 @@ const mockLocations: Record<string, unknown>[] = [
 
 const renderWithProviders = (component: React.ReactElement) => {
 	return render(
-		<BrowserRouter>
-			<SnackbarProvider maxSnack={3}>{component}</SnackbarProvider>
-		</BrowserRouter>
+		<QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+			<BrowserRouter>
+				<SnackbarProvider maxSnack={3}>{component}</SnackbarProvider>
+			</BrowserRouter>
+		</QueryClientProvider>
 	);
 };
 
+// Keyboard-wedge scanner: the barcode typed in one burst, then Enter
+const scanWedge = (text: string) => {
+	for (const key of text) fireEvent.keyDown(document.body, { key });
+	fireEvent.keyDown(document.body, { key: "Enter" });
+};
+
 describe("Screen12 - Pallet Loading", () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
@@ -372,4 +385,30 @@ describe("Screen12 - Pallet Loading", () => {
 			{ timeout: 1000 }
 		);
 	});
+
+	it("should mark a scanned pallet loaded and refuse pallets of other orders", async () => {
+		const palletId = "0b7e2f4a-1c3d-4e5f-8a9b-c0d1e2f3a4b5";
+		(shippingOrders.getById as unknown as Mock).mockResolvedValue({
+			...mockShippingOrder,
+			lines: [{ id: "line-1", shipping_order_id: mockShippingOrder.id, item_id: "PROD-001", requested_qty: 100 }],
+		});
+		(pallets.getFiltered as unknown as Mock).mockResolvedValue([{ ...mockPallets[0], id: palletId }]);
+		(pallets.update as unknown as Mock).mockResolvedValue({ ...mockPallets[0], id: palletId, status: "Loaded" });
+
+		renderWithProviders(<Screen12 />);
+		await screen.findByText("ORD-001");
+
+		scanWedge("9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a");
+		expect(await screen.findByText(/Wrong pallet: 9f8e7d6c-5b4a-4392-8170-6f5e4d3c2b1a/)).toBeInTheDocument();
+		expect(pallets.update).not.toHaveBeenCalled();
+
+		scanWedge(palletId);
+		await waitFor(() => {
+			expect((pallets.update as unknown as Mock).mock.calls[0].slice(0, 2)).toEqual([
+				palletId,
+				{ status: "Loaded", manifest_id: "550e8400-e29b-41d4-a716-446655440001" },
+			]);
+		});
+		expect(screen.getByRole("status")).toHaveTextContent("Pallet W1-P-000001 (PROD-001)");
+	});
 });
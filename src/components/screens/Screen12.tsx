@@ -8,14 +8,20 @@
  *
  * Story 7.2 Acceptance Criteria:
  * 1. Display pallets: shipping_order_id=this_order, status=Staged or Received
- * 2. List: Item ID, Description, Location, Qty, Loaded (checkbox)
+ * 2. List: LPN, Item ID, Description, Location, Qty, Loaded (checkbox)
  * 3. Checkbox checked: pallet.status=Loaded; if container: pallet.manifest_id=selected_manifest_id
  * 4. Checkbox unchecked: pallet.status=Staged; remove manifest_id
  * 5. [Finish Loading] button: enabled even if NOT all pallets loaded
  * 6. On finish: shipping_order.status=Completed; if container: manifest.status=Closed
+ *
+ * Data comes from the hooks/wms query cache: checkbox changes show instantly
+ * and roll back if the update fails.
+ *
+ * Scanning a pallet label ticks its Loaded checkbox; pallets of other orders,
+ * pallets already loaded and other orders' barcodes beep and show an error.
  */
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
 	Alert,
 	Box,
@@ -39,18 +45,24 @@ import { CheckCircleIcon } from "@phosphor-icons/react/dist/ssr/CheckCircle";
 import { useSnackbar } from "notistack";
 import { useLocation, useNavigate } from "react-router-dom";
 
-import { pallets, products, shippingOrders } from "../../lib/api/wms-api";
-import { supabase } from "../../lib/auth/supabase-client";
-import type { Product, ShippingOrder } from "../../types/domain";
+import { useScanInput } from "../../hooks/use-scan-input";
+import { useShippingOrder, useUpdateShippingOrder } from "../../hooks/wms/use-orders";
+import { usePallets, useUpdatePallet } from "../../hooks/wms/use-pallets";
+import { useProductsByItemIds } from "../../hooks/wms/use-products";
+import { pallets } from "../../lib/api/wms-api";
+import type { PalletUpdate } from "../../lib/api/wms-backend";
+import { matchesPallet, type ParsedScan } from "../../utils/scan";
+import { getErrorToastMessage } from "../core/notifications/utils";
+import { ScanBar } from "../core/scan-bar";
 
 interface PalletRow {
 	palletId: string;
+	lpn: string;
 	itemId: string;
 	description: string;
 	qty: number;
 	palletPositions: number;
 	isLoaded: boolean;
-	product: Product;
 }
 
 export default function Screen12() {
@@ -60,130 +72,65 @@ export default function Screen12() {
 
 	const { shippingOrderId, manifestId } = location.state || {};
 
-	const [isLoading, setIsLoading] = useState(true);
-	const [isSubmitting, setIsSubmitting] = useState(false);
-	const [shippingOrder, setShippingOrder] = useState<ShippingOrder | null>(null);
-	const [palletRows, setPalletRows] = useState<PalletRow[]>([]);
-	const [loadedPalletIds, setLoadedPalletIds] = useState<Set<string>>(new Set());
-	const [error, setError] = useState<string | null>(null);
-
-	// Load shipping order and pallets
-	useEffect(() => {
-		const loadData = async () => {
-			try {
-				setIsLoading(true);
-				setError(null);
-
-				if (!shippingOrderId) {
-					enqueueSnackbar("No shipping order selected", { variant: "error" });
-					navigate("/warehouse");
-					return;
-				}
-
-				// Fetch shipping order
-				const order = await shippingOrders.getById(shippingOrderId);
-
-				// Allow Loading or Pending status (for hybrid flow support)
-				if (order.status !== "Loading" && order.status !== "Pending") {
-					enqueueSnackbar("Shipping order must be in Loading or Pending status", { variant: "error" });
-					navigate("/warehouse");
-					return;
-				}
+	// Order and its loadable pallets come from the shared query cache; loaded pallets stay listed (checked)
+	const orderQuery = useShippingOrder(shippingOrderId);
+	const palletsQuery = usePallets(
+		{ shipping_order_id: shippingOrderId, status: ["Stored", "Received", "Staged", "Loaded"] },
+		{ enabled: !!shippingOrderId }
+	);
+	const { productMap } = useProductsByItemIds((palletsQuery.data ?? []).map((p) => p.item_id));
+	const updatePallet = useUpdatePallet();
+	const updateShippingOrder = useUpdateShippingOrder();
 
-				setShippingOrder(order);
-
-				// Fetch pallets for this shipping order with Stored, Received, or Staged status
-				const { data: storedPalletsData, error: storedError } = await supabase
-					.from("pallets")
-					.select("*")
-					.eq("shipping_order_id", shippingOrderId)
-					.eq("status", "Stored");
-				const storedPallets = storedPalletsData || [];
-				if (storedError) console.error("❌ [SCREEN 12] Error fetching stored pallets:", storedError);
-
-				const { data: receivedPalletsData, error: receivedError } = await supabase
-					.from("pallets")
-					.select("*")
-					.eq("shipping_order_id", shippingOrderId)
-					.eq("status", "Received");
-				const receivedPallets = receivedPalletsData || [];
-				if (receivedError) console.error("❌ [SCREEN 12] Error fetching received pallets:", receivedError);
-
-				const { data: stagedPalletsData, error: stagedError } = await supabase
-					.from("pallets")
-					.select("*")
-					.eq("shipping_order_id", shippingOrderId)
-					.eq("status", "Staged");
-				const stagedPallets = stagedPalletsData || [];
-				if (stagedError) console.error("❌ [SCREEN 12] Error fetching staged pallets:", stagedError);
-
-				const allPallets = [...storedPallets, ...receivedPallets, ...stagedPallets];
-
-				// Build pallet rows
-				// Get unique item IDs for batch fetching
-				const uniqueItemIds = [...new Set(allPallets.map((p) => p.item_id))];
-
-				// Batch fetch all products
-				const allProducts = await Promise.all(
-					uniqueItemIds.map(async (itemId) => {
-						try {
-							return await products.getByItemId(itemId);
-						} catch {
-							return null;
-						}
-					})
-				);
-
-				// Create product lookup map
-				const productMap = new Map();
-				for (const product of allProducts) {
-					if (product) {
-						productMap.set(product.item_id, product);
-					}
-				}
+	const shippingOrder = orderQuery.data ?? null;
+	const isLoading = !!shippingOrderId && (orderQuery.isPending || palletsQuery.isPending);
+	const error = orderQuery.error?.message ?? null;
+	const [isSubmitting, setIsSubmitting] = useState(false);
 
-				const rows: PalletRow[] = [];
-				const loaded = new Set<string>();
-
-				for (const pallet of allPallets) {
-					try {
-						// Fetch product
-						const product = productMap.get(pallet.item_id);
-
-						// Check if pallet is already loaded
-						if (pallet.status === "Loaded") {
-							loaded.add(pallet.id);
-						}
-
-						rows.push({
-							palletId: pallet.id,
-							itemId: product?.item_id,
-							description: product?.description,
-							qty: pallet.qty,
-							palletPositions: product.pallet_positions,
-							isLoaded: pallet.status === "Loaded",
-							product,
-						});
-					} catch (error_) {
-						console.error(`Failed to load pallet ${pallet.id}:`, error_);
-					}
-				}
+	// Allow Loading or Pending status (for hybrid flow support)
+	const isOrderLoadable = !shippingOrder || shippingOrder.status === "Loading" || shippingOrder.status === "Pending";
 
-				setPalletRows(rows);
-				setLoadedPalletIds(loaded);
-			} catch (error_) {
-				const message = error_ instanceof Error ? error_.message : "Failed to load data";
-				setError(message);
-				enqueueSnackbar(message, { variant: "error" });
-			} finally {
-				setIsLoading(false);
-			}
-		};
+	useEffect(() => {
+		if (!shippingOrderId) {
+			enqueueSnackbar("No shipping order selected", { variant: "error" });
+			navigate("/warehouse");
+		} else if (!isOrderLoadable) {
+			enqueueSnackbar("Shipping order must be in Loading or Pending status", { variant: "error" });
+			navigate("/warehouse");
+		}
+	}, [shippingOrderId, isOrderLoadable, navigate, enqueueSnackbar]);
 
-		loadData();
-	}, [shippingOrderId, manifestId, navigate, enqueueSnackbar]);
+	useEffect(() => {
+		if (orderQuery.error) {
+			enqueueSnackbar(orderQuery.error.message, { variant: "error" });
+		} else if (palletsQuery.error) {
+			console.error("❌ [SCREEN 12] Error fetching pallets:", palletsQuery.error);
+		}
+	}, [orderQuery.error, palletsQuery.error, enqueueSnackbar]);
+
+	// Build pallet rows (a missing product leaves description/positions blank)
+	const palletRows: PalletRow[] = useMemo(
+		() =>
+			(palletsQuery.data ?? []).map((pallet) => {
+				const product = productMap.get(pallet.item_id);
+				return {
+					palletId: pallet.id,
+					lpn: pallet.lpn,
+					itemId: pallet.item_id,
+					description: product?.description ?? "",
+					qty: pallet.qty,
+					palletPositions: product?.pallet_positions ?? 0,
+					isLoaded: pallet.status === "Loaded",
+				};
+			}),
+		[palletsQuery.data, productMap]
+	);
+	const loadedPalletIds = useMemo(
+		() => new Set(palletRows.filter((row) => row.isLoaded).map((row) => row.palletId)),
+		[palletRows]
+	);
 
-	// Handle pallet loaded checkbox
+	// Handle pallet loaded checkbox (the row flips immediately; rolled back if the update fails)
 	const handleTogglePalletLoaded = async (palletId: string, isCurrentlyLoaded: boolean) => {
 		try {
 			const newStatus = isCurrentlyLoaded ? "Staged" : "Loaded";
@@ -221,14 +168,10 @@ export default function Screen12() {
 			}
 
 			// Update pallet status
-			const updates: Record<string, unknown> = { status: newStatus };
+			const updates: PalletUpdate = { status: newStatus };
 
-			// If container loading and marking as loaded, set manifest_id
-			if (!isCurrentlyLoaded && manifestId && shippingOrder?.shipment_type === "Container_Loading") {
-				updates.manifest_id = manifestId;
-			}
-			// Also assign manifest_id for other shipment types if manifestId exists
-			else if (!isCurrentlyLoaded && manifestId) {
+			// If marking as loaded, assign the selected manifest (container or hand delivery)
+			if (!isCurrentlyLoaded && manifestId) {
 				updates.manifest_id = manifestId;
 			}
 
@@ -238,26 +181,44 @@ export default function Screen12() {
 				updates.location_id = null; // Clear location when moving back to Staged
 			}
 
-			await pallets.update(palletId, updates);
-
-			// Update local state
-			if (newStatus === "Loaded") {
-				setLoadedPalletIds((prev) => new Set([...prev, palletId]));
-			} else {
-				setLoadedPalletIds((prev) => {
-					const next = new Set(prev);
-					next.delete(palletId);
-					return next;
-				});
-			}
+			await updatePallet.mutateAsync({ id: palletId, updates });
 
 			enqueueSnackbar(`Pallet marked as ${newStatus === "Loaded" ? "loaded" : "not loaded"}`, { variant: "success" });
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to update pallet";
+			const message = getErrorToastMessage(error_, "Failed to update pallet");
 			enqueueSnackbar(message, { variant: "error" });
 		}
 	};
 
+	// Handle a scan: a pallet label ticks Loaded
+	const handleScan = (scan: ParsedScan) => {
+		if (scan.kind === "order") {
+			if (scan.value === shippingOrder?.order_ref) {
+				scanner.accept(`Order ${scan.value} - scan a pallet label`);
+			} else {
+				scanner.reject(`Wrong order: ${scan.value} scanned while loading ${shippingOrder?.order_ref}`);
+			}
+			return;
+		}
+		if (scan.kind !== "pallet") {
+			scanner.reject(`Not a pallet label: ${scan.value}`);
+			return;
+		}
+
+		const row = palletRows.find((r) => matchesPallet({ id: r.palletId, lpn: r.lpn }, scan.value));
+		if (!row) {
+			scanner.reject(`Wrong pallet: ${scan.value} is not on this order`);
+			return;
+		}
+		if (loadedPalletIds.has(row.palletId)) {
+			scanner.reject(`Pallet ${row.lpn} is already loaded`);
+			return;
+		}
+		scanner.accept(`Pallet ${row.lpn} (${row.itemId})`);
+		handleTogglePalletLoaded(row.palletId, false);
+	};
+	const scanner = useScanInput(handleScan, { enabled: !isSubmitting });
+
 	// Handle Finish Loading
 	const handleFinishLoading = async () => {
 		if (!shippingOrder) return;
@@ -274,17 +235,12 @@ export default function Screen12() {
 			}
 
 			// Check if any pallets remain staged for this order (waiting for second truck)
-			const { data: remainingStagedPallets, error: stagedCheckError } = await supabase
-				.from("pallets")
-				.select("id")
-				.eq("shipping_order_id", shippingOrder.id)
-				.eq("status", "Staged");
-
-			if (stagedCheckError) {
-				throw new Error(`Failed to check staged pallets: ${stagedCheckError.message}`);
-			}
+			const remainingStagedPallets = await pallets.getFiltered({
+				shipping_order_id: shippingOrder.id,
+				status: "Staged",
+			});
 
-			const hasStagedPallets = remainingStagedPallets && remainingStagedPallets.length > 0;
+			const hasStagedPallets = remainingStagedPallets.length > 0;
 
 			// Determine final order status
 			// IF staged pallets exist: Keep status='Loading' (open for second truck)
@@ -292,9 +248,7 @@ export default function Screen12() {
 			const finalOrderStatus = hasStagedPallets ? "Loading" : "Completed";
 
 			// Update shipping order status
-			await shippingOrders.update(shippingOrder.id, {
-				status: finalOrderStatus,
-			});
+			await updateShippingOrder.mutateAsync({ id: shippingOrder.id, updates: { status: finalOrderStatus } });
 
 			// NOTE: Do NOT close the manifest here!
 			// Per spec, manifests remain "Open" until Customer Service finalizes them in Screen 13
@@ -315,7 +269,7 @@ export default function Screen12() {
 			}, 1500);
 		} catch (error_) {
 			console.error("❌ [FINISH LOADING] ERROR:", error_);
-			const message = error_ instanceof Error ? error_.message : "Failed to finish loading";
+			const message = getErrorToastMessage(error_, "Failed to finish loading");
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -398,6 +352,8 @@ export default function Screen12() {
 				</CardContent>
 			</Card>
 
+			<ScanBar scanner={scanner} hint="Scan a pallet label to mark it loaded" disabled={isSubmitting} />
+
 			{/* Pallets Table */}
 			{palletRows.length === 0 ? (
 				<Alert severity="info">No pallets to load for this shipping order</Alert>
@@ -406,6 +362,7 @@ export default function Screen12() {
 					<Table>
 						<TableHead sx={{ backgroundColor: "#f5f5f5" }}>
 							<TableRow>
+								<TableCell sx={{ fontWeight: 600 }}>LPN</TableCell>
 								<TableCell sx={{ fontWeight: 600 }}>Item ID</TableCell>
 								<TableCell sx={{ fontWeight: 600 }}>Description</TableCell>
 								<TableCell align="right" sx={{ fontWeight: 600 }}>
@@ -422,6 +379,7 @@ export default function Screen12() {
 						<TableBody>
 							{palletRows.map((row) => (
 								<TableRow key={row.palletId} hover>
+									<TableCell>{row.lpn}</TableCell>
 									<TableCell>{row.itemId}</TableCell>
 									<TableCell>{row.description}</TableCell>
 									<TableCell align="right">{row.qty}</TableCell>
@@ -447,7 +405,7 @@ export default function Screen12() {
 					size="large"
 					startIcon={<CheckCircleIcon />}
 					onClick={handleFinishLoading}
-					disabled={isSubmitting || palletRows.length === 0}
+					disabled={isSubmitting || updatePallet.isPending || palletRows.length === 0}
 					fullWidth
 				>
 					{isSubmitting ? <CircularProgress size={24} /> : "Finish Loading"}
@@ -30,41 +30,18 @@ vi.mock("../../lib/auth/auth-context", () => ({
 	}),
 }));
 
-// Mock wmsApi
+// Mock wmsApi with proper pallet count responses
 vi.mock("../../lib/api/wms-api", () => ({
 	manifests: {
 		getAll: vi.fn(),
 	},
-}));
-
-// Mock supabase client with proper pallet count responses
-vi.mock("../../lib/auth/supabase-client", () => ({
-	supabase: {
-		from: vi.fn((table: string) => {
-			if (table === "pallets") {
-				return {
-					select: vi.fn(() => ({
-						eq: vi.fn(() => ({
-							in: vi.fn(() => ({
-								data: [{ id: "pallet-001" }, { id: "pallet-002" }],
-								error: null,
-							})),
-						})),
-					})),
-				};
-			}
-			return {
-				select: vi.fn(() => ({
-					eq: vi.fn(() => ({
-						in: vi.fn(() => ({
-							data: [],
-							error: null,
-						})),
-					})),
-				})),
-			};
-		}),
+	pallets: {
+		getFiltered: vi.fn().mockResolvedValue([
+			{ id: "pallet-001", status: "Loaded" },
+			{ id: "pallet-002", status: "Loaded" },
+		]),
 	},
+	subscribe: vi.fn().mockReturnValue(vi.fn()),
 }));
 
 // Mock react-router-dom
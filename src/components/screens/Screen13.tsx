@@ -12,9 +12,11 @@
  * - Status (Open / Closed)
  * - Total Pallets (count of loaded pallets)
  * - Actions (View Details button)
+ *
+ * The grid updates live as manifests are opened, loaded, closed or cancelled.
  */
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
 	Alert,
 	Box,
@@ -46,11 +48,13 @@ import { XCircleIcon } from "@phosphor-icons/react/dist/ssr/XCircle";
 import { useSnackbar } from "notistack";
 import { useNavigate } from "react-router-dom";
 
-import { manifests, pallets, products, storage } from "../../lib/api/wms-api";
+import { useRealtime } from "../../hooks/wms/use-realtime";
+import { canTransition, isTerminalStatus } from "../../lib/api/status-machine";
+import { manifests, pallets, products, shippingOrders, storage } from "../../lib/api/wms-api";
 import { useAuth } from "../../lib/auth/auth-context";
-import { supabase } from "../../lib/auth/supabase-client";
 import type { Manifest, Product } from "../../types/domain";
 import { sendShippingEmail } from "../../utils/shipping-email";
+import { getErrorToastMessage } from "../core/notifications/utils";
 
 interface ManifestRow {
 	id: string;
@@ -67,6 +71,7 @@ interface LoadedItem {
 	description: string;
 	qtyLoaded: number;
 	palletCount: number;
+	lpns: string[];
 }
 
 // Helper function to check if manifest is Hand Delivery
@@ -104,11 +109,11 @@ export default function Screen13() {
 		}
 	}, [user, navigate, enqueueSnackbar]);
 
-	// Load all manifests with pallet counts
-	useEffect(() => {
-		const loadManifests = async () => {
+	// Load all manifests with pallet counts (silent: refresh in place, without the spinner)
+	const loadManifests = useCallback(
+		async (silent = false) => {
 			try {
-				setIsLoading(true);
+				if (!silent) setIsLoading(true);
 				setError(null);
 
 				// Fetch all manifests
@@ -119,19 +124,15 @@ export default function Screen13() {
 
 				for (const manifest of allManifests) {
 					// Count pallets for this manifest
-					const { data: palletData, error: palletError } = await supabase
-						.from("pallets")
-						.select("id", { count: "exact" })
-						.eq("manifest_id", manifest.id)
-						.in("status", ["Loaded", "Shipped"]);
-
-					if (palletError) {
+					let totalPallets = 0;
+					try {
+						const manifestPallets = await pallets.getFiltered({ manifest_id: manifest.id });
+						totalPallets = manifestPallets.filter((p) => p.status === "Loaded" || p.status === "Shipped").length;
+					} catch (palletError) {
 						console.error(`Error counting pallets for manifest ${manifest.id}:`, palletError);
 						continue;
 					}
 
-					const totalPallets = palletData?.length || 0;
-
 					// Create manifest ref (use seal_num or first 8 chars of ID)
 					const manifestRef = manifest.seal_num || manifest.id.slice(0, 8).toUpperCase();
 
@@ -159,16 +160,26 @@ export default function Screen13() {
 
 				setManifestRows(manifestRowsData);
 			} catch (error_) {
-				const message = error_ instanceof Error ? error_.message : "Failed to load manifests";
+				if (silent) {
+					console.error("Error refreshing manifests:", error_);
+					return;
+				}
+				const message = getErrorToastMessage(error_, "Failed to load manifests");
 				setError(message);
 				enqueueSnackbar(message, { variant: "error" });
 			} finally {
-				setIsLoading(false);
+				if (!silent) setIsLoading(false);
 			}
-		};
+		},
+		[enqueueSnackbar]
+	);
 
+	useEffect(() => {
 		loadManifests();
-	}, [enqueueSnackbar]);
+	}, [loadManifests]);
+
+	// Manifests opened, closed or cancelled elsewhere, and pallet counts as the warehouse loads, update live
+	useRealtime(["manifests", "pallets"], () => loadManifests(true));
 
 	// Load manifest details
 	const loadManifestDetails = async (manifestId: string) => {
@@ -181,16 +192,11 @@ export default function Screen13() {
 			setManifestDetail(manifest);
 
 			// Fetch loaded pallets
-			const { data: loadedPalletsData } = await supabase
-				.from("pallets")
-				.select("*")
-				.eq("manifest_id", manifestId)
-				.in("status", ["Loaded", "Shipped"]);
-
-			const loadedPallets = loadedPalletsData || [];
+			const manifestPallets = await pallets.getFiltered({ manifest_id: manifestId });
+			const loadedPallets = manifestPallets.filter((p) => p.status === "Loaded" || p.status === "Shipped");
 
 			// Calculate loaded items (group by product)
-			const itemMap = new Map<string, { description: string; totalQty: number; palletCount: number }>();
+			const itemMap = new Map<string, { description: string; totalQty: number; palletCount: number; lpns: string[] }>();
 
 			// Batch fetch products
 			const uniqueItemIds = [...new Set(loadedPallets.map((p) => p.item_id))];
@@ -214,11 +220,13 @@ export default function Screen13() {
 				if (existing) {
 					existing.totalQty += pallet.qty;
 					existing.palletCount += 1;
+					existing.lpns.push(pallet.lpn);
 				} else {
 					itemMap.set(pallet.item_id, {
 						description: product.description,
 						totalQty: pallet.qty,
 						palletCount: 1,
+						lpns: [pallet.lpn],
 					});
 				}
 			}
@@ -229,11 +237,12 @@ export default function Screen13() {
 				description: data.description,
 				qtyLoaded: data.totalQty,
 				palletCount: data.palletCount,
+				lpns: data.lpns,
 			}));
 
 			setLoadedItems(items);
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to load manifest details";
+			const message = getErrorToastMessage(error_, "Failed to load manifest details");
 			setError(message);
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
@@ -342,7 +351,7 @@ export default function Screen13() {
 
 			enqueueSnackbar("✅ Manifest summary downloaded", { variant: "success" });
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to download";
+			const message = getErrorToastMessage(error_, "Failed to download");
 			enqueueSnackbar(message, { variant: "error" });
 		}
 	};
@@ -392,6 +401,7 @@ export default function Screen13() {
 					itemId: item.itemId,
 					description: item.description,
 					qtyShipped: item.qtyLoaded,
+					lpns: item.lpns,
 				})),
 				containerNum: manifestDetail.container_num,
 				sealNum: manifestDetail.seal_num,
@@ -401,24 +411,8 @@ export default function Screen13() {
 
 			await sendShippingEmail(emailData);
 
-			// Update manifest status to Closed
-			await manifests.update(manifestDetail.id, { status: "Closed" });
-
-			// Update all loaded pallets to Shipped - query directly via supabase
-			const { data: loadedPalletsData } = await supabase
-				.from("pallets")
-				.select("*")
-				.eq("manifest_id", manifestDetail.id)
-				.eq("status", "Loaded");
-
-			const loadedPallets = loadedPalletsData || [];
-			const now = new Date().toISOString();
-			for (const pallet of loadedPallets) {
-				await pallets.update(pallet.id, {
-					status: "Shipped",
-					shipped_at: now,
-				});
-			}
+			// Close manifest, mark loaded pallets Shipped and ship fully contained orders (one transaction)
+			await manifests.closeAndShip(manifestDetail.id);
 
 			setIsFinalized(true);
 			enqueueSnackbar("✅ Manifest closed! All pallets marked as shipped. Email sent to customer.", {
@@ -432,7 +426,7 @@ export default function Screen13() {
 				globalThis.location.reload();
 			}, 2000);
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to close manifest";
+			const message = getErrorToastMessage(error_, "Failed to close manifest");
 			enqueueSnackbar(`❌ ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -450,30 +444,19 @@ export default function Screen13() {
 			await manifests.update(manifestDetail.id, { status: "Cancelled" });
 
 			// FIRST: Get all shipping orders that have pallets in this manifest BEFORE updating pallets
-			const { data: palletsInManifest } = await supabase
-				.from("pallets")
-				.select("shipping_order_id")
-				.eq("manifest_id", manifestDetail.id)
-				.not("shipping_order_id", "is", null);
+			const palletsInManifest = await pallets.getFiltered({ manifest_id: manifestDetail.id });
 
 			// THEN: Reset all loaded pallets to Staged status
-			const { error: palletsError } = await supabase
-				.from("pallets")
-				.update({ status: "Staged", manifest_id: null })
-				.eq("manifest_id", manifestDetail.id)
-				.eq("status", "Loaded");
-
-			if (palletsError) throw palletsError;
+			for (const pallet of palletsInManifest.filter((p) => p.status === "Loaded")) {
+				await pallets.update(pallet.id, { status: "Staged", manifest_id: null });
+			}
 
 			// FINALLY: Update shipping orders back to "Loading" status
-			if (palletsInManifest && palletsInManifest.length > 0) {
-				// Get unique shipping order IDs
-				const uniqueOrderIds = [...new Set(palletsInManifest.map((p) => p.shipping_order_id))];
-
-				// Update each shipping order back to "Loading" status
-				for (const orderId of uniqueOrderIds) {
-					await supabase.from("shipping_orders").update({ status: "Loading" }).eq("id", orderId);
-				}
+			const uniqueOrderIds = [
+				...new Set(palletsInManifest.map((p) => p.shipping_order_id).filter((id): id is string => !!id)),
+			];
+			for (const orderId of uniqueOrderIds) {
+				await shippingOrders.update(orderId, { status: "Loading" });
 			}
 
 			enqueueSnackbar(
@@ -489,7 +472,7 @@ export default function Screen13() {
 				globalThis.location.reload();
 			}, 1500);
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to cancel manifest";
+			const message = getErrorToastMessage(error_, "Failed to cancel manifest");
 			enqueueSnackbar(`❌ ${message}`, { variant: "error" });
 		} finally {
 			setIsCancelling(false);
@@ -693,14 +676,19 @@ export default function Screen13() {
 						)}
 
 						{/* Action Buttons */}
-						{manifestDetail.status === "Open" && (
+						{!isTerminalStatus("manifest", manifestDetail.status) && (
 							<Box sx={{ display: "flex", gap: 2 }}>
 								<Button
 									variant="contained"
 									color="success"
 									startIcon={isSubmitting ? <CircularProgress size={20} /> : <CheckCircleIcon />}
 									onClick={handleCloseManifest}
-									disabled={isSubmitting || !formFile || isFinalized}
+									disabled={
+										isSubmitting ||
+										!formFile ||
+										isFinalized ||
+										!canTransition("manifest", manifestDetail.status, "Closed")
+									}
 								>
 									{isSubmitting ? "Closing..." : "Close Manifest & Send Email"}
 								</Button>
@@ -709,7 +697,12 @@ export default function Screen13() {
 									color="error"
 									startIcon={<XCircleIcon />}
 									onClick={() => setCancelDialogOpen(true)}
-									disabled={isSubmitting || isCancelling || isFinalized}
+									disabled={
+										isSubmitting ||
+										isCancelling ||
+										isFinalized ||
+										!canTransition("manifest", manifestDetail.status, "Cancelled")
+									}
 								>
 									Cancel Manifest
 								</Button>
@@ -28,6 +28,7 @@ vi.mock("../../lib/api/wms-api", () => {
 	const productsMock = {
 		getById: vi.fn(),
 		getByItemId: vi.fn(),
+		getVersions: vi.fn().mockResolvedValue([]),
 	};
 	return {
 		shippingOrders: shippingOrdersMock,
@@ -40,7 +40,9 @@ import { pallets, products, shippingOrders } from "../../lib/api/wms-api";
 import type { BillingMetrics } from "../../types/domain";
 import { calculateAllBillingMetrics } from "../../utils/billing";
 import { exportBillingToCSV } from "../../utils/csv-export";
+import { getSpecAt, indexProductVersions } from "../../utils/product-versions";
 import { sendShippingEmail as _sendShippingEmail } from "../../utils/shipping-email";
+import { getErrorToastMessage } from "../core/notifications/utils";
 
 interface HandDeliveryRow {
 	orderId: string;
@@ -127,7 +129,9 @@ export default function Screen14() {
 				})
 			);
 
-			const billingMetrics = calculateAllBillingMetrics(palletsWithProducts, fromDate, toDate);
+			// Bill each pallet with the spec in force at the time, not today's
+			const versions = indexProductVersions(await products.getVersions());
+			const billingMetrics = calculateAllBillingMetrics(palletsWithProducts, fromDate, toDate, versions);
 			// If metrics not available, use placeholder
 			if (billingMetrics) {
 				setMetrics(billingMetrics);
@@ -168,7 +172,7 @@ export default function Screen14() {
 				let totalPositions = 0;
 				for (const pallet of palletsList) {
 					const product = await products.getByItemId(pallet.item_id);
-					totalPositions += product.pallet_positions || 0;
+					totalPositions += getSpecAt(product, versions, order.created_at).pallet_positions || 0;
 				}
 
 				rows.push({
@@ -183,7 +187,7 @@ export default function Screen14() {
 			setHandDeliveryRows(rows);
 			enqueueSnackbar("Report generated successfully", { variant: "success" });
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to generate report";
+			const message = getErrorToastMessage(error_, "Failed to generate report");
 			setError(message);
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
@@ -212,7 +216,7 @@ export default function Screen14() {
 
 			enqueueSnackbar("CSV exported successfully", { variant: "success" });
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to export CSV";
+			const message = getErrorToastMessage(error_, "Failed to export CSV");
 			enqueueSnackbar(message, { variant: "error" });
 		}
 	};
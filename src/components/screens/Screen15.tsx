@@ -2,15 +2,17 @@
 /**
  * Screen 15: Inventory Grid
  *
- * Comprehensive inventory view with 16 columns including joins.
+ * Comprehensive inventory view with 17 columns including joins.
  * Displays all pallet details with filtering and export capabilities.
  *
  * Requirements:
- * 1. Display 16 columns with proper data joins
+ * 1. Display 17 columns with proper data joins (inbound receipt ref and container #)
  * 2. Enable MUI GridToolbar for filtering and exporting
- * 3. Support write-off functionality with reason selection
+ * 3. Request a write-off with reason selection (approved in Screen 17)
  * 4. Prevent write-off of shipped pallets
  * 5. Log all write-off actions for audit trail
+ * 6. Click a row to open the pallet's history timeline
+ * 7. Adjust a pallet's qty up or down with a reason, notes and optional photo
  */
 
 import React, { useCallback, useEffect, useState } from "react";
@@ -33,24 +35,38 @@ import {
 } from "@mui/material";
 import { DataGrid, GridColDef, GridToolbar, useGridApiRef } from "@mui/x-data-grid";
 import { MagnifyingGlassIcon } from "@phosphor-icons/react/dist/ssr/MagnifyingGlass";
+import { PlusMinusIcon } from "@phosphor-icons/react/dist/ssr/PlusMinus";
 import { TrashIcon } from "@phosphor-icons/react/dist/ssr/Trash";
 import { useSnackbar } from "notistack";
 
-import { manifests, pallets, products, receivingOrders, shippingOrders } from "../../lib/api/wms-api";
-import type { Manifest, Pallet, Product, ReceivingOrder, ShippingOrder } from "../../types/domain";
-
-type WriteOffReason = "Damaged" | "Lost" | "Count Correction";
+import { isReshapeable } from "../../lib/api/pallet-lineage";
+import { manifests, pallets, products, receivingOrders, shippingOrders, writeOffs } from "../../lib/api/wms-api";
+import { canWriteOff, WRITE_OFF_REASONS } from "../../lib/api/write-offs";
+import type {
+	InventoryAdjustment,
+	Manifest,
+	Pallet,
+	Product,
+	ReceivingOrder,
+	ShippingOrder,
+	WriteOffReason,
+} from "../../types/domain";
+import { getErrorToastMessage } from "../core/notifications/utils";
+import { PalletAdjustDialog } from "../inventory/pallet-adjust-dialog";
+import { PalletHistoryDialog } from "../inventory/pallet-history-dialog";
 
 interface InventoryRow {
 	id: string;
-	palletId: string;
+	lpn: string;
 	itemCode: string;
 	description: string;
 	qty: number;
 	palletPositions: number;
-	status: string;
+	status: Pallet["status"];
+	manifestId: string | null;
 	isCrossDock: boolean;
 	location: string | null;
+	receiptRef: string | null;
 	inboundRef: string | null;
 	inboundSeal: string | null;
 	receivedDate: string | null;
@@ -71,7 +87,10 @@ export default function Screen15() {
 	const [selectedPalletId, setSelectedPalletId] = useState<string | null>(null);
 	const [showWriteOffDialog, setShowWriteOffDialog] = useState(false);
 	const [writeOffReason, setWriteOffReason] = useState<WriteOffReason>("Damaged");
+	const [writeOffNotes, setWriteOffNotes] = useState("");
 	const [isSubmitting, setIsSubmitting] = useState(false);
+	const [historyPalletId, setHistoryPalletId] = useState<string | null>(null);
+	const [adjustPallet, setAdjustPallet] = useState<Pallet | null>(null);
 	const apiRef = useGridApiRef();
 
 	// Load all inventory data on mount
@@ -105,14 +124,16 @@ export default function Screen15() {
 
 				return {
 					id: pallet.id,
-					palletId: pallet.id.slice(-8), // Use last 8 chars of pallet.id
+					lpn: pallet.lpn,
 					itemCode: pallet.item_id || "",
 					description: product?.description || "",
 					qty: pallet.qty || 0,
 					palletPositions: product?.pallet_positions || 0,
-					status: pallet.status || "Unknown",
+					status: pallet.status,
+					manifestId: pallet.manifest_id || null,
 					isCrossDock: pallet.is_cross_dock || false,
 					location: pallet.location_id || null,
+					receiptRef: receivingOrder?.receipt_ref || null,
 					inboundRef: receivingOrder?.container_num || null,
 					inboundSeal: receivingOrder?.seal_num || null,
 					receivedDate: pallet.received_at || null,
@@ -131,7 +152,7 @@ export default function Screen15() {
 			setRows(inventoryRows);
 			setFilteredRows(inventoryRows);
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to load inventory data";
+			const message = getErrorToastMessage(error_, "Failed to load inventory data");
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
 			setLoading(false);
@@ -154,7 +175,8 @@ export default function Screen15() {
 			(row) =>
 				row.itemCode.toLowerCase().includes(query) ||
 				row.id.toLowerCase().includes(query) ||
-				row.palletId.toLowerCase().includes(query)
+				row.lpn.toLowerCase().includes(query) ||
+				!!row.receiptRef?.toLowerCase().includes(query)
 		);
 
 		setFilteredRows(filtered);
@@ -181,10 +203,10 @@ export default function Screen15() {
 	};
 
 	// Handle write-off button click
-	const handleWriteOffClick = (palletId: string, status: string) => {
-		// Check if pallet is already shipped
-		if (status === "Shipped") {
-			enqueueSnackbar("Cannot write off shipped pallets", { variant: "error" });
+	const handleWriteOffClick = (palletId: string, status: Pallet["status"]) => {
+		// Shipped and written-off pallets cannot be written off
+		if (!canWriteOff(status)) {
+			enqueueSnackbar(`Cannot write off ${status} pallets`, { variant: "error" });
 			return;
 		}
 
@@ -192,52 +214,53 @@ export default function Screen15() {
 		setShowWriteOffDialog(true);
 	};
 
-	// Handle write-off confirmation
+	// Handle write-off request (the pallet is written off once approved)
 	const handleWriteOffConfirm = async () => {
 		if (!selectedPalletId) return;
 
 		try {
 			setIsSubmitting(true);
 
-			// Update pallet status to WriteOff
-			await pallets.update(selectedPalletId, {
-				status: "WriteOff",
-			});
-
-			// Log write-off action
-			logWriteOff(selectedPalletId, writeOffReason);
+			await writeOffs.request({ pallet_id: selectedPalletId, reason: writeOffReason, notes: writeOffNotes });
 
-			enqueueSnackbar(`Pallet written off as ${writeOffReason}`, { variant: "success" });
+			enqueueSnackbar(`Write-off requested (${writeOffReason}); awaiting approval`, { variant: "success" });
 
-			// Reset state and reload data
+			// Reset state
 			setShowWriteOffDialog(false);
 			setSelectedPalletId(null);
 			setWriteOffReason("Damaged");
-			loadInventoryData();
+			setWriteOffNotes("");
 		} catch (error_) {
-			const message = error_ instanceof Error ? error_.message : "Failed to write off pallet";
+			const message = getErrorToastMessage(error_, "Failed to request write-off");
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
 		}
 	};
 
-	// Log write-off action
-	const logWriteOff = (palletId: string, reason: WriteOffReason) => {
-		const timestamp = new Date().toISOString();
-		const _logEntry = {
-			palletId,
-			reason,
-			timestamp,
-			user: "current-user", // TODO: Get from auth context
-			action: "WRITE_OFF",
-		};
-		// TODO: Save to Supabase audit log table if needed
+	// Handle adjust button click (load the pallet for its current qty)
+	const handleAdjustClick = async (palletId: string) => {
+		try {
+			setAdjustPallet(await pallets.getById(palletId));
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to load pallet");
+			enqueueSnackbar(message, { variant: "error" });
+		}
+	};
+
+	// Handle saved adjustment
+	const handleAdjusted = (adjustment: InventoryAdjustment) => {
+		const change = adjustment.qty_change > 0 ? `+${adjustment.qty_change}` : adjustment.qty_change;
+		enqueueSnackbar(`Pallet adjusted ${change} (${adjustment.reason}), new qty ${adjustment.qty_after}`, {
+			variant: "success",
+		});
+		setAdjustPallet(null);
+		loadInventoryData();
 	};
 
 	// Define columns for DataGrid
 	const columns: GridColDef[] = [
-		{ field: "palletId", headerName: "Pallet ID", width: 120 },
+		{ field: "lpn", headerName: "LPN", width: 120 },
 		{ field: "itemCode", headerName: "Item Code", width: 130 },
 		{ field: "description", headerName: "Description", width: 200 },
 		{ field: "qty", headerName: "Qty", width: 80, type: "number" },
@@ -250,6 +273,7 @@ export default function Screen15() {
 			valueGetter: (value: boolean) => (value ? "Yes" : "No"),
 		},
 		{ field: "location", headerName: "Location", width: 150 },
+		{ field: "receiptRef", headerName: "Receipt Ref", width: 130 },
 		{ field: "inboundRef", headerName: "Inbound Ref", width: 130 },
 		{ field: "inboundSeal", headerName: "Inbound Seal", width: 130 },
 		{
@@ -271,20 +295,38 @@ export default function Screen15() {
 		{
 			field: "actions",
 			headerName: "Actions",
-			width: 120,
+			width: 300,
 			sortable: false,
 			filterable: false,
 			renderCell: (params) => (
-				<Button
-					size="small"
-					variant="outlined"
-					color="error"
-					startIcon={<TrashIcon size={16} />}
-					onClick={() => handleWriteOffClick(params.row.id, params.row.status)}
-					disabled={params.row.status === "Shipped"}
-				>
-					Write Off
-				</Button>
+				<Box sx={{ display: "flex", gap: 1, alignItems: "center", height: "100%" }}>
+					<Button
+						size="small"
+						variant="outlined"
+						startIcon={<PlusMinusIcon size={16} />}
+						onClick={(e) => {
+							e.stopPropagation();
+							handleAdjustClick(params.row.id);
+						}}
+						disabled={!isReshapeable({ status: params.row.status, manifest_id: params.row.manifestId })}
+					>
+						Adjust
+					</Button>
+					<Button
+						size="small"
+						variant="outlined"
+						color="error"
+						startIcon={<TrashIcon size={16} />}
+						onClick={(e) => {
+							// Keep the row click (history) from firing too
+							e.stopPropagation();
+							handleWriteOffClick(params.row.id, params.row.status);
+						}}
+						disabled={!canWriteOff(params.row.status)}
+					>
+						Request Write-Off
+					</Button>
+				</Box>
 			),
 		},
 	];
@@ -305,12 +347,12 @@ export default function Screen15() {
 
 					<Box sx={{ display: "flex", gap: 2 }}>
 						<TextField
-							label="Search by Item ID or Pallet ID"
+							label="Search by Item ID, LPN, Receipt Ref or Pallet ID"
 							value={searchQuery}
 							onChange={(e) => setSearchQuery(e.target.value)}
 							onKeyPress={(e) => e.key === "Enter" && handleSearch()}
 							fullWidth
-							placeholder="e.g., ITEM-001 or ...A1B2C3D4"
+							placeholder="e.g., ITEM-001, W1-P-000123 or RCV-2026-0042"
 							size="small"
 						/>
 						<Button
@@ -343,7 +385,7 @@ export default function Screen15() {
 				</Button>
 			</Box>
 
-			{/* DataGrid with all 16 columns */}
+			{/* DataGrid with all 17 columns */}
 			<Box sx={{ height: "calc(100% - 260px)", width: "100%" }}>
 				<DataGrid
 					apiRef={apiRef}
@@ -375,7 +417,9 @@ export default function Screen15() {
 						},
 					}}
 					disableRowSelectionOnClick
+					onRowClick={(params) => setHistoryPalletId(String(params.id))}
 					sx={{
+						"& .MuiDataGrid-row": { cursor: "pointer" },
 						"& .MuiDataGrid-cell": {
 							whiteSpace: "nowrap",
 							overflow: "hidden",
@@ -385,12 +429,18 @@ export default function Screen15() {
 				/>
 			</Box>
 
+			{/* Pallet History (row click) */}
+			<PalletHistoryDialog palletId={historyPalletId} onClose={() => setHistoryPalletId(null)} />
+
+			{/* Qty Adjustment Dialog */}
+			<PalletAdjustDialog pallet={adjustPallet} onClose={() => setAdjustPallet(null)} onAdjust={handleAdjusted} />
+
 			{/* Write-Off Dialog */}
 			<Dialog open={showWriteOffDialog} onClose={() => setShowWriteOffDialog(false)}>
-				<DialogTitle>Write Off Pallet</DialogTitle>
+				<DialogTitle>Request Write-Off</DialogTitle>
 				<DialogContent sx={{ minWidth: "400px", pt: 2 }}>
 					<Typography variant="body2" sx={{ mb: 2 }}>
-						Pallet ID: <strong>{selectedPalletId}</strong>
+						LPN: <strong>{rows.find((row) => row.id === selectedPalletId)?.lpn ?? selectedPalletId}</strong>
 					</Typography>
 
 					<FormControl fullWidth>
@@ -400,16 +450,32 @@ export default function Screen15() {
 							onChange={(e) => setWriteOffReason(e.target.value as WriteOffReason)}
 							label="Reason"
 						>
-							<MenuItem value="Damaged">Damaged</MenuItem>
-							<MenuItem value="Lost">Lost</MenuItem>
-							<MenuItem value="Count Correction">Count Correction</MenuItem>
+							{WRITE_OFF_REASONS.map((reason) => (
+								<MenuItem key={reason} value={reason}>
+									{reason}
+								</MenuItem>
+							))}
 						</Select>
 					</FormControl>
+
+					<TextField
+						label="Notes"
+						value={writeOffNotes}
+						onChange={(e) => setWriteOffNotes(e.target.value)}
+						multiline
+						minRows={2}
+						fullWidth
+						sx={{ mt: 2 }}
+					/>
+
+					<Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+						The pallet is written off once an Admin or Customer Service lead approves the request.
+					</Typography>
 				</DialogContent>
 				<DialogActions>
 					<Button onClick={() => setShowWriteOffDialog(false)}>Cancel</Button>
 					<Button onClick={handleWriteOffConfirm} variant="contained" color="error" disabled={isSubmitting}>
-						{isSubmitting ? <CircularProgress size={24} /> : "Confirm Write-Off"}
+						{isSubmitting ? <CircularProgress size={24} /> : "Request Write-Off"}
 					</Button>
 				</DialogActions>
 			</Dialog>
@@ -0,0 +1,194 @@
+/* eslint-disable unicorn/filename-case */
+/**
+ * Screen 16 Tests: Inventory Adjustments Report
+ *
+ * Tests for the report requirements:
+ * 1. Date inputs: From (required), To (required)
+ * 2. One row per adjustment with signed qty change
+ * 3. Net change summary
+ * 4. CSV export
+ */
+
+import React from "react";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
+import { SnackbarProvider } from "notistack";
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+
+import { adjustments, pallets, products } from "../../lib/api/wms-api";
+import { exportAdjustmentsToCSV } from "../../utils/csv-export";
+import Screen16 from "./Screen16";
+
+// Mock wmsApi
+vi.mock("../../lib/api/wms-api", () => {
+	const adjustmentsMock = {
+		query: vi.fn(),
+	};
+	const palletsMock = {
+		getFiltered: vi.fn(),
+	};
+	const productsMock = {
+		getAll: vi.fn(),
+	};
+	const storageMock = {
+		download: vi.fn(),
+	};
+	return {
+		adjustments: adjustmentsMock,
+		pallets: palletsMock,
+		products: productsMock,
+		storage: storageMock,
+		default: {
+			adjustments: adjustmentsMock,
+			pallets: palletsMock,
+			products: productsMock,
+			storage: storageMock,
+		},
+	};
+});
+
+vi.mock("../../utils/csv-export", () => ({
+	exportAdjustmentsToCSV: vi.fn(),
+}));
+
+const ADJUSTMENTS = [
+	{
+		id: "adj-2",
+		pallet_id: "pallet-0000-5678ef01",
+		item_id: "ITEM-002",
+		qty_before: 5,
+		qty_after: 6,
+		qty_change: 1,
+		reason: "Found",
+		created_by: null,
+		created_by_email: null,
+		created_at: "2026-10-03T10:00:00Z",
+	},
+	{
+		id: "adj-1",
+		pallet_id: "pallet-0000-1234abcd",
+		item_id: "ITEM-001",
+		qty_before: 10,
+		qty_after: 7,
+		qty_change: -3,
+		reason: "Damaged",
+		notes: "Forklift",
+		photo_path: "pallet-0000-1234abcd/photo.jpg",
+		created_by: "user-1",
+		created_by_email: "cs@example.com",
+		created_at: "2026-10-02T10:00:00Z",
+	},
+];
+
+const renderWithProviders = (component: React.ReactElement<unknown>) => {
+	return render(<SnackbarProvider maxSnack={3}>{component}</SnackbarProvider>);
+};
+
+const generateReport = (from: string, to: string) => {
+	fireEvent.change(screen.getByLabelText("From Date"), { target: { value: from } });
+	fireEvent.change(screen.getByLabelText("To Date"), { target: { value: to } });
+	fireEvent.click(screen.getByRole("button", { name: /generate report/i }));
+};
+
+describe("Screen16 - Inventory Adjustments Report", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(adjustments.query as Mock).mockResolvedValue(ADJUSTMENTS);
+		(products.getAll as Mock).mockResolvedValue([
+			{ item_id: "ITEM-001", description: "Widget" },
+			{ item_id: "ITEM-002", description: "Gadget" },
+		]);
+		(pallets.getFiltered as Mock).mockResolvedValue([
+			{ id: "pallet-0000-1234abcd", lpn: "W1-P-000012" },
+			{ id: "pallet-0000-5678ef01", lpn: "W1-P-000034" },
+		]);
+	});
+
+	it("should display empty state initially", () => {
+		renderWithProviders(<Screen16 />);
+
+		expect(screen.getByText(/select a date range/i)).toBeInTheDocument();
+	});
+
+	it("should validate required From date", async () => {
+		renderWithProviders(<Screen16 />);
+
+		fireEvent.change(screen.getByLabelText("To Date"), { target: { value: "2026-10-31" } });
+		fireEvent.click(screen.getByRole("button", { name: /generate report/i }));
+
+		await waitFor(() => {
+			expect(screen.getByText("From date is required")).toBeInTheDocument();
+		});
+		expect(adjustments.query).not.toHaveBeenCalled();
+	});
+
+	it("should validate From date is before To date", async () => {
+		renderWithProviders(<Screen16 />);
+
+		generateReport("2026-10-31", "2026-10-01");
+
+		await waitFor(() => {
+			expect(screen.getByText("From date must be before To date")).toBeInTheDocument();
+		});
+	});
+
+	it("should list adjustments for the date range with the net change", async () => {
+		renderWithProviders(<Screen16 />);
+
+		generateReport("2026-10-01", "2026-10-31");
+
+		await waitFor(() => {
+			expect(screen.getByText("2 adjustments · Net change -2")).toBeInTheDocument();
+		});
+		expect(adjustments.query).toHaveBeenCalledWith({
+			item_id: undefined,
+			created_at: {
+				from: new Date("2026-10-01T00:00:00").toISOString(),
+				to: new Date("2026-10-31T23:59:59.999").toISOString(),
+			},
+		});
+		expect(pallets.getFiltered).toHaveBeenCalledWith({ id: ["pallet-0000-5678ef01", "pallet-0000-1234abcd"] });
+		expect(screen.getByText("W1-P-000012")).toBeInTheDocument();
+		expect(screen.getByText("Widget")).toBeInTheDocument();
+		expect(screen.getByText("-3")).toBeInTheDocument();
+		expect(screen.getByText("+1")).toBeInTheDocument();
+		expect(screen.getByText("Forklift")).toBeInTheDocument();
+		expect(screen.getAllByRole("button", { name: /view/i })).toHaveLength(1);
+	});
+
+	it("should show an empty result", async () => {
+		(adjustments.query as Mock).mockResolvedValue([]);
+		renderWithProviders(<Screen16 />);
+
+		generateReport("2026-10-01", "2026-10-31");
+
+		await waitFor(() => {
+			expect(screen.getByText("No adjustments in this date range.")).toBeInTheDocument();
+		});
+		expect(screen.getByRole("button", { name: /export csv/i })).toBeDisabled();
+	});
+
+	it("should export the listed adjustments to CSV", async () => {
+		renderWithProviders(<Screen16 />);
+
+		generateReport("2026-10-01", "2026-10-31");
+		await waitFor(() => {
+			expect(screen.getByText("W1-P-000012")).toBeInTheDocument();
+		});
+		fireEvent.click(screen.getByRole("button", { name: /export csv/i }));
+
+		expect(exportAdjustmentsToCSV).toHaveBeenCalledWith(
+			[
+				expect.objectContaining({ itemId: "ITEM-002", qtyChange: 1, reason: "Found" }),
+				expect.objectContaining({
+					lpn: "W1-P-000012",
+					description: "Widget",
+					qtyChange: -3,
+					notes: "Forklift",
+					adjustedBy: "cs@example.com",
+				}),
+			],
+			"2026-10-01",
+			"2026-10-31"
+		);
+	});
+});
@@ -0,0 +1,332 @@
+/* eslint-disable unicorn/filename-case */
+/**
+ * Screen 16: Inventory Adjustments Report
+ *
+ * CSE lists the qty adjustments made in a date range (Screen 15) and exports
+ * them for the customer.
+ *
+ * Requirements:
+ * 1. Date inputs: From (required), To (required); optional item filter
+ * 2. One row per adjustment: date, pallet LPN, item, qty before/change/after, reason, notes, user
+ * 3. Summary of the net qty change
+ * 4. Open the adjustment photo, if one was taken
+ * 5. Export the rows to CSV
+ */
+
+import React, { useState } from "react";
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	CircularProgress,
+	Paper,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	TextField,
+	Typography,
+} from "@mui/material";
+import { DownloadIcon } from "@phosphor-icons/react/dist/ssr/Download";
+import { ImageIcon } from "@phosphor-icons/react/dist/ssr/Image";
+import { MagnifyingGlassIcon } from "@phosphor-icons/react/dist/ssr/MagnifyingGlass";
+import { useSnackbar } from "notistack";
+
+import { adjustments, pallets, products, storage } from "../../lib/api/wms-api";
+import type { InventoryAdjustment } from "../../types/domain";
+import { exportAdjustmentsToCSV, type AdjustmentExportRow } from "../../utils/csv-export";
+import { getErrorToastMessage } from "../core/notifications/utils";
+
+interface AdjustmentRow extends AdjustmentExportRow {
+	id: string;
+	photoPath: string | null;
+}
+
+/**
+ * Report row for an adjustment
+ */
+function toRow(
+	adjustment: InventoryAdjustment,
+	descriptions: Map<string, string>,
+	lpns: Map<string, string>
+): AdjustmentRow {
+	return {
+		id: adjustment.id,
+		date: new Date(adjustment.created_at).toLocaleString(),
+		lpn: lpns.get(adjustment.pallet_id) ?? adjustment.pallet_id.slice(-8),
+		itemId: adjustment.item_id,
+		description: descriptions.get(adjustment.item_id) ?? "",
+		qtyBefore: adjustment.qty_before,
+		qtyChange: adjustment.qty_change,
+		qtyAfter: adjustment.qty_after,
+		reason: adjustment.reason,
+		notes: adjustment.notes ?? "",
+		adjustedBy: adjustment.created_by_email ?? "",
+		photoPath: adjustment.photo_path ?? null,
+	};
+}
+
+export default function Screen16() {
+	const { enqueueSnackbar } = useSnackbar();
+
+	const [fromDate, setFromDate] = useState<string>("");
+	const [toDate, setToDate] = useState<string>("");
+	const [itemId, setItemId] = useState<string>("");
+	const [isLoading, setIsLoading] = useState(false);
+	const [rows, setRows] = useState<AdjustmentRow[] | null>(null);
+	const [error, setError] = useState<string | null>(null);
+
+	// Validate dates
+	const validateDates = (): boolean => {
+		if (!fromDate) {
+			enqueueSnackbar("From date is required", { variant: "error" });
+			return false;
+		}
+
+		if (!toDate) {
+			enqueueSnackbar("To date is required", { variant: "error" });
+			return false;
+		}
+
+		if (fromDate > toDate) {
+			enqueueSnackbar("From date must be before To date", { variant: "error" });
+			return false;
+		}
+
+		return true;
+	};
+
+	// Handle generate report
+	const handleGenerateReport = async () => {
+		if (!validateDates()) return;
+
+		try {
+			setIsLoading(true);
+			setError(null);
+
+			// Whole days in local time
+			const [found, allProducts] = await Promise.all([
+				adjustments.query({
+					item_id: itemId.trim() || undefined,
+					created_at: {
+						from: new Date(`${fromDate}T00:00:00`).toISOString(),
+						to: new Date(`${toDate}T23:59:59.999`).toISOString(),
+					},
+				}),
+				products.getAll(),
+			]);
+
+			const adjustedPallets =
+				found.length > 0 ? await pallets.getFiltered({ id: [...new Set(found.map((a) => a.pallet_id))] }) : [];
+
+			const descriptions = new Map(allProducts.map((p) => [p.item_id, p.description]));
+			const lpns = new Map(adjustedPallets.map((p) => [p.id, p.lpn]));
+			setRows(found.map((adjustment) => toRow(adjustment, descriptions, lpns)));
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to load adjustments");
+			setError(message);
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setIsLoading(false);
+		}
+	};
+
+	// Handle CSV export
+	const handleExportCSV = () => {
+		if (!rows || rows.length === 0) {
+			enqueueSnackbar("No adjustments to export. Please generate a report first.", { variant: "warning" });
+			return;
+		}
+
+		try {
+			exportAdjustmentsToCSV(rows, fromDate, toDate);
+			enqueueSnackbar("CSV exported successfully", { variant: "success" });
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to export CSV");
+			enqueueSnackbar(message, { variant: "error" });
+		}
+	};
+
+	// Open the photo in a new tab (the bucket is private, so download it first)
+	const handleViewPhoto = async (path: string) => {
+		try {
+			const photo = await storage.download("adjustments", path);
+			window.open(URL.createObjectURL(photo), "_blank", "noopener");
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to load photo");
+			enqueueSnackbar(message, { variant: "error" });
+		}
+	};
+
+	const netChange = rows?.reduce((sum, row) => sum + row.qtyChange, 0) ?? 0;
+
+	return (
+		<Box sx={{ p: 3 }}>
+			{/* Header */}
+			<Typography variant="h5" sx={{ fontWeight: 600, mb: 3 }}>
+				Inventory Adjustments Report
+			</Typography>
+
+			{/* Filters Card */}
+			<Card sx={{ mb: 3 }}>
+				<CardContent>
+					<Typography variant="h6" sx={{ mb: 2, fontWeight: 600 }}>
+						Select Date Range
+					</Typography>
+
+					<Box sx={{ display: "grid", gridTemplateColumns: { xs: "1fr", sm: "1fr 1fr 1fr" }, gap: 2, mb: 2 }}>
+						<TextField
+							label="From Date"
+							type="date"
+							value={fromDate}
+							onChange={(e) => setFromDate(e.target.value)}
+							InputLabelProps={{ shrink: true }}
+							fullWidth
+							disabled={isLoading}
+						/>
+						<TextField
+							label="To Date"
+							type="date"
+							value={toDate}
+							onChange={(e) => setToDate(e.target.value)}
+							InputLabelProps={{ shrink: true }}
+							fullWidth
+							disabled={isLoading}
+						/>
+						<TextField
+							label="Item ID (optional)"
+							value={itemId}
+							onChange={(e) => setItemId(e.target.value)}
+							fullWidth
+							disabled={isLoading}
+						/>
+					</Box>
+
+					<Button
+						variant="contained"
+						size="large"
+						startIcon={<MagnifyingGlassIcon />}
+						onClick={handleGenerateReport}
+						disabled={isLoading}
+						fullWidth
+					>
+						{isLoading ? <CircularProgress size={24} /> : "Generate Report"}
+					</Button>
+				</CardContent>
+			</Card>
+
+			{/* Error Alert */}
+			{error && (
+				<Alert severity="error" sx={{ mb: 3 }}>
+					{error}
+				</Alert>
+			)}
+
+			{/* Adjustments Table */}
+			{rows && (
+				<Card>
+					<CardContent>
+						<Box sx={{ display: "flex", justifyContent: "space-between", alignItems: "center", mb: 2 }}>
+							<Box>
+								<Typography variant="h6" sx={{ fontWeight: 600 }}>
+									Adjustments
+								</Typography>
+								<Typography variant="body2" color="textSecondary">
+									{rows.length} adjustments · Net change {netChange > 0 ? `+${netChange}` : netChange}
+								</Typography>
+							</Box>
+							<Button
+								variant="outlined"
+								startIcon={<DownloadIcon />}
+								onClick={handleExportCSV}
+								disabled={isLoading || rows.length === 0}
+							>
+								Export CSV
+							</Button>
+						</Box>
+
+						{rows.length === 0 ? (
+							<Alert severity="info">No adjustments in this date range.</Alert>
+						) : (
+							<TableContainer component={Paper}>
+								<Table size="small">
+									<TableHead sx={{ backgroundColor: "#f5f5f5" }}>
+										<TableRow>
+											<TableCell sx={{ fontWeight: 600 }}>Date</TableCell>
+											<TableCell sx={{ fontWeight: 600 }}>LPN</TableCell>
+											<TableCell sx={{ fontWeight: 600 }}>Item</TableCell>
+											<TableCell align="right" sx={{ fontWeight: 600 }}>
+												Before
+											</TableCell>
+											<TableCell align="right" sx={{ fontWeight: 600 }}>
+												Change
+											</TableCell>
+											<TableCell align="right" sx={{ fontWeight: 600 }}>
+												After
+											</TableCell>
+											<TableCell sx={{ fontWeight: 600 }}>Reason</TableCell>
+											<TableCell sx={{ fontWeight: 600 }}>Notes</TableCell>
+											<TableCell sx={{ fontWeight: 600 }}>By</TableCell>
+											<TableCell sx={{ fontWeight: 600 }}>Photo</TableCell>
+										</TableRow>
+									</TableHead>
+									<TableBody>
+										{rows.map((row) => (
+											<TableRow key={row.id} hover>
+												<TableCell>{row.date}</TableCell>
+												<TableCell>{row.lpn}</TableCell>
+												<TableCell>
+													{row.itemId}
+													{row.description && (
+														<Typography variant="caption" color="textSecondary" sx={{ display: "block" }}>
+															{row.description}
+														</Typography>
+													)}
+												</TableCell>
+												<TableCell align="right">{row.qtyBefore}</TableCell>
+												<TableCell
+													align="right"
+													sx={{ color: row.qtyChange < 0 ? "error.main" : "success.main", fontWeight: 600 }}
+												>
+													{row.qtyChange > 0 ? `+${row.qtyChange}` : row.qtyChange}
+												</TableCell>
+												<TableCell align="right">{row.qtyAfter}</TableCell>
+												<TableCell>{row.reason}</TableCell>
+												<TableCell>{row.notes || "-"}</TableCell>
+												<TableCell>{row.adjustedBy || "-"}</TableCell>
+												<TableCell>
+													{row.photoPath ? (
+														<Button
+															size="small"
+															startIcon={<ImageIcon size={16} />}
+															onClick={() => handleViewPhoto(row.photoPath as string)}
+														>
+															View
+														</Button>
+													) : (
+														"-"
+													)}
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</TableContainer>
+						)}
+					</CardContent>
+				</Card>
+			)}
+
+			{/* Empty State */}
+			{!rows && !error && (
+				<Alert severity="info">
+					Select a date range and click &quot;Generate Report&quot; to view inventory adjustments.
+				</Alert>
+			)}
+		</Box>
+	);
+}
@@ -0,0 +1,157 @@
+/* eslint-disable unicorn/filename-case */
+/**
+ * Screen 17 Tests: Write-Off Approvals
+ *
+ * Tests for the inbox requirements:
+ * 1. Pending requests listed with their reason and requester
+ * 2. Approve / reject (Admin or Customer Service lead only)
+ * 3. Decided tab with reversal of approved write-offs
+ */
+
+import React from "react";
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { SnackbarProvider } from "notistack";
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+
+import { pallets, writeOffs } from "../../lib/api/wms-api";
+import { useAuth } from "../../lib/auth/auth-context";
+import Screen17 from "./Screen17";
+
+vi.mock("../../lib/auth/auth-context", () => ({
+	useAuth: vi.fn(),
+}));
+
+// Mock wmsApi
+vi.mock("../../lib/api/wms-api", () => {
+	const writeOffsMock = {
+		query: vi.fn(),
+		approve: vi.fn(),
+		reject: vi.fn(),
+		reverse: vi.fn(),
+	};
+	const palletsMock = {
+		getFiltered: vi.fn(),
+	};
+	return {
+		pallets: palletsMock,
+		writeOffs: writeOffsMock,
+		default: { pallets: palletsMock, writeOffs: writeOffsMock },
+	};
+});
+
+const PENDING = {
+	id: "wo-1",
+	pallet_id: "pallet-0000-1234abcd",
+	item_id: "ITEM-001",
+	qty: 12,
+	reason: "Damaged",
+	notes: "Crushed",
+	status: "Pending",
+	requested_by: "user-wh",
+	requested_by_email: "wh@example.com",
+	requested_at: "2026-10-02T10:00:00Z",
+};
+
+const APPROVED = {
+	...PENDING,
+	id: "wo-2",
+	status: "Approved",
+	decided_by: "user-lead",
+	decided_by_email: "lead@example.com",
+	decided_at: "2026-10-02T11:00:00Z",
+	prior_status: "Stored",
+	prior_location_id: "W1-1-1-A",
+};
+
+const renderWithProviders = (component: React.ReactElement<unknown>) => {
+	return render(<SnackbarProvider maxSnack={3}>{component}</SnackbarProvider>);
+};
+
+const signInAs = (role: string, isLead = false) => {
+	(useAuth as Mock).mockReturnValue({
+		user: { id: "user-1", email: "user@example.com", name: "User", role, is_lead: isLead },
+	});
+};
+
+describe("Screen17 - Write-Off Approvals", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		signInAs("Customer Service", true);
+		(writeOffs.query as Mock).mockResolvedValue([PENDING]);
+		(pallets.getFiltered as Mock).mockResolvedValue([{ id: "pallet-0000-1234abcd", lpn: "W1-P-000012" }]);
+		(writeOffs.approve as Mock).mockResolvedValue({ ...PENDING, status: "Approved" });
+		(writeOffs.reject as Mock).mockResolvedValue({ ...PENDING, status: "Rejected" });
+		(writeOffs.reverse as Mock).mockResolvedValue({ ...APPROVED, status: "Reversed" });
+	});
+
+	it("should list pending write-off requests", async () => {
+		renderWithProviders(<Screen17 />);
+
+		await waitFor(() => {
+			expect(screen.getByText("W1-P-000012")).toBeInTheDocument();
+		});
+		expect(writeOffs.query).toHaveBeenCalledWith({ status: ["Pending"] });
+		expect(screen.getByText("Crushed")).toBeInTheDocument();
+		expect(screen.getByText("wh@example.com")).toBeInTheDocument();
+	});
+
+	it("should approve a request", async () => {
+		renderWithProviders(<Screen17 />);
+
+		fireEvent.click(await screen.findByRole("button", { name: /approve/i }));
+		fireEvent.click(within(await screen.findByRole("dialog")).getByRole("button", { name: "Approve" }));
+
+		await waitFor(() => {
+			expect(writeOffs.approve).toHaveBeenCalledWith("wo-1", "");
+		});
+		expect(await screen.findByText("Write-off approved")).toBeInTheDocument();
+	});
+
+	it("should require a reason to reject a request", async () => {
+		renderWithProviders(<Screen17 />);
+
+		fireEvent.click(await screen.findByRole("button", { name: /reject/i }));
+		const dialog = await screen.findByRole("dialog");
+		fireEvent.click(within(dialog).getByRole("button", { name: "Reject" }));
+
+		expect(await screen.findByText("Please enter a reason")).toBeInTheDocument();
+		expect(writeOffs.reject).not.toHaveBeenCalled();
+
+		fireEvent.change(within(dialog).getByRole("textbox"), { target: { value: "Still sellable" } });
+		fireEvent.click(within(dialog).getByRole("button", { name: "Reject" }));
+
+		await waitFor(() => {
+			expect(writeOffs.reject).toHaveBeenCalledWith("wo-1", "Still sellable");
+		});
+	});
+
+	it("should not let other users decide", async () => {
+		signInAs("Customer Service");
+		renderWithProviders(<Screen17 />);
+
+		expect(await screen.findByRole("button", { name: /approve/i })).toBeDisabled();
+		expect(screen.getByRole("button", { name: /reject/i })).toBeDisabled();
+		expect(screen.getByText(/only an admin or customer service lead/i)).toBeInTheDocument();
+	});
+
+	it("should reverse an approved write-off", async () => {
+		signInAs("Admin");
+		(writeOffs.query as Mock).mockResolvedValue([APPROVED]);
+		renderWithProviders(<Screen17 />);
+
+		fireEvent.click(screen.getByRole("tab", { name: "Decided" }));
+		await waitFor(() => {
+			expect(writeOffs.query).toHaveBeenLastCalledWith({ status: ["Approved", "Rejected", "Reversed"] });
+		});
+		fireEvent.click(await screen.findByRole("button", { name: /reverse/i }));
+		const dialog = await screen.findByRole("dialog");
+		expect(within(dialog).getByText("The pallet goes back to Stored at W1-1-1-A.")).toBeInTheDocument();
+
+		fireEvent.change(within(dialog).getByRole("textbox"), { target: { value: "Found in aisle 3" } });
+		fireEvent.click(within(dialog).getByRole("button", { name: "Reverse" }));
+
+		await waitFor(() => {
+			expect(writeOffs.reverse).toHaveBeenCalledWith("wo-2", "Found in aisle 3");
+		});
+	});
+});
@@ -0,0 +1,295 @@
+/* eslint-disable unicorn/filename-case */
+/**
+ * Screen 17: Write-Off Approvals
+ *
+ * Inbox of the write-offs requested from the Inventory Grid (Screen 15). An
+ * Admin or Customer Service lead approves or rejects each request; approved
+ * write-offs can be reversed, which puts the pallet back where it was.
+ *
+ * Requirements:
+ * 1. Pending tab: one row per pending request (pallet LPN, item, qty, reason, notes, requester)
+ * 2. Approve or reject a request (Admin or Customer Service lead only)
+ * 3. Decided tab: approved, rejected and reversed requests with who decided and when
+ * 4. Reverse an approved write-off with a reason (Admin or Customer Service lead only)
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	Paper,
+	Tab,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	Tabs,
+	TextField,
+	Typography,
+} from "@mui/material";
+import { ArrowCounterClockwiseIcon } from "@phosphor-icons/react/dist/ssr/ArrowCounterClockwise";
+import { CheckIcon } from "@phosphor-icons/react/dist/ssr/Check";
+import { XIcon } from "@phosphor-icons/react/dist/ssr/X";
+import { useSnackbar } from "notistack";
+
+import { pallets, writeOffs } from "../../lib/api/wms-api";
+import { canApproveWriteOffs } from "../../lib/api/write-offs";
+import { useAuth } from "../../lib/auth/auth-context";
+import type { WriteOffRequest } from "../../types/domain";
+import { getErrorToastMessage } from "../core/notifications/utils";
+
+type InboxTab = "pending" | "decided";
+
+type DecisionAction = "approve" | "reject" | "reverse";
+
+const STATUS_COLORS: Record<WriteOffRequest["status"], "warning" | "error" | "default" | "info"> = {
+	Pending: "warning",
+	Approved: "error",
+	Rejected: "default",
+	Reversed: "info",
+};
+
+const DECISION_LABELS: Record<DecisionAction, { title: string; confirm: string; done: string }> = {
+	approve: { title: "Approve Write-Off", confirm: "Approve", done: "Write-off approved" },
+	reject: { title: "Reject Write-Off", confirm: "Reject", done: "Write-off rejected" },
+	reverse: { title: "Reverse Write-Off", confirm: "Reverse", done: "Write-off reversed" },
+};
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : "-");
+
+export default function Screen17() {
+	const { enqueueSnackbar } = useSnackbar();
+	const { user } = useAuth();
+	const canDecide = canApproveWriteOffs(user);
+
+	const [tab, setTab] = useState<InboxTab>("pending");
+	const [requests, setRequests] = useState<WriteOffRequest[]>([]);
+	const [lpns, setLpns] = useState<Map<string, string>>(new Map());
+	const [loading, setLoading] = useState(true);
+	const [decision, setDecision] = useState<{ action: DecisionAction; request: WriteOffRequest } | null>(null);
+	const [notes, setNotes] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const loadRequests = useCallback(async () => {
+		try {
+			setLoading(true);
+			const found = await writeOffs.query({
+				status: tab === "pending" ? ["Pending"] : ["Approved", "Rejected", "Reversed"],
+			});
+			const requestedPallets =
+				found.length > 0 ? await pallets.getFiltered({ id: [...new Set(found.map((r) => r.pallet_id))] }) : [];
+			setLpns(new Map(requestedPallets.map((p) => [p.id, p.lpn])));
+			setRequests(found);
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to load write-off requests");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setLoading(false);
+		}
+	}, [tab, enqueueSnackbar]);
+
+	useEffect(() => {
+		loadRequests();
+	}, [loadRequests]);
+
+	const openDecision = (action: DecisionAction, request: WriteOffRequest) => {
+		setNotes("");
+		setDecision({ action, request });
+	};
+
+	// Rejections and reversals need a reason for the audit trail
+	const notesRequired = decision?.action !== "approve";
+
+	const handleConfirm = async () => {
+		if (!decision) return;
+		if (notesRequired && !notes.trim()) {
+			enqueueSnackbar("Please enter a reason", { variant: "error" });
+			return;
+		}
+
+		try {
+			setIsSubmitting(true);
+			await writeOffs[decision.action](decision.request.id, notes);
+			enqueueSnackbar(DECISION_LABELS[decision.action].done, { variant: "success" });
+			setDecision(null);
+			loadRequests();
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to update write-off request");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	return (
+		<Box sx={{ p: 3 }}>
+			{/* Header */}
+			<Typography variant="h5" sx={{ fontWeight: 600, mb: 3 }}>
+				Write-Off Approvals
+			</Typography>
+
+			{!canDecide && (
+				<Alert severity="info" sx={{ mb: 3 }}>
+					Only an Admin or Customer Service lead can approve, reject or reverse write-offs.
+				</Alert>
+			)}
+
+			<Card>
+				<CardContent>
+					<Tabs value={tab} onChange={(_, value: InboxTab) => setTab(value)} sx={{ mb: 2 }}>
+						<Tab value="pending" label="Pending" />
+						<Tab value="decided" label="Decided" />
+					</Tabs>
+
+					{loading ? (
+						<Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+							<CircularProgress />
+						</Box>
+					) : requests.length === 0 ? (
+						<Alert severity="info">
+							{tab === "pending" ? "No write-offs waiting for approval." : "No decided write-offs yet."}
+						</Alert>
+					) : (
+						<TableContainer component={Paper}>
+							<Table size="small">
+								<TableHead sx={{ backgroundColor: "#f5f5f5" }}>
+									<TableRow>
+										<TableCell sx={{ fontWeight: 600 }}>Requested</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>LPN</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Item</TableCell>
+										<TableCell align="right" sx={{ fontWeight: 600 }}>
+											Qty
+										</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Reason</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Notes</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Requested By</TableCell>
+										{tab === "decided" && <TableCell sx={{ fontWeight: 600 }}>Status</TableCell>}
+										{tab === "decided" && <TableCell sx={{ fontWeight: 600 }}>Decided</TableCell>}
+										<TableCell sx={{ fontWeight: 600 }}>Actions</TableCell>
+									</TableRow>
+								</TableHead>
+								<TableBody>
+									{requests.map((request) => (
+										<TableRow key={request.id} hover>
+											<TableCell>{formatDate(request.requested_at)}</TableCell>
+											<TableCell>{lpns.get(request.pallet_id) ?? request.pallet_id.slice(-8)}</TableCell>
+											<TableCell>{request.item_id}</TableCell>
+											<TableCell align="right">{request.qty}</TableCell>
+											<TableCell>{request.reason}</TableCell>
+											<TableCell>{request.notes || "-"}</TableCell>
+											<TableCell>{request.requested_by_email || "-"}</TableCell>
+											{tab === "decided" && (
+												<TableCell>
+													<Chip label={request.status} color={STATUS_COLORS[request.status]} size="small" />
+												</TableCell>
+											)}
+											{tab === "decided" && (
+												<TableCell>
+													{formatDate(request.reversed_at ?? request.decided_at)}
+													<Typography variant="caption" color="textSecondary" sx={{ display: "block" }}>
+														{[
+															request.reversed_by_email ?? request.decided_by_email,
+															request.reversal_notes ?? request.decision_notes,
+														]
+															.filter(Boolean)
+															.join(" · ")}
+													</Typography>
+												</TableCell>
+											)}
+											<TableCell>
+												{request.status === "Pending" && (
+													<Box sx={{ display: "flex", gap: 1 }}>
+														<Button
+															size="small"
+															variant="contained"
+															color="error"
+															startIcon={<CheckIcon size={16} />}
+															onClick={() => openDecision("approve", request)}
+															disabled={!canDecide}
+														>
+															Approve
+														</Button>
+														<Button
+															size="small"
+															variant="outlined"
+															startIcon={<XIcon size={16} />}
+															onClick={() => openDecision("reject", request)}
+															disabled={!canDecide}
+														>
+															Reject
+														</Button>
+													</Box>
+												)}
+												{request.status === "Approved" && (
+													<Button
+														size="small"
+														variant="outlined"
+														startIcon={<ArrowCounterClockwiseIcon size={16} />}
+														onClick={() => openDecision("reverse", request)}
+														disabled={!canDecide}
+													>
+														Reverse
+													</Button>
+												)}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</TableContainer>
+					)}
+				</CardContent>
+			</Card>
+
+			{/* Approve / Reject / Reverse Dialog */}
+			<Dialog open={decision !== null} onClose={() => setDecision(null)}>
+				<DialogTitle>{decision && DECISION_LABELS[decision.action].title}</DialogTitle>
+				<DialogContent sx={{ minWidth: "400px", pt: 2 }}>
+					{decision && (
+						<Typography variant="body2" sx={{ mb: 2 }}>
+							Pallet <strong>{lpns.get(decision.request.pallet_id) ?? decision.request.pallet_id.slice(-8)}</strong> ·{" "}
+							{decision.request.item_id} · Qty {decision.request.qty} · {decision.request.reason}
+						</Typography>
+					)}
+					{decision?.action === "reverse" && (
+						<Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+							The pallet goes back to {decision.request.prior_status}
+							{decision.request.prior_location_id ? ` at ${decision.request.prior_location_id}` : ""}.
+						</Typography>
+					)}
+					<TextField
+						label={notesRequired ? "Reason" : "Notes (optional)"}
+						value={notes}
+						onChange={(e) => setNotes(e.target.value)}
+						required={notesRequired}
+						multiline
+						minRows={2}
+						fullWidth
+					/>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setDecision(null)}>Cancel</Button>
+					<Button
+						onClick={handleConfirm}
+						variant="contained"
+						color={decision?.action === "approve" ? "error" : "primary"}
+						disabled={isSubmitting}
+					>
+						{isSubmitting ? <CircularProgress size={24} /> : decision && DECISION_LABELS[decision.action].confirm}
+					</Button>
+				</DialogActions>
+			</Dialog>
+		</Box>
+	);
+}
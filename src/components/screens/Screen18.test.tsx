@@ -0,0 +1,167 @@
+/* eslint-disable unicorn/filename-case */
+/**
+ * Screen 18 Tests: Cycle Counts
+ *
+ * Tests for the Customer Service requirements:
+ * 1. Create a count task by rack
+ * 2. Submitted counts listed for approval
+ * 3. Review variances, approve or reject with a reason
+ */
+
+import React from "react";
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { SnackbarProvider } from "notistack";
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+
+import { cycleCounts, locations, pallets, products } from "../../lib/api/wms-api";
+import Screen18 from "./Screen18";
+
+// Mock wmsApi
+vi.mock("../../lib/api/wms-api", () => {
+	const cycleCountsMock = {
+		create: vi.fn(),
+		getById: vi.fn(),
+		query: vi.fn(),
+		approve: vi.fn(),
+		reject: vi.fn(),
+	};
+	const locationsMock = { getAll: vi.fn() };
+	const palletsMock = { getFiltered: vi.fn() };
+	const productsMock = { getAll: vi.fn() };
+	return {
+		cycleCounts: cycleCountsMock,
+		locations: locationsMock,
+		pallets: palletsMock,
+		products: productsMock,
+		default: { cycleCounts: cycleCountsMock, locations: locationsMock, pallets: palletsMock, products: productsMock },
+	};
+});
+
+const SUBMITTED = {
+	id: "count-0000-5678abcd",
+	scope: "Rack",
+	rack: 2,
+	location_ids: ["W1-2-1-A", "W1-2-1-B"],
+	status: "Submitted",
+	created_by: "user-cs",
+	created_by_email: "cs@example.com",
+	created_at: "2026-10-02T09:00:00Z",
+	counted_by: "user-wh",
+	counted_by_email: "wh@example.com",
+	counted_at: "2026-10-02T10:00:00Z",
+};
+
+const LINES = [
+	{
+		id: "line-1",
+		cycle_count_id: SUBMITTED.id,
+		pallet_id: "pallet-0000-1111aaaa",
+		item_id: "ITEM-001",
+		location_id: "W1-2-1-A",
+		system_location_id: "W1-2-1-A",
+		system_qty: 10,
+		counted_qty: 10,
+		qty_variance: 0,
+	},
+	{
+		id: "line-2",
+		cycle_count_id: SUBMITTED.id,
+		pallet_id: "pallet-0000-2222bbbb",
+		item_id: "ITEM-001",
+		location_id: "W1-2-1-B",
+		system_location_id: "W1-2-1-B",
+		system_qty: 20,
+		counted_qty: 18,
+		qty_variance: -2,
+	},
+];
+
+const renderWithProviders = (component: React.ReactElement<unknown>) => {
+	return render(<SnackbarProvider maxSnack={3}>{component}</SnackbarProvider>);
+};
+
+describe("Screen18 - Cycle Counts", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(locations.getAll as Mock).mockResolvedValue([
+			{ location_id: "W1-1-1-A", warehouse_id: "wh-1", type: "RACK", rack: 1, level: 1, position: "A" },
+			{ location_id: "W1-2-1-A", warehouse_id: "wh-1", type: "RACK", rack: 2, level: 1, position: "A" },
+		]);
+		(products.getAll as Mock).mockResolvedValue([]);
+		(cycleCounts.query as Mock).mockResolvedValue([SUBMITTED]);
+		(cycleCounts.getById as Mock).mockResolvedValue({ ...SUBMITTED, lines: LINES });
+		(pallets.getFiltered as Mock).mockResolvedValue([
+			{ id: "pallet-0000-1111aaaa", lpn: "W1-P-000011" },
+			{ id: "pallet-0000-2222bbbb", lpn: "W1-P-000022" },
+		]);
+		(cycleCounts.approve as Mock).mockResolvedValue({
+			count: { ...SUBMITTED, status: "Approved" },
+			adjustments: [{ id: "adj-1" }],
+			writeOffRequests: [],
+			moves: [],
+		});
+		(cycleCounts.reject as Mock).mockResolvedValue({ ...SUBMITTED, status: "Rejected" });
+	});
+
+	it("should list submitted counts for approval", async () => {
+		renderWithProviders(<Screen18 />);
+
+		await waitFor(() => {
+			expect(screen.getByText("5678abcd")).toBeInTheDocument();
+		});
+		expect(cycleCounts.query).toHaveBeenCalledWith({ status: ["Submitted"] });
+		expect(screen.getByText("Rack 2")).toBeInTheDocument();
+		expect(screen.getByText("wh@example.com")).toBeInTheDocument();
+	});
+
+	it("should create a count task by rack", async () => {
+		(cycleCounts.create as Mock).mockResolvedValue({ ...SUBMITTED, status: "Open" });
+		renderWithProviders(<Screen18 />);
+
+		fireEvent.click(screen.getByRole("button", { name: /new count/i }));
+		const dialog = await screen.findByRole("dialog");
+		fireEvent.mouseDown(within(dialog).getByRole("combobox", { name: "Rack" }));
+		fireEvent.click(await screen.findByRole("option", { name: "Rack 2" }));
+		fireEvent.click(within(dialog).getByRole("button", { name: "Create" }));
+
+		await waitFor(() => {
+			expect(cycleCounts.create).toHaveBeenCalledWith(expect.objectContaining({ scope: "Rack", rack: 2 }));
+		});
+		expect(await screen.findByText("Count task created (2 locations)")).toBeInTheDocument();
+	});
+
+	it("should review and approve the variances", async () => {
+		renderWithProviders(<Screen18 />);
+
+		fireEvent.click(await screen.findByRole("button", { name: "Review" }));
+		const dialog = await screen.findByRole("dialog");
+		expect(within(dialog).getByText("Qty -2")).toBeInTheDocument();
+		expect(within(dialog).getByText("OK")).toBeInTheDocument();
+		expect(within(dialog).getByText("W1-P-000022")).toBeInTheDocument();
+
+		fireEvent.click(within(dialog).getByRole("button", { name: "Approve" }));
+
+		await waitFor(() => {
+			expect(cycleCounts.approve).toHaveBeenCalledWith(SUBMITTED.id, "");
+		});
+		expect(await screen.findByText("Count approved: 1 adjusted, 0 moved, 0 write-offs requested")).toBeInTheDocument();
+	});
+
+	it("should require a reason to reject a count", async () => {
+		renderWithProviders(<Screen18 />);
+
+		fireEvent.click(await screen.findByRole("button", { name: "Review" }));
+		const dialog = await screen.findByRole("dialog");
+		fireEvent.click(within(dialog).getByRole("button", { name: "Reject" }));
+
+		expect(await screen.findByText("Please enter a reason")).toBeInTheDocument();
+		expect(cycleCounts.reject).not.toHaveBeenCalled();
+
+		fireEvent.change(within(dialog).getByRole("textbox"), { target: { value: "Recount rack 2" } });
+		fireEvent.click(within(dialog).getByRole("button", { name: "Reject" }));
+
+		await waitFor(() => {
+			expect(cycleCounts.reject).toHaveBeenCalledWith(SUBMITTED.id, "Recount rack 2");
+		});
+	});
+});
@@ -0,0 +1,479 @@
+/* eslint-disable unicorn/filename-case */
+/**
+ * Screen 18: Cycle Counts
+ *
+ * Customer Service creates count tasks and reviews what Warehouse counted on
+ * the tablet (Screen 19). Variances (qty differences, misplaced and missing
+ * pallets) are approved, which posts them, or rejected.
+ *
+ * Requirements:
+ * 1. Create a count task by rack, rack location range or item
+ * 2. Open tab: tasks waiting to be counted
+ * 3. To Approve tab: submitted counts with variances
+ * 4. Review a count line by line, variances highlighted
+ * 5. Approve (adjustments, moves and write-off requests are posted) or reject with a reason
+ * 6. Closed tab: approved and rejected counts with who decided and when
+ */
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	FormControl,
+	InputLabel,
+	MenuItem,
+	Paper,
+	Select,
+	Tab,
+	Table,
+	TableBody,
+	TableCell,
+	TableContainer,
+	TableHead,
+	TableRow,
+	Tabs,
+	TextField,
+	Typography,
+} from "@mui/material";
+import { CheckIcon } from "@phosphor-icons/react/dist/ssr/Check";
+import { PlusIcon } from "@phosphor-icons/react/dist/ssr/Plus";
+import { XIcon } from "@phosphor-icons/react/dist/ssr/X";
+import { useSnackbar } from "notistack";
+
+import { CYCLE_COUNT_SCOPES, describeCountScope, hasVariance } from "../../lib/api/cycle-counts";
+import { cycleCounts, locations as locationsApi, pallets, products as productsApi } from "../../lib/api/wms-api";
+import type { CycleCountWithLines } from "../../lib/api/wms-backend";
+import type { CycleCount, CycleCountLine, CycleCountScope, Location, Product } from "../../types/domain";
+import { getErrorToastMessage } from "../core/notifications/utils";
+
+type CountTab = "open" | "submitted" | "closed";
+
+const TAB_STATUSES: Record<CountTab, CycleCount["status"][]> = {
+	open: ["Open"],
+	submitted: ["Submitted"],
+	closed: ["Approved", "Rejected"],
+};
+
+const STATUS_COLORS: Record<CycleCount["status"], "default" | "warning" | "success" | "error"> = {
+	Open: "default",
+	Submitted: "warning",
+	Approved: "success",
+	Rejected: "error",
+};
+
+const EMPTY_FORM = { scope: "Rack" as CycleCountScope, rack: "", from: "", to: "", itemId: "", notes: "" };
+
+const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : "-");
+
+const describeLine = (line: CycleCountLine) => {
+	if (line.location_id === null) return "Not found";
+	const notes: string[] = [];
+	if (line.location_id !== line.system_location_id) notes.push(`Misplaced (system: ${line.system_location_id})`);
+	if (line.qty_variance !== 0) notes.push(`Qty ${line.qty_variance > 0 ? "+" : ""}${line.qty_variance}`);
+	return notes.join(" · ") || "OK";
+};
+
+export default function Screen18() {
+	const { enqueueSnackbar } = useSnackbar();
+
+	const [tab, setTab] = useState<CountTab>("submitted");
+	const [counts, setCounts] = useState<CycleCount[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [locationList, setLocationList] = useState<Location[]>([]);
+	const [productList, setProductList] = useState<Product[]>([]);
+
+	const [showCreate, setShowCreate] = useState(false);
+	const [form, setForm] = useState(EMPTY_FORM);
+	const [review, setReview] = useState<CycleCountWithLines | null>(null);
+	const [reviewLpns, setReviewLpns] = useState<Map<string, string>>(new Map());
+	const [notes, setNotes] = useState("");
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const racks = useMemo(
+		() =>
+			[...new Set(locationList.filter((l) => l.type === "RACK").map((l) => l.rack as number))].sort((a, b) => a - b),
+		[locationList]
+	);
+
+	const loadCounts = useCallback(async () => {
+		try {
+			setLoading(true);
+			setCounts(await cycleCounts.query({ status: TAB_STATUSES[tab] }));
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to load cycle counts");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setLoading(false);
+		}
+	}, [tab, enqueueSnackbar]);
+
+	useEffect(() => {
+		loadCounts();
+	}, [loadCounts]);
+
+	useEffect(() => {
+		const loadOptions = async () => {
+			try {
+				const [allLocations, allProducts] = await Promise.all([locationsApi.getAll(), productsApi.getAll()]);
+				setLocationList(allLocations);
+				setProductList(allProducts.filter((p) => p.active));
+			} catch (error_) {
+				const message = getErrorToastMessage(error_, "Failed to load locations");
+				enqueueSnackbar(message, { variant: "error" });
+			}
+		};
+		loadOptions();
+	}, [enqueueSnackbar]);
+
+	const handleCreate = async () => {
+		try {
+			setIsSubmitting(true);
+			const created = await cycleCounts.create({
+				scope: form.scope,
+				rack: form.scope === "Rack" && form.rack ? Number(form.rack) : undefined,
+				from_location_id: form.scope === "Range" ? form.from.trim().toUpperCase() : undefined,
+				to_location_id: form.scope === "Range" ? form.to.trim().toUpperCase() : undefined,
+				item_id: form.scope === "Item" ? form.itemId : undefined,
+				notes: form.notes,
+			});
+			enqueueSnackbar(`Count task created (${created.location_ids.length} locations)`, { variant: "success" });
+			setShowCreate(false);
+			setForm(EMPTY_FORM);
+			if (tab === "open") {
+				loadCounts();
+			} else {
+				setTab("open");
+			}
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to create cycle count");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const openReview = async (count: CycleCount) => {
+		try {
+			setNotes("");
+			const found = await cycleCounts.getById(count.id);
+			const countedPallets =
+				found.lines.length > 0 ? await pallets.getFiltered({ id: found.lines.map((line) => line.pallet_id) }) : [];
+			setReviewLpns(new Map(countedPallets.map((p) => [p.id, p.lpn])));
+			setReview(found);
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to load cycle count");
+			enqueueSnackbar(message, { variant: "error" });
+		}
+	};
+
+	const handleDecision = async (action: "approve" | "reject") => {
+		if (!review) return;
+		if (action === "reject" && !notes.trim()) {
+			enqueueSnackbar("Please enter a reason", { variant: "error" });
+			return;
+		}
+
+		try {
+			setIsSubmitting(true);
+			if (action === "approve") {
+				const approval = await cycleCounts.approve(review.id, notes);
+				enqueueSnackbar(
+					`Count approved: ${approval.adjustments.length} adjusted, ${approval.moves.length} moved, ` +
+						`${approval.writeOffRequests.length} write-offs requested`,
+					{ variant: "success" }
+				);
+			} else {
+				await cycleCounts.reject(review.id, notes);
+				enqueueSnackbar("Count rejected", { variant: "success" });
+			}
+			setReview(null);
+			loadCounts();
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to update cycle count");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	const reviewLines = review ? review.lines.toSorted((a, b) => Number(hasVariance(b)) - Number(hasVariance(a))) : [];
+
+	return (
+		<Box sx={{ p: 3 }}>
+			{/* Header */}
+			<Box sx={{ display: "flex", justifyContent: "space-between", alignItems: "center", mb: 3 }}>
+				<Typography variant="h5" sx={{ fontWeight: 600 }}>
+					Cycle Counts
+				</Typography>
+				<Button variant="contained" startIcon={<PlusIcon size={16} />} onClick={() => setShowCreate(true)}>
+					New Count
+				</Button>
+			</Box>
+
+			<Card>
+				<CardContent>
+					<Tabs value={tab} onChange={(_, value: CountTab) => setTab(value)} sx={{ mb: 2 }}>
+						<Tab value="open" label="Open" />
+						<Tab value="submitted" label="To Approve" />
+						<Tab value="closed" label="Closed" />
+					</Tabs>
+
+					{loading ? (
+						<Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+							<CircularProgress />
+						</Box>
+					) : counts.length === 0 ? (
+						<Alert severity="info">No cycle counts here.</Alert>
+					) : (
+						<TableContainer component={Paper}>
+							<Table size="small">
+								<TableHead sx={{ backgroundColor: "#f5f5f5" }}>
+									<TableRow>
+										<TableCell sx={{ fontWeight: 600 }}>Created</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Count</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Scope</TableCell>
+										<TableCell align="right" sx={{ fontWeight: 600 }}>
+											Locations
+										</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Status</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Counted</TableCell>
+										{tab === "closed" && <TableCell sx={{ fontWeight: 600 }}>Decided</TableCell>}
+										<TableCell sx={{ fontWeight: 600 }}>Actions</TableCell>
+									</TableRow>
+								</TableHead>
+								<TableBody>
+									{counts.map((count) => (
+										<TableRow key={count.id} hover>
+											<TableCell>{formatDate(count.created_at)}</TableCell>
+											<TableCell>{count.id.slice(-8)}</TableCell>
+											<TableCell>
+												{describeCountScope(count)}
+												{count.notes && (
+													<Typography variant="caption" color="textSecondary" sx={{ display: "block" }}>
+														{count.notes}
+													</Typography>
+												)}
+											</TableCell>
+											<TableCell align="right">{count.location_ids.length}</TableCell>
+											<TableCell>
+												<Chip label={count.status} color={STATUS_COLORS[count.status]} size="small" />
+											</TableCell>
+											<TableCell>
+												{formatDate(count.counted_at)}
+												{count.counted_by_email && (
+													<Typography variant="caption" color="textSecondary" sx={{ display: "block" }}>
+														{count.counted_by_email}
+													</Typography>
+												)}
+											</TableCell>
+											{tab === "closed" && (
+												<TableCell>
+													{formatDate(count.decided_at)}
+													<Typography variant="caption" color="textSecondary" sx={{ display: "block" }}>
+														{[count.decided_by_email, count.decision_notes].filter(Boolean).join(" · ")}
+													</Typography>
+												</TableCell>
+											)}
+											<TableCell>
+												{count.status !== "Open" && (
+													<Button size="small" variant="outlined" onClick={() => openReview(count)}>
+														{count.status === "Submitted" ? "Review" : "View"}
+													</Button>
+												)}
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</TableContainer>
+					)}
+				</CardContent>
+			</Card>
+
+			{/* Create Count Dialog */}
+			<Dialog open={showCreate} onClose={() => setShowCreate(false)}>
+				<DialogTitle>New Cycle Count</DialogTitle>
+				<DialogContent sx={{ minWidth: "400px", pt: 2 }}>
+					<Box sx={{ display: "flex", flexDirection: "column", gap: 2, pt: 1 }}>
+						<FormControl fullWidth>
+							<InputLabel id="count-scope-label">Count by</InputLabel>
+							<Select
+								labelId="count-scope-label"
+								label="Count by"
+								value={form.scope}
+								onChange={(e) => setForm({ ...form, scope: e.target.value as CycleCountScope })}
+							>
+								{CYCLE_COUNT_SCOPES.map((scope) => (
+									<MenuItem key={scope} value={scope}>
+										{scope === "Range" ? "Location range" : scope}
+									</MenuItem>
+								))}
+							</Select>
+						</FormControl>
+
+						{form.scope === "Rack" && (
+							<FormControl fullWidth>
+								<InputLabel id="count-rack-label">Rack</InputLabel>
+								<Select
+									labelId="count-rack-label"
+									label="Rack"
+									value={form.rack}
+									onChange={(e) => setForm({ ...form, rack: String(e.target.value) })}
+								>
+									{racks.map((rack) => (
+										<MenuItem key={rack} value={String(rack)}>
+											Rack {rack}
+										</MenuItem>
+									))}
+								</Select>
+							</FormControl>
+						)}
+
+						{form.scope === "Range" && (
+							<Box sx={{ display: "flex", gap: 2 }}>
+								<TextField
+									label="From location"
+									placeholder="W1-1-1-A"
+									value={form.from}
+									onChange={(e) => setForm({ ...form, from: e.target.value })}
+									fullWidth
+								/>
+								<TextField
+									label="To location"
+									placeholder="W1-1-4-T"
+									value={form.to}
+									onChange={(e) => setForm({ ...form, to: e.target.value })}
+									fullWidth
+								/>
+							</Box>
+						)}
+
+						{form.scope === "Item" && (
+							<FormControl fullWidth>
+								<InputLabel id="count-item-label">Item</InputLabel>
+								<Select
+									labelId="count-item-label"
+									label="Item"
+									value={form.itemId}
+									onChange={(e) => setForm({ ...form, itemId: e.target.value })}
+								>
+									{productList.map((product) => (
+										<MenuItem key={product.item_id} value={product.item_id}>
+											{product.item_id} — {product.description}
+										</MenuItem>
+									))}
+								</Select>
+							</FormControl>
+						)}
+
+						<TextField
+							label="Notes (optional)"
+							value={form.notes}
+							onChange={(e) => setForm({ ...form, notes: e.target.value })}
+							multiline
+							minRows={2}
+							fullWidth
+						/>
+					</Box>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setShowCreate(false)}>Cancel</Button>
+					<Button onClick={handleCreate} variant="contained" disabled={isSubmitting}>
+						{isSubmitting ? <CircularProgress size={24} /> : "Create"}
+					</Button>
+				</DialogActions>
+			</Dialog>
+
+			{/* Review Dialog */}
+			<Dialog open={review !== null} onClose={() => setReview(null)} maxWidth="md" fullWidth>
+				<DialogTitle>
+					Cycle Count {review?.id.slice(-8)} · {review && describeCountScope(review)}
+				</DialogTitle>
+				<DialogContent>
+					{review && review.lines.length === 0 ? (
+						<Alert severity="info">No pallets were expected or counted.</Alert>
+					) : (
+						<TableContainer component={Paper} sx={{ mb: 2 }}>
+							<Table size="small">
+								<TableHead sx={{ backgroundColor: "#f5f5f5" }}>
+									<TableRow>
+										<TableCell sx={{ fontWeight: 600 }}>LPN</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Item</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Location</TableCell>
+										<TableCell align="right" sx={{ fontWeight: 600 }}>
+											System Qty
+										</TableCell>
+										<TableCell align="right" sx={{ fontWeight: 600 }}>
+											Counted Qty
+										</TableCell>
+										<TableCell sx={{ fontWeight: 600 }}>Variance</TableCell>
+									</TableRow>
+								</TableHead>
+								<TableBody>
+									{reviewLines.map((line) => (
+										<TableRow key={line.id} sx={hasVariance(line) ? { backgroundColor: "#fff8e1" } : undefined}>
+											<TableCell>{reviewLpns.get(line.pallet_id) ?? line.pallet_id.slice(-8)}</TableCell>
+											<TableCell>{line.item_id}</TableCell>
+											<TableCell>{line.location_id ?? line.system_location_id ?? "-"}</TableCell>
+											<TableCell align="right">{line.system_qty}</TableCell>
+											<TableCell align="right">{line.counted_qty}</TableCell>
+											<TableCell>{describeLine(line)}</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</TableContainer>
+					)}
+					{review?.status === "Submitted" && (
+						<>
+							<Alert severity="warning" sx={{ mb: 2 }}>
+								Approving posts a Count Correction adjustment per qty variance, moves misplaced pallets to where they
+								were counted and requests a write-off of pallets not found.
+							</Alert>
+							<TextField
+								label="Notes (required to reject)"
+								value={notes}
+								onChange={(e) => setNotes(e.target.value)}
+								multiline
+								minRows={2}
+								fullWidth
+							/>
+						</>
+					)}
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setReview(null)}>Close</Button>
+					{review?.status === "Submitted" && (
+						<>
+							<Button
+								variant="outlined"
+								startIcon={<XIcon size={16} />}
+								onClick={() => handleDecision("reject")}
+								disabled={isSubmitting}
+							>
+								Reject
+							</Button>
+							<Button
+								variant="contained"
+								startIcon={<CheckIcon size={16} />}
+								onClick={() => handleDecision("approve")}
+								disabled={isSubmitting}
+							>
+								Approve
+							</Button>
+						</>
+					)}
+				</DialogActions>
+			</Dialog>
+		</Box>
+	);
+}
@@ -0,0 +1,85 @@
+/* eslint-disable unicorn/filename-case */
+/**
+ * Screen 19 Tests: Cycle Count (tablet)
+ *
+ * Tests for the blind count requirements:
+ * 1. Open count tasks listed
+ * 2. Scan a location and enter the pallets found there
+ * 3. Submit the entries
+ */
+
+import React from "react";
+import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
+import { SnackbarProvider } from "notistack";
+import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
+
+import { cycleCounts } from "../../lib/api/wms-api";
+import Screen19 from "./Screen19";
+
+// Mock wmsApi
+vi.mock("../../lib/api/wms-api", () => {
+	const cycleCountsMock = {
+		query: vi.fn(),
+		submit: vi.fn(),
+	};
+	return {
+		cycleCounts: cycleCountsMock,
+		default: { cycleCounts: cycleCountsMock },
+	};
+});
+
+const OPEN = {
+	id: "count-0000-5678abcd",
+	scope: "Rack",
+	rack: 2,
+	location_ids: ["W1-2-1-A", "W1-2-1-B"],
+	status: "Open",
+	created_by: "user-cs",
+	created_by_email: "cs@example.com",
+	created_at: "2026-10-02T09:00:00Z",
+};
+
+const renderWithProviders = (component: React.ReactElement<unknown>) => {
+	return render(<SnackbarProvider maxSnack={3}>{component}</SnackbarProvider>);
+};
+
+describe("Screen19 - Cycle Count", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(cycleCounts.query as Mock).mockResolvedValue([OPEN]);
+		(cycleCounts.submit as Mock).mockResolvedValue({ ...OPEN, status: "Submitted", lines: [] });
+	});
+
+	it("should list open count tasks", async () => {
+		renderWithProviders(<Screen19 />);
+
+		expect(await screen.findByText("Rack 2")).toBeInTheDocument();
+		expect(cycleCounts.query).toHaveBeenCalledWith({ status: ["Open"] });
+		expect(screen.getByText("2 locations")).toBeInTheDocument();
+	});
+
+	it("should submit the pallets counted at a scanned location", async () => {
+		renderWithProviders(<Screen19 />);
+
+		fireEvent.click(await screen.findByText("Rack 2"));
+		const scan = screen.getByLabelText("Scan location");
+		fireEvent.change(scan, { target: { value: "w1-2-1-b" } });
+		fireEvent.keyDown(scan, { key: "Enter" });
+		expect(screen.getByRole("heading", { name: "W1-2-1-B" })).toBeInTheDocument();
+
+		fireEvent.change(screen.getByLabelText("Pallet ID"), { target: { value: "2222bbbb" } });
+		fireEvent.change(screen.getByLabelText("Qty"), { target: { value: "18" } });
+		fireEvent.click(screen.getByRole("button", { name: "Add" }));
+		expect(screen.getByText("Qty 18")).toBeInTheDocument();
+
+		fireEvent.click(screen.getByRole("button", { name: "Submit Count" }));
+		fireEvent.click(within(await screen.findByRole("dialog")).getByRole("button", { name: "Submit" }));
+
+		await waitFor(() => {
+			expect(cycleCounts.submit).toHaveBeenCalledWith(OPEN.id, [
+				{ location_id: "W1-2-1-B", pallet_id: "2222bbbb", qty: 18 },
+			]);
+		});
+		expect(await screen.findByText("Count submitted; variances sent to Customer Service")).toBeInTheDocument();
+	});
+});
@@ -0,0 +1,298 @@
+/* eslint-disable unicorn/filename-case */
+/**
+ * Screen 19: Cycle Count (tablet)
+ *
+ * Warehouse counts an open count task blind: the screen lists the locations
+ * to count, never the pallets or quantities the system expects. Submitted
+ * counts with variances go to Customer Service for approval (Screen 18).
+ *
+ * Requirements:
+ * 1. List open count tasks and pick one
+ * 2. Walk its locations in rack/level/position order; scan or tap a location
+ * 3. Enter each pallet found at the location: its LPN or Pallet ID (full or last 8) and qty
+ * 4. Remove a wrongly entered pallet before submitting
+ * 5. Submit the count; locations left without entries count as empty
+ */
+
+import React, { useCallback, useEffect, useState } from "react";
+import {
+	Alert,
+	Box,
+	Button,
+	Card,
+	CardContent,
+	Chip,
+	CircularProgress,
+	Dialog,
+	DialogActions,
+	DialogContent,
+	DialogTitle,
+	IconButton,
+	List,
+	ListItemButton,
+	ListItemText,
+	TextField,
+	Typography,
+} from "@mui/material";
+import { ArrowLeftIcon } from "@phosphor-icons/react/dist/ssr/ArrowLeft";
+import { PlusIcon } from "@phosphor-icons/react/dist/ssr/Plus";
+import { TrashIcon } from "@phosphor-icons/react/dist/ssr/Trash";
+import { useSnackbar } from "notistack";
+
+import { describeCountScope } from "../../lib/api/cycle-counts";
+import { cycleCounts } from "../../lib/api/wms-api";
+import type { CycleCountEntry } from "../../lib/api/wms-backend";
+import type { CycleCount } from "../../types/domain";
+import { getErrorToastMessage } from "../core/notifications/utils";
+
+export default function Screen19() {
+	const { enqueueSnackbar } = useSnackbar();
+
+	const [openCounts, setOpenCounts] = useState<CycleCount[]>([]);
+	const [loading, setLoading] = useState(true);
+	const [count, setCount] = useState<CycleCount | null>(null);
+	const [entries, setEntries] = useState<CycleCountEntry[]>([]);
+	const [locationId, setLocationId] = useState<string | null>(null);
+	const [scan, setScan] = useState("");
+	const [palletRef, setPalletRef] = useState("");
+	const [qty, setQty] = useState("");
+	const [showConfirm, setShowConfirm] = useState(false);
+	const [isSubmitting, setIsSubmitting] = useState(false);
+
+	const loadCounts = useCallback(async () => {
+		try {
+			setLoading(true);
+			setOpenCounts(await cycleCounts.query({ status: ["Open"] }));
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to load cycle counts");
+			enqueueSnackbar(message, { variant: "error" });
+		} finally {
+			setLoading(false);
+		}
+	}, [enqueueSnackbar]);
+
+	useEffect(() => {
+		loadCounts();
+	}, [loadCounts]);
+
+	const startCount = (selected: CycleCount) => {
+		setCount(selected);
+		setEntries([]);
+		setLocationId(selected.location_ids[0] ?? null);
+	};
+
+	const handleScan = () => {
+		const scanned = scan.trim().toUpperCase();
+		if (!scanned) return;
+		if (count?.location_ids.includes(scanned)) {
+			setLocationId(scanned);
+		} else {
+			enqueueSnackbar(`${scanned} is not part of this count`, { variant: "warning" });
+		}
+		setScan("");
+	};
+
+	const handleAdd = () => {
+		if (!locationId) return;
+		const ref = palletRef.trim();
+		const counted = Number(qty);
+		if (!ref) {
+			enqueueSnackbar("Enter the Pallet ID", { variant: "error" });
+			return;
+		}
+		if (!Number.isInteger(counted) || counted <= 0) {
+			enqueueSnackbar("Qty must be a whole number above 0", { variant: "error" });
+			return;
+		}
+		if (entries.some((entry) => entry.pallet_id.toLowerCase() === ref.toLowerCase())) {
+			enqueueSnackbar(`Pallet ${ref} is already counted`, { variant: "warning" });
+			return;
+		}
+		setEntries([...entries, { location_id: locationId, pallet_id: ref, qty: counted }]);
+		setPalletRef("");
+		setQty("");
+	};
+
+	const handleSubmit = async () => {
+		if (!count) return;
+		try {
+			setIsSubmitting(true);
+			const submitted = await cycleCounts.submit(count.id, entries);
+			enqueueSnackbar(
+				submitted.status === "Approved"
+					? "Count matches the system"
+					: "Count submitted; variances sent to Customer Service",
+				{ variant: "success" }
+			);
+			setShowConfirm(false);
+			setCount(null);
+			loadCounts();
+		} catch (error_) {
+			const message = getErrorToastMessage(error_, "Failed to submit cycle count");
+			enqueueSnackbar(message, { variant: "error" });
+			setShowConfirm(false);
+		} finally {
+			setIsSubmitting(false);
+		}
+	};
+
+	if (loading) {
+		return (
+			<Box sx={{ display: "flex", justifyContent: "center", py: 4 }}>
+				<CircularProgress />
+			</Box>
+		);
+	}
+
+	// Task selection
+	if (!count) {
+		return (
+			<Box sx={{ p: 3 }}>
+				<Typography variant="h5" sx={{ fontWeight: 600, mb: 3 }}>
+					Cycle Count
+				</Typography>
+				{openCounts.length === 0 ? (
+					<Alert severity="info">No count tasks open.</Alert>
+				) : (
+					<Card>
+						<List>
+							{openCounts.map((openCount) => (
+								<ListItemButton key={openCount.id} onClick={() => startCount(openCount)}>
+									<ListItemText
+										primary={describeCountScope(openCount)}
+										secondary={`${openCount.location_ids.length} locations${openCount.notes ? ` · ${openCount.notes}` : ""}`}
+									/>
+								</ListItemButton>
+							))}
+						</List>
+					</Card>
+				)}
+			</Box>
+		);
+	}
+
+	const locationEntries = entries.filter((entry) => entry.location_id === locationId);
+	const locationIndex = locationId ? count.location_ids.indexOf(locationId) : -1;
+
+	return (
+		<Box sx={{ p: 3 }}>
+			{/* Header */}
+			<Box sx={{ display: "flex", alignItems: "center", gap: 1, mb: 3 }}>
+				<IconButton aria-label="Back" onClick={() => setCount(null)}>
+					<ArrowLeftIcon size={20} />
+				</IconButton>
+				<Typography variant="h5" sx={{ fontWeight: 600 }}>
+					Cycle Count · {describeCountScope(count)}
+				</Typography>
+			</Box>
+
+			<Box sx={{ display: "grid", gridTemplateColumns: { xs: "1fr", md: "280px 1fr" }, gap: 3 }}>
+				{/* Locations */}
+				<Card>
+					<CardContent>
+						<TextField
+							label="Scan location"
+							value={scan}
+							onChange={(e) => setScan(e.target.value)}
+							onKeyDown={(e) => e.key === "Enter" && handleScan()}
+							size="small"
+							fullWidth
+							sx={{ mb: 1 }}
+						/>
+						<List dense sx={{ maxHeight: 480, overflow: "auto" }}>
+							{count.location_ids.map((id) => {
+								const counted = entries.filter((entry) => entry.location_id === id).length;
+								return (
+									<ListItemButton key={id} selected={id === locationId} onClick={() => setLocationId(id)}>
+										<ListItemText primary={id} />
+										{counted > 0 && <Chip label={counted} size="small" color="primary" />}
+									</ListItemButton>
+								);
+							})}
+						</List>
+					</CardContent>
+				</Card>
+
+				{/* Entry */}
+				<Card>
+					<CardContent>
+						<Typography variant="h6" sx={{ mb: 2 }}>
+							{locationId}
+						</Typography>
+						<Box sx={{ display: "flex", gap: 2, mb: 2 }}>
+							<TextField
+								label="Pallet ID"
+								placeholder="LPN (W1-P-000123) or ID"
+								value={palletRef}
+								onChange={(e) => setPalletRef(e.target.value)}
+								fullWidth
+							/>
+							<TextField
+								label="Qty"
+								type="number"
+								value={qty}
+								onChange={(e) => setQty(e.target.value)}
+								onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+								inputProps={{ min: 1 }}
+								sx={{ width: 120 }}
+							/>
+							<Button variant="contained" startIcon={<PlusIcon size={16} />} onClick={handleAdd}>
+								Add
+							</Button>
+						</Box>
+
+						{locationEntries.length === 0 ? (
+							<Alert severity="info" sx={{ mb: 2 }}>
+								No pallets entered here. Leave it empty if the location is empty.
+							</Alert>
+						) : (
+							<List dense sx={{ mb: 2 }}>
+								{locationEntries.map((entry) => (
+									<Box key={entry.pallet_id} sx={{ display: "flex", alignItems: "center" }}>
+										<ListItemText primary={entry.pallet_id} secondary={`Qty ${entry.qty}`} />
+										<IconButton
+											aria-label={`Remove ${entry.pallet_id}`}
+											onClick={() => setEntries(entries.filter((e) => e !== entry))}
+										>
+											<TrashIcon size={18} />
+										</IconButton>
+									</Box>
+								))}
+							</List>
+						)}
+
+						<Box sx={{ display: "flex", justifyContent: "space-between" }}>
+							<Button
+								variant="outlined"
+								disabled={locationIndex < 0 || locationIndex >= count.location_ids.length - 1}
+								onClick={() => setLocationId(count.location_ids[locationIndex + 1])}
+							>
+								Next Location
+							</Button>
+							<Button variant="contained" color="success" onClick={() => setShowConfirm(true)}>
+								Submit Count
+							</Button>
+						</Box>
+					</CardContent>
+				</Card>
+			</Box>
+
+			{/* Submit Confirmation */}
+			<Dialog open={showConfirm} onClose={() => setShowConfirm(false)}>
+				<DialogTitle>Submit Count</DialogTitle>
+				<DialogContent>
+					<Typography variant="body2">
+						{entries.length} pallets counted at {new Set(entries.map((entry) => entry.location_id)).size} of{" "}
+						{count.location_ids.length} locations. Locations without entries count as empty.
+					</Typography>
+				</DialogContent>
+				<DialogActions>
+					<Button onClick={() => setShowConfirm(false)}>Cancel</Button>
+					<Button onClick={handleSubmit} variant="contained" disabled={isSubmitting}>
+						{isSubmitting ? <CircularProgress size={24} /> : "Submit"}
+					</Button>
+				</DialogActions>
+			</Dialog>
+		</Box>
+	);
+}
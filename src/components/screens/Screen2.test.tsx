@@ -13,6 +13,7 @@ vi.mock("../../lib/api/wms-api", () => ({
 	receivingOrders: {
 		getById: vi.fn(),
 		update: vi.fn(),
+		finalize: vi.fn(),
 	},
 	receivingOrderLines: {
 		getByReceivingOrderId: vi.fn(),
@@ -25,6 +26,7 @@ vi.mock("../../lib/api/wms-api", () => ({
 		getById: vi.fn(),
 		getByItemId: vi.fn(),
 	},
+	subscribe: vi.fn().mockReturnValue(vi.fn()),
 }));
 
 // Mock useNavigate and useLocation
@@ -75,6 +77,7 @@ describe("Screen 2: Receiving Summary Review", () => {
 	it("should display receiving order details", async () => {
 		const mockOrder = {
 			id: "order-123",
+			receipt_ref: "RCV-2026-0042",
 			status: "Staged",
 			container_num: "CONT-001",
 			seal_num: "SEAL-001",
@@ -111,6 +114,7 @@ describe("Screen 2: Receiving Summary Review", () => {
 		renderScreen2();
 
 		await waitFor(() => {
+			expect(screen.getByText("RCV-2026-0042")).toBeInTheDocument();
 			expect(screen.getByText("CONT-001")).toBeInTheDocument();
 			expect(screen.getByText("SEAL-001")).toBeInTheDocument();
 			expect(screen.getByText("Staged")).toBeInTheDocument();
@@ -13,6 +13,8 @@
  * 5. Difference = Received - Expected (positive=overage, negative=shortage)
  * 6. Highlight rows with non-zero difference (yellow or red)
  * 7. Allow CSE to review and proceed or request recount
+ * 8. Received quantities update live while the warehouse is still tallying
+ * 9. Orders are shown by receipt ref (RCV-2026-0042), which also heads the email subject
  *
  * Story 4.2 Acceptance Criteria:
  * 1. File upload section for final receiving form (PDF, JPEG, PNG)
@@ -22,7 +24,7 @@
  * 5. Error handling: file too large, invalid format, network error
  */
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
 	Alert,
 	Box,
@@ -44,9 +46,10 @@ import { useSnackbar } from "notistack";
 import { useLocation, useNavigate } from "react-router-dom";
 
 import type { ReceivingOrder } from "@/types/domain";
-import { pallets, products, receivingOrderLines, receivingOrders, storage } from "@/lib/api/wms-api";
-import { supabase } from "@/lib/auth/supabase-client";
-import { fileUrlToBase64, sendEmail } from "@/lib/email-service";
+import { email, pallets, products, receivingOrderLines, receivingOrders, storage } from "@/lib/api/wms-api";
+import { fileUrlToBase64 } from "@/lib/email-service";
+import { useRealtime } from "@/hooks/wms/use-realtime";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
 
 interface _ReceivingLine {
 	id: string;
@@ -88,6 +91,7 @@ export default function Screen2() {
 	const [orderStatus, setOrderStatus] = useState<string>("");
 	const [totalExpected, setTotalExpected] = useState(0);
 	const [totalReceived, setTotalReceived] = useState(0);
+	const [receiptRefState, setReceiptRefState] = useState<string>("");
 	const [containerNumState, setContainerNumState] = useState<string>("");
 	const [sealNumState, setSealNumState] = useState<string>("");
 	const [uploadedFile, setUploadedFile] = useState<{ name: string; url: string } | null>(null);
@@ -95,28 +99,33 @@ export default function Screen2() {
 	const [isConfirmed, setIsConfirmed] = useState(false);
 	const [isSendingEmail, setIsSendingEmail] = useState(false);
 
-	// Load all staged orders
-	useEffect(() => {
-		if (showOrderList) {
-			const loadStagedOrders = async () => {
-				try {
-					setLoadingOrders(true);
-					const orders = await receivingOrders.list();
-					// Filter for Staged status only (Received orders are completed and should not appear in list)
-					const staged = orders.filter((o: ReceivingOrder) => o.status === "Staged");
-					setStagedOrders(staged);
-					if (staged.length === 0) {
-						enqueueSnackbar("No staged orders available for review", { variant: "info" });
-					}
-				} catch {
-					enqueueSnackbar("Failed to load orders", { variant: "error" });
-				} finally {
-					setLoadingOrders(false);
+	// Load all staged orders (silent: refresh in place, without the spinner)
+	const loadStagedOrders = useCallback(
+		async (silent = false) => {
+			try {
+				if (!silent) setLoadingOrders(true);
+				const orders = await receivingOrders.list();
+				// Filter for Staged status only (Received orders are completed and should not appear in list)
+				const staged = orders.filter((o: ReceivingOrder) => o.status === "Staged");
+				setStagedOrders(staged);
+				if (staged.length === 0 && !silent) {
+					enqueueSnackbar("No staged orders available for review", { variant: "info" });
 				}
-			};
-			loadStagedOrders();
-		}
-	}, [showOrderList, enqueueSnackbar]);
+			} catch {
+				if (!silent) enqueueSnackbar("Failed to load orders", { variant: "error" });
+			} finally {
+				if (!silent) setLoadingOrders(false);
+			}
+		},
+		[enqueueSnackbar]
+	);
+
+	useEffect(() => {
+		if (showOrderList) loadStagedOrders();
+	}, [showOrderList, loadStagedOrders]);
+
+	// Orders the warehouse finishes tallying join the list without a reload
+	useRealtime("receiving_orders", () => loadStagedOrders(true), { enabled: showOrderList });
 
 	// Handle order selection from list
 	const handleSelectOrder = (orderId: string) => {
@@ -127,21 +136,24 @@ export default function Screen2() {
 		setUploadedFile(null);
 	};
 
-	// Load order data
-	useEffect(() => {
-		const loadData = async () => {
-			const orderId = selectedOrderId || receivingOrderId;
+	const activeOrderId: string | null = selectedOrderId || receivingOrderId || null;
+
+	// Load order data (silent: refresh in place, without the spinner)
+	const loadData = useCallback(
+		async (silent = false) => {
+			const orderId = activeOrderId;
 
 			if (!orderId) {
 				return;
 			}
 
 			try {
-				setIsLoading(true);
+				if (!silent) setIsLoading(true);
 
 				// Fetch receiving order
 				const order = await receivingOrders.getById(orderId);
 				setOrderStatus(order.status);
+				setReceiptRefState(order.receipt_ref || "");
 				setContainerNumState(order.container_num || "");
 				setSealNumState(order.seal_num || "");
 
@@ -153,7 +165,7 @@ export default function Screen2() {
 				});
 
 				// If no pallets found, retry once after a short delay (database replication lag)
-				if (palletsList.length === 0) {
+				if (palletsList.length === 0 && !silent) {
 					await new Promise((resolve) => setTimeout(resolve, 500)); // Wait 500ms
 					palletsList = await pallets.getFiltered({
 						receiving_order_id: orderId,
@@ -196,15 +208,31 @@ export default function Screen2() {
 				setTotalReceived(sumReceived);
 			} catch (error) {
 				console.error("Error loading data:", error);
-				const message = error instanceof Error ? error.message : "Failed to load data";
-				enqueueSnackbar(`Error: ${message}`, { variant: "error" });
+				if (!silent) {
+					const message = getErrorToastMessage(error, "Failed to load data");
+					enqueueSnackbar(`Error: ${message}`, { variant: "error" });
+				}
 			} finally {
-				setIsLoading(false);
+				if (!silent) setIsLoading(false);
 			}
-		};
+		},
+		[activeOrderId, enqueueSnackbar]
+	);
 
+	useEffect(() => {
 		loadData();
-	}, [selectedOrderId, receivingOrderId, navigate, enqueueSnackbar]);
+	}, [loadData]);
+
+	// Pallets tallied (or undone) and lines edited for this order update the discrepancy table live
+	useRealtime(
+		[
+			{ table: "pallets", filter: { column: "receiving_order_id", value: activeOrderId ?? "" } },
+			{ table: "receiving_order_lines", filter: { column: "receiving_order_id", value: activeOrderId ?? "" } },
+			{ table: "receiving_orders", filter: { column: "id", value: activeOrderId ?? "" } },
+		],
+		() => loadData(true),
+		{ enabled: !!activeOrderId && !showOrderList }
+	);
 
 	const handleConfirmFinalCounts = async () => {
 		const orderId = selectedOrderId || receivingOrderId;
@@ -223,7 +251,7 @@ export default function Screen2() {
 			enqueueSnackbar("✅ Counts confirmed! Now upload the receiving form and send email.", { variant: "success" });
 		} catch (error) {
 			console.error("Error confirming order:", error);
-			const message = error instanceof Error ? error.message : "Failed to confirm order";
+			const message = getErrorToastMessage(error, "Failed to confirm order");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -255,6 +283,7 @@ export default function Screen2() {
 			const emailBody = `
 Cargo Received Notification
 
+Receipt Ref: ${order.receipt_ref}
 Container #: ${order.container_num || "N/A"}
 Seal #: ${order.seal_num || "N/A"}
 Order ID: ${orderId}
@@ -285,25 +314,20 @@ Please review and confirm receipt.
 
 			// Get list of files in the receiving order folder
 			try {
-				const { data: files } = await supabase.storage.from("receiving").list(`${orderId}/`, {
-					limit: 100,
-					search: "photo_",
-				});
+				const files = await storage.list("receiving", orderId);
 
 				// Sort by name to get photos in order
-				const photoFiles =
-					files?.filter((f) => f.name.startsWith("photo_")).sort((a, b) => a.name.localeCompare(b.name)) || [];
+				const photoFiles = files.filter((name) => name.startsWith("photo_")).sort((a, b) => a.localeCompare(b));
 
 				// Add container photos if available
 				for (const [i, photoFile] of photoFiles.entries()) {
 					if (photoFile) {
 						try {
-							const { data: urlData } = supabase.storage.from("receiving").getPublicUrl(`${orderId}/${photoFile.name}`);
-							const photoUrl = urlData.publicUrl;
+							const photoUrl = storage.getPublicUrl("receiving", `${orderId}/${photoFile}`);
 							const photoBase64 = await fileUrlToBase64(photoUrl);
 							// Use the actual filename instead of index-based naming
 							attachments.push({
-								filename: photoFile.name.replace("photo_", "container-photo-"),
+								filename: photoFile.replace("photo_", "container-photo-"),
 								content: photoBase64,
 								contentType: "image/jpeg",
 							});
@@ -317,17 +341,15 @@ Please review and confirm receipt.
 			}
 
 			// Send email
-			await sendEmail({
-				to: emailTo,
-				subject: `Cargo Received - Container ${order.container_num || "N/A"}`,
-				body: emailBody,
-				attachments,
-			});
+			await email.send(
+				emailTo,
+				`Cargo Received - ${order.receipt_ref} - Container ${order.container_num || "N/A"}`,
+				emailBody,
+				attachments
+			);
 
-			// NOW update the receiving order status to 'Received' after email is sent
-			await receivingOrders.update(orderId, {
-				status: "Received",
-			});
+			// NOW finalize the receiving order after email is sent (status 'Received', finalized_at, pallet received_at)
+			await receivingOrders.finalize(orderId);
 
 			// Update local state
 			setOrderStatus("Received");
@@ -344,7 +366,7 @@ Please review and confirm receipt.
 			}, 3000);
 		} catch (error) {
 			console.error("[Screen 2] Error sending email:", error);
-			const message = error instanceof Error ? error.message : "Failed to send email";
+			const message = getErrorToastMessage(error, "Failed to send email");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSendingEmail(false);
@@ -446,10 +468,10 @@ Please review and confirm receipt.
 							>
 								<CardContent>
 									<Typography variant="subtitle2" color="textSecondary" gutterBottom>
-										Order ID
+										Receipt Ref
 									</Typography>
 									<Typography variant="body2" sx={{ fontWeight: "bold", mb: 1 }}>
-										{order.id.slice(0, 8)}...
+										{order.receipt_ref}
 									</Typography>
 
 									<Typography variant="subtitle2" color="textSecondary" gutterBottom>
@@ -509,7 +531,15 @@ Please review and confirm receipt.
 			{/* Order Info */}
 			<Card sx={{ mb: 3 }}>
 				<CardContent>
-					<Box sx={{ display: "grid", gridTemplateColumns: "repeat(3, 1fr)", gap: 2 }}>
+					<Box sx={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 2 }}>
+						<Box>
+							<Typography variant="caption" color="textSecondary">
+								Receipt Ref
+							</Typography>
+							<Typography variant="body2" sx={{ fontWeight: "bold" }}>
+								{receiptRefState || "N/A"}
+							</Typography>
+						</Box>
 						<Box>
 							<Typography variant="caption" color="textSecondary">
 								Container #
@@ -7,7 +7,7 @@
  *
  * Story 6.1 Acceptance Criteria:
  * 1. Form: Shipment Type, CSV upload, optional Seal #
- * 2. CSV validation: item_id exists, qty_ordered > 0
+ * 2. CSV validation: item_id exists, qty_ordered > 0; warn when free stock does not cover an item
  * 3. Error handling with row numbers
  * 4. Create shipping_order + shipping_order_lines
  * 5. Display success message
@@ -36,8 +36,15 @@ import { Controller, useForm } from "react-hook-form";
 import { useNavigate } from "react-router-dom";
 import { z } from "zod";
 
-import { products, shippingOrders } from "../../lib/api/wms-api";
+import {
+	createAllocationLedger,
+	getStockShortfalls,
+	isAllocatableOrder,
+	type StockShortfall,
+} from "../../lib/api/allocation";
+import { pallets, products, shippingOrders } from "../../lib/api/wms-api";
 import { useAuth } from "../../lib/auth/auth-context";
+import { getErrorToastMessage } from "../core/notifications/utils";
 
 // Form validation schema
 const shippingOrderSchema = z
@@ -69,6 +76,26 @@ interface CSVError {
 	message: string;
 }
 
+/**
+ * Items of a new order that free stock does not cover (empty when stock cannot be loaded)
+ */
+async function findStockShortfalls(lines: { item_id: string; requested_qty: number }[]): Promise<StockShortfall[]> {
+	try {
+		const itemIds = lines.map((line) => line.item_id);
+		const [openOrders, stock] = await Promise.all([
+			shippingOrders.getAll(),
+			pallets.getFiltered({ status: ["Received", "Stored"], item_id: itemIds, shipping_order_id: null }),
+		]);
+		const pending = openOrders.filter((order) => isAllocatableOrder(order));
+		const assigned =
+			pending.length > 0 ? await pallets.getFiltered({ shipping_order_id: pending.map((order) => order.id) }) : [];
+		return getStockShortfalls(lines, createAllocationLedger(pending, assigned), stock);
+	} catch (error) {
+		console.warn("Could not check stock for the new shipping order:", error);
+		return [];
+	}
+}
+
 export default function Screen3() {
 	const navigate = useNavigate();
 	const { enqueueSnackbar } = useSnackbar();
@@ -76,6 +103,7 @@ export default function Screen3() {
 
 	const [isSubmitting, setIsSubmitting] = useState(false);
 	const [csvErrors, setCSVErrors] = useState<CSVError[]>([]);
+	const [shortfalls, setShortfalls] = useState<StockShortfall[]>([]);
 	const [selectedFileName, setSelectedFileName] = useState<string>("");
 
 	const {
@@ -100,6 +128,7 @@ export default function Screen3() {
 		try {
 			setIsSubmitting(true);
 			setCSVErrors([]);
+			setShortfalls([]);
 
 			// Parse and validate CSV
 			const text = await data.csvFile.text();
@@ -179,6 +208,11 @@ export default function Screen3() {
 				return;
 			}
 
+			// Stock check (spec 5.1): older open orders are served first. A shortfall does not
+			// block the order, it waits for inbound stock (SHIP-NOW) instead
+			const lines = records.map((record) => ({ item_id: record.item_id, requested_qty: record.qty_ordered }));
+			const stockShortfalls = await findStockShortfalls(lines);
+
 			const orderRef = `ORD-${Date.now()}`;
 			const shippingOrder = await shippingOrders.create({
 				order_ref: orderRef,
@@ -197,14 +231,19 @@ export default function Screen3() {
 
 			await shippingOrders.createLines(orderLines);
 
-			// Show success message only
 			enqueueSnackbar(`✅ Shipping order created: ${orderRef}`, { variant: "success" });
+			if (stockShortfalls.length > 0) {
+				setShortfalls(stockShortfalls);
+				enqueueSnackbar(`${stockShortfalls.length} item(s) are short on stock for ${orderRef}`, {
+					variant: "warning",
+				});
+			}
 
 			// Reset form
 			reset();
 		} catch (error) {
 			console.error("Error creating shipping order:", error);
-			const message = error instanceof Error ? error.message : "Failed to create shipping order";
+			const message = getErrorToastMessage(error, "Failed to create shipping order");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -323,6 +362,20 @@ export default function Screen3() {
 						</Alert>
 					)}
 
+					{/* Stock shortfalls of the last order created */}
+					{shortfalls.length > 0 && (
+						<Alert severity="warning" sx={{ mb: 3 }}>
+							<Typography variant="subtitle2" sx={{ fontWeight: "bold", mb: 1 }}>
+								Not enough free stock (older orders are served first):
+							</Typography>
+							{shortfalls.map((shortfall) => (
+								<Typography key={shortfall.itemId} variant="body2" sx={{ ml: 2 }}>
+									{shortfall.itemId}: {shortfall.availableQty} of {shortfall.requestedQty} available
+								</Typography>
+							))}
+						</Alert>
+					)}
+
 					{/* Submit Button */}
 					<Button type="submit" variant="contained" color="primary" fullWidth disabled={isSubmitting} sx={{ mt: 2 }}>
 						{isSubmitting ? <CircularProgress size={24} /> : "Create Shipping Order"}
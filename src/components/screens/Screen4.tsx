@@ -40,6 +40,7 @@ import { z } from "zod";
 import { manifests } from "../../lib/api/wms-api";
 import { formatContainerNumber, getContainerNumberPlaceholder } from "../../lib/formatters";
 import { containerSchema } from "../../lib/validators";
+import { getErrorToastMessage } from "../core/notifications/utils";
 
 // Validation schema
 const containerFormSchema = containerSchema;
@@ -96,7 +97,7 @@ export default function Screen4() {
 		} catch (error) {
 			console.error("Error registering container:", error);
 			console.error("Error details:", JSON.stringify(error, null, 2));
-			const message = error instanceof Error ? error.message : "Failed to register container";
+			const message = getErrorToastMessage(error, "Failed to register container");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
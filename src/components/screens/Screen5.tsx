@@ -8,23 +8,27 @@
  * Story: Pending Receipts List
  * Acceptance Criteria:
  * 1. Display list of receiving orders with status=Pending
- * 2. Show: Order ID, Container #, Seal #, Created Date, Item Count
+ * 2. Show: Receipt Ref, Container #, Seal #, Created Date, Item Count
  * 3. Click order to navigate to Screen 6 (Container Photos)
  * 4. Loading state while fetching
  * 5. Empty state if no pending receipts
+ * 6. New and updated orders show up live (realtime subscription, polling fallback)
  */
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import { Box, Card, CardActionArea, CardContent, Chip, CircularProgress, Container, Typography } from "@mui/material";
 import { ArrowRight as ArrowRightIcon } from "@phosphor-icons/react/dist/ssr/ArrowRight";
 import { useSnackbar } from "notistack";
 import { useNavigate } from "react-router-dom";
 
+import { useRealtime } from "../../hooks/wms/use-realtime";
 import { receivingOrderLines, receivingOrders } from "../../lib/api/wms-api";
 import { paths } from "../../paths";
+import { getErrorToastMessage } from "../core/notifications/utils";
 
 interface PendingReceipt {
 	id: string;
+	receipt_ref: string;
 	container_num: string;
 	seal_num: string;
 	created_at: string;
@@ -39,11 +43,11 @@ export default function Screen5() {
 	const [isLoading, setIsLoading] = useState(true);
 	const [receipts, setReceipts] = useState<PendingReceipt[]>([]);
 
-	// Load pending receipts
-	useEffect(() => {
-		const loadReceipts = async () => {
+	// Load pending receipts (silent: refresh in place, without the spinner)
+	const loadReceipts = useCallback(
+		async (silent = false) => {
 			try {
-				setIsLoading(true);
+				if (!silent) setIsLoading(true);
 
 				// Fetch all receiving orders
 				const allOrders = await receivingOrders.list();
@@ -59,6 +63,7 @@ export default function Screen5() {
 					const lines = await receivingOrderLines.getByReceivingOrderId(order.id);
 					receiptsWithCounts.push({
 						id: order.id,
+						receipt_ref: order.receipt_ref,
 						container_num: order.container_num,
 						seal_num: order.seal_num,
 						created_at: order.created_at,
@@ -70,15 +75,23 @@ export default function Screen5() {
 				setReceipts(receiptsWithCounts);
 			} catch (error) {
 				console.error("Error loading pending receipts:", error);
-				const message = error instanceof Error ? error.message : "Failed to load pending receipts";
-				enqueueSnackbar(`Error: ${message}`, { variant: "error" });
+				if (!silent) {
+					const message = getErrorToastMessage(error, "Failed to load pending receipts");
+					enqueueSnackbar(`Error: ${message}`, { variant: "error" });
+				}
 			} finally {
-				setIsLoading(false);
+				if (!silent) setIsLoading(false);
 			}
-		};
+		},
+		[enqueueSnackbar]
+	);
 
+	useEffect(() => {
 		loadReceipts();
-	}, [enqueueSnackbar]);
+	}, [loadReceipts]);
+
+	// Orders created by Customer Service (or picked up on another tablet) appear without a reload
+	useRealtime(["receiving_orders", "receiving_order_lines"], () => loadReceipts(true));
 
 	const handleSelectReceipt = async (receipt: PendingReceipt) => {
 		try {
@@ -101,7 +114,7 @@ export default function Screen5() {
 
 			enqueueSnackbar("Status updated to Unloading", { variant: "success" });
 		} catch (error) {
-			const message = error instanceof Error ? error.message : "Failed to update status";
+			const message = getErrorToastMessage(error, "Failed to update status");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		}
 	};
@@ -172,8 +185,11 @@ export default function Screen5() {
 									sx={{ flexGrow: 1, display: "flex", flexDirection: "column" }}
 								>
 									<CardContent sx={{ width: "100%", flexGrow: 1 }}>
-										{/* Click Indicator Arrow */}
-										<Box sx={{ display: "flex", justifyContent: "flex-end", mb: 1 }}>
+										{/* Receipt Ref and Click Indicator Arrow */}
+										<Box sx={{ display: "flex", justifyContent: "space-between", alignItems: "center", mb: 1 }}>
+											<Typography variant="subtitle2" color="primary" sx={{ fontWeight: "bold" }}>
+												{receipt.receipt_ref}
+											</Typography>
 											<ArrowRightIcon
 												size={20}
 												weight="bold"
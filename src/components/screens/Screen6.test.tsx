@@ -14,6 +14,7 @@ vi.mock("@/lib/api", () => ({
 	wmsApi: {
 		storage: {
 			upload: vi.fn().mockResolvedValue("mocked-path.jpg"),
+			list: vi.fn().mockResolvedValue([]),
 		},
 		receivingOrders: {
 			update: vi.fn().mockResolvedValue({}),
@@ -29,8 +29,8 @@ import { useLocation, useNavigate } from "react-router-dom";
 import type { ReceivingOrder } from "@/types/domain";
 import { paths } from "@/paths";
 import { wmsApi } from "@/lib/api";
-import { supabase } from "@/lib/auth/supabase-client";
 import { PhotoCapture } from "@/components/core";
+import { getErrorToastMessage } from "@/components/core/notifications/utils";
 
 interface LocationState {
 	receivingOrderId: string;
@@ -86,13 +86,9 @@ export const Screen6: React.FC = () => {
 	const checkExistingPhotos = useCallback(async (orderId: string) => {
 		if (!orderId) return [];
 		try {
-			const { data, error } = await supabase.storage.from("receiving").list(orderId);
-			if (error) throw error;
+			const files = await wmsApi.storage.list("receiving", orderId);
 			// Filter for photo files (photo_*.jpg)
-			const photoFiles = (data || []).filter(
-				(file: { name: string }) => file.name.startsWith("photo_") && file.name.endsWith(".jpg")
-			);
-			return photoFiles.map((file: { name: string }) => file.name);
+			return files.filter((name) => name.startsWith("photo_") && name.endsWith(".jpg"));
 		} catch (error) {
 			console.error("Error checking existing photos:", error);
 			return [];
@@ -113,7 +109,7 @@ export const Screen6: React.FC = () => {
 				);
 				setOrders(pendingOrders);
 			} catch (error) {
-				const message = error instanceof Error ? error.message : "Failed to load orders";
+				const message = getErrorToastMessage(error, "Failed to load orders");
 				enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 			} finally {
 				setLoadingOrders(false);
@@ -252,7 +248,7 @@ export const Screen6: React.FC = () => {
 			}, 1500);
 		} catch (error) {
 			console.error("Error uploading photos:", error);
-			const message = error instanceof Error ? error.message : "Failed to upload photos";
+			const message = getErrorToastMessage(error, "Failed to upload photos");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -6,26 +6,35 @@
  * @module components/screens/Screen7.test
  */
 import React from "react";
-import { render, screen, waitFor } from "@testing-library/react";
+import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { fireEvent, render, screen, waitFor } from "@testing-library/react";
 import { SnackbarProvider } from "notistack";
 import { BrowserRouter } from "react-router-dom";
 import { beforeEach, describe, expect, it, vi, type Mock } from "vitest";
 
 import * as wmsApi from "../../lib/api/wms-api";
 import { AuthProvider } from "../../lib/auth/auth-context";
+import { printPalletLabels } from "../inventory/pallet-labels";
 import Screen7 from "./screen7";
 
+vi.mock("../inventory/pallet-labels", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../inventory/pallet-labels")>()),
+	printPalletLabels: vi.fn().mockResolvedValue(undefined),
+}));
+
 // Mock wmsApi
 vi.mock("../../lib/api/wms-api", () => {
 	const receivingOrdersMock = {
 		getById: vi.fn(),
 		update: vi.fn(),
+		finishTally: vi.fn(),
 	};
 	const receivingOrderLinesMock = {
 		getByReceivingOrderId: vi.fn(),
 	};
 	const productsMock = {
 		getByItemId: vi.fn(),
+		getVersions: vi.fn().mockResolvedValue([]),
 	};
 	const palletsMock = {
 		create: vi.fn(),
@@ -77,13 +86,15 @@ vi.mock("react-router-dom", async () => {
 
 const renderScreen7 = () => {
 	return render(
-		<BrowserRouter>
-			<AuthProvider>
-				<SnackbarProvider>
-					<Screen7 />
-				</SnackbarProvider>
-			</AuthProvider>
-		</BrowserRouter>
+		<QueryClientProvider client={new QueryClient({ defaultOptions: { queries: { retry: false } } })}>
+			<BrowserRouter>
+				<AuthProvider>
+					<SnackbarProvider>
+						<Screen7 />
+					</SnackbarProvider>
+				</AuthProvider>
+			</BrowserRouter>
+		</QueryClientProvider>
 	);
 };
 
@@ -135,6 +146,8 @@ describe("Screen 7 - Pallet Tallying", () => {
 		(wmsApi.default.receivingOrderLines.getByReceivingOrderId as unknown as Mock).mockResolvedValue(mockLines);
 		(wmsApi.default.products.getByItemId as unknown as Mock).mockResolvedValue(mockProduct);
 		(wmsApi.default.pallets.getAll as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
 		(wmsApi.default.shippingOrders.getAll as unknown as Mock).mockResolvedValue([]);
 
 		renderScreen7();
@@ -162,6 +175,8 @@ describe("Screen 7 - Pallet Tallying", () => {
 		(wmsApi.default.receivingOrders.getById as unknown as Mock).mockResolvedValue(mockOrder);
 		(wmsApi.default.receivingOrderLines.getByReceivingOrderId as unknown as Mock).mockResolvedValue([]);
 		(wmsApi.default.pallets.getAll as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
 		(wmsApi.default.shippingOrders.getAll as unknown as Mock).mockResolvedValue([]);
 
 		renderScreen7();
@@ -205,6 +220,8 @@ describe("Screen 7 - Pallet Tallying", () => {
 		(wmsApi.default.receivingOrderLines.getByReceivingOrderId as unknown as Mock).mockResolvedValue(mockLines);
 		(wmsApi.default.products.getByItemId as unknown as Mock).mockResolvedValue(mockProduct);
 		(wmsApi.default.pallets.getAll as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
 		(wmsApi.default.shippingOrders.getAll as unknown as Mock).mockResolvedValue([]);
 
 		renderScreen7();
@@ -234,6 +251,8 @@ describe("Screen 7 - Pallet Tallying", () => {
 		(wmsApi.default.receivingOrders.getById as unknown as Mock).mockResolvedValue(mockOrder);
 		(wmsApi.default.receivingOrderLines.getByReceivingOrderId as unknown as Mock).mockResolvedValue([]);
 		(wmsApi.default.pallets.getAll as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
 		(wmsApi.default.shippingOrders.getAll as unknown as Mock).mockResolvedValue([]);
 
 		renderScreen7();
@@ -308,6 +327,8 @@ describe("Screen 7 - Pallet Tallying", () => {
 		(wmsApi.default.receivingOrderLines.getByReceivingOrderId as unknown as Mock).mockResolvedValue(mockLines);
 		(wmsApi.default.products.getByItemId as unknown as Mock).mockResolvedValue(mockProduct);
 		(wmsApi.default.pallets.getAll as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
 		(wmsApi.default.shippingOrders.getAll as unknown as Mock).mockResolvedValue([mockShippingOrder]);
 		(wmsApi.default.shippingOrders.getById as unknown as Mock).mockResolvedValue(mockShippingOrder);
 
@@ -380,6 +401,8 @@ describe("Screen 7 - Pallet Tallying", () => {
 		(wmsApi.default.receivingOrderLines.getByReceivingOrderId as unknown as Mock).mockResolvedValue(mockLines);
 		(wmsApi.default.products.getByItemId as unknown as Mock).mockResolvedValue(mockProduct);
 		(wmsApi.default.pallets.getAll as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
 		(wmsApi.default.shippingOrders.getAll as unknown as Mock).mockResolvedValue([mockShippingOrder]);
 		(wmsApi.default.shippingOrders.getById as unknown as Mock).mockResolvedValue(mockShippingOrder);
 		(wmsApi.default.pallets.create as unknown as Mock).mockResolvedValue(mockCreatedPallet);
@@ -395,6 +418,74 @@ describe("Screen 7 - Pallet Tallying", () => {
 			expect(shipNowButtons.length).toBeGreaterThan(0);
 		});
 	});
+
+	it("should print labels for every tallied pallet in the chosen layout", async () => {
+		const mockOrder = {
+			id: "order-1",
+			container_num: "CONT-001",
+			seal_num: "SEAL-001",
+			status: "Unloading",
+			created_at: "2025-11-26T00:00:00Z",
+			created_by: "user-1",
+		};
+		const mockLines = [
+			{
+				id: "line-1",
+				receiving_order_id: "order-1",
+				item_id: "ITEM-001",
+				expected_qty: 100,
+				created_at: "2025-11-26T00:00:00Z",
+			},
+		];
+		const mockProduct = {
+			id: "prod-1",
+			item_id: "ITEM-001",
+			description: "Test Product",
+			units_per_pallet: 50,
+			pallet_positions: 1,
+			active: true,
+		};
+		const tallied = ["pallet-aaaa0001", "pallet-aaaa0002"].map((id) => ({
+			id,
+			item_id: "ITEM-001",
+			qty: 50,
+			status: "Received",
+			receiving_order_id: "order-1",
+			is_cross_dock: false,
+			created_at: "2025-11-27T08:00:00Z",
+		}));
+
+		(wmsApi.default.receivingOrders.getById as unknown as Mock).mockResolvedValue(mockOrder);
+		(wmsApi.default.receivingOrderLines.getByReceivingOrderId as unknown as Mock).mockResolvedValue(mockLines);
+		(wmsApi.default.products.getByItemId as unknown as Mock).mockResolvedValue(mockProduct);
+		(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue(tallied);
+		(wmsApi.default.shippingOrders.getAll as unknown as Mock).mockResolvedValue([]);
+
+		renderScreen7();
+
+		const printAll = await screen.findByRole("button", { name: /Print All Labels/ });
+		await waitFor(() => expect(printAll).toBeEnabled());
+
+		fireEvent.click(screen.getByRole("button", { name: "A4" }));
+		fireEvent.click(printAll);
+
+		await waitFor(() => {
+			expect(printPalletLabels).toHaveBeenCalledWith(
+				[
+					expect.objectContaining({
+						pallet_id: "pallet-aaaa0001",
+						item_id: "ITEM-001",
+						description: "Test Product",
+						qty: 50,
+						container_num: "CONT-001",
+						received_at: "2025-11-27T08:00:00Z",
+					}),
+					expect.objectContaining({ pallet_id: "pallet-aaaa0002" }),
+				],
+				"A4"
+			);
+		});
+	});
 });
 
 test("should disable SHIP-NOW buttons when shipping order quantity is fulfilled", async () => {
@@ -445,6 +536,7 @@ test("should disable SHIP-NOW buttons when shipping order quantity is fulfilled"
 	(wmsApi.default.receivingOrderLines.getByReceivingOrderId as unknown as Mock).mockResolvedValue(mockLines);
 	(wmsApi.default.products.getByItemId as unknown as Mock).mockResolvedValue(mockProduct);
 	(wmsApi.default.pallets.getAll as unknown as Mock).mockResolvedValue([]);
+	(wmsApi.default.pallets.getFiltered as unknown as Mock).mockResolvedValue([]);
 	(wmsApi.default.shippingOrders.getAll as unknown as Mock).mockResolvedValue([mockShippingOrder]);
 	(wmsApi.default.shippingOrders.getById as unknown as Mock).mockResolvedValue(mockShippingOrder);
 
@@ -7,7 +7,7 @@
  *
  * Story 3.2 Acceptance Criteria:
  * 1. Display pallet rows: Item ID, Description, Qty (editable)
- * 2. Calculate expected pallets = expected_qty / units_per_pallet
+ * 2. Calculate expected pallets = expected_qty / units_per_pallet (as of the order's creation)
  * 3. Allow editing qty per pallet
  * 4. [Confirm Pallet] button creates pallet record
  * 5. [Undo] button deletes pallet and re-opens row
@@ -21,9 +21,18 @@
  * 4. [SHIP-NOW] creates cross-dock pallet (status=Received, is_cross_dock=true)
  * 5. Cross-dock pallet skips Put-Away and Picking; appears in Loading (Screen 12)
  * 6. Set is_cross_dock=true for billing segmentation
+ *
+ * Data comes from the hooks/wms query cache: confirmed pallets join the tally
+ * immediately, and over-receiving checks use the cached tally instead of
+ * refetching every pallet.
+ *
+ * Pallet labels: each confirmed pallet can print its label (its LPN in large
+ * type and as a Code 128 barcode, item, description, qty, container # and
+ * received date), and [Print All Labels] prints every pallet tallied for the
+ * order, on 4×6 label pages or A4 sheets of eight.
  */
 
-import React, { useEffect, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
 	Box,
 	Button,
@@ -39,32 +48,34 @@ import {
 	TableHead,
 	TableRow,
 	TextField,
+	ToggleButton,
+	ToggleButtonGroup,
 	Typography,
 	useMediaQuery,
 	useTheme,
 } from "@mui/material";
 import { ArrowLeftIcon } from "@phosphor-icons/react/dist/ssr/ArrowLeft";
 import { CheckCircleIcon } from "@phosphor-icons/react/dist/ssr/CheckCircle";
+import { PrinterIcon } from "@phosphor-icons/react/dist/ssr/Printer";
 import { RocketIcon } from "@phosphor-icons/react/dist/ssr/Rocket";
 import { TrashIcon } from "@phosphor-icons/react/dist/ssr/Trash";
 import { useSnackbar } from "notistack";
 import { useLocation, useNavigate } from "react-router-dom";
 
 import {
-	pallets,
-	products,
-	receivingOrderLines,
-	receivingOrders,
-	shippingOrders as shippingOrdersApi,
-} from "../../lib/api/wms-api";
-import {
-	Pallet,
-	Product,
-	ReceivingOrder,
-	ReceivingOrderLine,
-	ShippingOrder,
-	ShippingOrderLine,
-} from "../../types/domain";
+	useFinishTally,
+	useReceivingOrder,
+	useReceivingOrderLines,
+	useShippingOrders,
+} from "../../hooks/wms/use-orders";
+import { useConfirmPallet, usePallets, useUndoPallet } from "../../hooks/wms/use-pallets";
+import { useProductsByItemIds, useProductVersions } from "../../hooks/wms/use-products";
+import { createAllocationLedger, isAllocatableOrder } from "../../lib/api/allocation";
+import { getShipNowOrder } from "../../lib/api/wms-api";
+import { Pallet, Product, ReceivingOrderLine, ShippingOrder, ShippingOrderLine } from "../../types/domain";
+import { getSpecAt } from "../../utils/product-versions";
+import { getErrorToastMessage } from "../core/notifications/utils";
+import { printPalletLabels, toPalletLabel, type PalletLabelLayout } from "../inventory/pallet-labels";
 
 interface PalletRow {
 	line: ReceivingOrderLine;
@@ -93,134 +104,166 @@ export default function Screen7() {
 
 	const { receivingOrderId, containerNum, sealNum } = location.state || {};
 
-	const [receivingOrder, setReceivingOrder] = useState<ReceivingOrder | null>(null);
+	// Order, lines, open shipping orders and this order's tallied pallets come from the shared query cache
+	const orderQuery = useReceivingOrder(receivingOrderId);
+	const linesQuery = useReceivingOrderLines(receivingOrderId);
+	const shippingOrdersQuery = useShippingOrders();
+	const talliedQuery = usePallets({ receiving_order_id: receivingOrderId }, { enabled: !!receivingOrderId });
+	const lineItemIds = (linesQuery.data ?? []).map((line) => line.item_id);
+	const { productMap, isLoading: isLoadingProducts } = useProductsByItemIds(lineItemIds);
+	const { versions, isLoading: isLoadingVersions } = useProductVersions(lineItemIds);
+	const confirmPallet = useConfirmPallet();
+	const undoPallet = useUndoPallet();
+	const finishTally = useFinishTally();
+
+	// SHIP-NOW candidates: orders still waiting for stock
+	const shippingOrders: ShippingOrderWithLines[] = useMemo(
+		() => (shippingOrdersQuery.data ?? []).filter((so) => isAllocatableOrder(so)),
+		[shippingOrdersQuery.data]
+	);
+	// Pallets already assigned to those orders, from any receiving order (they count against RemainingQty)
+	const openOrderIds = shippingOrders.map((so) => so.id);
+	const assignedQuery = usePallets({ shipping_order_id: openOrderIds }, { enabled: openOrderIds.length > 0 });
+	const assignedPallets = useMemo(() => assignedQuery.data ?? [], [assignedQuery.data]);
+
+	const receivingOrder = orderQuery.data ?? null;
+	const loadError =
+		orderQuery.error ?? linesQuery.error ?? shippingOrdersQuery.error ?? talliedQuery.error ?? assignedQuery.error;
+	const isLoading =
+		!!receivingOrderId &&
+		!loadError &&
+		(orderQuery.isPending ||
+			linesQuery.isPending ||
+			shippingOrdersQuery.isPending ||
+			talliedQuery.isPending ||
+			(openOrderIds.length > 0 && assignedQuery.isPending) ||
+			isLoadingProducts ||
+			isLoadingVersions);
+
+	// Pallets tallied for this receiving order (optimistically updated on confirm/undo)
+	const talliedPallets = useMemo(() => talliedQuery.data ?? [], [talliedQuery.data]);
+
 	const [rows, setRows] = useState<PalletRow[]>([]);
-	const [isLoading, setIsLoading] = useState(false);
+	const [rowsBuilt, setRowsBuilt] = useState(false);
 	const [isSubmitting, setIsSubmitting] = useState(false);
 	const [editingQty, setEditingQty] = useState<{ [key: string]: number }>({});
-	const [shippingOrders, setShippingOrders] = useState<ShippingOrderWithLines[]>([]);
 	const [shipNowOrderId, setShipNowOrderId] = useState<string | null>(null); // Track if SHIP-NOW was used
 	const [totalPalletsCreated, setTotalPalletsCreated] = useState(0);
 	const [confirmingPalletIndex, setConfirmingPalletIndex] = useState<number | null>(null);
+	const [labelLayout, setLabelLayout] = useState<PalletLabelLayout>("4x6");
+	const [isPrinting, setIsPrinting] = useState(false);
 
-	// Load receiving order and lines
 	useEffect(() => {
-		const loadData = async () => {
-			if (!receivingOrderId) {
-				console.error("❌ [SCREEN 7 LOAD] No receiving order ID provided!");
-				enqueueSnackbar("No receiving order selected", { variant: "error" });
-				navigate("/warehouse");
-				return;
-			}
+		if (!receivingOrderId) {
+			console.error("❌ [SCREEN 7 LOAD] No receiving order ID provided!");
+			enqueueSnackbar("No receiving order selected", { variant: "error" });
+			navigate("/warehouse");
+		}
+	}, [receivingOrderId, navigate, enqueueSnackbar]);
 
-			try {
-				setIsLoading(true);
-				// Fetch receiving order
-				const order = await receivingOrders.getById(receivingOrderId);
-				setReceivingOrder(order);
-
-				// Fetch receiving order lines
-				const lines = await receivingOrderLines.getByReceivingOrderId(receivingOrderId);
-
-				// Fetch all shipping orders with lines for SHIP-NOW logic
-				const allShippingOrders = await shippingOrdersApi.getAll();
-				const shippingOrdersWithLines: ShippingOrderWithLines[] = [];
-				for (const so of allShippingOrders) {
-					if (so.status === "Pending" || so.status === "Picking") {
-						const soWithLines = await shippingOrdersApi.getById(so.id);
-						shippingOrdersWithLines.push(soWithLines);
-					}
-				}
-				setShippingOrders(shippingOrdersWithLines);
-
-				// Fetch products and build rows - ONE ROW PER INDIVIDUAL PALLET
-				const rowsData: PalletRow[] = [];
-				const editingQtyMap: { [key: string]: number } = {};
-
-				for (const line of lines) {
-					const product = await products.getByItemId(line.item_id);
-					const expectedPallets = Math.ceil(line.expected_qty / product.units_per_pallet);
-
-					// Fetch pallets for this item from the CURRENT receiving order only (scoped validation)
-					const allPalletsForItem = await pallets.getAll();
-					const confirmedPalletsForItem = allPalletsForItem.filter(
-						(p) => p.item_id === product.item_id && p.receiving_order_id === receivingOrderId
-					);
-					// Calculate RemainingQty for each shipping order
-					const remainingQtyByOrder: { orderId: string; remainingQty: number }[] = [];
-					let totalRemainingQty = 0;
-					for (const so of shippingOrdersWithLines) {
-						const soLine = so.lines?.find((l) => l.item_id === product.item_id);
-						if (soLine) {
-							// Calculate qty already assigned to this order
-							const assignedQty = confirmedPalletsForItem
-								.filter((p) => p.shipping_order_id === so.id)
-								.reduce((sum, p) => sum + p.qty, 0);
-							const remainingQty = soLine.requested_qty - assignedQty;
-							if (remainingQty > 0) {
-								remainingQtyByOrder.push({ orderId: so.id, remainingQty });
-								totalRemainingQty += remainingQty;
-							}
-						}
-					}
+	useEffect(() => {
+		if (loadError) {
+			console.error("❌ [SCREEN 7 LOAD] Error loading data:", loadError);
+			enqueueSnackbar(`Error: ${loadError.message}`, { variant: "error" });
+		}
+	}, [loadError, enqueueSnackbar]);
 
-					const hasShipNowOption = remainingQtyByOrder.length > 0;
-
-					// Create ONE ROW PER INDIVIDUAL PALLET (not one row per item)
-					for (let palletIndex = 0; palletIndex < expectedPallets; palletIndex++) {
-						const palletQty =
-							palletIndex === expectedPallets - 1
-								? line.expected_qty - palletIndex * product.units_per_pallet
-								: product.units_per_pallet;
-
-						// Use rowIndex as a key to match handleConfirmPallet
-						const rowIndex = rowsData.length;
-						const palletKey = `row-${rowIndex}`;
-
-						// Determine if this specific pallet can be shipped now
-						// Only enable SHIP-NOW for pallets that fit within the remaining quantity
-						const canShipNow = totalRemainingQty >= palletQty;
-
-						rowsData.push({
-							line,
-							product,
-							qtyPerPallet: product.units_per_pallet,
-							actualQty: palletQty, // Actual qty for this specific pallet
-							expectedPallets: 1, // Each row represents 1 pallet
-							confirmedPallets: [], // Start empty - will be populated as user confirms
-							isEditing: false,
-							remainingQtyByOrder,
-							hasShipNowOption,
-							totalRemainingQty,
-							canShipNow,
-						});
-
-						// Build map instead of calling setState in loop
-						editingQtyMap[palletKey] = palletQty;
-
-						// Update remaining quantity for next pallet if this one can be shipped
-						if (canShipNow) {
-							totalRemainingQty -= palletQty;
-						}
-					}
-				}
+	// Build the tally rows once everything has loaded - ONE ROW PER INDIVIDUAL PALLET
+	useEffect(() => {
+		if (rowsBuilt || isLoading || loadError || !linesQuery.data) return;
+
+		const rowsData: PalletRow[] = [];
+		const editingQtyMap: { [key: string]: number } = {};
+		const ledger = createAllocationLedger(shippingOrders, assignedPallets);
 
-				// Set all editing quantities at once (not in loop)
-				setEditingQty(editingQtyMap);
-				setRows(rowsData);
-			} catch (error) {
-				console.error("❌ [SCREEN 7 LOAD] Error loading data:", error);
-				console.error("  Error Type:", error instanceof Error ? error.constructor.name : typeof error);
-				console.error("  Error Message:", error instanceof Error ? error.message : String(error));
-				const message = error instanceof Error ? error.message : "Failed to load data";
-				enqueueSnackbar(`Error: ${message}`, { variant: "error" });
-			} finally {
-				setIsLoading(false);
+		for (const line of linesQuery.data) {
+			const product = productMap.get(line.item_id);
+			if (!product) {
+				enqueueSnackbar(`Error: Product not found: ${line.item_id}`, { variant: "error" });
+				continue;
 			}
-		};
+			// Pallet spec in force when the order was created, not today's
+			const { units_per_pallet: unitsPerPallet } = getSpecAt(
+				product,
+				versions,
+				receivingOrder?.created_at ?? new Date()
+			);
+			const expectedPallets = Math.ceil(line.expected_qty / unitsPerPallet);
+
+			// RemainingQty per open shipping order (spec 5.1), oldest first
+			const openLines = ledger.getOpenLines(product.item_id);
+			const remainingQtyByOrder = openLines.map((open) => ({ orderId: open.orderId, remainingQty: open.remainingQty }));
+			const totalRemainingQty = ledger.getRemainingQty(product.item_id);
+
+			const hasShipNowOption = remainingQtyByOrder.length > 0;
+
+			// Create ONE ROW PER INDIVIDUAL PALLET (not one row per item)
+			for (let palletIndex = 0; palletIndex < expectedPallets; palletIndex++) {
+				const palletQty =
+					palletIndex === expectedPallets - 1 ? line.expected_qty - palletIndex * unitsPerPallet : unitsPerPallet;
+
+				// Use rowIndex as a key to match handleConfirmPallet
+				const rowIndex = rowsData.length;
+				const palletKey = `row-${rowIndex}`;
+
+				// Only enable SHIP-NOW for pallets an open order can take whole; planning
+				// reserves the qty so later rows see what is left
+				const canShipNow = ledger.allocate(product.item_id, palletQty) !== null;
+
+				rowsData.push({
+					line,
+					product,
+					qtyPerPallet: unitsPerPallet,
+					actualQty: palletQty, // Actual qty for this specific pallet
+					expectedPallets: 1, // Each row represents 1 pallet
+					confirmedPallets: [], // Start empty - will be populated as user confirms
+					isEditing: false,
+					remainingQtyByOrder,
+					hasShipNowOption,
+					totalRemainingQty,
+					canShipNow,
+				});
 
-		loadData();
-	}, [receivingOrderId, navigate, enqueueSnackbar]);
+				// Build map instead of calling setState in loop
+				editingQtyMap[palletKey] = palletQty;
+			}
+		}
+
+		// Set all editing quantities at once (not in loop)
+		setEditingQty(editingQtyMap);
+		setRows(rowsData);
+		setRowsBuilt(true);
+	}, [
+		rowsBuilt,
+		isLoading,
+		loadError,
+		linesQuery.data,
+		productMap,
+		versions,
+		receivingOrder,
+		assignedPallets,
+		shippingOrders,
+		enqueueSnackbar,
+	]);
+
+	/**
+	 * Check a new pallet against the ordered qty, using the cached tally (no refetch)
+	 *
+	 * @returns Error message, or null if the qty fits
+	 */
+	const getOverReceiveError = (row: PalletRow, qty: number, action: string): string | null => {
+		// Calculate total confirmed qty for this item in the current receiving order only
+		const totalConfirmedForItem = talliedPallets
+			.filter((p) => p.item_id === row.product.item_id)
+			.reduce((sum, p) => sum + p.qty, 0);
+
+		const expectedQtyForItem = row.line.expected_qty;
+		const newTotal = totalConfirmedForItem + qty;
+
+		if (newTotal <= expectedQtyForItem) return null;
+		const remaining = expectedQtyForItem - totalConfirmedForItem;
+		return `Cannot ${action}: Total qty (${newTotal}) would exceed ordered qty (${expectedQtyForItem}). Only ${remaining} units remaining.`;
+	};
 
 	// Handle qty change for individual pallet row
 	const handleQtyChange = (palletKey: string, value: number) => {
@@ -260,24 +303,9 @@ export default function Screen7() {
 		}
 
 		// CRITICAL VALIDATION: Prevent over-receiving (confirming more than ordered)
-		// Fetch pallets for this item from the CURRENT receiving order only (scoped validation)
-		const allPallets = await pallets.getAll();
-		const allPalletsForItem = allPallets.filter(
-			(p) => p.item_id === row.product.item_id && p.receiving_order_id === receivingOrderId
-		);
-
-		// Calculate total confirmed qty for this item in the current receiving order only
-		const totalConfirmedForItem = allPalletsForItem.reduce((sum, p) => sum + p.qty, 0);
-
-		const expectedQtyForItem = row.line.expected_qty;
-		const newTotal = totalConfirmedForItem + qty;
-
-		if (newTotal > expectedQtyForItem) {
-			const remaining = expectedQtyForItem - totalConfirmedForItem;
-			enqueueSnackbar(
-				`Cannot confirm: Total qty (${newTotal}) would exceed ordered qty (${expectedQtyForItem}). Only ${remaining} units remaining.`,
-				{ variant: "error" }
-			);
+		const overReceiveError = getOverReceiveError(row, qty, "confirm");
+		if (overReceiveError) {
+			enqueueSnackbar(overReceiveError, { variant: "error" });
 			return;
 		}
 
@@ -296,8 +324,8 @@ export default function Screen7() {
 				is_cross_dock: false,
 			};
 
-			// Create pallet
-			const pallet = await pallets.create(palletData);
+			// Create pallet (shows in the tally immediately)
+			const pallet = await confirmPallet.mutateAsync(palletData);
 			// Update row - mark this individual pallet as confirmed
 			const updatedRows = [...rows];
 			updatedRows[rowIndex].confirmedPallets.push(pallet);
@@ -306,7 +334,7 @@ export default function Screen7() {
 
 			// Increment total pallets created
 			setTotalPalletsCreated((prev) => prev + 1);
-			enqueueSnackbar(`✅ Pallet confirmed (ID: ${pallet.id.slice(0, 8)})`, {
+			enqueueSnackbar(`✅ Pallet confirmed (LPN: ${pallet.lpn})`, {
 				variant: "success",
 			});
 		} catch (error) {
@@ -314,7 +342,7 @@ export default function Screen7() {
 			console.error("  Error Type:", error instanceof Error ? error.constructor.name : typeof error);
 			console.error("  Error Message:", error instanceof Error ? error.message : String(error));
 			console.error("  Full Error Object:", error);
-			const message = error instanceof Error ? error.message : "Failed to confirm pallet";
+			const message = getErrorToastMessage(error, "Failed to confirm pallet");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -331,7 +359,7 @@ export default function Screen7() {
 			setIsSubmitting(true);
 
 			// Delete pallet
-			await pallets.delete(pallet.id);
+			await undoPallet.mutateAsync({ id: pallet.id });
 
 			// Update row
 			const updatedRows = [...rows];
@@ -342,13 +370,30 @@ export default function Screen7() {
 			enqueueSnackbar("✅ Pallet undone", { variant: "success" });
 		} catch (error) {
 			console.error("Error undoing pallet:", error);
-			const message = error instanceof Error ? error.message : "Failed to undo pallet";
+			const message = getErrorToastMessage(error, "Failed to undo pallet");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
 		}
 	};
 
+	// Print labels for the given pallets in the chosen layout
+	const handlePrintLabels = async (pallets: Pallet[]) => {
+		try {
+			setIsPrinting(true);
+			const labels = pallets.map((pallet) =>
+				toPalletLabel(pallet, productMap.get(pallet.item_id), receivingOrder?.container_num ?? containerNum)
+			);
+			await printPalletLabels(labels, labelLayout);
+		} catch (error) {
+			console.error("Error printing pallet labels:", error);
+			const message = getErrorToastMessage(error, "Failed to print labels");
+			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
+		} finally {
+			setIsPrinting(false);
+		}
+	};
+
 	// Handle SHIP-NOW (cross-dock)
 	const handleShipNow = async (rowIndex: number) => {
 		const row = rows[rowIndex];
@@ -364,24 +409,9 @@ export default function Screen7() {
 		}
 
 		// CRITICAL VALIDATION: Prevent over-receiving (same logic as Confirm Pallet)
-		// Fetch pallets for this item from the CURRENT receiving order only (scoped validation)
-		const allPallets = await pallets.getAll();
-		const allPalletsForItem = allPallets.filter(
-			(p) => p.item_id === row.product.item_id && p.receiving_order_id === receivingOrderId
-		);
-
-		// Calculate total confirmed qty for this item in the current receiving order only
-		const totalConfirmedForItem = allPalletsForItem.reduce((sum, p) => sum + p.qty, 0);
-
-		const expectedQtyForItem = row.line.expected_qty;
-		const newTotal = totalConfirmedForItem + qty;
-
-		if (newTotal > expectedQtyForItem) {
-			const remaining = expectedQtyForItem - totalConfirmedForItem;
-			enqueueSnackbar(
-				`Cannot Ship-Now: Total qty (${newTotal}) would exceed ordered qty (${expectedQtyForItem}). Only ${remaining} units remaining.`,
-				{ variant: "error" }
-			);
+		const overReceiveError = getOverReceiveError(row, qty, "Ship-Now");
+		if (overReceiveError) {
+			enqueueSnackbar(overReceiveError, { variant: "error" });
 			return;
 		}
 
@@ -407,36 +437,20 @@ export default function Screen7() {
 				return;
 			}
 
-			// Find all eligible shipping orders for this item
-			const eligibleOrders = shippingOrders.filter((order) => {
-				if (order.status !== "Pending" && order.status !== "Picking") return false;
-				if (!order.lines) return false;
-				const line = order.lines.find((l) => l.item_id === row.product.item_id);
-				return line && line.requested_qty > 0;
-			});
+			// Oldest open order whose RemainingQty can take the whole pallet (spec 5.1)
+			const shipNowOrder = await getShipNowOrder(row.product.item_id, shippingOrders, assignedPallets, qty);
 
-			if (eligibleOrders.length === 0) {
+			if (!shipNowOrder) {
 				console.warn("⚠️ [SHIP NOW] No eligible shipping order found");
-				enqueueSnackbar("No eligible shipping orders found for this item", { variant: "warning" });
+				enqueueSnackbar("No shipping order needs this many units of this item", { variant: "warning" });
 				setIsSubmitting(false);
 				return;
 			}
 
-			// Prioritize Container_Loading over Hand_Delivery, then sort by created_at (FIFO)
-			const shipNowOrder = eligibleOrders.sort((a, b) => {
-				// Container_Loading comes first
-				if (a.shipment_type === "Container_Loading" && b.shipment_type !== "Container_Loading") return -1;
-				if (a.shipment_type !== "Container_Loading" && b.shipment_type === "Container_Loading") return 1;
-				// Then sort by created_at (FIFO)
-				const dateA = new Date(a.created_at).getTime();
-				const dateB = new Date(b.created_at).getTime();
-				return dateA - dateB;
-			})[0];
-
 			// Create cross-dock pallet
 			// Ensure receivingOrderId is a string for proper database storage
 			const orderId = String(receivingOrderId);
-			const pallet = await pallets.create({
+			const pallet = await confirmPallet.mutateAsync({
 				receiving_order_id: orderId,
 				item_id: row.product.item_id,
 				qty: Math.round(qty),
@@ -471,16 +485,15 @@ export default function Screen7() {
 			// Increment total pallets created
 			setTotalPalletsCreated((prev) => prev + 1);
 
-			enqueueSnackbar(
-				`✅ Cross-dock pallet created (ID: ${pallet.id.slice(0, 8)}) - Order: ${shipNowOrder.order_ref}`,
-				{ variant: "success" }
-			);
+			enqueueSnackbar(`✅ Cross-dock pallet created (LPN: ${pallet.lpn}) - Order: ${shipNowOrder.order_ref}`, {
+				variant: "success",
+			});
 		} catch (error) {
 			console.error("❌ [SHIP NOW] ERROR:", error);
 			console.error("  Error Type:", error instanceof Error ? error.constructor.name : typeof error);
 			console.error("  Error Message:", error instanceof Error ? error.message : String(error));
 			console.error("  Full Error Object:", error);
-			const message = error instanceof Error ? error.message : "Failed to create cross-dock pallet";
+			const message = getErrorToastMessage(error, "Failed to create cross-dock pallet");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -498,30 +511,10 @@ export default function Screen7() {
 		try {
 			setIsSubmitting(true);
 
-			// Update receiving order status
-			await receivingOrders.update(receivingOrderId, {
-				status: "Staged",
-			});
-
-			// Check if ALL pallets were created via SHIP-NOW (100% cross-dock)
-			// If there are any regular confirmed pallets, it's a mixed order
-			const hasRegularPallets = rows.some((row) => row.confirmedPallets.length > 0);
-			const isAllShipNow = totalPalletsCreated > 0 && !hasRegularPallets;
-
-			// Only update shipping order to "Loading" if ALL pallets are SHIP-NOW (100% cross-dock)
-			if (shipNowOrderId && isAllShipNow) {
-				try {
-					await shippingOrdersApi.update(shipNowOrderId, {
-						status: "Loading",
-					});
-				} catch (error) {
-					console.error("⚠️ Failed to update shipping order status:", error);
-					// Don't fail the entire operation if shipping order update fails
-					enqueueSnackbar("Warning: Shipping order status update failed, but tally was completed", {
-						variant: "warning",
-					});
-				}
-			}
+			// Stage the receiving order; if ALL pallets were created via SHIP-NOW (100% cross-dock),
+			// their shipping orders move to "Loading" in the same transaction
+			const { loadingOrderIds } = await finishTally.mutateAsync(receivingOrderId);
+			const isAllShipNow = !!shipNowOrderId && loadingOrderIds.includes(shipNowOrderId);
 
 			// Show validation message
 			let successMessage =
@@ -561,7 +554,7 @@ export default function Screen7() {
 			console.error("  Error Type:", error instanceof Error ? error.constructor.name : typeof error);
 			console.error("  Error Message:", error instanceof Error ? error.message : String(error));
 			console.error("  Full Error Object:", error);
-			const message = error instanceof Error ? error.message : "Failed to finish tally";
+			const message = getErrorToastMessage(error, "Failed to finish tally");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -726,16 +719,28 @@ export default function Screen7() {
 												sx={{ display: "flex", gap: { xs: 0.5, sm: 1 }, justifyContent: "center", flexWrap: "wrap" }}
 											>
 												{isConfirmed ? (
-													<Button
-														size="small"
-														variant="outlined"
-														color="error"
-														startIcon={<TrashIcon size={16} />}
-														onClick={() => handleUndoPallet(rowIndex, 0)}
-														disabled={isSubmitting}
-													>
-														Undo
-													</Button>
+													<>
+														<Button
+															size="small"
+															variant="outlined"
+															startIcon={<PrinterIcon size={16} />}
+															onClick={() => handlePrintLabels(row.confirmedPallets)}
+															disabled={isPrinting}
+															title="Print this pallet's label"
+														>
+															Label
+														</Button>
+														<Button
+															size="small"
+															variant="outlined"
+															color="error"
+															startIcon={<TrashIcon size={16} />}
+															onClick={() => handleUndoPallet(rowIndex, 0)}
+															disabled={isSubmitting}
+														>
+															Undo
+														</Button>
+													</>
 												) : (
 													<>
 														<Button
@@ -800,16 +805,45 @@ export default function Screen7() {
 						</Typography>
 					)}
 				</Box>
-				<Button
-					variant="contained"
-					color="success"
-					size={isTablet ? "medium" : "large"}
-					onClick={handleFinishTally}
-					disabled={!isFinishEnabled || isSubmitting}
-					sx={{ width: { xs: "100%", sm: "auto" } }}
+				<Box
+					sx={{
+						display: "flex",
+						gap: 1,
+						alignItems: "center",
+						flexWrap: "wrap",
+						width: { xs: "100%", sm: "auto" },
+					}}
 				>
-					{isSubmitting ? <CircularProgress size={24} /> : "Finish Tally"}
-				</Button>
+					<ToggleButtonGroup
+						size="small"
+						exclusive
+						value={labelLayout}
+						onChange={(_, value: PalletLabelLayout | null) => value && setLabelLayout(value)}
+						aria-label="Label layout"
+					>
+						<ToggleButton value="4x6">4×6</ToggleButton>
+						<ToggleButton value="A4">A4</ToggleButton>
+					</ToggleButtonGroup>
+					<Button
+						variant="outlined"
+						size={isTablet ? "medium" : "large"}
+						startIcon={<PrinterIcon size={20} />}
+						onClick={() => handlePrintLabels(talliedPallets)}
+						disabled={talliedPallets.length === 0 || isPrinting}
+					>
+						Print All Labels
+					</Button>
+					<Button
+						variant="contained"
+						color="success"
+						size={isTablet ? "medium" : "large"}
+						onClick={handleFinishTally}
+						disabled={!isFinishEnabled || isSubmitting}
+						sx={{ width: { xs: "100%", sm: "auto" } }}
+					>
+						{isSubmitting ? <CircularProgress size={24} /> : "Finish Tally"}
+					</Button>
+				</Box>
 			</Box>
 		</Box>
 	);
@@ -1,7 +1,7 @@
 /**
  * Screen 8 Tests: Put-Away Pallet Assignment
  *
- * Tests for Story 5.1 acceptance criteria
+ * Tests for Story 5.1 acceptance criteria, the rack map, suggestions and scanning
  */
 
 import React from "react";
@@ -29,6 +29,7 @@ vi.mock("../../lib/api/wms-api", () => ({
 	},
 	locations: {
 		getAll: vi.fn(),
+		getById: vi.fn(),
 		resolve: vi.fn(),
 	},
 	warehouses: {
@@ -56,6 +57,7 @@ vi.mock("react-router-dom", async () => {
 const mockPallets: PalletWithProduct[] = [
 	{
 		id: "pallet-1",
+		lpn: "W1-P-000001",
 		item_id: "ITEM-001",
 		qty: 100,
 		status: "Received" as const,
@@ -75,6 +77,7 @@ const mockPallets: PalletWithProduct[] = [
 	},
 	{
 		id: "pallet-2",
+		lpn: "W1-P-000002",
 		item_id: "ITEM-002",
 		qty: 50,
 		status: "Received" as const,
@@ -203,4 +206,148 @@ describe("Screen 8: Put-Away Pallet Assignment", () => {
 			{ timeout: 3000 }
 		);
 	});
+
+	it("should put a pallet away by clicking a slot on the rack map", async () => {
+		vi.mocked(palletsApi.getFiltered).mockImplementation(async (filters) =>
+			filters?.status === "Received"
+				? [mockPallets[0]]
+				: [{ ...mockPallets[1], status: "Stored" as const, location_id: "W1-1-1-A" }]
+		);
+		vi.mocked(products.getByItemId).mockResolvedValue(mockPallets[0].product!);
+		vi.mocked(locations.getAll).mockResolvedValue([
+			{ location_id: "W1-1-1-A", type: "RACK", rack: 1, level: 1, position: "A", warehouse_id: "warehouse-1" },
+			{
+				location_id: "W1-1-1-B",
+				type: "RACK",
+				rack: 1,
+				level: 1,
+				position: "B",
+				warehouse_id: "warehouse-1",
+				is_blocked: true,
+			},
+			{ location_id: "W1-1-2-A", type: "RACK", rack: 1, level: 2, position: "A", warehouse_id: "warehouse-1" },
+		]);
+		vi.mocked(locations.resolve).mockResolvedValue({
+			location_id: "W1-1-2-A",
+			type: "RACK",
+			rack: 1,
+			level: 2,
+			position: "A",
+			warehouse_id: "warehouse-1",
+		});
+		vi.mocked(palletsApi.update).mockResolvedValue({ ...mockPallets[0], status: "Stored" });
+
+		renderScreen();
+
+		fireEvent.click(await screen.findByRole("button", { name: "Select Location" }));
+		fireEvent.click(screen.getByText("Option B: Rack Location (Detailed)"));
+		fireEvent.click(screen.getByRole("button", { name: "1" }));
+
+		expect(screen.getByText("Rack 1 Map")).toBeInTheDocument();
+		expect(screen.getByLabelText("W1-1-1-A Occupied")).toBeInTheDocument();
+		expect(screen.queryByRole("button", { name: "W1-1-1-B Blocked" })).not.toBeInTheDocument();
+
+		fireEvent.click(screen.getByRole("button", { name: "W1-1-2-A Empty" }));
+		expect(screen.getByText("Rack 1-L2-A")).toBeInTheDocument();
+
+		fireEvent.click(screen.getByRole("button", { name: "Save Location" }));
+		await waitFor(() => {
+			expect(locations.resolve).toHaveBeenCalledWith("warehouse-1", 1, 2, "A");
+			expect(palletsApi.update).toHaveBeenCalledWith(
+				"pallet-1",
+				expect.objectContaining({ location_id: "W1-1-2-A", status: "Stored" })
+			);
+		});
+	});
+
+	it("should suggest empty slots and select one", async () => {
+		vi.mocked(palletsApi.getFiltered).mockImplementation(async (filters) =>
+			filters?.status === "Received"
+				? [mockPallets[0]]
+				: [{ ...mockPallets[1], status: "Stored" as const, location_id: "W1-1-2-A" }]
+		);
+		vi.mocked(products.getByItemId).mockResolvedValue(mockPallets[0].product!);
+		vi.mocked(locations.getAll).mockResolvedValue(
+			["W1-1-1-A", "W1-1-2-A", "W1-1-2-B"].map((location_id) => {
+				const [, rack, level, position] = location_id.split("-");
+				return {
+					location_id,
+					type: "RACK" as const,
+					rack: Number(rack),
+					level: Number(level),
+					position,
+					warehouse_id: "warehouse-1",
+				};
+			})
+		);
+
+		renderScreen();
+
+		fireEvent.click(await screen.findByRole("button", { name: "Select Location" }));
+		expect(screen.getByText("Suggested Locations")).toBeInTheDocument();
+		expect(screen.queryByRole("button", { name: /^W1-1-2-A/ })).not.toBeInTheDocument();
+
+		fireEvent.click(screen.getByRole("button", { name: /^W1-1-2-B/ }));
+		expect(screen.getByText("Rack 1-L2-B")).toBeInTheDocument();
+		expect(screen.getByText("Rack 1 Map")).toBeInTheDocument();
+	});
+
+	it("should put a pallet away by scanning its label and a location label", async () => {
+		const palletId = "6d1f0c2e-3b4a-4c5d-9e8f-7a6b5c4d3e2f";
+		vi.mocked(palletsApi.getFiltered).mockImplementation(async (filters) =>
+			filters?.status === "Received" ? [{ ...mockPallets[0], id: palletId }] : []
+		);
+		vi.mocked(products.getByItemId).mockResolvedValue(mockPallets[0].product!);
+		vi.mocked(locations.getAll).mockResolvedValue([
+			{ location_id: "W1-1-1-A", type: "RACK", rack: 1, level: 1, position: "A", warehouse_id: "warehouse-1" },
+			{
+				location_id: "W1-1-1-B",
+				type: "RACK",
+				rack: 1,
+				level: 1,
+				position: "B",
+				warehouse_id: "warehouse-1",
+				is_blocked: true,
+			},
+		]);
+		vi.mocked(locations.resolve).mockResolvedValue({
+			location_id: "W1-1-1-A",
+			type: "RACK",
+			rack: 1,
+			level: 1,
+			position: "A",
+			warehouse_id: "warehouse-1",
+		});
+		vi.mocked(palletsApi.update).mockResolvedValue({ ...mockPallets[0], id: palletId, status: "Stored" });
+
+		renderScreen();
+
+		// Typed into the scan field (as a scanner does when the field has focus)
+		const field = await screen.findByRole("textbox", { name: "Scan barcode" });
+		fireEvent.change(field, { target: { value: "W1-1-1-A" } });
+		fireEvent.keyDown(field, { key: "Enter" });
+		expect(screen.getByText("Scan a pallet label first")).toBeInTheDocument();
+
+		fireEvent.change(field, { target: { value: palletId } });
+		fireEvent.keyDown(field, { key: "Enter" });
+		expect(await screen.findByText("Assign Location to Pallet")).toBeInTheDocument();
+
+		// Keyboard-wedge scans while the dialog is open
+		const scanWedge = (text: string) => {
+			for (const key of text) fireEvent.keyDown(document.body, { key });
+			fireEvent.keyDown(document.body, { key: "Enter" });
+		};
+		scanWedge("W1-1-1-B");
+		expect(await screen.findAllByText("Wrong location: W1-1-1-B is blocked or retired")).not.toHaveLength(0);
+		expect(palletsApi.update).not.toHaveBeenCalled();
+
+		scanWedge("W1-1-1-A");
+		await waitFor(() => {
+			expect(locations.resolve).toHaveBeenCalledWith("warehouse-1", 1, 1, "A");
+			expect(palletsApi.update).toHaveBeenCalledWith(
+				palletId,
+				expect.objectContaining({ location_id: "W1-1-1-A", status: "Stored" })
+			);
+		});
+	});
 });
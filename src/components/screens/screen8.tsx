@@ -15,11 +15,28 @@
  *
  * Story 5.2 Acceptance Criteria:
  * 1. Screen 8 includes option to move stored pallets (status=Stored)
- * 2. Search/scan pallet by Item ID or Pallet ID
+ * 2. Search/scan pallet by Item ID, LPN or Pallet ID
  * 3. Display current location
  * 4. Allow new location selection (same as put-away)
  * 5. On save: update pallet.location_id
  * 6. Log move action (from/to location, timestamp)
+ *
+ * Blocked and retired locations are refused for put-away and moves.
+ *
+ * Once a rack is chosen its map shows every slot (empty, occupied, several
+ * pallets, blocked, cross-dock staging) with the pallets on hover, so a
+ * conflict is visible before picking; clicking a slot selects it.
+ *
+ * Put-away suggests the best empty slots for the pallet (adjacent slots for
+ * multi-position items, same item together, heavy items on the floor); the
+ * rules are in src/config/put-away.ts.
+ *
+ * Scanning: a pallet label opens that pallet (put-away list or stored
+ * pallets on the Move tab), then a location label saves it there. Wrong
+ * pallets, unknown and blocked locations beep and show an error.
+ *
+ * Stored pallets can also be split (part of the qty onto new pallets at the
+ * same location) or merged (partial pallets of one item combined).
  */
 
 import React, { useEffect, useState } from "react";
@@ -30,6 +47,7 @@ import {
 	ButtonGroup,
 	Card,
 	CardContent,
+	Checkbox,
 	CircularProgress,
 	Dialog,
 	DialogActions,
@@ -52,9 +70,20 @@ import { WarningIcon } from "@phosphor-icons/react/dist/ssr/Warning";
 import { useSnackbar } from "notistack";
 import { useNavigate } from "react-router-dom";
 
+import { putAwayRules } from "../../config/put-away";
+import { useScanInput } from "../../hooks/use-scan-input";
+import { assertPutAwayLocation, isUsableLocation } from "../../lib/api/location-layout";
+import { suggestPutAwayLocations } from "../../lib/api/put-away";
 import { locations, pallets as palletsApi, products, warehouses } from "../../lib/api/wms-api";
-import { supabase } from "../../lib/auth/supabase-client";
+import type { PalletSplitResult } from "../../lib/api/wms-backend";
 import { Location, Pallet, Product } from "../../types/domain";
+import { buildRackGrids } from "../../utils/rack-map";
+import { matchesPallet, type ParsedScan } from "../../utils/scan";
+import { getErrorToastMessage } from "../core/notifications/utils";
+import { ScanBar } from "../core/scan-bar";
+import { PalletMergeDialog } from "../inventory/pallet-merge-dialog";
+import { PalletSplitDialog } from "../inventory/pallet-split-dialog";
+import { RackMap, RackMapLegend } from "../inventory/rack-map";
 
 interface PalletWithProduct extends Pallet {
 	product?: Product;
@@ -69,6 +98,14 @@ interface LocationSelection {
 	aisleZone?: number; // 1-4 for W1-AISLE-01 through W1-AISLE-04
 }
 
+// Location selection of a scanned location label
+function toLocationSelection(palletId: string, location: Location): LocationSelection {
+	if (location.type === "AISLE") {
+		return { palletId, isAisle: true, aisleZone: Number(location.location_id.match(/(\d+)$/)?.[1] ?? 0) };
+	}
+	return { palletId, rackNum: location.rack, level: location.level, position: location.position };
+}
+
 export default function Screen8() {
 	const navigate = useNavigate();
 	const { enqueueSnackbar } = useSnackbar();
@@ -84,8 +121,9 @@ export default function Screen8() {
 	const [showLocationDialog, setShowLocationDialog] = useState(false);
 	const [locationConflict, setLocationConflict] = useState<string | null>(null);
 	const [warehouseId, setWarehouseId] = useState<string>("");
-	const [_availableLocations, setAvailableLocations] = useState<Location[]>([]);
+	const [availableLocations, setAvailableLocations] = useState<Location[]>([]);
 	const [rackPositions, setRackPositions] = useState<Record<number, string[]>>({});
+	const [rackLevels, setRackLevels] = useState<Record<number, number[]>>({});
 
 	// Tab state (0 = Put-Away, 1 = Move Pallet)
 	const [activeTab, setActiveTab] = useState(0);
@@ -93,6 +131,11 @@ export default function Screen8() {
 	// Move pallet state
 	const [moveFromLocation, setMoveFromLocation] = useState<Location | null>(null);
 
+	// Split / merge state
+	const [splitPallet, setSplitPallet] = useState<PalletWithProduct | null>(null);
+	const [mergeSelection, setMergeSelection] = useState<string[]>([]);
+	const [showMergeDialog, setShowMergeDialog] = useState(false);
+
 	// Load warehouse and received pallets
 	useEffect(() => {
 		const loadData = async () => {
@@ -112,11 +155,12 @@ export default function Screen8() {
 				});
 				setAvailableLocations(allLocations);
 
-				// Build dynamic rack positions mapping
+				// Build dynamic rack positions and levels mapping (retired locations are left out)
 				const positionsMap: Record<number, string[]> = {};
-				const rackLocations = allLocations.filter((loc) => loc.type === "RACK");
+				const levelsMap: Record<number, number[]> = {};
+				const rackLocations = allLocations.filter((loc) => loc.type === "RACK" && loc.is_active !== false);
 
-				// Group positions by rack number
+				// Group positions and levels by rack number
 				for (const location of rackLocations) {
 					if (location.rack && location.position) {
 						if (!positionsMap[location.rack]) {
@@ -126,17 +170,34 @@ export default function Screen8() {
 							positionsMap[location.rack].push(location.position);
 						}
 					}
+					if (location.rack && location.level) {
+						if (!levelsMap[location.rack]) {
+							levelsMap[location.rack] = [];
+						}
+						if (!levelsMap[location.rack].includes(location.level)) {
+							levelsMap[location.rack].push(location.level);
+						}
+					}
 				}
 
-				// Sort positions alphabetically for each rack
+				// Sort positions alphabetically and levels numerically for each rack
 				for (const rackNum of Object.keys(positionsMap)) {
 					positionsMap[Number(rackNum)].sort();
 				}
+				for (const rackNum of Object.keys(levelsMap)) {
+					levelsMap[Number(rackNum)].sort((a, b) => a - b);
+				}
 
 				setRackPositions(positionsMap);
+				setRackLevels(levelsMap);
+
+				// Fetch stored pallets for Move Pallet tab (and the slots they cover on the rack map)
+				const stored = await palletsApi.getFiltered({
+					status: "Stored",
+				});
 
 				// Get unique item IDs from both received and stored pallets
-				const allPallets = [...receivedPallets];
+				const allPallets = [...receivedPallets, ...stored];
 				const uniqueItemIds = [...new Set(allPallets.map((p) => p.item_id))];
 
 				// Batch fetch all products at once
@@ -166,11 +227,6 @@ export default function Screen8() {
 
 				setPallets(enrichedPallets);
 
-				// Fetch stored pallets for Move Pallet tab
-				const stored = await palletsApi.getFiltered({
-					status: "Stored",
-				});
-
 				// Enrich stored pallets with product info using the same map
 				const enrichedStoredPallets = stored.map((pallet) => ({
 					...pallet,
@@ -185,7 +241,7 @@ export default function Screen8() {
 				}
 			} catch (error) {
 				console.error("❌ [SCREEN 8 LOAD] ERROR:", error);
-				const message = error instanceof Error ? error.message : "Failed to load pallets";
+				const message = getErrorToastMessage(error, "Failed to load pallets");
 				enqueueSnackbar(message, { variant: "error" });
 			} finally {
 				setIsLoading(false);
@@ -206,15 +262,15 @@ export default function Screen8() {
 					});
 
 					// Use existing product data to enrich stored pallets (no additional API calls)
-					const enrichedStoredPallets = stored.map((pallet) => {
-						const product = pallets.find((p) => p.item_id === pallet.item_id)?.product;
-						return { ...pallet, product };
-					});
-
-					setStoredPallets(enrichedStoredPallets);
+					setStoredPallets((previous) =>
+						stored.map((pallet) => {
+							const product = [...pallets, ...previous].find((p) => p.item_id === pallet.item_id)?.product;
+							return { ...pallet, product };
+						})
+					);
 				} catch (error) {
 					console.error("❌ [SCREEN 8] Error refreshing stored pallets:", error);
-					const message = error instanceof Error ? error.message : "Failed to refresh stored pallets";
+					const message = getErrorToastMessage(error, "Failed to refresh stored pallets");
 					enqueueSnackbar(message, { variant: "error" });
 				}
 			};
@@ -256,6 +312,26 @@ export default function Screen8() {
 		}));
 	};
 
+	// Handle suggestion click (jumps straight to the rack with the slot selected)
+	const handleSuggestionSelect = (location: Location) => {
+		setLocationSelection((prev) => ({
+			palletId: prev.palletId,
+			isAisle: false,
+			rackNum: location.rack,
+			level: location.level,
+			position: location.position,
+		}));
+	};
+
+	// Handle rack map click (picks level and position together)
+	const handleMapSelect = (location: Location) => {
+		setLocationSelection((prev) => ({
+			...prev,
+			level: location.level,
+			position: location.position,
+		}));
+	};
+
 	// Handle aisle selection
 	const handleAisleSelect = () => {
 		setLocationSelection((prev) => ({
@@ -302,25 +378,28 @@ export default function Screen8() {
 	};
 
 	// Handle save location
-	const handleSaveLocation = async () => {
+	const handleSaveLocation = async (selection: LocationSelection = locationSelection) => {
 		if (!selectedPallet) {
 			console.error("❌ [SAVE LOCATION] No pallet selected!");
 			return;
 		}
 
+		let savedLocationId: string;
 		try {
 			setIsSubmitting(true);
 
 			// Validate location selection
-			if (locationSelection.isAisle) {
+			if (selection.isAisle) {
 				// Aisle location - require zone selection
-				if (!locationSelection.aisleZone) {
+				if (!selection.aisleZone) {
 					console.warn("⚠️ [SAVE LOCATION] No aisle zone selected!");
 					enqueueSnackbar("Please select an aisle zone (1-4)", { variant: "warning" });
 					return;
 				}
 				// Resolve specific aisle zone (W1-AISLE-01 through W1-AISLE-04)
-				const location = await locations.resolve(warehouseId, "AISLE", locationSelection.aisleZone, "A");
+				const location = await locations.resolve(warehouseId, "AISLE", selection.aisleZone, "A");
+				assertPutAwayLocation(location);
+				savedLocationId = location.location_id;
 
 				// Check for conflicts
 				await checkLocationConflict(location.location_id);
@@ -333,14 +412,11 @@ export default function Screen8() {
 				await palletsApi.update(selectedPallet.id, updateData);
 
 				enqueueSnackbar("✅ Pallet assigned to aisle", { variant: "success" });
-			} else if (locationSelection.rackNum && locationSelection.level && locationSelection.position) {
+			} else if (selection.rackNum && selection.level && selection.position) {
 				// Rack location
-				const location = await locations.resolve(
-					warehouseId,
-					locationSelection.rackNum,
-					locationSelection.level,
-					locationSelection.position
-				);
+				const location = await locations.resolve(warehouseId, selection.rackNum, selection.level, selection.position);
+				assertPutAwayLocation(location);
+				savedLocationId = location.location_id;
 
 				// Check for conflicts
 				await checkLocationConflict(location.location_id);
@@ -351,10 +427,9 @@ export default function Screen8() {
 					received_at: new Date().toISOString(),
 				};
 				await palletsApi.update(selectedPallet.id, rackUpdateData);
-				enqueueSnackbar(
-					`✅ Pallet assigned to Rack ${locationSelection.rackNum}-L${locationSelection.level}-${locationSelection.position}`,
-					{ variant: "success" }
-				);
+				enqueueSnackbar(`✅ Pallet assigned to Rack ${selection.rackNum}-L${selection.level}-${selection.position}`, {
+					variant: "success",
+				});
 			} else {
 				console.warn("⚠️ [SAVE LOCATION] Incomplete location selection!");
 				enqueueSnackbar("Please select a complete location (Rack, Level, Position or Aisle)", {
@@ -363,15 +438,16 @@ export default function Screen8() {
 				return;
 			}
 
-			// Remove pallet from list
+			// Remove pallet from list (it now shows on the rack map)
 			setPallets((prev) => prev.filter((p) => p.id !== selectedPallet.id));
+			setStoredPallets((prev) => [...prev, { ...selectedPallet, status: "Stored", location_id: savedLocationId }]);
 			setShowLocationDialog(false);
 			setSelectedPallet(null);
 		} catch (error) {
 			console.error("❌ [SAVE LOCATION] ERROR:", error);
 			console.error("  Error Type:", error instanceof Error ? error.constructor.name : typeof error);
 			console.error("  Error Message:", error instanceof Error ? error.message : String(error));
-			const message = error instanceof Error ? error.message : "Failed to save location";
+			const message = getErrorToastMessage(error, "Failed to save location");
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
@@ -392,14 +468,10 @@ export default function Screen8() {
 		try {
 			// Fetch location details
 			if (pallet.location_id) {
-				const { data: location, error } = await supabase
-					.from("locations")
-					.select("*")
-					.eq("id", pallet.location_id)
-					.single();
-
-				if (!error && location) {
-					setMoveFromLocation(location as Location);
+				const location = await locations.getById(pallet.location_id).catch(() => null);
+
+				if (location) {
+					setMoveFromLocation(location);
 				}
 			}
 
@@ -408,63 +480,53 @@ export default function Screen8() {
 			setLocationConflict(null);
 			setShowLocationDialog(true);
 		} catch (error) {
-			const message = error instanceof Error ? error.message : "Failed to load pallet location";
+			const message = getErrorToastMessage(error, "Failed to load pallet location");
 			enqueueSnackbar(message, { variant: "error" });
 		}
 	};
 
 	// Handle save move
-	const handleSaveMove = async () => {
+	const handleSaveMove = async (selection: LocationSelection = locationSelection) => {
 		if (!selectedPallet) return;
 
 		try {
 			setIsSubmitting(true);
 
 			// Validate location selection
-			if (locationSelection.isAisle) {
+			if (selection.isAisle) {
 				// Aisle location - require zone selection
-				if (!locationSelection.aisleZone) {
+				if (!selection.aisleZone) {
 					enqueueSnackbar("Please select an aisle zone (1-4)", { variant: "warning" });
 					return;
 				}
 
-				const location = await locations.resolve(warehouseId, "AISLE", locationSelection.aisleZone, "A");
+				const location = await locations.resolve(warehouseId, "AISLE", selection.aisleZone, "A");
+				assertPutAwayLocation(location);
 
 				// Check for conflicts
 				await checkLocationConflict(location.location_id);
 
-				// Update pallet
+				// Update pallet (recorded as a move in the audit trail)
 				await palletsApi.update(selectedPallet.id, {
 					location_id: location.location_id,
 				});
 
-				// Log move
-				logPalletMove(selectedPallet, moveFromLocation, location);
-
 				enqueueSnackbar("✅ Pallet moved to aisle", { variant: "success" });
-			} else if (locationSelection.rackNum && locationSelection.level && locationSelection.position) {
-				const location = await locations.resolve(
-					warehouseId,
-					locationSelection.rackNum,
-					locationSelection.level,
-					locationSelection.position
-				);
+			} else if (selection.rackNum && selection.level && selection.position) {
+				const location = await locations.resolve(warehouseId, selection.rackNum, selection.level, selection.position);
+				assertPutAwayLocation(location);
 
 				// Check for conflicts
 				await checkLocationConflict(location.location_id);
 
-				// Update pallet
+				// Update pallet (recorded as a move in the audit trail)
 				await palletsApi.update(selectedPallet.id, {
 					location_id: location.location_id,
 				});
 
-				// Log move
-				logPalletMove(selectedPallet, moveFromLocation, location);
-
-				enqueueSnackbar(
-					`✅ Pallet moved to Rack ${locationSelection.rackNum}-L${locationSelection.level}-${locationSelection.position}`,
-					{ variant: "success" }
-				);
+				enqueueSnackbar(`✅ Pallet moved to Rack ${selection.rackNum}-L${selection.level}-${selection.position}`, {
+					variant: "success",
+				});
 			} else {
 				enqueueSnackbar("Please select a complete location (Rack, Level, Position or Aisle)", {
 					variant: "warning",
@@ -478,9 +540,9 @@ export default function Screen8() {
 					pallet.id === selectedPallet.id
 						? {
 								...pallet,
-								location_id: locationSelection.isAisle
-									? `W1-AISLE-0${locationSelection.aisleZone}`
-									: `W1-${locationSelection.rackNum}-${locationSelection.level}-${locationSelection.position}`,
+								location_id: selection.isAisle
+									? `W1-AISLE-0${selection.aisleZone}`
+									: `W1-${selection.rackNum}-${selection.level}-${selection.position}`,
 							}
 						: pallet
 				)
@@ -491,18 +553,41 @@ export default function Screen8() {
 			setSelectedPallet(null);
 			setMoveFromLocation(null);
 		} catch (error) {
-			const message = error instanceof Error ? error.message : "Failed to move pallet";
+			const message = getErrorToastMessage(error, "Failed to move pallet");
 			enqueueSnackbar(message, { variant: "error" });
 		} finally {
 			setIsSubmitting(false);
 		}
 	};
 
-	// Log pallet move action
-	const logPalletMove = (_pallet: PalletWithProduct, _fromLocation: Location | null, _toLocation: Location) => {
-		// Create log entry for audit trail
-		// This could be sent to a logging service or stored in database
-		// For now, the function is simplified without using parameters
+	// Toggle a stored pallet in the merge selection
+	const handleToggleMerge = (palletId: string) => {
+		setMergeSelection((prev) => (prev.includes(palletId) ? prev.filter((id) => id !== palletId) : [...prev, palletId]));
+	};
+
+	// Show the remaining qty on the original and add the new pallets to the list
+	const handleSplit = (result: PalletSplitResult) => {
+		setStoredPallets((prev) => {
+			const product = prev.find((pallet) => pallet.id === result.source.id)?.product;
+			return [
+				...prev.map((pallet) => (pallet.id === result.source.id ? { ...pallet, ...result.source } : pallet)),
+				...result.created.map((pallet) => ({ ...pallet, product })),
+			];
+		});
+		setSplitPallet(null);
+		enqueueSnackbar(`✅ Pallet split into ${result.created.length + 1} pallets`, { variant: "success" });
+	};
+
+	// Keep the merged pallet with its new qty and drop the pallets merged into it
+	const handleMerge = (merged: Pallet, mergedIds: string[]) => {
+		setStoredPallets((prev) =>
+			prev
+				.filter((pallet) => !mergedIds.includes(pallet.id))
+				.map((pallet) => (pallet.id === merged.id ? { ...pallet, ...merged } : pallet))
+		);
+		setMergeSelection([]);
+		setShowMergeDialog(false);
+		enqueueSnackbar(`✅ ${mergedIds.length + 1} pallets merged (qty ${merged.qty})`, { variant: "success" });
 	};
 
 	// Handle back
@@ -510,6 +595,63 @@ export default function Screen8() {
 		navigate("/warehouse");
 	};
 
+	// Handle a scan: a pallet label opens the pallet, then a location label saves it there
+	const handleScan = (scan: ParsedScan) => {
+		if (scan.kind === "pallet") {
+			if (showLocationDialog && selectedPallet) {
+				if (matchesPallet(selectedPallet, scan.value)) {
+					scanner.accept(`Pallet ${selectedPallet.lpn} - scan a location label`);
+				} else {
+					scanner.reject(`Wrong pallet: ${selectedPallet.lpn} is open, scan its location instead`);
+				}
+				return;
+			}
+			const list = activeTab === 0 ? pallets : storedPallets;
+			const pallet = list.find((p) => matchesPallet(p, scan.value));
+			if (!pallet) {
+				scanner.reject(
+					`Wrong pallet: ${scan.value} is not ${activeTab === 0 ? "waiting for put-away" : "a stored pallet"}`
+				);
+				return;
+			}
+			scanner.accept(`Pallet ${pallet.lpn} (${pallet.item_id}) - scan a location label`);
+			if (activeTab === 0) {
+				handleSelectPallet(pallet);
+			} else {
+				handleSelectPalletForMove(pallet);
+			}
+			return;
+		}
+
+		if (scan.kind === "location") {
+			if (!showLocationDialog || !selectedPallet) {
+				scanner.reject("Scan a pallet label first");
+				return;
+			}
+			const location = availableLocations.find((l) => l.location_id === scan.value);
+			if (!location) {
+				scanner.reject(`Wrong location: ${scan.value} does not exist`);
+				return;
+			}
+			if (!isUsableLocation(location)) {
+				scanner.reject(`Wrong location: ${location.location_id} is blocked or retired`);
+				return;
+			}
+			const selection = toLocationSelection(selectedPallet.id, location);
+			setLocationSelection(selection);
+			scanner.accept(`Location ${location.location_id} confirmed`);
+			if (activeTab === 0) {
+				handleSaveLocation(selection);
+			} else {
+				handleSaveMove(selection);
+			}
+			return;
+		}
+
+		scanner.reject(`Not a pallet or location label: ${scan.value}`);
+	};
+	const scanner = useScanInput(handleScan, { enabled: !isSubmitting && !splitPallet && !showMergeDialog });
+
 	if (isLoading) {
 		return (
 			<Box sx={{ display: "flex", justifyContent: "center", alignItems: "center", height: "100vh" }}>
@@ -518,6 +660,50 @@ export default function Screen8() {
 		);
 	}
 
+	const racks = Object.keys(rackLevels).length > 0 ? Object.keys(rackLevels).map(Number) : [1, 2, 3, 4, 5, 6, 7, 8];
+	const levels =
+		locationSelection.rackNum && rackLevels[locationSelection.rackNum]
+			? rackLevels[locationSelection.rackNum]
+			: [1, 2, 3, 4];
+
+	// Products of the loaded pallets, for the slots a multi-position pallet covers
+	const knownProducts = [...pallets, ...storedPallets].flatMap((pallet) => (pallet.product ? [pallet.product] : []));
+
+	const suggestions =
+		activeTab === 0 && selectedPallet
+			? suggestPutAwayLocations(
+					selectedPallet.item_id,
+					selectedPallet.product,
+					availableLocations,
+					storedPallets,
+					knownProducts,
+					putAwayRules
+				)
+			: [];
+
+	const rackGrid = locationSelection.rackNum
+		? buildRackGrids(availableLocations, storedPallets, knownProducts).find(
+				(grid) => grid.rack === locationSelection.rackNum
+			)
+		: undefined;
+	const selectedLocationId = rackGrid?.cells
+		.flat()
+		.find(
+			(cell) =>
+				cell?.location.level === locationSelection.level && cell?.location.position === locationSelection.position
+		)?.location.location_id;
+
+	// Blocked slots cannot be chosen (put-away also re-checks the resolved location)
+	const isSlotBlocked = (position: string) =>
+		availableLocations.some(
+			(loc) =>
+				loc.type === "RACK" &&
+				loc.rack === locationSelection.rackNum &&
+				loc.level === locationSelection.level &&
+				loc.position === position &&
+				!isUsableLocation(loc)
+		);
+
 	const positions = [
 		"A",
 		"B",
@@ -561,6 +747,12 @@ export default function Screen8() {
 				</Tabs>
 			</Box>
 
+			<ScanBar
+				scanner={scanner}
+				hint={activeTab === 0 ? "Scan a pallet label to put it away" : "Scan a pallet label to move it"}
+				disabled={isSubmitting}
+			/>
+
 			{/* PUT-AWAY TAB */}
 			{activeTab === 0 && (
 				<>
@@ -587,6 +779,9 @@ export default function Screen8() {
 								<Table>
 									<TableHead>
 										<TableRow sx={{ backgroundColor: "#f5f5f5" }}>
+											<TableCell>
+												<strong>LPN</strong>
+											</TableCell>
 											<TableCell>
 												<strong>Item ID</strong>
 											</TableCell>
@@ -604,6 +799,7 @@ export default function Screen8() {
 									<TableBody>
 										{pallets.map((pallet) => (
 											<TableRow key={pallet.id}>
+												<TableCell>{pallet.lpn}</TableCell>
 												<TableCell>{pallet.product?.item_id || "N/A"}</TableCell>
 												<TableCell>{pallet.product?.description || "N/A"}</TableCell>
 												<TableCell align="right">{pallet.qty}</TableCell>
@@ -646,11 +842,27 @@ export default function Screen8() {
 						</Card>
 					) : (
 						<>
+							{/* Merge selected pallets */}
+							<Box sx={{ display: "flex", justifyContent: "flex-end", mb: 2 }}>
+								<Button
+									variant="outlined"
+									size="large"
+									disabled={mergeSelection.length < 2}
+									onClick={() => setShowMergeDialog(true)}
+								>
+									Merge Selected ({mergeSelection.length})
+								</Button>
+							</Box>
+
 							{/* Stored Pallets Table */}
 							<TableContainer component={Paper} sx={{ mb: 3 }}>
 								<Table>
 									<TableHead>
 										<TableRow sx={{ backgroundColor: "#f5f5f5" }}>
+											<TableCell padding="checkbox" />
+											<TableCell>
+												<strong>LPN</strong>
+											</TableCell>
 											<TableCell>
 												<strong>Item ID</strong>
 											</TableCell>
@@ -671,6 +883,14 @@ export default function Screen8() {
 									<TableBody>
 										{storedPallets.map((pallet) => (
 											<TableRow key={pallet.id}>
+												<TableCell padding="checkbox">
+													<Checkbox
+														checked={mergeSelection.includes(pallet.id)}
+														onChange={() => handleToggleMerge(pallet.id)}
+														inputProps={{ "aria-label": `Select pallet ${pallet.lpn} to merge` }}
+													/>
+												</TableCell>
+												<TableCell>{pallet.lpn}</TableCell>
 												<TableCell>{pallet.product?.item_id || "N/A"}</TableCell>
 												<TableCell>{pallet.product?.description || "N/A"}</TableCell>
 												<TableCell align="right">{pallet.qty}</TableCell>
@@ -683,6 +903,15 @@ export default function Screen8() {
 													>
 														Move
 													</Button>
+													<Button
+														variant="outlined"
+														size="small"
+														sx={{ ml: 1 }}
+														disabled={pallet.qty < 2}
+														onClick={() => setSplitPallet(pallet)}
+													>
+														Split
+													</Button>
 												</TableCell>
 											</TableRow>
 										))}
@@ -699,13 +928,21 @@ export default function Screen8() {
 				</>
 			)}
 
+			<PalletSplitDialog pallet={splitPallet} onClose={() => setSplitPallet(null)} onSplit={handleSplit} />
+			<PalletMergeDialog
+				pallets={storedPallets.filter((pallet) => mergeSelection.includes(pallet.id))}
+				open={showMergeDialog}
+				onClose={() => setShowMergeDialog(false)}
+				onMerge={handleMerge}
+			/>
+
 			{/* Location Selection Dialog */}
 			<Dialog open={showLocationDialog} onClose={() => setShowLocationDialog(false)} maxWidth="sm" fullWidth>
 				<DialogTitle>
 					{activeTab === 0 ? "Assign Location to Pallet" : "Move Pallet to New Location"}
 					{selectedPallet && (
 						<Typography variant="body2" color="textSecondary" sx={{ mt: 1 }}>
-							{selectedPallet.product?.item_id} - {selectedPallet.product?.description}
+							{selectedPallet.lpn} · {selectedPallet.product?.item_id} - {selectedPallet.product?.description}
 						</Typography>
 					)}
 					{activeTab === 1 && moveFromLocation && (
@@ -716,6 +953,8 @@ export default function Screen8() {
 				</DialogTitle>
 
 				<DialogContent sx={{ pt: 3 }}>
+					<ScanBar scanner={scanner} hint="Scan a location label to save" disabled={isSubmitting} />
+
 					{/* Location Conflict Warning */}
 					{locationConflict && (
 						<Alert severity="warning" sx={{ mb: 3 }}>
@@ -727,6 +966,31 @@ export default function Screen8() {
 					{/* Show only Option A and B initially */}
 					{locationSelection.isAisle === undefined && !locationSelection.rackNum ? (
 						<Box sx={{ mb: 4 }}>
+							{/* Suggested Locations */}
+							{suggestions.length > 0 && (
+								<Box sx={{ mb: 4 }}>
+									<Typography variant="h6" sx={{ mb: 2, fontWeight: "bold", color: "#2e7d32" }}>
+										Suggested Locations
+									</Typography>
+									<Box sx={{ display: "flex", flexDirection: "column", gap: 1 }}>
+										{suggestions.map((suggestion) => (
+											<Button
+												key={suggestion.location.location_id}
+												variant="outlined"
+												color="success"
+												onClick={() => handleSuggestionSelect(suggestion.location)}
+												sx={{ justifyContent: "space-between", textTransform: "none" }}
+											>
+												<strong>{suggestion.location_ids.join(" + ")}</strong>
+												<Typography variant="caption" color="textSecondary">
+													{suggestion.reasons.join(" · ") || "Empty slot"}
+												</Typography>
+											</Button>
+										))}
+									</Box>
+								</Box>
+							)}
+
 							<Typography variant="h6" sx={{ mb: 3, fontWeight: "bold", color: "#1976d2" }}>
 								Choose Location Type
 							</Typography>
@@ -857,10 +1121,10 @@ export default function Screen8() {
 							{!locationSelection.isAisle && (
 								<Box sx={{ mb: 4, pb: 3, borderBottom: "2px solid #e0e0e0" }}>
 									<Typography variant="h6" sx={{ mb: 2, fontWeight: "bold", color: "#1976d2" }}>
-										Step 2: Select Rack (1-8)
+										Step 2: Select Rack ({racks[0]}-{racks.at(-1)})
 									</Typography>
 									<ButtonGroup fullWidth size="small">
-										{[1, 2, 3, 4, 5, 6, 7, 8].map((rack) => (
+										{racks.map((rack) => (
 											<Button
 												key={rack}
 												variant={locationSelection.rackNum === rack ? "contained" : "outlined"}
@@ -876,14 +1140,27 @@ export default function Screen8() {
 								</Box>
 							)}
 
+							{/* Rack Map */}
+							{!locationSelection.isAisle && rackGrid && (
+								<Box sx={{ mb: 4, pb: 3, borderBottom: "2px solid #e0e0e0" }}>
+									<Typography variant="subtitle1" sx={{ mb: 1, fontWeight: "bold" }}>
+										Rack {rackGrid.rack} Map
+									</Typography>
+									<RackMap grid={rackGrid} selectedId={selectedLocationId} onSelect={handleMapSelect} />
+									<Box sx={{ mt: 1.5 }}>
+										<RackMapLegend />
+									</Box>
+								</Box>
+							)}
+
 							{/* Step 3: Level Selection */}
 							{!locationSelection.isAisle && locationSelection.rackNum && (
 								<Box sx={{ mb: 4, pb: 3, borderBottom: "2px solid #e0e0e0" }}>
 									<Typography variant="h6" sx={{ mb: 2, fontWeight: "bold", color: "#1976d2" }}>
-										Step 3: Select Level (1-4)
+										Step 3: Select Level ({levels[0]}-{levels.at(-1)})
 									</Typography>
 									<ButtonGroup fullWidth size="small">
-										{[1, 2, 3, 4].map((level) => (
+										{levels.map((level) => (
 											<Button
 												key={level}
 												variant={locationSelection.level === level ? "contained" : "outlined"}
@@ -919,6 +1196,7 @@ export default function Screen8() {
 												variant={locationSelection.position === pos ? "contained" : "outlined"}
 												size="small"
 												onClick={() => handlePositionSelect(pos)}
+												disabled={isSlotBlocked(pos)}
 												sx={{
 													fontWeight: locationSelection.position === pos ? "bold" : "normal",
 												}}
@@ -975,7 +1253,7 @@ export default function Screen8() {
 					<Button onClick={() => setShowLocationDialog(false)}>Cancel</Button>
 					<Button
 						variant="contained"
-						onClick={activeTab === 0 ? handleSaveLocation : handleSaveMove}
+						onClick={() => (activeTab === 0 ? handleSaveLocation() : handleSaveMove())}
 						disabled={isSubmitting}
 					>
 						{isSubmitting ? <CircularProgress size={20} /> : activeTab === 0 ? "Save Location" : "Move Pallet"}
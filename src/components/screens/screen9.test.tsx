@@ -18,11 +18,19 @@ import Screen9 from "./screen9";
 vi.mock("../../lib/api/wms-api", () => {
 	const shippingOrdersMock = {
 		getAll: vi.fn(),
+		getById: vi.fn(),
+		update: vi.fn(),
+	};
+	const palletsMock = {
+		getFiltered: vi.fn().mockResolvedValue([]),
 	};
 	return {
 		shippingOrders: shippingOrdersMock,
+		pallets: palletsMock,
+		subscribe: vi.fn().mockReturnValue(vi.fn()),
 		default: {
 			shippingOrders: shippingOrdersMock,
+			pallets: palletsMock,
 		},
 	};
 });
@@ -12,9 +12,10 @@
  * 4. Loading state while fetching
  * 5. Empty state if no pending orders
  * 6. Error handling
+ * 7. New orders and status changes show up live (realtime subscription, polling fallback)
  */
 
-import React, { useEffect, useState } from "react";
+import React, { useCallback, useEffect, useState } from "react";
 import {
 	Alert,
 	Box,
@@ -35,9 +36,10 @@ import { XCircleIcon } from "@phosphor-icons/react/dist/ssr/XCircle";
 import { useSnackbar } from "notistack";
 import { useNavigate } from "react-router-dom";
 
-import { shippingOrders } from "../../lib/api/wms-api";
-import { supabase } from "../../lib/auth/supabase-client";
+import { useRealtime } from "../../hooks/wms/use-realtime";
+import { pallets, shippingOrders } from "../../lib/api/wms-api";
 import type { ShippingOrder } from "../../types/domain";
+import { getErrorToastMessage } from "../core/notifications/utils";
 
 interface ShippingOrderCard {
 	id: string;
@@ -66,11 +68,11 @@ export default function Screen9() {
 	const [orderToCancel, setOrderToCancel] = useState<ShippingOrderCard | null>(null);
 	const [isCancelling, setIsCancelling] = useState(false);
 
-	// Load pending shipping orders
-	useEffect(() => {
-		const loadOrders = async () => {
+	// Load pending shipping orders (silent: refresh in place, without the spinner)
+	const loadOrders = useCallback(
+		async (silent = false) => {
 			try {
-				setIsLoading(true);
+				if (!silent) setIsLoading(true);
 				setError(null);
 
 				// Fetch all shipping orders
@@ -84,14 +86,9 @@ export default function Screen9() {
 				// Also add Completed orders that have Staged pallets (cancelled manifest scenario)
 				const completedOrdersWithStaged: ShippingOrder[] = [];
 				for (const order of allOrders.filter((order: ShippingOrder) => order.status === "Completed")) {
-					const { data: stagedPallets } = await supabase
-						.from("pallets")
-						.select("id")
-						.eq("shipping_order_id", order.id)
-						.eq("status", "Staged")
-						.limit(1);
-
-					if (stagedPallets && stagedPallets.length > 0) {
+					const stagedPallets = await pallets.getFiltered({ shipping_order_id: order.id, status: "Staged" });
+
+					if (stagedPallets.length > 0) {
 						completedOrdersWithStaged.push(order);
 					}
 				}
@@ -122,47 +119,45 @@ export default function Screen9() {
 				setOrders(cardData);
 			} catch (error_) {
 				console.error("Error loading orders:", error_);
-				const message = error_ instanceof Error ? error_.message : "Failed to load orders";
-				setError(message);
-				enqueueSnackbar(`Error: ${message}`, { variant: "error" });
+				if (!silent) {
+					const message = getErrorToastMessage(error_, "Failed to load orders");
+					setError(message);
+					enqueueSnackbar(`Error: ${message}`, { variant: "error" });
+				}
 			} finally {
-				setIsLoading(false);
+				if (!silent) setIsLoading(false);
 			}
-		};
+		},
+		[enqueueSnackbar]
+	);
 
+	useEffect(() => {
 		loadOrders();
-	}, [enqueueSnackbar]);
+	}, [loadOrders]);
+
+	// Orders created by Customer Service, and staged pallets freed by a cancelled manifest, appear without a reload
+	useRealtime(["shipping_orders", "shipping_order_lines", "pallets"], () => loadOrders(true));
 
 	const handleOrderClick = async (order: ShippingOrderCard) => {
 		// Smart Skip Logic: Check RemainingQty to determine if picking is needed
 		try {
 			// Get order lines to calculate requested quantities
-			const { data: orderLines, error: linesError } = await supabase
-				.from("shipping_order_lines")
-				.select("item_id, requested_qty")
-				.eq("shipping_order_id", order.id);
-
-			if (linesError) throw linesError;
+			const { lines: orderLines } = await shippingOrders.getById(order.id);
 
 			// Get all pallets assigned to this order to calculate picked quantities
-			const { data: assignedPallets, error: palletsError } = await supabase
-				.from("pallets")
-				.select("item_id, qty")
-				.eq("shipping_order_id", order.id);
-
-			if (palletsError) throw palletsError;
+			const assignedPallets = await pallets.getFiltered({ shipping_order_id: order.id });
 
 			// Calculate total requested vs total picked
 			const requestedMap = new Map();
 			const pickedMap = new Map();
 
 			// Build requested quantities map
-			for (const line of orderLines || []) {
+			for (const line of orderLines) {
 				requestedMap.set(line.item_id, line.requested_qty);
 			}
 
 			// Build picked quantities map
-			for (const pallet of assignedPallets || []) {
+			for (const pallet of assignedPallets) {
 				const current = pickedMap.get(pallet.item_id) || 0;
 				pickedMap.set(pallet.item_id, current + pallet.qty);
 			}
@@ -250,7 +245,7 @@ export default function Screen9() {
 			handleCloseCancelDialog();
 		} catch (error_) {
 			console.error("Error cancelling order:", error_);
-			const message = error_ instanceof Error ? error_.message : "Failed to cancel order";
+			const message = getErrorToastMessage(error_, "Failed to cancel order");
 			enqueueSnackbar(`Error: ${message}`, { variant: "error" });
 		} finally {
 			setIsCancelling(false);
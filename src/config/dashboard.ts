@@ -78,6 +78,24 @@ const createNavItems = () => {
 						href: paths.warehouseScreens.screen15,
 						icon: "trash",
 					},
+					{
+						key: "screen-16",
+						title: "Adjustments Report",
+						href: paths.warehouseScreens.screen16,
+						icon: "sliders-horizontal",
+					},
+					{
+						key: "screen-17",
+						title: "Write-Off Approvals",
+						href: paths.warehouseScreens.screen17,
+						icon: "file-x",
+					},
+					{
+						key: "screen-18",
+						title: "Cycle Counts",
+						href: paths.warehouseScreens.screen18,
+						icon: "calendar-check",
+					},
 				],
 			},
 			{
@@ -158,6 +176,26 @@ const createNavItems = () => {
 					},
 				],
 			},
+			{
+				key: "inventory-wh",
+				title: "Inventory",
+				icon: "package",
+				roles: ["Warehouse"],
+				items: [
+					{
+						key: "screen-15-wh",
+						title: "Inventory Adjustments",
+						href: paths.warehouseScreens.screen15,
+						icon: "trash",
+					},
+					{
+						key: "screen-19",
+						title: "Cycle Count",
+						href: paths.warehouseScreens.screen19,
+						icon: "calendar-check",
+					},
+				],
+			},
 			{
 				key: "outbound-wh",
 				title: "Outbound",
@@ -243,6 +281,12 @@ const createNavItems = () => {
 						href: paths.warehouseScreens.screen12,
 						icon: "truck",
 					},
+					{
+						key: "screen-19-admin",
+						title: "Cycle Count",
+						href: paths.warehouseScreens.screen19,
+						icon: "calendar-check",
+					},
 				],
 			}
 		);
@@ -0,0 +1,15 @@
+/**
+ * Put-Away Suggestion Rules
+ *
+ * Tunes the location suggestions on the Screen 8 put-away dialog; see
+ * src/lib/api/put-away.ts for how each rule scores a slot.
+ */
+
+import { DEFAULT_PUT_AWAY_RULES, type PutAwayRules } from "@/lib/api/put-away";
+
+export const putAwayRules: PutAwayRules = {
+	...DEFAULT_PUT_AWAY_RULES,
+
+	// Items kept on the floor whatever their pallet positions, e.g. "ITEM-001"
+	heavyItemIds: [],
+};
@@ -24,6 +24,9 @@ interface ImportMetaEnv {
 	VITE_SUPABASE_URL?: string;
 	VITE_SUPABASE_PUBLIC_KEY?: string;
 
+	// WMS data backend ("supabase" by default, "memory" for offline demos)
+	VITE_WMS_BACKEND?: string;
+
 	// Mapbox
 	VITE_MAPBOX_API_KEY?: string;
 
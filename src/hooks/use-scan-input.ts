@@ -0,0 +1,99 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { parseScan, playScanTone, type ParsedScan } from "@/utils/scan";
+
+export interface ScanFeedback {
+	status: "success" | "error";
+	message: string;
+}
+
+export interface ScanInputOptions {
+	/** Listen for scans (default true) */
+	enabled?: boolean;
+	/** Shortest keystroke burst treated as a scan (default 4) */
+	minLength?: number;
+	/** Longest gap between keystrokes of one scan, in ms (default 50; people type slower) */
+	maxKeyInterval?: number;
+}
+
+export interface ScanInputController {
+	/** Outcome of the last scan, for display */
+	feedback: ScanFeedback | null;
+	/** Handle text scanned by other means (camera, typed into a field) */
+	submit: (raw: string) => void;
+	/** Confirm a scan: success tone and message */
+	accept: (message: string) => void;
+	/** Refuse a scan (wrong pallet, wrong location): error tone and message */
+	reject: (message: string) => void;
+}
+
+function isEditable(target: EventTarget | null): boolean {
+	return (
+		target instanceof HTMLElement &&
+		(target.isContentEditable || ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName))
+	);
+}
+
+/**
+ * Hook to receive barcode scans
+ *
+ * Keyboard-wedge scanners type the barcode and press Enter within a few
+ * milliseconds; such bursts are caught anywhere on the page except in text
+ * fields, parsed and passed to onScan, which should call accept or reject.
+ *
+ * @param onScan Called with each parsed scan
+ * @param options Scan detection options
+ * @returns feedback of the last scan and functions to submit, accept and reject scans
+ */
+export function useScanInput(
+	onScan: (scan: ParsedScan) => void,
+	{ enabled = true, minLength = 4, maxKeyInterval = 50 }: ScanInputOptions = {}
+): ScanInputController {
+	const [feedback, setFeedback] = useState<ScanFeedback | null>(null);
+	const onScanRef = useRef(onScan);
+
+	useEffect(() => {
+		onScanRef.current = onScan;
+	}, [onScan]);
+
+	const submit = useCallback((raw: string) => {
+		if (raw.trim()) onScanRef.current(parseScan(raw));
+	}, []);
+
+	const accept = useCallback((message: string) => {
+		playScanTone("success");
+		setFeedback({ status: "success", message });
+	}, []);
+
+	const reject = useCallback((message: string) => {
+		playScanTone("error");
+		setFeedback({ status: "error", message });
+	}, []);
+
+	useEffect(() => {
+		if (!enabled) return;
+		let buffer = "";
+		let lastKeyAt = 0;
+
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (isEditable(event.target)) return;
+			if (event.timeStamp - lastKeyAt > maxKeyInterval) buffer = "";
+			lastKeyAt = event.timeStamp;
+
+			if (event.key === "Enter") {
+				if (buffer.length >= minLength) {
+					// Keep the scanner's Enter from pressing the focused button
+					event.preventDefault();
+					submit(buffer);
+				}
+				buffer = "";
+			} else if (event.key.length === 1 && !event.ctrlKey && !event.metaKey && !event.altKey) {
+				buffer += event.key;
+			}
+		};
+
+		globalThis.addEventListener("keydown", handleKeyDown, true);
+		return () => globalThis.removeEventListener("keydown", handleKeyDown, true);
+	}, [enabled, minLength, maxKeyInterval, submit]);
+
+	return { feedback, submit, accept, reject };
+}
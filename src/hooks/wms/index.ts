@@ -0,0 +1,13 @@
+export { createWmsQueryClient } from "./query-client";
+export { wmsKeys } from "./query-keys";
+export {
+	useFinishTally,
+	useReceivingOrder,
+	useReceivingOrderLines,
+	useShippingOrder,
+	useShippingOrders,
+	useUpdateShippingOrder,
+} from "./use-orders";
+export { useConfirmPallet, usePallet, usePallets, useUndoPallet, useUpdatePallet } from "./use-pallets";
+export { useProductVersions, useProductsByItemIds } from "./use-products";
+export { useRealtime } from "./use-realtime";
@@ -0,0 +1,35 @@
+/**
+ * WMS Query Client
+ *
+ * Shared React Query defaults for warehouse screens: data stays fresh for
+ * 30 seconds (screens mounted back-to-back reuse it instead of refetching)
+ * and reads that failed on a retryable error (network, concurrent update)
+ * retry once, which covers most Wi-Fi drops on the floor. Not found, RLS and
+ * validation errors fail straight away.
+ *
+ * @module hooks/wms/queryClient
+ */
+
+import { QueryClient } from "@tanstack/react-query";
+
+import { isRetryableError } from "@/lib/api/errors";
+
+/**
+ * Create a query client with the WMS defaults
+ *
+ * @returns New query client
+ */
+export function createWmsQueryClient(): QueryClient {
+	return new QueryClient({
+		defaultOptions: {
+			queries: {
+				staleTime: 30_000,
+				retry: (failureCount, error) => failureCount < 1 && isRetryableError(error),
+				refetchOnWindowFocus: false,
+			},
+			mutations: {
+				retry: 0,
+			},
+		},
+	});
+}
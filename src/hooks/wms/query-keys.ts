@@ -0,0 +1,38 @@
+/**
+ * WMS Query Keys
+ *
+ * One key factory for every wmsApi query, so hooks share cache entries and
+ * mutations can invalidate exactly the data they touched. Keys are nested:
+ * invalidating `wmsKeys.pallets.all` also invalidates every pallet list and
+ * detail.
+ *
+ * @module hooks/wms/queryKeys
+ */
+
+import type { PalletFilters } from "@/lib/api/wms-backend";
+
+export const wmsKeys = {
+	all: ["wms"] as const,
+	pallets: {
+		all: ["wms", "pallets"] as const,
+		lists: () => [...wmsKeys.pallets.all, "list"] as const,
+		list: (filters: PalletFilters) => [...wmsKeys.pallets.lists(), filters] as const,
+		details: () => [...wmsKeys.pallets.all, "detail"] as const,
+		detail: (id: string) => [...wmsKeys.pallets.details(), id] as const,
+	},
+	shippingOrders: {
+		all: ["wms", "shippingOrders"] as const,
+		lists: () => [...wmsKeys.shippingOrders.all, "list"] as const,
+		detail: (id: string) => [...wmsKeys.shippingOrders.all, "detail", id] as const,
+	},
+	receivingOrders: {
+		all: ["wms", "receivingOrders"] as const,
+		detail: (id: string) => [...wmsKeys.receivingOrders.all, "detail", id] as const,
+		lines: (id: string) => [...wmsKeys.receivingOrders.all, "lines", id] as const,
+	},
+	products: {
+		all: ["wms", "products"] as const,
+		byItemId: (itemId: string) => [...wmsKeys.products.all, "item", itemId] as const,
+		versions: (itemIds: string[]) => [...wmsKeys.products.all, "versions", itemIds] as const,
+	},
+};
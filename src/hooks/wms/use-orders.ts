@@ -0,0 +1,118 @@
+/**
+ * Receiving & Shipping Order Queries and Mutations
+ *
+ * @module hooks/wms/useOrders
+ */
+
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+
+import type { ShippingOrder, ShippingOrderLine } from "@/types/domain";
+import type { AuditOptions } from "@/lib/api/audit";
+import { receivingOrderLines, receivingOrders, shippingOrders } from "@/lib/api/wms-api";
+import type { FinishTallyResult } from "@/lib/api/wms-backend";
+
+import { wmsKeys } from "./query-keys";
+
+type ShippingOrderWithLines = ShippingOrder & { lines: ShippingOrderLine[] };
+
+/**
+ * One receiving order (with lines)
+ *
+ * @param id - Receiving order id (the query waits while undefined)
+ */
+export function useReceivingOrder(id: string | undefined) {
+	return useQuery({
+		queryKey: wmsKeys.receivingOrders.detail(id ?? ""),
+		queryFn: () => receivingOrders.getById(id as string),
+		enabled: !!id,
+	});
+}
+
+/**
+ * Lines of a receiving order
+ *
+ * @param id - Receiving order id (the query waits while undefined)
+ */
+export function useReceivingOrderLines(id: string | undefined) {
+	return useQuery({
+		queryKey: wmsKeys.receivingOrders.lines(id ?? ""),
+		queryFn: () => receivingOrderLines.getByReceivingOrderId(id as string),
+		enabled: !!id,
+	});
+}
+
+/**
+ * Finish the tally of a receiving order
+ *
+ * Refreshes the order, its pallets and the shipping orders a 100% SHIP-NOW
+ * tally moved to Loading.
+ */
+export function useFinishTally() {
+	const queryClient = useQueryClient();
+
+	return useMutation<FinishTallyResult, Error, string>({
+		mutationFn: (id) => receivingOrders.finishTally(id),
+		onSuccess: ({ order, loadingOrderIds }, id) => {
+			queryClient.setQueryData(wmsKeys.receivingOrders.detail(id), (cached: object | undefined) =>
+				cached ? { ...cached, ...order } : cached
+			);
+			queryClient.invalidateQueries({ queryKey: wmsKeys.pallets.lists() });
+			if (loadingOrderIds.length > 0) {
+				queryClient.invalidateQueries({ queryKey: wmsKeys.shippingOrders.all });
+			}
+		},
+	});
+}
+
+/**
+ * All shipping orders (with lines), newest first
+ */
+export function useShippingOrders() {
+	return useQuery({
+		queryKey: wmsKeys.shippingOrders.lists(),
+		queryFn: () => shippingOrders.getAll(),
+	});
+}
+
+/**
+ * One shipping order (with lines)
+ *
+ * @param id - Shipping order id (the query waits while undefined)
+ */
+export function useShippingOrder(id: string | undefined) {
+	return useQuery({
+		queryKey: wmsKeys.shippingOrders.detail(id ?? ""),
+		queryFn: () => shippingOrders.getById(id as string),
+		enabled: !!id,
+	});
+}
+
+/**
+ * Update a shipping order header; the cached order updates immediately
+ */
+export function useUpdateShippingOrder() {
+	const queryClient = useQueryClient();
+
+	return useMutation<
+		ShippingOrder,
+		Error,
+		{ id: string; updates: Partial<ShippingOrder>; options?: AuditOptions },
+		{ previous?: ShippingOrderWithLines }
+	>({
+		mutationFn: ({ id, updates, options }) => shippingOrders.update(id, updates, options),
+		onMutate: async ({ id, updates }) => {
+			const key = wmsKeys.shippingOrders.detail(id);
+			await queryClient.cancelQueries({ queryKey: key });
+			const previous = queryClient.getQueryData<ShippingOrderWithLines>(key);
+			if (previous) queryClient.setQueryData(key, { ...previous, ...updates });
+			return { previous };
+		},
+		onError: (_error, { id }, context) => {
+			if (context?.previous) queryClient.setQueryData(wmsKeys.shippingOrders.detail(id), context.previous);
+		},
+		onSettled: (_order, _error, { id }) => {
+			queryClient.invalidateQueries({ queryKey: wmsKeys.shippingOrders.detail(id) });
+			queryClient.invalidateQueries({ queryKey: wmsKeys.shippingOrders.lists() });
+		},
+	});
+}
@@ -0,0 +1,117 @@
+/**
+ * Pallet Hook Tests
+ *
+ * Runs the hooks against wmsApi with the in-memory adapter and checks the
+ * optimistic cache updates and rollbacks.
+ *
+ * @module hooks/wms/usePallets.test
+ */
+
+import React from "react";
+import { QueryClientProvider, type QueryClient } from "@tanstack/react-query";
+import { act, renderHook, waitFor } from "@testing-library/react";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import type { Pallet } from "@/types/domain";
+import { createMemoryBackend } from "@/lib/api/memory-backend";
+import { getBackend, pallets, setBackend } from "@/lib/api/wms-api";
+
+import { createWmsQueryClient } from "./query-client";
+import { wmsKeys } from "./query-keys";
+import { useConfirmPallet, usePallets, useUpdatePallet } from "./use-pallets";
+
+const NEW_PALLET = {
+	item_id: "ITEM-001",
+	qty: 50,
+	status: "Received" as const,
+	receiving_order_id: "ro-1",
+	is_cross_dock: false,
+};
+
+describe("pallet hooks", () => {
+	const previousBackend = getBackend();
+	let queryClient: QueryClient;
+
+	const wrapper = ({ children }: { children: React.ReactNode }) => (
+		<QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
+	);
+
+	beforeEach(async () => {
+		setBackend(createMemoryBackend({ storageKey: null }));
+		await getBackend().products.create({
+			item_id: "ITEM-001",
+			description: "Widget",
+			units_per_pallet: 50,
+			pallet_positions: 1,
+			active: true,
+		});
+		queryClient = createWmsQueryClient();
+	});
+
+	afterEach(() => {
+		vi.restoreAllMocks();
+		queryClient.clear();
+		setBackend(previousBackend);
+	});
+
+	it("shows a confirmed pallet in matching lists before the server answers", async () => {
+		const { result } = renderHook(
+			() => ({
+				tally: usePallets({ receiving_order_id: "ro-1" }),
+				stored: usePallets({ status: "Stored" }),
+				confirm: useConfirmPallet(),
+			}),
+			{ wrapper }
+		);
+		await waitFor(() => expect(result.current.tally.isSuccess && result.current.stored.isSuccess).toBe(true));
+
+		let release!: () => void;
+		const gate = new Promise<void>((resolve) => {
+			release = resolve;
+		});
+		const create = pallets.create;
+		vi.spyOn(pallets, "create").mockImplementation(async (input) => {
+			await gate;
+			return create(input);
+		});
+
+		act(() => {
+			result.current.confirm.mutate(NEW_PALLET);
+		});
+		await waitFor(() => expect(result.current.tally.data).toHaveLength(1));
+		expect(result.current.tally.data?.[0].id).toMatch(/^optimistic-/);
+		expect(result.current.stored.data).toEqual([]);
+
+		release();
+		await waitFor(() => expect(result.current.confirm.isSuccess).toBe(true));
+		await waitFor(() => expect(result.current.tally.data?.[0].id).not.toMatch(/^optimistic-/));
+		expect(result.current.tally.data).toHaveLength(1);
+	});
+
+	it("moves an updated pallet between cached lists and rolls back when the update fails", async () => {
+		const pallet = await pallets.create(NEW_PALLET);
+		const { result } = renderHook(
+			() => ({
+				received: usePallets({ status: "Received" }),
+				stored: usePallets({ status: "Stored" }),
+				update: useUpdatePallet(),
+			}),
+			{ wrapper }
+		);
+		await waitFor(() => expect(result.current.received.data).toHaveLength(1));
+
+		await act(() => result.current.update.mutateAsync({ id: pallet.id, updates: { status: "Stored" } }));
+		expect(result.current.received.data).toEqual([]);
+		expect(result.current.stored.data?.map((row: Pallet) => row.id)).toEqual([pallet.id]);
+
+		// Stored → Shipped is not a legal transition
+		await act(async () => {
+			await expect(
+				result.current.update.mutateAsync({ id: pallet.id, updates: { status: "Shipped" } })
+			).rejects.toThrow("Cannot change pallet status from Stored to Shipped");
+		});
+		expect(queryClient.getQueryData<Pallet[]>(wmsKeys.pallets.list({ status: "Stored" }))).toMatchObject([
+			{ id: pallet.id, status: "Stored" },
+		]);
+	});
+});
@@ -0,0 +1,190 @@
+/**
+ * Pallet Queries & Mutations
+ *
+ * Pallet lists are cached per filter set. Mutations patch every cached list
+ * the pallet belongs to before the request returns (optimistic update), roll
+ * back if it fails and refetch pallet lists once it settles.
+ *
+ * @module hooks/wms/usePallets
+ */
+
+import { useMutation, useQuery, useQueryClient, type QueryClient, type QueryKey } from "@tanstack/react-query";
+
+import type { Pallet } from "@/types/domain";
+import type { AuditOptions } from "@/lib/api/audit";
+import { matchesPalletFilters } from "@/lib/api/pallet-query";
+import { pallets } from "@/lib/api/wms-api";
+import type { PalletFilters, PalletUpdate } from "@/lib/api/wms-backend";
+
+import { wmsKeys } from "./query-keys";
+
+/** Cached pallet lists, restored when a mutation fails */
+type PalletListSnapshot = [QueryKey, Pallet[] | undefined][];
+
+interface PalletMutationContext {
+	snapshot: PalletListSnapshot;
+	/** Placeholder id of an optimistically created pallet */
+	tempId?: string;
+}
+
+/**
+ * Put a pallet into (or take it out of) every cached list, according to each list's filters
+ *
+ * @param queryClient - Query client
+ * @param id - Pallet id
+ * @param next - New pallet row, or null to remove it
+ */
+function setPalletInLists(queryClient: QueryClient, id: string, next: Pallet | null): void {
+	for (const [key, list] of queryClient.getQueriesData<Pallet[]>({ queryKey: wmsKeys.pallets.lists() })) {
+		if (!list) continue;
+		const filters = (key[3] ?? {}) as PalletFilters;
+		const belongs = next !== null && matchesPalletFilters(next, filters);
+		const present = list.some((pallet) => pallet.id === id);
+		if (belongs) {
+			queryClient.setQueryData(
+				key,
+				present ? list.map((pallet) => (pallet.id === id ? next : pallet)) : [...list, next]
+			);
+		} else if (present) {
+			queryClient.setQueryData(
+				key,
+				list.filter((pallet) => pallet.id !== id)
+			);
+		}
+	}
+}
+
+/**
+ * Find a pallet in the cache (detail first, then any list)
+ */
+function findCachedPallet(queryClient: QueryClient, id: string): Pallet | undefined {
+	const detail = queryClient.getQueryData<Pallet>(wmsKeys.pallets.detail(id));
+	if (detail) return detail;
+	for (const [, list] of queryClient.getQueriesData<Pallet[]>({ queryKey: wmsKeys.pallets.lists() })) {
+		const pallet = list?.find((row) => row.id === id);
+		if (pallet) return pallet;
+	}
+	return undefined;
+}
+
+/**
+ * Stop in-flight list fetches (they would overwrite the optimistic data) and snapshot the lists
+ */
+async function beginOptimistic(queryClient: QueryClient): Promise<PalletListSnapshot> {
+	await queryClient.cancelQueries({ queryKey: wmsKeys.pallets.lists() });
+	return queryClient.getQueriesData<Pallet[]>({ queryKey: wmsKeys.pallets.lists() });
+}
+
+function restoreSnapshot(queryClient: QueryClient, context: PalletMutationContext | undefined): void {
+	for (const [key, list] of context?.snapshot ?? []) {
+		queryClient.setQueryData(key, list);
+	}
+}
+
+/**
+ * All pallets matching the filters
+ *
+ * @param filters - Filter criteria (part of the cache key)
+ * @param options - Set enabled=false to wait for a dependency
+ */
+export function usePallets(filters: PalletFilters, options: { enabled?: boolean } = {}) {
+	return useQuery({
+		queryKey: wmsKeys.pallets.list(filters),
+		queryFn: () => pallets.getFiltered(filters),
+		enabled: options.enabled ?? true,
+	});
+}
+
+/**
+ * One pallet by id
+ *
+ * @param id - Pallet id (the query waits while undefined)
+ */
+export function usePallet(id: string | undefined) {
+	return useQuery({
+		queryKey: wmsKeys.pallets.detail(id ?? ""),
+		queryFn: () => pallets.getById(id as string),
+		enabled: !!id,
+	});
+}
+
+/**
+ * Confirm (create) a tallied pallet; it shows up in matching lists immediately
+ */
+export function useConfirmPallet() {
+	const queryClient = useQueryClient();
+
+	return useMutation<Pallet, Error, Omit<Pallet, "id" | "lpn" | "created_at">, PalletMutationContext>({
+		mutationFn: (input) => pallets.create(input),
+		onMutate: async (input) => {
+			const snapshot = await beginOptimistic(queryClient);
+			const tempId = `optimistic-${crypto.randomUUID()}`;
+			setPalletInLists(queryClient, tempId, { ...input, id: tempId, lpn: "", created_at: new Date().toISOString() });
+			return { snapshot, tempId };
+		},
+		onSuccess: (pallet, _input, context) => {
+			if (context?.tempId) setPalletInLists(queryClient, context.tempId, null);
+			setPalletInLists(queryClient, pallet.id, pallet);
+			queryClient.setQueryData(wmsKeys.pallets.detail(pallet.id), pallet);
+		},
+		onError: (_error, _input, context) => restoreSnapshot(queryClient, context),
+		onSettled: () => queryClient.invalidateQueries({ queryKey: wmsKeys.pallets.lists() }),
+	});
+}
+
+/**
+ * Update a pallet (status, location, order, manifest…); lists and detail update immediately
+ */
+export function useUpdatePallet() {
+	const queryClient = useQueryClient();
+
+	return useMutation<
+		Pallet,
+		Error,
+		{ id: string; updates: PalletUpdate; options?: AuditOptions },
+		PalletMutationContext & { detail?: Pallet }
+	>({
+		mutationFn: ({ id, updates, options }) => pallets.update(id, updates, options),
+		onMutate: async ({ id, updates }) => {
+			const snapshot = await beginOptimistic(queryClient);
+			const detail = findCachedPallet(queryClient, id);
+			if (detail) {
+				// null clears a column, same as the backend
+				const next = Object.fromEntries(
+					Object.entries({ ...detail, ...updates }).map(([field, value]) => [field, value ?? undefined])
+				) as unknown as Pallet;
+				setPalletInLists(queryClient, id, next);
+				queryClient.setQueryData(wmsKeys.pallets.detail(id), next);
+			}
+			return { snapshot, detail };
+		},
+		onSuccess: (pallet) => {
+			setPalletInLists(queryClient, pallet.id, pallet);
+			queryClient.setQueryData(wmsKeys.pallets.detail(pallet.id), pallet);
+		},
+		onError: (_error, { id }, context) => {
+			restoreSnapshot(queryClient, context);
+			if (context?.detail) queryClient.setQueryData(wmsKeys.pallets.detail(id), context.detail);
+		},
+		onSettled: () => queryClient.invalidateQueries({ queryKey: wmsKeys.pallets.lists() }),
+	});
+}
+
+/**
+ * Undo (delete) a confirmed pallet; it leaves every list immediately
+ */
+export function useUndoPallet() {
+	const queryClient = useQueryClient();
+
+	return useMutation<void, Error, { id: string; options?: AuditOptions }, PalletMutationContext>({
+		mutationFn: ({ id, options }) => pallets.delete(id, options),
+		onMutate: async ({ id }) => {
+			const snapshot = await beginOptimistic(queryClient);
+			setPalletInLists(queryClient, id, null);
+			return { snapshot };
+		},
+		onSuccess: (_result, { id }) => queryClient.removeQueries({ queryKey: wmsKeys.pallets.detail(id) }),
+		onError: (_error, _variables, context) => restoreSnapshot(queryClient, context),
+		onSettled: () => queryClient.invalidateQueries({ queryKey: wmsKeys.pallets.lists() }),
+	});
+}
@@ -0,0 +1,69 @@
+/**
+ * Product Queries
+ *
+ * @module hooks/wms/useProducts
+ */
+
+import { useCallback, useMemo } from "react";
+import { indexProductVersions, type ProductVersionIndex } from "@/utils/product-versions";
+import { useQueries, useQuery, type UseQueryResult } from "@tanstack/react-query";
+
+import type { Product } from "@/types/domain";
+import { products } from "@/lib/api/wms-api";
+
+import { wmsKeys } from "./query-keys";
+
+/**
+ * Products for a set of item ids, each cached on its own
+ *
+ * Unknown item ids are left out of the map rather than failing the batch.
+ *
+ * @param itemIds - Item ids (duplicates are fine)
+ * @returns Products keyed by the requested item id, and whether any are still loading
+ */
+export function useProductsByItemIds(itemIds: string[]): { productMap: Map<string, Product>; isLoading: boolean } {
+	const idsKey = [...new Set(itemIds)].join("\u0000");
+	const uniqueIds = useMemo(() => (idsKey ? idsKey.split("\u0000") : []), [idsKey]);
+
+	const combine = useCallback(
+		(results: UseQueryResult<Product | null>[]) => ({
+			productMap: new Map(
+				uniqueIds.flatMap((itemId, index) => {
+					const product = results[index]?.data;
+					return product ? [[itemId, product] as [string, Product]] : [];
+				})
+			),
+			isLoading: results.some((result) => result.isPending),
+		}),
+		[uniqueIds]
+	);
+
+	return useQueries({
+		queries: uniqueIds.map((itemId) => ({
+			queryKey: wmsKeys.products.byItemId(itemId),
+			queryFn: () => products.getByItemId(itemId).catch(() => null),
+			staleTime: 5 * 60_000,
+		})),
+		combine,
+	});
+}
+
+const EMPTY_INDEX: ProductVersionIndex = new Map();
+
+/**
+ * Pallet spec history for a set of item ids, grouped per item
+ *
+ * @param itemIds - Item ids (duplicates are fine)
+ * @returns Versions per item, and whether they are still loading
+ */
+export function useProductVersions(itemIds: string[]): { versions: ProductVersionIndex; isLoading: boolean } {
+	const uniqueIds = [...new Set(itemIds)].sort();
+	const query = useQuery({
+		queryKey: wmsKeys.products.versions(uniqueIds),
+		queryFn: () => products.getVersions(uniqueIds),
+		select: indexProductVersions,
+		enabled: uniqueIds.length > 0,
+		staleTime: 5 * 60_000,
+	});
+	return { versions: query.data ?? EMPTY_INDEX, isLoading: uniqueIds.length > 0 && query.isPending };
+}
@@ -0,0 +1,59 @@
+/**
+ * Realtime Subscription Hook
+ *
+ * @module hooks/wms/useRealtime
+ */
+
+import { useEffect, useRef } from "react";
+
+import type { SubscriptionInput } from "@/lib/api/realtime";
+import { subscribe } from "@/lib/api/wms-api";
+import type { WmsChange } from "@/lib/api/wms-backend";
+
+/** Quiet period before a burst of changes triggers onChange */
+const DEFAULT_DEBOUNCE_MS = 500;
+
+interface UseRealtimeOptions {
+	/** Set false to wait for a dependency (e.g. a selected order) */
+	enabled?: boolean;
+	/** Changes within this window are reported once */
+	debounceMs?: number;
+}
+
+/**
+ * Call onChange whenever rows of the watched tables change
+ *
+ * Changes are debounced, so a write touching many rows (finish tally, load a
+ * manifest) triggers one reload. onChange receives the last change of the burst.
+ *
+ * @param tables - Table name(s) and/or filtered subscriptions
+ * @param onChange - Usually a silent reload of the screen's data
+ * @param options - enabled / debounceMs
+ */
+export function useRealtime(
+	tables: SubscriptionInput,
+	onChange: (change: WmsChange) => void,
+	options: UseRealtimeOptions = {}
+): void {
+	const { enabled = true, debounceMs = DEFAULT_DEBOUNCE_MS } = options;
+	const onChangeRef = useRef(onChange);
+	onChangeRef.current = onChange;
+
+	// Callers usually pass a fresh array literal; resubscribe only when its content changes
+	const tablesKey = JSON.stringify(tables);
+
+	useEffect(() => {
+		if (!enabled) return;
+		let timer: ReturnType<typeof setTimeout> | undefined;
+
+		const unsubscribe = subscribe(JSON.parse(tablesKey) as SubscriptionInput, (change) => {
+			clearTimeout(timer);
+			timer = setTimeout(() => onChangeRef.current(change), debounceMs);
+		});
+
+		return () => {
+			clearTimeout(timer);
+			unsubscribe();
+		};
+	}, [tablesKey, enabled, debounceMs]);
+}
@@ -0,0 +1,202 @@
+/**
+ * Shipping Order Allocation Tests
+ *
+ * @module lib/api/allocation.test
+ */
+
+import { describe, expect, it } from "vitest";
+
+import type { Pallet, ShippingOrder } from "../../types/domain";
+import {
+	createAllocationLedger,
+	getLineAllocations,
+	getRemainingQty,
+	getStockShortfalls,
+	isAllocatableOrder,
+} from "./allocation";
+
+function order(
+	id: string,
+	created_at: string,
+	lines: Record<string, number>,
+	status: ShippingOrder["status"] = "Pending"
+): ShippingOrder {
+	return {
+		id,
+		order_ref: `ORD-${id}`,
+		shipment_type: "Hand_Delivery",
+		status,
+		created_at,
+		lines: Object.entries(lines).map(([item_id, requested_qty]) => ({
+			id: `${id}-${item_id}`,
+			shipping_order_id: id,
+			item_id,
+			requested_qty,
+		})),
+	};
+}
+
+function pallet(item_id: string, qty: number, overrides: Partial<Pallet> = {}): Pallet {
+	return {
+		id: `pallet-${item_id}-${qty}-${overrides.status ?? "Stored"}`,
+		lpn: "W1-P-000001",
+		item_id,
+		qty,
+		status: "Stored",
+		is_cross_dock: false,
+		created_at: "2026-01-01T00:00:00Z",
+		...overrides,
+	};
+}
+
+describe("line allocations", () => {
+	it("counts assigned pallets of every status except WriteOff", () => {
+		const o = order("A", "2026-01-01T00:00:00Z", { ITEM: 100 });
+		const assigned = [
+			pallet("ITEM", 10, { shipping_order_id: "A", status: "Stored" }),
+			pallet("ITEM", 10, { shipping_order_id: "A", status: "Staged" }),
+			pallet("ITEM", 10, { shipping_order_id: "A", status: "Loaded" }),
+			pallet("ITEM", 10, { shipping_order_id: "A", status: "Shipped" }),
+			pallet("ITEM", 10, { shipping_order_id: "A", status: "WriteOff" }),
+			pallet("ITEM", 10, { shipping_order_id: "B" }),
+			pallet("OTHER", 10, { shipping_order_id: "A" }),
+		];
+
+		expect(getLineAllocations(o, assigned)).toEqual([
+			{ orderId: "A", orderRef: "ORD-A", itemId: "ITEM", requestedQty: 100, allocatedQty: 40, remainingQty: 60 },
+		]);
+	});
+
+	it("combines lines for the same item so assigned pallets count once", () => {
+		const o: ShippingOrder = {
+			...order("A", "2026-01-01T00:00:00Z", {}),
+			lines: [
+				{ id: "A-1", shipping_order_id: "A", item_id: "ITEM", requested_qty: 50 },
+				{ id: "A-2", shipping_order_id: "A", item_id: "ITEM", requested_qty: 50 },
+			],
+		};
+		const assigned = [pallet("ITEM", 50, { shipping_order_id: "A" })];
+
+		expect(getLineAllocations(o, assigned)).toEqual([
+			{ orderId: "A", orderRef: "ORD-A", itemId: "ITEM", requestedQty: 100, allocatedQty: 50, remainingQty: 50 },
+		]);
+		expect(getRemainingQty(o, "ITEM", assigned)).toBe(50);
+		expect(createAllocationLedger([o], assigned).getRemainingQty("ITEM")).toBe(50);
+	});
+
+	it("never reports a negative RemainingQty for an over-allocated line", () => {
+		const o = order("A", "2026-01-01T00:00:00Z", { ITEM: 10 });
+		const assigned = [pallet("ITEM", 25, { shipping_order_id: "A" })];
+
+		expect(getRemainingQty(o, "ITEM", assigned)).toBe(0);
+		expect(getRemainingQty(o, "MISSING", assigned)).toBe(0);
+	});
+
+	it("only allocates to Pending and Picking orders", () => {
+		expect(isAllocatableOrder({ status: "Pending" })).toBe(true);
+		expect(isAllocatableOrder({ status: "Picking" })).toBe(true);
+		expect(isAllocatableOrder({ status: "Loading" })).toBe(false);
+		expect(isAllocatableOrder({ status: "Cancelled" })).toBe(false);
+	});
+});
+
+describe("allocation ledger", () => {
+	const orders = [
+		order("NEW", "2026-03-01T00:00:00Z", { ITEM: 30 }),
+		order("OLD", "2026-01-01T00:00:00Z", { ITEM: 10 }),
+		order("DONE", "2025-12-01T00:00:00Z", { ITEM: 50 }, "Shipped"),
+	];
+
+	it("serves the oldest open order first and skips closed orders", () => {
+		const ledger = createAllocationLedger(orders, []);
+
+		expect(ledger.getOpenLines("ITEM").map((line) => line.orderId)).toEqual(["OLD", "NEW"]);
+		expect(ledger.getRemainingQty("ITEM")).toBe(40);
+		expect(ledger.getRemainingQty("ITEM", "DONE")).toBe(0);
+	});
+
+	it("keeps input order for orders created at the same time", () => {
+		const ledger = createAllocationLedger(
+			[order("X", "2026-01-01T00:00:00Z", { ITEM: 5 }), order("Y", "2026-01-01T00:00:00Z", { ITEM: 5 })],
+			[]
+		);
+
+		expect(ledger.allocate("ITEM", 5)?.orderId).toBe("X");
+		expect(ledger.allocate("ITEM", 5)?.orderId).toBe("Y");
+	});
+
+	it("assigns a whole pallet to the oldest order that can take all of it", () => {
+		const ledger = createAllocationLedger(orders, []);
+
+		// OLD only needs 10, so a 20-unit pallet goes to NEW
+		expect(ledger.allocate("ITEM", 20)?.orderId).toBe("NEW");
+		expect(ledger.allocate("ITEM", 10)?.orderId).toBe("OLD");
+		expect(ledger.allocate("ITEM", 20)).toBeNull();
+		expect(ledger.allocate("ITEM", 10)?.remainingQty).toBe(0);
+		expect(ledger.getRemainingQty("ITEM")).toBe(0);
+	});
+
+	it("rejects empty pallets and unknown items", () => {
+		const ledger = createAllocationLedger(orders, []);
+
+		expect(ledger.allocate("ITEM", 0)).toBeNull();
+		expect(ledger.allocate("ITEM", -5)).toBeNull();
+		expect(ledger.allocate("OTHER", 1)).toBeNull();
+	});
+
+	it("takes already assigned pallets into account", () => {
+		const ledger = createAllocationLedger(orders, [pallet("ITEM", 10, { shipping_order_id: "OLD", status: "Staged" })]);
+
+		expect(ledger.getOpenLines("ITEM").map((line) => line.orderId)).toEqual(["NEW"]);
+		expect(ledger.allocate("ITEM", 10)?.orderId).toBe("NEW");
+	});
+
+	it("spreads a qty across orders oldest first and reports the leftover", () => {
+		const ledger = createAllocationLedger(orders, []);
+		const result = ledger.allocateFifo("ITEM", 45);
+
+		expect(result.allocations.map(({ line, qty }) => [line.orderId, qty])).toEqual([
+			["OLD", 10],
+			["NEW", 30],
+		]);
+		expect(result.unallocatedQty).toBe(5);
+		expect(ledger.allocateFifo("ITEM", 1)).toEqual({ allocations: [], unallocatedQty: 1 });
+		expect(ledger.allocateFifo("ITEM", -3)).toEqual({ allocations: [], unallocatedQty: 0 });
+	});
+
+	it("does not let callers change the ledger through returned lines", () => {
+		const ledger = createAllocationLedger(orders, []);
+		const [line] = ledger.getOpenLines("ITEM");
+		line.remainingQty = 0;
+
+		expect(ledger.getRemainingQty("ITEM", "OLD")).toBe(10);
+	});
+});
+
+describe("stock shortfalls", () => {
+	it("serves older open orders before the new order", () => {
+		const ledger = createAllocationLedger([order("OLD", "2026-01-01T00:00:00Z", { ITEM: 30 })], []);
+		const stock = [pallet("ITEM", 20), pallet("ITEM", 20), pallet("OTHER", 5)];
+
+		expect(
+			getStockShortfalls(
+				[
+					{ item_id: "ITEM", requested_qty: 5 },
+					{ item_id: "ITEM", requested_qty: 10 },
+					{ item_id: "OTHER", requested_qty: 5 },
+				],
+				ledger,
+				stock
+			)
+		).toEqual([{ itemId: "ITEM", requestedQty: 15, availableQty: 10 }]);
+	});
+
+	it("ignores assigned and written-off pallets", () => {
+		const ledger = createAllocationLedger([], []);
+		const stock = [pallet("ITEM", 10, { shipping_order_id: "OLD" }), pallet("ITEM", 10, { status: "WriteOff" })];
+
+		expect(getStockShortfalls([{ item_id: "ITEM", requested_qty: 1 }], ledger, stock)).toEqual([
+			{ itemId: "ITEM", requestedQty: 1, availableQty: 0 },
+		]);
+	});
+});
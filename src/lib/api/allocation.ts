@@ -0,0 +1,211 @@
+/**
+ * Shipping Order Allocation
+ *
+ * RemainingQty (spec 5.1) of a shipping order line is its requested_qty minus
+ * the qty on pallets already assigned to the order: picked, cross-docked
+ * (SHIP-NOW), staged, loaded or shipped. SHIP-NOW (Screen 7), picking
+ * (Screen 10) and the shipping CSV (Screen 3) all allocate through this
+ * module, oldest order first (FIFO).
+ *
+ * @module lib/api/allocation
+ */
+
+import type { Pallet, ShippingOrder } from "../../types/domain";
+
+/** Shipping order statuses that still take stock */
+export const ALLOCATABLE_ORDER_STATUSES: ShippingOrder["status"][] = ["Pending", "Picking"];
+
+/**
+ * Allocation state of one item on a shipping order (its lines combined)
+ */
+export interface LineAllocation {
+	orderId: string;
+	orderRef: string;
+	itemId: string;
+	requestedQty: number;
+	/** Qty on pallets assigned to the order */
+	allocatedQty: number;
+	/** requestedQty - allocatedQty, never below 0 */
+	remainingQty: number;
+}
+
+/**
+ * Result of spreading a qty across orders
+ */
+export interface FifoAllocation {
+	allocations: { line: LineAllocation; qty: number }[];
+	/** Qty no open order needs */
+	unallocatedQty: number;
+}
+
+/**
+ * Running allocation over a set of shipping orders
+ *
+ * `allocate` and `allocateFifo` reduce RemainingQty as they go, so planning
+ * several pallets in a row never over-assigns an order.
+ */
+export interface AllocationLedger {
+	/** Lines for the item with RemainingQty > 0, oldest order first */
+	getOpenLines(itemId: string): LineAllocation[];
+	/** RemainingQty for the item on one order, or across all open orders */
+	getRemainingQty(itemId: string, orderId?: string): number;
+	/** Assign a whole pallet to the oldest order that can take all of it */
+	allocate(itemId: string, qty: number): LineAllocation | null;
+	/** Spread a qty across open orders, oldest first */
+	allocateFifo(itemId: string, qty: number): FifoAllocation;
+}
+
+/**
+ * Check whether an order still takes stock (Pending or Picking)
+ */
+export function isAllocatableOrder(order: Pick<ShippingOrder, "status">): boolean {
+	return ALLOCATABLE_ORDER_STATUSES.includes(order.status);
+}
+
+/**
+ * Qty of an item on pallets assigned to an order (written-off pallets do not count)
+ */
+export function getAllocatedQty(pallets: Pallet[], orderId: string, itemId: string): number {
+	return pallets
+		.filter((p) => p.shipping_order_id === orderId && p.item_id === itemId && p.status !== "WriteOff")
+		.reduce((sum, p) => sum + p.qty, 0);
+}
+
+/**
+ * Allocation state of every item on an order
+ *
+ * Pallets are assigned to the order, not to a line, so lines for the same
+ * item are combined into one allocation (in the order the item first appears).
+ *
+ * @param order - Order with its lines
+ * @param pallets - Pallets assigned to the order (others are ignored)
+ */
+export function getLineAllocations(order: ShippingOrder, pallets: Pallet[]): LineAllocation[] {
+	const requested = new Map<string, number>();
+	for (const line of order.lines ?? []) {
+		requested.set(line.item_id, (requested.get(line.item_id) ?? 0) + line.requested_qty);
+	}
+	return [...requested].map(([itemId, requestedQty]) => {
+		const allocatedQty = getAllocatedQty(pallets, order.id, itemId);
+		return {
+			orderId: order.id,
+			orderRef: order.order_ref,
+			itemId,
+			requestedQty,
+			allocatedQty,
+			remainingQty: Math.max(0, requestedQty - allocatedQty),
+		};
+	});
+}
+
+/**
+ * RemainingQty of an item on one order (0 when the order has no line for it)
+ */
+export function getRemainingQty(order: ShippingOrder, itemId: string, pallets: Pallet[]): number {
+	return getLineAllocations(order, pallets).find((line) => line.itemId === itemId)?.remainingQty ?? 0;
+}
+
+/**
+ * Sort orders oldest first; orders created at the same time keep their input order
+ */
+function byCreatedAt(a: ShippingOrder, b: ShippingOrder): number {
+	return new Date(a.created_at).getTime() - new Date(b.created_at).getTime();
+}
+
+/**
+ * Move qty from a line's remaining to its allocated qty
+ */
+function take(line: LineAllocation, qty: number): void {
+	line.allocatedQty += qty;
+	line.remainingQty -= qty;
+}
+
+/**
+ * Start a running allocation over the open (Pending/Picking) orders
+ *
+ * @param orders - Shipping orders with their lines; closed orders are skipped
+ * @param pallets - Pallets assigned to those orders
+ */
+export function createAllocationLedger(orders: ShippingOrder[], pallets: Pallet[]): AllocationLedger {
+	const lines = orders
+		.filter((order) => isAllocatableOrder(order))
+		.sort(byCreatedAt)
+		.flatMap((order) => getLineAllocations(order, pallets));
+
+	const getOpenLines = (itemId: string) => lines.filter((line) => line.itemId === itemId && line.remainingQty > 0);
+
+	return {
+		getOpenLines: (itemId) => getOpenLines(itemId).map((line) => ({ ...line })),
+
+		getRemainingQty(itemId, orderId) {
+			return getOpenLines(itemId)
+				.filter((line) => orderId === undefined || line.orderId === orderId)
+				.reduce((sum, line) => sum + line.remainingQty, 0);
+		},
+
+		allocate(itemId, qty) {
+			if (qty <= 0) return null;
+			const line = getOpenLines(itemId).find((open) => open.remainingQty >= qty);
+			if (!line) return null;
+			take(line, qty);
+			return { ...line };
+		},
+
+		allocateFifo(itemId, qty) {
+			const allocations: FifoAllocation["allocations"] = [];
+			let left = Math.max(0, qty);
+			for (const line of getOpenLines(itemId)) {
+				if (left === 0) break;
+				const portion = Math.min(left, line.remainingQty);
+				take(line, portion);
+				allocations.push({ line: { ...line }, qty: portion });
+				left -= portion;
+			}
+			return { allocations, unallocatedQty: left };
+		},
+	};
+}
+
+/**
+ * An item a shipping order asks for more of than the free stock covers
+ */
+export interface StockShortfall {
+	itemId: string;
+	requestedQty: number;
+	/** Free stock: unassigned pallets minus what older open orders still need */
+	availableQty: number;
+}
+
+/**
+ * Check a new order's lines against free stock
+ *
+ * Older open orders are served first (FIFO), so their RemainingQty is taken
+ * off the unassigned stock before the new order is covered.
+ *
+ * @param lines - Lines of the new order (an item may appear more than once)
+ * @param ledger - Allocation over the open orders
+ * @param stockPallets - Unassigned pallets in stock
+ * @returns Items that cannot be covered in full
+ */
+export function getStockShortfalls(
+	lines: { item_id: string; requested_qty: number }[],
+	ledger: AllocationLedger,
+	stockPallets: Pallet[]
+): StockShortfall[] {
+	const requested = new Map<string, number>();
+	for (const line of lines) {
+		requested.set(line.item_id, (requested.get(line.item_id) ?? 0) + line.requested_qty);
+	}
+
+	const shortfalls: StockShortfall[] = [];
+	for (const [itemId, requestedQty] of requested) {
+		const onHand = stockPallets
+			.filter((p) => p.item_id === itemId && !p.shipping_order_id && p.status !== "WriteOff")
+			.reduce((sum, p) => sum + p.qty, 0);
+		const availableQty = Math.max(0, onHand - ledger.getRemainingQty(itemId));
+		if (availableQty < requestedQty) {
+			shortfalls.push({ itemId, requestedQty, availableQty });
+		}
+	}
+	return shortfalls;
+}
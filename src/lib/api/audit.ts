@@ -0,0 +1,155 @@
+/**
+ * Audit Trail Helpers
+ *
+ * The backend records an audit event for every pallet, order and manifest
+ * mutation in the same transaction as the change: who did it (the signed-in
+ * actor), what changed (before/after of the changed fields) and why (optional
+ * reason). In Supabase the wms_audit_row trigger writes them; these helpers
+ * are its twin in the memory adapter, which also uses the in-process filter.
+ *
+ * @module lib/api/audit
+ */
+
+import type { AuditEntityType, AuditEvent } from "../../types/domain";
+import type { StatusEntity } from "./status-machine";
+import type { AuditEventFilters, AuditEventInput } from "./wms-backend";
+
+/** Rows returned by an audit query that does not set a limit */
+export const DEFAULT_AUDIT_LIMIT = 500;
+
+/** Audit entity type of each state machine entity */
+export const AUDIT_ENTITY_TYPES: Record<StatusEntity, AuditEntityType> = {
+	receivingOrder: "receiving_order",
+	pallet: "pallet",
+	shippingOrder: "shipping_order",
+	manifest: "manifest",
+};
+
+/**
+ * Signed-in user recorded as the actor of audit events
+ */
+export interface AuditActor {
+	id: string;
+	email: string;
+}
+
+/**
+ * Extra context accepted by audited mutations (sent as the x-audit-reason header in Supabase)
+ */
+export interface AuditOptions {
+	/** Why the change was made (write-off reason, correction note, …) */
+	reason?: string;
+}
+
+let currentActor: AuditActor | null = null;
+
+/**
+ * Set the user recorded on audit events (called by AuthProvider on sign-in/out)
+ *
+ * @param actor - Signed-in user, or null when signed out
+ */
+export function setAuditActor(actor: AuditActor | null): void {
+	currentActor = actor;
+}
+
+/**
+ * Get the user currently recorded on audit events
+ *
+ * @returns Signed-in user, or null
+ */
+export function getAuditActor(): AuditActor | null {
+	return currentActor;
+}
+
+/**
+ * Pick the fields an update changed, old and new values side by side
+ *
+ * Values are compared by content (container_photos is a list); fields whose
+ * value did not change are left out.
+ *
+ * @param before - Row before the update
+ * @param after - Row after the update
+ * @param fields - Fields to compare
+ * @returns Changed fields, or null if nothing changed
+ */
+export function diffFields(
+	before: object,
+	after: object,
+	fields: string[]
+): { before: Record<string, unknown>; after: Record<string, unknown> } | null {
+	const oldRow = before as Record<string, unknown>;
+	const newRow = after as Record<string, unknown>;
+	const changed = fields.filter(
+		(field) => JSON.stringify(oldRow[field] ?? null) !== JSON.stringify(newRow[field] ?? null)
+	);
+	if (changed.length === 0) return null;
+	return {
+		before: Object.fromEntries(changed.map((field) => [field, oldRow[field] ?? null])),
+		after: Object.fromEntries(changed.map((field) => [field, newRow[field] ?? null])),
+	};
+}
+
+/**
+ * Name the kind of change for the audit trail (when the operation does not name it)
+ *
+ * @param entityType - Entity that changed
+ * @param after - Changed fields after the update
+ * @returns write_off, status_change, move or update
+ */
+export function getUpdateAction(entityType: AuditEntityType, after: Record<string, unknown>): string {
+	if (entityType === "pallet" && after.status === "WriteOff") return "write_off";
+	if ("status" in after) return "status_change";
+	if (entityType === "pallet" && "location_id" in after) return "move";
+	return "update";
+}
+
+/**
+ * Build an audit event stamped with the current actor
+ *
+ * @param entityType - Entity that changed
+ * @param entityId - Its id
+ * @param action - Kind of change
+ * @param change - Changed fields before/after
+ * @param options - Reason for the change
+ * @returns Event without its id and timestamp
+ */
+export function buildAuditEvent(
+	entityType: AuditEntityType,
+	entityId: string,
+	action: string,
+	change: { before: Record<string, unknown> | null; after: Record<string, unknown> | null },
+	options?: AuditOptions
+): AuditEventInput {
+	return {
+		entity_type: entityType,
+		entity_id: entityId,
+		action,
+		actor_id: currentActor?.id ?? null,
+		actor_email: currentActor?.email ?? null,
+		before: change.before,
+		after: change.after,
+		reason: options?.reason?.trim() || null,
+	};
+}
+
+/**
+ * Check an audit event against search criteria
+ *
+ * The actor matches part of the email, ignoring case; the date range includes both ends.
+ *
+ * @param event - Audit event
+ * @param filters - Search criteria
+ * @returns True if the event matches every given filter
+ */
+export function matchesAuditFilters(event: AuditEvent, filters: AuditEventFilters): boolean {
+	if (filters.entity_type && event.entity_type !== filters.entity_type) return false;
+	if (filters.entity_id && event.entity_id !== filters.entity_id.trim()) return false;
+	if (filters.action && event.action !== filters.action) return false;
+	if (filters.actor && !(event.actor_email ?? "").toLowerCase().includes(filters.actor.trim().toLowerCase())) {
+		return false;
+	}
+	const time = Date.parse(event.created_at);
+	if (filters.created_at?.from && time < Date.parse(filters.created_at.from)) return false;
+	if (filters.created_at?.to && time > Date.parse(filters.created_at.to)) return false;
+	return true;
+}
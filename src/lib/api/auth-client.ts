@@ -10,6 +10,8 @@ export interface AuthUser {
 	email: string;
 	name: string;
 	role: string;
+	/** Customer Service lead (may approve write-offs) */
+	is_lead: boolean;
 }
 
 /**
@@ -89,7 +91,7 @@ export const authClient = {
 			// Fetch user profile from profiles table
 			const { data: profileData, error: profileError } = await supabase
 				.from("profiles")
-				.select("id, name, email, role")
+				.select("id, name, email, role, is_lead")
 				.eq("id", authUser.id)
 				.single();
 
@@ -108,6 +110,7 @@ export const authClient = {
 				email: profileData.email,
 				name: profileData.name,
 				role: profileData.role,
+				is_lead: profileData.is_lead ?? false,
 			};
 
 			return user;
@@ -0,0 +1,46 @@
+/**
+ * Cycle Count Tests
+ *
+ * @module lib/api/cycleCounts.test
+ */
+
+import { describe, expect, it } from "vitest";
+
+import type { Pallet } from "../../types/domain";
+import { findCountedPallet } from "./cycle-counts";
+
+function pallet(id: string, lpn: string): Pallet {
+	return {
+		id,
+		lpn,
+		item_id: "ITEM-1",
+		qty: 10,
+		status: "Stored",
+		is_cross_dock: false,
+		location_id: "W1-1-1-A",
+		created_at: "2026-10-01T00:00:00Z",
+	};
+}
+
+const FIRST = pallet("00000000-0000-4000-8000-0000aaaa1234", "W1-P-000001");
+const SECOND = pallet("00000000-0000-4000-8000-0000bbbb1234", "W1-P-000002");
+const THIRD = pallet("00000000-0000-4000-8000-1111aaaa1234", "W1-P-000003");
+const PALLETS = [FIRST, SECOND, THIRD];
+
+describe("findCountedPallet", () => {
+	it("finds a pallet by full ID, LPN or a unique ID suffix", () => {
+		expect(findCountedPallet(PALLETS, FIRST.id.toUpperCase())).toBe(FIRST);
+		expect(findCountedPallet(PALLETS, " w1-p-000002 ")).toBe(SECOND);
+		expect(findCountedPallet(PALLETS, "bbbb1234")).toBe(SECOND);
+	});
+
+	it("finds nothing for a short or unknown reference", () => {
+		expect(findCountedPallet(PALLETS, "bb1234")).toBeUndefined();
+		expect(findCountedPallet(PALLETS, "cccc1234")).toBeUndefined();
+	});
+
+	it("rejects a suffix that more than one pallet ID ends with", () => {
+		expect(() => findCountedPallet(PALLETS, "aaaa1234")).toThrow(/ambiguous: 2 pallets match/);
+		expect(findCountedPallet(PALLETS, "0000aaaa1234")).toBe(FIRST);
+	});
+});
@@ -0,0 +1,241 @@
+/**
+ * Cycle Count Rules
+ *
+ * A cycle count task covers a rack, a range of rack locations (in the
+ * rack/level/position order locations.resolve uses) or every location holding
+ * an item. Warehouse counts it blind: for each location they enter the
+ * pallets they find and their qty, without seeing what the system expects.
+ * The submitted count is compared with the system, one line per pallet:
+ * - counted with a different qty → qty variance
+ * - counted at another location → misplaced
+ * - expected but not counted → missing (counted qty 0)
+ *
+ * Customer Service approves or rejects the variances. Approval posts a Count
+ * Correction adjustment per qty variance, moves misplaced pallets to where
+ * they were counted and requests a write-off of missing pallets.
+ *
+ * Both backends apply these rules inside their transaction (the Supabase RPC
+ * functions repeat them in SQL).
+ *
+ * @module lib/api/cycleCounts
+ */
+
+import type {
+	AdjustmentReason,
+	CycleCount,
+	CycleCountLine,
+	CycleCountScope,
+	Location,
+	Pallet,
+	WriteOffReason,
+} from "../../types/domain";
+import { ConflictError, ValidationError } from "./errors";
+import { isReshapeable } from "./pallet-lineage";
+import type { CycleCountEntry, CycleCountFilters, CycleCountInput } from "./wms-backend";
+
+/** Scopes, in the order they are offered */
+export const CYCLE_COUNT_SCOPES = ["Rack", "Range", "Item"] as const satisfies readonly CycleCountScope[];
+
+/** Reason of the adjustments and write-off requests an approved count posts */
+export const CYCLE_COUNT_REASON = "Count Correction" satisfies AdjustmentReason & WriteOffReason;
+
+/**
+ * Order rack locations by rack, level, then position (aisle locations last)
+ */
+export function compareLocations(a: Location, b: Location): number {
+	if (a.type !== b.type) return a.type === "RACK" ? -1 : 1;
+	return (
+		(a.rack ?? 0) - (b.rack ?? 0) ||
+		(a.level ?? 0) - (b.level ?? 0) ||
+		(a.position ?? "").localeCompare(b.position ?? "") ||
+		a.location_id.localeCompare(b.location_id)
+	);
+}
+
+/**
+ * Check whether a pallet sits at a location where it can be counted
+ *
+ * Loaded, shipped, written-off and merged pallets are not on the floor.
+ */
+export function isCountable(pallet: Pallet): boolean {
+	return !!pallet.location_id && isReshapeable(pallet);
+}
+
+/**
+ * Work out the locations a new count task covers
+ *
+ * @param count - Scope of the task
+ * @param locations - All locations
+ * @param pallets - All pallets (for the Item scope)
+ * @returns Location IDs in counting order
+ * @throws ValidationError if the scope is incomplete or covers no locations
+ */
+export function getCountLocationIds(
+	count: Pick<CycleCountInput, "scope" | "rack" | "from_location_id" | "to_location_id" | "item_id">,
+	locations: Location[],
+	pallets: Pallet[]
+): string[] {
+	let covered: Location[];
+	if (count.scope === "Rack") {
+		if (!count.rack) {
+			throw new ValidationError("Rack is required", { fieldErrors: { rack: "Rack is required" } });
+		}
+		covered = locations.filter((l) => l.type === "RACK" && l.rack === count.rack);
+	} else if (count.scope === "Range") {
+		const from = locations.find((l) => l.location_id === count.from_location_id && l.type === "RACK");
+		const to = locations.find((l) => l.location_id === count.to_location_id && l.type === "RACK");
+		if (!from || !to) {
+			throw new ValidationError("Range must start and end at a rack location", {
+				fieldErrors: {
+					...(from ? {} : { from_location_id: "Not a rack location" }),
+					...(to ? {} : { to_location_id: "Not a rack location" }),
+				},
+			});
+		}
+		const [first, last] = compareLocations(from, to) <= 0 ? [from, to] : [to, from];
+		covered = locations.filter(
+			(l) => l.type === "RACK" && compareLocations(l, first) >= 0 && compareLocations(l, last) <= 0
+		);
+	} else {
+		if (!count.item_id) {
+			throw new ValidationError("Item is required", { fieldErrors: { item_id: "Item is required" } });
+		}
+		const held = new Set(
+			pallets.filter((p) => p.item_id === count.item_id && isCountable(p)).map((p) => p.location_id)
+		);
+		covered = locations.filter((l) => held.has(l.location_id));
+	}
+
+	// Retired locations hold nothing to count
+	covered = covered.filter((l) => l.is_active !== false);
+	if (covered.length === 0) {
+		throw new ValidationError("There are no locations to count in this scope");
+	}
+	return covered.sort(compareLocations).map((l) => l.location_id);
+}
+
+/**
+ * Find the pallet a counter entered, by full ID, LPN or the last 8 characters of its ID
+ *
+ * @returns The pallet, or undefined if none matches
+ * @throws ValidationError if the characters entered end more than one pallet ID
+ */
+export function findCountedPallet(pallets: Pallet[], ref: string): Pallet | undefined {
+	const id = ref.trim().toLowerCase();
+	const exact = pallets.find((p) => p.id.toLowerCase() === id || p.lpn.toLowerCase() === id);
+	if (exact || id.length < 8) return exact;
+	const matches = pallets.filter((p) => p.id.toLowerCase().endsWith(id));
+	if (matches.length > 1) {
+		throw new ValidationError(
+			`Pallet id ${ref} is ambiguous: ${matches.length} pallets match; enter the full id or the LPN`
+		);
+	}
+	return matches[0];
+}
+
+/**
+ * Compare a blind count with the system
+ *
+ * @param count - The Open count task
+ * @param pallets - All pallets
+ * @param entries - Pallets counted on the tablet
+ * @returns One line per counted pallet, plus a line with counted qty 0 per expected pallet not counted
+ * @throws ValidationError if an entry is outside the task, unknown, not countable or counted twice
+ */
+export function buildCountLines(
+	count: Pick<CycleCount, "scope" | "item_id" | "location_ids">,
+	pallets: Pallet[],
+	entries: CycleCountEntry[]
+): Omit<CycleCountLine, "id" | "cycle_count_id">[] {
+	const locationIds = new Set(count.location_ids);
+	const belongs = (pallet: Pallet) => count.scope !== "Item" || pallet.item_id === count.item_id;
+
+	const counted = new Map<string, { pallet: Pallet; entry: CycleCountEntry }>();
+	for (const entry of entries) {
+		if (!locationIds.has(entry.location_id)) {
+			throw new ValidationError(`Location ${entry.location_id} is not part of this count`);
+		}
+		if (!Number.isInteger(entry.qty) || entry.qty <= 0) {
+			throw new ValidationError(`Qty of pallet ${entry.pallet_id} must be a whole number above 0`);
+		}
+		const pallet = findCountedPallet(pallets, entry.pallet_id);
+		if (!pallet) {
+			throw new ValidationError(`Pallet ${entry.pallet_id} not found`);
+		}
+		if (!isReshapeable(pallet)) {
+			throw new ValidationError(`Pallet ${entry.pallet_id} is ${pallet.manifest_id ? "loaded" : pallet.status}`);
+		}
+		if (!belongs(pallet)) {
+			throw new ValidationError(`Pallet ${entry.pallet_id} is ${pallet.item_id}, not ${count.item_id}`);
+		}
+		if (counted.has(pallet.id)) {
+			throw new ValidationError(`Pallet ${entry.pallet_id} was counted twice`);
+		}
+		counted.set(pallet.id, { pallet, entry });
+	}
+
+	const lines = [...counted.values()].map(({ pallet, entry }) => ({
+		pallet_id: pallet.id,
+		item_id: pallet.item_id,
+		location_id: entry.location_id,
+		system_location_id: pallet.location_id ?? null,
+		system_qty: pallet.qty,
+		counted_qty: entry.qty,
+		qty_variance: entry.qty - pallet.qty,
+	}));
+	const missing = pallets
+		.filter((p) => isCountable(p) && locationIds.has(p.location_id as string) && belongs(p) && !counted.has(p.id))
+		.map((pallet) => ({
+			pallet_id: pallet.id,
+			item_id: pallet.item_id,
+			location_id: null,
+			system_location_id: pallet.location_id ?? null,
+			system_qty: pallet.qty,
+			counted_qty: 0,
+			qty_variance: -pallet.qty,
+		}));
+	return [...lines, ...missing];
+}
+
+/**
+ * Check whether a line differs from the system (qty, location or missing)
+ */
+export function hasVariance(
+	line: Pick<CycleCountLine, "qty_variance" | "location_id" | "system_location_id">
+): boolean {
+	return line.qty_variance !== 0 || line.location_id !== line.system_location_id;
+}
+
+/**
+ * Check a count is in the status an action needs
+ *
+ * @param count - Cycle count
+ * @param status - Required status
+ * @param action - What is being done, for the message
+ * @throws ConflictError if the count is in another status
+ */
+export function assertCountStatus(count: CycleCount, status: CycleCount["status"], action: string): void {
+	if (count.status !== status) {
+		throw new ConflictError(`Cannot ${action} a cycle count that is ${count.status}`);
+	}
+}
+
+/**
+ * Short description of what a count covers, e.g. "Rack 3" or "W1-1-1-A – W1-1-4-T"
+ */
+export function describeCountScope(
+	count: Pick<CycleCount, "scope" | "rack" | "from_location_id" | "to_location_id" | "item_id">
+): string {
+	if (count.scope === "Rack") return `Rack ${count.rack}`;
+	if (count.scope === "Range") return `${count.from_location_id} – ${count.to_location_id}`;
+	return `Item ${count.item_id}`;
+}
+
+/**
+ * Check a cycle count against search criteria
+ *
+ * Only the status list is filtered on; without one every count matches.
+ */
+export function matchesCycleCountFilters(count: CycleCount, filters: CycleCountFilters): boolean {
+	return !filters.status || filters.status.includes(count.status);
+}
@@ -0,0 +1,116 @@
+/**
+ * API Error Tests
+ *
+ * @module lib/api/errors.test
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { getErrorToastMessage, MESSAGE_TEMPLATES } from "@/components/core/notifications/utils";
+
+import {
+	ConflictError,
+	isRetryableError,
+	isWmsError,
+	NetworkError,
+	NotFoundError,
+	PermissionDeniedError,
+	toWmsError,
+	ValidationError,
+	WmsError,
+} from "./errors";
+import { InvalidStatusTransitionError } from "./status-machine";
+
+describe("toWmsError", () => {
+	it("maps Postgres and PostgREST codes onto the hierarchy", () => {
+		const cases: [object, new (...args: never[]) => WmsError, string][] = [
+			[{ code: "PGRST116", message: "Cannot coerce the result to a single JSON object" }, NotFoundError, "not_found"],
+			[{ code: "P0002", message: "Manifest not found" }, NotFoundError, "not_found"],
+			[
+				{ code: "42501", message: "new row violates row-level security policy" },
+				PermissionDeniedError,
+				"permission_denied",
+			],
+			[{ code: "PGRST301", message: "JWT expired" }, PermissionDeniedError, "unauthenticated"],
+			[{ code: "23505", message: "duplicate key value" }, ConflictError, "unique_violation"],
+			[{ code: "P0001", message: "Manifest is already Closed" }, ConflictError, "invalid_state"],
+			[{ code: "40001", message: "could not serialize access" }, ConflictError, "concurrent_update"],
+			[{ code: "23503", message: "violates foreign key constraint" }, ValidationError, "foreign_key_violation"],
+			[{ code: "22P02", message: "invalid input syntax for type uuid" }, ValidationError, "validation"],
+			[{ code: "08006", message: "connection failure" }, NetworkError, "network"],
+			[{ code: "", message: "TypeError: Failed to fetch" }, NetworkError, "network"],
+			[{ status: 503, message: "Service Unavailable" }, NetworkError, "network"],
+		];
+
+		for (const [raw, type, code] of cases) {
+			const error = toWmsError(raw, "Failed");
+			expect(error).toBeInstanceOf(type);
+			expect(error.code).toBe(code);
+			expect(error.cause).toBe(raw);
+		}
+	});
+
+	it("keeps thrown messages and marks only transient failures retryable", () => {
+		const duplicate = toWmsError(Object.assign(new Error("duplicate key value"), { code: "23505" }), "Failed");
+		expect(duplicate.message).toBe("duplicate key value");
+		expect(duplicate.pgCode).toBe("23505");
+		expect(duplicate.retryable).toBe(false);
+
+		// PostgREST error objects keep the RPC's message; the caller's covers errors without one
+		expect(toWmsError({ code: "P0001", message: "Pallet P-1 is already Shipped" }, "Failed")).toMatchObject({
+			code: "invalid_state",
+			message: "Pallet P-1 is already Shipped",
+		});
+		expect(toWmsError({ code: "XX000" }, "Failed to load pallets")).toMatchObject({
+			code: "unknown",
+			message: "Failed to load pallets",
+		});
+		expect(isRetryableError({ code: "40P01", message: "deadlock detected" })).toBe(true);
+		expect(isRetryableError(new TypeError("Failed to fetch"))).toBe(true);
+		expect(isRetryableError(new Error("Pallet not found"))).toBe(false);
+	});
+
+	it("extracts field details from constraint violations", () => {
+		expect(
+			toWmsError(
+				{
+					code: "23505",
+					message: 'duplicate key value violates unique constraint "shipping_order_lines_key"',
+					details: "Key (shipping_order_id, item_id)=(so-1, ITEM-001) already exists.",
+				},
+				"Failed"
+			).fieldErrors
+		).toHaveProperty("item_id");
+		expect(
+			toWmsError(
+				{ code: "23514", message: 'new row for relation "pallets" violates check constraint "pallets_qty_check"' },
+				"Failed"
+			).fieldErrors
+		).toHaveProperty("qty");
+		expect(
+			toWmsError({ code: "23502", message: 'null value in column "item_id" of relation "pallets"' }, "Failed")
+				.fieldErrors
+		).toHaveProperty("item_id");
+	});
+
+	it("passes WmsErrors through and lets callers branch on the code", () => {
+		const transition = new InvalidStatusTransitionError("pallet", "Shipped", "Stored");
+		expect(toWmsError(transition, "Failed")).toBe(transition);
+		expect(isWmsError(transition, "invalid_transition")).toBe(true);
+		expect(isWmsError(transition, "not_found", "network")).toBe(false);
+		expect(isWmsError(new Error("plain"))).toBe(false);
+	});
+});
+
+describe("getErrorToastMessage", () => {
+	it("uses the generic copy for network, session and field errors", () => {
+		expect(getErrorToastMessage(new TypeError("Failed to fetch"), "Failed")).toBe(MESSAGE_TEMPLATES.NETWORK_ERROR);
+		expect(getErrorToastMessage({ code: "PGRST301", message: "JWT expired" }, "Failed")).toBe(
+			MESSAGE_TEMPLATES.SESSION_EXPIRED
+		);
+		expect(getErrorToastMessage(new ValidationError("Bad", { fieldErrors: { qty: "Bad" } }), "Failed")).toBe(
+			MESSAGE_TEMPLATES.FORM_VALIDATION_ERROR
+		);
+		expect(getErrorToastMessage(new NotFoundError("Pallet not found"), "Failed")).toBe("Pallet not found");
+	});
+});
@@ -0,0 +1,281 @@
+/**
+ * API Error Helpers
+ *
+ * Every wmsApi and backend adapter failure is a WmsError with a code, so
+ * screens can tell "not found" from "network down", "RLS denied", "unique
+ * violation" or "validation failed" without matching on message text.
+ * toWmsError() maps Postgres/PostgREST errors (and anything else thrown) onto
+ * the hierarchy.
+ *
+ * @module lib/api/errors
+ */
+
+export type WmsErrorCode =
+	| "not_found"
+	| "network"
+	| "unauthenticated"
+	| "permission_denied"
+	| "unique_violation"
+	| "foreign_key_violation"
+	| "check_violation"
+	| "validation"
+	| "invalid_transition"
+	| "invalid_state"
+	| "concurrent_update"
+	| "unknown";
+
+export interface WmsErrorOptions {
+	/** Whether the same request may succeed if sent again */
+	retryable?: boolean;
+	/** Field-level messages, keyed by column/field name */
+	fieldErrors?: Record<string, string>;
+	/** Postgres SQLSTATE or PostgREST code the error was mapped from */
+	pgCode?: string;
+	cause?: unknown;
+}
+
+/**
+ * Base class of all API errors
+ */
+export class WmsError extends Error {
+	readonly code: WmsErrorCode;
+	readonly retryable: boolean;
+	readonly fieldErrors: Record<string, string>;
+	readonly pgCode?: string;
+
+	constructor(code: WmsErrorCode, message: string, options: WmsErrorOptions = {}) {
+		super(message, options.cause === undefined ? undefined : { cause: options.cause });
+		this.name = "WmsError";
+		this.code = code;
+		this.retryable = options.retryable ?? false;
+		this.fieldErrors = options.fieldErrors ?? {};
+		this.pgCode = options.pgCode;
+	}
+}
+
+/**
+ * The requested row does not exist (or RLS hides it)
+ */
+export class NotFoundError extends WmsError {
+	constructor(message: string, options?: WmsErrorOptions) {
+		super("not_found", message, options);
+		this.name = "NotFoundError";
+	}
+}
+
+/**
+ * The server could not be reached, or timed out; always retryable
+ */
+export class NetworkError extends WmsError {
+	constructor(message: string, options?: WmsErrorOptions) {
+		super("network", message, { ...options, retryable: true });
+		this.name = "NetworkError";
+	}
+}
+
+/**
+ * No session (unauthenticated) or not allowed by RLS/role (permission_denied)
+ */
+export class PermissionDeniedError extends WmsError {
+	constructor(
+		message: string,
+		options?: WmsErrorOptions & { code?: Extract<WmsErrorCode, "unauthenticated" | "permission_denied"> }
+	) {
+		super(options?.code ?? "permission_denied", message, options);
+		this.name = "PermissionDeniedError";
+	}
+}
+
+/**
+ * Bad input: constraint violations and client-side validation, with field details
+ */
+export class ValidationError extends WmsError {
+	constructor(
+		message: string,
+		options?: WmsErrorOptions & {
+			code?: Extract<WmsErrorCode, "validation" | "foreign_key_violation" | "check_violation">;
+		}
+	) {
+		super(options?.code ?? "validation", message, options);
+		this.name = "ValidationError";
+	}
+}
+
+/**
+ * The write clashes with existing data: a duplicate key, a row in the wrong
+ * state, or a concurrent transaction (the last one is retryable)
+ */
+export class ConflictError extends WmsError {
+	constructor(
+		message: string,
+		options?: WmsErrorOptions & {
+			code?: Extract<WmsErrorCode, "unique_violation" | "invalid_state" | "concurrent_update">;
+		}
+	) {
+		const code = options?.code ?? "invalid_state";
+		super(code, message, { ...options, retryable: options?.retryable ?? code === "concurrent_update" });
+		this.name = "ConflictError";
+	}
+}
+
+/**
+ * Check an error is a WmsError, optionally with one of the given codes
+ *
+ * @param error - Anything caught
+ * @param codes - Codes to accept (any code when omitted)
+ */
+export function isWmsError(error: unknown, ...codes: WmsErrorCode[]): error is WmsError {
+	return error instanceof WmsError && (codes.length === 0 || codes.includes(error.code));
+}
+
+/**
+ * Check whether a failed request is worth sending again
+ */
+export function isRetryableError(error: unknown): boolean {
+	return toWmsError(error, "").retryable;
+}
+
+/** Shape of PostgREST, Postgres and Supabase Auth errors */
+interface BackendErrorLike {
+	message?: string;
+	code?: string;
+	details?: string | null;
+	hint?: string | null;
+	status?: number;
+}
+
+const NETWORK_MESSAGE = /failed to fetch|fetch failed|networkerror|network request failed|load failed|timed? ?out/i;
+
+/**
+ * Field-level details of a constraint violation
+ *
+ * Postgres reports the columns in `details` ("Key (order_ref)=(SO-1) already
+ * exists.") or, for check constraints, only in the constraint name
+ * ("pallets_qty_check").
+ */
+function getFieldErrors(error: BackendErrorLike, message: string): Record<string, string> {
+	const key = /Key \(([^)]+)\)=/.exec(error.details ?? "");
+	if (key) {
+		return Object.fromEntries(key[1].split(",").map((column) => [column.trim(), message]));
+	}
+	const raw = error.message ?? "";
+	const notNull = /null value in column "([^"]+)"/.exec(raw);
+	if (notNull) return { [notNull[1]]: message };
+	const check = /relation "([^"]+)" violates check constraint "([^"]+)"/.exec(raw);
+	if (check) {
+		const [, table, constraint] = check;
+		const column = constraint.replace(`${table}_`, "").replace(/_check$/, "");
+		return { [column]: message };
+	}
+	return {};
+}
+
+/**
+ * Map a Postgres SQLSTATE / PostgREST / Supabase Auth error onto the hierarchy
+ */
+function fromBackendError(error: BackendErrorLike, message: string, cause: unknown): WmsError | null {
+	const code = error.code ?? "";
+	const options = { pgCode: code || undefined, cause };
+
+	switch (code) {
+		case "PGRST116":
+		case "P0002": {
+			return new NotFoundError(message, options);
+		}
+		case "23505": {
+			return new ConflictError(message, {
+				...options,
+				code: "unique_violation",
+				fieldErrors: getFieldErrors(error, "Already exists"),
+			});
+		}
+		case "23503": {
+			return new ValidationError(message, {
+				...options,
+				code: "foreign_key_violation",
+				fieldErrors: getFieldErrors(error, "Does not exist"),
+			});
+		}
+		case "23514": {
+			return new ValidationError(message, {
+				...options,
+				code: "check_violation",
+				fieldErrors: getFieldErrors(error, "Invalid value"),
+			});
+		}
+		case "23502": {
+			return new ValidationError(message, { ...options, fieldErrors: getFieldErrors(error, "Required") });
+		}
+		case "22P02":
+		case "22023":
+		case "22001":
+		case "22003":
+		case "PGRST204": {
+			return new ValidationError(message, { ...options, fieldErrors: getFieldErrors(error, "Invalid value") });
+		}
+		case "42501": {
+			return new PermissionDeniedError(message, options);
+		}
+		case "PGRST301":
+		case "PGRST302":
+		case "invalid_credentials":
+		case "session_not_found":
+		case "session_expired": {
+			return new PermissionDeniedError(message, { ...options, code: "unauthenticated" });
+		}
+		case "P0001": {
+			return new ConflictError(message, { ...options, code: "invalid_state" });
+		}
+		case "40001":
+		case "40P01":
+		case "55P03": {
+			return new ConflictError(message, { ...options, code: "concurrent_update" });
+		}
+		case "57014": {
+			return new NetworkError(message, options);
+		}
+		default: {
+			break;
+		}
+	}
+
+	// Connection exceptions (08xxx), then HTTP status when only that is known
+	if (code.startsWith("08")) return new NetworkError(message, options);
+	if (error.status === 401) return new PermissionDeniedError(message, { ...options, code: "unauthenticated" });
+	if (error.status === 403) return new PermissionDeniedError(message, options);
+	if (error.status === 404) return new NotFoundError(message, options);
+	if (error.status !== undefined && (error.status === 0 || error.status === 408 || error.status >= 500)) {
+		return new NetworkError(message, options);
+	}
+	return null;
+}
+
+/**
+ * Turn anything thrown by a backend call into a WmsError
+ *
+ * WmsErrors pass through unchanged. Thrown Errors and raw PostgREST error
+ * objects keep their message (RPCs raise the copy users see); the fallback
+ * covers errors without one. The original stays in `cause`.
+ *
+ * @param error - Anything caught
+ * @param fallbackMessage - Message when the error carries none (e.g. "Failed to load pallets")
+ * @returns Mapped error
+ */
+export function toWmsError(error: unknown, fallbackMessage: string): WmsError {
+	if (error instanceof WmsError) return error;
+
+	const like: BackendErrorLike = typeof error === "object" && error !== null ? (error as BackendErrorLike) : {};
+	const rawMessage = typeof like.message === "string" ? like.message : "";
+	const message = rawMessage || fallbackMessage;
+
+	const mapped = fromBackendError(like, message, error);
+	if (mapped) return mapped;
+
+	if (NETWORK_MESSAGE.test(rawMessage) || (typeof navigator !== "undefined" && navigator.onLine === false)) {
+		return new NetworkError(message, { cause: error });
+	}
+	// Errors raised by the adapters themselves ("Pallet not found")
+	if (/\bnot found\b/i.test(rawMessage)) return new NotFoundError(message, { cause: error });
+
+	return new WmsError("unknown", message, { cause: error });
+}
@@ -8,4 +8,136 @@
  */
 
 export { default as wmsApi } from "./wms-api";
-export { auth, products, receivingOrders, pallets, shippingOrders, locations, storage, email } from "./wms-api";
+export {
+	auth,
+	products,
+	receivingOrders,
+	pallets,
+	adjustments,
+	writeOffs,
+	cycleCounts,
+	shippingOrders,
+	locations,
+	storage,
+	email,
+	audit,
+	subscribe,
+	getBackend,
+	setBackend,
+} from "./wms-api";
+export {
+	ALLOCATABLE_ORDER_STATUSES,
+	createAllocationLedger,
+	getAllocatedQty,
+	getLineAllocations,
+	getRemainingQty,
+	getStockShortfalls,
+	isAllocatableOrder,
+} from "./allocation";
+export type { AllocationLedger, FifoAllocation, LineAllocation, StockShortfall } from "./allocation";
+export { setAuditActor } from "./audit";
+export {
+	ConflictError,
+	NetworkError,
+	NotFoundError,
+	PermissionDeniedError,
+	ValidationError,
+	WmsError,
+	isRetryableError,
+	isWmsError,
+	toWmsError,
+} from "./errors";
+export type { WmsErrorCode, WmsErrorOptions } from "./errors";
+export type { AuditActor, AuditOptions } from "./audit";
+export { createMemoryBackend } from "./memory-backend";
+export { DEFAULT_POLL_INTERVAL_MS } from "./realtime";
+export type { SubscribeOptions, SubscriptionInput } from "./realtime";
+export { diffProductMaster, hasProductMasterChanges, validateProductMasterRows } from "./product-master";
+export type { ProductMasterChange, ProductMasterDiff, ProductMasterField, ProductMasterRow } from "./product-master";
+export { buildPalletTimeline, findEntryAt, getHistoryReferences } from "./pallet-history";
+export type { PalletHistoryEntry, PalletHistoryKind, PalletHistoryRefs } from "./pallet-history";
+export {
+	ADJUSTMENT_REASONS,
+	assertAdjustable,
+	assertAdjustmentNotes,
+	describeAdjustment,
+	matchesAdjustmentFilters,
+} from "./inventory-adjustments";
+export {
+	WRITE_OFF_REASONS,
+	assertWriteOffPending,
+	assertWriteOffRequestable,
+	assertWriteOffReversible,
+	canApproveWriteOffs,
+	canWriteOff,
+	describeWriteOff,
+	getWriteOffReversalTarget,
+	matchesWriteOffFilters,
+} from "./write-offs";
+export {
+	CYCLE_COUNT_REASON,
+	CYCLE_COUNT_SCOPES,
+	assertCountStatus,
+	buildCountLines,
+	compareLocations,
+	describeCountScope,
+	findCountedPallet,
+	getCountLocationIds,
+	hasVariance,
+	isCountable,
+	matchesCycleCountFilters,
+} from "./cycle-counts";
+export {
+	MAX_GENERATED_LOCATIONS,
+	POSITION_LETTERS,
+	assertPutAwayLocation,
+	assertRetirable,
+	formatLocationId,
+	generateLocations,
+	getCoveredLocationIds,
+	getLocationOccupancy,
+	getSlotPallets,
+	isUsableLocation,
+} from "./location-layout";
+export type { LocationPattern } from "./location-layout";
+export { RESHAPEABLE_PALLET_STATUSES, assertMergeable, assertSplittable, isReshapeable } from "./pallet-lineage";
+export { LPN_PATTERN, formatLpn, getLpnWarehouse, isLpn } from "./pallet-lpn";
+export { compareFifo, compareRoute, suggestPicks } from "./pick-list";
+export type { PickCandidate, PickSuggestionReason } from "./pick-list";
+export { DEFAULT_PUT_AWAY_RULES, isHeavyItem, suggestPutAwayLocations } from "./put-away";
+export type { PutAwayRules, PutAwaySuggestion } from "./put-away";
+export { RECEIPT_REF_PATTERN, formatReceiptRef, getReceiptRefYear, isReceiptRef } from "./receipt-ref";
+export {
+	RELEASABLE_PALLET_STATUSES,
+	STATUS_TRANSITIONS,
+	InvalidStatusTransitionError,
+	assertTransition,
+	canTransition,
+	getAllowedTransitions,
+	isTerminalStatus,
+} from "./status-machine";
+export type { EntityStatusMap, StatusEntity } from "./status-machine";
+export type { MemoryBackend, MemoryState } from "./memory-backend";
+export type {
+	AuditEventFilters,
+	CycleCountApproval,
+	CycleCountEntry,
+	CycleCountFilters,
+	CycleCountWithLines,
+	DateRange,
+	InventoryAdjustmentFilters,
+	LocationInput,
+	LocationUpdate,
+	PalletFilters,
+	PalletPage,
+	PalletQuery,
+	PalletSortField,
+	PalletSplitResult,
+	RealtimeStatus,
+	ReceivingOrderFilters,
+	WmsBackend,
+	WmsChange,
+	WmsSubscription,
+	WmsTable,
+	WriteOffFilters,
+} from "./wms-backend";
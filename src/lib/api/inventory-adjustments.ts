@@ -0,0 +1,98 @@
+/**
+ * Inventory Adjustment Rules
+ *
+ * An adjustment changes a pallet's qty up or down (damage, loss, found
+ * units, count corrections) and is recorded with its reason, notes and an
+ * optional photo. Taking every unit off a pallet is a write-off, not an
+ * adjustment, so at least 1 unit must remain.
+ *
+ * Both backends check these rules inside their transaction (the Supabase RPC
+ * function repeats them in SQL).
+ *
+ * @module lib/api/inventoryAdjustments
+ */
+
+import type { AdjustmentReason, InventoryAdjustment, Pallet } from "../../types/domain";
+import { ConflictError, ValidationError } from "./errors";
+import { isReshapeable } from "./pallet-lineage";
+import type { InventoryAdjustmentFilters } from "./wms-backend";
+
+/** Reason codes, in the order they are offered */
+export const ADJUSTMENT_REASONS = [
+	"Damaged",
+	"Lost",
+	"Found",
+	"Count Correction",
+	"Receiving Error",
+	"Other",
+] as const satisfies readonly AdjustmentReason[];
+
+/**
+ * Check a pallet can take a qty change
+ *
+ * Only pallets in the warehouse (Received, Stored or Staged and not on a
+ * manifest) can be adjusted.
+ *
+ * @param pallet - Pallet to adjust
+ * @param qtyChange - Signed qty change
+ * @throws ValidationError if the change is not a whole number, is 0 or would empty the pallet
+ * @throws ConflictError if the pallet is loaded, shipped, written off or merged
+ */
+export function assertAdjustable(pallet: Pallet, qtyChange: number): void {
+	if (!isReshapeable(pallet)) {
+		throw new ConflictError(`Cannot adjust a ${pallet.manifest_id ? "loaded" : pallet.status} pallet`);
+	}
+	if (!Number.isInteger(qtyChange) || qtyChange === 0) {
+		throw new ValidationError("Adjustment must be a whole number other than 0", {
+			fieldErrors: { qty_change: "Must be a whole number other than 0" },
+		});
+	}
+	if (pallet.qty + qtyChange <= 0) {
+		throw new ValidationError(`Cannot take ${-qtyChange} off a pallet of ${pallet.qty}; write the pallet off instead`, {
+			fieldErrors: { qty_change: `Must leave at least 1 of ${pallet.qty}` },
+		});
+	}
+}
+
+/**
+ * Check an adjustment explains itself: notes are required when the reason is Other
+ *
+ * @throws ValidationError if the reason is Other and the notes are blank
+ */
+export function assertAdjustmentNotes(adjustment: Pick<InventoryAdjustment, "reason" | "notes">): void {
+	if (adjustment.reason === "Other" && !adjustment.notes?.trim()) {
+		throw new ValidationError("Notes are required when the reason is Other", {
+			fieldErrors: { notes: "Required when the reason is Other" },
+		});
+	}
+}
+
+/**
+ * Audit reason for an adjustment: reason code plus notes
+ */
+export function describeAdjustment(adjustment: Pick<InventoryAdjustment, "reason" | "notes">): string {
+	const notes = adjustment.notes?.trim();
+	return notes ? `${adjustment.reason}: ${notes}` : adjustment.reason;
+}
+
+/**
+ * Check an adjustment against search criteria
+ *
+ * Pallet, item and reason must match exactly; the date range includes both ends.
+ *
+ * @param adjustment - Recorded adjustment
+ * @param filters - Search criteria
+ * @returns True if the adjustment matches every given filter
+ */
+export function matchesAdjustmentFilters(
+	adjustment: InventoryAdjustment,
+	filters: InventoryAdjustmentFilters
+): boolean {
+	if (filters.pallet_id && adjustment.pallet_id !== filters.pallet_id) return false;
+	if (filters.item_id && adjustment.item_id !== filters.item_id) return false;
+	if (filters.reason && adjustment.reason !== filters.reason) return false;
+	const time = Date.parse(adjustment.created_at);
+	if (filters.created_at?.from && time < Date.parse(filters.created_at.from)) return false;
+	if (filters.created_at?.to && time > Date.parse(filters.created_at.to)) return false;
+	return true;
+}
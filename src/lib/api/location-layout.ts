@@ -0,0 +1,235 @@
+/**
+ * Location Layout Rules
+ *
+ * Rack locations are named <warehouse>-<rack>-<level>-<position> (e.g.
+ * W1-3-2-C) and aisle zones <warehouse>-AISLE-<zone> (e.g. W1-AISLE-02), the
+ * names locations.resolve looks up. Admins add locations in bulk from a
+ * pattern and block (damaged rack) or retire them; neither kind takes new
+ * pallets, and a location cannot be retired while pallets sit on it.
+ *
+ * Both backends check retirement inside their transaction (a trigger in
+ * Supabase); put-away checks the location before moving a pallet.
+ *
+ * @module lib/api/locationLayout
+ */
+
+import type { Location, Pallet, Product, Warehouse } from "../../types/domain";
+import { isCountable } from "./cycle-counts";
+import { ConflictError, ValidationError } from "./errors";
+import type { LocationInput } from "./wms-backend";
+
+/** Position letters, in order */
+export const POSITION_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/** Most locations one pattern may generate */
+export const MAX_GENERATED_LOCATIONS = 2000;
+
+/**
+ * Bulk generation pattern: every rack × level × position in the ranges, or
+ * every aisle zone in the range (bounds inclusive)
+ */
+export type LocationPattern =
+	| {
+			type: "RACK";
+			racks: [number, number];
+			levels: [number, number];
+			positions: [string, string];
+	  }
+	| { type: "AISLE"; zones: [number, number] };
+
+/**
+ * Location ID of a rack slot or aisle zone
+ *
+ * @example formatLocationId("W1", { rack: 3, level: 2, position: "C" }) // "W1-3-2-C"
+ * @example formatLocationId("W1", { zone: 2 }) // "W1-AISLE-02"
+ */
+export function formatLocationId(
+	warehouseCode: string,
+	slot: { rack: number; level: number; position: string } | { zone: number }
+): string {
+	if ("zone" in slot) return `${warehouseCode}-AISLE-${String(slot.zone).padStart(2, "0")}`;
+	return `${warehouseCode}-${slot.rack}-${slot.level}-${slot.position}`;
+}
+
+function range(from: number, to: number): number[] {
+	return Array.from({ length: to - from + 1 }, (_, i) => from + i);
+}
+
+function isWholeRange([from, to]: [number, number]): boolean {
+	return Number.isInteger(from) && Number.isInteger(to) && from >= 1 && from <= to;
+}
+
+/**
+ * Expand a pattern into the locations it describes
+ *
+ * @param warehouse - Warehouse the locations belong to
+ * @param pattern - Racks/levels/positions or aisle zones
+ * @returns New active, unblocked locations in rack/level/position order
+ * @throws ValidationError if a range is empty or backwards, or the pattern is too large
+ */
+export function generateLocations(
+	warehouse: Pick<Warehouse, "id" | "code">,
+	pattern: LocationPattern
+): LocationInput[] {
+	const base = { warehouse_id: warehouse.id, is_active: true, is_blocked: false };
+
+	if (pattern.type === "AISLE") {
+		if (!isWholeRange(pattern.zones)) {
+			throw new ValidationError("Aisle zones must be a range of whole numbers from 1", {
+				fieldErrors: { zones: "Invalid range" },
+			});
+		}
+		return range(...pattern.zones).map((zone) => ({
+			...base,
+			location_id: formatLocationId(warehouse.code, { zone }),
+			type: "AISLE",
+		}));
+	}
+
+	const fieldErrors: Record<string, string> = {};
+	if (!isWholeRange(pattern.racks)) fieldErrors.racks = "Invalid range";
+	if (!isWholeRange(pattern.levels)) fieldErrors.levels = "Invalid range";
+	const [firstPosition, lastPosition] = pattern.positions.map((p) => POSITION_LETTERS.indexOf(p.trim().toUpperCase()));
+	if (firstPosition < 0 || lastPosition < firstPosition || pattern.positions.some((p) => p.trim().length !== 1)) {
+		fieldErrors.positions = "Invalid range";
+	}
+	if (Object.keys(fieldErrors).length > 0) {
+		throw new ValidationError("Racks and levels must be ranges of whole numbers from 1, positions letters A-Z", {
+			fieldErrors,
+		});
+	}
+
+	const positions = range(firstPosition, lastPosition).map((i) => POSITION_LETTERS[i]);
+	const total =
+		(pattern.racks[1] - pattern.racks[0] + 1) * (pattern.levels[1] - pattern.levels[0] + 1) * positions.length;
+	if (total > MAX_GENERATED_LOCATIONS) {
+		throw new ValidationError(`Pattern would create ${total} locations; the limit is ${MAX_GENERATED_LOCATIONS}`);
+	}
+
+	return range(...pattern.racks).flatMap((rack) =>
+		range(...pattern.levels).flatMap((level) =>
+			positions.map((position) => ({
+				...base,
+				location_id: formatLocationId(warehouse.code, { rack, level, position }),
+				type: "RACK" as const,
+				rack,
+				level,
+				position,
+			}))
+		)
+	);
+}
+
+/**
+ * Check whether a location takes new pallets (active and not blocked)
+ */
+export function isUsableLocation(location: Pick<Location, "is_active" | "is_blocked">): boolean {
+	return location.is_active !== false && !location.is_blocked;
+}
+
+/**
+ * Check a pallet can be put away or moved to a location
+ *
+ * @param location - Target location
+ * @throws ConflictError if the location is retired or blocked
+ */
+export function assertPutAwayLocation(location: Location): void {
+	if (location.is_active === false) {
+		throw new ConflictError(`Location ${location.location_id} is retired`);
+	}
+	if (location.is_blocked) {
+		throw new ConflictError(`Location ${location.location_id} is blocked`);
+	}
+}
+
+/**
+ * Count the pallets on each location (loaded, shipped and written-off pallets are not)
+ *
+ * @returns Pallet count per location ID; empty locations are absent
+ */
+export function getLocationOccupancy(pallets: Pallet[]): Map<string, number> {
+	const occupancy = new Map<string, number>();
+	for (const pallet of pallets) {
+		if (isCountable(pallet)) {
+			const id = pallet.location_id as string;
+			occupancy.set(id, (occupancy.get(id) ?? 0) + 1);
+		}
+	}
+	return occupancy;
+}
+
+/**
+ * Work out every slot a pallet covers
+ *
+ * A product taking several pallet positions is stored on the first of that
+ * many adjacent positions on one rack level (see suggestPutAwayLocations), so
+ * the pallet also covers the positions after it, up to the end of the level.
+ * Aisle zones cover only themselves.
+ *
+ * @param location - Location the pallet is stored on
+ * @param palletPositions - Positions the pallet's product takes
+ * @param locations - All locations
+ * @returns Location IDs, starting with the pallet's own
+ */
+export function getCoveredLocationIds(location: Location, palletPositions: number, locations: Location[]): string[] {
+	const covered = [location.location_id];
+	if (location.type !== "RACK" || !location.position) return covered;
+	const first = POSITION_LETTERS.indexOf(location.position);
+	for (let offset = 1; offset < Math.ceil(palletPositions); offset++) {
+		const next = locations.find(
+			(l) =>
+				l.type === "RACK" &&
+				l.warehouse_id === location.warehouse_id &&
+				l.rack === location.rack &&
+				l.level === location.level &&
+				l.position === POSITION_LETTERS[first + offset]
+		);
+		if (!next) break;
+		covered.push(next.location_id);
+	}
+	return covered;
+}
+
+/**
+ * Map each location to the pallets on it, counting every slot a
+ * multi-position pallet covers (see getCoveredLocationIds)
+ *
+ * @param locations - All locations
+ * @param pallets - Pallets to place; loaded, shipped, written-off and unlocated pallets are ignored
+ * @param products - Products, for pallet_positions (a pallet of an unknown item takes 1 position)
+ * @returns Pallets per location ID; empty locations are absent
+ */
+export function getSlotPallets<T extends Pallet>(
+	locations: Location[],
+	pallets: T[],
+	products: Pick<Product, "item_id" | "pallet_positions">[]
+): Map<string, T[]> {
+	const byId = new Map(locations.map((l) => [l.location_id, l]));
+	const positions = new Map(products.map((product) => [product.item_id, product.pallet_positions]));
+	const slots = new Map<string, T[]>();
+	for (const pallet of pallets) {
+		if (!isCountable(pallet)) continue;
+		const location = byId.get(pallet.location_id as string);
+		const covered = location
+			? getCoveredLocationIds(location, positions.get(pallet.item_id) ?? 1, locations)
+			: [pallet.location_id as string];
+		for (const id of covered) {
+			slots.set(id, [...(slots.get(id) ?? []), pallet]);
+		}
+	}
+	return slots;
+}
+
+/**
+ * Check a location can be retired
+ *
+ * @param location - Location to retire
+ * @param pallets - All pallets
+ * @throws ConflictError if pallets still sit on it
+ */
+export function assertRetirable(location: Location, pallets: Pallet[]): void {
+	const held = getLocationOccupancy(pallets).get(location.location_id) ?? 0;
+	if (held > 0) {
+		throw new ConflictError(`Location ${location.location_id} still holds ${held} pallet(s)`);
+	}
+}
@@ -0,0 +1,948 @@
+/**
+ * Memory Backend Tests
+ *
+ * Runs the receiving → put-away → picking → loading → shipping flow through
+ * wmsApi with the in-memory adapter active, and checks the adapter enforces
+ * the same constraints as the database.
+ *
+ * @module lib/api/memoryBackend.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+
+import { setAuditActor } from "./audit";
+import { NotFoundError } from "./errors";
+import { getBackend, setBackend, wmsApi } from "./index";
+import { generateLocations } from "./location-layout";
+import { createMemoryBackend, createSeedState, type MemoryBackend } from "./memory-backend";
+import type { WmsChange } from "./wms-backend";
+
+const PRODUCT = {
+	item_id: "ITEM-001",
+	description: "Widget",
+	units_per_pallet: 50,
+	pallet_positions: 1,
+	active: true,
+};
+
+async function findProduct(itemId: string) {
+	const products = await wmsApi.products.getAll();
+	return products.find((product) => product.item_id === itemId) ?? null;
+}
+
+describe("memory backend", () => {
+	let backend: MemoryBackend;
+	const previousBackend = getBackend();
+
+	beforeEach(() => {
+		backend = createMemoryBackend({ storageKey: null });
+		setBackend(backend);
+	});
+
+	afterEach(() => {
+		setBackend(previousBackend);
+	});
+
+	it("seeds the default warehouse and its locations", async () => {
+		const warehouse = await wmsApi.warehouses.getDefault();
+		const allLocations = await wmsApi.locations.getAll();
+
+		expect(warehouse.code).toBe("W1");
+		expect(allLocations).toHaveLength(8 * 4 * 20 + 4);
+		expect(await wmsApi.locations.getById("W1-3-2-C")).toMatchObject({ rack: 3, level: 2, position: "C" });
+		expect(await wmsApi.locations.resolve(warehouse.id, "AISLE", 2, "A")).toMatchObject({
+			location_id: "W1-AISLE-02",
+		});
+	});
+
+	it("runs an order from receiving to shipped", async () => {
+		await wmsApi.products.create(PRODUCT);
+
+		const receiving = await wmsApi.receivingOrders.create({
+			container_num: "MSCU1234567",
+			seal_num: "SEAL-1",
+			status: "Pending",
+			created_by: "user-1",
+		});
+		await wmsApi.receivingOrders.createLines([
+			{ receiving_order_id: receiving.id, item_id: PRODUCT.item_id, expected_qty: 100, created_at: "" },
+		]);
+		await wmsApi.receivingOrders.update(receiving.id, { status: "Unloading" });
+
+		const palletA = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 50,
+			status: "Received",
+			receiving_order_id: receiving.id,
+			is_cross_dock: false,
+		});
+		const palletB = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 50,
+			status: "Received",
+			receiving_order_id: receiving.id,
+			is_cross_dock: false,
+		});
+		await wmsApi.receivingOrders.finishTally(receiving.id);
+		await wmsApi.receivingOrders.finalize(receiving.id);
+
+		await wmsApi.pallets.update(palletA.id, { status: "Stored", location_id: "W1-1-1-A" });
+		await wmsApi.pallets.update(palletB.id, { status: "Stored", location_id: "W1-1-1-B" });
+
+		const order = await wmsApi.shippingOrders.create({
+			order_ref: "SO-1",
+			shipment_type: "Hand_Delivery",
+			status: "Pending",
+		});
+		await wmsApi.shippingOrders.createLines([
+			{ shipping_order_id: order.id, item_id: PRODUCT.item_id, requested_qty: 50 },
+		]);
+
+		await wmsApi.shippingOrders.update(order.id, { status: "Picking" });
+		await wmsApi.pallets.update(palletA.id, { status: "Staged", shipping_order_id: order.id, location_id: null });
+		await wmsApi.shippingOrders.update(order.id, { status: "Loading" });
+		expect(await wmsApi.pallets.getFiltered({ status: "Stored", shipping_order_id: null })).toHaveLength(1);
+
+		const manifest = await wmsApi.manifests.create({ type: "Hand", seal_num: "HD-1", status: "Open" });
+		await wmsApi.pallets.update(palletA.id, { status: "Loaded", manifest_id: manifest.id });
+		await wmsApi.shippingOrders.update(order.id, { status: "Completed" });
+		await wmsApi.manifests.closeAndShip(manifest.id);
+
+		const shipped = await wmsApi.pallets.getFiltered({ manifest_id: manifest.id });
+		expect(shipped.map((p) => p.status)).toEqual(["Shipped"]);
+		expect(await wmsApi.pallets.getById(palletA.id)).toMatchObject({ location_id: null });
+		expect(await wmsApi.shippingOrders.getById(order.id)).toMatchObject({
+			status: "Shipped",
+			lines: [{ requested_qty: 50 }],
+		});
+	});
+
+	it("rejects status changes the state machine does not allow", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const receiving = await wmsApi.receivingOrders.create({
+			container_num: "MSCU2345678",
+			seal_num: "SEAL-4",
+			status: "Pending",
+			created_by: "user-1",
+		});
+		const pallet = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 10,
+			status: "Received",
+			receiving_order_id: receiving.id,
+			is_cross_dock: false,
+		});
+
+		await expect(wmsApi.receivingOrders.update(receiving.id, { status: "Received" })).rejects.toThrow(
+			"Cannot change receiving order status from Pending to Received"
+		);
+		await expect(wmsApi.receivingOrders.finishTally(receiving.id)).rejects.toThrow("from Pending to Staged");
+		await wmsApi.pallets.update(pallet.id, { status: "WriteOff" });
+		await expect(wmsApi.pallets.update(pallet.id, { status: "Stored" })).rejects.toThrow("from WriteOff to Stored");
+		expect(await wmsApi.pallets.getById(pallet.id)).toMatchObject({ status: "WriteOff" });
+	});
+
+	it("releases pallets when an order is cancelled", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const order = await wmsApi.shippingOrders.create({
+			order_ref: "SO-2",
+			shipment_type: "Container_Loading",
+			status: "Pending",
+		});
+		const pallet = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 10,
+			status: "Staged",
+			shipping_order_id: order.id,
+			is_cross_dock: false,
+		});
+
+		const cancelled = await wmsApi.shippingOrders.cancelOrder(order.id);
+
+		expect(cancelled.status).toBe("Cancelled");
+		expect(await wmsApi.pallets.getById(pallet.id)).toMatchObject({ status: "Received", shipping_order_id: null });
+	});
+
+	it("leaves shipped pallets alone when a completed order is cancelled", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const order = await wmsApi.shippingOrders.create({
+			order_ref: "SO-3",
+			shipment_type: "Container_Loading",
+			status: "Pending",
+		});
+		const input = { item_id: PRODUCT.item_id, qty: 10, shipping_order_id: order.id, is_cross_dock: false };
+		const shipped = await wmsApi.pallets.create({ ...input, status: "Shipped" });
+		const loaded = await wmsApi.pallets.create({ ...input, status: "Loaded" });
+		await wmsApi.shippingOrders.update(order.id, { status: "Loading" });
+		await wmsApi.shippingOrders.update(order.id, { status: "Completed" });
+
+		await wmsApi.shippingOrders.cancelOrder(order.id);
+
+		expect(await wmsApi.pallets.getById(shipped.id)).toMatchObject({ status: "Shipped", shipping_order_id: order.id });
+		expect(await wmsApi.pallets.getById(loaded.id)).toMatchObject({ status: "Received", shipping_order_id: null });
+		const releases = await wmsApi.audit.query({ action: "release" });
+		expect(releases.map((event) => event.entity_id)).toEqual([loaded.id]);
+	});
+
+	it("splits and merges pallets keeping their lineage", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const pallet = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 50,
+			status: "Stored",
+			location_id: "W1-1-1-A",
+			receiving_order_id: "recv-1",
+			received_at: "2026-01-01T00:00:00Z",
+			is_cross_dock: false,
+		});
+
+		const { source, created } = await wmsApi.pallets.split(pallet.id, [10, 15]);
+		expect(source.qty).toBe(25);
+		expect(created).toHaveLength(2);
+		expect(created[0]).toMatchObject({
+			qty: 10,
+			status: "Stored",
+			location_id: "W1-1-1-A",
+			receiving_order_id: "recv-1",
+			received_at: "2026-01-01T00:00:00Z",
+			split_from_id: pallet.id,
+		});
+		await expect(wmsApi.pallets.split(pallet.id, [25])).rejects.toMatchObject({ code: "validation" });
+		await expect(wmsApi.pallets.split(pallet.id, [0])).rejects.toMatchObject({ code: "validation" });
+
+		const merged = await wmsApi.pallets.merge([pallet.id, created[0].id, created[1].id]);
+		expect(merged).toMatchObject({ id: pallet.id, qty: 50 });
+		expect(await wmsApi.pallets.getById(created[1].id)).toMatchObject({
+			status: "Merged",
+			merged_into_id: pallet.id,
+			location_id: null,
+		});
+		await expect(wmsApi.pallets.merge([pallet.id, created[0].id])).rejects.toMatchObject({ code: "invalid_state" });
+		await expect(wmsApi.pallets.merge([pallet.id])).rejects.toMatchObject({ code: "validation" });
+
+		const history = await wmsApi.pallets.getHistory(created[0].id);
+		expect(history.map((event) => event.action)).toEqual(["split", "merge"]);
+		const trail = await wmsApi.pallets.getHistory(pallet.id);
+		expect(trail.map((event) => event.action)).toEqual(["create", "split", "merge"]);
+	});
+
+	it("numbers pallets with sequential LPNs and backfills pallets without one", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const input = { item_id: PRODUCT.item_id, qty: 20, status: "Received" as const, is_cross_dock: false };
+		const first = await wmsApi.pallets.create(input);
+		const second = await wmsApi.pallets.create(input);
+		expect([first.lpn, second.lpn]).toEqual(["W1-P-000001", "W1-P-000002"]);
+
+		// Numbers are never reused, and split pallets get their own
+		await wmsApi.pallets.delete(second.id);
+		const { created } = await wmsApi.pallets.split(first.id, [5]);
+		expect(created[0].lpn).toBe("W1-P-000003");
+		expect(await wmsApi.pallets.getFiltered({ lpn: "w1-p-000003" })).toEqual([created[0]]);
+
+		const { pallets: stored } = backend.snapshot();
+		backend.reset({
+			products: backend.snapshot().products,
+			pallets: [
+				{ ...stored[1], id: "pallet-new", lpn: "", created_at: "2026-02-01T00:00:00Z" },
+				{ ...stored[0], id: "pallet-old", lpn: "", created_at: "2026-01-01T00:00:00Z" },
+			],
+		});
+		const backfilled = await wmsApi.pallets.getAll();
+		expect(backfilled.map((p) => [p.id, p.lpn])).toEqual([
+			["pallet-new", "W1-P-000002"],
+			["pallet-old", "W1-P-000001"],
+		]);
+		const next = await wmsApi.pallets.create(input);
+		expect(next.lpn).toBe("W1-P-000003");
+	});
+
+	it("gives receiving orders yearly receipt refs, backfills them and searches by them", async () => {
+		const year = new Date().getUTCFullYear();
+		const input = {
+			container_num: "MSCU1234567",
+			seal_num: "SEAL-1",
+			status: "Pending" as const,
+			created_by: "user-1",
+		};
+		const first = await wmsApi.receivingOrders.create(input);
+		// The same container coming back gets a reference of its own
+		const second = await wmsApi.receivingOrders.create({ ...input, seal_num: "SEAL-2" });
+		expect([first.receipt_ref, second.receipt_ref]).toEqual([`RCV-${year}-0001`, `RCV-${year}-0002`]);
+
+		const byRef = await wmsApi.receivingOrders.query({ search: "-0002" });
+		expect(byRef.map((o) => o.id)).toEqual([second.id]);
+		const byContainer = await wmsApi.receivingOrders.query({ search: "mscu1234567", status: ["Pending"] });
+		expect(byContainer).toHaveLength(2);
+
+		backend.reset({
+			receivingOrders: [
+				{ ...first, id: "rcv-2026", receipt_ref: "", created_at: "2026-01-05T00:00:00Z" },
+				{ ...first, id: "rcv-late-2025", receipt_ref: "", created_at: "2025-12-31T23:00:00Z" },
+				{ ...first, id: "rcv-early-2025", receipt_ref: "", created_at: "2025-03-01T00:00:00Z" },
+			],
+		});
+		const backfilled = await wmsApi.receivingOrders.getAll();
+		expect(backfilled.map((o) => [o.id, o.receipt_ref])).toEqual([
+			["rcv-2026", "RCV-2026-0001"],
+			["rcv-late-2025", "RCV-2025-0002"],
+			["rcv-early-2025", "RCV-2025-0001"],
+		]);
+	});
+
+	it("adjusts pallet qty and records each adjustment", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const pallet = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 20,
+			status: "Stored",
+			location_id: "W1-1-1-A",
+			is_cross_dock: false,
+		});
+		setAuditActor({ id: "user-1", email: "cs@example.com" });
+
+		const damaged = await wmsApi.adjustments.create({
+			pallet_id: pallet.id,
+			qty_change: -3,
+			reason: "Damaged",
+			notes: "Forklift",
+			photo: new File(["jpeg"], "Damage Photo.jpg", { type: "image/jpeg" }),
+		});
+		const found = await wmsApi.adjustments.create({ pallet_id: pallet.id, qty_change: 5, reason: "Found" });
+		setAuditActor(null);
+
+		expect(damaged).toMatchObject({
+			item_id: PRODUCT.item_id,
+			qty_before: 20,
+			qty_after: 17,
+			created_by_email: "cs@example.com",
+		});
+		expect(damaged.photo_path).toMatch(new RegExp(`^${pallet.id}/photo_.+_damage_photo\\.jpg$`));
+		expect(await wmsApi.storage.list("adjustments", pallet.id)).toHaveLength(1);
+		expect(found).toMatchObject({ qty_before: 17, qty_after: 22 });
+		expect(await wmsApi.pallets.getById(pallet.id)).toMatchObject({ qty: 22 });
+
+		await expect(
+			wmsApi.adjustments.create({ pallet_id: pallet.id, qty_change: -22, reason: "Lost" })
+		).rejects.toMatchObject({ code: "validation" });
+		await expect(
+			wmsApi.adjustments.create({ pallet_id: pallet.id, qty_change: 1, reason: "Other", notes: "  " })
+		).rejects.toMatchObject({ code: "validation", fieldErrors: { notes: expect.any(String) } });
+		await wmsApi.pallets.update(pallet.id, { status: "WriteOff" });
+		await expect(
+			wmsApi.adjustments.create({ pallet_id: pallet.id, qty_change: 1, reason: "Found" })
+		).rejects.toMatchObject({ code: "invalid_state" });
+
+		const report = await wmsApi.adjustments.query({ item_id: PRODUCT.item_id });
+		expect(report.map((adjustment) => adjustment.qty_change)).toEqual([5, -3]);
+		expect(await wmsApi.adjustments.query({ reason: "Damaged" })).toHaveLength(1);
+		expect(await wmsApi.adjustments.query({ created_at: { to: "2000-01-01T00:00:00Z" } })).toEqual([]);
+
+		const history = await wmsApi.pallets.getHistory(pallet.id);
+		expect(history.filter((event) => event.action === "adjust")).toMatchObject([
+			{ before: { qty: 20 }, after: { qty: 17 }, reason: "Damaged: Forklift", actor_email: "cs@example.com" },
+			{ before: { qty: 17 }, after: { qty: 22 }, reason: "Found" },
+		]);
+	});
+
+	it("writes a pallet off only once the request is approved, and reverses it", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const pallet = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 12,
+			status: "Stored",
+			location_id: "W1-1-1-A",
+			is_cross_dock: false,
+		});
+
+		setAuditActor({ id: "user-wh", email: "wh@example.com" });
+		const rejected = await wmsApi.writeOffs.request({ pallet_id: pallet.id, reason: "Damaged" });
+		await expect(wmsApi.writeOffs.request({ pallet_id: pallet.id, reason: "Lost" })).rejects.toMatchObject({
+			code: "invalid_state",
+		});
+		expect(rejected).toMatchObject({ status: "Pending", qty: 12, requested_by_email: "wh@example.com" });
+		expect(await wmsApi.pallets.getById(pallet.id)).toMatchObject({ status: "Stored", location_id: "W1-1-1-A" });
+
+		setAuditActor({ id: "user-lead", email: "lead@example.com" });
+		await wmsApi.writeOffs.reject(rejected.id, "Still sellable");
+		await expect(wmsApi.writeOffs.approve(rejected.id)).rejects.toMatchObject({ code: "invalid_state" });
+
+		const request = await wmsApi.writeOffs.request({ pallet_id: pallet.id, reason: "Lost", notes: "Not on rack" });
+		const approved = await wmsApi.writeOffs.approve(request.id);
+		expect(approved).toMatchObject({
+			status: "Approved",
+			decided_by_email: "lead@example.com",
+			prior_status: "Stored",
+			prior_location_id: "W1-1-1-A",
+		});
+		expect(await wmsApi.pallets.getById(pallet.id)).toMatchObject({ status: "WriteOff", location_id: null });
+		expect(await wmsApi.writeOffs.query({ status: ["Pending"] })).toEqual([]);
+
+		const reversed = await wmsApi.writeOffs.reverse(request.id, "Found in aisle 3");
+		setAuditActor(null);
+		expect(reversed).toMatchObject({ status: "Reversed", reversed_by_email: "lead@example.com" });
+		expect(await wmsApi.pallets.getById(pallet.id)).toMatchObject({ status: "Stored", location_id: "W1-1-1-A" });
+		await expect(wmsApi.writeOffs.reverse(request.id)).rejects.toMatchObject({ code: "invalid_state" });
+
+		const requests = await wmsApi.writeOffs.query({ pallet_id: pallet.id });
+		expect(requests.map((r) => r.status)).toEqual(["Reversed", "Rejected"]);
+
+		const history = await wmsApi.pallets.getHistory(pallet.id);
+		expect(history.map((event) => event.action)).toEqual([
+			"create",
+			"request_write_off",
+			"reject_write_off",
+			"request_write_off",
+			"write_off",
+			"reverse_write_off",
+		]);
+		expect(history.at(-1)).toMatchObject({
+			before: { status: "WriteOff", location_id: null },
+			after: { status: "Stored", location_id: "W1-1-1-A" },
+			reason: "Found in aisle 3",
+		});
+	});
+
+	it("reverses a write-off to Received when the prior location can no longer take the pallet", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const order = await wmsApi.shippingOrders.create({
+			order_ref: "SO-WO",
+			shipment_type: "Hand_Delivery",
+			status: "Pending",
+		});
+		const stored = { item_id: PRODUCT.item_id, qty: 5, status: "Stored", is_cross_dock: false } as const;
+		const assigned = await wmsApi.pallets.create({ ...stored, location_id: "W1-1-1-A", shipping_order_id: order.id });
+		const blocked = await wmsApi.pallets.create({ ...stored, location_id: "W1-1-1-B" });
+
+		const first = await wmsApi.writeOffs.request({ pallet_id: assigned.id, reason: "Lost" });
+		const second = await wmsApi.writeOffs.request({ pallet_id: blocked.id, reason: "Lost" });
+		await wmsApi.writeOffs.approve(first.id);
+		await wmsApi.writeOffs.approve(second.id);
+		expect(await wmsApi.pallets.getById(assigned.id)).toMatchObject({ status: "WriteOff", shipping_order_id: null });
+
+		// Another pallet took the first location; the second one was blocked
+		await wmsApi.pallets.create({ ...stored, location_id: "W1-1-1-A" });
+		await wmsApi.locations.update(["W1-1-1-B"], { is_blocked: true });
+		await wmsApi.writeOffs.reverse(first.id);
+		await wmsApi.writeOffs.reverse(second.id);
+
+		for (const id of [assigned.id, blocked.id]) {
+			expect(await wmsApi.pallets.getById(id)).toMatchObject({ status: "Received", location_id: null });
+		}
+	});
+
+	it("takes a written-off Loaded pallet off its manifest so it can be moved once reversed", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const manifest = await wmsApi.manifests.create({ type: "Hand", seal_num: "HD-WO", status: "Open" });
+		const loaded = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 8,
+			status: "Loaded",
+			manifest_id: manifest.id,
+			is_cross_dock: false,
+		});
+
+		const request = await wmsApi.writeOffs.request({ pallet_id: loaded.id, reason: "Damaged" });
+		await wmsApi.writeOffs.approve(request.id);
+		expect(await wmsApi.pallets.getById(loaded.id)).toMatchObject({ status: "WriteOff", manifest_id: null });
+		expect(await wmsApi.pallets.getFiltered({ manifest_id: manifest.id })).toEqual([]);
+
+		await wmsApi.writeOffs.reverse(request.id);
+		expect(await wmsApi.pallets.getById(loaded.id)).toMatchObject({
+			status: "Received",
+			location_id: null,
+			manifest_id: null,
+		});
+
+		const moved = await wmsApi.pallets.update(loaded.id, { status: "Stored", location_id: "W1-1-1-A" });
+		expect(moved).toMatchObject({ status: "Stored", location_id: "W1-1-1-A" });
+		await expect(wmsApi.pallets.split(loaded.id, [3])).resolves.toBeDefined();
+	});
+
+	it("counts a rack blind and posts the variances once approved", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const stored = { item_id: PRODUCT.item_id, status: "Stored" as const, is_cross_dock: false };
+		const exact = await wmsApi.pallets.create({ ...stored, qty: 10, location_id: "W1-2-1-A" });
+		const short = await wmsApi.pallets.create({ ...stored, qty: 20, location_id: "W1-2-1-B" });
+		const misplaced = await wmsApi.pallets.create({ ...stored, qty: 30, location_id: "W1-2-1-C" });
+		const missing = await wmsApi.pallets.create({ ...stored, qty: 40, location_id: "W1-2-2-A" });
+
+		await expect(wmsApi.cycleCounts.create({ scope: "Rack", rack: 99 })).rejects.toMatchObject({
+			code: "validation",
+		});
+		setAuditActor({ id: "user-cs", email: "cs@example.com" });
+		const range = await wmsApi.cycleCounts.create({
+			scope: "Range",
+			from_location_id: "W1-2-1-C",
+			to_location_id: "W1-2-1-A",
+		});
+		expect(range.location_ids).toEqual(["W1-2-1-A", "W1-2-1-B", "W1-2-1-C"]);
+		const count = await wmsApi.cycleCounts.create({ scope: "Rack", rack: 2 });
+		expect(count).toMatchObject({ status: "Open", created_by_email: "cs@example.com" });
+		expect(count.location_ids).toHaveLength(4 * 20);
+		expect(count.location_ids.slice(0, 2)).toEqual(["W1-2-1-A", "W1-2-1-B"]);
+
+		setAuditActor({ id: "user-wh", email: "wh@example.com" });
+		await expect(
+			wmsApi.cycleCounts.submit(count.id, [{ location_id: "W1-3-1-A", pallet_id: exact.id, qty: 10 }])
+		).rejects.toMatchObject({ code: "validation" });
+		const submitted = await wmsApi.cycleCounts.submit(count.id, [
+			{ location_id: "W1-2-1-A", pallet_id: exact.id, qty: 10 },
+			{ location_id: "W1-2-1-B", pallet_id: short.id.slice(-8), qty: 18 },
+			{ location_id: "W1-2-3-D", pallet_id: misplaced.id, qty: 30 },
+		]);
+		expect(submitted).toMatchObject({ status: "Submitted", counted_by_email: "wh@example.com" });
+		expect(submitted.lines.find((line) => line.pallet_id === missing.id)).toMatchObject({
+			location_id: null,
+			counted_qty: 0,
+			qty_variance: -40,
+		});
+		await expect(wmsApi.cycleCounts.submit(count.id, [])).rejects.toMatchObject({ code: "invalid_state" });
+
+		setAuditActor({ id: "user-cs", email: "cs@example.com" });
+		const approval = await wmsApi.cycleCounts.approve(count.id);
+		expect(approval.count).toMatchObject({ status: "Approved", decided_by_email: "cs@example.com" });
+		expect(approval.adjustments).toMatchObject([
+			{ pallet_id: short.id, qty_before: 20, qty_after: 18, reason: "Count Correction" },
+		]);
+		expect(approval.moves).toEqual([{ pallet_id: misplaced.id, from: "W1-2-1-C", to: "W1-2-3-D" }]);
+		expect(approval.writeOffRequests).toMatchObject([
+			{ pallet_id: missing.id, status: "Pending", reason: "Count Correction" },
+		]);
+		expect(await wmsApi.pallets.getById(short.id)).toMatchObject({ qty: 18 });
+		expect(await wmsApi.pallets.getById(misplaced.id)).toMatchObject({ location_id: "W1-2-3-D" });
+		expect(await wmsApi.pallets.getById(missing.id)).toMatchObject({ status: "Stored", location_id: "W1-2-2-A" });
+
+		const history = await wmsApi.pallets.getHistory(misplaced.id);
+		setAuditActor(null);
+		expect(history.at(-1)).toMatchObject({
+			action: "move",
+			after: { location_id: "W1-2-3-D" },
+			reason: `Cycle count ${count.id.slice(-8)}`,
+		});
+
+		// A matching count needs no approval
+		const clean = await wmsApi.cycleCounts.create({ scope: "Item", item_id: PRODUCT.item_id });
+		const recount = await wmsApi.cycleCounts.submit(clean.id, [
+			{ location_id: "W1-2-1-A", pallet_id: exact.id, qty: 10 },
+			{ location_id: "W1-2-1-B", pallet_id: short.id, qty: 18 },
+			{ location_id: "W1-2-3-D", pallet_id: misplaced.id, qty: 30 },
+			{ location_id: "W1-2-2-A", pallet_id: missing.id, qty: 40 },
+		]);
+		expect(recount.status).toBe("Approved");
+		expect(await wmsApi.cycleCounts.query({ status: ["Submitted"] })).toEqual([]);
+	});
+
+	it("adds, blocks and retires locations", async () => {
+		const warehouse = await wmsApi.warehouses.getDefault();
+		const generated = generateLocations(warehouse, {
+			type: "RACK",
+			racks: [8, 9],
+			levels: [4, 5],
+			positions: ["A", "B"],
+		});
+		expect(generated).toHaveLength(8);
+		const added = await wmsApi.locations.create(generated);
+		expect(added.map((location) => location.location_id)).toEqual([
+			"W1-8-5-A",
+			"W1-8-5-B",
+			"W1-9-4-A",
+			"W1-9-4-B",
+			"W1-9-5-A",
+			"W1-9-5-B",
+		]);
+		expect(await wmsApi.locations.getById("W1-9-5-B")).toMatchObject({ is_active: true, is_blocked: false });
+
+		const batch = await wmsApi.locations.getAll(["W1-9-5-B", "W1-8-5-A", "W1-0-0-Z"]);
+		expect(batch.map((location) => location.location_id)).toEqual(["W1-8-5-A", "W1-9-5-B"]);
+
+		const [blocked] = await wmsApi.locations.update(["W1-9-5-B"], { is_blocked: true });
+		expect(blocked).toMatchObject({ location_id: "W1-9-5-B", is_blocked: true });
+		await expect(wmsApi.locations.update(["W1-9-5-A", "W1-0-0-Z"], { is_blocked: true })).rejects.toMatchObject({
+			code: "not_found",
+		});
+		expect(await wmsApi.locations.getById("W1-9-5-A")).toMatchObject({ is_blocked: false });
+
+		await wmsApi.products.create(PRODUCT);
+		await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 5,
+			status: "Stored",
+			is_cross_dock: false,
+			location_id: "W1-9-5-A",
+		});
+		await expect(wmsApi.locations.update(["W1-8-5-A", "W1-9-5-A"], { is_active: false })).rejects.toMatchObject({
+			code: "invalid_state",
+		});
+		expect(await wmsApi.locations.getById("W1-8-5-A")).toMatchObject({ is_active: true });
+		const retired = await wmsApi.locations.update(["W1-8-5-A", "W1-8-5-B"], { is_active: false });
+		expect(retired.every((location) => location.is_active === false)).toBe(true);
+	});
+
+	it("closes a manifest and ships its completed orders in one step", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const manifest = await wmsApi.manifests.create({ type: "Hand", seal_num: "HD-2", status: "Open" });
+		const done = await wmsApi.shippingOrders.create({
+			order_ref: "SO-4",
+			shipment_type: "Hand_Delivery",
+			status: "Completed",
+		});
+		const partial = await wmsApi.shippingOrders.create({
+			order_ref: "SO-5",
+			shipment_type: "Hand_Delivery",
+			status: "Completed",
+		});
+		const loaded = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 10,
+			status: "Loaded",
+			shipping_order_id: done.id,
+			manifest_id: manifest.id,
+			is_cross_dock: false,
+		});
+		await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 10,
+			status: "Loaded",
+			shipping_order_id: partial.id,
+			manifest_id: manifest.id,
+			is_cross_dock: false,
+		});
+		await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 10,
+			status: "Staged",
+			shipping_order_id: partial.id,
+			is_cross_dock: false,
+		});
+
+		const closed = await wmsApi.manifests.closeAndShip(manifest.id);
+
+		expect(closed).toMatchObject({ status: "Closed", closed_at: expect.any(String) });
+		expect(await wmsApi.pallets.getById(loaded.id)).toMatchObject({ status: "Shipped", shipped_at: closed.closed_at });
+		expect(await wmsApi.shippingOrders.getById(done.id)).toMatchObject({ status: "Shipped" });
+		expect(await wmsApi.shippingOrders.getById(partial.id)).toMatchObject({ status: "Completed" });
+		await expect(wmsApi.manifests.closeAndShip(manifest.id)).rejects.toThrow("Manifest is already Closed");
+	});
+
+	it("finishes a 100% cross-dock tally and finalizes receiving", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const receiving = await wmsApi.receivingOrders.create({
+			container_num: "MSCU7654321",
+			seal_num: "SEAL-2",
+			status: "Unloading",
+			created_by: "user-1",
+		});
+		const order = await wmsApi.shippingOrders.create({
+			order_ref: "SO-6",
+			shipment_type: "Container_Loading",
+			status: "Pending",
+		});
+		const pallet = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 50,
+			status: "Staged",
+			receiving_order_id: receiving.id,
+			shipping_order_id: order.id,
+			is_cross_dock: true,
+		});
+
+		await expect(wmsApi.receivingOrders.finalize(receiving.id)).rejects.toThrow("from Unloading to Received");
+
+		const tally = await wmsApi.receivingOrders.finishTally(receiving.id);
+		expect(tally).toMatchObject({ order: { status: "Staged" }, loadingOrderIds: [order.id] });
+		expect(await wmsApi.shippingOrders.getById(order.id)).toMatchObject({ status: "Loading" });
+
+		const finalized = await wmsApi.receivingOrders.finalize(receiving.id);
+		expect(finalized).toMatchObject({ status: "Received", finalized_at: expect.any(String) });
+		expect(await wmsApi.pallets.getById(pallet.id)).toMatchObject({ received_at: finalized.finalized_at });
+	});
+
+	it("rolls back every step when an atomic operation fails", async () => {
+		const createdAt = "2025-01-01T00:00:00Z";
+		const pallet = { item_id: PRODUCT.item_id, status: "Staged" as const, lpn: "", created_at: createdAt };
+		const inconsistent = createMemoryBackend({
+			storageKey: null,
+			initialState: {
+				products: [{ ...PRODUCT, id: "product-1", created_at: createdAt }],
+				receivingOrders: [
+					{
+						id: "rcv-1",
+						receipt_ref: "RCV-2025-0001",
+						container_num: "MSCU0000001",
+						seal_num: "SEAL-3",
+						status: "Unloading",
+						created_by: "user-1",
+						created_at: createdAt,
+					},
+				],
+				shippingOrders: [
+					{
+						id: "order-1",
+						order_ref: "SO-7",
+						shipment_type: "Hand_Delivery",
+						status: "Picking",
+						created_at: createdAt,
+					},
+				],
+				pallets: [
+					// Releasing the second pallet fails its qty check after the first one was written
+					{ ...pallet, id: "pallet-1", qty: 5, shipping_order_id: "order-1", is_cross_dock: false },
+					{ ...pallet, id: "pallet-2", qty: 0, shipping_order_id: "order-1", is_cross_dock: false },
+					// Cross-dock pallet pointing at a shipping order that does not exist
+					{
+						...pallet,
+						id: "pallet-3",
+						qty: 5,
+						receiving_order_id: "rcv-1",
+						shipping_order_id: "missing",
+						is_cross_dock: true,
+					},
+				],
+			},
+		});
+		const before = inconsistent.snapshot();
+
+		await expect(inconsistent.shippingOrders.cancelOrder("order-1")).rejects.toThrow("check constraint");
+		expect(inconsistent.snapshot()).toEqual(before);
+
+		await expect(inconsistent.receivingOrders.finishTally("rcv-1")).rejects.toThrow("Shipping order not found");
+		expect(inconsistent.snapshot()).toEqual(before);
+	});
+
+	it("records an audit trail of pallet and order mutations", async () => {
+		await wmsApi.products.create(PRODUCT);
+		setAuditActor({ id: "user-1", email: "ops@example.com" });
+		const order = await wmsApi.shippingOrders.create({
+			order_ref: "SO-8",
+			shipment_type: "Hand_Delivery",
+			status: "Pending",
+		});
+		const pallet = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 10,
+			status: "Received",
+			is_cross_dock: false,
+		});
+		await wmsApi.pallets.update(pallet.id, { status: "Stored", location_id: "W1-1-1-A" });
+		await wmsApi.pallets.update(pallet.id, { location_id: "W1-1-1-B" });
+		await wmsApi.pallets.update(pallet.id, { status: "WriteOff" }, { reason: "Damaged" });
+		setAuditActor(null);
+		await wmsApi.shippingOrders.cancelOrder(order.id);
+
+		const trail = await wmsApi.audit.query({ entity_type: "pallet", entity_id: pallet.id });
+		expect(trail.map((event) => event.action)).toEqual(["write_off", "move", "status_change", "create"]);
+		expect(trail[1]).toMatchObject({
+			actor_email: "ops@example.com",
+			before: { location_id: "W1-1-1-A" },
+			after: { location_id: "W1-1-1-B" },
+		});
+		expect(trail[0]).toMatchObject({ reason: "Damaged", after: { status: "WriteOff" } });
+		const history = await wmsApi.pallets.getHistory(pallet.id);
+		expect(history.map((event) => event.action)).toEqual(["create", "status_change", "move", "write_off"]);
+
+		expect(await wmsApi.audit.query({ action: "cancel" })).toMatchObject([
+			{ entity_id: order.id, actor_id: null, before: { status: "Pending" }, after: { status: "Cancelled" } },
+		]);
+		expect(await wmsApi.audit.query({ actor: "OPS@", entity_type: "shipping_order" })).toHaveLength(1);
+		expect(await wmsApi.audit.query({ created_at: { to: "2000-01-01T00:00:00Z" } })).toEqual([]);
+	});
+
+	it("records audit events within the operation that makes the change", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const pallet = await backend.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 10,
+			status: "Stored",
+			location_id: "W1-1-1-A",
+			is_cross_dock: false,
+		});
+		setAuditActor({ id: "user-1", email: "ops@example.com" });
+
+		const { created } = await backend.pallets.split(pallet.id, [4], { reason: "Two customers" });
+		await expect(backend.pallets.split(pallet.id, [6])).rejects.toThrow();
+		setAuditActor(null);
+
+		const splits = await wmsApi.audit.query({ action: "split" });
+		expect(splits).toHaveLength(2);
+		expect(splits).toEqual(
+			expect.arrayContaining([
+				expect.objectContaining({
+					entity_id: pallet.id,
+					actor_email: "ops@example.com",
+					before: { qty: 10 },
+					after: { qty: 6 },
+					reason: "Two customers",
+				}),
+				expect.objectContaining({ entity_id: created[0].id, before: null, reason: "Two customers" }),
+			])
+		);
+	});
+
+	it("pushes row changes to realtime subscribers", async () => {
+		await wmsApi.products.create(PRODUCT);
+		const receiving = await wmsApi.receivingOrders.create({
+			container_num: "MSCU1111111",
+			seal_num: "SEAL-3",
+			status: "Unloading",
+			created_by: "user-1",
+		});
+		const changes: WmsChange[] = [];
+		const unsubscribe = wmsApi.subscribe(
+			["receiving_orders", { table: "pallets", filter: { column: "receiving_order_id", value: receiving.id } }],
+			(change) => changes.push(change)
+		);
+
+		const pallet = await wmsApi.pallets.create({
+			item_id: PRODUCT.item_id,
+			qty: 10,
+			status: "Received",
+			receiving_order_id: receiving.id,
+			is_cross_dock: false,
+		});
+		await wmsApi.pallets.create({ item_id: PRODUCT.item_id, qty: 5, status: "Received", is_cross_dock: false });
+		await wmsApi.pallets.update(pallet.id, { qty: 12 });
+		await wmsApi.pallets.delete(pallet.id);
+		await wmsApi.receivingOrders.update(receiving.id, { seal_num: "SEAL-3B" });
+		await wmsApi.products.create({ ...PRODUCT, item_id: "ITEM-002" });
+
+		expect(changes.map(({ table, eventType, record }) => [table, eventType, record?.id])).toEqual([
+			["pallets", "INSERT", pallet.id],
+			["pallets", "UPDATE", pallet.id],
+			["pallets", "DELETE", pallet.id],
+			["receiving_orders", "UPDATE", receiving.id],
+		]);
+
+		unsubscribe();
+		await wmsApi.receivingOrders.update(receiving.id, { seal_num: "SEAL-3C" });
+		expect(changes).toHaveLength(4);
+	});
+
+	it("filters, sorts and paginates pallet queries", async () => {
+		await wmsApi.products.create(PRODUCT);
+		await wmsApi.products.create({ ...PRODUCT, item_id: "ITEM-002" });
+		for (const [index, qty] of [30, 10, 20, 40].entries()) {
+			await wmsApi.pallets.create({
+				item_id: index % 2 === 0 ? PRODUCT.item_id : "ITEM-002",
+				qty,
+				status: index === 3 ? "Shipped" : "Stored",
+				is_cross_dock: false,
+				received_at: `2025-01-0${index + 1}T12:00:00Z`,
+			});
+		}
+
+		const first = await wmsApi.pallets.query({ status: "Stored", sort: "qty", direction: "desc", limit: 2 });
+		expect(first.items.map((p) => p.qty)).toEqual([30, 20]);
+		const second = await wmsApi.pallets.query({
+			status: "Stored",
+			sort: "qty",
+			direction: "desc",
+			limit: 2,
+			cursor: first.nextCursor,
+		});
+		expect(second.items.map((p) => p.qty)).toEqual([10]);
+		expect(second.nextCursor).toBeNull();
+
+		const inRange = await wmsApi.pallets.getFiltered({
+			item_id: [PRODUCT.item_id],
+			received_at: { from: "2025-01-02T00:00:00Z", to: "2025-01-03T23:59:59Z" },
+		});
+		expect(inRange.map((p) => p.qty)).toEqual([20]);
+		expect(await wmsApi.pallets.getFiltered({ status: ["Stored", "Shipped"], location_id: null })).toHaveLength(4);
+	});
+
+	it("enforces database constraints", async () => {
+		await wmsApi.products.create(PRODUCT);
+
+		await expect(wmsApi.products.create(PRODUCT)).rejects.toThrow("duplicate key value");
+		await expect(wmsApi.products.create(PRODUCT)).rejects.toMatchObject({
+			code: "unique_violation",
+			pgCode: "23505",
+			fieldErrors: { item_id: expect.any(String) },
+		});
+		await expect(wmsApi.products.update("UNKNOWN", { description: "x" })).rejects.toBeInstanceOf(NotFoundError);
+		await expect(wmsApi.products.create({ ...PRODUCT, item_id: "ITEM-002", units_per_pallet: 0 })).rejects.toThrow(
+			"check constraint"
+		);
+		await expect(
+			wmsApi.pallets.create({ item_id: "UNKNOWN", qty: 1, status: "Received", is_cross_dock: false })
+		).rejects.toThrow("foreign key");
+		await wmsApi.shippingOrders.create({ order_ref: "SO-3", shipment_type: "Hand_Delivery", status: "Pending" });
+		await expect(
+			wmsApi.shippingOrders.create({ order_ref: "SO-3", shipment_type: "Hand_Delivery", status: "Pending" })
+		).rejects.toThrow("duplicate key value");
+	});
+
+	it("replaces the product master without deleting referenced products", async () => {
+		await wmsApi.products.create(PRODUCT);
+		await wmsApi.products.create({ ...PRODUCT, item_id: "ITEM-002" });
+		await wmsApi.pallets.create({ item_id: "ITEM-002", qty: 5, status: "Received", is_cross_dock: false });
+		const rows = [
+			{ item_id: "ITEM-001", description: "Widget", units_per_pallet: 60, pallet_positions: 1 },
+			{ item_id: "ITEM-003", description: "Gadget", units_per_pallet: 10, pallet_positions: 2 },
+		];
+
+		const preview = await wmsApi.products.uploadMaster(rows, { dryRun: true });
+		expect(preview.added.map((row) => row.item_id)).toEqual(["ITEM-003"]);
+		expect(preview.changed[0].fields).toEqual(["units_per_pallet"]);
+		expect(preview.deactivated.map((row) => row.item_id)).toEqual(["ITEM-002"]);
+		expect(await findProduct("ITEM-003")).toBeNull();
+
+		await wmsApi.products.uploadMaster(rows);
+		expect(await findProduct("ITEM-001")).toMatchObject({ units_per_pallet: 60, active: true });
+		expect(await findProduct("ITEM-002")).toMatchObject({ active: false });
+		expect(await findProduct("ITEM-003")).toMatchObject({ pallet_positions: 2, active: true });
+
+		// One bad row rejects the whole batch
+		await expect(
+			wmsApi.products.uploadMaster([...rows, { ...rows[1], item_id: "ITEM-004", units_per_pallet: 0 }])
+		).rejects.toThrow("units_per_pallet must be a whole number above 0 in product master: ITEM-004");
+		expect(await findProduct("ITEM-004")).toBeNull();
+
+		const reactivated = await wmsApi.products.uploadMaster([...rows, { ...rows[0], item_id: "ITEM-002" }]);
+		expect(reactivated.changed.find((change) => change.before.item_id === "ITEM-002")?.fields).toContain("active");
+		expect(await findProduct("ITEM-002")).toMatchObject({ active: true });
+	});
+
+	it("records a product version whenever the pallet spec changes", async () => {
+		await wmsApi.products.create(PRODUCT);
+		await wmsApi.products.update(PRODUCT.item_id, { description: "Renamed" });
+		await wmsApi.products.update(PRODUCT.item_id, { pallet_positions: 2 });
+		await wmsApi.products.uploadMaster([
+			{ item_id: PRODUCT.item_id, description: "Renamed", units_per_pallet: 40, pallet_positions: 2 },
+			{ item_id: "ITEM-002", description: "Gadget", units_per_pallet: 10, pallet_positions: 1 },
+		]);
+
+		const versions = await wmsApi.products.getVersions([PRODUCT.item_id]);
+		expect(versions.map((v) => [v.units_per_pallet, v.pallet_positions])).toEqual([
+			[50, 1],
+			[50, 2],
+			[40, 2],
+		]);
+		expect(await wmsApi.products.getVersions()).toHaveLength(4);
+	});
+
+	it("stores files and captures outgoing email", async () => {
+		await wmsApi.storage.upload("receiving", "order-1/photo_1.jpg", new File(["x"], "photo_1.jpg"));
+		await wmsApi.storage.upload("receiving", "order-1/form.pdf", new File(["y"], "form.pdf"));
+
+		expect(await wmsApi.storage.list("receiving", "order-1")).toEqual(["photo_1.jpg", "form.pdf"]);
+		expect(await wmsApi.storage.download("receiving", "order-1/form.pdf")).toBeInstanceOf(Blob);
+
+		await wmsApi.email.send("ops@example.com", "Cargo Received", "Body", [
+			{ filename: "form.pdf", content: "eA==", contentType: "application/pdf" },
+		]);
+		expect(backend.snapshot().outbox).toMatchObject([{ subject: "Cargo Received", attachments: ["form.pdf"] }]);
+	});
+
+	it("persists state to localStorage and resets to the seed", async () => {
+		const storageKey = "memory-backend-test";
+		const persistent = createMemoryBackend({ storageKey });
+		await persistent.products.create(PRODUCT);
+
+		expect(await createMemoryBackend({ storageKey }).products.getAll()).toHaveLength(1);
+
+		persistent.reset();
+		expect(persistent.snapshot().products).toEqual(createSeedState().products);
+		localStorage.removeItem(storageKey);
+	});
+});
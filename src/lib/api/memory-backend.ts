@@ -0,0 +1,1622 @@
+/**
+ * In-Memory Backend Adapter
+ *
+ * Complete WmsBackend implementation that keeps all data in the browser
+ * (optionally persisted to localStorage). Lets the full Screen 0–15 flow run
+ * without a Supabase project, for demos, training and integration tests.
+ *
+ * Mirrors the Supabase adapter's behaviour and the Phase 1 schema rules:
+ * - Unique item_id / order_ref and unique (order, item) lines
+ * - Positive quantities and product pallet specs
+ * - Container manifests need container_num; hand deliveries must not have one
+ * - Cancelling a shipping order releases its pallets back to Received
+ * - Inventory adjustments change the pallet qty and record the adjustment together
+ * - Approving (or reversing) a write-off updates the request and the pallet together;
+ *   approver roles are only checked by the Supabase RPC functions
+ * - Approving a cycle count posts all of its adjustments, moves and write-off
+ *   requests together
+ * - Locations holding pallets cannot be retired
+ * - Pallets get the next LPN of their warehouse on create and split; pallets
+ *   without one are backfilled when the data is loaded
+ * - Receiving orders get the next receipt ref of their year on create, and are
+ *   backfilled the same way
+ * - Multi-step operations (cancel order, close manifest, finish tally,
+ *   finalize receiving) are all-or-nothing, like the Postgres RPC functions
+ * - Every pallet, order and manifest change is recorded on the audit trail by
+ *   the operation that makes it (like the audit triggers); the trail is append-only
+ * - Realtime subscribers get a change for every row a write touched
+ *
+ * Uploaded files are kept in memory only; their names survive a reload but
+ * their content does not.
+ *
+ * @module lib/api/memoryBackend
+ */
+
+import type {
+	AuditEntityType,
+	AuditEvent,
+	CycleCount,
+	CycleCountLine,
+	InventoryAdjustment,
+	Location,
+	Manifest,
+	Pallet,
+	Product,
+	ProductVersion,
+	ReceivingOrder,
+	ReceivingOrderLine,
+	ShippingOrder,
+	ShippingOrderLine,
+	Warehouse,
+	WriteOffRequest,
+} from "../../types/domain";
+import type { EmailAttachment } from "../email-service";
+import { buildAuditEvent, DEFAULT_AUDIT_LIMIT, diffFields, getUpdateAction, matchesAuditFilters } from "./audit";
+import {
+	assertCountStatus,
+	buildCountLines,
+	CYCLE_COUNT_REASON,
+	getCountLocationIds,
+	hasVariance,
+	matchesCycleCountFilters,
+} from "./cycle-counts";
+import { ConflictError, NotFoundError, toWmsError, ValidationError, type WmsError } from "./errors";
+import {
+	ADJUSTMENT_REASONS,
+	assertAdjustable,
+	assertAdjustmentNotes,
+	describeAdjustment,
+	matchesAdjustmentFilters,
+} from "./inventory-adjustments";
+import { assertRetirable } from "./location-layout";
+import { assertMergeable, assertSplittable, getSplitInheritance } from "./pallet-lineage";
+import { formatLpn, getLpnWarehouse } from "./pallet-lpn";
+import {
+	comparePallets,
+	getPalletQueryOptions,
+	isAfterCursor,
+	matchesPalletFilters,
+	toPalletPage,
+} from "./pallet-query";
+import { diffProductMaster, validateProductMasterRows } from "./product-master";
+import {
+	DEFAULT_RECEIVING_SEARCH_LIMIT,
+	formatReceiptRef,
+	getReceiptRefYear,
+	matchesReceivingOrderFilters,
+} from "./receipt-ref";
+import { RELEASABLE_PALLET_STATUSES } from "./status-machine";
+import type {
+	ApprovalDecision,
+	CycleCountApproval,
+	InventoryAdjustmentInput,
+	PalletQuery,
+	WmsBackend,
+	WmsChange,
+	WmsSubscription,
+	WmsTable,
+	WriteOffRequestInput,
+} from "./wms-backend";
+import {
+	assertWriteOffPending,
+	assertWriteOffRequestable,
+	assertWriteOffReversible,
+	describeWriteOff,
+	getWriteOffReversalTarget,
+	matchesWriteOffFilters,
+	WRITE_OFF_REASONS,
+} from "./write-offs";
+
+/**
+ * Email captured by the in-memory adapter instead of being delivered
+ */
+export interface SentEmail {
+	id: string;
+	to: string;
+	subject: string;
+	body: string;
+	attachments: string[];
+	sent_at: string;
+}
+
+/**
+ * Stored file reference (content is kept separately, in memory only)
+ */
+export interface StoredFile {
+	bucket: string;
+	path: string;
+	uploaded_at: string;
+}
+
+/**
+ * Last LPN number handed out in a warehouse
+ */
+export interface PalletLpnSequence {
+	warehouse_id: string;
+	last_value: number;
+}
+
+/**
+ * Last receipt ref number handed out in a year
+ */
+export interface ReceiptRefSequence {
+	year: number;
+	last_value: number;
+}
+
+/**
+ * Full data set held by the in-memory adapter
+ */
+export interface MemoryState {
+	products: Product[];
+	productVersions: ProductVersion[];
+	warehouses: Warehouse[];
+	locations: Location[];
+	receivingOrders: ReceivingOrder[];
+	receivingOrderLines: ReceivingOrderLine[];
+	receiptRefSequences: ReceiptRefSequence[];
+	shippingOrders: ShippingOrder[];
+	shippingOrderLines: ShippingOrderLine[];
+	pallets: Pallet[];
+	palletLpnSequences: PalletLpnSequence[];
+	inventoryAdjustments: InventoryAdjustment[];
+	writeOffRequests: WriteOffRequest[];
+	cycleCounts: CycleCount[];
+	cycleCountLines: CycleCountLine[];
+	manifests: Manifest[];
+	files: StoredFile[];
+	outbox: SentEmail[];
+	auditEvents: AuditEvent[];
+}
+
+/**
+ * Options for createMemoryBackend
+ */
+export interface MemoryBackendOptions {
+	/** localStorage key used for persistence; null keeps data in memory only */
+	storageKey?: string | null;
+	/** Initial data used when nothing is persisted yet (defaults to the seeded W1 warehouse) */
+	initialState?: Partial<MemoryState>;
+}
+
+/**
+ * In-memory adapter with extra helpers for tests and demo resets
+ */
+export interface MemoryBackend extends WmsBackend {
+	/** Replace all data (defaults to the seeded warehouse) */
+	reset(state?: Partial<MemoryState>): void;
+	/** Deep copy of the current data */
+	snapshot(): MemoryState;
+}
+
+export const DEFAULT_MEMORY_STORAGE_KEY = "clogistics.wms.memory-backend";
+
+/** State table of each audited entity (the tables with a wms_audit_row trigger) */
+const AUDITED_TABLES: Record<AuditEntityType, "pallets" | "receivingOrders" | "shippingOrders" | "manifests"> = {
+	pallet: "pallets",
+	receiving_order: "receivingOrders",
+	shipping_order: "shippingOrders",
+	manifest: "manifests",
+};
+
+/** Same ID as the Phase 1 migration seed */
+const DEFAULT_WAREHOUSE_ID = "00000000-0000-0000-0000-000000000001";
+
+const RACK_COUNT = 8;
+const LEVEL_COUNT = 4;
+const POSITION_COUNT = 20; // A-T
+const AISLE_ZONE_COUNT = 4;
+
+/**
+ * Build the seeded warehouse layout: W1 racks 1-8, levels 1-4, positions A-T
+ * and aisle zones W1-AISLE-01..04
+ *
+ * @returns Empty data set containing only the warehouse and its locations
+ */
+export function createSeedState(): MemoryState {
+	const createdAt = new Date().toISOString();
+	const locations: Location[] = [];
+
+	for (let rack = 1; rack <= RACK_COUNT; rack++) {
+		for (let level = 1; level <= LEVEL_COUNT; level++) {
+			for (let p = 0; p < POSITION_COUNT; p++) {
+				const position = String.fromCodePoint(65 + p);
+				locations.push({
+					location_id: `W1-${rack}-${level}-${position}`,
+					warehouse_id: DEFAULT_WAREHOUSE_ID,
+					type: "RACK",
+					rack,
+					level,
+					position,
+					is_active: true,
+					is_blocked: false,
+					created_at: createdAt,
+				});
+			}
+		}
+	}
+
+	for (let zone = 1; zone <= AISLE_ZONE_COUNT; zone++) {
+		locations.push({
+			location_id: `W1-AISLE-${String(zone).padStart(2, "0")}`,
+			warehouse_id: DEFAULT_WAREHOUSE_ID,
+			type: "AISLE",
+			is_active: true,
+			is_blocked: false,
+			created_at: createdAt,
+		});
+	}
+
+	return {
+		products: [],
+		productVersions: [],
+		warehouses: [{ id: DEFAULT_WAREHOUSE_ID, code: "W1", name: "Main Warehouse", created_at: createdAt }],
+		locations,
+		receivingOrders: [],
+		receivingOrderLines: [],
+		receiptRefSequences: [],
+		shippingOrders: [],
+		shippingOrderLines: [],
+		pallets: [],
+		palletLpnSequences: [],
+		inventoryAdjustments: [],
+		writeOffRequests: [],
+		cycleCounts: [],
+		cycleCountLines: [],
+		manifests: [],
+		files: [],
+		outbox: [],
+		auditEvents: [],
+	};
+}
+
+/**
+ * Error mirroring a Postgres error (SQLSTATE code, message and details)
+ */
+function postgresError(code: string, message: string, details?: string): WmsError {
+	return toWmsError(Object.assign(new Error(message), { code, details }), message);
+}
+
+/**
+ * Error mirroring a Postgres unique constraint violation
+ *
+ * @param key - Conflicting columns and values, reported in the details like Postgres does
+ */
+function uniqueViolation(constraint: string, key: Record<string, unknown>): WmsError {
+	return postgresError(
+		"23505",
+		`duplicate key value violates unique constraint "${constraint}"`,
+		`Key (${Object.keys(key).join(", ")})=(${Object.values(key).join(", ")}) already exists.`
+	);
+}
+
+/**
+ * Error mirroring a Postgres check constraint violation
+ */
+function checkViolation(table: string, constraint: string): WmsError {
+	return postgresError("23514", `new row for relation "${table}" violates check constraint "${constraint}"`);
+}
+
+/**
+ * Apply updates to a stored pallet row, enforcing its check constraints
+ */
+function writePallet(pallet: Pallet, updates: Partial<Pallet> | Record<string, unknown>): void {
+	const next = { ...pallet, ...updates, id: pallet.id };
+	if (!(next.qty > 0)) {
+		throw checkViolation("pallets", "pallets_qty_check");
+	}
+	Object.assign(pallet, next);
+}
+
+/**
+ * Hand out the next LPN of a pallet's warehouse (the memory twin of the
+ * pallets_assign_lpn trigger)
+ */
+function nextLpn(state: MemoryState, pallet: Pick<Pallet, "location_id">): string {
+	const warehouse = getLpnWarehouse(pallet, state.locations, state.warehouses);
+	if (!warehouse) {
+		throw postgresError("23502", 'null value in column "lpn" of relation "pallets" violates not-null constraint');
+	}
+	let sequence = state.palletLpnSequences.find((s) => s.warehouse_id === warehouse.id);
+	if (!sequence) {
+		sequence = { warehouse_id: warehouse.id, last_value: 0 };
+		state.palletLpnSequences.push(sequence);
+	}
+	sequence.last_value += 1;
+	return formatLpn(warehouse.code, sequence.last_value);
+}
+
+/**
+ * Give pallets stored before LPNs existed theirs, oldest first (like the migration backfill)
+ */
+function backfillLpns(state: MemoryState): MemoryState {
+	const missing = state.pallets
+		.filter((p) => !p.lpn)
+		.sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+	for (const pallet of missing) {
+		pallet.lpn = nextLpn(state, pallet);
+	}
+	return state;
+}
+
+/**
+ * Hand out the next receipt ref of an order's year (the memory twin of the
+ * receiving_orders_assign_receipt_ref trigger)
+ */
+function nextReceiptRef(state: MemoryState, createdAt: string): string {
+	const year = getReceiptRefYear(createdAt);
+	let sequence = state.receiptRefSequences.find((s) => s.year === year);
+	if (!sequence) {
+		sequence = { year, last_value: 0 };
+		state.receiptRefSequences.push(sequence);
+	}
+	sequence.last_value += 1;
+	return formatReceiptRef(year, sequence.last_value);
+}
+
+/**
+ * Give orders stored before receipt refs existed theirs, oldest first (like the migration backfill)
+ */
+function backfillReceiptRefs(state: MemoryState): MemoryState {
+	const missing = state.receivingOrders
+		.filter((o) => !o.receipt_ref)
+		.sort((a, b) => a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id));
+	for (const order of missing) {
+		order.receipt_ref = nextReceiptRef(state, order.created_at);
+	}
+	return state;
+}
+
+/**
+ * Fields stamped when a write-off request or cycle count is approved or rejected
+ */
+function decisionFields(
+	decision: ApprovalDecision
+): Pick<WriteOffRequest, "decided_by" | "decided_by_email" | "decided_at" | "decision_notes"> {
+	return {
+		decided_by: decision.actor_id,
+		decided_by_email: decision.actor_email,
+		decided_at: now(),
+		decision_notes: decision.notes?.trim() || undefined,
+	};
+}
+
+/** State collection behind each realtime table */
+const REALTIME_TABLES: Record<WmsTable, keyof MemoryState> = {
+	receiving_orders: "receivingOrders",
+	receiving_order_lines: "receivingOrderLines",
+	shipping_orders: "shippingOrders",
+	shipping_order_lines: "shippingOrderLines",
+	pallets: "pallets",
+	manifests: "manifests",
+};
+
+/**
+ * Serialize each row of a table (id → JSON) so the next write can be diffed against it
+ */
+function fingerprint(rows: { id: string }[]): Map<string, string> {
+	return new Map(rows.map((row) => [row.id, JSON.stringify(row)]));
+}
+
+/**
+ * Check a change against a subscription's table and filter
+ */
+function matchesSubscription(change: WmsChange, subscription: WmsSubscription): boolean {
+	if (change.table !== subscription.table) return false;
+	if (!subscription.filter || !change.record) return true;
+	return String(change.record[subscription.filter.column]) === subscription.filter.value;
+}
+
+/**
+ * Copy a record so callers can never mutate adapter state
+ */
+function clone<T>(value: T): T {
+	return structuredClone(value);
+}
+
+/**
+ * Sort newest first by created_at
+ */
+function byCreatedDesc<T extends { created_at?: string }>(a: T, b: T): number {
+	return (b.created_at || "").localeCompare(a.created_at || "");
+}
+
+/**
+ * Current timestamp in the format Postgres returns
+ */
+function now(): string {
+	return new Date().toISOString();
+}
+
+/**
+ * Map key for a stored file
+ */
+function fileKey(bucket: string, path: string): string {
+	return `${bucket}/${path}`;
+}
+
+/**
+ * Enforce manifests_container_num_check: Container requires container_num; Hand forbids it
+ */
+function validateManifest(manifest: Pick<Manifest, "type" | "container_num">): void {
+	const valid = manifest.type === "Container" ? Boolean(manifest.container_num) : !manifest.container_num;
+	if (!valid) {
+		throw checkViolation("manifests", "manifests_container_num_check");
+	}
+}
+
+/**
+ * Enforce the products pallet spec checks
+ */
+function validateProduct(product: Pick<Product, "units_per_pallet" | "pallet_positions">): void {
+	if (!(product.units_per_pallet > 0)) {
+		throw checkViolation("products", "products_units_per_pallet_check");
+	}
+	if (!(product.pallet_positions >= 1)) {
+		throw checkViolation("products", "products_pallet_positions_check");
+	}
+}
+
+/**
+ * Create an in-memory backend
+ *
+ * @param options - Persistence and seed options
+ * @returns Backend adapter
+ */
+export function createMemoryBackend(options: MemoryBackendOptions = {}): MemoryBackend {
+	const storageKey = options.storageKey === undefined ? DEFAULT_MEMORY_STORAGE_KEY : options.storageKey;
+	const fileContents = new Map<string, Blob>();
+	const objectUrls = new Map<string, string>();
+
+	const buildState = (partial?: Partial<MemoryState>): MemoryState =>
+		backfillReceiptRefs(backfillLpns({ ...createSeedState(), ...clone(partial) }));
+
+	const loadPersisted = (): MemoryState | null => {
+		if (!storageKey || typeof localStorage === "undefined") return null;
+		try {
+			const raw = localStorage.getItem(storageKey);
+			return raw ? buildState(JSON.parse(raw) as Partial<MemoryState>) : null;
+		} catch (error) {
+			console.warn("[Memory Backend] Ignoring unreadable persisted state:", error);
+			return null;
+		}
+	};
+
+	let state: MemoryState = loadPersisted() ?? buildState(options.initialState);
+
+	const auditedTableRows = (entityType: AuditEntityType) =>
+		state[AUDITED_TABLES[entityType]] as unknown as { id: string }[];
+
+	const snapshotAuditedRows = () =>
+		new Map(
+			(Object.keys(AUDITED_TABLES) as AuditEntityType[]).map((entityType) => [
+				entityType,
+				fingerprint(auditedTableRows(entityType)),
+			])
+		);
+
+	/** Rows of each audited table as of the last recorded change */
+	let auditedRows = snapshotAuditedRows();
+
+	const subscribers = new Set<{ subscriptions: WmsSubscription[]; listener: (change: WmsChange) => void }>();
+	/** Last published rows of each watched table */
+	const fingerprints = new Map<WmsTable, Map<string, string>>();
+
+	/**
+	 * Record a product version when its pallet spec differs from the latest one
+	 * (the memory twin of the products_record_version trigger)
+	 */
+	const recordVersion = (product: Product, effectiveFrom: string) => {
+		const latest = state.productVersions.findLast((v) => v.item_id === product.item_id);
+		if (latest?.units_per_pallet === product.units_per_pallet && latest.pallet_positions === product.pallet_positions) {
+			return;
+		}
+		state.productVersions.push({
+			id: crypto.randomUUID(),
+			item_id: product.item_id,
+			units_per_pallet: product.units_per_pallet,
+			pallet_positions: product.pallet_positions,
+			effective_from: effectiveFrom,
+		});
+	};
+
+	const tableRows = (table: WmsTable) => state[REALTIME_TABLES[table]] as unknown as { id: string }[];
+
+	/**
+	 * Diff every watched table against its last fingerprint and push the row changes
+	 */
+	const publishChanges = () => {
+		for (const [table, previous] of fingerprints) {
+			const rows = tableRows(table);
+			const current = fingerprint(rows);
+			fingerprints.set(table, current);
+
+			const changes: WmsChange[] = [];
+			for (const row of rows) {
+				const before = previous.get(row.id);
+				if (before !== current.get(row.id)) {
+					changes.push({ table, eventType: before === undefined ? "INSERT" : "UPDATE", record: clone(row) });
+				}
+			}
+			for (const [id, json] of previous) {
+				if (!current.has(id)) {
+					changes.push({ table, eventType: "DELETE", record: JSON.parse(json) as Record<string, unknown> });
+				}
+			}
+
+			for (const change of changes) {
+				for (const { subscriptions, listener } of subscribers) {
+					if (!subscriptions.some((subscription) => matchesSubscription(change, subscription))) continue;
+					try {
+						listener(clone(change));
+					} catch (error) {
+						console.error("[Memory Backend] Realtime listener failed:", error);
+					}
+				}
+			}
+		}
+	};
+
+	/**
+	 * Append an audit event stamped with the current actor
+	 */
+	const recordEvent = (
+		entityType: AuditEntityType,
+		entityId: string,
+		action: string,
+		change: Parameters<typeof buildAuditEvent>[3],
+		reason?: string
+	) => {
+		state.auditEvents.push({
+			...buildAuditEvent(entityType, entityId, action, change, { reason }),
+			id: crypto.randomUUID(),
+			created_at: now(),
+		});
+	};
+
+	/**
+	 * Record every audited row changed since the last call (the memory twin of
+	 * the wms_audit_row trigger)
+	 *
+	 * Operations name what they did like the RPCs do with wms_audit_as; other
+	 * changes get create, delete or the action getUpdateAction derives.
+	 *
+	 * @param action - Action of the changes
+	 * @param reason - Why they were made
+	 */
+	const recordChanges = (action?: string, reason?: string) => {
+		const recorded = snapshotAuditedRows();
+		for (const [entityType, current] of recorded) {
+			const previous = auditedRows.get(entityType) ?? new Map<string, string>();
+			for (const [id, json] of current) {
+				const before = previous.get(id);
+				if (before === json) continue;
+				const after = JSON.parse(json) as Record<string, unknown>;
+				if (before === undefined) {
+					recordEvent(entityType, id, action ?? "create", { before: null, after }, reason);
+					continue;
+				}
+				const row = JSON.parse(before) as Record<string, unknown>;
+				const change = diffFields(row, after, Object.keys({ ...row, ...after }));
+				if (change) {
+					recordEvent(entityType, id, action ?? getUpdateAction(entityType, change.after), change, reason);
+				}
+			}
+			for (const [id, json] of previous) {
+				if (!current.has(id)) {
+					const before = JSON.parse(json) as Record<string, unknown>;
+					recordEvent(entityType, id, action ?? "delete", { before, after: null }, reason);
+				}
+			}
+		}
+		auditedRows = recorded;
+	};
+
+	const persist = () => {
+		recordChanges();
+		publishChanges();
+		if (!storageKey || typeof localStorage === "undefined") return;
+		try {
+			localStorage.setItem(storageKey, JSON.stringify(state));
+		} catch (error) {
+			console.warn("[Memory Backend] Failed to persist state:", error);
+		}
+	};
+
+	/**
+	 * Run a multi-step operation all-or-nothing, like a Postgres transaction:
+	 * on error the state is restored to what it was before the call.
+	 */
+	const transaction = <T>(operation: () => T): T => {
+		const before = clone(state);
+		const audited = auditedRows;
+		try {
+			const result = operation();
+			persist();
+			return result;
+		} catch (error) {
+			state = before;
+			auditedRows = audited;
+			throw error;
+		}
+	};
+
+	const requireProduct = (itemId: string) => {
+		if (!state.products.some((p) => p.item_id === itemId)) {
+			throw postgresError(
+				"23503",
+				`insert or update violates foreign key constraint: product "${itemId}" does not exist`,
+				`Key (item_id)=(${itemId}) is not present in table "products".`
+			);
+		}
+	};
+
+	const findPallet = (id: string): Pallet => {
+		const pallet = state.pallets.find((p) => p.id === id);
+		if (!pallet) {
+			throw new NotFoundError("Pallet not found");
+		}
+		return pallet;
+	};
+
+	const insertAdjustment = (adjustment: InventoryAdjustmentInput): InventoryAdjustment => {
+		const pallet = findPallet(adjustment.pallet_id);
+		assertAdjustable(pallet, adjustment.qty_change);
+		if (!(ADJUSTMENT_REASONS as readonly string[]).includes(adjustment.reason)) {
+			throw checkViolation("inventory_adjustments", "inventory_adjustments_reason_check");
+		}
+		assertAdjustmentNotes(adjustment);
+		const created: InventoryAdjustment = {
+			...adjustment,
+			id: crypto.randomUUID(),
+			item_id: pallet.item_id,
+			qty_before: pallet.qty,
+			qty_after: pallet.qty + adjustment.qty_change,
+			created_at: now(),
+		};
+		writePallet(pallet, { qty: created.qty_after });
+		state.inventoryAdjustments.push(created);
+		recordChanges("adjust", describeAdjustment(created));
+		return created;
+	};
+
+	const insertWriteOffRequest = (request: WriteOffRequestInput): WriteOffRequest => {
+		const pallet = findPallet(request.pallet_id);
+		assertWriteOffRequestable(pallet, state.writeOffRequests);
+		if (!(WRITE_OFF_REASONS as readonly string[]).includes(request.reason)) {
+			throw checkViolation("write_off_requests", "write_off_requests_reason_check");
+		}
+		const created: WriteOffRequest = {
+			...request,
+			notes: request.notes?.trim() || undefined,
+			id: crypto.randomUUID(),
+			item_id: pallet.item_id,
+			qty: pallet.qty,
+			status: "Pending",
+			requested_at: now(),
+		};
+		state.writeOffRequests.push(created);
+		recordEvent(
+			"pallet",
+			pallet.id,
+			"request_write_off",
+			{ before: null, after: { write_off_request_id: created.id, qty: created.qty } },
+			describeWriteOff(created)
+		);
+		return created;
+	};
+
+	const findCycleCount = (id: string): CycleCount => {
+		const count = state.cycleCounts.find((c) => c.id === id);
+		if (!count) {
+			throw new NotFoundError("Cycle count not found");
+		}
+		return count;
+	};
+
+	const withCountLines = (count: CycleCount) => ({
+		...clone(count),
+		lines: clone(state.cycleCountLines.filter((l) => l.cycle_count_id === count.id)),
+	});
+
+	const findWriteOffRequest = (id: string): WriteOffRequest => {
+		const request = state.writeOffRequests.find((r) => r.id === id);
+		if (!request) {
+			throw new NotFoundError("Write-off request not found");
+		}
+		return request;
+	};
+
+	const insertReceivingLine = (line: Omit<ReceivingOrderLine, "id" | "created_at">): ReceivingOrderLine => {
+		if (!state.receivingOrders.some((o) => o.id === line.receiving_order_id)) {
+			throw new NotFoundError("Receiving order not found");
+		}
+		requireProduct(line.item_id);
+		if (!(line.expected_qty > 0)) {
+			throw checkViolation("receiving_order_lines", "receiving_order_lines_expected_qty_check");
+		}
+		if (
+			state.receivingOrderLines.some(
+				(l) => l.receiving_order_id === line.receiving_order_id && l.item_id === line.item_id
+			)
+		) {
+			throw uniqueViolation("receiving_order_lines_receiving_order_id_item_id_key", {
+				receiving_order_id: line.receiving_order_id,
+				item_id: line.item_id,
+			});
+		}
+		const created: ReceivingOrderLine = { ...line, id: crypto.randomUUID(), created_at: now() };
+		state.receivingOrderLines.push(created);
+		return created;
+	};
+
+	const withReceivingLines = (order: ReceivingOrder) => ({
+		...clone(order),
+		lines: clone(state.receivingOrderLines.filter((l) => l.receiving_order_id === order.id)),
+	});
+
+	const withShippingLines = (order: ShippingOrder) => ({
+		...clone(order),
+		lines: clone(state.shippingOrderLines.filter((l) => l.shipping_order_id === order.id)),
+	});
+
+	const backend: MemoryBackend = {
+		name: "memory",
+
+		reset(partial?: Partial<MemoryState>) {
+			state = buildState(partial);
+			auditedRows = snapshotAuditedRows();
+			fileContents.clear();
+			objectUrls.clear();
+			persist();
+		},
+
+		snapshot() {
+			return clone(state);
+		},
+
+		products: {
+			async getAll() {
+				return clone([...state.products].sort((a, b) => a.item_id.localeCompare(b.item_id)));
+			},
+
+			async getById(id) {
+				const product = state.products.find((p) => p.id === id);
+				if (!product) {
+					throw new NotFoundError("Product not found");
+				}
+				return clone(product);
+			},
+
+			async create(product) {
+				validateProduct(product);
+				if (state.products.some((p) => p.item_id === product.item_id)) {
+					throw uniqueViolation("products_pkey", { item_id: product.item_id });
+				}
+				const created: Product = { ...product, id: crypto.randomUUID(), created_at: now() };
+				state.products.push(created);
+				recordVersion(created, created.created_at);
+				persist();
+				return clone(created);
+			},
+
+			async update(itemId, updates) {
+				const product = state.products.find((p) => p.item_id === itemId);
+				if (!product) {
+					throw new NotFoundError("Product not found");
+				}
+				const next = { ...product, ...updates, id: product.id, item_id: product.item_id };
+				validateProduct(next);
+				Object.assign(product, next);
+				recordVersion(product, now());
+				persist();
+				return clone(product);
+			},
+
+			async getByItemId(item_id) {
+				const product = state.products.find((p) => p.item_id === item_id);
+				if (!product) {
+					throw new NotFoundError(`Product with item_id "${item_id}" not found`);
+				}
+				return clone(product);
+			},
+
+			async uploadMaster(rows, options = {}) {
+				validateProductMasterRows(rows);
+				const diff = diffProductMaster(clone(state.products), rows);
+				if (options.dryRun) {
+					return diff;
+				}
+
+				transaction(() => {
+					for (const row of rows) validateProduct(row);
+					const appliedAt = now();
+					for (const { before, after } of diff.changed) {
+						const product = state.products.find((p) => p.id === before.id) as Product;
+						Object.assign(product, { ...after, active: true });
+						recordVersion(product, appliedAt);
+					}
+					for (const row of diff.added) {
+						const created: Product = { ...row, active: true, id: crypto.randomUUID(), created_at: appliedAt };
+						state.products.push(created);
+						recordVersion(created, appliedAt);
+					}
+					const missing = new Set(diff.deactivated.map((p) => p.id));
+					for (const product of state.products) {
+						if (missing.has(product.id)) product.active = false;
+					}
+				});
+				return diff;
+			},
+
+			async getVersions(itemIds) {
+				const wanted = itemIds ? new Set(itemIds) : null;
+				return clone(
+					state.productVersions
+						.filter((v) => !wanted || wanted.has(v.item_id))
+						.sort((a, b) => a.effective_from.localeCompare(b.effective_from))
+				);
+			},
+		},
+
+		receivingOrderLines: {
+			async create(line) {
+				const created = insertReceivingLine(line);
+				persist();
+				return clone(created);
+			},
+
+			async getByReceivingOrderId(receivingOrderId) {
+				return clone(state.receivingOrderLines.filter((l) => l.receiving_order_id === receivingOrderId));
+			},
+		},
+
+		receivingOrders: {
+			async create(order) {
+				const createdAt = now();
+				const created: ReceivingOrder = {
+					...order,
+					status: order.status || "Pending",
+					id: crypto.randomUUID(),
+					receipt_ref: nextReceiptRef(state, createdAt),
+					created_at: createdAt,
+				};
+				delete created.lines;
+				state.receivingOrders.push(created);
+				persist();
+				return clone(created);
+			},
+
+			async getById(id) {
+				const order = state.receivingOrders.find((o) => o.id === id);
+				if (!order) {
+					throw new NotFoundError("Receiving order not found");
+				}
+				return withReceivingLines(order);
+			},
+
+			async update(id, updates, options) {
+				const order = state.receivingOrders.find((o) => o.id === id);
+				if (!order) {
+					throw new NotFoundError("Receiving order not found");
+				}
+				const { lines: _lines, ...columns } = updates;
+				Object.assign(order, columns, { id });
+				recordChanges(undefined, options?.reason);
+				persist();
+				return clone(order);
+			},
+
+			async createLines(lines) {
+				const created = lines.map(({ created_at: _createdAt, ...line }) => insertReceivingLine(line));
+				persist();
+				return clone(created);
+			},
+
+			async list() {
+				return [...state.receivingOrders].sort(byCreatedDesc).map((order) => withReceivingLines(order));
+			},
+
+			async getAll() {
+				return clone([...state.receivingOrders].sort(byCreatedDesc));
+			},
+
+			async query(filters) {
+				return clone(
+					state.receivingOrders
+						.filter((order) => matchesReceivingOrderFilters(order, filters))
+						.sort(byCreatedDesc)
+						.slice(0, filters.limit ?? DEFAULT_RECEIVING_SEARCH_LIMIT)
+				);
+			},
+
+			async finishTally(id) {
+				return transaction(() => {
+					const order = state.receivingOrders.find((o) => o.id === id);
+					if (!order) {
+						throw new NotFoundError("Receiving order not found");
+					}
+					if (order.status === "Received") {
+						throw new ConflictError("Receiving order is already Received");
+					}
+					const orderPallets = state.pallets.filter((p) => p.receiving_order_id === id);
+					if (orderPallets.length === 0) {
+						throw new ConflictError("Receiving order has no pallets");
+					}
+					order.status = "Staged";
+
+					// 100% SHIP-NOW: the cross-dock orders go straight to Loading
+					const loadingOrderIds: string[] = [];
+					if (orderPallets.every((p) => p.is_cross_dock)) {
+						const shippingOrderIds = new Set(orderPallets.map((p) => p.shipping_order_id).filter(Boolean));
+						for (const shippingOrderId of shippingOrderIds) {
+							const shippingOrder = state.shippingOrders.find((o) => o.id === shippingOrderId);
+							if (!shippingOrder) {
+								throw new NotFoundError("Shipping order not found");
+							}
+							if (shippingOrder.status === "Pending" || shippingOrder.status === "Picking") {
+								shippingOrder.status = "Loading";
+							}
+							if (shippingOrder.status === "Loading") {
+								loadingOrderIds.push(shippingOrder.id);
+							}
+						}
+					}
+					recordChanges("finish_tally");
+					return { order: clone(order), loadingOrderIds };
+				});
+			},
+
+			async finalize(id) {
+				return transaction(() => {
+					const order = state.receivingOrders.find((o) => o.id === id);
+					if (!order) {
+						throw new NotFoundError("Receiving order not found");
+					}
+					if (order.status !== "Staged") {
+						throw new ConflictError(`Receiving order must be Staged to finalize (current: ${order.status})`);
+					}
+					const finalizedAt = now();
+					order.status = "Received";
+					order.finalized_at = finalizedAt;
+					for (const pallet of state.pallets.filter((p) => p.receiving_order_id === id && !p.received_at)) {
+						writePallet(pallet, { received_at: finalizedAt });
+					}
+					recordChanges("finalize");
+					return clone(order);
+				});
+			},
+		},
+
+		pallets: {
+			async create(pallet) {
+				requireProduct(pallet.item_id);
+				if (!(pallet.qty > 0)) {
+					throw checkViolation("pallets", "pallets_qty_check");
+				}
+				const created: Pallet = {
+					...pallet,
+					status: pallet.status || "Received",
+					is_cross_dock: pallet.is_cross_dock ?? false,
+					id: crypto.randomUUID(),
+					lpn: nextLpn(state, pallet),
+					created_at: now(),
+				};
+				state.pallets.push(created);
+				persist();
+				return clone(created);
+			},
+
+			async getAll() {
+				return clone(state.pallets);
+			},
+
+			async getById(id) {
+				return clone(findPallet(id));
+			},
+
+			async query(query: PalletQuery) {
+				const options = getPalletQueryOptions(query);
+				const rows = state.pallets
+					.filter((p) => matchesPalletFilters(p, query) && isAfterCursor(p, options))
+					.sort(comparePallets(options))
+					.slice(0, options.limit + 1);
+				return toPalletPage(clone(rows), options);
+			},
+
+			async update(id, updates, options) {
+				const pallet = findPallet(id);
+				if (updates.item_id) {
+					requireProduct(updates.item_id);
+				}
+				writePallet(pallet, updates);
+				recordChanges(undefined, options?.reason);
+				persist();
+				return clone(pallet);
+			},
+
+			async delete(id, options) {
+				state.pallets = state.pallets.filter((p) => p.id !== id);
+				// inventory_adjustments.pallet_id is on delete cascade
+				state.inventoryAdjustments = state.inventoryAdjustments.filter((a) => a.pallet_id !== id);
+				state.writeOffRequests = state.writeOffRequests.filter((r) => r.pallet_id !== id);
+				state.cycleCountLines = state.cycleCountLines.filter((l) => l.pallet_id !== id);
+				recordChanges(undefined, options?.reason);
+				persist();
+			},
+
+			async split(id, qtys, options) {
+				return transaction(() => {
+					const source = findPallet(id);
+					assertSplittable(source, qtys);
+					const created = qtys.map((qty) => {
+						const pallet: Pallet = {
+							...getSplitInheritance(source),
+							qty,
+							id: crypto.randomUUID(),
+							lpn: nextLpn(state, source),
+							created_at: now(),
+						};
+						state.pallets.push(pallet);
+						return pallet;
+					});
+					writePallet(source, { qty: source.qty - qtys.reduce((sum, qty) => sum + qty, 0) });
+					recordChanges("split", options?.reason);
+					return clone({ source, created });
+				});
+			},
+
+			async merge(ids, options) {
+				return transaction(() => {
+					const merged = ids.map((id) => findPallet(id));
+					assertMergeable(merged);
+					const [target, ...others] = merged;
+					writePallet(target, { qty: merged.reduce((sum, p) => sum + p.qty, 0) });
+					for (const pallet of others) {
+						writePallet(pallet, {
+							status: "Merged",
+							merged_into_id: target.id,
+							location_id: null,
+							shipping_order_id: null,
+						});
+					}
+					recordChanges("merge", options?.reason);
+					return clone(target);
+				});
+			},
+		},
+
+		adjustments: {
+			async create(adjustment) {
+				return transaction(() => clone(insertAdjustment(adjustment)));
+			},
+
+			async query(filters) {
+				return clone(
+					state.inventoryAdjustments.filter((adjustment) => matchesAdjustmentFilters(adjustment, filters)).reverse()
+				);
+			},
+		},
+
+		writeOffs: {
+			async request(request) {
+				return transaction(() => clone(insertWriteOffRequest(request)));
+			},
+
+			async approve(id, decision) {
+				return transaction(() => {
+					const request = findWriteOffRequest(id);
+					assertWriteOffPending(request, "approve");
+					const pallet = findPallet(request.pallet_id);
+					assertWriteOffRequestable(pallet, []);
+					Object.assign(request, {
+						status: "Approved",
+						...decisionFields(decision),
+						prior_status: pallet.status,
+						prior_location_id: pallet.location_id ?? null,
+					});
+					writePallet(pallet, { status: "WriteOff", location_id: null, shipping_order_id: null, manifest_id: null });
+					recordChanges("write_off", describeWriteOff(request));
+					return clone(request);
+				});
+			},
+
+			async reject(id, decision) {
+				return transaction(() => {
+					const request = findWriteOffRequest(id);
+					assertWriteOffPending(request, "reject");
+					Object.assign(request, { status: "Rejected", ...decisionFields(decision) });
+					recordEvent(
+						"pallet",
+						request.pallet_id,
+						"reject_write_off",
+						{ before: null, after: { write_off_request_id: request.id } },
+						request.decision_notes
+					);
+					return clone(request);
+				});
+			},
+
+			async reverse(id, decision) {
+				return transaction(() => {
+					const request = findWriteOffRequest(id);
+					const pallet = findPallet(request.pallet_id);
+					assertWriteOffReversible(request, pallet);
+					Object.assign(request, {
+						status: "Reversed",
+						reversed_by: decision.actor_id,
+						reversed_by_email: decision.actor_email,
+						reversed_at: now(),
+						reversal_notes: decision.notes?.trim() || undefined,
+					});
+					writePallet(pallet, getWriteOffReversalTarget(request, pallet, state.locations, state.pallets));
+					recordChanges("reverse_write_off", request.reversal_notes);
+					return clone(request);
+				});
+			},
+
+			async query(filters) {
+				return clone(state.writeOffRequests.filter((request) => matchesWriteOffFilters(request, filters)).reverse());
+			},
+		},
+
+		cycleCounts: {
+			async create(count) {
+				const created: CycleCount = {
+					...count,
+					notes: count.notes?.trim() || undefined,
+					id: crypto.randomUUID(),
+					location_ids: getCountLocationIds(count, state.locations, state.pallets),
+					status: "Open",
+					created_at: now(),
+				};
+				state.cycleCounts.push(created);
+				persist();
+				return clone(created);
+			},
+
+			async getById(id) {
+				return withCountLines(findCycleCount(id));
+			},
+
+			async query(filters) {
+				return clone(state.cycleCounts.filter((count) => matchesCycleCountFilters(count, filters)).reverse());
+			},
+
+			async submit(id, entries, counter) {
+				return transaction(() => {
+					const count = findCycleCount(id);
+					assertCountStatus(count, "Open", "submit");
+					const lines = buildCountLines(count, state.pallets, entries).map((line) => ({
+						...line,
+						id: crypto.randomUUID(),
+						cycle_count_id: id,
+					}));
+					state.cycleCountLines.push(...lines);
+					Object.assign(count, {
+						// Nothing for Customer Service to approve
+						status: lines.some((line) => hasVariance(line)) ? "Submitted" : "Approved",
+						counted_by: counter.actor_id,
+						counted_by_email: counter.actor_email,
+						counted_at: now(),
+					});
+					return withCountLines(count);
+				});
+			},
+
+			async approve(id, decision) {
+				return transaction(() => {
+					const count = findCycleCount(id);
+					assertCountStatus(count, "Submitted", "approve");
+					const notes = `Cycle count ${count.id.slice(-8)}`;
+					const approval: CycleCountApproval = { count, adjustments: [], writeOffRequests: [], moves: [] };
+
+					for (const line of state.cycleCountLines.filter((l) => l.cycle_count_id === id && hasVariance(l))) {
+						const pallet = findPallet(line.pallet_id);
+						if (line.location_id === null) {
+							// Not found: someone has to sign the write-off off
+							if (!state.writeOffRequests.some((r) => r.pallet_id === pallet.id && r.status === "Pending")) {
+								approval.writeOffRequests.push(
+									insertWriteOffRequest({
+										pallet_id: pallet.id,
+										reason: CYCLE_COUNT_REASON,
+										notes: `Not found in ${notes}`,
+										requested_by: decision.actor_id,
+										requested_by_email: decision.actor_email,
+									})
+								);
+							}
+							continue;
+						}
+						if (line.location_id !== pallet.location_id) {
+							approval.moves.push({ pallet_id: pallet.id, from: pallet.location_id ?? null, to: line.location_id });
+							writePallet(pallet, { location_id: line.location_id });
+							recordChanges("move", notes);
+						}
+						if (line.counted_qty !== pallet.qty) {
+							approval.adjustments.push(
+								insertAdjustment({
+									pallet_id: pallet.id,
+									qty_change: line.counted_qty - pallet.qty,
+									reason: CYCLE_COUNT_REASON,
+									notes,
+									created_by: decision.actor_id,
+									created_by_email: decision.actor_email,
+								})
+							);
+						}
+					}
+
+					Object.assign(count, { status: "Approved", ...decisionFields(decision) });
+					return clone(approval);
+				});
+			},
+
+			async reject(id, decision) {
+				return transaction(() => {
+					const count = findCycleCount(id);
+					assertCountStatus(count, "Submitted", "reject");
+					Object.assign(count, { status: "Rejected", ...decisionFields(decision) });
+					return clone(count);
+				});
+			},
+		},
+
+		shippingOrders: {
+			async create(order) {
+				if (state.shippingOrders.some((o) => o.order_ref === order.order_ref)) {
+					throw uniqueViolation("shipping_orders_order_ref_key", { order_ref: order.order_ref });
+				}
+				const created: ShippingOrder = {
+					...order,
+					status: order.status || "Pending",
+					id: crypto.randomUUID(),
+					created_at: now(),
+				};
+				delete created.lines;
+				state.shippingOrders.push(created);
+				persist();
+				return clone(created);
+			},
+
+			async getAll() {
+				return [...state.shippingOrders].sort(byCreatedDesc).map((order) => withShippingLines(order));
+			},
+
+			async getById(id) {
+				const order = state.shippingOrders.find((o) => o.id === id);
+				if (!order) {
+					throw new NotFoundError("Shipping order not found");
+				}
+				return withShippingLines(order);
+			},
+
+			async update(id, updates, options) {
+				const order = state.shippingOrders.find((o) => o.id === id);
+				if (!order) {
+					throw new NotFoundError("Shipping order not found");
+				}
+				if (updates.order_ref && state.shippingOrders.some((o) => o.id !== id && o.order_ref === updates.order_ref)) {
+					throw uniqueViolation("shipping_orders_order_ref_key", { order_ref: updates.order_ref });
+				}
+				const { lines: _lines, ...columns } = updates;
+				Object.assign(order, columns, { id });
+				recordChanges(undefined, options?.reason);
+				persist();
+				return clone(order);
+			},
+
+			async createLines(lines) {
+				const created = lines.map((line) => {
+					if (!state.shippingOrders.some((o) => o.id === line.shipping_order_id)) {
+						throw new NotFoundError("Shipping order not found");
+					}
+					requireProduct(line.item_id);
+					if (!(line.requested_qty > 0)) {
+						throw checkViolation("shipping_order_lines", "shipping_order_lines_requested_qty_check");
+					}
+					if (
+						state.shippingOrderLines.some(
+							(l) => l.shipping_order_id === line.shipping_order_id && l.item_id === line.item_id
+						)
+					) {
+						throw uniqueViolation("shipping_order_lines_shipping_order_id_item_id_key", {
+							shipping_order_id: line.shipping_order_id,
+							item_id: line.item_id,
+						});
+					}
+					const row: ShippingOrderLine = { ...line, id: crypto.randomUUID(), created_at: line.created_at || now() };
+					state.shippingOrderLines.push(row);
+					return row;
+				});
+				persist();
+				return clone(created);
+			},
+
+			async cancelOrder(id, options) {
+				return transaction(() => {
+					const order = state.shippingOrders.find((o) => o.id === id);
+					if (!order) {
+						throw new NotFoundError("Shipping order not found");
+					}
+					order.status = "Cancelled";
+					order.cancelled_at = now();
+					recordChanges("cancel", options?.reason);
+
+					// Release pallets still in the warehouse: back to Received (forces put-away), unassigned
+					const released = state.pallets.filter(
+						(p) => p.shipping_order_id === id && RELEASABLE_PALLET_STATUSES.includes(p.status)
+					);
+					for (const pallet of released) {
+						writePallet(pallet, { status: "Received", shipping_order_id: null, manifest_id: null });
+					}
+					recordChanges("release", options?.reason);
+					return clone(order);
+				});
+			},
+		},
+
+		warehouses: {
+			async getDefault() {
+				const warehouse = state.warehouses.find((w) => w.code === "W1");
+				if (!warehouse) {
+					throw new NotFoundError("Default warehouse not found");
+				}
+				return clone(warehouse);
+			},
+		},
+
+		locations: {
+			async getAll(location_ids) {
+				const wanted = location_ids ? new Set(location_ids) : null;
+				return clone(
+					state.locations
+						.filter((l) => !wanted || wanted.has(l.location_id))
+						.sort((a, b) => a.location_id.localeCompare(b.location_id))
+				);
+			},
+
+			async getById(location_id) {
+				const location = state.locations.find((l) => l.location_id === location_id);
+				if (!location) {
+					throw new NotFoundError(`Location with ID ${location_id} not found`);
+				}
+				return clone(location);
+			},
+
+			async resolve(warehouse_id, rack, level, position) {
+				const location = state.locations.find((l) => {
+					if (l.warehouse_id !== warehouse_id) return false;
+					if (rack === "AISLE") {
+						// Aisle zone: level parameter is the zone number (1-4)
+						return l.type === "AISLE" && l.location_id === `W1-AISLE-${String(level).padStart(2, "0")}`;
+					}
+					return l.type === "RACK" && l.rack === Number(rack) && l.level === Number(level) && l.position === position;
+				});
+				if (!location) {
+					throw new NotFoundError("Location not found");
+				}
+				return clone(location);
+			},
+
+			async create(locations) {
+				return transaction(() => {
+					const existing = new Set(state.locations.map((l) => l.location_id));
+					const created = locations
+						.filter((location) => !existing.has(location.location_id))
+						.map((location) => ({ ...location, created_at: now() }));
+					state.locations.push(...created);
+					return clone(created);
+				});
+			},
+
+			async update(location_ids, updates) {
+				return transaction(() =>
+					location_ids.map((id) => {
+						const location = state.locations.find((l) => l.location_id === id);
+						if (!location) {
+							throw new NotFoundError(`Location with ID ${id} not found`);
+						}
+						if (updates.is_active === false && location.is_active !== false) {
+							assertRetirable(location, state.pallets);
+						}
+						Object.assign(location, updates);
+						return clone(location);
+					})
+				);
+			},
+		},
+
+		storage: {
+			async upload(bucket, path, file) {
+				const key = fileKey(bucket, path);
+				fileContents.set(key, file);
+				objectUrls.delete(key);
+				state.files = state.files.filter((f) => fileKey(f.bucket, f.path) !== key);
+				state.files.push({ bucket, path, uploaded_at: now() });
+				persist();
+				return backend.storage.getPublicUrl(bucket, path);
+			},
+
+			async download(bucket, path) {
+				const content = fileContents.get(fileKey(bucket, path));
+				if (!content) {
+					throw new Error("Download failed");
+				}
+				return content;
+			},
+
+			async delete(bucket, path) {
+				const key = fileKey(bucket, path);
+				fileContents.delete(key);
+				objectUrls.delete(key);
+				state.files = state.files.filter((f) => fileKey(f.bucket, f.path) !== key);
+				persist();
+			},
+
+			async list(bucket, folder) {
+				const prefix = folder.endsWith("/") ? folder : `${folder}/`;
+				return state.files
+					.filter((f) => f.bucket === bucket && f.path.startsWith(prefix) && !f.path.slice(prefix.length).includes("/"))
+					.map((f) => f.path.slice(prefix.length));
+			},
+
+			getPublicUrl(bucket, path) {
+				const key = fileKey(bucket, path);
+				const content = fileContents.get(key);
+				if (content && typeof URL.createObjectURL === "function") {
+					if (!objectUrls.has(key)) {
+						objectUrls.set(key, URL.createObjectURL(content));
+					}
+					return objectUrls.get(key) as string;
+				}
+				return `memory://${key}`;
+			},
+
+			async getReceivingOrderCSV(receivingOrderId) {
+				const names = await backend.storage.list("receiving", receivingOrderId);
+				if (names.length === 0) {
+					throw new NotFoundError("No CSV file found for this receiving order");
+				}
+				const csvFile = names.find((name) => name.startsWith("original_"));
+				if (!csvFile) {
+					throw new NotFoundError("Original CSV file not found");
+				}
+				return backend.storage.getPublicUrl("receiving", `${receivingOrderId}/${csvFile}`);
+			},
+		},
+
+		email: {
+			async send(to, subject, body, attachments?: EmailAttachment[]) {
+				if (!to || !subject || !body) {
+					throw new ValidationError("Email requires to, subject, and body");
+				}
+				state.outbox.push({
+					id: crypto.randomUUID(),
+					to,
+					subject,
+					body,
+					attachments: (attachments || []).map((a) => a.filename),
+					sent_at: now(),
+				});
+				persist();
+				return true;
+			},
+		},
+
+		manifests: {
+			async create(manifest) {
+				validateManifest(manifest);
+				const created: Manifest = {
+					...manifest,
+					status: manifest.status || "Open",
+					id: crypto.randomUUID(),
+					created_at: now(),
+				};
+				state.manifests.push(created);
+				persist();
+				return clone(created);
+			},
+
+			async getById(id) {
+				const manifest = state.manifests.find((m) => m.id === id);
+				if (!manifest) {
+					throw new NotFoundError("Manifest not found");
+				}
+				return clone(manifest);
+			},
+
+			async getAll() {
+				return clone([...state.manifests].sort(byCreatedDesc));
+			},
+
+			async getFiltered(filters) {
+				return clone(
+					state.manifests.filter(
+						(m) => (!filters.type || m.type === filters.type) && (!filters.status || m.status === filters.status)
+					)
+				);
+			},
+
+			async update(id, updates, options) {
+				const manifest = state.manifests.find((m) => m.id === id);
+				if (!manifest) {
+					throw new NotFoundError("Manifest not found");
+				}
+				const next = { ...manifest, ...updates, id };
+				validateManifest(next);
+				Object.assign(manifest, next);
+				recordChanges(undefined, options?.reason);
+				persist();
+				return clone(manifest);
+			},
+
+			async closeAndShip(id) {
+				return transaction(() => {
+					const manifest = state.manifests.find((m) => m.id === id);
+					if (!manifest) {
+						throw new NotFoundError("Manifest not found");
+					}
+					if (manifest.status !== "Open") {
+						throw new ConflictError(`Manifest is already ${manifest.status}`);
+					}
+					const closedAt = now();
+					Object.assign(manifest, { status: "Closed", closed_at: closedAt });
+					recordChanges("close");
+
+					for (const pallet of state.pallets.filter((p) => p.manifest_id === id && p.status === "Loaded")) {
+						writePallet(pallet, { status: "Shipped", shipped_at: closedAt });
+					}
+
+					// Ship Completed orders fully contained in closed manifests
+					const orderIds = new Set(
+						state.pallets.filter((p) => p.manifest_id === id && p.shipping_order_id).map((p) => p.shipping_order_id)
+					);
+					for (const order of state.shippingOrders.filter((o) => orderIds.has(o.id) && o.status === "Completed")) {
+						const done = state.pallets
+							.filter((p) => p.shipping_order_id === order.id)
+							.every((p) => p.status === "Shipped" || p.status === "WriteOff");
+						if (done) {
+							Object.assign(order, { status: "Shipped", shipped_at: closedAt });
+						}
+					}
+					recordChanges("ship");
+					return clone(manifest);
+				});
+			},
+		},
+
+		audit: {
+			async query(filters) {
+				return clone(
+					state.auditEvents
+						.filter((event) => matchesAuditFilters(event, filters))
+						.reverse()
+						.slice(0, filters.limit ?? DEFAULT_AUDIT_LIMIT)
+				);
+			},
+		},
+
+		realtime: {
+			subscribe(subscriptions, listener, onStatus) {
+				const subscriber = { subscriptions, listener };
+				for (const { table } of subscriptions) {
+					if (!fingerprints.has(table)) fingerprints.set(table, fingerprint(tableRows(table)));
+				}
+				subscribers.add(subscriber);
+				onStatus("live");
+
+				return () => {
+					subscribers.delete(subscriber);
+					// Stop diffing tables nobody watches any more
+					const watched = new Set([...subscribers].flatMap((s) => s.subscriptions.map(({ table }) => table)));
+					for (const table of fingerprints.keys()) {
+						if (!watched.has(table)) fingerprints.delete(table);
+					}
+				};
+			},
+		},
+	};
+
+	return backend;
+}
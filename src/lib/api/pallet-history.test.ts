@@ -0,0 +1,196 @@
+/**
+ * Pallet History Tests
+ *
+ * @module lib/api/palletHistory.test
+ */
+
+import { describe, expect, it } from "vitest";
+
+import type { AuditEvent, Pallet } from "../../types/domain";
+import { buildPalletTimeline, findEntryAt, getHistoryReferences, type PalletHistoryRefs } from "./pallet-history";
+
+const PALLET: Pallet = {
+	id: "pallet-0000-1234abcd",
+	lpn: "W1-P-000001",
+	item_id: "ITEM-001",
+	qty: 10,
+	status: "Shipped",
+	receiving_order_id: "ro-1",
+	shipping_order_id: "so-1",
+	manifest_id: "mf-1",
+	is_cross_dock: false,
+	received_at: "2026-10-01T08:00:00Z",
+	shipped_at: "2026-10-05T16:00:00Z",
+	created_at: "2026-10-01T08:00:00Z",
+};
+
+const REFS: PalletHistoryRefs = {
+	containers: new Map([["ro-1", "MSCU1234567"]]),
+	orders: new Map([["so-1", "SO-42"]]),
+	manifests: new Map([["mf-1", "TGHU7654321"]]),
+};
+
+let sequence = 0;
+const event = (
+	action: string,
+	created_at: string,
+	before: Record<string, unknown> | null,
+	after: Record<string, unknown> | null,
+	reason: string | null = null
+): AuditEvent => ({
+	id: `event-${++sequence}`,
+	entity_type: "pallet",
+	entity_id: PALLET.id,
+	action,
+	actor_id: "user-1",
+	actor_email: "ops@example.com",
+	before,
+	after,
+	reason,
+	created_at,
+});
+
+const LIFECYCLE: AuditEvent[] = [
+	event("ship", "2026-10-05T16:00:00Z", { status: "Loaded" }, { status: "Shipped" }),
+	event("create", "2026-10-01T08:00:00Z", null, { ...PALLET, status: "Received", shipping_order_id: null }),
+	event("status_change", "2026-10-01T09:00:00Z", { status: "Received" }, { status: "Stored", location_id: "W1-1-1-A" }),
+	event("move", "2026-10-02T10:00:00Z", { location_id: "W1-1-1-A" }, { location_id: "W1-1-1-B" }),
+	event(
+		"status_change",
+		"2026-10-04T11:00:00Z",
+		{ status: "Stored", shipping_order_id: null, location_id: "W1-1-1-B" },
+		{ status: "Staged", shipping_order_id: "so-1", location_id: null }
+	),
+	event("status_change", "2026-10-05T12:00:00Z", { status: "Staged" }, { status: "Loaded", manifest_id: "mf-1" }),
+];
+
+describe("buildPalletTimeline", () => {
+	it("describes each step of a pallet's life, oldest first", () => {
+		const timeline = buildPalletTimeline(PALLET, LIFECYCLE, REFS);
+
+		expect(timeline.map((entry) => entry.title)).toEqual([
+			"Tallied from container MSCU1234567",
+			"Put away to W1-1-1-A",
+			"Moved from W1-1-1-A to W1-1-1-B",
+			"Picked for order SO-42",
+			"Loaded onto manifest TGHU7654321",
+			"Shipped",
+		]);
+		expect(timeline[0]).toMatchObject({ kind: "tallied", actor: "ops@example.com", derived: false });
+		expect(timeline.at(-1)?.detail).toBe("Manifest TGHU7654321");
+	});
+
+	it("shows write-offs with their reason and falls back to short ids", () => {
+		const timeline = buildPalletTimeline(
+			{ ...PALLET, status: "WriteOff", shipped_at: undefined },
+			[
+				event("create", "2026-10-01T08:00:00Z", null, { qty: 10, receiving_order_id: "ro-unknown-9876" }),
+				event("write_off", "2026-10-03T08:00:00Z", { status: "Stored" }, { status: "WriteOff" }, "Damaged"),
+			],
+			REFS
+		);
+
+		expect(timeline.map((entry) => [entry.title, entry.detail])).toEqual([
+			["Tallied from container own-9876", "Qty 10"],
+			["Written off", "Reason: Damaged"],
+		]);
+	});
+
+	it("rebuilds received and shipped steps for pallets without recorded history", () => {
+		const timeline = buildPalletTimeline(PALLET, [], REFS);
+
+		expect(timeline).toMatchObject([
+			{ kind: "tallied", at: PALLET.received_at, derived: true, actor: null },
+			{ kind: "shipped", at: PALLET.shipped_at, derived: true },
+		]);
+	});
+
+	it("starts split pallets at their split and shows merges", () => {
+		const split: Pallet = { ...PALLET, status: "Merged", split_from_id: "pallet-0000-feedbeef", shipped_at: undefined };
+		const timeline = buildPalletTimeline(
+			split,
+			[
+				event("split", "2026-10-02T08:00:00Z", null, { qty: 4, split_from_id: "pallet-0000-feedbeef" }),
+				event(
+					"merge",
+					"2026-10-03T08:00:00Z",
+					{ status: "Stored" },
+					{ status: "Merged", merged_into_id: "pallet-0000-00c0ffee" }
+				),
+			],
+			REFS
+		);
+
+		expect(timeline).toMatchObject([
+			{ kind: "split", title: "Split from pallet feedbeef", detail: "Qty 4" },
+			{ kind: "merged", title: "Merged into pallet 00c0ffee" },
+		]);
+	});
+
+	it("shows qty adjustments with their reason", () => {
+		const timeline = buildPalletTimeline(
+			{ ...PALLET, status: "Stored", shipped_at: undefined },
+			[event("adjust", "2026-10-02T08:00:00Z", { qty: 10 }, { qty: 8 }, "Damaged: forklift")],
+			REFS
+		);
+
+		expect(timeline.at(-1)).toMatchObject({
+			kind: "adjusted",
+			title: "Qty adjusted 10 → 8",
+			detail: "Reason: Damaged: forklift",
+		});
+	});
+
+	it("shows the write-off approval steps and a reversal", () => {
+		const timeline = buildPalletTimeline(
+			{ ...PALLET, status: "Stored", shipped_at: undefined },
+			[
+				event("request_write_off", "2026-10-02T08:00:00Z", null, { write_off_request_id: "wo-1" }, "Damaged"),
+				event("reject_write_off", "2026-10-02T09:00:00Z", null, { write_off_request_id: "wo-1" }, "Still sellable"),
+				event("request_write_off", "2026-10-03T08:00:00Z", null, { write_off_request_id: "wo-2" }, "Lost"),
+				event(
+					"write_off",
+					"2026-10-03T09:00:00Z",
+					{ status: "Stored", location_id: "W1-1-1-A" },
+					{ status: "WriteOff", location_id: null },
+					"Lost"
+				),
+				event(
+					"reverse_write_off",
+					"2026-10-04T08:00:00Z",
+					{ status: "WriteOff", location_id: null },
+					{ status: "Stored", location_id: "W1-1-1-A" },
+					"Found in aisle 3"
+				),
+			],
+			REFS
+		);
+
+		expect(timeline.slice(-5)).toMatchObject([
+			{ kind: "write_off_requested", title: "Write-off requested", detail: "Reason: Damaged" },
+			{ kind: "write_off_rejected", title: "Write-off rejected", detail: "Reason: Still sellable" },
+			{ kind: "write_off_requested" },
+			{ kind: "written_off", title: "Written off", detail: "Reason: Lost" },
+			{ kind: "write_off_reversed", title: "Write-off reversed to Stored", detail: "Reason: Found in aisle 3" },
+		]);
+	});
+});
+
+describe("findEntryAt", () => {
+	it("finds where the pallet was at a given moment", () => {
+		const timeline = buildPalletTimeline(PALLET, LIFECYCLE, REFS);
+
+		expect(findEntryAt(timeline, "2026-10-03T23:59:59Z")?.title).toBe("Moved from W1-1-1-A to W1-1-1-B");
+		expect(findEntryAt(timeline, "2026-09-30T23:59:59Z")).toBeNull();
+	});
+});
+
+describe("getHistoryReferences", () => {
+	it("collects every order and manifest the pallet has pointed at", () => {
+		expect(getHistoryReferences({ ...PALLET, shipping_order_id: undefined }, LIFECYCLE)).toEqual({
+			receivingOrderIds: ["ro-1"],
+			shippingOrderIds: ["so-1"],
+			manifestIds: ["mf-1"],
+		});
+	});
+});
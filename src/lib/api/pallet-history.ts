@@ -0,0 +1,252 @@
+/**
+ * Pallet History
+ *
+ * Turns a pallet's audit events into a readable timeline: tallied (by whom,
+ * from which container), put away, moved, picked for an order, loaded onto a
+ * manifest, shipped, written off (requested, approved, rejected, reversed),
+ * split, merged or qty adjusted. Pallets received before the audit trail
+ * existed fall back to their received_at/shipped_at stamps.
+ *
+ * @module lib/api/palletHistory
+ */
+
+import type { AuditEvent, Pallet } from "../../types/domain";
+
+export type PalletHistoryKind =
+	| "tallied"
+	| "put_away"
+	| "moved"
+	| "picked"
+	| "unpicked"
+	| "loaded"
+	| "unloaded"
+	| "shipped"
+	| "write_off_requested"
+	| "written_off"
+	| "write_off_rejected"
+	| "write_off_reversed"
+	| "split"
+	| "merged"
+	| "adjusted"
+	| "status_change"
+	| "updated"
+	| "deleted";
+
+/**
+ * One step of a pallet's timeline
+ */
+export interface PalletHistoryEntry {
+	id: string;
+	kind: PalletHistoryKind;
+	/** ISO timestamp */
+	at: string;
+	title: string;
+	detail: string | null;
+	/** Email of the user who made the change (null: system or unknown) */
+	actor: string | null;
+	/** Rebuilt from the pallet row rather than a recorded event */
+	derived: boolean;
+}
+
+/**
+ * Display names for the ids a pallet points at
+ */
+export interface PalletHistoryRefs {
+	/** Receiving order id → container number */
+	containers: Map<string, string>;
+	/** Shipping order id → order reference */
+	orders: Map<string, string>;
+	/** Manifest id → container number (or short id for hand manifests) */
+	manifests: Map<string, string>;
+}
+
+/**
+ * Receiving orders, shipping orders and manifests referenced by the pallet or its history
+ *
+ * @param pallet - Current pallet row
+ * @param events - Pallet audit events
+ * @returns Referenced ids per table
+ */
+export function getHistoryReferences(
+	pallet: Pallet,
+	events: AuditEvent[]
+): { receivingOrderIds: string[]; shippingOrderIds: string[]; manifestIds: string[] } {
+	const rows: Record<string, unknown>[] = [{ ...pallet }];
+	for (const event of events) {
+		if (event.before) rows.push(event.before);
+		if (event.after) rows.push(event.after);
+	}
+	const collect = (field: string) => [
+		...new Set(rows.map((row) => row[field]).filter((value): value is string => typeof value === "string" && !!value)),
+	];
+	return {
+		receivingOrderIds: collect("receiving_order_id"),
+		shippingOrderIds: collect("shipping_order_id"),
+		manifestIds: collect("manifest_id"),
+	};
+}
+
+const shortId = (id: unknown): string => (typeof id === "string" ? id.slice(-8) : "—");
+
+const lookup = (map: Map<string, string>, id: unknown): string =>
+	typeof id === "string" ? (map.get(id) ?? shortId(id)) : "—";
+
+/**
+ * Describe one audit event as a timeline entry
+ */
+function describeEvent(
+	event: AuditEvent,
+	pallet: Pallet,
+	refs: PalletHistoryRefs
+): Pick<PalletHistoryEntry, "kind" | "title" | "detail"> {
+	const before = event.before ?? {};
+	const after = event.after ?? {};
+	const reason = event.reason ? `Reason: ${event.reason}` : null;
+
+	if (event.action === "create") {
+		const container = after.receiving_order_id ? lookup(refs.containers, after.receiving_order_id) : null;
+		return {
+			kind: "tallied",
+			title: container ? `Tallied from container ${container}` : "Tallied",
+			detail: [`Qty ${after.qty ?? "—"}`, after.is_cross_dock ? "cross-dock" : null].filter(Boolean).join(", "),
+		};
+	}
+	if (event.action === "delete") return { kind: "deleted", title: "Deleted", detail: reason };
+	if (event.action === "finalize") return { kind: "updated", title: "Receiving finalized", detail: null };
+	if (event.action === "split") {
+		return event.before
+			? { kind: "split", title: "Split", detail: `Qty ${before.qty ?? "—"} → ${after.qty ?? "—"}` }
+			: {
+					kind: "split",
+					title: `Split from pallet ${shortId(after.split_from_id)}`,
+					detail: `Qty ${after.qty ?? "—"}`,
+				};
+	}
+	if (event.action === "merge") {
+		return after.merged_into_id
+			? { kind: "merged", title: `Merged into pallet ${shortId(after.merged_into_id)}`, detail: reason }
+			: { kind: "merged", title: "Pallets merged in", detail: `Qty ${before.qty ?? "—"} → ${after.qty ?? "—"}` };
+	}
+	if (event.action === "adjust") {
+		return { kind: "adjusted", title: `Qty adjusted ${before.qty ?? "—"} → ${after.qty ?? "—"}`, detail: reason };
+	}
+	if (event.action === "request_write_off") {
+		return { kind: "write_off_requested", title: "Write-off requested", detail: reason };
+	}
+	if (event.action === "reject_write_off") {
+		return { kind: "write_off_rejected", title: "Write-off rejected", detail: reason };
+	}
+	if (event.action === "reverse_write_off") {
+		return { kind: "write_off_reversed", title: `Write-off reversed to ${after.status ?? "—"}`, detail: reason };
+	}
+	if (event.action === "write_off" || after.status === "WriteOff") {
+		return { kind: "written_off", title: "Written off", detail: reason };
+	}
+	if (event.action === "ship" || after.status === "Shipped") {
+		// Shipping keeps the manifest the pallet was loaded onto
+		const manifest = after.manifest_id ?? before.manifest_id ?? pallet.manifest_id;
+		return {
+			kind: "shipped",
+			title: "Shipped",
+			detail: manifest ? `Manifest ${lookup(refs.manifests, manifest)}` : null,
+		};
+	}
+	if (after.shipping_order_id) {
+		return { kind: "picked", title: `Picked for order ${lookup(refs.orders, after.shipping_order_id)}`, detail: null };
+	}
+	if ("shipping_order_id" in after && before.shipping_order_id) {
+		const title =
+			event.action === "release"
+				? `Released from cancelled order ${lookup(refs.orders, before.shipping_order_id)}`
+				: `Removed from order ${lookup(refs.orders, before.shipping_order_id)}`;
+		return { kind: "unpicked", title, detail: reason };
+	}
+	if (after.manifest_id) {
+		return { kind: "loaded", title: `Loaded onto manifest ${lookup(refs.manifests, after.manifest_id)}`, detail: null };
+	}
+	if ("manifest_id" in after && before.manifest_id) {
+		return {
+			kind: "unloaded",
+			title: `Unloaded from manifest ${lookup(refs.manifests, before.manifest_id)}`,
+			detail: reason,
+		};
+	}
+	if (after.location_id) {
+		return before.location_id
+			? { kind: "moved", title: `Moved from ${before.location_id} to ${after.location_id}`, detail: reason }
+			: { kind: "put_away", title: `Put away to ${after.location_id}`, detail: reason };
+	}
+	if ("status" in after) {
+		return { kind: "status_change", title: `Status ${before.status ?? "—"} → ${after.status}`, detail: reason };
+	}
+	return {
+		kind: "updated",
+		title: "Updated",
+		detail: Object.keys(after)
+			.map((field) => `${field}: ${before[field] ?? "—"} → ${after[field] ?? "—"}`)
+			.join("; "),
+	};
+}
+
+/**
+ * Build a pallet's timeline, oldest first
+ *
+ * @param pallet - Current pallet row
+ * @param events - Pallet audit events (any order)
+ * @param refs - Display names for referenced orders and manifests
+ * @returns Timeline entries
+ */
+export function buildPalletTimeline(
+	pallet: Pallet,
+	events: AuditEvent[],
+	refs: PalletHistoryRefs
+): PalletHistoryEntry[] {
+	const entries: PalletHistoryEntry[] = [...events]
+		.sort((a, b) => Date.parse(a.created_at) - Date.parse(b.created_at))
+		.map((event) => ({
+			id: event.id,
+			at: event.created_at,
+			actor: event.actor_email,
+			derived: false,
+			...describeEvent(event, pallet, refs),
+		}));
+
+	// Pallets from before the audit trail only carry their received/shipped stamps
+	// (split pallets start with their split event instead)
+	if (!pallet.split_from_id && !entries.some((entry) => entry.kind === "tallied")) {
+		const container = pallet.receiving_order_id ? lookup(refs.containers, pallet.receiving_order_id) : null;
+		entries.unshift({
+			id: `${pallet.id}-received`,
+			kind: "tallied",
+			at: pallet.received_at ?? pallet.created_at,
+			title: container ? `Tallied from container ${container}` : "Tallied",
+			detail: `Qty ${pallet.qty}`,
+			actor: null,
+			derived: true,
+		});
+	}
+	if (pallet.shipped_at && !entries.some((entry) => entry.kind === "shipped")) {
+		entries.push({
+			id: `${pallet.id}-shipped`,
+			kind: "shipped",
+			at: pallet.shipped_at,
+			title: "Shipped",
+			detail: pallet.manifest_id ? `Manifest ${lookup(refs.manifests, pallet.manifest_id)}` : null,
+			actor: null,
+			derived: true,
+		});
+	}
+	return entries;
+}
+
+/**
+ * Find the last timeline entry at or before a moment ("where was it on date D")
+ *
+ * @param entries - Timeline, oldest first
+ * @param at - ISO timestamp
+ * @returns Entry in effect at that moment, or null if the pallet did not exist yet
+ */
+export function findEntryAt(entries: PalletHistoryEntry[], at: string): PalletHistoryEntry | null {
+	const time = Date.parse(at);
+	return entries.findLast((entry) => Date.parse(entry.at) <= time) ?? null;
+}
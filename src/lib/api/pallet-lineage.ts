@@ -0,0 +1,105 @@
+/**
+ * Pallet Split & Merge Rules
+ *
+ * Splitting takes qty off a pallet onto new pallets that point back at it
+ * (split_from_id) and keep its receiving order, location, order assignment
+ * and received_at, so FIFO age and receiving lineage survive. Merging moves
+ * the qty of the other pallets onto the first one; they become Merged
+ * (merged_into_id) instead of being deleted, so past billing and their
+ * history stay intact.
+ *
+ * Both backends check these rules inside their transaction (the Supabase RPC
+ * functions repeat them in SQL).
+ *
+ * @module lib/api/palletLineage
+ */
+
+import type { Pallet } from "../../types/domain";
+import { ConflictError, ValidationError } from "./errors";
+
+/** Pallet statuses that can be split or merged (in the warehouse, not on a manifest) */
+export const RESHAPEABLE_PALLET_STATUSES: Pallet["status"][] = ["Received", "Stored", "Staged"];
+
+/**
+ * Check a pallet can be split or merged
+ */
+export function isReshapeable(pallet: Pick<Pallet, "status" | "manifest_id">): boolean {
+	return RESHAPEABLE_PALLET_STATUSES.includes(pallet.status) && !pallet.manifest_id;
+}
+
+/**
+ * Check a split request
+ *
+ * @param pallet - Pallet to split
+ * @param qtys - Qty of each new pallet; the rest stays on the original
+ * @throws ValidationError if a qty is not a positive whole number or nothing would be left
+ * @throws ConflictError if the pallet is loaded, shipped, written off or merged
+ */
+export function assertSplittable(pallet: Pallet, qtys: number[]): void {
+	if (!isReshapeable(pallet)) {
+		throw new ConflictError(`Cannot split a ${pallet.manifest_id ? "loaded" : pallet.status} pallet`);
+	}
+	if (qtys.length === 0 || qtys.some((qty) => !Number.isInteger(qty) || qty <= 0)) {
+		throw new ValidationError("Split quantities must be whole numbers greater than 0", {
+			fieldErrors: { qtys: "Must be whole numbers greater than 0" },
+		});
+	}
+	const total = qtys.reduce((sum, qty) => sum + qty, 0);
+	if (total >= pallet.qty) {
+		throw new ValidationError(`Split quantities (${total}) must be less than the pallet qty (${pallet.qty})`, {
+			fieldErrors: { qtys: `Must total less than ${pallet.qty}` },
+		});
+	}
+}
+
+/**
+ * Check a merge request
+ *
+ * @param pallets - Pallets to merge; the first one receives the others
+ * @throws ValidationError if fewer than 2 distinct pallets or different items are given
+ * @throws ConflictError if a pallet cannot be merged or they belong to different orders
+ */
+export function assertMergeable(pallets: Pallet[]): void {
+	if (pallets.length < 2 || new Set(pallets.map((p) => p.id)).size !== pallets.length) {
+		throw new ValidationError("Select at least 2 different pallets to merge");
+	}
+	const [target] = pallets;
+	if (pallets.some((p) => p.item_id !== target.item_id)) {
+		throw new ValidationError("Only pallets of the same item can be merged");
+	}
+	const blocked = pallets.find((p) => !isReshapeable(p));
+	if (blocked) {
+		throw new ConflictError(`Cannot merge a ${blocked.manifest_id ? "loaded" : blocked.status} pallet`);
+	}
+	if (pallets.some((p) => (p.shipping_order_id ?? null) !== (target.shipping_order_id ?? null))) {
+		throw new ConflictError("Only pallets assigned to the same shipping order can be merged");
+	}
+}
+
+/**
+ * Fields a new pallet inherits from the pallet it was split off
+ */
+export function getSplitInheritance(
+	source: Pallet
+): Pick<
+	Pallet,
+	| "item_id"
+	| "status"
+	| "location_id"
+	| "shipping_order_id"
+	| "receiving_order_id"
+	| "is_cross_dock"
+	| "received_at"
+	| "split_from_id"
+> {
+	return {
+		item_id: source.item_id,
+		status: source.status,
+		location_id: source.location_id,
+		shipping_order_id: source.shipping_order_id,
+		receiving_order_id: source.receiving_order_id,
+		is_cross_dock: source.is_cross_dock,
+		received_at: source.received_at ?? source.created_at,
+		split_from_id: source.id,
+	};
+}
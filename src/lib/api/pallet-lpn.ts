@@ -0,0 +1,56 @@
+/**
+ * Pallet License Plate Numbers
+ *
+ * Every pallet gets a license plate number (LPN) when it is created:
+ * <warehouse>-P-<number>, e.g. W1-P-000123. Numbers run per warehouse and are
+ * never reused, even after a pallet is deleted. A pallet belongs to the
+ * warehouse of its location, or to the first warehouse while it has none
+ * (Phase 1 runs a single warehouse).
+ *
+ * Both backends assign the LPN on create and split (the pallets_assign_lpn
+ * trigger in Supabase); pallets created before LPNs existed are backfilled in
+ * created_at order.
+ *
+ * @module lib/api/palletLpn
+ */
+
+import type { Location, Pallet, Warehouse } from "../../types/domain";
+
+/** Digits the number is zero-padded to (it grows past them rather than wrapping) */
+export const LPN_DIGITS = 6;
+
+/** An LPN as printed on labels */
+export const LPN_PATTERN = /^[\dA-Z]+-P-\d{6,}$/;
+
+/**
+ * LPN of a warehouse's nth pallet
+ *
+ * @example formatLpn("W1", 123) // "W1-P-000123"
+ */
+export function formatLpn(warehouseCode: string, sequence: number): string {
+	return `${warehouseCode}-P-${String(sequence).padStart(LPN_DIGITS, "0")}`;
+}
+
+/**
+ * Check whether text is an LPN (case-insensitive)
+ */
+export function isLpn(value: string): boolean {
+	return LPN_PATTERN.test(value.trim().toUpperCase());
+}
+
+/**
+ * Warehouse whose numbers a pallet's LPN comes from
+ *
+ * @param pallet - New pallet
+ * @param locations - All locations
+ * @param warehouses - Warehouses, oldest first
+ * @returns The warehouse of the pallet's location, else the first warehouse
+ */
+export function getLpnWarehouse(
+	pallet: Pick<Pallet, "location_id">,
+	locations: Location[],
+	warehouses: Warehouse[]
+): Warehouse | undefined {
+	const location = pallet.location_id ? locations.find((l) => l.location_id === pallet.location_id) : undefined;
+	return (location && warehouses.find((w) => w.id === location.warehouse_id)) ?? warehouses[0];
+}
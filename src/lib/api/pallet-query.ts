@@ -0,0 +1,231 @@
+/**
+ * Pallet Query Helpers
+ *
+ * Cursor encoding and page assembly shared by the backend adapters, plus the
+ * in-process filter/sort used by the memory adapter. The Supabase adapter
+ * translates the same PalletQuery into PostgREST filters instead.
+ *
+ * @module lib/api/palletQuery
+ */
+
+import type { Pallet } from "../../types/domain";
+import type { DateRange, PalletFilters, PalletPage, PalletQuery, PalletSortField } from "./wms-backend";
+
+/** Page size used when a query does not set a limit */
+export const DEFAULT_PALLET_PAGE_SIZE = 100;
+
+/** Largest page a backend will return (PostgREST max-rows) */
+export const MAX_PALLET_PAGE_SIZE = 1000;
+
+/**
+ * Position of the last row of a page: its sort value and id
+ */
+export interface PalletCursor {
+	value: string | number;
+	id: string;
+}
+
+/**
+ * Normalized query options with defaults applied
+ */
+export interface PalletQueryOptions {
+	sort: PalletSortField;
+	ascending: boolean;
+	limit: number;
+	cursor: PalletCursor | null;
+}
+
+/**
+ * Wrap a single value or list into a list
+ */
+export function toList<T>(value: T | T[]): T[] {
+	return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Encode a cursor as an opaque URL-safe string
+ *
+ * @param cursor - Sort value and id of the last row returned
+ * @returns Cursor string for PalletQuery.cursor
+ */
+export function encodePalletCursor(cursor: PalletCursor): string {
+	const bytes = new TextEncoder().encode(JSON.stringify([cursor.value, cursor.id]));
+	return btoa(String.fromCodePoint(...bytes))
+		.replaceAll("+", "-")
+		.replaceAll("/", "_")
+		.replace(/=+$/, "");
+}
+
+/**
+ * Decode a cursor produced by encodePalletCursor
+ *
+ * @param cursor - Cursor string
+ * @returns Decoded cursor
+ * @throws Error if the cursor is malformed
+ */
+export function decodePalletCursor(cursor: string): PalletCursor {
+	try {
+		const binary = atob(cursor.replaceAll("-", "+").replaceAll("_", "/"));
+		const bytes = Uint8Array.from(binary, (char) => char.codePointAt(0) ?? 0);
+		const [value, id] = JSON.parse(new TextDecoder().decode(bytes)) as [unknown, unknown];
+		if ((typeof value !== "string" && typeof value !== "number") || typeof id !== "string") {
+			throw new TypeError("Unexpected cursor shape");
+		}
+		return { value, id };
+	} catch {
+		throw new Error("Invalid pagination cursor");
+	}
+}
+
+/**
+ * Apply defaults and bounds to a query's sort/pagination options
+ *
+ * @param query - Pallet query
+ * @returns Normalized options
+ */
+export function getPalletQueryOptions(query: PalletQuery): PalletQueryOptions {
+	const limit = Math.trunc(query.limit ?? DEFAULT_PALLET_PAGE_SIZE);
+	return {
+		sort: query.sort ?? "created_at",
+		ascending: (query.direction ?? "asc") === "asc",
+		limit: Math.min(Math.max(limit, 1), MAX_PALLET_PAGE_SIZE),
+		cursor: query.cursor ? decodePalletCursor(query.cursor) : null,
+	};
+}
+
+/**
+ * Build a page from rows fetched with limit + 1
+ *
+ * The extra row only signals that another page exists; it is not returned.
+ *
+ * @param rows - Sorted rows, at most limit + 1
+ * @param options - Normalized query options
+ * @returns Page with nextCursor pointing after the last returned row
+ */
+export function toPalletPage(rows: Pallet[], options: PalletQueryOptions): PalletPage {
+	const items = rows.slice(0, options.limit);
+	const last = items.at(-1);
+	return {
+		items,
+		nextCursor:
+			rows.length > options.limit && last ? encodePalletCursor({ value: last[options.sort], id: last.id }) : null,
+	};
+}
+
+/**
+ * Compare two sort values of the same column
+ */
+function compareValues(a: string | number, b: string | number): number {
+	if (typeof a === "number" && typeof b === "number") return a - b;
+	return String(a).localeCompare(String(b));
+}
+
+/**
+ * Order pallets by a sort column, then by id
+ *
+ * @param options - Normalized query options
+ * @returns Comparator for Array.prototype.sort
+ */
+export function comparePallets(options: Pick<PalletQueryOptions, "sort" | "ascending">) {
+	const direction = options.ascending ? 1 : -1;
+	return (a: Pallet, b: Pallet): number =>
+		direction * (compareValues(a[options.sort], b[options.sort]) || a.id.localeCompare(b.id));
+}
+
+/**
+ * Check whether a pallet sorts after the cursor position
+ *
+ * @param pallet - Candidate pallet
+ * @param options - Normalized query options (cursor must be set)
+ * @returns True if the pallet belongs on a later page
+ */
+export function isAfterCursor(pallet: Pallet, options: PalletQueryOptions): boolean {
+	if (!options.cursor) return true;
+	const direction = options.ascending ? 1 : -1;
+	const diff = compareValues(pallet[options.sort], options.cursor.value) || pallet.id.localeCompare(options.cursor.id);
+	return direction * diff > 0;
+}
+
+/**
+ * Normalize LPN filter values (LPNs are stored upper-case)
+ */
+export function toLpnList(value: string | string[]): string[] {
+	return toList(value).map((lpn) => lpn.trim().toUpperCase());
+}
+
+/**
+ * Match a nullable column against a filter value
+ */
+function matchesNullable(value: string | null | undefined, filter: string | string[] | null | undefined): boolean {
+	if (filter === null || filter === undefined) return value === null || value === undefined;
+	return value !== null && value !== undefined && toList(filter).includes(value);
+}
+
+/**
+ * Match a timestamp column against an inclusive range
+ */
+function matchesRange(value: string | undefined, range: DateRange | undefined): boolean {
+	if (!range || (!range.from && !range.to)) return true;
+	if (!value) return false;
+	const time = Date.parse(value);
+	if (range.from && time < Date.parse(range.from)) return false;
+	if (range.to && time > Date.parse(range.to)) return false;
+	return true;
+}
+
+/**
+ * Check a pallet against filter criteria
+ *
+ * List filters match any listed value; a null shipping_order_id, location_id or
+ * manifest_id filter matches pallets without one, and date ranges include both ends.
+ *
+ * @param pallet - Pallet row
+ * @param filters - Filter criteria
+ * @returns True if the pallet matches every given filter
+ */
+export function matchesPalletFilters(pallet: Pallet, filters: PalletFilters): boolean {
+	if (filters.id && !toList(filters.id).includes(pallet.id)) return false;
+	if (filters.lpn && !toLpnList(filters.lpn).includes(pallet.lpn)) return false;
+	if (filters.status && !toList(filters.status).includes(pallet.status)) return false;
+	if (filters.item_id && !toList(filters.item_id).includes(pallet.item_id)) return false;
+	if (
+		filters.receiving_order_id &&
+		!toList(filters.receiving_order_id)
+			.map((id) => id.trim())
+			.includes(String(pallet.receiving_order_id || "").trim())
+	) {
+		return false;
+	}
+	if ("shipping_order_id" in filters && !matchesNullable(pallet.shipping_order_id, filters.shipping_order_id)) {
+		return false;
+	}
+	if ("location_id" in filters && !matchesNullable(pallet.location_id, filters.location_id)) return false;
+	if ("manifest_id" in filters && !matchesNullable(pallet.manifest_id, filters.manifest_id)) return false;
+	if (filters.is_cross_dock !== undefined && pallet.is_cross_dock !== filters.is_cross_dock) return false;
+	return (
+		matchesRange(pallet.created_at, filters.created_at) &&
+		matchesRange(pallet.received_at, filters.received_at) &&
+		matchesRange(pallet.shipped_at, filters.shipped_at)
+	);
+}
+
+/**
+ * Fetch every matching pallet by following cursors page by page
+ *
+ * @param fetchPage - Backend query function
+ * @param filters - Filter criteria
+ * @returns All matching pallets in created_at order
+ */
+export async function collectPallets(
+	fetchPage: (query: PalletQuery) => Promise<PalletPage>,
+	filters: PalletFilters
+): Promise<Pallet[]> {
+	const all: Pallet[] = [];
+	let cursor: string | null = null;
+	do {
+		const page: PalletPage = await fetchPage({ ...filters, limit: MAX_PALLET_PAGE_SIZE, cursor });
+		all.push(...page.items);
+		cursor = page.nextCursor;
+	} while (cursor);
+	return all;
+}
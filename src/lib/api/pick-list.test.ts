@@ -0,0 +1,100 @@
+/**
+ * Pick List Planning Tests
+ *
+ * @module lib/api/pickList.test
+ */
+
+import { describe, expect, it } from "vitest";
+
+import type { Location } from "../../types/domain";
+import { compareRoute, suggestPicks, type PickCandidate } from "./pick-list";
+
+function pallet(id: string, qty: number, received_at?: string, item_id = "ITEM-001"): PickCandidate {
+	return { id, item_id, qty, received_at, created_at: "2026-01-01T00:00:00Z" };
+}
+
+function rack(rackNum: number, level: number, position: string): Location {
+	return {
+		location_id: `W1-${rackNum}-${level}-${position}`,
+		warehouse_id: "wh-1",
+		type: "RACK",
+		rack: rackNum,
+		level,
+		position,
+	};
+}
+
+describe("suggestPicks", () => {
+	it("picks the oldest pallet holding exactly the remaining qty", () => {
+		const suggestions = suggestPicks(
+			[pallet("p1", 10, "2026-03-01"), pallet("p2", 30, "2026-02-01"), pallet("p3", 30, "2026-01-01")],
+			new Map([["ITEM-001", 30]])
+		);
+
+		expect([...suggestions]).toEqual([["p3", "exact"]]);
+	});
+
+	it("takes whole pallets FIFO and leaves the rest to a split", () => {
+		const suggestions = suggestPicks(
+			[
+				pallet("new", 20, "2026-03-01"),
+				pallet("old", 20, "2026-01-01"),
+				pallet("mid", 20, "2026-02-01"),
+				pallet("unreceived", 5),
+			],
+			new Map([["ITEM-001", 45]])
+		);
+
+		expect([...suggestions]).toEqual([
+			["old", "fifo"],
+			["unreceived", "fifo"],
+			["mid", "fifo"],
+		]);
+		expect(
+			suggestPicks([pallet("a", 20, "2026-01-01"), pallet("b", 20, "2026-02-01")], new Map([["ITEM-001", 30]]))
+		).toEqual(
+			new Map([
+				["a", "fifo"],
+				["b", "split"],
+			])
+		);
+	});
+
+	it("suggests nothing for items already fulfilled or other items", () => {
+		const suggestions = suggestPicks(
+			[pallet("p1", 10, "2026-01-01"), pallet("p2", 10, "2026-01-01", "ITEM-002")],
+			new Map([
+				["ITEM-001", 0],
+				["ITEM-003", 10],
+			])
+		);
+
+		expect(suggestions.size).toBe(0);
+	});
+});
+
+describe("compareRoute", () => {
+	it("walks the aisle zones, then snakes through the racks, unlocated pallets last", () => {
+		const stops = [
+			undefined,
+			rack(2, 1, "A"),
+			rack(1, 2, "B"),
+			rack(2, 1, "C"),
+			{ location_id: "W1-AISLE-02", warehouse_id: "wh-1", type: "AISLE" as const },
+			rack(1, 1, "B"),
+			rack(1, 1, "A"),
+			{ location_id: "W1-AISLE-01", warehouse_id: "wh-1", type: "AISLE" as const },
+		];
+
+		expect(stops.sort(compareRoute).map((stop) => stop?.location_id ?? "none")).toEqual([
+			"W1-AISLE-01",
+			"W1-AISLE-02",
+			"W1-1-1-A",
+			"W1-1-1-B",
+			"W1-1-2-B",
+			"W1-2-1-C",
+			"W1-2-1-A",
+			"none",
+		]);
+	});
+});
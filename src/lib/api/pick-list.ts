@@ -0,0 +1,99 @@
+/**
+ * Pick List Planning
+ *
+ * Orders the pallets a picker can take for a shipping order along one walk
+ * through the warehouse, and suggests which of them to pick (Screen10).
+ *
+ * Suggestions are FIFO by received_at, per item:
+ * 1. a pallet holding exactly the remaining qty (the oldest such) finishes the line
+ * 2. otherwise whole pallets that still fit, oldest first
+ * 3. if qty is still missing, the oldest pallet left, to be split
+ *
+ * The walking route starts with the aisle zones (next to the dock) in zone
+ * order, then snakes through the racks: up the positions of odd racks and
+ * back down the positions of even racks, every level of a position together.
+ * Pallets without a location come last.
+ *
+ * @module lib/api/pickList
+ */
+
+import type { Location, Pallet } from "../../types/domain";
+import { POSITION_LETTERS } from "./location-layout";
+
+/** Why a pallet is suggested */
+export type PickSuggestionReason = "exact" | "fifo" | "split";
+
+/** What suggestions need to know about a pallet */
+export type PickCandidate = Pick<Pallet, "id" | "item_id" | "qty" | "received_at" | "created_at">;
+
+/**
+ * Compare pallets oldest first: received_at, then created_at, then ID
+ */
+export function compareFifo(a: PickCandidate, b: PickCandidate): number {
+	const received = (pallet: PickCandidate) => pallet.received_at ?? pallet.created_at;
+	return received(a).localeCompare(received(b)) || a.created_at.localeCompare(b.created_at) || a.id.localeCompare(b.id);
+}
+
+/**
+ * Suggest the pallets to pick for each item
+ *
+ * @param pallets - Pallets that can be picked
+ * @param remainingByItem - RemainingQty per item (items missing or at 0 get no suggestion)
+ * @returns Reason per suggested pallet ID
+ */
+export function suggestPicks(
+	pallets: PickCandidate[],
+	remainingByItem: Map<string, number>
+): Map<string, PickSuggestionReason> {
+	const suggestions = new Map<string, PickSuggestionReason>();
+
+	for (const [itemId, remainingQty] of remainingByItem) {
+		if (remainingQty <= 0) continue;
+		const candidates = pallets.filter((pallet) => pallet.item_id === itemId && pallet.qty > 0).sort(compareFifo);
+
+		const exact = candidates.find((pallet) => pallet.qty === remainingQty);
+		if (exact) {
+			suggestions.set(exact.id, "exact");
+			continue;
+		}
+
+		let left = remainingQty;
+		for (const pallet of candidates) {
+			if (pallet.qty <= left) {
+				suggestions.set(pallet.id, "fifo");
+				left -= pallet.qty;
+			}
+		}
+
+		const toSplit = left > 0 ? candidates.find((pallet) => !suggestions.has(pallet.id)) : undefined;
+		if (toSplit) suggestions.set(toSplit.id, "split");
+	}
+
+	return suggestions;
+}
+
+/**
+ * Route key of a location: aisle zones first, then racks in snake order
+ */
+function getRouteKey(location: Location | undefined): number[] {
+	if (!location) return [2];
+	if (location.type === "AISLE") {
+		return [0, Number(location.location_id.match(/(\d+)$/)?.[1] ?? 0)];
+	}
+	const rack = location.rack ?? 0;
+	const position = POSITION_LETTERS.indexOf(location.position ?? "");
+	return [1, rack, rack % 2 === 1 ? position : -position, location.level ?? 0];
+}
+
+/**
+ * Compare locations by when the walking route reaches them
+ */
+export function compareRoute(a: Location | undefined, b: Location | undefined): number {
+	const keyA = getRouteKey(a);
+	const keyB = getRouteKey(b);
+	for (let i = 0; i < Math.max(keyA.length, keyB.length); i++) {
+		const diff = (keyA[i] ?? 0) - (keyB[i] ?? 0);
+		if (diff !== 0) return diff;
+	}
+	return 0;
+}
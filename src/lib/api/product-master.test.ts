@@ -0,0 +1,70 @@
+/**
+ * Product Master Replace-All Tests
+ *
+ * @module lib/api/productMaster.test
+ */
+
+import { describe, expect, it } from "vitest";
+
+import type { Product } from "../../types/domain";
+import { ValidationError } from "./errors";
+import { diffProductMaster, hasProductMasterChanges, validateProductMasterRows } from "./product-master";
+
+function product(item_id: string, overrides: Partial<Product> = {}): Product {
+	return {
+		id: `id-${item_id}`,
+		item_id,
+		description: item_id,
+		units_per_pallet: 10,
+		pallet_positions: 1,
+		active: true,
+		created_at: "2026-01-01T00:00:00Z",
+		...overrides,
+	};
+}
+
+describe("product master diff", () => {
+	it("lists new, changed, reactivated and missing products", () => {
+		const current = [
+			product("A"),
+			product("B"),
+			product("C", { active: false }),
+			product("D"),
+			product("E", { active: false }),
+		];
+		const diff = diffProductMaster(current, [
+			{ item_id: "F", description: "F", units_per_pallet: 5, pallet_positions: 1 },
+			{ item_id: "B", description: "B", units_per_pallet: 20, pallet_positions: 2 },
+			{ item_id: "A", description: "A", units_per_pallet: 10, pallet_positions: 1 },
+			{ item_id: "C", description: "C", units_per_pallet: 10, pallet_positions: 1 },
+		]);
+
+		expect(diff.added.map((row) => row.item_id)).toEqual(["F"]);
+		expect(diff.changed.map(({ before, fields }) => [before.item_id, fields])).toEqual([
+			["B", ["units_per_pallet", "pallet_positions"]],
+			["C", ["active"]],
+		]);
+		// Already inactive products missing from the file are left alone
+		expect(diff.deactivated.map((row) => row.item_id)).toEqual(["D"]);
+		expect(diff.unchanged).toBe(1);
+		expect(hasProductMasterChanges(diff)).toBe(true);
+		expect(hasProductMasterChanges(diffProductMaster([product("A")], [{ ...product("A") }]))).toBe(false);
+	});
+
+	it("rejects empty files and repeated item_ids", () => {
+		expect(() => validateProductMasterRows([])).toThrow(ValidationError);
+		const row = { item_id: "A", description: "", units_per_pallet: 1, pallet_positions: 1 };
+		expect(() => validateProductMasterRows([row, row])).toThrow("Duplicate item_id in product master: A");
+	});
+
+	it("rejects quantities and pallet positions that are not whole numbers above 0", () => {
+		const row = { item_id: "A", description: "", units_per_pallet: 10, pallet_positions: 2 };
+		expect(() => validateProductMasterRows([row])).not.toThrow();
+		expect(() => validateProductMasterRows([row, { ...row, item_id: "B", pallet_positions: 0 }])).toThrow(
+			"pallet_positions must be a whole number above 0 in product master: B"
+		);
+		expect(() => validateProductMasterRows([{ ...row, units_per_pallet: -5 }])).toThrow(ValidationError);
+		expect(() => validateProductMasterRows([{ ...row, units_per_pallet: 1.5 }])).toThrow(ValidationError);
+		expect(() => validateProductMasterRows([{ ...row, pallet_positions: Number.NaN }])).toThrow(ValidationError);
+	});
+});
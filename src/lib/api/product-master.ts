@@ -0,0 +1,131 @@
+/**
+ * Product Master Replace-All
+ *
+ * The Product Master upload (Screen 0) replaces the whole catalog with the
+ * file, but never deletes: products missing from the file are deactivated,
+ * so pallets and order lines that reference them keep working. Both
+ * adapters compute the same diff; a dry run returns it without writing.
+ *
+ * @module lib/api/productMaster
+ */
+
+import type { Product } from "../../types/domain";
+import { ValidationError } from "./errors";
+
+/**
+ * One product as listed in the uploaded file
+ */
+export interface ProductMasterRow {
+	item_id: string;
+	description: string;
+	units_per_pallet: number;
+	pallet_positions: number;
+}
+
+/** Product fields a replace-all upload can change */
+export type ProductMasterField = "description" | "units_per_pallet" | "pallet_positions" | "active";
+
+/**
+ * An existing product the upload changes (a reactivation counts as a change of `active`)
+ */
+export interface ProductMasterChange {
+	before: Product;
+	after: ProductMasterRow;
+	fields: ProductMasterField[];
+}
+
+/**
+ * What applying an upload does to the catalog
+ */
+export interface ProductMasterDiff {
+	added: ProductMasterRow[];
+	changed: ProductMasterChange[];
+	/** Active products missing from the file; they are deactivated, not deleted */
+	deactivated: Product[];
+	/** Products in the file that stay exactly as they are */
+	unchanged: number;
+}
+
+/** Numeric columns of a row; each must be a whole number above 0 */
+const POSITIVE_FIELDS = ["units_per_pallet", "pallet_positions"] as const;
+
+/**
+ * Reject an empty upload (it would deactivate the whole catalog), one that
+ * lists an item twice, or one with a units_per_pallet / pallet_positions that
+ * is not a whole number above 0
+ *
+ * @throws ValidationError
+ */
+export function validateProductMasterRows(rows: ProductMasterRow[]): void {
+	if (rows.length === 0) {
+		throw new ValidationError("Product master file has no products");
+	}
+	for (const field of POSITIVE_FIELDS) {
+		const invalid = rows.filter((row) => !Number.isInteger(row[field]) || row[field] <= 0);
+		if (invalid.length > 0) {
+			throw new ValidationError(
+				`${field} must be a whole number above 0 in product master: ${invalid.map((row) => row.item_id).join(", ")}`,
+				{ fieldErrors: { [field]: "Must be a whole number above 0" } }
+			);
+		}
+	}
+	const seen = new Set<string>();
+	const duplicates = new Set<string>();
+	for (const { item_id } of rows) {
+		if (seen.has(item_id)) duplicates.add(item_id);
+		seen.add(item_id);
+	}
+	if (duplicates.size > 0) {
+		throw new ValidationError(`Duplicate item_id in product master: ${[...duplicates].join(", ")}`, {
+			fieldErrors: { item_id: "Listed more than once" },
+		});
+	}
+}
+
+function byId(a: { item_id: string }, b: { item_id: string }): number {
+	return a.item_id.localeCompare(b.item_id);
+}
+
+/**
+ * Compare the catalog with an upload
+ *
+ * @param current - Every product, active or not
+ * @param rows - Products in the file (item_ids must be unique)
+ * @returns Diff, sorted by item_id
+ */
+export function diffProductMaster(current: Product[], rows: ProductMasterRow[]): ProductMasterDiff {
+	const byItemId = new Map(current.map((product) => [product.item_id, product]));
+	const inFile = new Set(rows.map((row) => row.item_id));
+	const diff: ProductMasterDiff = { added: [], changed: [], deactivated: [], unchanged: 0 };
+
+	for (const row of rows) {
+		const before = byItemId.get(row.item_id);
+		if (!before) {
+			diff.added.push(row);
+			continue;
+		}
+		const fields = (["description", "units_per_pallet", "pallet_positions"] as const).filter(
+			(field) => before[field] !== row[field]
+		);
+		const changed: ProductMasterField[] = before.active ? fields : [...fields, "active"];
+		if (changed.length > 0) {
+			diff.changed.push({ before, after: row, fields: changed });
+		} else {
+			diff.unchanged++;
+		}
+	}
+
+	diff.deactivated = current.filter((product) => product.active && !inFile.has(product.item_id));
+
+	diff.added.sort(byId);
+	diff.changed.sort((a, b) => byId(a.before, b.before));
+	diff.deactivated.sort(byId);
+	return diff;
+}
+
+/**
+ * Check whether applying the diff would change anything
+ */
+export function hasProductMasterChanges(diff: ProductMasterDiff): boolean {
+	return diff.added.length + diff.changed.length + diff.deactivated.length > 0;
+}
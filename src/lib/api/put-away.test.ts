@@ -0,0 +1,150 @@
+/**
+ * Put-Away Suggestion Tests
+ *
+ * @module lib/api/putAway.test
+ */
+
+import { describe, expect, it } from "vitest";
+
+import type { Location, Pallet } from "../../types/domain";
+import { DEFAULT_PUT_AWAY_RULES, isHeavyItem, suggestPutAwayLocations, type PutAwayRules } from "./put-away";
+
+function slot(rack: number, level: number, position: string, extra: Partial<Location> = {}): Location {
+	return {
+		location_id: `W1-${rack}-${level}-${position}`,
+		warehouse_id: "wh-1",
+		type: "RACK",
+		rack,
+		level,
+		position,
+		...extra,
+	};
+}
+
+function pallet(id: string, item_id: string, location_id: string): Pallet {
+	return {
+		id,
+		lpn: "W1-P-000001",
+		item_id,
+		qty: 10,
+		status: "Stored",
+		is_cross_dock: false,
+		location_id,
+		created_at: "2026-10-01T00:00:00Z",
+	};
+}
+
+/** Racks 1-2, levels 1-2, positions A-C */
+const LOCATIONS: Location[] = [1, 2].flatMap((rack) =>
+	[1, 2].flatMap((level) => ["A", "B", "C"].map((position) => slot(rack, level, position)))
+);
+
+const LIGHT = { item_id: "ITEM-001", pallet_positions: 1 };
+const HEAVY = { item_id: "ITEM-002", pallet_positions: 2 };
+const ids = (suggestions: { location: Location }[]) => suggestions.map((s) => s.location.location_id);
+
+describe("suggestPutAwayLocations", () => {
+	it("prefers upper levels for light items, lowest rack and position first", () => {
+		const suggestions = suggestPutAwayLocations(LIGHT.item_id, LIGHT, LOCATIONS, []);
+
+		expect(ids(suggestions)).toEqual(["W1-1-2-A", "W1-1-2-B", "W1-1-2-C"]);
+		expect(suggestions[0]).toMatchObject({
+			location_ids: ["W1-1-2-A"],
+			score: 20,
+			reasons: ["Upper level, floor kept for heavy items"],
+		});
+	});
+
+	it("skips occupied, blocked and retired slots and aisle zones", () => {
+		const locations = [
+			...LOCATIONS.map((l) =>
+				l.location_id === "W1-1-2-B"
+					? { ...l, is_blocked: true }
+					: l.location_id === "W1-1-2-C"
+						? { ...l, is_active: false }
+						: l
+			),
+			{ location_id: "W1-AISLE-01", warehouse_id: "wh-1", type: "AISLE" as const },
+		];
+		const suggestions = suggestPutAwayLocations(LIGHT.item_id, LIGHT, locations, [
+			pallet("p1", "ITEM-009", "W1-1-2-A"),
+		]);
+
+		expect(ids(suggestions)).toEqual(["W1-2-2-A", "W1-2-2-B", "W1-2-2-C"]);
+	});
+
+	it("keeps the same item in the same rack", () => {
+		const suggestions = suggestPutAwayLocations(LIGHT.item_id, LIGHT, LOCATIONS, [
+			pallet("p1", LIGHT.item_id, "W1-2-1-A"),
+		]);
+
+		expect(ids(suggestions)).toEqual(["W1-2-2-A", "W1-2-2-B", "W1-2-2-C"]);
+		expect(suggestions[0].reasons).toContain("Same item in rack 2");
+	});
+
+	it("needs adjacent free positions on the floor for multi-slot heavy items", () => {
+		const suggestions = suggestPutAwayLocations(HEAVY.item_id, HEAVY, LOCATIONS, [
+			pallet("p1", "ITEM-009", "W1-1-1-B"),
+		]);
+
+		expect(suggestions.map((s) => s.location_ids)).toEqual([
+			["W1-2-1-A", "W1-2-1-B"],
+			["W1-2-1-B", "W1-2-1-C"],
+			["W1-2-2-A", "W1-2-2-B"],
+		]);
+		expect(suggestions[0].reasons).toEqual(["Floor level for a heavy item", "2 adjacent positions"]);
+	});
+
+	it("spreads pallets towards emptier racks", () => {
+		const suggestions = suggestPutAwayLocations(LIGHT.item_id, LIGHT, LOCATIONS, [
+			pallet("p1", "ITEM-009", "W1-1-1-A"),
+			pallet("p2", "ITEM-009", "W1-1-1-B"),
+			pallet("p3", "ITEM-009", "W1-1-1-C"),
+		]);
+
+		expect(ids(suggestions)).toEqual(["W1-2-2-A", "W1-2-2-B", "W1-2-2-C"]);
+		expect(suggestions[0].score).toBe(20);
+	});
+
+	it("applies custom rules", () => {
+		const rules: PutAwayRules = { ...DEFAULT_PUT_AWAY_RULES, maxSuggestions: 2, heavyItemIds: [LIGHT.item_id] };
+
+		expect(isHeavyItem(LIGHT, rules)).toBe(true);
+		expect(ids(suggestPutAwayLocations(LIGHT.item_id, LIGHT, LOCATIONS, [], [], rules))).toEqual([
+			"W1-1-1-A",
+			"W1-1-1-B",
+		]);
+		expect(isHeavyItem(HEAVY, { ...rules, heavyMinPalletPositions: 0 })).toBe(false);
+	});
+
+	it("treats every slot a multi-position pallet covers as occupied", () => {
+		// A 2-position pallet stored at W1-1-2-A also covers W1-1-2-B
+		const suggestions = suggestPutAwayLocations(
+			LIGHT.item_id,
+			LIGHT,
+			LOCATIONS,
+			[pallet("p1", HEAVY.item_id, "W1-1-2-A")],
+			[HEAVY],
+			{ ...DEFAULT_PUT_AWAY_RULES, maxSuggestions: 12 }
+		);
+
+		expect(ids(suggestions)).not.toContain("W1-1-2-A");
+		expect(ids(suggestions)).not.toContain("W1-1-2-B");
+		expect(ids(suggestions)).toContain("W1-1-2-C");
+
+		const wide = suggestPutAwayLocations(
+			HEAVY.item_id,
+			HEAVY,
+			[slot(1, 1, "A"), slot(1, 1, "B"), slot(1, 1, "C")],
+			[pallet("p1", HEAVY.item_id, "W1-1-1-A")],
+			[HEAVY]
+		);
+		expect(wide).toEqual([]);
+	});
+
+	it("suggests nothing when no slot is free", () => {
+		const full = LOCATIONS.map((l, i) => pallet(`p${i}`, "ITEM-009", l.location_id));
+
+		expect(suggestPutAwayLocations(LIGHT.item_id, LIGHT, LOCATIONS, full)).toEqual([]);
+	});
+});
@@ -0,0 +1,164 @@
+/**
+ * Put-Away Suggestions
+ *
+ * Proposes the best empty rack slots for a pallet on put-away (Screen8).
+ * A product taking several pallet positions needs that many adjacent free
+ * positions on one level; the pallet is stored on the first of them and
+ * covers the rest (getCoveredLocationIds), so those count as occupied too.
+ *
+ * Each candidate is scored by the rules (see src/config/put-away.ts):
+ * - a rack already holding the same item scores higher (keeps an item together)
+ * - heavy items score higher on floor levels, other items on upper levels
+ * - fuller racks score lower (spreads pallets out)
+ *
+ * Ties go to the lowest rack, level and position, so suggestions are
+ * deterministic.
+ *
+ * @module lib/api/putAway
+ */
+
+import type { Location, Pallet, Product } from "../../types/domain";
+import { getSlotPallets, isUsableLocation, POSITION_LETTERS } from "./location-layout";
+
+/**
+ * Scoring rules
+ */
+export interface PutAwayRules {
+	/** Suggestions returned, best first */
+	maxSuggestions: number;
+	/** Added when the rack already holds the same item */
+	sameItemRackBonus: number;
+	/** Added on the preferred levels: floor for heavy items, upper levels for the rest */
+	levelBonus: number;
+	/** Levels counted as floor (1 = bottom level only) */
+	floorLevels: number;
+	/** Items always treated as heavy */
+	heavyItemIds: string[];
+	/** Products with at least this many pallet positions are heavy (0 = off) */
+	heavyMinPalletPositions: number;
+	/** Subtracted in proportion to how full the rack is (0-1) */
+	occupancyPenalty: number;
+}
+
+export const DEFAULT_PUT_AWAY_RULES: PutAwayRules = {
+	maxSuggestions: 3,
+	sameItemRackBonus: 50,
+	levelBonus: 20,
+	floorLevels: 1,
+	heavyItemIds: [],
+	heavyMinPalletPositions: 2,
+	occupancyPenalty: 10,
+};
+
+/**
+ * One suggested place for a pallet
+ */
+export interface PutAwaySuggestion {
+	/** Slot the pallet is stored on */
+	location: Location;
+	/** Every slot the pallet covers, starting with location */
+	location_ids: string[];
+	score: number;
+	/** Why it scored, for display */
+	reasons: string[];
+}
+
+/**
+ * Check whether the rules treat a product as heavy
+ */
+export function isHeavyItem(product: Pick<Product, "item_id" | "pallet_positions">, rules: PutAwayRules): boolean {
+	if (rules.heavyItemIds.includes(product.item_id)) return true;
+	return rules.heavyMinPalletPositions > 0 && product.pallet_positions >= rules.heavyMinPalletPositions;
+}
+
+function compareSlots(a: Location, b: Location): number {
+	return (
+		(a.rack as number) - (b.rack as number) ||
+		(a.level as number) - (b.level as number) ||
+		POSITION_LETTERS.indexOf(a.position as string) - POSITION_LETTERS.indexOf(b.position as string)
+	);
+}
+
+/**
+ * Suggest empty rack slots for a pallet
+ *
+ * @param itemId - Item on the pallet
+ * @param product - Product of the item; without it the pallet takes one position and is not heavy
+ * @param locations - All locations (aisle zones, blocked and retired slots are never suggested)
+ * @param pallets - Pallets on the floor, for occupancy and where the item already is
+ * @param products - Products of those pallets, for the slots each one covers (1 when missing)
+ * @param rules - Scoring rules
+ * @returns Up to rules.maxSuggestions suggestions, best first
+ */
+export function suggestPutAwayLocations(
+	itemId: string,
+	product: Pick<Product, "item_id" | "pallet_positions"> | undefined,
+	locations: Location[],
+	pallets: Pallet[],
+	products: Pick<Product, "item_id" | "pallet_positions">[] = [],
+	rules: PutAwayRules = DEFAULT_PUT_AWAY_RULES
+): PutAwaySuggestion[] {
+	const slots = locations
+		.filter((l) => l.type === "RACK" && isUsableLocation(l) && l.rack && l.level && l.position)
+		.sort(compareSlots);
+	const rackOf = new Map(slots.map((l) => [l.location_id, l.rack as number]));
+
+	const slotPallets = getSlotPallets(locations, pallets, products);
+	const occupied = new Set(slotPallets.keys());
+	const itemRacks = new Set<number>();
+	for (const [locationId, held] of slotPallets) {
+		const rack = rackOf.get(locationId);
+		if (rack !== undefined && held.some((pallet) => pallet.item_id === itemId)) itemRacks.add(rack);
+	}
+
+	const rackFill = new Map<number, { slots: number; occupied: number }>();
+	for (const slot of slots) {
+		const fill = rackFill.get(slot.rack as number) ?? { slots: 0, occupied: 0 };
+		fill.slots += 1;
+		if (occupied.has(slot.location_id)) fill.occupied += 1;
+		rackFill.set(slot.rack as number, fill);
+	}
+
+	const width = Math.max(1, Math.ceil(product?.pallet_positions ?? 1));
+	const heavy = product ? isHeavyItem(product, rules) : false;
+	const suggestions: PutAwaySuggestion[] = [];
+
+	for (const [index, first] of slots.entries()) {
+		const run = slots.slice(index, index + width);
+		const adjacent =
+			run.length === width &&
+			run.every(
+				(slot, i) =>
+					slot.rack === first.rack &&
+					slot.level === first.level &&
+					POSITION_LETTERS.indexOf(slot.position as string) === POSITION_LETTERS.indexOf(first.position as string) + i
+			);
+		if (!adjacent || run.some((slot) => occupied.has(slot.location_id))) continue;
+
+		const rack = first.rack as number;
+		const isFloor = (first.level as number) <= rules.floorLevels;
+		const reasons: string[] = [];
+		let score = 0;
+		if (itemRacks.has(rack)) {
+			score += rules.sameItemRackBonus;
+			reasons.push(`Same item in rack ${rack}`);
+		}
+		if (heavy === isFloor) {
+			score += rules.levelBonus;
+			reasons.push(heavy ? "Floor level for a heavy item" : "Upper level, floor kept for heavy items");
+		}
+		const fill = rackFill.get(rack) as { slots: number; occupied: number };
+		score -= rules.occupancyPenalty * (fill.occupied / fill.slots);
+		if (width > 1) reasons.push(`${width} adjacent positions`);
+
+		suggestions.push({
+			location: first,
+			location_ids: run.map((slot) => slot.location_id),
+			score: Math.round(score * 100) / 100,
+			reasons,
+		});
+	}
+
+	// Stable sort: equal scores stay in rack/level/position order
+	return suggestions.sort((a, b) => b.score - a.score).slice(0, rules.maxSuggestions);
+}
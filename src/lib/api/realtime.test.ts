@@ -0,0 +1,88 @@
+/**
+ * Realtime Subscription Tests
+ *
+ * @module lib/api/realtime.test
+ */
+
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import { normalizeSubscriptions, subscribeWithFallback } from "./realtime";
+import type { RealtimeBackend, RealtimeStatus, WmsChange } from "./wms-backend";
+
+/**
+ * Change feed whose status and changes the test drives by hand
+ */
+function createFakeFeed() {
+	let emit: ((change: WmsChange) => void) | undefined;
+	let report: ((status: RealtimeStatus) => void) | undefined;
+	const unsubscribe = vi.fn();
+	const realtime: RealtimeBackend = {
+		subscribe(_subscriptions, listener, onStatus) {
+			emit = listener;
+			report = onStatus;
+			return unsubscribe;
+		},
+	};
+	return {
+		realtime,
+		unsubscribe,
+		emit: (change: WmsChange) => emit?.(change),
+		report: (status: RealtimeStatus) => report?.(status),
+	};
+}
+
+describe("realtime subscriptions", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		vi.spyOn(console, "warn").mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+		vi.restoreAllMocks();
+	});
+
+	it("normalizes table names and subscriptions", () => {
+		const filter = { column: "receiving_order_id", value: "ro-1" };
+		expect(normalizeSubscriptions("pallets")).toEqual([{ table: "pallets" }]);
+		expect(normalizeSubscriptions(["manifests", { table: "pallets", filter }])).toEqual([
+			{ table: "manifests" },
+			{ table: "pallets", filter },
+		]);
+	});
+
+	it("polls while the feed is down and catches up once it is back", () => {
+		const feed = createFakeFeed();
+		const listener = vi.fn();
+		const unsubscribe = subscribeWithFallback(feed.realtime, ["pallets", "manifests"], listener, {
+			pollIntervalMs: 1000,
+		});
+
+		feed.report("live");
+		feed.emit({ table: "pallets", eventType: "INSERT", record: { id: "p-1" } });
+		expect(listener).toHaveBeenCalledTimes(1);
+
+		feed.report("failed");
+		vi.advanceTimersByTime(2500);
+		expect(listener.mock.calls.slice(1).map(([change]) => [change.table, change.eventType])).toEqual([
+			["pallets", "POLL"],
+			["manifests", "POLL"],
+			["pallets", "POLL"],
+			["manifests", "POLL"],
+		]);
+
+		listener.mockClear();
+		feed.report("live");
+		expect(listener).toHaveBeenCalledTimes(2);
+		vi.advanceTimersByTime(5000);
+		expect(listener).toHaveBeenCalledTimes(2);
+
+		unsubscribe();
+		// Removing the channel reports it closed; that must not restart polling
+		feed.report("failed");
+		feed.emit({ table: "pallets", eventType: "UPDATE", record: { id: "p-1" } });
+		vi.advanceTimersByTime(5000);
+		expect(listener).toHaveBeenCalledTimes(2);
+		expect(feed.unsubscribe).toHaveBeenCalledOnce();
+	});
+});
@@ -0,0 +1,84 @@
+/**
+ * Realtime Subscriptions
+ *
+ * Wraps the backend change feed with a polling fallback: when the feed fails
+ * (channel error, timeout, realtime disabled), every subscribed table gets a
+ * POLL change on an interval so screens keep refreshing. Once the feed is
+ * live again polling stops, with one last POLL to catch up on missed changes.
+ *
+ * @module lib/api/realtime
+ */
+
+import type { RealtimeBackend, WmsChange, WmsSubscription, WmsTable } from "./wms-backend";
+
+/** Polling interval while the realtime feed is down */
+export const DEFAULT_POLL_INTERVAL_MS = 15_000;
+
+/** A table, a filtered table or a list of either */
+export type SubscriptionInput = WmsTable | WmsSubscription | (WmsTable | WmsSubscription)[];
+
+export interface SubscribeOptions {
+	/** Polling interval while the realtime feed is down */
+	pollIntervalMs?: number;
+}
+
+/**
+ * Turn subscription input into a list of subscriptions
+ *
+ * @param input - Table name(s) and/or subscriptions
+ * @returns Subscriptions
+ */
+export function normalizeSubscriptions(input: SubscriptionInput): WmsSubscription[] {
+	const list = Array.isArray(input) ? input : [input];
+	return list.map((entry) => (typeof entry === "string" ? { table: entry } : entry));
+}
+
+/**
+ * Subscribe to row changes, polling while the realtime feed is down
+ *
+ * @param realtime - Backend change feed
+ * @param input - Tables to watch
+ * @param listener - Called for every change (or POLL tick)
+ * @param options - Polling options
+ * @returns Unsubscribe function
+ */
+export function subscribeWithFallback(
+	realtime: RealtimeBackend,
+	input: SubscriptionInput,
+	listener: (change: WmsChange) => void,
+	options: SubscribeOptions = {}
+): () => void {
+	const subscriptions = normalizeSubscriptions(input);
+	const tables = [...new Set(subscriptions.map(({ table }) => table))];
+	let pollTimer: ReturnType<typeof setInterval> | null = null;
+	let closed = false;
+
+	const poll = () => {
+		for (const table of tables) listener({ table, eventType: "POLL", record: null });
+	};
+
+	const unsubscribe = realtime.subscribe(
+		subscriptions,
+		(change) => {
+			if (!closed) listener(change);
+		},
+		(status) => {
+			// Removing the channel reports CLOSED; nothing to do after unsubscribe
+			if (closed) return;
+			if (status === "failed" && pollTimer === null) {
+				console.warn("[Realtime] Feed unavailable, falling back to polling");
+				pollTimer = setInterval(poll, options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS);
+			} else if (status === "live" && pollTimer !== null) {
+				clearInterval(pollTimer);
+				pollTimer = null;
+				poll();
+			}
+		}
+	);
+
+	return () => {
+		closed = true;
+		if (pollTimer !== null) clearInterval(pollTimer);
+		unsubscribe();
+	};
+}
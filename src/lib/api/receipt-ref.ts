@@ -0,0 +1,67 @@
+/**
+ * Receipt References
+ *
+ * Every receiving order gets a receipt reference when it is created:
+ * RCV-<year>-<number>, e.g. RCV-2026-0042. Numbers run per calendar year (of
+ * created_at, UTC) and are never reused, so a container that comes back months
+ * later still gets a reference of its own.
+ *
+ * Both backends assign the reference on create (the
+ * receiving_orders_assign_receipt_ref trigger in Supabase); orders created
+ * before references existed are backfilled in created_at order. Also holds the
+ * in-process search used by the memory adapter.
+ *
+ * @module lib/api/receiptRef
+ */
+
+import type { ReceivingOrder } from "../../types/domain";
+import type { ReceivingOrderFilters } from "./wms-backend";
+
+/** Digits the number is zero-padded to (it grows past them rather than wrapping) */
+export const RECEIPT_REF_DIGITS = 4;
+
+/** A receipt reference as printed on paperwork */
+export const RECEIPT_REF_PATTERN = /^RCV-\d{4}-\d{4,}$/;
+
+/** Orders returned by a receiving order search that does not set a limit */
+export const DEFAULT_RECEIVING_SEARCH_LIMIT = 20;
+
+/**
+ * Receipt reference of a year's nth receiving order
+ *
+ * @example formatReceiptRef(2026, 42) // "RCV-2026-0042"
+ */
+export function formatReceiptRef(year: number, sequence: number): string {
+	return `RCV-${year}-${String(sequence).padStart(RECEIPT_REF_DIGITS, "0")}`;
+}
+
+/**
+ * Year whose numbers an order's reference comes from
+ *
+ * @param createdAt - ISO timestamp the order was created
+ */
+export function getReceiptRefYear(createdAt: string): number {
+	return new Date(createdAt).getUTCFullYear();
+}
+
+/**
+ * Check whether text is a receipt reference (case-insensitive)
+ */
+export function isReceiptRef(value: string): boolean {
+	return RECEIPT_REF_PATTERN.test(value.trim().toUpperCase());
+}
+
+/**
+ * Check a receiving order against search criteria (memory adapter)
+ *
+ * @param order - Receiving order
+ * @param filters - Search criteria
+ * @returns True when the order matches every criterion set
+ */
+export function matchesReceivingOrderFilters(order: ReceivingOrder, filters: ReceivingOrderFilters): boolean {
+	const search = filters.search?.trim().toLowerCase();
+	if (search && ![order.receipt_ref, order.container_num].some((value) => value?.toLowerCase().includes(search))) {
+		return false;
+	}
+	return !filters.status?.length || filters.status.includes(order.status);
+}
@@ -0,0 +1,66 @@
+/**
+ * Status State Machine Tests
+ *
+ * @module lib/api/statusMachine.test
+ */
+
+import { describe, expect, it } from "vitest";
+
+import {
+	assertTransition,
+	canTransition,
+	getAllowedTransitions,
+	InvalidStatusTransitionError,
+	isTerminalStatus,
+	STATUS_TRANSITIONS,
+} from "./status-machine";
+
+describe("status machine", () => {
+	it("walks each lifecycle along its happy path", () => {
+		const paths = {
+			receivingOrder: ["Pending", "Unloading", "Staged", "Received"],
+			pallet: ["Received", "Stored", "Staged", "Loaded", "Shipped"],
+			shippingOrder: ["Pending", "Picking", "Loading", "Completed", "Shipped"],
+			manifest: ["Open", "Closed"],
+		} as const;
+
+		for (const [entity, path] of Object.entries(paths)) {
+			for (let i = 1; i < path.length; i++) {
+				expect(canTransition(entity as keyof typeof paths, path[i - 1] as never, path[i] as never)).toBe(true);
+			}
+		}
+	});
+
+	it("rejects skipping steps and leaving terminal statuses", () => {
+		expect(canTransition("receivingOrder", "Pending", "Received")).toBe(false);
+		expect(canTransition("pallet", "Shipped", "Stored")).toBe(false);
+		expect(canTransition("shippingOrder", "Cancelled", "Pending")).toBe(false);
+		expect(() => assertTransition("manifest", "Closed", "Open")).toThrow(
+			new InvalidStatusTransitionError("manifest", "Closed", "Open")
+		);
+		expect(() => assertTransition("pallet", "WriteOff", "Stored")).toThrow(
+			"Cannot change pallet status from WriteOff to Stored"
+		);
+	});
+
+	it("allows keeping the current status", () => {
+		expect(canTransition("pallet", "Stored", "Stored")).toBe(true);
+		expect(canTransition("shippingOrder", "Shipped", "Shipped")).toBe(true);
+	});
+
+	it("exposes the allowed next statuses", () => {
+		expect(getAllowedTransitions("shippingOrder", "Pending")).toEqual(["Picking", "Loading", "Cancelled"]);
+		expect(getAllowedTransitions("pallet", "Received")).toContain("WriteOff");
+		expect(isTerminalStatus("pallet", "Shipped")).toBe(true);
+		expect(isTerminalStatus("manifest", "Open")).toBe(false);
+	});
+
+	it("only targets statuses that exist in the same table", () => {
+		for (const table of Object.values(STATUS_TRANSITIONS)) {
+			const statuses = Object.keys(table);
+			for (const next of Object.values(table).flat()) {
+				expect(statuses).toContain(next);
+			}
+		}
+	});
+});
@@ -0,0 +1,161 @@
+/**
+ * Status State Machine
+ *
+ * Single source of truth for the legal status transitions of receiving
+ * orders, pallets, shipping orders and manifests. wmsApi checks every status
+ * change against these tables before writing, and screens use them to decide
+ * which actions to offer.
+ *
+ * Re-applying the current status is always allowed, so updates that only
+ * touch other fields (e.g. moving a Stored pallet) pass through unchanged.
+ *
+ * @module lib/api/statusMachine
+ */
+
+import type { Manifest, Pallet, ReceivingOrder, ShippingOrder } from "../../types/domain";
+import { WmsError } from "./errors";
+
+/**
+ * Status type of each entity with a lifecycle
+ */
+export interface EntityStatusMap {
+	receivingOrder: ReceivingOrder["status"];
+	pallet: Pallet["status"];
+	shippingOrder: ShippingOrder["status"];
+	manifest: Manifest["status"];
+}
+
+export type StatusEntity = keyof EntityStatusMap;
+
+type TransitionTable = {
+	[E in StatusEntity]: Record<EntityStatusMap[E], readonly EntityStatusMap[E][]>;
+};
+
+/**
+ * Pallet statuses a cancelled order releases back to Received: still in the
+ * warehouse, not Shipped, written off or merged away
+ */
+export const RELEASABLE_PALLET_STATUSES: Pallet["status"][] = ["Received", "Stored", "Staged", "Loaded"];
+
+/**
+ * Statuses each status may move to next
+ */
+export const STATUS_TRANSITIONS: TransitionTable = {
+	receivingOrder: {
+		Pending: ["Unloading"],
+		Unloading: ["Staged"],
+		Staged: ["Received"],
+		Received: [],
+	},
+	pallet: {
+		// Received pallets can be loaded straight from the dock (hybrid flow)
+		Received: ["Stored", "Loaded", "WriteOff", "Merged"],
+		// Back to Received when the order they were picked for is cancelled
+		Stored: ["Staged", "Loaded", "Received", "WriteOff", "Merged"],
+		Staged: ["Stored", "Loaded", "Received", "WriteOff", "Merged"],
+		Loaded: ["Staged", "Shipped", "Received", "WriteOff"],
+		Shipped: [],
+		// Only an approved write-off reversal (write-offs.ts) brings a pallet back
+		WriteOff: [],
+		Merged: [],
+	},
+	shippingOrder: {
+		// Fully cross-docked orders skip picking
+		Pending: ["Picking", "Loading", "Cancelled"],
+		Picking: ["Loading", "Cancelled"],
+		Loading: ["Completed", "Cancelled"],
+		// Back to Loading for a second truck or when its manifest is cancelled
+		Completed: ["Loading", "Shipped", "Cancelled"],
+		Shipped: [],
+		Cancelled: [],
+	},
+	manifest: {
+		Open: ["Closed", "Cancelled"],
+		Closed: [],
+		Cancelled: [],
+	},
+};
+
+const ENTITY_LABELS: Record<StatusEntity, string> = {
+	receivingOrder: "receiving order",
+	pallet: "pallet",
+	shippingOrder: "shipping order",
+	manifest: "manifest",
+};
+
+/**
+ * Thrown when a status change is not allowed by the state machine
+ */
+export class InvalidStatusTransitionError extends WmsError {
+	readonly entity: StatusEntity;
+	readonly from: string;
+	readonly to: string;
+
+	constructor(entity: StatusEntity, from: string, to: string) {
+		super("invalid_transition", `Cannot change ${ENTITY_LABELS[entity]} status from ${from} to ${to}`);
+		this.name = "InvalidStatusTransitionError";
+		this.entity = entity;
+		this.from = from;
+		this.to = to;
+	}
+}
+
+/**
+ * Get the statuses an entity can move to next
+ *
+ * @param entity - Entity type
+ * @param from - Current status
+ * @returns Allowed next statuses (empty for terminal statuses)
+ */
+export function getAllowedTransitions<E extends StatusEntity>(
+	entity: E,
+	from: EntityStatusMap[E]
+): readonly EntityStatusMap[E][] {
+	const table = STATUS_TRANSITIONS[entity] as Record<EntityStatusMap[E], readonly EntityStatusMap[E][]>;
+	return table[from] ?? [];
+}
+
+/**
+ * Check whether a status change is allowed
+ *
+ * @param entity - Entity type
+ * @param from - Current status
+ * @param to - Requested status
+ * @returns True if the change is legal or keeps the current status
+ */
+export function canTransition<E extends StatusEntity>(
+	entity: E,
+	from: EntityStatusMap[E],
+	to: EntityStatusMap[E]
+): boolean {
+	return from === to || getAllowedTransitions(entity, from).includes(to);
+}
+
+/**
+ * Reject an illegal status change
+ *
+ * @param entity - Entity type
+ * @param from - Current status
+ * @param to - Requested status
+ * @throws InvalidStatusTransitionError if the change is not allowed
+ */
+export function assertTransition<E extends StatusEntity>(
+	entity: E,
+	from: EntityStatusMap[E],
+	to: EntityStatusMap[E]
+): void {
+	if (!canTransition(entity, from, to)) {
+		throw new InvalidStatusTransitionError(entity, from, to);
+	}
+}
+
+/**
+ * Check whether a status has no way out (Shipped, Cancelled, …)
+ *
+ * @param entity - Entity type
+ * @param status - Current status
+ * @returns True if no further transitions exist
+ */
+export function isTerminalStatus<E extends StatusEntity>(entity: E, status: EntityStatusMap[E]): boolean {
+	return getAllowedTransitions(entity, status).length === 0;
+}
@@ -0,0 +1,2130 @@
+/**
+ * Supabase Backend Adapter
+ *
+ * Production implementation of the WmsBackend contract. Talks to Postgres
+ * through PostgREST and to Supabase Storage. This is the only module (besides
+ * auth) that touches the Supabase client for data operations.
+ *
+ * @module lib/api/supabaseBackend
+ */
+
+import type {
+	AuditEvent,
+	CycleCount,
+	InventoryAdjustment,
+	Location,
+	Manifest,
+	Pallet,
+	Product,
+	ProductVersion,
+	ReceivingOrder,
+	ReceivingOrderLine,
+	ShippingOrder,
+	ShippingOrderLine,
+	Warehouse,
+	WriteOffRequest,
+} from "../../types/domain";
+import { supabase } from "../auth/supabase-client";
+import { sendEmail, type EmailAttachment } from "../email-service";
+import { DEFAULT_AUDIT_LIMIT, type AuditOptions } from "./audit";
+import { NotFoundError, toWmsError, ValidationError } from "./errors";
+import { getPalletQueryOptions, toList, toLpnList, toPalletPage } from "./pallet-query";
+import {
+	diffProductMaster,
+	validateProductMasterRows,
+	type ProductMasterDiff,
+	type ProductMasterRow,
+} from "./product-master";
+import { DEFAULT_RECEIVING_SEARCH_LIMIT } from "./receipt-ref";
+import type {
+	AdjustmentsBackend,
+	ApprovalDecision,
+	AuditBackend,
+	AuditEventFilters,
+	CycleCountApproval,
+	CycleCountEntry,
+	CycleCountFilters,
+	CycleCountInput,
+	CycleCountsBackend,
+	CycleCountWithLines,
+	EmailBackend,
+	FinishTallyResult,
+	InventoryAdjustmentFilters,
+	InventoryAdjustmentInput,
+	LocationInput,
+	LocationsBackend,
+	LocationUpdate,
+	ManifestsBackend,
+	PalletPage,
+	PalletQuery,
+	PalletsBackend,
+	PalletSplitResult,
+	PalletUpdate,
+	ProductsBackend,
+	RealtimeBackend,
+	ReceivingOrderFilters,
+	ReceivingOrderLinesBackend,
+	ReceivingOrdersBackend,
+	ShippingOrdersBackend,
+	StorageBackend,
+	WarehousesBackend,
+	WmsBackend,
+	WriteOffFilters,
+	WriteOffRequestInput,
+	WriteOffsBackend,
+} from "./wms-backend";
+
+/**
+ * Quote a value for use inside a PostgREST or() filter
+ */
+function quoteFilterValue(value: string | number): string {
+	return `"${String(value)
+		.replaceAll("\\", "\\\\")
+		.replaceAll('"', String.raw`\"`)}"`;
+}
+
+/**
+ * Send the reason for a change with the request; the audit trigger reads it
+ *
+ * Header values must be ASCII, so the header carries base64 of the UTF-8 text.
+ */
+function withAuditReason<T extends { setHeader(name: string, value: string): T }>(
+	request: T,
+	options?: AuditOptions
+): T {
+	const reason = options?.reason?.trim();
+	if (!reason) return request;
+	return request.setHeader("x-audit-reason", btoa(String.fromCodePoint(...new TextEncoder().encode(reason))));
+}
+
+/**
+ * Product Operations
+ */
+const products: ProductsBackend = {
+	/**
+	 * Get all products
+	 *
+	 * @returns Array of products
+	 * @throws Error with user-friendly message
+	 */
+	async getAll(): Promise<Product[]> {
+		try {
+			const { data, error } = await supabase.from("products").select("*").order("item_id", { ascending: true });
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load products");
+		}
+	},
+
+	/**
+	 * Get single product by ID
+	 *
+	 * @param id - Product ID
+	 * @returns Product object
+	 * @throws Error with user-friendly message
+	 */
+	async getById(id: string): Promise<Product> {
+		try {
+			const { data, error } = await supabase.from("products").select("*").eq("id", id).single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Product not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to load product");
+		}
+	},
+
+	/**
+	 * Create new product
+	 *
+	 * @param product - Product data
+	 * @returns Created product
+	 * @throws Error with user-friendly message
+	 */
+	async create(product: Omit<Product, "id" | "created_at">): Promise<Product> {
+		try {
+			const { data, error } = await supabase.from("products").insert([product]).select().single();
+
+			if (error) {
+				// Log detailed error for debugging
+				console.error("Supabase insert error:", error);
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Failed to create product - no data returned");
+			}
+
+			return data;
+		} catch (error) {
+			const wmsError = toWmsError(error, "Failed to create product");
+			console.error("Product creation error:", wmsError.message, "Product:", product);
+			throw wmsError;
+		}
+	},
+
+	/**
+	 * Update product
+	 *
+	 * @param itemId - Product item_id (primary key)
+	 * @param updates - Partial product data to update
+	 * @returns Updated product
+	 * @throws Error with user-friendly message
+	 */
+	async update(itemId: string, updates: Partial<Product>): Promise<Product> {
+		try {
+			const { data, error } = await supabase.from("products").update(updates).eq("item_id", itemId).select().single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Product not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to update product");
+		}
+	},
+
+	/**
+	 * Get product by item_id
+	 *
+	 * @param item_id - Product item ID
+	 * @returns Product
+	 * @throws Error with user-friendly message
+	 */
+	async getByItemId(item_id: string): Promise<Product> {
+		try {
+			const { data, error } = await supabase.from("products").select("*").eq("item_id", item_id).single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError(`Product with item_id "${item_id}" not found`);
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to get product");
+		}
+	},
+
+	/**
+	 * Replace-all Product Master upload
+	 *
+	 * The diff is computed from the current catalog; the writes run in one
+	 * transaction (wms_replace_product_master).
+	 *
+	 * @param rows - Products in the uploaded file
+	 * @param options - dryRun: only compute the diff
+	 * @returns What the upload changes
+	 * @throws Error with user-friendly message
+	 */
+	async uploadMaster(rows: ProductMasterRow[], options: { dryRun?: boolean } = {}): Promise<ProductMasterDiff> {
+		try {
+			validateProductMasterRows(rows);
+			const diff = diffProductMaster(await products.getAll(), rows);
+			if (options.dryRun) {
+				return diff;
+			}
+
+			const { error } = await supabase.rpc("wms_replace_product_master", { p_products: rows });
+
+			if (error) {
+				throw error;
+			}
+
+			return diff;
+		} catch (error) {
+			throw toWmsError(error, "Failed to upload product master");
+		}
+	},
+
+	/**
+	 * Get product spec history
+	 *
+	 * @param itemIds - Limit to these items (all items when omitted)
+	 * @returns Versions, oldest first
+	 * @throws Error with user-friendly message
+	 */
+	async getVersions(itemIds?: string[]): Promise<ProductVersion[]> {
+		try {
+			let query = supabase.from("product_versions").select("*").order("effective_from", { ascending: true });
+			if (itemIds) {
+				query = query.in("item_id", itemIds);
+			}
+
+			const { data, error } = await query;
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load product history");
+		}
+	},
+};
+
+/**
+ * Receiving Order Line Operations
+ */
+const receivingOrderLines: ReceivingOrderLinesBackend = {
+	/**
+	 * Create receiving order line
+	 *
+	 * @param line - Receiving order line data
+	 * @returns Created receiving order line
+	 * @throws Error with user-friendly message
+	 */
+	async create(line: Omit<ReceivingOrderLine, "id" | "created_at">): Promise<ReceivingOrderLine> {
+		try {
+			const { data, error } = await supabase.from("receiving_order_lines").insert([line]).select().single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Failed to create receiving order line");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to create receiving order line");
+		}
+	},
+
+	/**
+	 * Get receiving order lines by receiving order ID
+	 *
+	 * @param receivingOrderId - Receiving order ID
+	 * @returns Array of receiving order lines
+	 * @throws Error with user-friendly message
+	 */
+	async getByReceivingOrderId(receivingOrderId: string): Promise<ReceivingOrderLine[]> {
+		try {
+			const { data, error } = await supabase
+				.from("receiving_order_lines")
+				.select("*")
+				.eq("receiving_order_id", receivingOrderId);
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load receiving order lines");
+		}
+	},
+};
+
+/**
+ * Receiving Order Operations
+ */
+const receivingOrders: ReceivingOrdersBackend = {
+	/**
+	 * Create receiving order
+	 *
+	 * @param order - Receiving order data
+	 * @returns Created receiving order
+	 * @throws Error with user-friendly message
+	 */
+	async create(
+		order: Omit<ReceivingOrder, "id" | "receipt_ref" | "created_at" | "updated_at">
+	): Promise<ReceivingOrder> {
+		try {
+			const { data, error } = await supabase.from("receiving_orders").insert([order]).select().single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Failed to create receiving order");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to create receiving order");
+		}
+	},
+
+	/**
+	 * Get receiving order by ID
+	 *
+	 * @param id - Receiving order ID
+	 * @returns Receiving order with lines
+	 * @throws Error with user-friendly message
+	 */
+	async getById(id: string): Promise<ReceivingOrder & { lines: ReceivingOrderLine[] }> {
+		try {
+			const { data, error } = await supabase
+				.from("receiving_orders")
+				.select("*, receiving_order_lines(*)")
+				.eq("id", id)
+				.single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Receiving order not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to load receiving order");
+		}
+	},
+
+	/**
+	 * Update receiving order
+	 *
+	 * @param id - Receiving order ID
+	 * @param updates - Partial receiving order data
+	 * @param options - Reason recorded on the audit trail
+	 * @returns Updated receiving order
+	 * @throws Error with user-friendly message
+	 */
+	async update(
+		id: string,
+		updates: Partial<Omit<ReceivingOrder, "receipt_ref">>,
+		options?: AuditOptions
+	): Promise<ReceivingOrder> {
+		try {
+			const { data, error } = await withAuditReason(
+				supabase.from("receiving_orders").update(updates).eq("id", id),
+				options
+			)
+				.select()
+				.single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Receiving order not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to update receiving order");
+		}
+	},
+
+	/**
+	 * Create receiving order lines
+	 *
+	 * @param lines - Array of receiving order lines
+	 * @returns Created lines
+	 * @throws Error with user-friendly message
+	 */
+	async createLines(lines: Omit<ReceivingOrderLine, "id">[]): Promise<ReceivingOrderLine[]> {
+		try {
+			const { data, error } = await supabase.from("receiving_order_lines").insert(lines).select();
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to create receiving order lines");
+		}
+	},
+
+	/**
+	 * List all receiving orders
+	 *
+	 * @returns Array of receiving orders with lines
+	 * @throws Error with user-friendly message
+	 */
+	async list(): Promise<(ReceivingOrder & { lines?: ReceivingOrderLine[] })[]> {
+		try {
+			const { data, error } = await supabase
+				.from("receiving_orders")
+				.select("*, receiving_order_lines(*)")
+				.order("created_at", { ascending: false });
+
+			if (error) {
+				throw error;
+			}
+
+			// Map receiving_order_lines to lines for consistency
+			const mappedData = (data || []).map((order: ReceivingOrder) => ({
+				...order,
+				lines: order.lines || [],
+			}));
+
+			return mappedData;
+		} catch (error) {
+			throw toWmsError(error, "Failed to load receiving orders");
+		}
+	},
+
+	/**
+	 * Get all receiving orders (alias for list)
+	 *
+	 * @returns Array of receiving orders
+	 * @throws Error with user-friendly message
+	 */
+	async getAll(): Promise<ReceivingOrder[]> {
+		try {
+			const { data, error } = await supabase
+				.from("receiving_orders")
+				.select("*")
+				.order("created_at", { ascending: false });
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load receiving orders");
+		}
+	},
+
+	/**
+	 * Search receiving orders by receipt ref or container #
+	 *
+	 * @param filters - Search criteria
+	 * @returns Matching orders, newest first
+	 * @throws Error with user-friendly message
+	 */
+	async query(filters: ReceivingOrderFilters): Promise<ReceivingOrder[]> {
+		try {
+			let query = supabase.from("receiving_orders").select("*");
+
+			const search = filters.search?.trim();
+			if (search) {
+				const pattern = quoteFilterValue(`%${search}%`);
+				query = query.or(`receipt_ref.ilike.${pattern},container_num.ilike.${pattern}`);
+			}
+			if (filters.status?.length) {
+				query = query.in("status", filters.status);
+			}
+
+			const { data, error } = await query
+				.order("created_at", { ascending: false })
+				.limit(filters.limit ?? DEFAULT_RECEIVING_SEARCH_LIMIT);
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to search receiving orders");
+		}
+	},
+
+	/**
+	 * Finish tally (atomic, RPC wms_finish_tally)
+	 *
+	 * Sets the receiving order to Staged. If every pallet was created via SHIP-NOW,
+	 * the shipping orders of those pallets move to Loading in the same transaction.
+	 *
+	 * @param id - Receiving order ID
+	 * @returns Staged order and the shipping orders now in Loading
+	 * @throws Error with user-friendly message
+	 */
+	async finishTally(id: string): Promise<FinishTallyResult> {
+		try {
+			const { data, error } = await supabase.rpc("wms_finish_tally", { p_receiving_order_id: id });
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Failed to finish tally");
+			}
+
+			const result = data as { order: ReceivingOrder; loading_order_ids: string[] | null };
+			return { order: result.order, loadingOrderIds: result.loading_order_ids || [] };
+		} catch (error) {
+			throw toWmsError(error, "Failed to finish tally");
+		}
+	},
+
+	/**
+	 * Finalize receiving (atomic, RPC wms_finalize_receiving)
+	 *
+	 * Marks a Staged order Received, sets finalized_at and stamps received_at
+	 * on its pallets, all in one transaction.
+	 *
+	 * @param id - Receiving order ID
+	 * @returns Finalized receiving order
+	 * @throws Error with user-friendly message
+	 */
+	async finalize(id: string): Promise<ReceivingOrder> {
+		try {
+			const { data, error } = await supabase.rpc("wms_finalize_receiving", { p_receiving_order_id: id });
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Receiving order not found");
+			}
+
+			return data as ReceivingOrder;
+		} catch (error) {
+			throw toWmsError(error, "Failed to finalize receiving order");
+		}
+	},
+};
+
+/**
+ * Pallet Operations
+ */
+const pallets: PalletsBackend = {
+	/**
+	 * Create pallet
+	 *
+	 * @param pallet - Pallet data
+	 * @returns Created pallet
+	 * @throws Error with user-friendly message
+	 */
+	async create(pallet: Omit<Pallet, "id" | "lpn" | "created_at">): Promise<Pallet> {
+		try {
+			const { data, error } = await supabase.from("pallets").insert([pallet]).select().single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Failed to create pallet");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to create pallet");
+		}
+	},
+
+	/**
+	 * Get all pallets
+	 *
+	 * @returns Array of all pallets
+	 * @throws Error with user-friendly message
+	 */
+	async getAll(): Promise<Pallet[]> {
+		try {
+			const { data, error } = await supabase.from("pallets").select("*");
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load pallets");
+		}
+	},
+
+	/**
+	 * Get single pallet by ID
+	 *
+	 * @param id - Pallet ID
+	 * @returns Pallet object
+	 * @throws Error with user-friendly message
+	 */
+	async getById(id: string): Promise<Pallet> {
+		try {
+			const { data, error } = await supabase.from("pallets").select("*").eq("id", id).single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Pallet not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to load pallet");
+		}
+	},
+
+	/**
+	 * Query pallets with filters, sorting and cursor pagination
+	 *
+	 * All filtering happens in Postgres; only the requested page is transferred.
+	 *
+	 * @param query - Filters plus sort/page options
+	 * @returns Page of pallets and the cursor for the next page
+	 * @throws Error with user-friendly message
+	 */
+	async query(query: PalletQuery): Promise<PalletPage> {
+		try {
+			const options = getPalletQueryOptions(query);
+			let request = supabase.from("pallets").select("*");
+
+			if (query.id) {
+				request = request.in("id", toList(query.id));
+			}
+			if (query.lpn) {
+				request = request.in("lpn", toLpnList(query.lpn));
+			}
+			if (query.status) {
+				request = request.in("status", toList(query.status));
+			}
+			if (query.item_id) {
+				request = request.in("item_id", toList(query.item_id));
+			}
+			if (query.receiving_order_id) {
+				request = request.in(
+					"receiving_order_id",
+					toList(query.receiving_order_id).map((id) => id.trim())
+				);
+			}
+
+			// Nullable columns: only filter when the key is present; null/undefined means IS NULL
+			for (const column of ["shipping_order_id", "location_id", "manifest_id"] as const) {
+				if (!(column in query)) continue;
+				const value = query[column];
+				request = value === null || value === undefined ? request.is(column, null) : request.in(column, toList(value));
+			}
+
+			if (query.is_cross_dock !== undefined) {
+				request = request.eq("is_cross_dock", query.is_cross_dock);
+			}
+
+			for (const column of ["created_at", "received_at", "shipped_at"] as const) {
+				const range = query[column];
+				if (range?.from) request = request.gte(column, range.from);
+				if (range?.to) request = request.lte(column, range.to);
+			}
+
+			// Keyset pagination: rows after (sort value, id) of the previous page
+			if (options.cursor) {
+				const op = options.ascending ? "gt" : "lt";
+				const value = quoteFilterValue(options.cursor.value);
+				const id = quoteFilterValue(options.cursor.id);
+				request = request.or(`${options.sort}.${op}.${value},and(${options.sort}.eq.${value},id.${op}.${id})`);
+			}
+
+			const { data, error } = await request
+				.order(options.sort, { ascending: options.ascending })
+				.order("id", { ascending: options.ascending })
+				.limit(options.limit + 1);
+
+			if (error) {
+				throw error;
+			}
+
+			return toPalletPage(data || [], options);
+		} catch (error) {
+			throw toWmsError(error, "Failed to load pallets");
+		}
+	},
+
+	/**
+	 * Update pallet
+	 *
+	 * @param id - Pallet ID
+	 * @param updates - Partial pallet data (null clears location/order/manifest)
+	 * @param options - Reason recorded on the audit trail
+	 * @returns Updated pallet
+	 * @throws Error with user-friendly message
+	 */
+	async update(id: string, updates: PalletUpdate, options?: AuditOptions): Promise<Pallet> {
+		try {
+			const { data, error } = await withAuditReason(supabase.from("pallets").update(updates).eq("id", id), options)
+				.select()
+				.single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Pallet not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to update pallet");
+		}
+	},
+
+	/**
+	 * Delete pallet (soft delete via status)
+	 *
+	 * @param id - Pallet ID
+	 * @param options - Reason recorded on the audit trail
+	 * @throws Error with user-friendly message
+	 */
+	async delete(id: string, options?: AuditOptions): Promise<void> {
+		try {
+			const { error } = await withAuditReason(supabase.from("pallets").delete().eq("id", id), options);
+
+			if (error) {
+				throw error;
+			}
+		} catch (error) {
+			throw toWmsError(error, "Failed to delete pallet");
+		}
+	},
+
+	/**
+	 * Split a pallet (atomic, RPC wms_split_pallet)
+	 *
+	 * Creates one pallet per qty, inheriting item, status, location, order
+	 * assignment, receiving order and received_at, and takes the total off the
+	 * original pallet.
+	 *
+	 * @param id - Pallet ID
+	 * @param qtys - Qty of each new pallet
+	 * @param options - Reason recorded on the audit trail
+	 * @returns The original pallet and the new pallets
+	 * @throws Error with user-friendly message
+	 */
+	async split(id: string, qtys: number[], options?: AuditOptions): Promise<PalletSplitResult> {
+		try {
+			const { data, error } = await withAuditReason(
+				supabase.rpc("wms_split_pallet", { p_pallet_id: id, p_qtys: qtys }),
+				options
+			);
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Failed to split pallet");
+			}
+
+			const result = data as { source: Pallet; created: Pallet[] | null };
+			return { source: result.source, created: result.created || [] };
+		} catch (error) {
+			throw toWmsError(error, "Failed to split pallet");
+		}
+	},
+
+	/**
+	 * Merge pallets (atomic, RPC wms_merge_pallets)
+	 *
+	 * Adds the qty of the other pallets to the first one; the others become
+	 * Merged (merged_into_id) and are taken off their location and order.
+	 *
+	 * @param ids - Pallet IDs; the first one receives the others
+	 * @param options - Reason recorded on the audit trail
+	 * @returns The merged pallet
+	 * @throws Error with user-friendly message
+	 */
+	async merge(ids: string[], options?: AuditOptions): Promise<Pallet> {
+		try {
+			const { data, error } = await withAuditReason(supabase.rpc("wms_merge_pallets", { p_pallet_ids: ids }), options);
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Pallet not found");
+			}
+
+			return data as Pallet;
+		} catch (error) {
+			throw toWmsError(error, "Failed to merge pallets");
+		}
+	},
+};
+
+/**
+ * Inventory Adjustment Operations
+ */
+const adjustments: AdjustmentsBackend = {
+	/**
+	 * Adjust a pallet's qty and record the adjustment (atomic, RPC wms_adjust_pallet)
+	 *
+	 * created_by is taken from the session, not from the input.
+	 *
+	 * @param adjustment - Pallet, signed qty change, reason, notes and photo path
+	 * @returns Recorded adjustment with the qty before and after
+	 * @throws Error with user-friendly message
+	 */
+	async create(adjustment: InventoryAdjustmentInput): Promise<InventoryAdjustment> {
+		try {
+			const { data, error } = await supabase.rpc("wms_adjust_pallet", {
+				p_pallet_id: adjustment.pallet_id,
+				p_qty_change: adjustment.qty_change,
+				p_reason: adjustment.reason,
+				p_notes: adjustment.notes?.trim() || null,
+				p_photo_path: adjustment.photo_path || null,
+				p_created_by_email: adjustment.created_by_email,
+			});
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Pallet not found");
+			}
+
+			return data as InventoryAdjustment;
+		} catch (error) {
+			throw toWmsError(error, "Failed to adjust pallet");
+		}
+	},
+
+	/**
+	 * Search inventory adjustments, newest first
+	 *
+	 * @param filters - Pallet, item, reason and date criteria
+	 * @returns Matching adjustments
+	 * @throws Error with user-friendly message
+	 */
+	async query(filters: InventoryAdjustmentFilters): Promise<InventoryAdjustment[]> {
+		try {
+			let query = supabase.from("inventory_adjustments").select("*");
+
+			if (filters.pallet_id) {
+				query = query.eq("pallet_id", filters.pallet_id);
+			}
+			if (filters.item_id) {
+				query = query.eq("item_id", filters.item_id);
+			}
+			if (filters.reason) {
+				query = query.eq("reason", filters.reason);
+			}
+			if (filters.created_at?.from) {
+				query = query.gte("created_at", filters.created_at.from);
+			}
+			if (filters.created_at?.to) {
+				query = query.lte("created_at", filters.created_at.to);
+			}
+
+			const { data, error } = await query.order("created_at", { ascending: false });
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load inventory adjustments");
+		}
+	},
+};
+
+/**
+ * Write-Off Approval Operations
+ *
+ * Approve, reject and reverse are refused by the RPC functions unless the
+ * caller is an Admin or Customer Service lead.
+ */
+const writeOffs: WriteOffsBackend = {
+	/**
+	 * Request a pallet write-off (RPC wms_request_write_off)
+	 *
+	 * requested_by is taken from the session, not from the input.
+	 *
+	 * @param request - Pallet, reason and notes
+	 * @returns Pending request with the pallet's item and qty
+	 * @throws Error with user-friendly message
+	 */
+	async request(request: WriteOffRequestInput): Promise<WriteOffRequest> {
+		try {
+			const { data, error } = await supabase.rpc("wms_request_write_off", {
+				p_pallet_id: request.pallet_id,
+				p_reason: request.reason,
+				p_notes: request.notes?.trim() || null,
+				p_requested_by_email: request.requested_by_email,
+			});
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Pallet not found");
+			}
+
+			return data as WriteOffRequest;
+		} catch (error) {
+			throw toWmsError(error, "Failed to request write-off");
+		}
+	},
+
+	/**
+	 * Approve a write-off and write the pallet off (atomic, RPC wms_approve_write_off)
+	 *
+	 * @param id - Request ID
+	 * @param decision - Approver and notes
+	 * @returns Approved request with the pallet's prior status and location
+	 * @throws Error with user-friendly message
+	 */
+	async approve(id: string, decision: ApprovalDecision): Promise<WriteOffRequest> {
+		try {
+			const { data, error } = await supabase.rpc("wms_approve_write_off", {
+				p_request_id: id,
+				p_notes: decision.notes?.trim() || null,
+				p_decided_by_email: decision.actor_email,
+			});
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Write-off request not found");
+			}
+
+			return data as WriteOffRequest;
+		} catch (error) {
+			throw toWmsError(error, "Failed to approve write-off");
+		}
+	},
+
+	/**
+	 * Reject a write-off (RPC wms_reject_write_off)
+	 *
+	 * @param id - Request ID
+	 * @param decision - Approver and notes
+	 * @returns Rejected request
+	 * @throws Error with user-friendly message
+	 */
+	async reject(id: string, decision: ApprovalDecision): Promise<WriteOffRequest> {
+		try {
+			const { data, error } = await supabase.rpc("wms_reject_write_off", {
+				p_request_id: id,
+				p_notes: decision.notes?.trim() || null,
+				p_decided_by_email: decision.actor_email,
+			});
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Write-off request not found");
+			}
+
+			return data as WriteOffRequest;
+		} catch (error) {
+			throw toWmsError(error, "Failed to reject write-off");
+		}
+	},
+
+	/**
+	 * Reverse an approved write-off (atomic, RPC wms_reverse_write_off)
+	 *
+	 * @param id - Request ID
+	 * @param decision - Who reversed it and why
+	 * @returns Reversed request
+	 * @throws Error with user-friendly message
+	 */
+	async reverse(id: string, decision: ApprovalDecision): Promise<WriteOffRequest> {
+		try {
+			const { data, error } = await supabase.rpc("wms_reverse_write_off", {
+				p_request_id: id,
+				p_notes: decision.notes?.trim() || null,
+				p_reversed_by_email: decision.actor_email,
+			});
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Write-off request not found");
+			}
+
+			return data as WriteOffRequest;
+		} catch (error) {
+			throw toWmsError(error, "Failed to reverse write-off");
+		}
+	},
+
+	/**
+	 * Search write-off requests, newest first
+	 *
+	 * @param filters - Status, pallet and date criteria
+	 * @returns Matching requests
+	 * @throws Error with user-friendly message
+	 */
+	async query(filters: WriteOffFilters): Promise<WriteOffRequest[]> {
+		try {
+			let query = supabase.from("write_off_requests").select("*");
+
+			if (filters.status?.length) {
+				query = query.in("status", filters.status);
+			}
+			if (filters.pallet_id) {
+				query = query.eq("pallet_id", filters.pallet_id);
+			}
+			if (filters.requested_at?.from) {
+				query = query.gte("requested_at", filters.requested_at.from);
+			}
+			if (filters.requested_at?.to) {
+				query = query.lte("requested_at", filters.requested_at.to);
+			}
+
+			const { data, error } = await query.order("requested_at", { ascending: false });
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load write-off requests");
+		}
+	},
+};
+
+/**
+ * Cycle Count Operations
+ *
+ * Approve and reject are refused by the RPC functions unless the caller is
+ * Customer Service or an Admin.
+ */
+const cycleCounts: CycleCountsBackend = {
+	/**
+	 * Create a count task over the locations its scope covers (RPC wms_create_cycle_count)
+	 *
+	 * @param count - Scope (rack, location range or item) and notes
+	 * @returns Open count with its location IDs
+	 * @throws Error with user-friendly message
+	 */
+	async create(count: CycleCountInput): Promise<CycleCount> {
+		try {
+			const { data, error } = await supabase.rpc("wms_create_cycle_count", {
+				p_scope: count.scope,
+				p_rack: count.rack ?? null,
+				p_from_location_id: count.from_location_id || null,
+				p_to_location_id: count.to_location_id || null,
+				p_item_id: count.item_id || null,
+				p_notes: count.notes?.trim() || null,
+				p_created_by_email: count.created_by_email,
+			});
+
+			if (error) {
+				throw error;
+			}
+
+			return data as CycleCount;
+		} catch (error) {
+			throw toWmsError(error, "Failed to create cycle count");
+		}
+	},
+
+	/**
+	 * Get a cycle count with its lines
+	 *
+	 * @param id - Cycle count ID
+	 * @returns Cycle count with lines
+	 * @throws Error with user-friendly message
+	 */
+	async getById(id: string): Promise<CycleCountWithLines> {
+		try {
+			const { data, error } = await supabase
+				.from("cycle_counts")
+				.select("*, lines:cycle_count_lines(*)")
+				.eq("id", id)
+				.single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Cycle count not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to load cycle count");
+		}
+	},
+
+	/**
+	 * Search cycle counts, newest first
+	 *
+	 * @param filters - Status criteria
+	 * @returns Matching cycle counts
+	 * @throws Error with user-friendly message
+	 */
+	async query(filters: CycleCountFilters): Promise<CycleCount[]> {
+		try {
+			let query = supabase.from("cycle_counts").select("*");
+
+			if (filters.status?.length) {
+				query = query.in("status", filters.status);
+			}
+
+			const { data, error } = await query.order("created_at", { ascending: false });
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load cycle counts");
+		}
+	},
+
+	/**
+	 * Submit a blind count and record its lines (atomic, RPC wms_submit_cycle_count)
+	 *
+	 * counted_by is taken from the session, not from the input.
+	 *
+	 * @param id - Cycle count ID
+	 * @param entries - Counted pallets per location
+	 * @param counter - Who counted
+	 * @returns Submitted (or, without variances, approved) count with its lines
+	 * @throws Error with user-friendly message
+	 */
+	async submit(
+		id: string,
+		entries: CycleCountEntry[],
+		counter: { actor_id: string | null; actor_email: string | null }
+	): Promise<CycleCountWithLines> {
+		try {
+			const { data, error } = await supabase.rpc("wms_submit_cycle_count", {
+				p_count_id: id,
+				p_entries: entries,
+				p_counted_by_email: counter.actor_email,
+			});
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Cycle count not found");
+			}
+
+			return data as CycleCountWithLines;
+		} catch (error) {
+			throw toWmsError(error, "Failed to submit cycle count");
+		}
+	},
+
+	/**
+	 * Approve a count's variances and post them (atomic, RPC wms_approve_cycle_count)
+	 *
+	 * @param id - Cycle count ID
+	 * @param decision - Approver and notes
+	 * @returns Approved count with the adjustments, moves and write-off requests posted
+	 * @throws Error with user-friendly message
+	 */
+	async approve(id: string, decision: ApprovalDecision): Promise<CycleCountApproval> {
+		try {
+			const { data, error } = await supabase.rpc("wms_approve_cycle_count", {
+				p_count_id: id,
+				p_notes: decision.notes?.trim() || null,
+				p_decided_by_email: decision.actor_email,
+			});
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Cycle count not found");
+			}
+
+			return data as CycleCountApproval;
+		} catch (error) {
+			throw toWmsError(error, "Failed to approve cycle count");
+		}
+	},
+
+	/**
+	 * Reject a count's variances (RPC wms_reject_cycle_count)
+	 *
+	 * @param id - Cycle count ID
+	 * @param decision - Approver and notes
+	 * @returns Rejected count
+	 * @throws Error with user-friendly message
+	 */
+	async reject(id: string, decision: ApprovalDecision): Promise<CycleCount> {
+		try {
+			const { data, error } = await supabase.rpc("wms_reject_cycle_count", {
+				p_count_id: id,
+				p_notes: decision.notes?.trim() || null,
+				p_decided_by_email: decision.actor_email,
+			});
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Cycle count not found");
+			}
+
+			return data as CycleCount;
+		} catch (error) {
+			throw toWmsError(error, "Failed to reject cycle count");
+		}
+	},
+};
+
+/**
+ * Shipping Order Operations
+ */
+const shippingOrders: ShippingOrdersBackend = {
+	/**
+	 * Create shipping order
+	 *
+	 * @param order - Shipping order data
+	 * @returns Created shipping order
+	 * @throws Error with user-friendly message
+	 */
+	async create(order: Omit<ShippingOrder, "id" | "created_at">): Promise<ShippingOrder> {
+		try {
+			const { data, error } = await supabase.from("shipping_orders").insert([order]).select().single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Failed to create shipping order");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to create shipping order");
+		}
+	},
+
+	/**
+	 * Get all shipping orders
+	 *
+	 * @returns Array of shipping orders
+	 * @throws Error with user-friendly message
+	 */
+	async getAll(): Promise<(ShippingOrder & { lines?: ShippingOrderLine[] })[]> {
+		try {
+			const { data, error } = await supabase
+				.from("shipping_orders")
+				.select("*, shipping_order_lines(*)")
+				.order("created_at", { ascending: false });
+
+			if (error) {
+				throw error;
+			}
+
+			// Map shipping_order_lines to lines for consistency
+			// Supabase returns nested data as shipping_order_lines (table name)
+			const mappedData = (data || []).map((order: unknown) => {
+				const orderData = order as Record<string, unknown>;
+				return {
+					...orderData,
+					lines: (orderData.shipping_order_lines as ShippingOrderLine[]) || [],
+				};
+			});
+
+			return mappedData as (ShippingOrder & { lines?: ShippingOrderLine[] })[];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load shipping orders");
+		}
+	},
+
+	/**
+	 * Get shipping order by ID
+	 *
+	 * @param id - Shipping order ID
+	 * @returns Shipping order with lines
+	 * @throws Error with user-friendly message
+	 */
+	async getById(id: string): Promise<ShippingOrder & { lines: ShippingOrderLine[] }> {
+		try {
+			const { data, error } = await supabase
+				.from("shipping_orders")
+				.select("*, shipping_order_lines(*)")
+				.eq("id", id)
+				.single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Shipping order not found");
+			}
+
+			// Map shipping_order_lines to lines for consistency
+			// Supabase returns it as shipping_order_lines, but we want it as lines
+			return {
+				...data,
+				lines: (data as unknown as Record<string, unknown>).shipping_order_lines || data.lines || [],
+			};
+		} catch (error) {
+			throw toWmsError(error, "Failed to load shipping order");
+		}
+	},
+
+	/**
+	 * Update shipping order
+	 *
+	 * @param id - Shipping order ID
+	 * @param updates - Partial shipping order data
+	 * @param options - Reason recorded on the audit trail
+	 * @returns Updated shipping order
+	 * @throws Error with user-friendly message
+	 */
+	async update(id: string, updates: Partial<ShippingOrder>, options?: AuditOptions): Promise<ShippingOrder> {
+		try {
+			const { data, error } = await withAuditReason(
+				supabase.from("shipping_orders").update(updates).eq("id", id),
+				options
+			)
+				.select()
+				.single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Shipping order not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to update shipping order");
+		}
+	},
+
+	/**
+	 * Create shipping order lines
+	 *
+	 * @param lines - Array of shipping order lines
+	 * @returns Created lines
+	 * @throws Error with user-friendly message
+	 */
+	async createLines(lines: Omit<ShippingOrderLine, "id">[]): Promise<ShippingOrderLine[]> {
+		try {
+			const { data, error } = await supabase.from("shipping_order_lines").insert(lines).select();
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to create shipping order lines");
+		}
+	},
+
+	/**
+	 * Cancel shipping order and release all assigned pallets (atomic, RPC wms_cancel_shipping_order)
+	 *
+	 * In one transaction:
+	 * 1. Sets shipping order status to 'Cancelled'
+	 * 2. Sets cancelled_at timestamp
+	 * 3. Resets all assigned pallets to status='Received' (forcing put-away)
+	 * 4. Clears shipping_order_id from pallets
+	 *
+	 * @param id - Shipping order ID
+	 * @param options - Reason recorded on the audit trail
+	 * @returns Updated shipping order
+	 * @throws Error with user-friendly message
+	 */
+	async cancelOrder(id: string, options?: AuditOptions): Promise<ShippingOrder> {
+		try {
+			const { data, error } = await withAuditReason(
+				supabase.rpc("wms_cancel_shipping_order", { p_order_id: id }),
+				options
+			);
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Shipping order not found");
+			}
+
+			return data as ShippingOrder;
+		} catch (error) {
+			throw toWmsError(error, "Failed to cancel shipping order");
+		}
+	},
+};
+
+/**
+ * Warehouse Operations
+ */
+const warehouses: WarehousesBackend = {
+	/**
+	 * Get default warehouse (Warehouse 1)
+	 *
+	 * @returns Warehouse object
+	 * @throws Error with user-friendly message
+	 */
+	async getDefault(): Promise<Warehouse> {
+		try {
+			const { data, error } = await supabase.from("warehouses").select("*").eq("code", "W1").single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Default warehouse not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to load warehouse");
+		}
+	},
+};
+
+/**
+ * Location Operations
+ */
+const locations: LocationsBackend = {
+	/**
+	 * Get all locations
+	 *
+	 * @param location_ids - Limit to these locations (all locations when omitted)
+	 * @returns Array of locations
+	 * @throws Error with user-friendly message
+	 */
+	async getAll(location_ids?: string[]): Promise<Location[]> {
+		try {
+			let query = supabase.from("locations").select("*").order("location_id", { ascending: true });
+			if (location_ids) {
+				query = query.in("location_id", location_ids);
+			}
+
+			const { data, error } = await query;
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load locations");
+		}
+	},
+
+	/**
+	 * Get location by ID
+	 *
+	 * @param location_id - Location ID
+	 * @returns Location object
+	 * @throws Error with user-friendly message
+	 */
+	async getById(location_id: string): Promise<Location> {
+		try {
+			const { data, error } = await supabase.from("locations").select("*").eq("location_id", location_id).single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError(`Location with ID ${location_id} not found`);
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, `Failed to load location ${location_id}`);
+		}
+	},
+
+	async resolve(warehouse_id: string, rack: number | string, level: number, position: string): Promise<Location> {
+		try {
+			let query = supabase.from("locations").select("*").eq("warehouse_id", warehouse_id);
+
+			if (rack === "AISLE") {
+				// Aisle zone: level parameter is the zone number (1-4)
+				// Query by type=AISLE and location_id pattern (W1-AISLE-01, W1-AISLE-02, etc.)
+				const zoneNum = String(level).padStart(2, "0");
+				const locationId = `W1-AISLE-${zoneNum}`;
+				query = query.eq("type", "AISLE").eq("location_id", locationId);
+			} else {
+				// Regular rack location
+				// Query by type=RACK and rack/level/position coordinates
+				const rackNum = Number(rack);
+				const levelNum = Number(level);
+				query = query.eq("type", "RACK").eq("rack", rackNum).eq("level", levelNum).eq("position", position);
+			}
+
+			const { data, error } = await query.single();
+
+			if (error) {
+				console.error("Location resolve error:", error);
+				throw new NotFoundError("Location not found");
+			}
+
+			if (!data) {
+				throw new NotFoundError("Location not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to resolve location");
+		}
+	},
+
+	/**
+	 * Add locations, skipping IDs that already exist (Admin only, by RLS)
+	 *
+	 * @param locations - New locations
+	 * @returns The locations added
+	 * @throws Error with user-friendly message
+	 */
+	async create(locations: LocationInput[]): Promise<Location[]> {
+		try {
+			const { data, error } = await supabase
+				.from("locations")
+				.upsert(locations, { onConflict: "location_id", ignoreDuplicates: true })
+				.select();
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to add locations");
+		}
+	},
+
+	/**
+	 * Block/unblock or retire/reactivate locations in one statement (Admin only, by RLS)
+	 *
+	 * A trigger refuses to retire a location that still holds pallets, which
+	 * fails the whole update.
+	 *
+	 * @param location_ids - Locations to change
+	 * @param updates - Flags to set
+	 * @returns Updated locations
+	 * @throws Error with user-friendly message
+	 */
+	async update(location_ids: string[], updates: LocationUpdate): Promise<Location[]> {
+		try {
+			const { data, error } = await supabase.from("locations").update(updates).in("location_id", location_ids).select();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data || data.length < location_ids.length) {
+				throw new NotFoundError("Location not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to update locations");
+		}
+	},
+};
+
+/**
+ * Storage Operations
+ *
+ * Uses 3 separate buckets for security:
+ * - "receiving" - Receiving order CSVs and container photos
+ * - "shipping" - Shipping order CSVs and shipping documents
+ * - "manifests" - Manifest documents and hand delivery forms
+ *
+ * Do NOT use folder prefixes like "receiving/" inside bucket names.
+ * The bucket name itself determines the storage location.
+ */
+const storage: StorageBackend = {
+	/**
+	 * Upload file to Supabase Storage
+	 *
+	 * @param bucket - Storage bucket name ("receiving", "shipping", or "manifests")
+	 * @param path - File path in bucket (e.g., "order-123/photo_1.jpg")
+	 * @param file - File to upload
+	 * @returns Public URL of uploaded file
+	 * @throws Error with user-friendly message
+	 */
+	async upload(bucket: string, path: string, file: File): Promise<string> {
+		try {
+			// First try with upsert
+			let uploadResult = await supabase.storage.from(bucket).upload(path, file, { upsert: true, cacheControl: "3600" });
+
+			// If RLS error, try without upsert
+			if (uploadResult.error && uploadResult.error.message?.includes("row-level security")) {
+				uploadResult = await supabase.storage.from(bucket).upload(path, file, { cacheControl: "3600" });
+			}
+
+			const { data, error } = uploadResult;
+
+			if (error) {
+				console.error("Storage upload error:", error);
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Upload failed - no data returned");
+			}
+			// Get public URL
+			const { data: urlData } = supabase.storage.from(bucket).getPublicUrl(path);
+			return urlData.publicUrl;
+		} catch (error) {
+			throw toWmsError(error, "Failed to upload file");
+		}
+	},
+
+	/**
+	 * Download file from Supabase Storage
+	 *
+	 * @param bucket - Storage bucket name
+	 * @param path - File path in bucket
+	 * @returns File blob
+	 * @throws Error with user-friendly message
+	 */
+	async download(bucket: string, path: string): Promise<Blob> {
+		try {
+			const { data, error } = await supabase.storage.from(bucket).download(path);
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Download failed");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to download file");
+		}
+	},
+
+	/**
+	 * Delete file from Supabase Storage
+	 *
+	 * @param bucket - Storage bucket name
+	 * @param path - File path in bucket
+	 * @throws Error with user-friendly message
+	 */
+	async delete(bucket: string, path: string): Promise<void> {
+		try {
+			const { error } = await supabase.storage.from(bucket).remove([path]);
+
+			if (error) {
+				throw error;
+			}
+		} catch (error) {
+			throw toWmsError(error, "Failed to delete file");
+		}
+	},
+
+	/**
+	 * List files in a Supabase Storage folder
+	 *
+	 * @param bucket - Storage bucket name
+	 * @param folder - Folder inside the bucket (e.g., receiving order ID)
+	 * @returns File names in the folder
+	 * @throws Error with user-friendly message
+	 */
+	async list(bucket: string, folder: string): Promise<string[]> {
+		try {
+			const { data, error } = await supabase.storage.from(bucket).list(folder, { limit: 100 });
+
+			if (error) {
+				throw error;
+			}
+
+			return (data || []).map((file) => file.name);
+		} catch (error) {
+			throw toWmsError(error, "Failed to list files");
+		}
+	},
+
+	/**
+	 * Get public URL of a file in Supabase Storage
+	 *
+	 * @param bucket - Storage bucket name
+	 * @param path - File path in bucket
+	 * @returns Public URL
+	 */
+	getPublicUrl(bucket: string, path: string): string {
+		return supabase.storage.from(bucket).getPublicUrl(path).data.publicUrl;
+	},
+
+	/**
+	 * Get receiving order CSV from storage
+	 *
+	 * @param receivingOrderId - Receiving order ID
+	 * @returns Public URL of the CSV file
+	 * @throws Error with user-friendly message
+	 */
+	async getReceivingOrderCSV(receivingOrderId: string): Promise<string> {
+		try {
+			// List files in the receiving order directory
+			const { data, error: listError } = await supabase.storage.from("receiving").list(receivingOrderId);
+
+			if (listError) {
+				throw listError;
+			}
+
+			if (!data || data.length === 0) {
+				throw new NotFoundError("No CSV file found for this receiving order");
+			}
+
+			// Find the original CSV file
+			const csvFile = data.find((file) => file.name.startsWith("original_"));
+
+			if (!csvFile) {
+				throw new NotFoundError("Original CSV file not found");
+			}
+
+			// Get public URL
+			const { data: urlData } = supabase.storage.from("receiving").getPublicUrl(`${receivingOrderId}/${csvFile.name}`);
+
+			return urlData.publicUrl;
+		} catch (error) {
+			throw toWmsError(error, "Failed to retrieve receiving CSV");
+		}
+	},
+};
+
+/**
+ * Email Operations
+ */
+const email: EmailBackend = {
+	/**
+	 * Send email via the backend API or Supabase Edge Function
+	 *
+	 * @param to - Recipient email
+	 * @param subject - Email subject
+	 * @param body - Email body (plain text)
+	 * @param attachments - Optional base64 file attachments
+	 * @returns Success status
+	 * @throws Error with user-friendly message
+	 */
+	async send(to: string, subject: string, body: string, attachments?: EmailAttachment[]): Promise<boolean> {
+		try {
+			if (!to || !subject || !body) {
+				throw new ValidationError("Email requires to, subject, and body");
+			}
+
+			await sendEmail({ to, subject, body, attachments });
+			return true;
+		} catch (error) {
+			throw toWmsError(error, "Failed to send email");
+		}
+	},
+};
+
+/**
+ * Manifest Operations (Containers & Hand Deliveries)
+ */
+const manifests: ManifestsBackend = {
+	/**
+	 * Create manifest (container or hand delivery)
+	 *
+	 * @param manifest - Manifest data
+	 * @returns Created manifest
+	 * @throws Error with user-friendly message
+	 */
+	async create(manifest: Omit<Manifest, "id" | "created_at">): Promise<Manifest> {
+		try {
+			const { data, error } = await supabase
+				.from("manifests")
+				.insert([manifest])
+				.select("id, type, container_num, seal_num, status, created_at, closed_at")
+				.single();
+
+			if (error) {
+				console.error("Supabase error:", error);
+				throw error;
+			}
+
+			if (!data) {
+				throw new Error("Failed to create manifest");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to create manifest");
+		}
+	},
+
+	/**
+	 * Get manifest by ID
+	 *
+	 * @param id - Manifest ID
+	 * @returns Manifest data
+	 * @throws Error with user-friendly message
+	 */
+	async getById(id: string): Promise<Manifest> {
+		try {
+			const { data, error } = await supabase.from("manifests").select("*").eq("id", id).single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Manifest not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to load manifest");
+		}
+	},
+
+	/**
+	 * Get all manifests
+	 *
+	 * @returns Array of all manifests
+	 * @throws Error with user-friendly message
+	 */
+	async getAll(): Promise<Manifest[]> {
+		try {
+			const { data, error } = await supabase.from("manifests").select("*").order("created_at", { ascending: false });
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load manifests");
+		}
+	},
+
+	/**
+	 * Get manifests with filters
+	 *
+	 * @param filters - Filter criteria
+	 * @returns Array of manifests
+	 * @throws Error with user-friendly message
+	 */
+	async getFiltered(filters: { type?: string; status?: string }): Promise<Manifest[]> {
+		try {
+			let query = supabase.from("manifests").select("*");
+
+			if (filters.type) {
+				query = query.eq("type", filters.type);
+			}
+			if (filters.status) {
+				query = query.eq("status", filters.status);
+			}
+
+			const { data, error } = await query;
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load manifests");
+		}
+	},
+
+	/**
+	 * Update manifest
+	 *
+	 * @param id - Manifest ID
+	 * @param updates - Partial manifest data
+	 * @param options - Reason recorded on the audit trail
+	 * @returns Updated manifest
+	 * @throws Error with user-friendly message
+	 */
+	async update(id: string, updates: Partial<Manifest>, options?: AuditOptions): Promise<Manifest> {
+		try {
+			const { data, error } = await withAuditReason(supabase.from("manifests").update(updates).eq("id", id), options)
+				.select()
+				.single();
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Manifest not found");
+			}
+
+			return data;
+		} catch (error) {
+			throw toWmsError(error, "Failed to update manifest");
+		}
+	},
+
+	/**
+	 * Close manifest & ship (atomic, RPC wms_close_manifest)
+	 *
+	 * In one transaction: closes the manifest (closed_at), marks its Loaded
+	 * pallets Shipped (shipped_at) and ships Completed orders with nothing left to ship.
+	 *
+	 * @param id - Manifest ID
+	 * @returns Closed manifest
+	 * @throws Error with user-friendly message
+	 */
+	async closeAndShip(id: string): Promise<Manifest> {
+		try {
+			const { data, error } = await supabase.rpc("wms_close_manifest", { p_manifest_id: id });
+
+			if (error) {
+				throw error;
+			}
+
+			if (!data) {
+				throw new NotFoundError("Manifest not found");
+			}
+
+			return data as Manifest;
+		} catch (error) {
+			throw toWmsError(error, "Failed to close manifest");
+		}
+	},
+};
+
+/**
+ * Audit Trail Operations (audit_events, written by the wms_audit_row trigger)
+ */
+const audit: AuditBackend = {
+	/**
+	 * Search the audit trail, newest first
+	 *
+	 * @param filters - Entity, action, actor and date criteria
+	 * @returns Matching events
+	 * @throws Error with user-friendly message
+	 */
+	async query(filters: AuditEventFilters): Promise<AuditEvent[]> {
+		try {
+			let query = supabase.from("audit_events").select("*");
+
+			if (filters.entity_type) {
+				query = query.eq("entity_type", filters.entity_type);
+			}
+			if (filters.entity_id) {
+				query = query.eq("entity_id", filters.entity_id.trim());
+			}
+			if (filters.action) {
+				query = query.eq("action", filters.action);
+			}
+			if (filters.actor) {
+				query = query.ilike("actor_email", `%${filters.actor.trim()}%`);
+			}
+			if (filters.created_at?.from) {
+				query = query.gte("created_at", filters.created_at.from);
+			}
+			if (filters.created_at?.to) {
+				query = query.lte("created_at", filters.created_at.to);
+			}
+
+			const { data, error } = await query
+				.order("created_at", { ascending: false })
+				.limit(filters.limit ?? DEFAULT_AUDIT_LIMIT);
+
+			if (error) {
+				throw error;
+			}
+
+			return data || [];
+		} catch (error) {
+			throw toWmsError(error, "Failed to load audit trail");
+		}
+	},
+};
+
+/** Makes channel names unique: two screens may watch the same tables */
+let channelCount = 0;
+
+/**
+ * Realtime Operations (postgres_changes over a Supabase channel)
+ *
+ * Tables must be in the supabase_realtime publication (see
+ * 20261019150000_realtime_publication.sql); RLS still applies to what each
+ * user receives.
+ */
+const realtime: RealtimeBackend = {
+	subscribe(subscriptions, listener, onStatus) {
+		channelCount += 1;
+		const channel = supabase.channel(`wms-realtime-${channelCount}`);
+
+		for (const { table, filter } of subscriptions) {
+			channel.on(
+				"postgres_changes",
+				{
+					event: "*",
+					schema: "public",
+					table,
+					filter: filter ? `${filter.column}=eq.${filter.value}` : undefined,
+				},
+				(payload) => {
+					listener({
+						table,
+						eventType: payload.eventType,
+						record: payload.eventType === "DELETE" ? payload.old : payload.new,
+					});
+				}
+			);
+		}
+
+		channel.subscribe((status) => {
+			if (status === "SUBSCRIBED") {
+				onStatus("live");
+			} else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT" || status === "CLOSED") {
+				onStatus("failed");
+			}
+		});
+
+		return () => {
+			supabase.removeChannel(channel);
+		};
+	},
+};
+
+/**
+ * Supabase adapter instance
+ */
+export const supabaseBackend: WmsBackend = {
+	name: "supabase",
+	products,
+	receivingOrderLines,
+	receivingOrders,
+	pallets,
+	adjustments,
+	writeOffs,
+	cycleCounts,
+	shippingOrders,
+	warehouses,
+	locations,
+	storage,
+	email,
+	manifests,
+	audit,
+	realtime,
+};
@@ -13,11 +13,13 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
 
 import * as supabaseClient from "../auth/supabase-client";
+import { InvalidStatusTransitionError } from "./status-machine";
 import {
 	auth,
 	email,
 	getShipNowOrder,
 	locations,
+	manifests,
 	pallets,
 	products,
 	receivingOrders,
@@ -34,6 +36,7 @@ interface MockedSupabase {
 		getSession: ReturnType<typeof vi.fn>;
 	};
 	from: ReturnType<typeof vi.fn>;
+	rpc: ReturnType<typeof vi.fn>;
 	storage: {
 		from: ReturnType<typeof vi.fn>;
 	};
@@ -49,6 +52,7 @@ vi.mock("../auth/supabase-client", () => ({
 			getSession: vi.fn(),
 		},
 		from: vi.fn(),
+		rpc: vi.fn(),
 		storage: {
 			from: vi.fn(),
 		},
@@ -122,7 +126,7 @@ describe("wmsApi - Products", () => {
 		};
 		mockSupabase.from.mockReturnValueOnce(mockQuery);
 
-		await expect(products.getAll()).rejects.toThrow("Failed to load products");
+		await expect(products.getAll()).rejects.toThrow("Database error");
 	});
 
 	it("should handle product creation error", async () => {
@@ -145,7 +149,7 @@ describe("wmsApi - Products", () => {
 			active: true,
 		};
 
-		await expect(products.create(newProduct)).rejects.toThrow("Failed to create product");
+		await expect(products.create(newProduct)).rejects.toThrow("Insert failed");
 	});
 
 	it("should handle product update error", async () => {
@@ -161,7 +165,7 @@ describe("wmsApi - Products", () => {
 		};
 		mockSupabase.from.mockReturnValueOnce(mockQuery);
 
-		await expect(products.update("invalid-id", { active: false })).rejects.toThrow("Failed to update product");
+		await expect(products.update("invalid-id", { active: false })).rejects.toThrow("Product not found");
 	});
 });
 
@@ -189,7 +193,7 @@ describe("wmsApi - Receiving Orders", () => {
 			created_by: "user-123",
 		};
 
-		await expect(receivingOrders.create(newOrder)).rejects.toThrow("Failed to create receiving order");
+		await expect(receivingOrders.create(newOrder)).rejects.toThrow("Insert failed");
 	});
 
 	it("should handle receiving order fetch error", async () => {
@@ -204,7 +208,7 @@ describe("wmsApi - Receiving Orders", () => {
 		};
 		mockSupabase.from.mockReturnValueOnce(mockQuery);
 
-		await expect(receivingOrders.getById("invalid-id")).rejects.toThrow("Failed to load receiving order");
+		await expect(receivingOrders.getById("invalid-id")).rejects.toThrow("Not found");
 	});
 });
 
@@ -232,7 +236,7 @@ describe("wmsApi - Pallets", () => {
 			is_cross_dock: false,
 		};
 
-		await expect(pallets.create(newPallet)).rejects.toThrow("Failed to create pallet");
+		await expect(pallets.create(newPallet)).rejects.toThrow("Insert failed");
 	});
 
 	it("should handle pallet fetch with filters", async () => {
@@ -240,15 +244,56 @@ describe("wmsApi - Pallets", () => {
 		// Create a mock that properly chains and resolves
 		const mockChain = {
 			select: vi.fn().mockReturnThis(),
-			eq: vi.fn().mockReturnThis(),
+			in: vi.fn().mockReturnThis(),
+			order: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValueOnce({ data: [], error: null }),
 		};
-		// Make it resolve when awaited
-		const mockPromise = Promise.resolve({ data: [], error: null });
-		Object.assign(mockChain, mockPromise);
 		mockSupabase.from.mockReturnValueOnce(mockChain as unknown as typeof mockChain);
 
 		const result = await pallets.getFiltered({ status: "Stored" });
 		expect(result).toEqual([]);
+		expect(mockChain.in).toHaveBeenCalledWith("status", ["Stored"]);
+	});
+
+	it("should push pallet filters and pagination to the database", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		const rows = [
+			{ id: "p1", item_id: "ITEM-1", qty: 10, created_at: "2025-01-01T00:00:00Z" },
+			{ id: "p2", item_id: "ITEM-1", qty: 10, created_at: "2025-01-02T00:00:00Z" },
+			{ id: "p3", item_id: "ITEM-1", qty: 10, created_at: "2025-01-03T00:00:00Z" },
+		];
+		const mockChain = {
+			select: vi.fn().mockReturnThis(),
+			in: vi.fn().mockReturnThis(),
+			is: vi.fn().mockReturnThis(),
+			gte: vi.fn().mockReturnThis(),
+			lte: vi.fn().mockReturnThis(),
+			order: vi.fn().mockReturnThis(),
+			limit: vi.fn().mockResolvedValueOnce({ data: rows, error: null }),
+		};
+		mockSupabase.from.mockReturnValueOnce(mockChain as unknown as typeof mockChain);
+
+		const page = await pallets.query({
+			status: ["Stored", "Staged"],
+			shipping_order_id: null,
+			received_at: { from: "2025-01-01T00:00:00Z", to: "2025-01-31T23:59:59Z" },
+			sort: "created_at",
+			direction: "desc",
+			limit: 2,
+		});
+
+		expect(mockChain.in).toHaveBeenCalledWith("status", ["Stored", "Staged"]);
+		expect(mockChain.is).toHaveBeenCalledWith("shipping_order_id", null);
+		expect(mockChain.gte).toHaveBeenCalledWith("received_at", "2025-01-01T00:00:00Z");
+		expect(mockChain.lte).toHaveBeenCalledWith("received_at", "2025-01-31T23:59:59Z");
+		expect(mockChain.order).toHaveBeenCalledWith("created_at", { ascending: false });
+		expect(mockChain.limit).toHaveBeenCalledWith(3);
+		expect(page.items.map((p) => p.id)).toEqual(["p1", "p2"]);
+		expect(page.nextCursor).toEqual(expect.any(String));
+	});
+
+	it("should reject an invalid pagination cursor", async () => {
+		await expect(pallets.query({ cursor: "not-a-cursor" })).rejects.toThrow("Invalid pagination cursor");
 	});
 
 	it("should handle pallet deletion error", async () => {
@@ -261,7 +306,7 @@ describe("wmsApi - Pallets", () => {
 		};
 		mockSupabase.from.mockReturnValueOnce(mockQuery);
 
-		await expect(pallets.delete("invalid-id")).rejects.toThrow("Failed to delete pallet");
+		await expect(pallets.delete("invalid-id")).rejects.toThrow("Delete failed");
 	});
 });
 
@@ -289,7 +334,186 @@ describe("wmsApi - Shipping Orders", () => {
 			created_by: "user-123",
 		};
 
-		await expect(shippingOrders.create(newOrder)).rejects.toThrow("Failed to create shipping order");
+		await expect(shippingOrders.create(newOrder)).rejects.toThrow("Insert failed");
+	});
+});
+
+/**
+ * Mock the getById lookup wmsApi runs before a status change
+ */
+function mockCurrentStatus(mockSupabase: MockedSupabase, status: string) {
+	const mockQuery = {
+		select: vi.fn().mockReturnThis(),
+		eq: vi.fn().mockReturnThis(),
+		single: vi.fn().mockResolvedValueOnce({ data: { id: "row-1", status }, error: null }),
+	};
+	mockSupabase.from.mockReturnValueOnce(mockQuery);
+	return mockQuery;
+}
+
+/**
+ * Mock a table for single-row reads (getById) and pallet list queries
+ */
+function mockTable(row: object | null, list: object[] = []) {
+	const mockQuery = {
+		select: vi.fn().mockReturnThis(),
+		update: vi.fn().mockReturnThis(),
+		setHeader: vi.fn().mockReturnThis(),
+		eq: vi.fn().mockReturnThis(),
+		in: vi.fn().mockReturnThis(),
+		is: vi.fn().mockReturnThis(),
+		order: vi.fn().mockReturnThis(),
+		single: vi.fn().mockResolvedValue({ data: row, error: null }),
+		limit: vi.fn().mockResolvedValue({ data: list, error: null }),
+	};
+	return mockQuery;
+}
+
+/**
+ * Route supabase.from() by table name; audit_events is mocked to catch writes from the browser
+ */
+function mockTables(mockSupabase: MockedSupabase, tables: Record<string, object>) {
+	const auditQuery = {
+		insert: vi.fn().mockResolvedValue({ error: null }),
+	};
+	mockSupabase.from.mockImplementation((table: string) => (table === "audit_events" ? auditQuery : tables[table]));
+	return auditQuery;
+}
+
+describe("wmsApi - Atomic Operations", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(supabaseClient.supabase as unknown as MockedSupabase).from.mockReset();
+	});
+
+	it("should cancel a shipping order in one RPC call", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		mockTables(mockSupabase, {
+			shipping_orders: mockTable({ id: "order-1", status: "Picking" }),
+			pallets: mockTable(null, []),
+		});
+		mockSupabase.rpc.mockResolvedValueOnce({ data: { id: "order-1", status: "Cancelled" }, error: null });
+
+		const order = await shippingOrders.cancelOrder("order-1");
+
+		expect(mockSupabase.rpc).toHaveBeenCalledWith("wms_cancel_shipping_order", { p_order_id: "order-1" });
+		expect(order.status).toBe("Cancelled");
+	});
+
+	it("should close a manifest in one RPC call", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		mockTables(mockSupabase, {
+			manifests: mockTable({ id: "manifest-1", status: "Open" }),
+			pallets: mockTable(null, []),
+		});
+		mockSupabase.rpc.mockResolvedValueOnce({ data: { id: "manifest-1", status: "Closed" }, error: null });
+
+		await manifests.closeAndShip("manifest-1");
+
+		expect(mockSupabase.rpc).toHaveBeenCalledWith("wms_close_manifest", { p_manifest_id: "manifest-1" });
+	});
+
+	it("should map the finish tally result", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		mockTables(mockSupabase, {
+			receiving_orders: mockTable({ id: "rcv-1", status: "Unloading" }),
+			pallets: mockTable(null, [{ id: "pallet-1", shipping_order_id: "order-1", created_at: "2025-01-01" }]),
+			shipping_orders: mockTable({ id: "order-1", status: "Pending" }),
+		});
+		mockSupabase.rpc.mockResolvedValueOnce({
+			data: { order: { id: "rcv-1", status: "Staged" }, loading_order_ids: ["order-1"] },
+			error: null,
+		});
+
+		const result = await receivingOrders.finishTally("rcv-1");
+
+		expect(mockSupabase.rpc).toHaveBeenCalledWith("wms_finish_tally", { p_receiving_order_id: "rcv-1" });
+		expect(result).toEqual({ order: { id: "rcv-1", status: "Staged" }, loadingOrderIds: ["order-1"] });
+	});
+
+	it("should surface a rolled-back finalize as an error", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		const auditQuery = mockTables(mockSupabase, { receiving_orders: mockTable({ id: "rcv-1", status: "Staged" }) });
+		mockSupabase.rpc.mockResolvedValueOnce({
+			data: null,
+			error: { code: "23514", message: "violates check constraint" },
+		});
+
+		await expect(receivingOrders.finalize("rcv-1")).rejects.toThrow("violates check constraint");
+		expect(auditQuery.insert).not.toHaveBeenCalled();
+	});
+});
+
+describe("wmsApi - Status Transitions", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(supabaseClient.supabase as unknown as MockedSupabase).from.mockReset();
+	});
+
+	it("should reject an illegal status change before writing", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		mockCurrentStatus(mockSupabase, "Shipped");
+
+		await expect(pallets.update("pallet-1", { status: "Stored" })).rejects.toThrow(
+			"Cannot change pallet status from Shipped to Stored"
+		);
+		expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+	});
+
+	it("should not call the RPC when the order cannot be cancelled", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		mockCurrentStatus(mockSupabase, "Shipped");
+
+		await expect(shippingOrders.cancelOrder("order-1")).rejects.toThrow(InvalidStatusTransitionError);
+		expect(mockSupabase.rpc).not.toHaveBeenCalled();
+	});
+
+	it("should skip the status lookup for updates without a status", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		const mockQuery = {
+			update: vi.fn().mockReturnThis(),
+			eq: vi.fn().mockReturnThis(),
+			select: vi.fn().mockReturnThis(),
+			single: vi.fn().mockResolvedValueOnce({ data: { id: "pallet-1", location_id: "W1-1-1-A" }, error: null }),
+		};
+		mockSupabase.from.mockReturnValueOnce(mockQuery);
+
+		await pallets.update("pallet-1", { location_id: "W1-1-1-A" });
+
+		expect(mockSupabase.from).toHaveBeenCalledTimes(1);
+		expect(mockQuery.update).toHaveBeenCalledWith({ location_id: "W1-1-1-A" });
+	});
+});
+
+describe("wmsApi - Audit Trail", () => {
+	beforeEach(() => {
+		vi.clearAllMocks();
+		(supabaseClient.supabase as unknown as MockedSupabase).from.mockReset();
+	});
+
+	it("should send the reason with the update for the audit trigger", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		const palletsTable = mockTable({ id: "pallet-1", status: "Stored", location_id: "W1-1-1-A" });
+		const auditQuery = mockTables(mockSupabase, { pallets: palletsTable });
+
+		await pallets.update("pallet-1", { status: "WriteOff" }, { reason: "Dañado en rampa" });
+
+		expect(palletsTable.update).toHaveBeenCalledWith({ status: "WriteOff" });
+		// base64 of the UTF-8 text
+		expect(palletsTable.setHeader).toHaveBeenCalledWith("x-audit-reason", "RGHDsWFkbyBlbiByYW1wYQ==");
+		expect(auditQuery.insert).not.toHaveBeenCalled();
+	});
+
+	it("should leave recording to the database", async () => {
+		const mockSupabase = supabaseClient.supabase as unknown as MockedSupabase;
+		const palletsTable = mockTable({ id: "pallet-1", status: "Received", location_id: null });
+		const auditQuery = mockTables(mockSupabase, { pallets: palletsTable });
+
+		await pallets.update("pallet-1", { status: "Stored", location_id: "W1-1-1-A" });
+
+		expect(palletsTable.setHeader).not.toHaveBeenCalled();
+		expect(mockSupabase.from).not.toHaveBeenCalledWith("audit_events");
+		expect(auditQuery.insert).not.toHaveBeenCalled();
 	});
 });
 
@@ -309,7 +533,7 @@ describe("wmsApi - Locations", () => {
 		};
 		mockSupabase.from.mockReturnValueOnce(mockQuery);
 
-		await expect(locations.getAll()).rejects.toThrow("Failed to load locations");
+		await expect(locations.getAll()).rejects.toThrow("Database error");
 	});
 
 	it("should handle location resolution error", async () => {
@@ -346,7 +570,7 @@ describe("wmsApi - Storage", () => {
 
 		const file = new File(["test"], "test.pdf", { type: "application/pdf" });
 
-		await expect(storage.upload("bucket", "path/file.pdf", file)).rejects.toThrow("Failed to upload file");
+		await expect(storage.upload("bucket", "path/file.pdf", file)).rejects.toThrow("Upload failed");
 	});
 
 	it("should handle file download error", async () => {
@@ -359,7 +583,7 @@ describe("wmsApi - Storage", () => {
 		};
 		mockSupabase.storage.from.mockReturnValueOnce(mockStorageFrom);
 
-		await expect(storage.download("bucket", "path/file.pdf")).rejects.toThrow("Failed to download file");
+		await expect(storage.download("bucket", "path/file.pdf")).rejects.toThrow("Download failed");
 	});
 
 	it("should handle file deletion error", async () => {
@@ -371,7 +595,7 @@ describe("wmsApi - Storage", () => {
 		};
 		mockSupabase.storage.from.mockReturnValueOnce(mockStorageFrom);
 
-		await expect(storage.delete("bucket", "path/file.pdf")).rejects.toThrow("Failed to delete file");
+		await expect(storage.delete("bucket", "path/file.pdf")).rejects.toThrow("Delete failed");
 	});
 });
 
@@ -11,39 +11,123 @@
  * - Type-safe operations
  * - Testable mock implementations
  *
+ * Data operations are delegated to the active WmsBackend adapter
+ * (see wms-backend.ts). Supabase is the default; set VITE_WMS_BACKEND=memory
+ * to run fully offline on the in-memory/localStorage adapter.
+ *
+ * Every update that sets a status is checked against the state machine in
+ * status-machine.ts first, so illegal transitions never reach the backend.
+ * The backend records every pallet, order and manifest mutation in the audit
+ * trail, in the same transaction as the change; mutations take an optional
+ * reason (see audit.ts).
+ *
+ * Screens watch tables for changes with subscribe() (see realtime.ts).
+ *
  * @module lib/api/wmsApi
  */
 
 import type {
-	Location,
-	Manifest,
+	AuditEvent,
+	CycleCount,
+	InventoryAdjustment,
 	Pallet,
-	Product,
-	ReceivingOrder,
-	ReceivingOrderLine,
 	ShippingOrder,
 	ShippingOrderLine,
 	User,
-	Warehouse,
+	WriteOffRequest,
 } from "../../types/domain";
 import { supabase } from "../auth/supabase-client";
+import { createAllocationLedger } from "./allocation";
+import { getAuditActor } from "./audit";
+import { PermissionDeniedError, toWmsError } from "./errors";
+import { createMemoryBackend } from "./memory-backend";
+import { collectPallets } from "./pallet-query";
+import { subscribeWithFallback, type SubscribeOptions, type SubscriptionInput } from "./realtime";
+import { assertTransition, type EntityStatusMap, type StatusEntity } from "./status-machine";
+import { supabaseBackend } from "./supabase-backend";
+import type {
+	AdjustmentsBackend,
+	AuditBackend,
+	CycleCountApproval,
+	CycleCountEntry,
+	CycleCountInput,
+	CycleCountsBackend,
+	CycleCountWithLines,
+	EmailBackend,
+	InventoryAdjustmentInput,
+	LocationsBackend,
+	ManifestsBackend,
+	PalletFilters,
+	PalletsBackend,
+	ProductsBackend,
+	ReceivingOrderLinesBackend,
+	ReceivingOrdersBackend,
+	ShippingOrdersBackend,
+	StorageBackend,
+	WarehousesBackend,
+	WmsBackend,
+	WmsChange,
+	WriteOffRequestInput,
+	WriteOffsBackend,
+} from "./wms-backend";
 
 /**
- * Format error message for user display
+ * Pick the adapter configured for this build
  *
- * @param error - Error object from Supabase
- * @param defaultMessage - Default message if error is unclear
- * @returns User-friendly error message
+ * @returns Backend adapter
  */
-function formatErrorMessage(error: unknown, defaultMessage: string): string {
-	if (error instanceof Error) {
-		// Supabase error
-		if ("message" in error && typeof error.message === "string") {
-			return error.message;
-		}
-		return error.message || defaultMessage;
-	}
-	return defaultMessage;
+function createConfiguredBackend(): WmsBackend {
+	return import.meta.env.VITE_WMS_BACKEND === "memory" ? createMemoryBackend() : supabaseBackend;
+}
+
+let activeBackend: WmsBackend = createConfiguredBackend();
+
+/**
+ * Get the backend adapter wmsApi currently delegates to
+ *
+ * @returns Active backend adapter
+ */
+export function getBackend(): WmsBackend {
+	return activeBackend;
+}
+
+/**
+ * Swap the backend adapter (e.g., in-memory adapter for demos and tests)
+ *
+ * @param backend - Adapter to delegate to from now on
+ */
+export function setBackend(backend: WmsBackend): void {
+	activeBackend = backend;
+}
+
+/**
+ * Check a requested status change against the state machine before writing
+ *
+ * @param entity - Entity type
+ * @param nextStatus - Status in the update payload, if any
+ * @param getCurrent - Loads the row to read its current status
+ * @throws InvalidStatusTransitionError if the change is not allowed
+ */
+async function guardStatus<E extends StatusEntity>(
+	entity: E,
+	nextStatus: EntityStatusMap[E] | undefined,
+	getCurrent: () => Promise<{ status: EntityStatusMap[E] }>
+): Promise<void> {
+	if (nextStatus === undefined) return;
+	const { status } = await getCurrent();
+	assertTransition(entity, status, nextStatus);
+}
+
+/**
+ * Storage path of an adjustment photo: <pallet id>/photo_<timestamp>_<file name>
+ */
+function getAdjustmentPhotoPath(palletId: string, photo: File): string {
+	const timestamp = new Date().toISOString().replaceAll(/[:.]/g, "-");
+	const fileName = photo.name
+		.replaceAll(/[^a-zA-Z0-9.-]/g, "_")
+		.replaceAll(/_{2,}/g, "_")
+		.toLowerCase();
+	return `${palletId}/photo_${timestamp}_${fileName}`;
 }
 
 /**
@@ -66,7 +150,10 @@ export const auth = {
 			});
 
 			if (error) {
-				throw new Error(error.message === "Invalid login credentials" ? "Invalid email or password" : error.message);
+				if (error.message === "Invalid login credentials") {
+					throw new PermissionDeniedError("Invalid email or password", { code: "unauthenticated", cause: error });
+				}
+				throw error;
 			}
 
 			if (!data.user) {
@@ -88,9 +175,10 @@ export const auth = {
 				id: data.user.id,
 				email: data.user.email || "",
 				role: profile?.role || "Warehouse",
+				is_lead: profile?.is_lead ?? false,
 			};
 		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Login failed"));
+			throw toWmsError(error, "Login failed");
 		}
 	},
 
@@ -106,7 +194,7 @@ export const auth = {
 				throw error;
 			}
 		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Logout failed"));
+			throw toWmsError(error, "Logout failed");
 		}
 	},
 
@@ -130,6 +218,7 @@ export const auth = {
 				id: data.user.id,
 				email: data.user.email || "",
 				role: profile?.role || "Warehouse",
+				is_lead: profile?.is_lead ?? false,
 			};
 		} catch (error) {
 			console.error("Failed to get current user:", error);
@@ -141,1185 +230,393 @@ export const auth = {
 /**
  * Product Operations
  */
-export const products = {
-	/**
-	 * Get all products
-	 *
-	 * @returns Array of products
-	 * @throws Error with user-friendly message
-	 */
-	async getAll(): Promise<Product[]> {
-		try {
-			const { data, error } = await supabase.from("products").select("*").order("item_id", { ascending: true });
+export const products: ProductsBackend = {
+	getAll: () => activeBackend.products.getAll(),
+	getById: (id) => activeBackend.products.getById(id),
+	create: (product) => activeBackend.products.create(product),
+	update: (itemId, updates) => activeBackend.products.update(itemId, updates),
+	getByItemId: (item_id) => activeBackend.products.getByItemId(item_id),
+	uploadMaster: (rows, options) => activeBackend.products.uploadMaster(rows, options),
+	getVersions: (itemIds) => activeBackend.products.getVersions(itemIds),
+};
 
-			if (error) {
-				throw error;
-			}
+/**
+ * Receiving Order Line Operations
+ */
+export const receivingOrderLines: ReceivingOrderLinesBackend = {
+	create: (line) => activeBackend.receivingOrderLines.create(line),
+	getByReceivingOrderId: (receivingOrderId) =>
+		activeBackend.receivingOrderLines.getByReceivingOrderId(receivingOrderId),
+};
 
-			return data || [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load products"));
-		}
+/**
+ * Receiving Order Operations
+ */
+export const receivingOrders: ReceivingOrdersBackend = {
+	create: (order) => activeBackend.receivingOrders.create(order),
+	getById: (id) => activeBackend.receivingOrders.getById(id),
+	update: async (id, updates, options) => {
+		await guardStatus("receivingOrder", updates.status, () => activeBackend.receivingOrders.getById(id));
+		return activeBackend.receivingOrders.update(id, updates, options);
+	},
+	createLines: (lines) => activeBackend.receivingOrders.createLines(lines),
+	list: () => activeBackend.receivingOrders.list(),
+	getAll: () => activeBackend.receivingOrders.getAll(),
+	query: (filters) => activeBackend.receivingOrders.query(filters),
+	finishTally: async (id) => {
+		await guardStatus("receivingOrder", "Staged", () => activeBackend.receivingOrders.getById(id));
+		return activeBackend.receivingOrders.finishTally(id);
+	},
+	finalize: async (id) => {
+		await guardStatus("receivingOrder", "Received", () => activeBackend.receivingOrders.getById(id));
+		return activeBackend.receivingOrders.finalize(id);
 	},
+};
 
+/**
+ * Pallet Operations
+ */
+export const pallets: PalletsBackend & {
 	/**
-	 * Get single product by ID
+	 * Get every pallet matching the filters (server-side, all pages)
 	 *
-	 * @param id - Product ID
-	 * @returns Product object
+	 * @param filters - Filter criteria
+	 * @returns Matching pallets in created_at order
 	 * @throws Error with user-friendly message
 	 */
-	async getById(id: string): Promise<Product> {
-		try {
-			const { data, error } = await supabase.from("products").select("*").eq("id", id).single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Product not found");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load product"));
-		}
-	},
-
+	getFiltered(filters: PalletFilters): Promise<Pallet[]>;
 	/**
-	 * Create new product
+	 * Get a pallet's recorded history (audit events), oldest first
 	 *
-	 * @param product - Product data
-	 * @returns Created product
-	 * @throws Error with user-friendly message
-	 */
-	async create(product: Omit<Product, "id" | "created_at">): Promise<Product> {
-		try {
-			const { data, error } = await supabase.from("products").insert([product]).select().single();
-
-			if (error) {
-				// Log detailed error for debugging
-				console.error("Supabase insert error:", error);
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Failed to create product - no data returned");
-			}
-
-			return data;
-		} catch (error) {
-			const message = formatErrorMessage(error, "Failed to create product");
-			console.error("Product creation error:", message, "Product:", product);
-			throw new Error(message);
-		}
-	},
+	 * @param id - Pallet ID
+	 * @returns Audit events of the pallet
+	 * @throws Error with user-friendly message
+	 */
+	getHistory(id: string): Promise<AuditEvent[]>;
+} = {
+	create: (pallet) => activeBackend.pallets.create(pallet),
+	getAll: () => activeBackend.pallets.getAll(),
+	getById: (id) => activeBackend.pallets.getById(id),
+	query: (query) => activeBackend.pallets.query(query),
+	getFiltered: (filters) => collectPallets((query) => activeBackend.pallets.query(query), filters),
+	update: async (id, updates, options) => {
+		await guardStatus("pallet", updates.status, () => activeBackend.pallets.getById(id));
+		return activeBackend.pallets.update(id, updates, options);
+	},
+	delete: (id, options) => activeBackend.pallets.delete(id, options),
+	getHistory: async (id) => {
+		const events = await activeBackend.audit.query({ entity_type: "pallet", entity_id: id });
+		return events.toReversed();
+	},
+	split: (id, qtys, options) => activeBackend.pallets.split(id, qtys, options),
+	merge: (ids, options) => activeBackend.pallets.merge(ids, options),
+};
 
+/**
+ * Inventory Adjustment Operations
+ */
+export const adjustments: Omit<AdjustmentsBackend, "create"> & {
 	/**
-	 * Update product
+	 * Adjust a pallet's qty up or down and record why
 	 *
-	 * @param itemId - Product item_id (primary key)
-	 * @param updates - Partial product data to update
-	 * @returns Updated product
+	 * The photo, if any, is uploaded to the "adjustments" bucket first (and
+	 * removed again if the adjustment fails). The backend records the qty change
+	 * on the pallet's audit trail as "adjust".
+	 *
+	 * @param adjustment - Pallet, signed qty change, reason, notes and optional photo
+	 * @returns Recorded adjustment
 	 * @throws Error with user-friendly message
 	 */
-	async update(itemId: string, updates: Partial<Product>): Promise<Product> {
-		try {
-			const { data, error } = await supabase.from("products").update(updates).eq("item_id", itemId).select().single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Product not found");
-			}
+	create(
+		adjustment: Omit<InventoryAdjustmentInput, "photo_path" | "created_by" | "created_by_email"> & { photo?: File }
+	): Promise<InventoryAdjustment>;
+} = {
+	create: async ({ photo, ...adjustment }) => {
+		let photoPath: string | undefined;
+		if (photo) {
+			photoPath = getAdjustmentPhotoPath(adjustment.pallet_id, photo);
+			await activeBackend.storage.upload("adjustments", photoPath, photo);
+		}
 
-			return data;
+		const actor = getAuditActor();
+		let created: InventoryAdjustment;
+		try {
+			created = await activeBackend.adjustments.create({
+				...adjustment,
+				photo_path: photoPath,
+				created_by: actor?.id ?? null,
+				created_by_email: actor?.email ?? null,
+			});
 		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to update product"));
+			if (photoPath) {
+				await activeBackend.storage
+					.delete("adjustments", photoPath)
+					.catch((error_) => console.warn("Failed to remove adjustment photo:", error_));
+			}
+			throw error;
 		}
+		return created;
 	},
+	query: (filters) => activeBackend.adjustments.query(filters),
+};
+
+/**
+ * Decision stamped with the signed-in user
+ */
+function getDecision(notes?: string) {
+	const actor = getAuditActor();
+	return { actor_id: actor?.id ?? null, actor_email: actor?.email ?? null, notes };
+}
 
+/**
+ * Write-Off Approval Operations
+ *
+ * The backend records every step on the pallet's audit trail:
+ * request_write_off, write_off (approval), reject_write_off and reverse_write_off.
+ */
+export const writeOffs: Pick<WriteOffsBackend, "query"> & {
 	/**
-	 * Get product by item_id
+	 * Request a pallet write-off; the pallet is unchanged until approved
 	 *
-	 * @param item_id - Product item ID
-	 * @returns Product
+	 * @param request - Pallet, reason and notes
+	 * @returns Pending request
 	 * @throws Error with user-friendly message
 	 */
-	async getByItemId(item_id: string): Promise<Product> {
-		try {
-			const { data, error } = await supabase.from("products").select("*").eq("item_id", item_id).single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error(`Product with item_id "${item_id}" not found`);
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to get product"));
-		}
-	},
-
+	request(request: Omit<WriteOffRequestInput, "requested_by" | "requested_by_email">): Promise<WriteOffRequest>;
 	/**
-	 * Upload product master CSV
+	 * Approve a write-off: the pallet becomes WriteOff and leaves its location
 	 *
-	 * @param file - CSV file
-	 * @returns Array of created products
+	 * @param id - Request ID
+	 * @param notes - Approver's notes
+	 * @returns Approved request
 	 * @throws Error with user-friendly message
 	 */
-	async uploadMaster(file: File): Promise<Product[]> {
-		try {
-			// This will be implemented by the CSV parsing utility
-			// For now, just validate file type
-			if (!file.name.endsWith(".csv")) {
-				throw new Error("File must be CSV format");
-			}
-
-			// File will be parsed and validated by csvValidation utility
-			// Then inserted via products.create()
-			return [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to upload product master"));
-		}
-	},
-};
-
-/**
- * Receiving Order Line Operations
- */
-export const receivingOrderLines = {
+	approve(id: string, notes?: string): Promise<WriteOffRequest>;
 	/**
-	 * Create receiving order line
+	 * Reject a write-off; the pallet is unchanged
 	 *
-	 * @param line - Receiving order line data
-	 * @returns Created receiving order line
+	 * @param id - Request ID
+	 * @param notes - Why it was rejected
+	 * @returns Rejected request
 	 * @throws Error with user-friendly message
 	 */
-	async create(line: Omit<ReceivingOrderLine, "id" | "created_at">): Promise<ReceivingOrderLine> {
-		try {
-			const { data, error } = await supabase.from("receiving_order_lines").insert([line]).select().single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Failed to create receiving order line");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to create receiving order line"));
-		}
-	},
-
+	reject(id: string, notes?: string): Promise<WriteOffRequest>;
 	/**
-	 * Get receiving order lines by receiving order ID
+	 * Reverse an approved write-off: the pallet gets its prior status and location back
 	 *
-	 * @param receivingOrderId - Receiving order ID
-	 * @returns Array of receiving order lines
+	 * @param id - Request ID
+	 * @param notes - Why it was reversed
+	 * @returns Reversed request
 	 * @throws Error with user-friendly message
 	 */
-	async getByReceivingOrderId(receivingOrderId: string): Promise<ReceivingOrderLine[]> {
-		try {
-			const { data, error } = await supabase
-				.from("receiving_order_lines")
-				.select("*")
-				.eq("receiving_order_id", receivingOrderId);
-
-			if (error) {
-				throw error;
-			}
-
-			return data || [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load receiving order lines"));
-		}
+	reverse(id: string, notes?: string): Promise<WriteOffRequest>;
+} = {
+	request: async (request) => {
+		const actor = getAuditActor();
+		return activeBackend.writeOffs.request({
+			...request,
+			requested_by: actor?.id ?? null,
+			requested_by_email: actor?.email ?? null,
+		});
 	},
+	approve: (id, notes) => activeBackend.writeOffs.approve(id, getDecision(notes)),
+	reject: (id, notes) => activeBackend.writeOffs.reject(id, getDecision(notes)),
+	reverse: (id, notes) => activeBackend.writeOffs.reverse(id, getDecision(notes)),
+	query: (filters) => activeBackend.writeOffs.query(filters),
 };
 
 /**
- * Receiving Order Operations
+ * Cycle Count Operations
+ *
+ * The backend records approval on the audit trail of every pallet it
+ * touches: adjust (qty variance), move (counted at another location) and
+ * request_write_off (not found).
  */
-export const receivingOrders = {
+export const cycleCounts: Pick<CycleCountsBackend, "getById" | "query"> & {
 	/**
-	 * Create receiving order
+	 * Create a count task for a rack, location range or item
 	 *
-	 * @param order - Receiving order data
-	 * @returns Created receiving order
+	 * @param count - Scope and notes
+	 * @returns Open count with the locations it covers
 	 * @throws Error with user-friendly message
 	 */
-	async create(order: Omit<ReceivingOrder, "id" | "created_at" | "updated_at">): Promise<ReceivingOrder> {
-		try {
-			const { data, error } = await supabase.from("receiving_orders").insert([order]).select().single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Failed to create receiving order");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to create receiving order"));
-		}
-	},
-
+	create(count: Omit<CycleCountInput, "created_by" | "created_by_email">): Promise<CycleCount>;
 	/**
-	 * Get receiving order by ID
+	 * Submit a blind count; without variances it is approved straight away
 	 *
-	 * @param id - Receiving order ID
-	 * @returns Receiving order with lines
+	 * @param id - Cycle count ID
+	 * @param entries - Pallets counted per location
+	 * @returns Count with one line per pallet in scope
 	 * @throws Error with user-friendly message
 	 */
-	async getById(id: string): Promise<ReceivingOrder & { lines: ReceivingOrderLine[] }> {
-		try {
-			const { data, error } = await supabase
-				.from("receiving_orders")
-				.select("*, receiving_order_lines(*)")
-				.eq("id", id)
-				.single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Receiving order not found");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load receiving order"));
-		}
-	},
-
+	submit(id: string, entries: CycleCountEntry[]): Promise<CycleCountWithLines>;
 	/**
-	 * Update receiving order
+	 * Approve a count's variances: post adjustments, move misplaced pallets and request write-offs of missing ones
 	 *
-	 * @param id - Receiving order ID
-	 * @param updates - Partial receiving order data
-	 * @returns Updated receiving order
+	 * @param id - Cycle count ID
+	 * @param notes - Approver's notes
+	 * @returns Approved count and what it posted
 	 * @throws Error with user-friendly message
 	 */
-	async update(id: string, updates: Partial<ReceivingOrder>): Promise<ReceivingOrder> {
-		try {
-			const { data, error } = await supabase.from("receiving_orders").update(updates).eq("id", id).select().single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Receiving order not found");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to update receiving order"));
-		}
-	},
-
+	approve(id: string, notes?: string): Promise<CycleCountApproval>;
 	/**
-	 * Create receiving order lines
+	 * Reject a count's variances; pallets are unchanged
 	 *
-	 * @param lines - Array of receiving order lines
-	 * @returns Created lines
+	 * @param id - Cycle count ID
+	 * @param notes - Why it was rejected
+	 * @returns Rejected count
 	 * @throws Error with user-friendly message
 	 */
-	async createLines(lines: Omit<ReceivingOrderLine, "id">[]): Promise<ReceivingOrderLine[]> {
-		try {
-			const { data, error } = await supabase.from("receiving_order_lines").insert(lines).select();
-
-			if (error) {
-				throw error;
-			}
-
-			return data || [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to create receiving order lines"));
-		}
+	reject(id: string, notes?: string): Promise<CycleCount>;
+} = {
+	create: async (count) => {
+		const actor = getAuditActor();
+		return activeBackend.cycleCounts.create({
+			...count,
+			created_by: actor?.id ?? null,
+			created_by_email: actor?.email ?? null,
+		});
+	},
+	getById: (id) => activeBackend.cycleCounts.getById(id),
+	query: (filters) => activeBackend.cycleCounts.query(filters),
+	submit: async (id, entries) => {
+		const { actor_id, actor_email } = getDecision();
+		return activeBackend.cycleCounts.submit(id, entries, { actor_id, actor_email });
 	},
+	approve: (id, notes) => activeBackend.cycleCounts.approve(id, getDecision(notes)),
+	reject: async (id, notes) => activeBackend.cycleCounts.reject(id, getDecision(notes)),
+};
 
-	/**
-	 * List all receiving orders
-	 *
-	 * @returns Array of receiving orders with lines
-	 * @throws Error with user-friendly message
-	 */
-	async list(): Promise<(ReceivingOrder & { lines?: ReceivingOrderLine[] })[]> {
-		try {
-			const { data, error } = await supabase
-				.from("receiving_orders")
-				.select("*, receiving_order_lines(*)")
-				.order("created_at", { ascending: false });
+/**
+ * Shipping Order Operations
+ */
+export const shippingOrders: ShippingOrdersBackend = {
+	create: (order) => activeBackend.shippingOrders.create(order),
+	getAll: () => activeBackend.shippingOrders.getAll(),
+	getById: (id) => activeBackend.shippingOrders.getById(id),
+	update: async (id, updates, options) => {
+		await guardStatus("shippingOrder", updates.status, () => activeBackend.shippingOrders.getById(id));
+		return activeBackend.shippingOrders.update(id, updates, options);
+	},
+	createLines: (lines) => activeBackend.shippingOrders.createLines(lines),
+	cancelOrder: async (id, options) => {
+		await guardStatus("shippingOrder", "Cancelled", () => activeBackend.shippingOrders.getById(id));
+		return activeBackend.shippingOrders.cancelOrder(id, options);
+	},
+};
 
-			if (error) {
-				throw error;
-			}
+/**
+ * Shipping order a SHIP-NOW pallet goes to (spec 5.1)
+ *
+ * The oldest Pending/Picking order whose RemainingQty for the item can take
+ * the whole pallet.
+ *
+ * @param itemId - Item on the pallet
+ * @param shippingOrders - Candidate orders with their lines
+ * @param assignedPallets - Pallets already assigned to those orders (count against RemainingQty)
+ * @param qty - Pallet qty
+ * @returns Order, or null when no open order needs that much
+ */
+export async function getShipNowOrder(
+	itemId: string,
+	shippingOrders: (ShippingOrder & { lines?: ShippingOrderLine[] })[],
+	assignedPallets: Pallet[] = [],
+	qty = 1
+): Promise<ShippingOrder | null> {
+	const line = createAllocationLedger(shippingOrders, assignedPallets).allocate(itemId, qty);
+	return line ? (shippingOrders.find((order) => order.id === line.orderId) ?? null) : null;
+}
 
-			// Map receiving_order_lines to lines for consistency
-			const mappedData = (data || []).map((order: ReceivingOrder) => ({
-				...order,
-				lines: order.lines || [],
-			}));
+/**
+ * Warehouse Operations
+ */
+export const warehouses: WarehousesBackend = {
+	getDefault: () => activeBackend.warehouses.getDefault(),
+};
 
-			return mappedData;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load receiving orders"));
-		}
-	},
+/**
+ * Location Operations
+ */
+export const locations: LocationsBackend = {
+	getAll: (location_ids) => activeBackend.locations.getAll(location_ids),
+	getById: (location_id) => activeBackend.locations.getById(location_id),
+	resolve: (warehouse_id, rack, level, position) =>
+		activeBackend.locations.resolve(warehouse_id, rack, level, position),
+	create: (locations) => activeBackend.locations.create(locations),
+	update: (location_ids, updates) => activeBackend.locations.update(location_ids, updates),
+};
 
-	/**
-	 * Get all receiving orders (alias for list)
-	 *
-	 * @returns Array of receiving orders
-	 * @throws Error with user-friendly message
-	 */
-	async getAll(): Promise<ReceivingOrder[]> {
-		try {
-			const { data, error } = await supabase
-				.from("receiving_orders")
-				.select("*")
-				.order("created_at", { ascending: false });
+/**
+ * Storage Operations
+ *
+ * Uses 4 separate buckets for security:
+ * - "receiving" - Receiving order CSVs and container photos
+ * - "shipping" - Shipping order CSVs and shipping documents
+ * - "manifests" - Manifest documents and hand delivery forms
+ * - "adjustments" - Inventory adjustment photos
+ *
+ * Do NOT use folder prefixes like "receiving/" inside bucket names.
+ * The bucket name itself determines the storage location.
+ */
+export const storage: StorageBackend = {
+	upload: (bucket, path, file) => activeBackend.storage.upload(bucket, path, file),
+	download: (bucket, path) => activeBackend.storage.download(bucket, path),
+	delete: (bucket, path) => activeBackend.storage.delete(bucket, path),
+	list: (bucket, folder) => activeBackend.storage.list(bucket, folder),
+	getPublicUrl: (bucket, path) => activeBackend.storage.getPublicUrl(bucket, path),
+	getReceivingOrderCSV: (receivingOrderId) => activeBackend.storage.getReceivingOrderCSV(receivingOrderId),
+};
 
-			if (error) {
-				throw error;
-			}
+/**
+ * Email Operations
+ */
+export const email: EmailBackend = {
+	send: (to, subject, body, attachments) => activeBackend.email.send(to, subject, body, attachments),
+};
 
-			return data || [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load receiving orders"));
-		}
+/**
+ * Manifest Operations (Containers & Hand Deliveries)
+ */
+export const manifests: ManifestsBackend = {
+	create: (manifest) => activeBackend.manifests.create(manifest),
+	getById: (id) => activeBackend.manifests.getById(id),
+	getAll: () => activeBackend.manifests.getAll(),
+	getFiltered: (filters) => activeBackend.manifests.getFiltered(filters),
+	update: async (id, updates, options) => {
+		await guardStatus("manifest", updates.status, () => activeBackend.manifests.getById(id));
+		return activeBackend.manifests.update(id, updates, options);
+	},
+	closeAndShip: async (id) => {
+		await guardStatus("manifest", "Closed", () => activeBackend.manifests.getById(id));
+		return activeBackend.manifests.closeAndShip(id);
 	},
 };
 
 /**
- * Pallet Operations
+ * Audit Trail Operations
  */
-export const pallets = {
-	/**
-	 * Create pallet
-	 *
-	 * @param pallet - Pallet data
-	 * @returns Created pallet
-	 * @throws Error with user-friendly message
-	 */
-	async create(pallet: Omit<Pallet, "id" | "created_at">): Promise<Pallet> {
-		try {
-			const { data, error } = await supabase.from("pallets").insert([pallet]).select().single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Failed to create pallet");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to create pallet"));
-		}
-	},
-
-	/**
-	 * Get all pallets
-	 *
-	 * @returns Array of all pallets
-	 * @throws Error with user-friendly message
-	 */
-	async getAll(): Promise<Pallet[]> {
-		try {
-			const { data, error } = await supabase.from("pallets").select("*");
-
-			if (error) {
-				throw error;
-			}
-
-			return data || [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load pallets"));
-		}
-	},
-
-	/**
-	 * Get pallets with filters
-	 *
-	 * @param filters - Filter criteria
-	 * @returns Array of pallets
-	 * @throws Error with user-friendly message
-	 */
-	async getFiltered(filters: {
-		status?: string;
-		receiving_order_id?: string;
-		shipping_order_id?: string | null;
-		location_id?: string | null;
-	}): Promise<Pallet[]> {
-		try {
-			// Fetch ALL pallets first
-			const { data: allPallets, error: fetchError } = await supabase.from("pallets").select("*");
-
-			if (fetchError) {
-				console.error("❌ [PALLETS.GETFILTERED] Fetch error:", fetchError);
-				throw fetchError;
-			}
-
-			// Filter in JavaScript to avoid Supabase filter issues
-			let filtered = allPallets || [];
-
-			// Apply receiving_order_id filter FIRST (most specific)
-			if (filters.receiving_order_id) {
-				const orderId = String(filters.receiving_order_id).trim();
-				filtered = filtered.filter((p) => {
-					const pOrderId = String(p.receiving_order_id || "").trim();
-					return pOrderId === orderId;
-				});
-			}
-
-			// Then apply other filters (only if explicitly provided)
-			if (filters.status) {
-				filtered = filtered.filter((p) => p.status === filters.status);
-			}
-
-			// Only apply shipping_order_id filter if explicitly provided in filters object
-			if ("shipping_order_id" in filters) {
-				filtered =
-					filters.shipping_order_id === null || filters.shipping_order_id === undefined
-						? filtered.filter((p) => p.shipping_order_id === null)
-						: filtered.filter((p) => p.shipping_order_id === filters.shipping_order_id);
-			}
-
-			// Only apply location_id filter if explicitly provided in filters object
-			if ("location_id" in filters) {
-				filtered =
-					filters.location_id === null || filters.location_id === undefined
-						? filtered.filter((p) => p.location_id === null)
-						: filtered.filter((p) => p.location_id === filters.location_id);
-			}
-
-			return filtered;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load pallets"));
-		}
-	},
-
-	/**
-	 * Update pallet
-	 *
-	 * @param id - Pallet ID
-	 * @param updates - Partial pallet data
-	 * @returns Updated pallet
-	 * @throws Error with user-friendly message
-	 */
-	async update(id: string, updates: Partial<Pallet>): Promise<Pallet> {
-		try {
-			const { data, error } = await supabase.from("pallets").update(updates).eq("id", id).select().single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Pallet not found");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to update pallet"));
-		}
-	},
-
-	/**
-	 * Delete pallet (soft delete via status)
-	 *
-	 * @param id - Pallet ID
-	 * @throws Error with user-friendly message
-	 */
-	async delete(id: string): Promise<void> {
-		try {
-			const { error } = await supabase.from("pallets").delete().eq("id", id);
-
-			if (error) {
-				throw error;
-			}
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to delete pallet"));
-		}
-	},
-};
-
-/**
- * Shipping Order Operations
- */
-export const shippingOrders = {
-	/**
-	 * Create shipping order
-	 *
-	 * @param order - Shipping order data
-	 * @returns Created shipping order
-	 * @throws Error with user-friendly message
-	 */
-	async create(order: Omit<ShippingOrder, "id" | "created_at">): Promise<ShippingOrder> {
-		try {
-			const { data, error } = await supabase.from("shipping_orders").insert([order]).select().single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Failed to create shipping order");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to create shipping order"));
-		}
-	},
-
-	/**
-	 * Get all shipping orders
-	 *
-	 * @returns Array of shipping orders
-	 * @throws Error with user-friendly message
-	 */
-	async getAll(): Promise<(ShippingOrder & { lines?: ShippingOrderLine[] })[]> {
-		try {
-			const { data, error } = await supabase
-				.from("shipping_orders")
-				.select("*, shipping_order_lines(*)")
-				.order("created_at", { ascending: false });
-
-			if (error) {
-				throw error;
-			}
-
-			// Map shipping_order_lines to lines for consistency
-			// Supabase returns nested data as shipping_order_lines (table name)
-			const mappedData = (data || []).map((order: unknown) => {
-				const orderData = order as Record<string, unknown>;
-				return {
-					...orderData,
-					lines: (orderData.shipping_order_lines as ShippingOrderLine[]) || [],
-				};
-			});
-
-			return mappedData as (ShippingOrder & { lines?: ShippingOrderLine[] })[];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load shipping orders"));
-		}
-	},
-
-	/**
-	 * Get shipping order by ID
-	 *
-	 * @param id - Shipping order ID
-	 * @returns Shipping order with lines
-	 * @throws Error with user-friendly message
-	 */
-	async getById(id: string): Promise<ShippingOrder & { lines: ShippingOrderLine[] }> {
-		try {
-			const { data, error } = await supabase
-				.from("shipping_orders")
-				.select("*, shipping_order_lines(*)")
-				.eq("id", id)
-				.single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Shipping order not found");
-			}
-
-			// Map shipping_order_lines to lines for consistency
-			// Supabase returns it as shipping_order_lines, but we want it as lines
-			return {
-				...data,
-				lines: (data as unknown as Record<string, unknown>).shipping_order_lines || data.lines || [],
-			};
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load shipping order"));
-		}
-	},
-
-	/**
-	 * Update shipping order
-	 *
-	 * @param id - Shipping order ID
-	 * @param updates - Partial shipping order data
-	 * @returns Updated shipping order
-	 * @throws Error with user-friendly message
-	 */
-	async update(id: string, updates: Partial<ShippingOrder>): Promise<ShippingOrder> {
-		try {
-			const { data, error } = await supabase.from("shipping_orders").update(updates).eq("id", id).select().single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Shipping order not found");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to update shipping order"));
-		}
-	},
-
-	/**
-	 * Create shipping order lines
-	 *
-	 * @param lines - Array of shipping order lines
-	 * @returns Created lines
-	 * @throws Error with user-friendly message
-	 */
-	async createLines(lines: Omit<ShippingOrderLine, "id">[]): Promise<ShippingOrderLine[]> {
-		try {
-			const { data, error } = await supabase.from("shipping_order_lines").insert(lines).select();
-
-			if (error) {
-				throw error;
-			}
-
-			return data || [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to create shipping order lines"));
-		}
-	},
-
-	/**
-	 * Cancel shipping order and release all assigned pallets
-	 *
-	 * This method:
-	 * 1. Sets shipping order status to 'Cancelled'
-	 * 2. Sets cancelled_at timestamp
-	 * 3. Resets all assigned pallets to status='Received' (forcing put-away)
-	 * 4. Clears shipping_order_id from pallets
-	 *
-	 * @param id - Shipping order ID
-	 * @returns Updated shipping order
-	 * @throws Error with user-friendly message
-	 */
-	async cancelOrder(id: string): Promise<ShippingOrder> {
-		try {
-			// Step 1: Update shipping order status to Cancelled
-			const { data: updatedOrder, error: orderError } = await supabase
-				.from("shipping_orders")
-				.update({
-					status: "Cancelled",
-					cancelled_at: new Date().toISOString(),
-				})
-				.eq("id", id)
-				.select()
-				.single();
-
-			if (orderError) {
-				throw orderError;
-			}
-
-			if (!updatedOrder) {
-				throw new Error("Shipping order not found");
-			}
-
-			// Step 2: Release all pallets assigned to this order
-			// Reset status to 'Received' (forces put-away) and clear shipping_order_id
-			const { error: palletError } = await supabase
-				.from("pallets")
-				.update({
-					status: "Received",
-					shipping_order_id: null,
-					manifest_id: null,
-				})
-				.eq("shipping_order_id", id);
-
-			if (palletError) {
-				console.error("❌ [CANCEL ORDER] Failed to release pallets:", palletError);
-				throw new Error("Failed to release pallets");
-			}
-			return updatedOrder;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to cancel shipping order"));
-		}
-	},
-};
-
-export async function getShipNowOrder(
-	itemId: string,
-	shippingOrders: (ShippingOrder & { lines?: ShippingOrderLine[] })[]
-): Promise<ShippingOrder | null> {
-	try {
-		// Filter 1: Status must be Pending or Picking
-		const validStatusOrders = shippingOrders.filter(
-			(order) => order.status === "Pending" || order.status === "Picking"
-		);
-
-		// Filter 2: Order must have a line for this itemId
-		const ordersWithItem = validStatusOrders.filter((order) => {
-			if (!order.lines) return false;
-			return order.lines.some((line) => line.item_id === itemId);
-		});
-
-		if (ordersWithItem.length === 0) {
-			return null;
-		}
-
-		// Filter 3: Order must have remaining quantity for this item
-		const ordersWithRemaining = ordersWithItem.filter((order) => {
-			if (!order.lines) return false;
-
-			// Find the line for this itemId
-			const line = order.lines.find((l) => l.item_id === itemId);
-			if (!line) return false;
-
-			// Check if line has remaining quantity
-			return line.requested_qty > 0;
-		});
-
-		if (ordersWithRemaining.length === 0) {
-			return null;
-		}
-
-		// Sort by created_at (ascending) and return the first (earliest)
-		const earliestOrder = ordersWithRemaining.sort((a, b) => {
-			const dateA = new Date(a.created_at).getTime();
-			const dateB = new Date(b.created_at).getTime();
-			return dateA - dateB;
-		})[0];
-
-		return earliestOrder;
-	} catch (error) {
-		console.error("Error in getShipNowOrder:", error);
-		return null;
-	}
-}
-
-/**
- * Warehouse Operations
- */
-export const warehouses = {
-	/**
-	 * Get default warehouse (Warehouse 1)
-	 *
-	 * @returns Warehouse object
-	 * @throws Error with user-friendly message
-	 */
-	async getDefault(): Promise<Warehouse> {
-		try {
-			const { data, error } = await supabase.from("warehouses").select("*").eq("code", "W1").single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Default warehouse not found");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load warehouse"));
-		}
-	},
+export const audit: AuditBackend = {
+	query: (filters) => activeBackend.audit.query(filters),
 };
 
 /**
- * Location Operations
- */
-export const locations = {
-	/**
-	 * Get all locations
-	 *
-	 * @returns Array of locations
-	 * @throws Error with user-friendly message
-	 */
-	async getAll(): Promise<Location[]> {
-		try {
-			const { data, error } = await supabase.from("locations").select("*").order("location_id", { ascending: true });
-
-			if (error) {
-				throw error;
-			}
-
-			return data || [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load locations"));
-		}
-	},
-
-	/**
-	 * Get location by ID
-	 *
-	 * @param location_id - Location ID
-	 * @returns Location object
-	 * @throws Error with user-friendly message
-	 */
-	async getById(location_id: string): Promise<Location> {
-		try {
-			const { data, error } = await supabase.from("locations").select("*").eq("location_id", location_id).single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error(`Location with ID ${location_id} not found`);
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, `Failed to load location ${location_id}`));
-		}
-	},
-
-	async resolve(warehouse_id: string, rack: number | string, level: number, position: string): Promise<Location> {
-		try {
-			let query = supabase.from("locations").select("*").eq("warehouse_id", warehouse_id);
-
-			if (rack === "AISLE") {
-				// Aisle zone: level parameter is the zone number (1-4)
-				// Query by type=AISLE and location_id pattern (W1-AISLE-01, W1-AISLE-02, etc.)
-				const zoneNum = String(level).padStart(2, "0");
-				const locationId = `W1-AISLE-${zoneNum}`;
-				query = query.eq("type", "AISLE").eq("location_id", locationId);
-			} else {
-				// Regular rack location
-				// Query by type=RACK and rack/level/position coordinates
-				const rackNum = Number(rack);
-				const levelNum = Number(level);
-				query = query.eq("type", "RACK").eq("rack", rackNum).eq("level", levelNum).eq("position", position);
-			}
-
-			const { data, error } = await query.single();
-
-			if (error) {
-				console.error("Location resolve error:", error);
-				throw new Error("Location not found");
-			}
-
-			if (!data) {
-				throw new Error("Location not found");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to resolve location"));
-		}
-	},
-};
-
-/**
- * Storage Operations
+ * Watch tables for row changes
  *
- * Uses 3 separate buckets for security:
- * - "receiving" - Receiving order CSVs and container photos
- * - "shipping" - Shipping order CSVs and shipping documents
- * - "manifests" - Manifest documents and hand delivery forms
+ * Uses the backend's realtime feed and polls while it is down, so the
+ * listener always hears about changes eventually.
  *
- * Do NOT use folder prefixes like "receiving/" inside bucket names.
- * The bucket name itself determines the storage location.
- */
-export const storage = {
-	/**
-	 * Upload file to Supabase Storage
-	 *
-	 * @param bucket - Storage bucket name ("receiving", "shipping", or "manifests")
-	 * @param path - File path in bucket (e.g., "order-123/photo_1.jpg")
-	 * @param file - File to upload
-	 * @returns Public URL of uploaded file
-	 * @throws Error with user-friendly message
-	 */
-	async upload(bucket: string, path: string, file: File): Promise<string> {
-		try {
-			// First try with upsert
-			let uploadResult = await supabase.storage.from(bucket).upload(path, file, { upsert: true, cacheControl: "3600" });
-
-			// If RLS error, try without upsert
-			if (uploadResult.error && uploadResult.error.message?.includes("row-level security")) {
-				uploadResult = await supabase.storage.from(bucket).upload(path, file, { cacheControl: "3600" });
-			}
-
-			const { data, error } = uploadResult;
-
-			if (error) {
-				console.error("Storage upload error:", error);
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Upload failed - no data returned");
-			}
-			// Get public URL
-			const { data: urlData } = supabase.storage.from(bucket).getPublicUrl(path);
-			return urlData.publicUrl;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to upload file"));
-		}
-	},
-
-	/**
-	 * Download file from Supabase Storage
-	 *
-	 * @param bucket - Storage bucket name
-	 * @param path - File path in bucket
-	 * @returns File blob
-	 * @throws Error with user-friendly message
-	 */
-	async download(bucket: string, path: string): Promise<Blob> {
-		try {
-			const { data, error } = await supabase.storage.from(bucket).download(path);
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Download failed");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to download file"));
-		}
-	},
-
-	/**
-	 * Delete file from Supabase Storage
-	 *
-	 * @param bucket - Storage bucket name
-	 * @param path - File path in bucket
-	 * @throws Error with user-friendly message
-	 */
-	async delete(bucket: string, path: string): Promise<void> {
-		try {
-			const { error } = await supabase.storage.from(bucket).remove([path]);
-
-			if (error) {
-				throw error;
-			}
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to delete file"));
-		}
-	},
-
-	/**
-	 * Get receiving order CSV from storage
-	 *
-	 * @param receivingOrderId - Receiving order ID
-	 * @returns Public URL of the CSV file
-	 * @throws Error with user-friendly message
-	 */
-	async getReceivingOrderCSV(receivingOrderId: string): Promise<string> {
-		try {
-			// List files in the receiving order directory
-			const { data, error: listError } = await supabase.storage.from("receiving").list(receivingOrderId);
-
-			if (listError) {
-				throw listError;
-			}
-
-			if (!data || data.length === 0) {
-				throw new Error("No CSV file found for this receiving order");
-			}
-
-			// Find the original CSV file
-			const csvFile = data.find((file) => file.name.startsWith("original_"));
-
-			if (!csvFile) {
-				throw new Error("Original CSV file not found");
-			}
-
-			// Get public URL
-			const { data: urlData } = supabase.storage.from("receiving").getPublicUrl(`${receivingOrderId}/${csvFile.name}`);
-
-			return urlData.publicUrl;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to retrieve receiving CSV"));
-		}
-	},
-};
-
-/**
- * Email Operations
- */
-export const email = {
-	/**
-	 * Send email via Supabase
-	 *
-	 * @param to - Recipient email
-	 * @param subject - Email subject
-	 * @param body - Email body (plain text)
-	 * @param _attachments - Optional file attachments
-	 * @returns Success status
-	 * @throws Error with user-friendly message
-	 */
-	async send(
-		to: string,
-		subject: string,
-		body: string,
-		_attachments?: { filename: string; content: string }[]
-	): Promise<boolean> {
-		try {
-			// This will be implemented via Supabase Edge Functions
-			// For now, just validate inputs
-			if (!to || !subject || !body) {
-				throw new Error("Email requires to, subject, and body");
-			}
-			return true;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to send email"));
-		}
-	},
-};
-
-/**
- * Manifest Operations (Containers & Hand Deliveries)
+ * @param tables - Table name(s) and/or filtered subscriptions
+ * @param listener - Called for every change (POLL: refetch, something may have changed)
+ * @param options - Polling options
+ * @returns Unsubscribe function
  */
-export const manifests = {
-	/**
-	 * Create manifest (container or hand delivery)
-	 *
-	 * @param manifest - Manifest data
-	 * @returns Created manifest
-	 * @throws Error with user-friendly message
-	 */
-	async create(manifest: Omit<Manifest, "id" | "created_at">): Promise<Manifest> {
-		try {
-			const { data, error } = await supabase
-				.from("manifests")
-				.insert([manifest])
-				.select("id, type, container_num, seal_num, status, created_at, closed_at")
-				.single();
-
-			if (error) {
-				console.error("Supabase error:", error);
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Failed to create manifest");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to create manifest"));
-		}
-	},
-
-	/**
-	 * Get manifest by ID
-	 *
-	 * @param id - Manifest ID
-	 * @returns Manifest data
-	 * @throws Error with user-friendly message
-	 */
-	async getById(id: string): Promise<Manifest> {
-		try {
-			const { data, error } = await supabase.from("manifests").select("*").eq("id", id).single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Manifest not found");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load manifest"));
-		}
-	},
-
-	/**
-	 * Get all manifests
-	 *
-	 * @returns Array of all manifests
-	 * @throws Error with user-friendly message
-	 */
-	async getAll(): Promise<Manifest[]> {
-		try {
-			const { data, error } = await supabase.from("manifests").select("*").order("created_at", { ascending: false });
-
-			if (error) {
-				throw error;
-			}
-
-			return data || [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load manifests"));
-		}
-	},
-
-	/**
-	 * Get manifests with filters
-	 *
-	 * @param filters - Filter criteria
-	 * @returns Array of manifests
-	 * @throws Error with user-friendly message
-	 */
-	async getFiltered(filters: { type?: string; status?: string }): Promise<Manifest[]> {
-		try {
-			let query = supabase.from("manifests").select("*");
-
-			if (filters.type) {
-				query = query.eq("type", filters.type);
-			}
-			if (filters.status) {
-				query = query.eq("status", filters.status);
-			}
-
-			const { data, error } = await query;
-
-			if (error) {
-				throw error;
-			}
-
-			return data || [];
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to load manifests"));
-		}
-	},
-
-	/**
-	 * Update manifest
-	 *
-	 * @param id - Manifest ID
-	 * @param updates - Partial manifest data
-	 * @returns Updated manifest
-	 * @throws Error with user-friendly message
-	 */
-	async update(id: string, updates: Partial<Manifest>): Promise<Manifest> {
-		try {
-			const { data, error } = await supabase.from("manifests").update(updates).eq("id", id).select().single();
-
-			if (error) {
-				throw error;
-			}
-
-			if (!data) {
-				throw new Error("Manifest not found");
-			}
-
-			return data;
-		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to update manifest"));
-		}
-	},
-};
+export function subscribe(
+	tables: SubscriptionInput,
+	listener: (change: WmsChange) => void,
+	options?: SubscribeOptions
+): () => void {
+	return subscribeWithFallback(activeBackend.realtime, tables, listener, options);
+}
 
 /**
  * Health Check Operations
@@ -1342,7 +639,7 @@ export const health = {
 
 			return true;
 		} catch (error) {
-			throw new Error(formatErrorMessage(error, "Failed to connect to Supabase"));
+			throw toWmsError(error, "Failed to connect to Supabase");
 		}
 	},
 };
@@ -1353,6 +650,9 @@ export default {
 	receivingOrders,
 	receivingOrderLines,
 	pallets,
+	adjustments,
+	writeOffs,
+	cycleCounts,
 	shippingOrders,
 	getShipNowOrder,
 	manifests,
@@ -1360,5 +660,7 @@ export default {
 	locations,
 	storage,
 	email,
+	audit,
+	subscribe,
 	health,
 };
@@ -0,0 +1,542 @@
+/**
+ * WMS Backend Contract
+ *
+ * Describes every data operation wmsApi needs from a backend. wmsApi
+ * delegates to whichever adapter is active, so screens never know whether
+ * data lives in Supabase or in the browser.
+ *
+ * Adapters:
+ * - supabase-backend.ts - production adapter (Postgres + Storage)
+ * - memory-backend.ts - in-memory/localStorage adapter for demos, training and tests
+ *
+ * @module lib/api/wmsBackend
+ */
+
+import type {
+	AdjustmentReason,
+	AuditEntityType,
+	AuditEvent,
+	CycleCount,
+	CycleCountLine,
+	InventoryAdjustment,
+	Location,
+	Manifest,
+	Pallet,
+	Product,
+	ProductVersion,
+	ReceivingOrder,
+	ReceivingOrderLine,
+	ShippingOrder,
+	ShippingOrderLine,
+	Warehouse,
+	WriteOffRequest,
+} from "../../types/domain";
+import type { EmailAttachment } from "../email-service";
+import type { AuditOptions } from "./audit";
+import type { ProductMasterDiff, ProductMasterRow } from "./product-master";
+
+/**
+ * Pallet update payload
+ *
+ * Same as Partial<Pallet>, except the assignment columns can be cleared with null
+ * and the LPN never changes.
+ */
+export type PalletUpdate = Partial<Omit<Pallet, "lpn" | "location_id" | "shipping_order_id" | "manifest_id">> & {
+	location_id?: string | null;
+	shipping_order_id?: string | null;
+	manifest_id?: string | null;
+};
+
+/**
+ * Result of splitting a pallet
+ */
+export interface PalletSplitResult {
+	/** The original pallet with the remaining qty */
+	source: Pallet;
+	/** New pallets, one per requested qty */
+	created: Pallet[];
+}
+
+/**
+ * Pallet status values
+ */
+export type PalletStatus = Pallet["status"];
+
+/**
+ * Inclusive ISO timestamp range; either bound may be omitted
+ */
+export interface DateRange {
+	from?: string;
+	to?: string;
+}
+
+/**
+ * Pallet filter criteria
+ *
+ * Array values match any of the given values. For shipping_order_id,
+ * location_id and manifest_id, passing null (or undefined) explicitly matches
+ * pallets where the column is empty; omitting the key skips the filter.
+ */
+export interface PalletFilters {
+	id?: string | string[];
+	/** License plate numbers, matched case-insensitively */
+	lpn?: string | string[];
+	status?: PalletStatus | PalletStatus[];
+	item_id?: string | string[];
+	receiving_order_id?: string | string[];
+	shipping_order_id?: string | string[] | null;
+	location_id?: string | string[] | null;
+	manifest_id?: string | string[] | null;
+	is_cross_dock?: boolean;
+	created_at?: DateRange;
+	received_at?: DateRange;
+	shipped_at?: DateRange;
+}
+
+/**
+ * Columns pallet pages can be sorted by (ties are broken by id)
+ */
+export type PalletSortField = "created_at" | "item_id" | "qty";
+
+/**
+ * Paginated pallet query
+ */
+export interface PalletQuery extends PalletFilters {
+	/** Sort column (default: created_at) */
+	sort?: PalletSortField;
+	/** Sort direction (default: asc) */
+	direction?: "asc" | "desc";
+	/** Page size, 1-1000 (default: 100) */
+	limit?: number;
+	/** nextCursor from the previous page; omit for the first page */
+	cursor?: string | null;
+}
+
+/**
+ * One page of pallets
+ */
+export interface PalletPage {
+	items: Pallet[];
+	/** Cursor for the next page, or null when this is the last page */
+	nextCursor: string | null;
+}
+
+/**
+ * Outcome of finishing a tally
+ */
+export interface FinishTallyResult {
+	/** Receiving order, now Staged */
+	order: ReceivingOrder;
+	/** Shipping orders moved to (or already in) Loading because the tally was 100% SHIP-NOW */
+	loadingOrderIds: string[];
+}
+
+/**
+ * Product operations
+ */
+export interface ProductsBackend {
+	getAll(): Promise<Product[]>;
+	getById(id: string): Promise<Product>;
+	create(product: Omit<Product, "id" | "created_at">): Promise<Product>;
+	/** Update by item_id (the business key used across the app) */
+	update(itemId: string, updates: Partial<Product>): Promise<Product>;
+	getByItemId(item_id: string): Promise<Product>;
+	/**
+	 * Replace-all Product Master upload, applied as one batch: upsert every row,
+	 * deactivate active products missing from the file (never delete)
+	 *
+	 * @param options - dryRun: compute the diff without writing
+	 */
+	uploadMaster(rows: ProductMasterRow[], options?: { dryRun?: boolean }): Promise<ProductMasterDiff>;
+	/**
+	 * Pallet spec history, oldest first; a version is recorded on create and on
+	 * every units_per_pallet / pallet_positions change
+	 *
+	 * @param itemIds - Limit to these items (all items when omitted)
+	 */
+	getVersions(itemIds?: string[]): Promise<ProductVersion[]>;
+}
+
+/**
+ * Receiving order line operations
+ */
+export interface ReceivingOrderLinesBackend {
+	create(line: Omit<ReceivingOrderLine, "id" | "created_at">): Promise<ReceivingOrderLine>;
+	getByReceivingOrderId(receivingOrderId: string): Promise<ReceivingOrderLine[]>;
+}
+
+/**
+ * Receiving order search criteria
+ */
+export interface ReceivingOrderFilters {
+	/** Case-insensitive match on part of the receipt ref or container # */
+	search?: string;
+	status?: ReceivingOrder["status"][];
+	/** Max rows returned, newest first (default 20) */
+	limit?: number;
+}
+
+/**
+ * Receiving order operations
+ */
+export interface ReceivingOrdersBackend {
+	/** The backend assigns the id and the next receipt ref */
+	create(order: Omit<ReceivingOrder, "id" | "receipt_ref" | "created_at" | "updated_at">): Promise<ReceivingOrder>;
+	getById(id: string): Promise<ReceivingOrder & { lines: ReceivingOrderLine[] }>;
+	/** The receipt ref never changes */
+	update(
+		id: string,
+		updates: Partial<Omit<ReceivingOrder, "receipt_ref">>,
+		options?: AuditOptions
+	): Promise<ReceivingOrder>;
+	createLines(lines: Omit<ReceivingOrderLine, "id">[]): Promise<ReceivingOrderLine[]>;
+	list(): Promise<(ReceivingOrder & { lines?: ReceivingOrderLine[] })[]>;
+	getAll(): Promise<ReceivingOrder[]>;
+	/** Orders matching the filters, newest first */
+	query(filters: ReceivingOrderFilters): Promise<ReceivingOrder[]>;
+	/** Atomically stage the order after tally; 100% SHIP-NOW tallies move their shipping orders to Loading */
+	finishTally(id: string): Promise<FinishTallyResult>;
+	/** Atomically mark a Staged order Received, set finalized_at and stamp pallet received_at */
+	finalize(id: string): Promise<ReceivingOrder>;
+}
+
+/**
+ * Pallet operations
+ */
+export interface PalletsBackend {
+	/** The backend assigns the id and the next LPN */
+	create(pallet: Omit<Pallet, "id" | "lpn" | "created_at">): Promise<Pallet>;
+	getAll(): Promise<Pallet[]>;
+	getById(id: string): Promise<Pallet>;
+	/** Filter, sort and paginate in the backend */
+	query(query: PalletQuery): Promise<PalletPage>;
+	update(id: string, updates: PalletUpdate, options?: AuditOptions): Promise<Pallet>;
+	delete(id: string, options?: AuditOptions): Promise<void>;
+	/** Atomically move qtys off a pallet onto new pallets that keep its lineage */
+	split(id: string, qtys: number[], options?: AuditOptions): Promise<PalletSplitResult>;
+	/** Atomically move the qty of the other pallets onto the first; the others become Merged */
+	merge(ids: string[], options?: AuditOptions): Promise<Pallet>;
+}
+
+/**
+ * Adjustment as written by wmsApi; the backend reads the pallet's qty and
+ * assigns item_id, qty_before/qty_after, id and timestamp
+ */
+export type InventoryAdjustmentInput = Pick<
+	InventoryAdjustment,
+	"pallet_id" | "qty_change" | "reason" | "notes" | "photo_path" | "created_by" | "created_by_email"
+>;
+
+/**
+ * Inventory adjustment search criteria
+ */
+export interface InventoryAdjustmentFilters {
+	pallet_id?: string;
+	item_id?: string;
+	reason?: AdjustmentReason;
+	created_at?: DateRange;
+}
+
+/**
+ * Inventory adjustment operations (adjustments are never edited or deleted)
+ */
+export interface AdjustmentsBackend {
+	/** Atomically change the pallet's qty by qty_change and record the adjustment */
+	create(adjustment: InventoryAdjustmentInput): Promise<InventoryAdjustment>;
+	/** Adjustments matching the filters, newest first */
+	query(filters: InventoryAdjustmentFilters): Promise<InventoryAdjustment[]>;
+}
+
+/**
+ * Write-off request as written by wmsApi; the backend reads the pallet's
+ * item and qty and assigns id, status and timestamp
+ */
+export type WriteOffRequestInput = Pick<
+	WriteOffRequest,
+	"pallet_id" | "reason" | "notes" | "requested_by" | "requested_by_email"
+>;
+
+/**
+ * Who approved, rejected or reversed a request (write-off, cycle count), and why
+ */
+export interface ApprovalDecision {
+	actor_id: string | null;
+	actor_email: string | null;
+	notes?: string;
+}
+
+/**
+ * Write-off request search criteria
+ */
+export interface WriteOffFilters {
+	/** Any of these statuses */
+	status?: WriteOffRequest["status"][];
+	pallet_id?: string;
+	requested_at?: DateRange;
+}
+
+/**
+ * Write-off approval operations (requests are never deleted)
+ */
+export interface WriteOffsBackend {
+	/** Record a pending write-off request; the pallet is not changed yet */
+	request(request: WriteOffRequestInput): Promise<WriteOffRequest>;
+	/** Atomically mark the request Approved and set the pallet to WriteOff, off its location */
+	approve(id: string, decision: ApprovalDecision): Promise<WriteOffRequest>;
+	/** Mark the request Rejected; the pallet is not changed */
+	reject(id: string, decision: ApprovalDecision): Promise<WriteOffRequest>;
+	/** Atomically mark the request Reversed and restore the pallet's prior status and location */
+	reverse(id: string, decision: ApprovalDecision): Promise<WriteOffRequest>;
+	/** Requests matching the filters, newest first */
+	query(filters: WriteOffFilters): Promise<WriteOffRequest[]>;
+}
+
+/**
+ * Cycle count task as written by wmsApi; the backend works out the locations
+ * to count from the scope
+ */
+export type CycleCountInput = Pick<
+	CycleCount,
+	"scope" | "rack" | "from_location_id" | "to_location_id" | "item_id" | "notes" | "created_by" | "created_by_email"
+>;
+
+/**
+ * One pallet counted on the tablet
+ */
+export interface CycleCountEntry {
+	location_id: string;
+	/** Full pallet ID or its last 8 characters */
+	pallet_id: string;
+	qty: number;
+}
+
+/**
+ * Cycle count with its lines
+ */
+export type CycleCountWithLines = CycleCount & { lines: CycleCountLine[] };
+
+/**
+ * What approving a cycle count posted
+ */
+export interface CycleCountApproval {
+	count: CycleCount;
+	/** Count Correction adjustments of pallets with a qty variance */
+	adjustments: InventoryAdjustment[];
+	/** Write-off requests for pallets that were not found */
+	writeOffRequests: WriteOffRequest[];
+	/** Pallets found somewhere else, moved to where they were counted */
+	moves: { pallet_id: string; from: string | null; to: string }[];
+}
+
+/**
+ * Cycle count search criteria
+ */
+export interface CycleCountFilters {
+	/** Any of these statuses */
+	status?: CycleCount["status"][];
+}
+
+/**
+ * Cycle count operations (counts are never deleted)
+ */
+export interface CycleCountsBackend {
+	/** Create an Open count task over the locations its scope covers */
+	create(count: CycleCountInput): Promise<CycleCount>;
+	getById(id: string): Promise<CycleCountWithLines>;
+	/** Counts matching the filters, newest first */
+	query(filters: CycleCountFilters): Promise<CycleCount[]>;
+	/** Compare the blind count with the system and record the lines; counts without variances are approved straight away */
+	submit(
+		id: string,
+		entries: CycleCountEntry[],
+		counter: Omit<ApprovalDecision, "notes">
+	): Promise<CycleCountWithLines>;
+	/** Atomically approve the variances: adjust qtys, move misplaced pallets and request write-offs of missing ones */
+	approve(id: string, decision: ApprovalDecision): Promise<CycleCountApproval>;
+	/** Reject the variances; nothing is posted */
+	reject(id: string, decision: ApprovalDecision): Promise<CycleCount>;
+}
+
+/**
+ * Shipping order operations
+ */
+export interface ShippingOrdersBackend {
+	create(order: Omit<ShippingOrder, "id" | "created_at">): Promise<ShippingOrder>;
+	getAll(): Promise<(ShippingOrder & { lines?: ShippingOrderLine[] })[]>;
+	getById(id: string): Promise<ShippingOrder & { lines: ShippingOrderLine[] }>;
+	update(id: string, updates: Partial<ShippingOrder>, options?: AuditOptions): Promise<ShippingOrder>;
+	createLines(lines: Omit<ShippingOrderLine, "id">[]): Promise<ShippingOrderLine[]>;
+	/** Atomically cancel the order and release its pallets back to Received (forcing put-away) */
+	cancelOrder(id: string, options?: AuditOptions): Promise<ShippingOrder>;
+}
+
+/**
+ * Warehouse operations
+ */
+export interface WarehousesBackend {
+	getDefault(): Promise<Warehouse>;
+}
+
+/**
+ * New location (see generateLocations)
+ */
+export type LocationInput = Omit<Location, "created_at">;
+
+/**
+ * Flags an Admin changes on a location: block/unblock, retire/reactivate
+ */
+export type LocationUpdate = Partial<Pick<Location, "is_active" | "is_blocked">>;
+
+/**
+ * Location operations
+ */
+export interface LocationsBackend {
+	/** Locations by ID (all locations when omitted), in one query */
+	getAll(location_ids?: string[]): Promise<Location[]>;
+	getById(location_id: string): Promise<Location>;
+	/** Resolve rack/level/position (or "AISLE" + zone number) to a location */
+	resolve(warehouse_id: string, rack: number | string, level: number, position: string): Promise<Location>;
+	/** Add locations; ones whose location_id already exists are skipped. Returns the added ones */
+	create(locations: LocationInput[]): Promise<Location[]>;
+	/** Apply the same flags to every listed location, all or nothing (retiring an occupied location fails) */
+	update(location_ids: string[], updates: LocationUpdate): Promise<Location[]>;
+}
+
+/**
+ * File storage operations ("receiving", "shipping", "manifests" and "adjustments" buckets)
+ */
+export interface StorageBackend {
+	upload(bucket: string, path: string, file: File): Promise<string>;
+	download(bucket: string, path: string): Promise<Blob>;
+	delete(bucket: string, path: string): Promise<void>;
+	/** List file names directly inside a folder of the bucket */
+	list(bucket: string, folder: string): Promise<string[]>;
+	getPublicUrl(bucket: string, path: string): string;
+	getReceivingOrderCSV(receivingOrderId: string): Promise<string>;
+}
+
+/**
+ * Email operations
+ */
+export interface EmailBackend {
+	send(to: string, subject: string, body: string, attachments?: EmailAttachment[]): Promise<boolean>;
+}
+
+/**
+ * Manifest operations (containers & hand deliveries)
+ */
+export interface ManifestsBackend {
+	create(manifest: Omit<Manifest, "id" | "created_at">): Promise<Manifest>;
+	getById(id: string): Promise<Manifest>;
+	getAll(): Promise<Manifest[]>;
+	getFiltered(filters: { type?: string; status?: string }): Promise<Manifest[]>;
+	update(id: string, updates: Partial<Manifest>, options?: AuditOptions): Promise<Manifest>;
+	/** Atomically close the manifest, ship its Loaded pallets and ship fully contained Completed orders */
+	closeAndShip(id: string): Promise<Manifest>;
+}
+
+/**
+ * Audit event before the backend assigns its id and timestamp
+ */
+export type AuditEventInput = Omit<AuditEvent, "id" | "created_at">;
+
+/**
+ * Audit trail search criteria
+ */
+export interface AuditEventFilters {
+	entity_type?: AuditEntityType;
+	/** Exact pallet/order/manifest id */
+	entity_id?: string;
+	action?: string;
+	/** Case-insensitive match on the actor's email */
+	actor?: string;
+	created_at?: DateRange;
+	/** Max rows returned, newest first (default 500) */
+	limit?: number;
+}
+
+/**
+ * Audit trail operations
+ *
+ * Read-only: the backend records an event for every pallet, order and manifest
+ * change itself, in the same transaction as the change (triggers in Supabase).
+ * Mutations take AuditOptions for the reason.
+ */
+export interface AuditBackend {
+	query(filters: AuditEventFilters): Promise<AuditEvent[]>;
+}
+
+/**
+ * Tables whose changes are pushed to subscribers
+ */
+export type WmsTable =
+	| "receiving_orders"
+	| "receiving_order_lines"
+	| "shipping_orders"
+	| "shipping_order_lines"
+	| "pallets"
+	| "manifests";
+
+/**
+ * A table to watch, optionally only rows whose column equals a value
+ */
+export interface WmsSubscription {
+	table: WmsTable;
+	/** e.g. { column: "receiving_order_id", value: orderId } (not applied to Supabase DELETE events) */
+	filter?: { column: string; value: string };
+}
+
+/**
+ * One change pushed to a subscriber
+ */
+export interface WmsChange {
+	table: WmsTable;
+	/** POLL: a polling-fallback tick; the data may or may not have changed */
+	eventType: "INSERT" | "UPDATE" | "DELETE" | "POLL";
+	/** New row (INSERT/UPDATE), old row (DELETE) or null (POLL) */
+	record: Record<string, unknown> | null;
+}
+
+/**
+ * Channel health reported by the adapter: live, or failed (the caller falls back to polling)
+ */
+export type RealtimeStatus = "live" | "failed";
+
+/**
+ * Realtime change feed
+ */
+export interface RealtimeBackend {
+	/**
+	 * Push row changes of the given tables to the listener
+	 *
+	 * @returns Unsubscribe function
+	 */
+	subscribe(
+		subscriptions: WmsSubscription[],
+		listener: (change: WmsChange) => void,
+		onStatus: (status: RealtimeStatus) => void
+	): () => void;
+}
+
+/**
+ * Complete backend adapter
+ */
+export interface WmsBackend {
+	/** Adapter name, shown in diagnostics */
+	name: string;
+	products: ProductsBackend;
+	receivingOrderLines: ReceivingOrderLinesBackend;
+	receivingOrders: ReceivingOrdersBackend;
+	pallets: PalletsBackend;
+	adjustments: AdjustmentsBackend;
+	writeOffs: WriteOffsBackend;
+	cycleCounts: CycleCountsBackend;
+	shippingOrders: ShippingOrdersBackend;
+	warehouses: WarehousesBackend;
+	locations: LocationsBackend;
+	storage: StorageBackend;
+	email: EmailBackend;
+	manifests: ManifestsBackend;
+	audit: AuditBackend;
+	realtime: RealtimeBackend;
+}
@@ -0,0 +1,149 @@
+/**
+ * Write-Off Approval Rules
+ *
+ * Writing a pallet off takes two people: Warehouse (or CS) requests it with a
+ * reason, and an Admin or Customer Service lead approves or rejects it. Only
+ * approval sets the pallet to WriteOff (and takes it off its location and
+ * shipping order). An approved write-off can be reversed, which puts the
+ * pallet back in the status and location it had before when it can go there
+ * (see getWriteOffReversalTarget).
+ *
+ * Both backends check these rules inside their transaction (the Supabase RPC
+ * functions repeat them in SQL and also check the approver's role).
+ *
+ * @module lib/api/writeOffs
+ */
+
+import type { Location, Pallet, WriteOffReason, WriteOffRequest } from "../../types/domain";
+import { isCountable } from "./cycle-counts";
+import { ConflictError } from "./errors";
+import { isUsableLocation } from "./location-layout";
+import { getAllowedTransitions } from "./status-machine";
+import type { WriteOffFilters } from "./wms-backend";
+
+/** Reason codes, in the order they are offered */
+export const WRITE_OFF_REASONS = ["Damaged", "Lost", "Count Correction"] as const satisfies readonly WriteOffReason[];
+
+/**
+ * Check whether a pallet in this status may be written off
+ */
+export function canWriteOff(status: Pallet["status"]): boolean {
+	return getAllowedTransitions("pallet", status).includes("WriteOff");
+}
+
+/**
+ * Check whether a user may approve, reject and reverse write-offs
+ *
+ * @param user - Signed-in user
+ * @returns True for Admins and Customer Service leads
+ */
+export function canApproveWriteOffs(user: { role: string; is_lead?: boolean } | null): boolean {
+	if (!user) return false;
+	return user.role === "Admin" || (user.role === "Customer Service" && !!user.is_lead);
+}
+
+/**
+ * Check a write-off can be requested for a pallet
+ *
+ * @param pallet - Pallet to write off
+ * @param requests - The pallet's existing write-off requests
+ * @throws ConflictError if the pallet cannot be written off or already has a pending request
+ */
+export function assertWriteOffRequestable(pallet: Pallet, requests: WriteOffRequest[]): void {
+	if (!canWriteOff(pallet.status)) {
+		throw new ConflictError(`Cannot write off a ${pallet.status} pallet`);
+	}
+	if (requests.some((request) => request.pallet_id === pallet.id && request.status === "Pending")) {
+		throw new ConflictError("This pallet already has a pending write-off request");
+	}
+}
+
+/**
+ * Check a request is pending before it is approved or rejected
+ *
+ * @param request - Write-off request
+ * @param action - "approve" or "reject", for the message
+ * @throws ConflictError if the request was already decided
+ */
+export function assertWriteOffPending(request: WriteOffRequest, action: "approve" | "reject"): void {
+	if (request.status !== "Pending") {
+		throw new ConflictError(`Cannot ${action} a write-off request that is ${request.status}`);
+	}
+}
+
+/**
+ * Check an approved write-off can be reversed
+ *
+ * @param request - Write-off request
+ * @param pallet - The written-off pallet
+ * @throws ConflictError if the request is not approved or the pallet is no longer written off
+ */
+export function assertWriteOffReversible(request: WriteOffRequest, pallet: Pallet): void {
+	if (request.status !== "Approved") {
+		throw new ConflictError(`Cannot reverse a write-off request that is ${request.status}`);
+	}
+	if (pallet.status !== "WriteOff" || !request.prior_status) {
+		throw new ConflictError("Pallet is no longer written off");
+	}
+}
+
+/** Prior statuses a reversal restores; Staged and Loaded pallets lost their shipping order at approval */
+const RESTORABLE_STATUSES = new Set<Pallet["status"]>(["Received", "Stored"]);
+
+/**
+ * Status and location a reversed write-off puts the pallet back in
+ *
+ * The pallet returns to its prior status and location when that location is
+ * still active, unblocked and empty. Otherwise it comes back as Received with
+ * no location, to be put away again.
+ *
+ * @param request - Approved write-off request
+ * @param pallet - The written-off pallet
+ * @param locations - All locations
+ * @param pallets - All pallets
+ */
+export function getWriteOffReversalTarget(
+	request: WriteOffRequest,
+	pallet: Pallet,
+	locations: Location[],
+	pallets: Pallet[]
+): { status: Pallet["status"]; location_id: string | null } {
+	const { prior_status: priorStatus } = request;
+	const locationId = request.prior_location_id ?? null;
+	const location = locationId ? locations.find((l) => l.location_id === locationId) : undefined;
+	const locationFree =
+		!locationId ||
+		(!!location &&
+			isUsableLocation(location) &&
+			!pallets.some((p) => p.id !== pallet.id && p.location_id === locationId && isCountable(p)));
+	if (priorStatus && RESTORABLE_STATUSES.has(priorStatus) && locationFree) {
+		return { status: priorStatus, location_id: locationId };
+	}
+	return { status: "Received", location_id: null };
+}
+
+/**
+ * Audit reason for a write-off: reason code plus notes
+ */
+export function describeWriteOff(request: Pick<WriteOffRequest, "reason" | "notes">): string {
+	const notes = request.notes?.trim();
+	return notes ? `${request.reason}: ${notes}` : request.reason;
+}
+
+/**
+ * Check a write-off request against search criteria
+ *
+ * The status list matches any of its statuses; the date range applies to requested_at.
+ *
+ * @param request - Write-off request
+ * @param filters - Search criteria
+ * @returns True if the request matches every given filter
+ */
+export function matchesWriteOffFilters(request: WriteOffRequest, filters: WriteOffFilters): boolean {
+	if (filters.status && !filters.status.includes(request.status)) return false;
+	if (filters.pallet_id && request.pallet_id !== filters.pallet_id) return false;
+	const time = Date.parse(request.requested_at);
+	if (filters.requested_at?.from && time < Date.parse(filters.requested_at.from)) return false;
+	if (filters.requested_at?.to && time > Date.parse(filters.requested_at.to)) return false;
+	return true;
+}
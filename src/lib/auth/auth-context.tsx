@@ -1,6 +1,7 @@
 import React, { createContext, ReactNode, useContext, useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 
+import { setAuditActor } from "@/lib/api/audit";
 import { authClient, AuthUser } from "@/lib/api/auth-client";
 
 interface AuthContextType {
@@ -56,6 +57,11 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 		};
 	}, []);
 
+	// Record the signed-in user on audit trail entries
+	useEffect(() => {
+		setAuditActor(user ? { id: user.id, email: user.email } : null);
+	}, [user]);
+
 	const login = async (email: string, password: string) => {
 		setIsLoading(true);
 		try {
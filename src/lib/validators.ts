@@ -9,6 +9,8 @@
 
 import { z } from "zod";
 
+import { ADJUSTMENT_REASONS } from "./api/inventory-adjustments";
+
 /**
  * Login form schema
  */
@@ -149,11 +151,28 @@ export type DateRangeFormData = z.infer<typeof dateRangeSchema>;
 
 /**
  * Inventory adjustment schema
+ *
+ * qty_change is signed: negative takes units off the pallet, positive adds
+ * found units. Notes are required when the reason is Other. Whether the
+ * pallet can take the change is checked against its qty by the dialog and the
+ * backend (assertAdjustable).
  */
-export const inventoryAdjustmentSchema = z.object({
-	pallet_id: z.string().min(1, "Pallet is required"),
-	reason: z.enum(["Damaged", "Lost", "Count Correction"]),
-	notes: z.string().optional(),
-});
+export const inventoryAdjustmentSchema = z
+	.object({
+		pallet_id: z.string().min(1, "Pallet is required"),
+		qty_change: z
+			.number({ invalid_type_error: "Quantity change is required" })
+			.int("Quantity change must be a whole number")
+			.refine((qty) => qty !== 0, "Quantity change cannot be 0"),
+		reason: z.enum(ADJUSTMENT_REASONS, {
+			errorMap: () => ({ message: "Please select a reason" }),
+		}),
+		notes: z.string().optional(),
+		photo: z.instanceof(File).optional(),
+	})
+	.refine((data) => data.reason !== "Other" || !!data.notes?.trim(), {
+		message: "Notes are required when the reason is Other",
+		path: ["notes"],
+	});
 
 export type InventoryAdjustmentFormData = z.infer<typeof inventoryAdjustmentSchema>;
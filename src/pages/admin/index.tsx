@@ -1,7 +1,36 @@
 import React from "react";
+import { Box, Typography } from "@mui/material";
+import { Navigate } from "react-router-dom";
 
-import { PlaceholderPage } from "@/components/placeholder-page";
+import { paths } from "@/paths";
+import { useAuth } from "@/lib/auth/auth-context";
+import { AuditTrail } from "@/components/admin/audit-trail";
+import { LocationManager } from "@/components/admin/location-manager";
 
 export function Page() {
-	return <PlaceholderPage title="Admin" description="System administration and user management" />;
+	const { user } = useAuth();
+
+	if (user?.role !== "Admin") {
+		return <Navigate to={paths.notAuthorized} replace />;
+	}
+
+	return (
+		<Box sx={{ p: 3 }}>
+			<Typography variant="h5" sx={{ fontWeight: 600, mb: 3 }}>
+				Admin
+			</Typography>
+
+			<Typography variant="h6" sx={{ mb: 2 }}>
+				Locations
+			</Typography>
+			<Box sx={{ mb: 4 }}>
+				<LocationManager />
+			</Box>
+
+			<Typography variant="h6" sx={{ mb: 2 }}>
+				Audit Trail
+			</Typography>
+			<AuditTrail />
+		</Box>
+	);
 }
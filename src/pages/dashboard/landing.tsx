@@ -19,6 +19,7 @@ import { appConfig } from "@/config/app";
 import { paths } from "@/paths";
 import { receivingOrders, shippingOrders } from "@/lib/api/wms-api";
 import { useAuth } from "@/lib/auth/use-auth";
+import { RackOccupancy } from "@/components/dashboard/overview/rack-occupancy";
 
 const metadata = { title: `${appConfig.name} - Dashboard` } satisfies Metadata;
 
@@ -174,6 +175,9 @@ export function Page(): React.JSX.Element {
 						</Grid>
 					</Box>
 
+					{/* Rack Occupancy */}
+					<RackOccupancy />
+
 					{/* Quick Actions */}
 					<Box>
 						<Typography variant="h5" sx={{ mb: 2 }}>
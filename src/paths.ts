@@ -25,6 +25,10 @@ export const paths = {
 		screen13: "/warehouse/manifest",
 		screen14: "/warehouse/billing-report",
 		screen15: "/warehouse/inventory-adjustments",
+		screen16: "/warehouse/adjustments-report",
+		screen17: "/warehouse/write-off-approvals",
+		screen18: "/warehouse/cycle-counts",
+		screen19: "/warehouse/cycle-count",
 	},
 	brokerage: "/brokerage",
 	documents: "/documents",
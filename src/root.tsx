@@ -16,6 +16,7 @@ import { ErrorBoundary } from "@/components/core/error-boundary/error-boundary";
 import { I18nProvider } from "@/components/core/i18n-provider";
 import { LocalizationProvider } from "@/components/core/localization-provider";
 import { ToastProvider } from "@/components/core/notifications/simple-toast-provider";
+import { QueryProvider } from "@/components/core/query-provider";
 import { Rtl } from "@/components/core/rtl";
 import { SettingsButton } from "@/components/core/settings/settings-button";
 import { SettingsProvider } from "@/components/core/settings/settings-context";
@@ -44,26 +45,28 @@ export function Root({ children }: RootProps): React.JSX.Element {
 				<meta content={appConfig.themeColor} name="theme-color" />
 			</Helmet>
 			<ErrorBoundary>
-				<AuthProvider>
-					<Analytics>
-						<LocalizationProvider>
-							<SettingsProvider settings={settings}>
-								<I18nProvider>
-									<Rtl>
-										<ThemeProvider>
-											<ToastProvider>
-												{children}
-												<SettingsButton />
-												<EnvIndicator />
-												<FeatureFlagAdmin />
-											</ToastProvider>
-										</ThemeProvider>
-									</Rtl>
-								</I18nProvider>
-							</SettingsProvider>
-						</LocalizationProvider>
-					</Analytics>
-				</AuthProvider>
+				<QueryProvider>
+					<AuthProvider>
+						<Analytics>
+							<LocalizationProvider>
+								<SettingsProvider settings={settings}>
+									<I18nProvider>
+										<Rtl>
+											<ThemeProvider>
+												<ToastProvider>
+													{children}
+													<SettingsButton />
+													<EnvIndicator />
+													<FeatureFlagAdmin />
+												</ToastProvider>
+											</ThemeProvider>
+										</Rtl>
+									</I18nProvider>
+								</SettingsProvider>
+							</LocalizationProvider>
+						</Analytics>
+					</AuthProvider>
+				</QueryProvider>
 			</ErrorBoundary>
 		</HelmetProvider>
 	);
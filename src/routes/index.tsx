@@ -154,6 +154,49 @@ export const routes: RouteObject[] = [
 					React.lazy(() => import("@/components/screens/Screen15").then((module) => ({ default: module.default })))
 				),
 			},
+			{
+				path: "adjustments-report",
+				element: React.createElement(
+					React.lazy(() => import("@/components/screens/Screen16").then((module) => ({ default: module.default })))
+				),
+			},
+			{
+				path: "write-off-approvals",
+				element: React.createElement(
+					React.lazy(() => import("@/components/screens/Screen17").then((module) => ({ default: module.default })))
+				),
+			},
+			{
+				path: "cycle-counts",
+				element: React.createElement(
+					React.lazy(() => import("@/components/screens/Screen18").then((module) => ({ default: module.default })))
+				),
+			},
+			{
+				path: "cycle-count",
+				element: React.createElement(
+					React.lazy(() => import("@/components/screens/Screen19").then((module) => ({ default: module.default })))
+				),
+			},
+		],
+	},
+	{
+		path: "admin",
+		element: (
+			<RequireAuth>
+				<DashboardWrapper>
+					<Outlet />
+				</DashboardWrapper>
+			</RequireAuth>
+		),
+		children: [
+			{
+				index: true,
+				lazy: async () => {
+					const { Page } = await import("@/pages/admin");
+					return { Component: Page };
+				},
+			},
 		],
 	},
 	{
@@ -14,6 +14,8 @@ export interface User {
 	id: string;
 	email: string;
 	role: "Customer Service" | "Warehouse" | "Admin";
+	/** Customer Service lead (may approve write-offs) */
+	is_lead?: boolean;
 }
 
 /**
@@ -29,11 +31,25 @@ export interface Product {
 	created_at: string;
 }
 
+/**
+ * Pallet spec of a product from a point in time on; a new version is
+ * recorded whenever units_per_pallet or pallet_positions changes
+ */
+export interface ProductVersion {
+	id: string;
+	item_id: string;
+	units_per_pallet: number;
+	pallet_positions: number;
+	effective_from: string;
+}
+
 /**
  * Receiving order header
  */
 export interface ReceivingOrder {
 	id: string;
+	/** Receipt reference (RCV-2026-0042): sequential per year, assigned on create */
+	receipt_ref: string;
 	container_num: string;
 	seal_num: string;
 	status: "Pending" | "Unloading" | "Staged" | "Received";
@@ -41,6 +57,7 @@ export interface ReceivingOrder {
 	expected_items_count?: number;
 	created_at: string;
 	created_by: string;
+	finalized_at?: string;
 	lines?: ReceivingOrderLine[];
 }
 
@@ -60,9 +77,12 @@ export interface ReceivingOrderLine {
  */
 export interface Pallet {
 	id: string;
+	/** License plate number (W1-P-000123): sequential per warehouse, assigned on create */
+	lpn: string;
 	item_id: string;
 	qty: number;
-	status: "Received" | "Stored" | "Staged" | "Loaded" | "Shipped" | "WriteOff";
+	/** Merged: combined into another pallet (merged_into_id), kept for history and billing */
+	status: "Received" | "Stored" | "Staged" | "Loaded" | "Shipped" | "WriteOff" | "Merged";
 	location_id?: string;
 	shipping_order_id?: string;
 	receiving_order_id?: string;
@@ -70,9 +90,126 @@ export interface Pallet {
 	manifest_id?: string;
 	received_at?: string;
 	shipped_at?: string;
+	/** Pallet this one was split off (its qty was received on that pallet) */
+	split_from_id?: string;
+	/** Pallet a Merged pallet was combined into */
+	merged_into_id?: string;
 	created_at: string;
 }
 
+/**
+ * Why a pallet's qty was adjusted
+ */
+export type AdjustmentReason = "Damaged" | "Lost" | "Found" | "Count Correction" | "Receiving Error" | "Other";
+
+/**
+ * Partial qty correction of a pallet (up or down), recorded with its reason
+ */
+export interface InventoryAdjustment {
+	id: string;
+	pallet_id: string;
+	item_id: string;
+	qty_before: number;
+	qty_after: number;
+	/** qty_after - qty_before: negative takes units off, positive adds found units */
+	qty_change: number;
+	reason: AdjustmentReason;
+	notes?: string;
+	/** Photo in the "adjustments" storage bucket */
+	photo_path?: string;
+	created_by: string | null;
+	created_by_email: string | null;
+	created_at: string;
+}
+
+/**
+ * Why a pallet is written off
+ */
+export type WriteOffReason = Extract<AdjustmentReason, "Damaged" | "Lost" | "Count Correction">;
+
+/**
+ * Request to write a whole pallet off; the pallet only becomes WriteOff once
+ * an Admin or Customer Service lead approves it
+ */
+export interface WriteOffRequest {
+	id: string;
+	pallet_id: string;
+	item_id: string;
+	qty: number;
+	reason: WriteOffReason;
+	notes?: string;
+	status: "Pending" | "Approved" | "Rejected" | "Reversed";
+	requested_by: string | null;
+	requested_by_email: string | null;
+	requested_at: string;
+	decided_by?: string | null;
+	decided_by_email?: string | null;
+	decided_at?: string;
+	decision_notes?: string;
+	/** Pallet status and location before approval, restored by a reversal */
+	prior_status?: Pallet["status"];
+	prior_location_id?: string | null;
+	reversed_by?: string | null;
+	reversed_by_email?: string | null;
+	reversed_at?: string;
+	reversal_notes?: string;
+}
+
+/**
+ * What a cycle count covers: a whole rack, a range of rack locations, or
+ * every location holding an item
+ */
+export type CycleCountScope = "Rack" | "Range" | "Item";
+
+/**
+ * Cycle count task: Warehouse counts its locations blind, Customer Service
+ * approves the variances
+ */
+export interface CycleCount {
+	id: string;
+	scope: CycleCountScope;
+	/** Rack scope */
+	rack?: number;
+	/** Range scope: first and last rack location, in rack/level/position order */
+	from_location_id?: string;
+	to_location_id?: string;
+	/** Item scope */
+	item_id?: string;
+	/** Locations to count, fixed when the task is created */
+	location_ids: string[];
+	status: "Open" | "Submitted" | "Approved" | "Rejected";
+	notes?: string;
+	created_by: string | null;
+	created_by_email: string | null;
+	created_at: string;
+	counted_by?: string | null;
+	counted_by_email?: string | null;
+	counted_at?: string;
+	decided_by?: string | null;
+	decided_by_email?: string | null;
+	decided_at?: string;
+	decision_notes?: string;
+}
+
+/**
+ * Counted (or expected but missing) pallet of a submitted cycle count
+ */
+export interface CycleCountLine {
+	id: string;
+	cycle_count_id: string;
+	pallet_id: string;
+	item_id: string;
+	/** Where the pallet was counted; null if it was not found */
+	location_id: string | null;
+	/** Where the system had the pallet when the count was submitted */
+	system_location_id: string | null;
+	system_qty: number;
+	/** 0 if the pallet was not found */
+	counted_qty: number;
+	/** counted_qty - system_qty */
+	qty_variance: number;
+}
+
 /**
  * Shipping order header
  */
@@ -149,6 +286,30 @@ export interface EmailLog {
 	created_at: string;
 }
 
+/**
+ * Entity types tracked by the audit trail
+ */
+export type AuditEntityType = "pallet" | "receiving_order" | "shipping_order" | "manifest";
+
+/**
+ * Audit trail entry: one mutation of a pallet, order or manifest
+ */
+export interface AuditEvent {
+	id: string;
+	entity_type: AuditEntityType;
+	entity_id: string;
+	/** e.g. create, update, move, status_change, write_off, cancel, delete */
+	action: string;
+	actor_id: string | null;
+	actor_email: string | null;
+	/** Changed fields before the mutation (null for create) */
+	before: Record<string, unknown> | null;
+	/** Changed fields after the mutation (null for delete) */
+	after: Record<string, unknown> | null;
+	reason: string | null;
+	created_at: string;
+}
+
 /**
  * Billing metric
  */
@@ -85,6 +85,7 @@ describe("Types - Runtime Validation", () => {
 	it("should create valid ReceivingOrder object", () => {
 		const order: ReceivingOrder = {
 			id: "order-123",
+			receipt_ref: "RCV-2026-0042",
 			container_num: "CONT123",
 			seal_num: "SEAL123",
 			status: "Pending",
@@ -98,6 +99,7 @@ describe("Types - Runtime Validation", () => {
 	it("should create valid Pallet object", () => {
 		const pallet: Pallet = {
 			id: "pallet-123",
+			lpn: "W1-P-000001",
 			item_id: "PROD-001",
 			qty: 100,
 			status: "Stored",
@@ -23,6 +23,7 @@ import {
 	calculateOutPalletPositions,
 	calculateStoragePalletPositions,
 } from "./billing";
+import { getSpecAt, indexProductVersions } from "./product-versions";
 
 describe("Billing Calculations", () => {
 	describe("calculateDayCount", () => {
@@ -59,6 +60,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product } = {
 				id: "pallet-001",
+				lpn: "W1-P-000001",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Stored",
@@ -91,6 +93,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product } = {
 				id: "pallet-001",
+				lpn: "W1-P-000002",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Shipped",
@@ -123,6 +126,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product } = {
 				id: "pallet-001",
+				lpn: "W1-P-000003",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Stored",
@@ -156,6 +160,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product } = {
 				id: "pallet-001",
+				lpn: "W1-P-000004",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Stored",
@@ -191,6 +196,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product } = {
 				id: "pallet-001",
+				lpn: "W1-P-000005",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Stored",
@@ -222,6 +228,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product } = {
 				id: "pallet-001",
+				lpn: "W1-P-000006",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Stored",
@@ -255,6 +262,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product } = {
 				id: "pallet-001",
+				lpn: "W1-P-000007",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Stored",
@@ -297,6 +305,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product; shippingOrder?: ShippingOrder } = {
 				id: "pallet-001",
+				lpn: "W1-P-000008",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Shipped",
@@ -338,6 +347,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product; shippingOrder?: ShippingOrder } = {
 				id: "pallet-001",
+				lpn: "W1-P-000009",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Shipped",
@@ -380,6 +390,7 @@ describe("Billing Calculations", () => {
 
 			const mockPallet: Pallet & { product?: Product; shippingOrder?: ShippingOrder } = {
 				id: "pallet-001",
+				lpn: "W1-P-000010",
 				item_id: "ITEM-001",
 				qty: 100,
 				status: "Shipped",
@@ -411,4 +422,125 @@ describe("Billing Calculations", () => {
 			expect(result.hand_delivery_pallet_positions).toBe(0);
 		});
 	});
+
+	describe("effective-dated product specs", () => {
+		const product: Product = {
+			id: "prod-001",
+			item_id: "ITEM-001",
+			description: "Test Product",
+			pallet_positions: 3,
+			units_per_pallet: 100,
+			active: true,
+			created_at: "2025-10-01T00:00:00",
+		};
+		// 1 position until Nov 4, 2 from Nov 4, 3 (today's spec) from Dec 1
+		const versions = indexProductVersions([
+			{
+				id: "v3",
+				item_id: "ITEM-001",
+				units_per_pallet: 100,
+				pallet_positions: 3,
+				effective_from: "2025-12-01T09:00:00",
+			},
+			{
+				id: "v1",
+				item_id: "ITEM-001",
+				units_per_pallet: 100,
+				pallet_positions: 1,
+				effective_from: "2025-10-01T00:00:00",
+			},
+			{
+				id: "v2",
+				item_id: "ITEM-001",
+				units_per_pallet: 50,
+				pallet_positions: 2,
+				effective_from: "2025-11-04T15:30:00",
+			},
+		]);
+
+		it("resolves the spec in force at a point in time", () => {
+			expect(getSpecAt(product, versions, "2025-11-04T15:29:00")).toEqual({
+				units_per_pallet: 100,
+				pallet_positions: 1,
+			});
+			expect(getSpecAt(product, versions, "2025-11-20T00:00:00")).toEqual({
+				units_per_pallet: 50,
+				pallet_positions: 2,
+			});
+			// Before the first version, and items without history
+			expect(getSpecAt(product, versions, "2025-01-01T00:00:00").pallet_positions).toBe(1);
+			expect(getSpecAt({ ...product, item_id: "ITEM-002" }, versions, "2025-01-01T00:00:00").pallet_positions).toBe(3);
+		});
+
+		it("bills past periods with the spec in force on each day", () => {
+			const pallet: Pallet & { product?: Product } = {
+				id: "pallet-001",
+				lpn: "W1-P-000011",
+				item_id: "ITEM-001",
+				qty: 100,
+				status: "Stored",
+				location_id: "loc-001",
+				receiving_order_id: "recv-001",
+				is_cross_dock: false,
+				created_at: "2025-11-01T08:00:00",
+				product,
+			};
+
+			// Nov 1-3 at 1 position, Nov 4-5 at 2 (the change applies to the whole day)
+			const result = calculateAllBillingMetrics([pallet], "2025-11-01", "2025-11-05", versions);
+			expect(result.storage_pallet_positions).toBe(3 * 1 + 2 * 2);
+			expect(result.in_pallet_positions_standard).toBe(1);
+
+			// Without history, today's spec is used for the whole range
+			expect(calculateAllBillingMetrics([pallet], "2025-11-01", "2025-11-05").storage_pallet_positions).toBe(15);
+		});
+	});
+
+	describe("split and merged pallets", () => {
+		const product: Product = {
+			id: "prod-001",
+			item_id: "ITEM-001",
+			description: "Test Product",
+			pallet_positions: 1,
+			units_per_pallet: 100,
+			active: true,
+			created_at: "2025-10-01T00:00:00",
+		};
+		const source: Pallet & { product?: Product } = {
+			id: "pallet-001",
+			lpn: "W1-P-000012",
+			item_id: "ITEM-001",
+			qty: 60,
+			status: "Stored",
+			receiving_order_id: "recv-001",
+			is_cross_dock: false,
+			received_at: "2025-11-01T08:00:00",
+			created_at: "2025-11-01T08:00:00",
+			product,
+		};
+
+		it("bills a split pallet from the split onwards, not as inbound", () => {
+			const split = {
+				...source,
+				id: "pallet-002",
+				qty: 40,
+				split_from_id: source.id,
+				created_at: "2025-11-04T10:00:00",
+			};
+
+			const result = calculateAllBillingMetrics([source, split], "2025-11-01", "2025-11-05");
+			// Source Nov 1-5, split pallet Nov 4-5
+			expect(result.storage_pallet_positions).toBe(5 + 2);
+			expect(result.in_pallet_positions_standard).toBe(1);
+			expect(result.cross_dock_pallet_positions).toBe(0);
+		});
+
+		it("keeps a merged pallet's inbound but stops its storage", () => {
+			const merged = { ...source, id: "pallet-003", status: "Merged" as const, merged_into_id: source.id };
+
+			const result = calculateAllBillingMetrics([source, merged], "2025-11-01", "2025-11-05");
+			expect(result.storage_pallet_positions).toBe(5);
+			expect(result.in_pallet_positions_standard).toBe(2);
+		});
+	});
 });
@@ -10,9 +10,17 @@
  * 3. CrossDock_Pallet_Positions: SUM(pallet_positions) for pallets created via SHIP-NOW
  * 4. Out_Pallet_Positions_Standard: SUM(pallet_positions) for shipped pallets, is_cross_dock=false, shipment_type != Hand_Delivery
  * 5. HandDelivery_Pallet_Positions: SUM(pallet_positions) for pallets shipped via hand delivery
+ *
+ * pallet_positions is effective-dated: when product versions are passed, each
+ * pallet is billed with the spec in force on the day it was counted.
+ *
+ * Split and merge keep billing whole: a pallet split off another (split_from_id)
+ * was received on that pallet, so it is not billed as inbound again and is
+ * stored from the split onwards; Merged pallets stop accruing storage.
  */
 
 import type { Pallet, Product, ShippingOrder } from "../types/domain";
+import { getSpecAt, getSpecChangeDays, type ProductVersionIndex } from "./product-versions";
 
 export interface BillingMetrics {
 	storage_pallet_positions: number;
@@ -36,6 +44,37 @@ export function calculateDayCount(startDate: Date, endDate: Date): number {
 	return diffDays + 1;
 }
 
+/**
+ * pallet_positions of a pallet's product on a given date
+ */
+function positionsAt(product: Product, versions: ProductVersionIndex | undefined, at: Date | string): number {
+	return getSpecAt(product, versions, at).pallet_positions || 0;
+}
+
+/**
+ * Last moment of a day; a spec change applies to the whole day it was made on
+ */
+function endOfDay(day: Date): Date {
+	const end = new Date(day);
+	end.setHours(23, 59, 59, 999);
+	return end;
+}
+
+/**
+ * Sum of pallet_positions over each day from start to end (inclusive),
+ * splitting the range where the product's spec changed
+ */
+function positionDays(product: Product, versions: ProductVersionIndex | undefined, start: Date, end: Date): number {
+	let total = 0;
+	let segmentStart = start;
+	for (const changeDay of getSpecChangeDays(product.item_id, versions, start, end)) {
+		const days = calculateDayCount(segmentStart, changeDay) - 1;
+		total += days * positionsAt(product, versions, endOfDay(segmentStart));
+		segmentStart = changeDay;
+	}
+	return total + calculateDayCount(segmentStart, end) * positionsAt(product, versions, endOfDay(segmentStart));
+}
+
 /**
  * Calculate storage pallet positions
  * For each pallet physically in warehouse (Received, Stored, or Staged) during range: days_stored × pallet_positions
@@ -44,7 +83,8 @@ export function calculateDayCount(startDate: Date, endDate: Date): number {
 export function calculateStoragePalletPositions(
 	pallets: (Pallet & { product?: Product })[],
 	fromDate: Date,
-	toDate: Date
+	toDate: Date,
+	versions?: ProductVersionIndex
 ): number {
 	let total = 0;
 	const from = new Date(fromDate);
@@ -60,8 +100,9 @@ export function calculateStoragePalletPositions(
 		// Skip if no product info
 		if (!pallet.product) continue;
 
-		// For storage, use received_at or created_at as start date
-		const startDate = pallet.received_at ? new Date(pallet.received_at) : new Date(pallet.created_at);
+		// For storage, use received_at or created_at as start date (split pallets take a position from the split)
+		const startDate =
+			pallet.received_at && !pallet.split_from_id ? new Date(pallet.received_at) : new Date(pallet.created_at);
 
 		// If pallet was received after range end, skip it
 		if (startDate > to) continue;
@@ -70,16 +111,15 @@ export function calculateStoragePalletPositions(
 			// For single day: count all pallets present on that day
 			// Pallet is present if it was received on or before the range date
 			if (startDate <= to) {
-				total += pallet.product.pallet_positions || 0;
+				total += positionsAt(pallet.product, versions, to);
 			}
 		} else {
 			// For multi-day: calculate days stored within range
 			// Start from max(pallet received date, range start)
 			const storageStart = new Date(Math.max(startDate.getTime(), from.getTime()));
-			const daysStored = calculateDayCount(storageStart, to);
 
-			// Add to total: days × pallet_positions
-			total += daysStored * (pallet.product.pallet_positions || 0);
+			// Add to total: days × pallet_positions (in force on each day)
+			total += positionDays(pallet.product, versions, storageStart, to);
 		}
 	}
 
@@ -95,7 +135,8 @@ export function calculateStoragePalletPositions(
 export function calculateInPalletPositions(
 	pallets: (Pallet & { product?: Product })[],
 	fromDate: Date,
-	toDate: Date
+	toDate: Date,
+	versions?: ProductVersionIndex
 ): number {
 	let total = 0;
 
@@ -103,6 +144,9 @@ export function calculateInPalletPositions(
 		// Only count non-cross-dock pallets
 		if (pallet.is_cross_dock) continue;
 
+		// Split pallets were received as part of the pallet they came from
+		if (pallet.split_from_id) continue;
+
 		// Skip if no product info
 		if (!pallet.product) continue;
 
@@ -113,8 +157,8 @@ export function calculateInPalletPositions(
 		const palletDate = new Date(pallet.created_at);
 		if (palletDate < fromDate || palletDate > toDate) continue;
 
-		// Add pallet_positions to total
-		total += pallet.product.pallet_positions || 0;
+		// Add pallet_positions (as of receipt) to total
+		total += positionsAt(pallet.product, versions, palletDate);
 	}
 
 	return total;
@@ -128,7 +172,8 @@ export function calculateInPalletPositions(
 export function calculateCrossDockPalletPositions(
 	pallets: (Pallet & { product?: Product })[],
 	fromDate: Date,
-	toDate: Date
+	toDate: Date,
+	versions?: ProductVersionIndex
 ): number {
 	let total = 0;
 
@@ -136,6 +181,9 @@ export function calculateCrossDockPalletPositions(
 		// Only count cross-dock pallets
 		if (!pallet.is_cross_dock) continue;
 
+		// Split pallets were received as part of the pallet they came from
+		if (pallet.split_from_id) continue;
+
 		// Skip if no product info
 		if (!pallet.product) continue;
 
@@ -143,8 +191,8 @@ export function calculateCrossDockPalletPositions(
 		const palletDate = new Date(pallet.created_at);
 		if (palletDate < fromDate || palletDate > toDate) continue;
 
-		// Add pallet_positions to total
-		total += pallet.product.pallet_positions || 0;
+		// Add pallet_positions (as of receipt) to total
+		total += positionsAt(pallet.product, versions, palletDate);
 	}
 
 	return total;
@@ -158,7 +206,8 @@ export function calculateCrossDockPalletPositions(
 export function calculateOutPalletPositions(
 	pallets: (Pallet & { product?: Product; shippingOrder?: ShippingOrder })[],
 	fromDate: Date,
-	toDate: Date
+	toDate: Date,
+	versions?: ProductVersionIndex
 ): number {
 	let total = 0;
 
@@ -176,13 +225,14 @@ export function calculateOutPalletPositions(
 		if (pallet.shippingOrder && pallet.shippingOrder.shipment_type === "Hand_Delivery") continue;
 
 		// Filter by shipping date (use shippingOrder.created_at as proxy for manifest.closed_at)
+		let shippedDate = toDate;
 		if (pallet.shippingOrder) {
-			const shippedDate = new Date(pallet.shippingOrder.created_at);
+			shippedDate = new Date(pallet.shippingOrder.created_at);
 			if (shippedDate < fromDate || shippedDate > toDate) continue;
 		}
 
-		// Add pallet_positions to total
-		total += pallet.product.pallet_positions || 0;
+		// Add pallet_positions (as of shipping) to total
+		total += positionsAt(pallet.product, versions, shippedDate);
 	}
 
 	return total;
@@ -197,7 +247,8 @@ export function calculateOutPalletPositions(
 export function calculateHandDeliveryPalletPositions(
 	pallets: (Pallet & { product?: Product; shippingOrder?: ShippingOrder })[],
 	fromDate: Date,
-	toDate: Date
+	toDate: Date,
+	versions?: ProductVersionIndex
 ): number {
 	let total = 0;
 
@@ -216,8 +267,8 @@ export function calculateHandDeliveryPalletPositions(
 		const shippedDate = new Date(pallet.shippingOrder.created_at);
 		if (shippedDate < fromDate || shippedDate > toDate) continue;
 
-		// Add pallet_positions to total
-		total += pallet.product.pallet_positions || 0;
+		// Add pallet_positions (as of shipping) to total
+		total += positionsAt(pallet.product, versions, shippedDate);
 	}
 
 	return total;
@@ -225,11 +276,14 @@ export function calculateHandDeliveryPalletPositions(
 
 /**
  * Calculate all billing metrics for a date range
+ *
+ * @param versions - Product spec history; without it the current specs are used
  */
 export function calculateAllBillingMetrics(
 	pallets: (Pallet & { product?: Product; shippingOrder?: ShippingOrder })[],
 	fromDate: string,
-	toDate: string
+	toDate: string,
+	versions?: ProductVersionIndex
 ): BillingMetrics {
 	const from = new Date(fromDate);
 	from.setHours(0, 0, 0, 0); // Start of day
@@ -238,10 +292,10 @@ export function calculateAllBillingMetrics(
 	to.setHours(23, 59, 59, 999); // End of day
 
 	return {
-		storage_pallet_positions: calculateStoragePalletPositions(pallets, from, to),
-		in_pallet_positions_standard: calculateInPalletPositions(pallets, from, to),
-		cross_dock_pallet_positions: calculateCrossDockPalletPositions(pallets, from, to),
-		out_pallet_positions_standard: calculateOutPalletPositions(pallets, from, to),
-		hand_delivery_pallet_positions: calculateHandDeliveryPalletPositions(pallets, from, to),
+		storage_pallet_positions: calculateStoragePalletPositions(pallets, from, to, versions),
+		in_pallet_positions_standard: calculateInPalletPositions(pallets, from, to, versions),
+		cross_dock_pallet_positions: calculateCrossDockPalletPositions(pallets, from, to, versions),
+		out_pallet_positions_standard: calculateOutPalletPositions(pallets, from, to, versions),
+		hand_delivery_pallet_positions: calculateHandDeliveryPalletPositions(pallets, from, to, versions),
 	};
 }
@@ -0,0 +1,40 @@
+/**
+ * Code 128 Tests
+ *
+ * Tests for the pallet label barcode:
+ * 1. Check symbol
+ * 2. Start, data, checksum and stop symbols
+ * 3. Characters outside code set B are refused
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { encodeCode128, getCode128Checksum, getCode128Width } from "./code128";
+
+describe("Code 128", () => {
+	it("calculates the check symbol", () => {
+		// 104 + 48·1 + 42·2 + 42·3 + 17·4 + 18·5 + 19·6 + 35·7 = 879; 879 mod 103 = 55
+		expect(getCode128Checksum("PJJ123C")).toBe(55);
+		expect(getCode128Checksum("")).toBe(1);
+	});
+
+	it("encodes start B, data, checksum and stop", () => {
+		const widths = encodeCode128("A");
+		// Start B, "A" (33), checksum (104 + 33) mod 103 = 34, stop
+		expect(widths.join("")).toBe("211214" + "111323" + "131123" + "2331112");
+		// 11 modules per symbol, 13 for the stop
+		expect(getCode128Width(widths)).toBe(3 * 11 + 13);
+		expect(getCode128Width(encodeCode128("3f2a9c1e-0d4b"))).toBe((13 + 2) * 11 + 13);
+	});
+
+	it("starts and ends every barcode with a bar", () => {
+		const widths = encodeCode128("W1-3-2-B");
+		expect(widths.length % 2).toBe(1);
+	});
+
+	it("refuses text it cannot encode", () => {
+		expect(() => encodeCode128("")).toThrow("empty");
+		expect(() => encodeCode128("PAL\n1")).toThrow("Code 128");
+		expect(() => encodeCode128("Ø")).toThrow("Code 128");
+	});
+});
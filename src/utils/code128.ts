@@ -0,0 +1,76 @@
+/**
+ * Code 128 Barcode Utilities
+ *
+ * Encodes text as a Code 128 (code set B) barcode for printed labels.
+ * Code set B covers printable ASCII (space to ~), which is enough for
+ * pallet IDs and location IDs.
+ *
+ * A barcode is returned as module widths, alternating bar and space and
+ * starting with a bar: start code, data, checksum, stop code. The quiet zone
+ * (at least 10 modules either side) is left to whoever draws it.
+ */
+
+/** Bar/space widths of every Code 128 symbol value (0-106) */
+// prettier-ignore
+const PATTERNS = [
+	"212222", "222122", "222221", "121223", "121322", "131222", "122213", "122312", "132212", "221213",
+	"221312", "231212", "112232", "122132", "122231", "113222", "123122", "123221", "223211", "221132",
+	"221231", "213212", "223112", "312131", "311222", "321122", "321221", "312212", "322112", "322211",
+	"212123", "212321", "232121", "111323", "131123", "131321", "112313", "132113", "132311", "211313",
+	"231113", "231311", "112133", "112331", "132131", "113123", "113321", "133121", "313121", "211331",
+	"231131", "213113", "213311", "213131", "311123", "311321", "331121", "312113", "312311", "332111",
+	"314111", "221411", "431111", "111224", "111422", "121124", "121421", "141122", "141221", "112214",
+	"112412", "122114", "122411", "142112", "142211", "241211", "221114", "413111", "241112", "134111",
+	"111242", "121142", "121241", "114212", "124112", "124211", "411212", "421112", "421211", "212141",
+	"214121", "412121", "111143", "111341", "131141", "114113", "114311", "411113", "411311", "113141",
+	"114131", "311141", "411131", "211412", "211214", "211232", "2331112",
+];
+
+const START_B = 104;
+const STOP = 106;
+
+/**
+ * Symbol values of text in code set B
+ *
+ * @throws Error if the text has characters outside printable ASCII
+ */
+function toCodeBValues(text: string): number[] {
+	return Array.from(text, (char) => {
+		const code = char.codePointAt(0) as number;
+		if (code < 32 || code > 126) {
+			throw new Error(`Cannot encode "${char}" in Code 128`);
+		}
+		return code - 32;
+	});
+}
+
+/**
+ * Calculate the Code 128 check symbol of text in code set B
+ * Formula: (104 + SUM(position × value)) mod 103
+ */
+export function getCode128Checksum(text: string): number {
+	const values = toCodeBValues(text);
+	return values.reduce((sum, value, index) => sum + value * (index + 1), START_B) % 103;
+}
+
+/**
+ * Encode text as Code 128 module widths
+ *
+ * @param text - Printable ASCII to encode
+ * @returns Widths in modules, alternating bar and space, starting with a bar
+ * @throws Error if the text is empty or has characters outside printable ASCII
+ */
+export function encodeCode128(text: string): number[] {
+	if (text.length === 0) {
+		throw new Error("Cannot encode an empty barcode");
+	}
+	const symbols = [START_B, ...toCodeBValues(text), getCode128Checksum(text), STOP];
+	return symbols.flatMap((symbol) => Array.from(PATTERNS[symbol], Number));
+}
+
+/**
+ * Total width of a barcode in modules
+ */
+export function getCode128Width(widths: number[]): number {
+	return widths.reduce((sum, width) => sum + width, 0);
+}
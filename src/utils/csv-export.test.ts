@@ -16,6 +16,8 @@ import {
 	downloadCSV,
 	escapeCSVField,
 	exportBillingToCSV,
+	generateAdjustmentsCSV,
+	generateAdjustmentsFilename,
 	generateBillingCSV,
 	generateBillingFilename,
 	type HandDeliveryRow,
@@ -189,4 +191,45 @@ describe("CSV Export Utilities", () => {
 			}).not.toThrow();
 		});
 	});
+
+	describe("generateAdjustmentsCSV", () => {
+		it("should write one row per adjustment with signed changes", () => {
+			const csv = generateAdjustmentsCSV([
+				{
+					date: "2026-10-02",
+					lpn: "W1-P-000012",
+					itemId: "ITEM-001",
+					description: "Widget, large",
+					qtyBefore: 10,
+					qtyChange: -2,
+					qtyAfter: 8,
+					reason: "Damaged",
+					notes: "Forklift",
+					adjustedBy: "cs@example.com",
+				},
+				{
+					date: "2026-10-03",
+					lpn: "W1-P-000034",
+					itemId: "ITEM-002",
+					description: "",
+					qtyBefore: 5,
+					qtyChange: 1,
+					qtyAfter: 6,
+					reason: "Found",
+					notes: "",
+					adjustedBy: "",
+				},
+			]);
+
+			expect(csv.split("\n")).toEqual([
+				"Date,LPN,Item_ID,Description,Qty_Before,Qty_Change,Qty_After,Reason,Notes,Adjusted_By",
+				'2026-10-02,W1-P-000012,ITEM-001,"Widget, large",10,-2,8,Damaged,Forklift,cs@example.com',
+				"2026-10-03,W1-P-000034,ITEM-002,,5,+1,6,Found,,",
+			]);
+		});
+
+		it("should name the file after the date range", () => {
+			expect(generateAdjustmentsFilename("2026-10-01", "2026-10-31")).toBe("adjustments_2026-10-01_2026-10-31.csv");
+		});
+	});
 });
@@ -112,3 +112,60 @@ export function exportBillingToCSV(
 	// Trigger download
 	downloadCSV(csvContent, filename);
 }
+
+export interface AdjustmentExportRow {
+	date: string;
+	lpn: string;
+	itemId: string;
+	description: string;
+	qtyBefore: number;
+	qtyChange: number;
+	qtyAfter: number;
+	reason: string;
+	notes: string;
+	adjustedBy: string;
+}
+
+/**
+ * Generate inventory adjustments CSV content
+ * One row per adjustment; positive changes are prefixed with +
+ */
+export function generateAdjustmentsCSV(rows: AdjustmentExportRow[]): string {
+	const lines = ["Date,LPN,Item_ID,Description,Qty_Before,Qty_Change,Qty_After,Reason,Notes,Adjusted_By"];
+
+	for (const row of rows) {
+		lines.push(
+			[
+				row.date,
+				row.lpn,
+				row.itemId,
+				row.description,
+				row.qtyBefore,
+				row.qtyChange > 0 ? `+${row.qtyChange}` : row.qtyChange,
+				row.qtyAfter,
+				row.reason,
+				row.notes,
+				row.adjustedBy,
+			]
+				.map((field) => escapeCSVField(field))
+				.join(",")
+		);
+	}
+
+	return lines.join("\n");
+}
+
+/**
+ * Generate filename for inventory adjustments CSV
+ * Format: adjustments_YYYY-MM-DD_YYYY-MM-DD.csv
+ */
+export function generateAdjustmentsFilename(fromDate: string, toDate: string): string {
+	return `adjustments_${fromDate}_${toDate}.csv`;
+}
+
+/**
+ * Export inventory adjustments to CSV and trigger download
+ */
+export function exportAdjustmentsToCSV(rows: AdjustmentExportRow[], fromDate: string, toDate: string): void {
+	downloadCSV(generateAdjustmentsCSV(rows), generateAdjustmentsFilename(fromDate, toDate));
+}
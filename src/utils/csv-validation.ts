@@ -157,6 +157,8 @@ export async function validateProductMasterCSV(file: File): Promise<CSVParseResu
 	// Validate rows
 	const errors: CSVError[] = [];
 	const validRows: Record<string, string>[] = [];
+	// item_id → first row it appears on (the upload replaces the whole catalog, so each item once)
+	const firstRowByItemId = new Map<string, number>();
 
 	for (const [index, row] of rows.entries()) {
 		const rowNumber = index + 2; // +2 because row 1 is header, index starts at 0
@@ -169,6 +171,14 @@ export async function validateProductMasterCSV(file: File): Promise<CSVParseResu
 				field: "item_id",
 				message: "item_id is required",
 			});
+		} else if (firstRowByItemId.has(row.item_id)) {
+			rowErrors.push({
+				row: rowNumber,
+				field: "item_id",
+				message: `item_id ${row.item_id} is already listed on row ${firstRowByItemId.get(row.item_id)}`,
+			});
+		} else {
+			firstRowByItemId.set(row.item_id, rowNumber);
 		}
 
 		// Validate units_per_pallet
@@ -0,0 +1,80 @@
+/**
+ * Effective-Dated Product Specs
+ *
+ * Billing and expected-pallet calculations must use the pallet spec that was
+ * in force at the time (when a pallet was received, stored or shipped), not
+ * the product's current spec, so editing a product never changes past
+ * periods.
+ */
+
+import type { Product, ProductVersion } from "../types/domain";
+
+/** The versioned part of a product */
+export type ProductSpec = Pick<Product, "units_per_pallet" | "pallet_positions">;
+
+/** Versions per item_id, oldest first */
+export type ProductVersionIndex = Map<string, ProductVersion[]>;
+
+/**
+ * Group versions by item_id, oldest first
+ */
+export function indexProductVersions(versions: ProductVersion[]): ProductVersionIndex {
+	const index: ProductVersionIndex = new Map();
+	for (const version of versions) {
+		const list = index.get(version.item_id) ?? [];
+		list.push(version);
+		index.set(version.item_id, list);
+	}
+	for (const list of index.values()) {
+		list.sort((a, b) => a.effective_from.localeCompare(b.effective_from));
+	}
+	return index;
+}
+
+/**
+ * Spec in force at a point in time
+ *
+ * Dates before the first recorded version get the first version (the spec the
+ * product was created with); items without history get the product's current
+ * spec.
+ */
+export function getSpecAt(
+	product: ProductSpec & Pick<Product, "item_id">,
+	versions: ProductVersionIndex | undefined,
+	at: Date | string
+): ProductSpec {
+	const history = versions?.get(product.item_id);
+	if (!history || history.length === 0) {
+		return { units_per_pallet: product.units_per_pallet, pallet_positions: product.pallet_positions };
+	}
+	const time = new Date(at).getTime();
+	let current = history[0];
+	for (const version of history) {
+		if (new Date(version.effective_from).getTime() > time) break;
+		current = version;
+	}
+	return { units_per_pallet: current.units_per_pallet, pallet_positions: current.pallet_positions };
+}
+
+/**
+ * Days on which the spec of an item changes within [from, to], as local midnights
+ *
+ * A change applies from the day it was made, so a pallet stored that day is
+ * billed with the new spec.
+ */
+export function getSpecChangeDays(
+	itemId: string,
+	versions: ProductVersionIndex | undefined,
+	from: Date,
+	to: Date
+): Date[] {
+	const start = new Date(from);
+	start.setHours(0, 0, 0, 0);
+	const days = new Map<number, Date>();
+	for (const version of versions?.get(itemId) ?? []) {
+		const day = new Date(version.effective_from);
+		day.setHours(0, 0, 0, 0);
+		if (day > start && day <= to) days.set(day.getTime(), day);
+	}
+	return [...days.values()].sort((a, b) => a.getTime() - b.getTime());
+}
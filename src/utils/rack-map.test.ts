@@ -0,0 +1,109 @@
+/**
+ * Rack Map Tests
+ *
+ * Tests for the rack occupancy map:
+ * 1. Grid of levels (top first) × positions per rack
+ * 2. Slot states: empty, occupied, multi, blocked, cross-dock staging
+ * 3. Hover details with days stored
+ * 4. Utilisation per rack
+ */
+
+import { describe, expect, it } from "vitest";
+
+import type { Location, Pallet } from "../types/domain";
+import { buildRackGrids, getRackUtilisation } from "./rack-map";
+
+const slot = (rack: number, level: number, position: string, extra: Partial<Location> = {}): Location => ({
+	location_id: `W1-${rack}-${level}-${position}`,
+	warehouse_id: "wh-1",
+	type: "RACK",
+	rack,
+	level,
+	position,
+	...extra,
+});
+
+const pallet = (id: string, location_id: string, extra: Partial<Pallet> = {}): Pallet => ({
+	id,
+	lpn: "W1-P-000001",
+	item_id: "ITEM-001",
+	qty: 10,
+	status: "Stored",
+	is_cross_dock: false,
+	location_id,
+	created_at: "2026-10-01T00:00:00Z",
+	...extra,
+});
+
+const LOCATIONS: Location[] = [
+	slot(1, 1, "A"),
+	slot(1, 1, "B"),
+	slot(1, 2, "A"),
+	slot(1, 2, "B", { is_blocked: true }),
+	slot(2, 1, "A"),
+	slot(2, 1, "B", { is_active: false }),
+	{ location_id: "W1-AISLE-01", warehouse_id: "wh-1", type: "AISLE" },
+];
+
+describe("buildRackGrids", () => {
+	it("lays each rack out with the top level first and leaves retired and aisle locations out", () => {
+		const grids = buildRackGrids(LOCATIONS, []);
+
+		expect(grids.map((grid) => grid.rack)).toEqual([1, 2]);
+		expect(grids[0]).toMatchObject({ levels: [2, 1], positions: ["A", "B"] });
+		expect(grids[0].cells[0].map((cell) => cell?.location.location_id)).toEqual(["W1-1-2-A", "W1-1-2-B"]);
+		expect(grids[1].positions).toEqual(["A"]);
+	});
+
+	it("marks each slot by what sits on it", () => {
+		const grids = buildRackGrids(LOCATIONS, [
+			pallet("p1", "W1-1-1-A", { received_at: "2026-10-01T08:00:00Z" }),
+			pallet("p2", "W1-1-1-B"),
+			pallet("p3", "W1-1-1-B"),
+			pallet("p4", "W1-1-2-A", { is_cross_dock: true }),
+			pallet("p5", "W1-1-2-B"),
+			pallet("p6", "W1-2-1-A", { status: "Loaded", manifest_id: "m-1" }),
+		]);
+
+		const states = grids[0].cells.map((row) => row.map((cell) => cell?.state));
+		expect(states).toEqual([
+			["staging", "blocked"],
+			["occupied", "multi"],
+		]);
+		expect(grids[1].cells[0][0]?.state).toBe("empty");
+	});
+
+	it("shows the pallets on a slot with their days stored", () => {
+		const [grid] = buildRackGrids(
+			LOCATIONS,
+			[pallet("p1", "W1-1-1-A", { qty: 24, received_at: "2026-10-01T08:00:00Z" })],
+			[],
+			new Date("2026-10-05T12:00:00Z")
+		);
+
+		expect(grid.cells[1][0]?.pallets).toEqual([{ id: "p1", item_id: "ITEM-001", qty: 24, days_stored: 5 }]);
+	});
+});
+
+describe("getRackUtilisation", () => {
+	it("counts every slot a multi-position pallet covers", () => {
+		const grids = buildRackGrids(
+			[slot(1, 1, "A"), slot(1, 1, "B"), slot(1, 1, "C"), slot(1, 2, "A")],
+			[pallet("p1", "W1-1-1-A", { item_id: "WIDE" })],
+			[{ item_id: "WIDE", pallet_positions: 2 }]
+		);
+
+		expect(grids[0].cells[1].map((cell) => cell?.state)).toEqual(["occupied", "occupied", "empty"]);
+		expect(grids[0].cells[1][1]?.pallets.map((p) => p.id)).toEqual(["p1"]);
+		expect(getRackUtilisation(grids)).toEqual([{ rack: 1, slots: 4, occupied: 2, percent: 50 }]);
+	});
+
+	it("counts occupied slots over slots that can take a pallet", () => {
+		const grids = buildRackGrids(LOCATIONS, [pallet("p1", "W1-1-1-A"), pallet("p2", "W1-1-2-B")]);
+
+		expect(getRackUtilisation(grids)).toEqual([
+			{ rack: 1, slots: 3, occupied: 1, percent: 33 },
+			{ rack: 2, slots: 1, occupied: 0, percent: 0 },
+		]);
+	});
+});
@@ -0,0 +1,133 @@
+/**
+ * Rack Map Utilities
+ *
+ * Lays each rack out as a level × position grid from `locations` and marks
+ * every slot with what sits on it, for the put-away map on Screen8 and the
+ * occupancy widget on the dashboard.
+ *
+ * A slot is blocked (blocked by an Admin), staging (holds a cross-dock or
+ * staged pallet), multi (more than one pallet), occupied or empty, in that
+ * order of precedence. A pallet of a multi-position product occupies every
+ * slot it covers, as on put-away. Retired locations are left out of the grid.
+ * Utilisation is occupied slots over slots that can take a pallet.
+ */
+
+import { getSlotPallets, isUsableLocation } from "../lib/api/location-layout";
+import type { Location, Pallet, Product } from "../types/domain";
+import { calculateDayCount } from "./billing";
+
+export type RackCellState = "empty" | "occupied" | "multi" | "blocked" | "staging";
+
+export interface RackCellPallet {
+	id: string;
+	item_id: string;
+	qty: number;
+	/** Inclusive days since put-away; null when the pallet has no received_at */
+	days_stored: number | null;
+}
+
+export interface RackCell {
+	location: Location;
+	state: RackCellState;
+	pallets: RackCellPallet[];
+}
+
+export interface RackGrid {
+	rack: number;
+	/** Highest level first, as the rack is seen from the aisle */
+	levels: number[];
+	positions: string[];
+	/** One row per level (same order as levels), one cell per position; null where no location exists */
+	cells: (RackCell | null)[][];
+}
+
+export interface RackUtilisation {
+	rack: number;
+	/** Slots that can take a pallet (not blocked) */
+	slots: number;
+	occupied: number;
+	/** Whole percent of slots occupied */
+	percent: number;
+}
+
+function getCellState(location: Location, pallets: Pallet[]): RackCellState {
+	if (!isUsableLocation(location)) return "blocked";
+	if (pallets.some((pallet) => pallet.is_cross_dock || pallet.status === "Staged")) return "staging";
+	if (pallets.length > 1) return "multi";
+	return pallets.length === 1 ? "occupied" : "empty";
+}
+
+/**
+ * Build the grid of every rack
+ *
+ * @param locations - All locations (aisle zones and retired locations are skipped)
+ * @param pallets - Pallets to place; loaded, shipped and unlocated pallets are ignored
+ * @param products - Products of the pallets, for the slots each one covers (1 when missing)
+ * @param today - Date days stored is counted to
+ * @returns One grid per rack, in rack order
+ */
+export function buildRackGrids(
+	locations: Location[],
+	pallets: Pallet[],
+	products: Pick<Product, "item_id" | "pallet_positions">[] = [],
+	today: Date = new Date()
+): RackGrid[] {
+	const byLocation = getSlotPallets(locations, pallets, products);
+
+	const byRack = new Map<number, Location[]>();
+	for (const location of locations) {
+		if (
+			location.type === "RACK" &&
+			location.is_active !== false &&
+			location.rack &&
+			location.level &&
+			location.position
+		) {
+			byRack.set(location.rack, [...(byRack.get(location.rack) ?? []), location]);
+		}
+	}
+
+	return [...byRack.entries()]
+		.sort(([a], [b]) => a - b)
+		.map(([rack, rackLocations]) => {
+			const levels = [...new Set(rackLocations.map((l) => l.level as number))].sort((a, b) => b - a);
+			const positions = [...new Set(rackLocations.map((l) => l.position as string))].sort();
+			const cells = levels.map((level) =>
+				positions.map((position) => {
+					const location = rackLocations.find((l) => l.level === level && l.position === position);
+					if (!location) return null;
+					const held = byLocation.get(location.location_id) ?? [];
+					return {
+						location,
+						state: getCellState(location, held),
+						pallets: held.map((pallet) => ({
+							id: pallet.id,
+							item_id: pallet.item_id,
+							qty: pallet.qty,
+							days_stored: pallet.received_at ? calculateDayCount(new Date(pallet.received_at), today) : null,
+						})),
+					};
+				})
+			);
+			return { rack, levels, positions, cells };
+		});
+}
+
+/**
+ * Work out how full each rack is
+ *
+ * @param grids - Rack grids from buildRackGrids
+ * @returns Utilisation per rack, in the same order
+ */
+export function getRackUtilisation(grids: RackGrid[]): RackUtilisation[] {
+	return grids.map(({ rack, cells }) => {
+		const usable = cells.flat().filter((cell): cell is RackCell => cell !== null && cell.state !== "blocked");
+		const occupied = usable.filter((cell) => cell.pallets.length > 0).length;
+		return {
+			rack,
+			slots: usable.length,
+			occupied,
+			percent: usable.length > 0 ? Math.round((occupied / usable.length) * 100) : 0,
+		};
+	});
+}
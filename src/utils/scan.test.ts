@@ -0,0 +1,53 @@
+/**
+ * Barcode Scan Tests
+ *
+ * Tests for telling scanned barcodes apart:
+ * 1. Pallet labels (LPN, full and short ID)
+ * 2. Rack slot and aisle zone labels
+ * 3. Order barcodes (SO: prefix)
+ * 4. Anything else is unknown
+ */
+
+import { describe, expect, it } from "vitest";
+
+import { matchesPallet, parseScan } from "./scan";
+
+const PALLET_ID = "3f2a9c1e-0d4b-4c1e-9a7b-5e6f7a8b9c0d";
+const PALLET = { id: PALLET_ID, lpn: "W1-P-000123" };
+
+describe("parseScan", () => {
+	it("recognises pallet labels", () => {
+		expect(parseScan(PALLET_ID)).toEqual({ kind: "pallet", value: PALLET_ID, raw: PALLET_ID });
+		expect(parseScan(` ${PALLET_ID.toUpperCase()}\n`).value).toBe(PALLET_ID);
+		expect(parseScan("7A8B9C0D")).toMatchObject({ kind: "pallet", value: "7a8b9c0d" });
+		expect(parseScan("w1-p-000123")).toMatchObject({ kind: "pallet", value: "W1-P-000123" });
+		expect(parseScan("W1-P-1234567")).toMatchObject({ kind: "pallet", value: "W1-P-1234567" });
+	});
+
+	it("recognises rack slot and aisle zone labels", () => {
+		expect(parseScan("W1-3-2-C")).toMatchObject({ kind: "location", value: "W1-3-2-C" });
+		expect(parseScan("w1-12-4-t")).toMatchObject({ kind: "location", value: "W1-12-4-T" });
+		expect(parseScan("W1-AISLE-02")).toMatchObject({ kind: "location", value: "W1-AISLE-02" });
+	});
+
+	it("recognises order barcodes and keeps the reference as printed", () => {
+		expect(parseScan("SO:ORD-001")).toMatchObject({ kind: "order", value: "ORD-001" });
+		expect(parseScan("so:hd-001")).toMatchObject({ kind: "order", value: "hd-001" });
+	});
+
+	it("leaves anything else unknown", () => {
+		expect(parseScan("ITEM-001")).toMatchObject({ kind: "unknown", value: "ITEM-001" });
+		expect(parseScan("SO:")).toMatchObject({ kind: "unknown" });
+		expect(parseScan("W1-3-C")).toMatchObject({ kind: "unknown" });
+	});
+});
+
+describe("matchesPallet", () => {
+	it("matches the LPN, the full ID or the short ID", () => {
+		expect(matchesPallet(PALLET, "W1-P-000123")).toBe(true);
+		expect(matchesPallet(PALLET, PALLET_ID)).toBe(true);
+		expect(matchesPallet(PALLET, "7a8b9c0d")).toBe(true);
+		expect(matchesPallet(PALLET, "3f2a9c1e")).toBe(false);
+		expect(matchesPallet(PALLET, "W1-P-000124")).toBe(false);
+	});
+});
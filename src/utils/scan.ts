@@ -0,0 +1,93 @@
+/**
+ * Barcode Scan Utilities
+ *
+ * Tells apart the barcodes warehouse staff scan on the floor and gives
+ * audible feedback for each scan (put-away, picking and loading screens).
+ *
+ * Barcode formats:
+ * - Pallet: the LPN printed on its label (W1-P-000123), or its ID (a UUID)
+ *   or the 8-character short ID of older labels
+ * - Location: a rack slot (W1-3-2-C) or aisle zone (W1-AISLE-02) label
+ * - Order: "SO:" followed by the shipping order reference (SO:ORD-001)
+ *
+ * Scans are trimmed and upper-cased except for the order reference, which is
+ * kept as printed.
+ */
+
+import { isLpn } from "../lib/api/pallet-lpn";
+import type { Pallet } from "../types/domain";
+
+export type ScanKind = "pallet" | "location" | "order" | "unknown";
+
+export interface ParsedScan {
+	kind: ScanKind;
+	/** Pallet LPN or ID (full or short), location ID or order reference; the trimmed scan when unknown */
+	value: string;
+	/** Text as scanned */
+	raw: string;
+}
+
+export type ScanTone = "success" | "error";
+
+const UUID_PATTERN = /^[\da-f]{8}-[\da-f]{4}-[\da-f]{4}-[\da-f]{4}-[\da-f]{12}$/i;
+const SHORT_ID_PATTERN = /^[\da-f]{8}$/i;
+const LOCATION_PATTERN = /^[\dA-Z]+-(?:\d+-\d+-[A-Z]|AISLE-\d+)$/;
+const ORDER_PREFIX = "SO:";
+
+/**
+ * Work out what a scanned barcode refers to
+ *
+ * @param raw - Text from the scanner, camera or keyboard
+ * @returns Kind and value of the barcode
+ */
+export function parseScan(raw: string): ParsedScan {
+	const text = raw.trim();
+	if (text.toUpperCase().startsWith(ORDER_PREFIX) && text.length > ORDER_PREFIX.length) {
+		return { kind: "order", value: text.slice(ORDER_PREFIX.length).trim(), raw };
+	}
+	if (isLpn(text)) {
+		return { kind: "pallet", value: text.toUpperCase(), raw };
+	}
+	if (UUID_PATTERN.test(text) || SHORT_ID_PATTERN.test(text)) {
+		return { kind: "pallet", value: text.toLowerCase(), raw };
+	}
+	if (LOCATION_PATTERN.test(text.toUpperCase())) {
+		return { kind: "location", value: text.toUpperCase(), raw };
+	}
+	return { kind: "unknown", value: text, raw };
+}
+
+/**
+ * Check whether a scanned pallet value is this pallet (LPN, full ID or short ID)
+ */
+export function matchesPallet(pallet: Pick<Pallet, "id" | "lpn">, value: string): boolean {
+	const id = pallet.id.toLowerCase();
+	return pallet.lpn === value || id === value || (value.length === 8 && id.endsWith(value));
+}
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Beep for a scan: one high tone when accepted, two low tones when refused
+ * Silent where the browser has no Web Audio; tablets also vibrate on refusal
+ */
+export function playScanTone(tone: ScanTone): void {
+	if (tone === "error") navigator.vibrate?.(200);
+	if (typeof AudioContext === "undefined") return;
+
+	try {
+		audioContext ??= new AudioContext();
+		const beeps = tone === "success" ? [{ at: 0, frequency: 1200 }] : [0, 0.2].map((at) => ({ at, frequency: 220 }));
+		for (const { at, frequency } of beeps) {
+			const oscillator = audioContext.createOscillator();
+			const gain = audioContext.createGain();
+			oscillator.frequency.value = frequency;
+			gain.gain.value = 0.2;
+			oscillator.connect(gain).connect(audioContext.destination);
+			oscillator.start(audioContext.currentTime + at);
+			oscillator.stop(audioContext.currentTime + at + 0.12);
+		}
+	} catch (error) {
+		console.warn("Scan tone unavailable:", error);
+	}
+}
@@ -83,6 +83,22 @@ describe("Shipping Email Utility", () => {
 			expect(body).toContain("SEAL-456");
 		});
 
+		it("should list the LPNs of the shipped pallets under each item", () => {
+			const data = {
+				shippingOrderId: "order-456",
+				orderRef: "ORD-002",
+				shipmentType: "Container_Loading" as const,
+				items: [
+					{ itemId: "ITEM-003", description: "Product C", qtyShipped: 200, lpns: ["W1-P-000007", "W1-P-000009"] },
+					{ itemId: "ITEM-004", description: "Product D", qtyShipped: 10 },
+				],
+			};
+
+			const body = composeShippingEmailBody(data);
+
+			expect(body).toContain("- ITEM-003: Product C (200 units)\n  Pallets: W1-P-000007, W1-P-000009\n- ITEM-004");
+		});
+
 		it("should include form URL if provided", () => {
 			const data = {
 				shippingOrderId: "order-123",
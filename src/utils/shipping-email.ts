@@ -4,13 +4,15 @@
  * Sends shipping confirmation emails with form and photo attachments
  */
 
-import { supabase } from "@/lib/auth/supabase-client";
-import { fileUrlToBase64, sendEmail } from "@/lib/email-service";
+import { email, storage } from "@/lib/api/wms-api";
+import { fileUrlToBase64 } from "@/lib/email-service";
 
 interface ShippingEmailItem {
 	itemId: string;
 	description: string;
 	qtyShipped: number;
+	/** LPNs of the pallets shipped, listed under the item */
+	lpns?: string[];
 }
 
 interface ShippingEmailData {
@@ -29,7 +31,11 @@ interface ShippingEmailData {
  */
 export function composeShippingEmailBody(data: ShippingEmailData): string {
 	const itemsList = data.items
-		.map((item) => `- ${item.itemId}: ${item.description} (${item.qtyShipped} units)`)
+		.map(
+			(item) =>
+				`- ${item.itemId}: ${item.description} (${item.qtyShipped} units)` +
+				(item.lpns?.length ? `\n  Pallets: ${item.lpns.join(", ")}` : "")
+		)
 		.join("\n");
 
 	let body = `Shipping Confirmation
@@ -82,7 +88,7 @@ export async function sendShippingEmail(data: ShippingEmailData): Promise<void>
 		// Add form attachment if provided
 		if (data.formUrl) {
 			try {
-				const formPublicUrl = supabase.storage.from("shipping").getPublicUrl(data.formUrl).data.publicUrl;
+				const formPublicUrl = storage.getPublicUrl("shipping", data.formUrl);
 				const formBase64 = await fileUrlToBase64(formPublicUrl);
 				const filename = data.formUrl.split("/").pop() || "shipping-form.pdf";
 				attachments.push({
@@ -99,7 +105,7 @@ export async function sendShippingEmail(data: ShippingEmailData): Promise<void>
 		if (data.photoUrls && data.photoUrls.length > 0) {
 			for (const photoUrl of data.photoUrls) {
 				try {
-					const photoPublicUrl = supabase.storage.from("shipping").getPublicUrl(photoUrl).data.publicUrl;
+					const photoPublicUrl = storage.getPublicUrl("shipping", photoUrl);
 					const photoBase64 = await fileUrlToBase64(photoPublicUrl);
 					const filename = photoUrl.split("/").pop() || `photo-${Date.now()}.jpg`;
 					attachments.push({
@@ -113,13 +119,8 @@ export async function sendShippingEmail(data: ShippingEmailData): Promise<void>
 			}
 		}
 
-		// Send email using the same service as Screen 2
-		await sendEmail({
-			to: emailTo,
-			subject: `Shipping Confirmation - ${data.orderRef}`,
-			body: emailBody,
-			attachments,
-		});
+		// Send email through the same backend as Screen 2
+		await email.send(emailTo, `Shipping Confirmation - ${data.orderRef}`, emailBody, attachments);
 	} catch (error) {
 		const message = error instanceof Error ? error.message : "Failed to send shipping email";
 		console.error("[Shipping Email] Error:", message);
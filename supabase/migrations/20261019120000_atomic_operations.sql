@@ -0,0 +1,196 @@
+-- Atomic multi-step WMS operations
+--
+-- Each function runs inside a single transaction: if any statement fails,
+-- every change made by the call is rolled back. Called from the frontend via
+-- supabase.rpc() (see src/lib/api/supabase-backend.ts). Each step names its
+-- audit action with wms_audit_as (see the audit_events migration), so the
+-- audit_events rows are written in the same transaction.
+
+-- 0. Columns written by these operations
+alter table public.shipping_orders add column if not exists cancelled_at timestamptz;
+alter table public.receiving_orders add column if not exists finalized_at timestamptz;
+
+-- 1. Cancel shipping order
+-- Marks the order Cancelled and releases its pallets still in the warehouse
+-- (Received, Stored, Staged, Loaded) back to Received, forcing put-away and
+-- clearing their order and manifest assignment. Shipped, written-off and
+-- merged pallets are left alone.
+create or replace function public.wms_cancel_shipping_order(p_order_id uuid)
+returns public.shipping_orders
+language plpgsql
+as $$
+declare
+	v_order public.shipping_orders;
+begin
+	perform public.wms_audit_as('cancel');
+
+	update public.shipping_orders
+	set status = 'Cancelled', cancelled_at = now()
+	where id = p_order_id
+	returning * into v_order;
+
+	if not found then
+		raise exception 'Shipping order not found' using errcode = 'P0002';
+	end if;
+
+	perform public.wms_audit_as('release');
+
+	update public.pallets
+	set status = 'Received', shipping_order_id = null, manifest_id = null
+	where shipping_order_id = p_order_id
+		and status in ('Received', 'Stored', 'Staged', 'Loaded');
+
+	return v_order;
+end;
+$$;
+
+-- 2. Close manifest & ship
+-- Closes the manifest, marks its Loaded pallets Shipped and ships every
+-- Completed order that has nothing left to ship (fully contained in closed manifests).
+create or replace function public.wms_close_manifest(p_manifest_id uuid)
+returns public.manifests
+language plpgsql
+as $$
+declare
+	v_manifest public.manifests;
+	v_now timestamptz := now();
+begin
+	select * into v_manifest from public.manifests where id = p_manifest_id for update;
+
+	if not found then
+		raise exception 'Manifest not found' using errcode = 'P0002';
+	end if;
+
+	if v_manifest.status <> 'Open' then
+		raise exception 'Manifest is already %', v_manifest.status using errcode = 'P0001';
+	end if;
+
+	perform public.wms_audit_as('close');
+
+	update public.manifests
+	set status = 'Closed', closed_at = v_now
+	where id = p_manifest_id
+	returning * into v_manifest;
+
+	perform public.wms_audit_as('ship');
+
+	update public.pallets
+	set status = 'Shipped', shipped_at = v_now
+	where manifest_id = p_manifest_id and status = 'Loaded';
+
+	update public.shipping_orders o
+	set status = 'Shipped', shipped_at = v_now
+	where o.status = 'Completed'
+		and exists (
+			select 1 from public.pallets p where p.shipping_order_id = o.id and p.manifest_id = p_manifest_id
+		)
+		and not exists (
+			select 1 from public.pallets p
+			where p.shipping_order_id = o.id and p.status not in ('Shipped', 'WriteOff')
+		);
+
+	return v_manifest;
+end;
+$$;
+
+-- 3. Finish tally
+-- Moves the receiving order to Staged. When every pallet of the order was
+-- created via SHIP-NOW (100% cross-dock), the shipping orders those pallets
+-- belong to go straight to Loading.
+-- Returns { "order": receiving_orders row, "loading_order_ids": uuid[] }.
+create or replace function public.wms_finish_tally(p_receiving_order_id uuid)
+returns jsonb
+language plpgsql
+as $$
+declare
+	v_order public.receiving_orders;
+	v_pallet_count int;
+	v_regular_count int;
+	v_loading_ids uuid[] := '{}';
+begin
+	select * into v_order from public.receiving_orders where id = p_receiving_order_id for update;
+
+	if not found then
+		raise exception 'Receiving order not found' using errcode = 'P0002';
+	end if;
+
+	if v_order.status = 'Received' then
+		raise exception 'Receiving order is already Received' using errcode = 'P0001';
+	end if;
+
+	select count(*), count(*) filter (where not coalesce(is_cross_dock, false))
+	into v_pallet_count, v_regular_count
+	from public.pallets
+	where receiving_order_id = p_receiving_order_id;
+
+	if v_pallet_count = 0 then
+		raise exception 'Receiving order has no pallets' using errcode = 'P0001';
+	end if;
+
+	perform public.wms_audit_as('finish_tally');
+
+	update public.receiving_orders
+	set status = 'Staged'
+	where id = p_receiving_order_id
+	returning * into v_order;
+
+	if v_regular_count = 0 then
+		update public.shipping_orders
+		set status = 'Loading'
+		where status in ('Pending', 'Picking')
+			and id in (
+				select shipping_order_id from public.pallets
+				where receiving_order_id = p_receiving_order_id and shipping_order_id is not null
+			);
+
+		select coalesce(array_agg(distinct o.id), '{}')
+		into v_loading_ids
+		from public.pallets p
+		join public.shipping_orders o on o.id = p.shipping_order_id
+		where p.receiving_order_id = p_receiving_order_id and o.status = 'Loading';
+	end if;
+
+	return jsonb_build_object('order', to_jsonb(v_order), 'loading_order_ids', to_jsonb(v_loading_ids));
+end;
+$$;
+
+-- 4. Finalize receiving
+-- Closes inbound for a Staged receiving order: status Received, finalized_at
+-- set, and received_at stamped on its pallets that do not have one yet.
+create or replace function public.wms_finalize_receiving(p_receiving_order_id uuid)
+returns public.receiving_orders
+language plpgsql
+as $$
+declare
+	v_order public.receiving_orders;
+	v_now timestamptz := now();
+begin
+	select * into v_order from public.receiving_orders where id = p_receiving_order_id for update;
+
+	if not found then
+		raise exception 'Receiving order not found' using errcode = 'P0002';
+	end if;
+
+	if v_order.status <> 'Staged' then
+		raise exception 'Receiving order must be Staged to finalize (current: %)', v_order.status using errcode = 'P0001';
+	end if;
+
+	perform public.wms_audit_as('finalize');
+
+	update public.receiving_orders
+	set status = 'Received', finalized_at = v_now
+	where id = p_receiving_order_id
+	returning * into v_order;
+
+	update public.pallets
+	set received_at = v_now
+	where receiving_order_id = p_receiving_order_id and received_at is null;
+
+	return v_order;
+end;
+$$;
+
+grant execute on function public.wms_cancel_shipping_order(uuid) to authenticated;
+grant execute on function public.wms_close_manifest(uuid) to authenticated;
+grant execute on function public.wms_finish_tally(uuid) to authenticated;
+grant execute on function public.wms_finalize_receiving(uuid) to authenticated;
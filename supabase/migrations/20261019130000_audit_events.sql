@@ -0,0 +1,165 @@
+-- Audit trail for pallet, order and manifest mutations
+--
+-- Append-only: rows are written by the database in the same transaction as
+-- the change they describe and are never updated or deleted. Clients cannot
+-- insert them. Read by the Admin screen (/admin).
+--
+-- - wms_audit_row (trigger on pallets, receiving_orders, shipping_orders and
+--   manifests) records every insert, update and delete: the columns that
+--   changed, the signed-in user and the reason.
+-- - RPCs name what they do with wms_audit_as before changing rows (cancel,
+--   release, split, adjust, …); plain table writes get a derived action
+--   (create, delete, write_off, status_change, move or update), like
+--   getUpdateAction in src/lib/api/audit.ts.
+-- - The reason comes from wms_audit_as, else from the x-audit-reason request
+--   header (base64 of the UTF-8 text) the client sends with the change.
+
+create table if not exists public.audit_events (
+	id uuid primary key default gen_random_uuid(),
+	entity_type text not null check (entity_type in ('pallet', 'receiving_order', 'shipping_order', 'manifest')),
+	entity_id text not null,
+	action text not null,
+	actor_id uuid default auth.uid() references auth.users (id) on delete set null,
+	actor_email text,
+	before jsonb,
+	after jsonb,
+	reason text,
+	-- clock_timestamp() keeps events written in one transaction in order
+	created_at timestamptz not null default clock_timestamp()
+);
+
+create index if not exists audit_events_entity_idx on public.audit_events (entity_type, entity_id, created_at desc);
+create index if not exists audit_events_created_at_idx on public.audit_events (created_at desc);
+create index if not exists audit_events_actor_email_idx on public.audit_events (actor_email);
+
+alter table public.audit_events enable row level security;
+
+-- Only admins read the trail
+create policy "audit_events_select_admin"
+	on public.audit_events for select
+	to authenticated
+	using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin'));
+
+-- No insert/update/delete policies: events come from the functions below only
+
+-- Name the action (and reason) of the changes that follow, until the end of the transaction
+create or replace function public.wms_audit_as(p_action text, p_reason text default null)
+returns void
+language plpgsql
+as $$
+begin
+	perform set_config('wms.audit_action', coalesce(p_action, ''), true);
+	perform set_config('wms.audit_reason', coalesce(trim(p_reason), ''), true);
+end;
+$$;
+
+-- Reason of the current change: set by wms_audit_as, else sent by the client
+create or replace function public.wms_audit_reason()
+returns text
+language plpgsql
+stable
+as $$
+declare
+	v_reason text := nullif(current_setting('wms.audit_reason', true), '');
+	v_header text := nullif(current_setting('request.headers', true), '')::json ->> 'x-audit-reason';
+begin
+	if v_reason is null and v_header is not null then
+		begin
+			v_reason := convert_from(decode(v_header, 'base64'), 'UTF8');
+		exception when others then
+			v_reason := null;
+		end;
+	end if;
+	return nullif(trim(v_reason), '');
+end;
+$$;
+
+-- Append one event, stamped with the signed-in user
+create or replace function public.wms_record_audit_event(
+	p_entity_type text,
+	p_entity_id text,
+	p_action text,
+	p_before jsonb,
+	p_after jsonb,
+	p_reason text default null
+)
+returns void
+language sql
+security definer
+set search_path = public
+as $$
+	insert into public.audit_events (entity_type, entity_id, action, actor_id, actor_email, before, after, reason)
+	values (
+		p_entity_type, p_entity_id, p_action, auth.uid(), auth.jwt() ->> 'email', p_before, p_after,
+		coalesce(nullif(trim(p_reason), ''), public.wms_audit_reason())
+	);
+$$;
+
+revoke execute on function public.wms_record_audit_event(text, text, text, jsonb, jsonb, text) from public, anon, authenticated;
+
+-- Row trigger: tg_argv[0] is the entity type
+create or replace function public.wms_audit_row()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_old jsonb := case when tg_op = 'INSERT' then null else to_jsonb(old) end;
+	v_new jsonb := case when tg_op = 'DELETE' then null else to_jsonb(new) end;
+	v_before jsonb := v_old;
+	v_after jsonb := v_new;
+	v_action text := nullif(current_setting('wms.audit_action', true), '');
+begin
+	if tg_op = 'UPDATE' then
+		-- Keep the columns that changed, old and new values side by side
+		select jsonb_object_agg(o.key, o.value), jsonb_object_agg(o.key, n.value)
+		into v_before, v_after
+		from jsonb_each(v_old) as o (key, value)
+		join jsonb_each(v_new) as n (key, value) on n.key = o.key
+		where o.value is distinct from n.value;
+
+		if v_after is null then
+			return null;
+		end if;
+	end if;
+
+	v_action := coalesce(v_action, case
+		when tg_op = 'INSERT' then 'create'
+		when tg_op = 'DELETE' then 'delete'
+		when tg_argv[0] = 'pallet' and v_after ->> 'status' = 'WriteOff' then 'write_off'
+		when v_after ? 'status' then 'status_change'
+		when tg_argv[0] = 'pallet' and v_after ? 'location_id' then 'move'
+		else 'update'
+	end);
+
+	perform public.wms_record_audit_event(
+		tg_argv[0], coalesce(v_new, v_old) ->> 'id', v_action, v_before, v_after
+	);
+	return null;
+end;
+$$;
+
+drop trigger if exists pallets_audit on public.pallets;
+create trigger pallets_audit
+	after insert or update or delete on public.pallets
+	for each row
+	execute function public.wms_audit_row('pallet');
+
+drop trigger if exists receiving_orders_audit on public.receiving_orders;
+create trigger receiving_orders_audit
+	after insert or update or delete on public.receiving_orders
+	for each row
+	execute function public.wms_audit_row('receiving_order');
+
+drop trigger if exists shipping_orders_audit on public.shipping_orders;
+create trigger shipping_orders_audit
+	after insert or update or delete on public.shipping_orders
+	for each row
+	execute function public.wms_audit_row('shipping_order');
+
+drop trigger if exists manifests_audit on public.manifests;
+create trigger manifests_audit
+	after insert or update or delete on public.manifests
+	for each row
+	execute function public.wms_audit_row('manifest');
@@ -0,0 +1,9 @@
+-- Per-pallet history timeline (Inventory Grid, Screen15)
+--
+-- The audit trail stays admin-only, but any signed-in user may read the
+-- events of a pallet so Customer Service can trace where it was on a date.
+
+create policy "audit_events_select_pallet_history"
+	on public.audit_events for select
+	to authenticated
+	using (entity_type = 'pallet');
@@ -0,0 +1,30 @@
+-- Realtime change feed for the warehouse and customer service queues
+--
+-- wmsApi.subscribe() listens for postgres_changes on these tables; rows are
+-- still filtered by each table's select policies before they are pushed.
+-- Full replica identity so DELETE and UPDATE events carry the whole old row.
+
+alter table public.receiving_orders replica identity full;
+alter table public.receiving_order_lines replica identity full;
+alter table public.shipping_orders replica identity full;
+alter table public.shipping_order_lines replica identity full;
+alter table public.pallets replica identity full;
+alter table public.manifests replica identity full;
+
+-- Add only the tables not published yet: adding one twice is an error
+do $$
+declare
+	v_table text;
+begin
+	foreach v_table in array array[
+		'receiving_orders', 'receiving_order_lines', 'shipping_orders', 'shipping_order_lines', 'pallets', 'manifests'
+	] loop
+		if not exists (
+			select 1 from pg_publication_tables
+			where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = v_table
+		) then
+			execute format('alter publication supabase_realtime add table public.%I', v_table);
+		end if;
+	end loop;
+end;
+$$;
@@ -0,0 +1,31 @@
+-- Replace-all Product Master upload (Screen 0)
+--
+-- Upserts every product in the file and deactivates active products missing
+-- from it, in one transaction. Products are never deleted: pallets and order
+-- lines keep referencing them. Called from the frontend via supabase.rpc()
+-- (see src/lib/api/supabase-backend.ts).
+
+create or replace function public.wms_replace_product_master(p_products jsonb)
+returns void
+language plpgsql
+as $$
+begin
+	insert into public.products (item_id, description, units_per_pallet, pallet_positions, active)
+	select r.item_id, coalesce(r.description, ''), r.units_per_pallet, coalesce(r.pallet_positions, 1), true
+	from jsonb_to_recordset(p_products) as r(item_id text, description text, units_per_pallet int, pallet_positions int)
+	on conflict (item_id) do update
+	set description = excluded.description,
+		units_per_pallet = excluded.units_per_pallet,
+		pallet_positions = excluded.pallet_positions,
+		active = true;
+
+	update public.products p
+	set active = false
+	where p.active
+		and not exists (
+			select 1 from jsonb_to_recordset(p_products) as r(item_id text) where r.item_id = p.item_id
+		);
+end;
+$$;
+
+grant execute on function public.wms_replace_product_master(jsonb) to authenticated;
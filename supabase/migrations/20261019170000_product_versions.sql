@@ -0,0 +1,57 @@
+-- Effective-dated product pallet specs
+--
+-- Billing (src/utils/billing.ts) and expected-pallet calculations (Screen 7)
+-- must use the units_per_pallet / pallet_positions in force at the time, so a
+-- version is recorded whenever a product is created or its spec changes.
+-- Versions are written only by the trigger below and are never updated.
+
+create table if not exists public.product_versions (
+	id uuid primary key default gen_random_uuid(),
+	item_id text not null references public.products (item_id) on delete cascade,
+	units_per_pallet int not null check (units_per_pallet > 0),
+	pallet_positions int not null check (pallet_positions > 0),
+	effective_from timestamptz not null default clock_timestamp(),
+	created_by uuid default auth.uid() references auth.users (id) on delete set null
+);
+
+create index if not exists product_versions_item_idx on public.product_versions (item_id, effective_from);
+
+alter table public.product_versions enable row level security;
+
+create policy "product_versions_select_authenticated"
+	on public.product_versions for select
+	to authenticated
+	using (true);
+
+-- No insert/update/delete policies: rows come from the trigger only
+
+create or replace function public.products_record_version()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+	if tg_op = 'UPDATE'
+		and new.units_per_pallet = old.units_per_pallet
+		and new.pallet_positions = old.pallet_positions then
+		return new;
+	end if;
+
+	insert into public.product_versions (item_id, units_per_pallet, pallet_positions)
+	values (new.item_id, new.units_per_pallet, new.pallet_positions);
+	return new;
+end;
+$$;
+
+drop trigger if exists products_record_version on public.products;
+create trigger products_record_version
+	after insert or update of units_per_pallet, pallet_positions on public.products
+	for each row execute function public.products_record_version();
+
+-- Backfill: the current spec of existing products, effective since they were
+-- created (earlier edits were not recorded)
+insert into public.product_versions (item_id, units_per_pallet, pallet_positions, effective_from, created_by)
+select p.item_id, p.units_per_pallet, p.pallet_positions, p.created_at, null
+from public.products p
+where not exists (select 1 from public.product_versions v where v.item_id = p.item_id);
@@ -0,0 +1,137 @@
+-- Pallet split & merge
+--
+-- Splitting moves qty off a pallet onto new pallets that point back at it
+-- (split_from_id) and keep its receiving order, location, order assignment
+-- and received_at. Merging moves the qty of the other pallets onto the first
+-- one; those become 'Merged' (merged_into_id) rather than being deleted, so
+-- billing of past periods and their history stay intact. The rules match
+-- src/lib/api/pallet-lineage.ts.
+
+alter type public.pallet_status add value if not exists 'Merged';
+
+alter table public.pallets
+	add column if not exists split_from_id uuid references public.pallets (id) on delete set null,
+	add column if not exists merged_into_id uuid references public.pallets (id) on delete set null;
+
+create index if not exists pallets_split_from_idx on public.pallets (split_from_id) where split_from_id is not null;
+create index if not exists pallets_merged_into_idx on public.pallets (merged_into_id) where merged_into_id is not null;
+
+-- 1. Split pallet
+-- Returns { "source": pallets row, "created": pallets rows }.
+create or replace function public.wms_split_pallet(p_pallet_id uuid, p_qtys int[])
+returns jsonb
+language plpgsql
+as $$
+declare
+	v_source public.pallets;
+	v_total int;
+	v_qty int;
+	v_created jsonb := '[]'::jsonb;
+	v_pallet public.pallets;
+begin
+	select * into v_source from public.pallets where id = p_pallet_id for update;
+
+	if not found then
+		raise exception 'Pallet not found' using errcode = 'P0002';
+	end if;
+
+	if v_source.status not in ('Received', 'Stored', 'Staged') or v_source.manifest_id is not null then
+		raise exception 'Cannot split a % pallet',
+			case when v_source.manifest_id is not null then 'loaded' else v_source.status::text end
+			using errcode = 'P0001';
+	end if;
+
+	if coalesce(array_length(p_qtys, 1), 0) = 0 or exists (select 1 from unnest(p_qtys) q where q is null or q <= 0) then
+		raise exception 'Split quantities must be whole numbers greater than 0' using errcode = '22023';
+	end if;
+
+	select sum(q) into v_total from unnest(p_qtys) q;
+	if v_total >= v_source.qty then
+		raise exception 'Split quantities (%) must be less than the pallet qty (%)', v_total, v_source.qty
+			using errcode = '22023';
+	end if;
+
+	perform public.wms_audit_as('split');
+
+	foreach v_qty in array p_qtys loop
+		insert into public.pallets (
+			item_id, qty, status, location_id, shipping_order_id, receiving_order_id,
+			is_cross_dock, received_at, split_from_id
+		)
+		values (
+			v_source.item_id, v_qty, v_source.status, v_source.location_id, v_source.shipping_order_id,
+			v_source.receiving_order_id, v_source.is_cross_dock, coalesce(v_source.received_at, v_source.created_at),
+			v_source.id
+		)
+		returning * into v_pallet;
+		v_created := v_created || to_jsonb(v_pallet);
+	end loop;
+
+	update public.pallets
+	set qty = qty - v_total
+	where id = p_pallet_id
+	returning * into v_source;
+
+	return jsonb_build_object('source', to_jsonb(v_source), 'created', v_created);
+end;
+$$;
+
+-- 2. Merge pallets
+-- The first pallet receives the qty of the others. Returns the merged pallet.
+create or replace function public.wms_merge_pallets(p_pallet_ids uuid[])
+returns public.pallets
+language plpgsql
+as $$
+declare
+	v_target public.pallets;
+	v_count int;
+	v_total int;
+begin
+	if coalesce(array_length(p_pallet_ids, 1), 0) < 2
+		or (select count(distinct id) from unnest(p_pallet_ids) id) <> array_length(p_pallet_ids, 1) then
+		raise exception 'Select at least 2 different pallets to merge' using errcode = '22023';
+	end if;
+
+	-- Lock in a fixed order so concurrent merges cannot deadlock
+	perform 1 from public.pallets where id = any (p_pallet_ids) order by id for update;
+
+	select * into v_target from public.pallets where id = p_pallet_ids[1];
+	select count(*), sum(qty) into v_count, v_total from public.pallets where id = any (p_pallet_ids);
+
+	if v_count <> array_length(p_pallet_ids, 1) then
+		raise exception 'Pallet not found' using errcode = 'P0002';
+	end if;
+
+	if exists (select 1 from public.pallets where id = any (p_pallet_ids) and item_id <> v_target.item_id) then
+		raise exception 'Only pallets of the same item can be merged' using errcode = '22023';
+	end if;
+
+	if exists (
+		select 1 from public.pallets
+		where id = any (p_pallet_ids)
+			and (status not in ('Received', 'Stored', 'Staged') or manifest_id is not null)
+	) then
+		raise exception 'Cannot merge a loaded, shipped, written-off or merged pallet' using errcode = 'P0001';
+	end if;
+
+	if exists (
+		select 1 from public.pallets
+		where id = any (p_pallet_ids) and shipping_order_id is distinct from v_target.shipping_order_id
+	) then
+		raise exception 'Only pallets assigned to the same shipping order can be merged' using errcode = 'P0001';
+	end if;
+
+	perform public.wms_audit_as('merge');
+
+	update public.pallets
+	set status = 'Merged', merged_into_id = v_target.id, location_id = null, shipping_order_id = null
+	where id = any (p_pallet_ids) and id <> v_target.id;
+
+	update public.pallets
+	set qty = v_total
+	where id = v_target.id
+	returning * into v_target;
+
+	return v_target;
+end;
+$$;
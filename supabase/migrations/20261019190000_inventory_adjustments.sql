@@ -0,0 +1,126 @@
+-- Inventory adjustments
+--
+-- Partial qty corrections of a pallet (up or down) with a reason code, notes
+-- and an optional photo in the "adjustments" storage bucket. The pallet qty
+-- and the adjustment row are written together by wms_adjust_pallet; rows are
+-- never updated or deleted. Read by the Adjustments report (Screen 16). The
+-- rules match src/lib/api/inventory-adjustments.ts.
+
+create table if not exists public.inventory_adjustments (
+	id uuid primary key default gen_random_uuid(),
+	pallet_id uuid not null references public.pallets (id) on delete cascade,
+	item_id text not null references public.products (item_id),
+	qty_before int not null check (qty_before > 0),
+	qty_after int not null check (qty_after > 0),
+	qty_change int not null check (qty_change <> 0),
+	reason text not null constraint inventory_adjustments_reason_check
+		check (reason in ('Damaged', 'Lost', 'Found', 'Count Correction', 'Receiving Error', 'Other')),
+	notes text,
+	photo_path text,
+	created_by uuid default auth.uid() references auth.users (id) on delete set null,
+	created_by_email text,
+	created_at timestamptz not null default now(),
+	check (qty_after = qty_before + qty_change)
+);
+
+create index if not exists inventory_adjustments_created_at_idx on public.inventory_adjustments (created_at desc);
+create index if not exists inventory_adjustments_pallet_idx on public.inventory_adjustments (pallet_id);
+create index if not exists inventory_adjustments_item_idx on public.inventory_adjustments (item_id);
+
+alter table public.inventory_adjustments enable row level security;
+
+create policy "inventory_adjustments_select_authenticated"
+	on public.inventory_adjustments for select
+	to authenticated
+	using (true);
+
+-- No insert/update/delete policies: rows come from wms_adjust_pallet only
+
+-- Adjust pallet qty
+-- Returns the inventory_adjustments row.
+create or replace function public.wms_adjust_pallet(
+	p_pallet_id uuid,
+	p_qty_change int,
+	p_reason text,
+	p_notes text default null,
+	p_photo_path text default null,
+	p_created_by_email text default null
+)
+returns public.inventory_adjustments
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_pallet public.pallets;
+	v_adjustment public.inventory_adjustments;
+begin
+	if auth.uid() is null then
+		raise exception 'Not signed in' using errcode = '42501';
+	end if;
+
+	select * into v_pallet from public.pallets where id = p_pallet_id for update;
+
+	if not found then
+		raise exception 'Pallet not found' using errcode = 'P0002';
+	end if;
+
+	if v_pallet.status not in ('Received', 'Stored', 'Staged') or v_pallet.manifest_id is not null then
+		raise exception 'Cannot adjust a % pallet',
+			case when v_pallet.manifest_id is not null then 'loaded' else v_pallet.status::text end
+			using errcode = 'P0001';
+	end if;
+
+	if p_qty_change is null or p_qty_change = 0 then
+		raise exception 'Adjustment must be a whole number other than 0' using errcode = '22023';
+	end if;
+
+	if v_pallet.qty + p_qty_change <= 0 then
+		raise exception 'Cannot take % off a pallet of %; write the pallet off instead', -p_qty_change, v_pallet.qty
+			using errcode = '22023';
+	end if;
+
+	if p_reason = 'Other' and nullif(trim(p_notes), '') is null then
+		raise exception 'Notes are required when the reason is Other' using errcode = '22023';
+	end if;
+
+	insert into public.inventory_adjustments (
+		pallet_id, item_id, qty_before, qty_after, qty_change, reason, notes, photo_path, created_by_email
+	)
+	values (
+		v_pallet.id, v_pallet.item_id, v_pallet.qty, v_pallet.qty + p_qty_change, p_qty_change, p_reason,
+		nullif(trim(p_notes), ''), p_photo_path, p_created_by_email
+	)
+	returning * into v_adjustment;
+
+	perform public.wms_audit_as('adjust', v_adjustment.reason || coalesce(': ' || v_adjustment.notes, ''));
+
+	update public.pallets
+	set qty = v_adjustment.qty_after
+	where id = p_pallet_id;
+
+	return v_adjustment;
+end;
+$$;
+
+grant execute on function public.wms_adjust_pallet(uuid, int, text, text, text, text) to authenticated;
+
+-- Adjustment photos (private bucket, signed-in users only)
+insert into storage.buckets (id, name, public)
+values ('adjustments', 'adjustments', false)
+on conflict (id) do nothing;
+
+create policy "adjustments_objects_select_authenticated"
+	on storage.objects for select
+	to authenticated
+	using (bucket_id = 'adjustments');
+
+create policy "adjustments_objects_insert_authenticated"
+	on storage.objects for insert
+	to authenticated
+	with check (bucket_id = 'adjustments');
+
+create policy "adjustments_objects_delete_authenticated"
+	on storage.objects for delete
+	to authenticated
+	using (bucket_id = 'adjustments');
@@ -0,0 +1,336 @@
+-- Write-off approvals
+--
+-- Pallets are no longer written off directly: Warehouse (or CS) requests a
+-- write-off, and an Admin or Customer Service lead approves or rejects it.
+-- Approval sets the pallet to WriteOff and takes it off its location,
+-- shipping order and manifest; an approved write-off can be reversed, which
+-- restores the prior status and location when the location is still active,
+-- unblocked and empty (otherwise the pallet comes back Received with no
+-- location). Request rows are written by the wms_*_write_off functions only.
+-- Every step is recorded on the pallet's audit trail: request_write_off,
+-- write_off (approval), reject_write_off and reverse_write_off.
+-- The rules match src/lib/api/write-offs.ts.
+
+-- Customer Service leads may approve write-offs
+alter table public.profiles add column if not exists is_lead boolean not null default false;
+
+-- Location flags the reversal checks (managed from 20261019220000_location_management)
+alter table public.locations
+	add column if not exists is_active boolean not null default true,
+	add column if not exists is_blocked boolean not null default false;
+
+create table if not exists public.write_off_requests (
+	id uuid primary key default gen_random_uuid(),
+	pallet_id uuid not null references public.pallets (id) on delete cascade,
+	item_id text not null references public.products (item_id),
+	qty int not null check (qty > 0),
+	reason text not null constraint write_off_requests_reason_check
+		check (reason in ('Damaged', 'Lost', 'Count Correction')),
+	notes text,
+	status text not null default 'Pending'
+		check (status in ('Pending', 'Approved', 'Rejected', 'Reversed')),
+	requested_by uuid default auth.uid() references auth.users (id) on delete set null,
+	requested_by_email text,
+	requested_at timestamptz not null default now(),
+	decided_by uuid references auth.users (id) on delete set null,
+	decided_by_email text,
+	decided_at timestamptz,
+	decision_notes text,
+	prior_status public.pallet_status,
+	prior_location_id text references public.locations (location_id) on delete set null,
+	reversed_by uuid references auth.users (id) on delete set null,
+	reversed_by_email text,
+	reversed_at timestamptz,
+	reversal_notes text
+);
+
+-- At most one pending request per pallet
+create unique index if not exists write_off_requests_pending_pallet_idx
+	on public.write_off_requests (pallet_id)
+	where status = 'Pending';
+create index if not exists write_off_requests_requested_at_idx on public.write_off_requests (requested_at desc);
+create index if not exists write_off_requests_status_idx on public.write_off_requests (status);
+
+alter table public.write_off_requests enable row level security;
+
+create policy "write_off_requests_select_authenticated"
+	on public.write_off_requests for select
+	to authenticated
+	using (true);
+
+-- No insert/update/delete policies: rows come from the functions below only
+
+-- Requests and rejections leave the pallet as it is, so they are audited here
+create or replace function public.wms_audit_write_off_request()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+	if tg_op = 'INSERT' then
+		perform public.wms_record_audit_event(
+			'pallet', new.pallet_id::text, 'request_write_off', null,
+			jsonb_build_object('write_off_request_id', new.id, 'qty', new.qty),
+			new.reason || coalesce(': ' || new.notes, '')
+		);
+	elsif new.status = 'Rejected' and old.status <> 'Rejected' then
+		perform public.wms_record_audit_event(
+			'pallet', new.pallet_id::text, 'reject_write_off', null,
+			jsonb_build_object('write_off_request_id', new.id), new.decision_notes
+		);
+	end if;
+	return null;
+end;
+$$;
+
+drop trigger if exists write_off_requests_audit on public.write_off_requests;
+create trigger write_off_requests_audit
+	after insert or update of status on public.write_off_requests
+	for each row
+	execute function public.wms_audit_write_off_request();
+
+-- Admins and Customer Service leads approve, reject and reverse write-offs
+create or replace function public.wms_can_approve_write_offs()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+	select exists (
+		select 1 from public.profiles p
+		where p.id = auth.uid()
+			and (p.role = 'Admin' or (p.role = 'Customer Service' and p.is_lead))
+	);
+$$;
+
+-- Request a write-off
+-- Returns the pending write_off_requests row.
+create or replace function public.wms_request_write_off(
+	p_pallet_id uuid,
+	p_reason text,
+	p_notes text default null,
+	p_requested_by_email text default null
+)
+returns public.write_off_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_pallet public.pallets;
+	v_request public.write_off_requests;
+begin
+	if auth.uid() is null then
+		raise exception 'Not signed in' using errcode = '42501';
+	end if;
+
+	select * into v_pallet from public.pallets where id = p_pallet_id for update;
+
+	if not found then
+		raise exception 'Pallet not found' using errcode = 'P0002';
+	end if;
+
+	if v_pallet.status not in ('Received', 'Stored', 'Staged', 'Loaded') then
+		raise exception 'Cannot write off a % pallet', v_pallet.status using errcode = 'P0001';
+	end if;
+
+	if exists (select 1 from public.write_off_requests where pallet_id = p_pallet_id and status = 'Pending') then
+		raise exception 'This pallet already has a pending write-off request' using errcode = 'P0001';
+	end if;
+
+	insert into public.write_off_requests (pallet_id, item_id, qty, reason, notes, requested_by_email)
+	values (v_pallet.id, v_pallet.item_id, v_pallet.qty, p_reason, nullif(trim(p_notes), ''), p_requested_by_email)
+	returning * into v_request;
+
+	return v_request;
+end;
+$$;
+
+-- Approve a write-off: the pallet becomes WriteOff and leaves its location, shipping order and manifest
+-- Returns the approved write_off_requests row.
+create or replace function public.wms_approve_write_off(
+	p_request_id uuid,
+	p_notes text default null,
+	p_decided_by_email text default null
+)
+returns public.write_off_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_request public.write_off_requests;
+	v_pallet public.pallets;
+begin
+	if not public.wms_can_approve_write_offs() then
+		raise exception 'Only an Admin or Customer Service lead can approve write-offs' using errcode = '42501';
+	end if;
+
+	select * into v_request from public.write_off_requests where id = p_request_id for update;
+
+	if not found then
+		raise exception 'Write-off request not found' using errcode = 'P0002';
+	end if;
+
+	if v_request.status <> 'Pending' then
+		raise exception 'Cannot approve a write-off request that is %', v_request.status using errcode = 'P0001';
+	end if;
+
+	select * into v_pallet from public.pallets where id = v_request.pallet_id for update;
+
+	if v_pallet.status not in ('Received', 'Stored', 'Staged', 'Loaded') then
+		raise exception 'Cannot write off a % pallet', v_pallet.status using errcode = 'P0001';
+	end if;
+
+	update public.write_off_requests
+	set status = 'Approved',
+		decided_by = auth.uid(),
+		decided_by_email = p_decided_by_email,
+		decided_at = now(),
+		decision_notes = nullif(trim(p_notes), ''),
+		prior_status = v_pallet.status,
+		prior_location_id = v_pallet.location_id
+	where id = p_request_id
+	returning * into v_request;
+
+	perform public.wms_audit_as('write_off', v_request.reason || coalesce(': ' || v_request.notes, ''));
+
+	update public.pallets
+	set status = 'WriteOff', location_id = null, shipping_order_id = null, manifest_id = null
+	where id = v_pallet.id;
+
+	return v_request;
+end;
+$$;
+
+-- Reject a write-off; the pallet is left as it is
+-- Returns the rejected write_off_requests row.
+create or replace function public.wms_reject_write_off(
+	p_request_id uuid,
+	p_notes text default null,
+	p_decided_by_email text default null
+)
+returns public.write_off_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_request public.write_off_requests;
+begin
+	if not public.wms_can_approve_write_offs() then
+		raise exception 'Only an Admin or Customer Service lead can reject write-offs' using errcode = '42501';
+	end if;
+
+	select * into v_request from public.write_off_requests where id = p_request_id for update;
+
+	if not found then
+		raise exception 'Write-off request not found' using errcode = 'P0002';
+	end if;
+
+	if v_request.status <> 'Pending' then
+		raise exception 'Cannot reject a write-off request that is %', v_request.status using errcode = 'P0001';
+	end if;
+
+	update public.write_off_requests
+	set status = 'Rejected',
+		decided_by = auth.uid(),
+		decided_by_email = p_decided_by_email,
+		decided_at = now(),
+		decision_notes = nullif(trim(p_notes), '')
+	where id = p_request_id
+	returning * into v_request;
+
+	return v_request;
+end;
+$$;
+
+-- Reverse an approved write-off: the pallet gets its prior status and location
+-- back if it was Received or Stored and the location is still active,
+-- unblocked and empty (no pallet on the floor there: Received, Stored or
+-- Staged and not on a manifest).
+-- Otherwise it comes back Received with no location, to be put away again.
+-- Returns the reversed write_off_requests row.
+create or replace function public.wms_reverse_write_off(
+	p_request_id uuid,
+	p_notes text default null,
+	p_reversed_by_email text default null
+)
+returns public.write_off_requests
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_request public.write_off_requests;
+	v_pallet public.pallets;
+	v_status public.pallets.status%type := 'Received';
+	v_location_id text;
+begin
+	if not public.wms_can_approve_write_offs() then
+		raise exception 'Only an Admin or Customer Service lead can reverse write-offs' using errcode = '42501';
+	end if;
+
+	select * into v_request from public.write_off_requests where id = p_request_id for update;
+
+	if not found then
+		raise exception 'Write-off request not found' using errcode = 'P0002';
+	end if;
+
+	if v_request.status <> 'Approved' then
+		raise exception 'Cannot reverse a write-off request that is %', v_request.status using errcode = 'P0001';
+	end if;
+
+	select * into v_pallet from public.pallets where id = v_request.pallet_id for update;
+
+	if v_pallet.status <> 'WriteOff' or v_request.prior_status is null then
+		raise exception 'Pallet is no longer written off' using errcode = 'P0001';
+	end if;
+
+	update public.write_off_requests
+	set status = 'Reversed',
+		reversed_by = auth.uid(),
+		reversed_by_email = p_reversed_by_email,
+		reversed_at = now(),
+		reversal_notes = nullif(trim(p_notes), '')
+	where id = p_request_id
+	returning * into v_request;
+
+	if v_request.prior_status in ('Received', 'Stored') and (
+		v_request.prior_location_id is null
+		or exists (
+			select 1
+			from public.locations l
+			where l.location_id = v_request.prior_location_id
+				and l.is_active
+				and not l.is_blocked
+				and not exists (
+					select 1 from public.pallets p
+					where p.location_id = l.location_id
+						and p.id <> v_pallet.id
+						and p.status in ('Received', 'Stored', 'Staged')
+						and p.manifest_id is null
+				)
+		)
+	) then
+		v_status := v_request.prior_status;
+		v_location_id := v_request.prior_location_id;
+	end if;
+
+	perform public.wms_audit_as('reverse_write_off', v_request.reversal_notes);
+
+	update public.pallets
+	set status = v_status, location_id = v_location_id
+	where id = v_pallet.id;
+
+	return v_request;
+end;
+$$;
+
+grant execute on function public.wms_can_approve_write_offs() to authenticated;
+grant execute on function public.wms_request_write_off(uuid, text, text, text) to authenticated;
+grant execute on function public.wms_approve_write_off(uuid, text, text) to authenticated;
+grant execute on function public.wms_reject_write_off(uuid, text, text) to authenticated;
+grant execute on function public.wms_reverse_write_off(uuid, text, text) to authenticated;
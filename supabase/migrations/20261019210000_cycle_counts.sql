@@ -0,0 +1,435 @@
+-- Cycle counts
+--
+-- A count task covers a rack, a range of rack locations (ordered by rack,
+-- level, position) or every location holding an item. Warehouse counts it
+-- blind on the tablet and submits one entry per pallet found; each pallet in
+-- scope gets a cycle_count_lines row comparing the count with the system
+-- (missing pallets get counted_qty 0 and no location). Customer Service
+-- approves the variances, which posts Count Correction adjustments, moves
+-- misplaced pallets and requests write-offs of missing ones, or rejects them.
+-- Rows are written by the wms_*_cycle_count functions only. The rules match
+-- src/lib/api/cycle-counts.ts.
+
+create table if not exists public.cycle_counts (
+	id uuid primary key default gen_random_uuid(),
+	scope text not null check (scope in ('Rack', 'Range', 'Item')),
+	rack int,
+	from_location_id text references public.locations (location_id),
+	to_location_id text references public.locations (location_id),
+	item_id text references public.products (item_id),
+	location_ids text[] not null,
+	status text not null default 'Open' check (status in ('Open', 'Submitted', 'Approved', 'Rejected')),
+	notes text,
+	created_by uuid default auth.uid() references auth.users (id) on delete set null,
+	created_by_email text,
+	created_at timestamptz not null default now(),
+	counted_by uuid references auth.users (id) on delete set null,
+	counted_by_email text,
+	counted_at timestamptz,
+	decided_by uuid references auth.users (id) on delete set null,
+	decided_by_email text,
+	decided_at timestamptz,
+	decision_notes text
+);
+
+create table if not exists public.cycle_count_lines (
+	id uuid primary key default gen_random_uuid(),
+	cycle_count_id uuid not null references public.cycle_counts (id) on delete cascade,
+	pallet_id uuid not null references public.pallets (id) on delete cascade,
+	item_id text not null references public.products (item_id),
+	location_id text references public.locations (location_id),
+	system_location_id text references public.locations (location_id),
+	system_qty int not null,
+	counted_qty int not null check (counted_qty >= 0),
+	qty_variance int not null,
+	unique (cycle_count_id, pallet_id),
+	check (qty_variance = counted_qty - system_qty)
+);
+
+create index if not exists cycle_counts_created_at_idx on public.cycle_counts (created_at desc);
+create index if not exists cycle_counts_status_idx on public.cycle_counts (status);
+create index if not exists cycle_count_lines_count_idx on public.cycle_count_lines (cycle_count_id);
+
+alter table public.cycle_counts enable row level security;
+alter table public.cycle_count_lines enable row level security;
+
+create policy "cycle_counts_select_authenticated"
+	on public.cycle_counts for select
+	to authenticated
+	using (true);
+
+create policy "cycle_count_lines_select_authenticated"
+	on public.cycle_count_lines for select
+	to authenticated
+	using (true);
+
+-- No insert/update/delete policies: rows come from the functions below only
+
+-- Pallets that can be counted: on the floor, not loaded, shipped, written off or merged
+create or replace function public.wms_is_countable(p_pallet public.pallets)
+returns boolean
+language sql
+immutable
+as $$
+	select p_pallet.location_id is not null
+		and p_pallet.status in ('Received', 'Stored', 'Staged')
+		and p_pallet.manifest_id is null;
+$$;
+
+-- Customer Service and Admins approve and reject counts
+create or replace function public.wms_can_approve_cycle_counts()
+returns boolean
+language sql
+stable
+security definer
+set search_path = public
+as $$
+	select exists (
+		select 1 from public.profiles p
+		where p.id = auth.uid() and p.role in ('Admin', 'Customer Service')
+	);
+$$;
+
+-- 1. Create count task
+-- Returns the Open cycle_counts row with the locations it covers.
+create or replace function public.wms_create_cycle_count(
+	p_scope text,
+	p_rack int default null,
+	p_from_location_id text default null,
+	p_to_location_id text default null,
+	p_item_id text default null,
+	p_notes text default null,
+	p_created_by_email text default null
+)
+returns public.cycle_counts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_from public.locations;
+	v_to public.locations;
+	v_location_ids text[];
+	v_count public.cycle_counts;
+begin
+	if auth.uid() is null then
+		raise exception 'Not signed in' using errcode = '42501';
+	end if;
+
+	if p_scope = 'Rack' then
+		if p_rack is null then
+			raise exception 'Rack is required' using errcode = '22023';
+		end if;
+
+		select array_agg(l.location_id order by l.level, l.position, l.location_id) into v_location_ids
+		from public.locations l
+		where l.type = 'RACK' and l.rack = p_rack and l.is_active is not false;
+	elsif p_scope = 'Range' then
+		select * into v_from from public.locations where location_id = p_from_location_id and type = 'RACK';
+		select * into v_to from public.locations where location_id = p_to_location_id and type = 'RACK';
+
+		if v_from.location_id is null or v_to.location_id is null then
+			raise exception 'Range must start and end at a rack location' using errcode = '22023';
+		end if;
+
+		select array_agg(l.location_id order by l.rack, l.level, l.position, l.location_id) into v_location_ids
+		from public.locations l
+		where l.type = 'RACK'
+			and l.is_active is not false
+			and (l.rack, l.level, l.position)
+				between symmetric (v_from.rack, v_from.level, v_from.position) and (v_to.rack, v_to.level, v_to.position);
+	elsif p_scope = 'Item' then
+		if p_item_id is null then
+			raise exception 'Item is required' using errcode = '22023';
+		end if;
+
+		select array_agg(l.location_id order by l.type desc, l.rack, l.level, l.position, l.location_id)
+		into v_location_ids
+		from public.locations l
+		where l.is_active is not false
+			and exists (
+				select 1 from public.pallets p
+				where p.location_id = l.location_id and p.item_id = p_item_id and public.wms_is_countable(p)
+			);
+	else
+		raise exception 'Unknown cycle count scope %', p_scope using errcode = '22023';
+	end if;
+
+	if coalesce(array_length(v_location_ids, 1), 0) = 0 then
+		raise exception 'There are no locations to count in this scope' using errcode = '22023';
+	end if;
+
+	insert into public.cycle_counts (
+		scope, rack, from_location_id, to_location_id, item_id, location_ids, notes, created_by_email
+	)
+	values (
+		p_scope,
+		case when p_scope = 'Rack' then p_rack end,
+		case when p_scope = 'Range' then p_from_location_id end,
+		case when p_scope = 'Range' then p_to_location_id end,
+		case when p_scope = 'Item' then p_item_id end,
+		v_location_ids,
+		nullif(trim(p_notes), ''),
+		p_created_by_email
+	)
+	returning * into v_count;
+
+	return v_count;
+end;
+$$;
+
+-- 2. Submit blind count
+-- p_entries: [{ "location_id", "pallet_id" (full ID or its last 8+ characters), "qty" }]
+-- Counts without variances are approved straight away.
+-- Returns the cycle_counts row with its "lines".
+create or replace function public.wms_submit_cycle_count(
+	p_count_id uuid,
+	p_entries jsonb,
+	p_counted_by_email text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_count public.cycle_counts;
+	v_entry record;
+	v_matches int;
+	v_pallet public.pallets;
+begin
+	if auth.uid() is null then
+		raise exception 'Not signed in' using errcode = '42501';
+	end if;
+
+	select * into v_count from public.cycle_counts where id = p_count_id for update;
+
+	if not found then
+		raise exception 'Cycle count not found' using errcode = 'P0002';
+	end if;
+
+	if v_count.status <> 'Open' then
+		raise exception 'Cannot submit a cycle count that is %', v_count.status using errcode = 'P0001';
+	end if;
+
+	for v_entry in
+		select * from jsonb_to_recordset(coalesce(p_entries, '[]'::jsonb)) as e(location_id text, pallet_id text, qty int)
+	loop
+		if not (v_entry.location_id = any (v_count.location_ids)) then
+			raise exception 'Location % is not part of this count', v_entry.location_id using errcode = '22023';
+		end if;
+
+		if v_entry.qty is null or v_entry.qty <= 0 then
+			raise exception 'Qty of pallet % must be a whole number above 0', v_entry.pallet_id using errcode = '22023';
+		end if;
+
+		select count(*) into v_matches
+		from public.pallets p
+		where p.id::text = lower(trim(v_entry.pallet_id))
+			or (length(trim(v_entry.pallet_id)) >= 8 and p.id::text like '%' || lower(trim(v_entry.pallet_id)));
+
+		select * into v_pallet
+		from public.pallets p
+		where p.id::text = lower(trim(v_entry.pallet_id))
+			or (v_matches = 1 and p.id::text like '%' || lower(trim(v_entry.pallet_id)))
+		for update;
+
+		if v_pallet.id is null then
+			raise exception 'Pallet % not found', v_entry.pallet_id using errcode = '22023';
+		end if;
+
+		if v_pallet.status not in ('Received', 'Stored', 'Staged') or v_pallet.manifest_id is not null then
+			raise exception 'Pallet % is %', v_entry.pallet_id,
+				case when v_pallet.manifest_id is not null then 'loaded' else v_pallet.status::text end
+				using errcode = '22023';
+		end if;
+
+		if v_count.scope = 'Item' and v_pallet.item_id <> v_count.item_id then
+			raise exception 'Pallet % is %, not %', v_entry.pallet_id, v_pallet.item_id, v_count.item_id
+				using errcode = '22023';
+		end if;
+
+		if exists (select 1 from public.cycle_count_lines where cycle_count_id = p_count_id and pallet_id = v_pallet.id) then
+			raise exception 'Pallet % was counted twice', v_entry.pallet_id using errcode = '22023';
+		end if;
+
+		insert into public.cycle_count_lines (
+			cycle_count_id, pallet_id, item_id, location_id, system_location_id, system_qty, counted_qty, qty_variance
+		)
+		values (
+			p_count_id, v_pallet.id, v_pallet.item_id, v_entry.location_id, v_pallet.location_id, v_pallet.qty,
+			v_entry.qty, v_entry.qty - v_pallet.qty
+		);
+
+		v_pallet := null;
+	end loop;
+
+	-- Expected but not counted
+	insert into public.cycle_count_lines (
+		cycle_count_id, pallet_id, item_id, location_id, system_location_id, system_qty, counted_qty, qty_variance
+	)
+	select p_count_id, p.id, p.item_id, null, p.location_id, p.qty, 0, -p.qty
+	from public.pallets p
+	where public.wms_is_countable(p)
+		and p.location_id = any (v_count.location_ids)
+		and (v_count.scope <> 'Item' or p.item_id = v_count.item_id)
+		and not exists (select 1 from public.cycle_count_lines l where l.cycle_count_id = p_count_id and l.pallet_id = p.id);
+
+	update public.cycle_counts
+	set status = case
+			when exists (
+				select 1 from public.cycle_count_lines l
+				where l.cycle_count_id = p_count_id
+					and (l.qty_variance <> 0 or l.location_id is distinct from l.system_location_id)
+			) then 'Submitted'
+			else 'Approved'
+		end,
+		counted_by = auth.uid(),
+		counted_by_email = p_counted_by_email,
+		counted_at = now()
+	where id = p_count_id
+	returning * into v_count;
+
+	return to_jsonb(v_count) || jsonb_build_object(
+		'lines',
+		(select coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) from public.cycle_count_lines l where l.cycle_count_id = p_count_id)
+	);
+end;
+$$;
+
+-- 3. Approve count variances
+-- Per variance line: request a write-off of a missing pallet, move a misplaced
+-- pallet to where it was counted and post a Count Correction adjustment of a
+-- qty difference.
+-- Returns { "count", "adjustments", "writeOffRequests", "moves": [{ "pallet_id", "from", "to" }] }.
+create or replace function public.wms_approve_cycle_count(
+	p_count_id uuid,
+	p_notes text default null,
+	p_decided_by_email text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_count public.cycle_counts;
+	v_line public.cycle_count_lines;
+	v_pallet public.pallets;
+	v_notes text := 'Cycle count ' || right(p_count_id::text, 8);
+	v_adjustment public.inventory_adjustments;
+	v_request public.write_off_requests;
+	v_adjustments jsonb := '[]'::jsonb;
+	v_requests jsonb := '[]'::jsonb;
+	v_moves jsonb := '[]'::jsonb;
+begin
+	if not public.wms_can_approve_cycle_counts() then
+		raise exception 'Only Customer Service or an Admin can approve cycle counts' using errcode = '42501';
+	end if;
+
+	select * into v_count from public.cycle_counts where id = p_count_id for update;
+
+	if not found then
+		raise exception 'Cycle count not found' using errcode = 'P0002';
+	end if;
+
+	if v_count.status <> 'Submitted' then
+		raise exception 'Cannot approve a cycle count that is %', v_count.status using errcode = 'P0001';
+	end if;
+
+	for v_line in
+		select * from public.cycle_count_lines
+		where cycle_count_id = p_count_id
+			and (qty_variance <> 0 or location_id is distinct from system_location_id)
+		order by id
+	loop
+		select * into v_pallet from public.pallets where id = v_line.pallet_id for update;
+
+		if v_line.location_id is null then
+			-- Not found: someone has to sign the write-off off
+			if not exists (select 1 from public.write_off_requests where pallet_id = v_pallet.id and status = 'Pending') then
+				v_request := public.wms_request_write_off(v_pallet.id, 'Count Correction', 'Not found in ' || v_notes, p_decided_by_email);
+				v_requests := v_requests || to_jsonb(v_request);
+			end if;
+			continue;
+		end if;
+
+		if v_line.location_id is distinct from v_pallet.location_id then
+			v_moves := v_moves || jsonb_build_object('pallet_id', v_pallet.id, 'from', v_pallet.location_id, 'to', v_line.location_id);
+			perform public.wms_audit_as('move', v_notes);
+			update public.pallets set location_id = v_line.location_id where id = v_pallet.id;
+		end if;
+
+		if v_line.counted_qty <> v_pallet.qty then
+			v_adjustment := public.wms_adjust_pallet(
+				v_pallet.id, v_line.counted_qty - v_pallet.qty, 'Count Correction', v_notes, null, p_decided_by_email
+			);
+			v_adjustments := v_adjustments || to_jsonb(v_adjustment);
+		end if;
+	end loop;
+
+	update public.cycle_counts
+	set status = 'Approved',
+		decided_by = auth.uid(),
+		decided_by_email = p_decided_by_email,
+		decided_at = now(),
+		decision_notes = nullif(trim(p_notes), '')
+	where id = p_count_id
+	returning * into v_count;
+
+	return jsonb_build_object(
+		'count', to_jsonb(v_count),
+		'adjustments', v_adjustments,
+		'writeOffRequests', v_requests,
+		'moves', v_moves
+	);
+end;
+$$;
+
+-- 4. Reject count variances; pallets are left as they are
+-- Returns the rejected cycle_counts row.
+create or replace function public.wms_reject_cycle_count(
+	p_count_id uuid,
+	p_notes text default null,
+	p_decided_by_email text default null
+)
+returns public.cycle_counts
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_count public.cycle_counts;
+begin
+	if not public.wms_can_approve_cycle_counts() then
+		raise exception 'Only Customer Service or an Admin can reject cycle counts' using errcode = '42501';
+	end if;
+
+	select * into v_count from public.cycle_counts where id = p_count_id for update;
+
+	if not found then
+		raise exception 'Cycle count not found' using errcode = 'P0002';
+	end if;
+
+	if v_count.status <> 'Submitted' then
+		raise exception 'Cannot reject a cycle count that is %', v_count.status using errcode = 'P0001';
+	end if;
+
+	update public.cycle_counts
+	set status = 'Rejected',
+		decided_by = auth.uid(),
+		decided_by_email = p_decided_by_email,
+		decided_at = now(),
+		decision_notes = nullif(trim(p_notes), '')
+	where id = p_count_id
+	returning * into v_count;
+
+	return v_count;
+end;
+$$;
+
+grant execute on function public.wms_can_approve_cycle_counts() to authenticated;
+grant execute on function public.wms_create_cycle_count(text, int, text, text, text, text, text) to authenticated;
+grant execute on function public.wms_submit_cycle_count(uuid, jsonb, text) to authenticated;
+grant execute on function public.wms_approve_cycle_count(uuid, text, text) to authenticated;
+grant execute on function public.wms_reject_cycle_count(uuid, text, text) to authenticated;
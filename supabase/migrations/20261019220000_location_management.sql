@@ -0,0 +1,50 @@
+-- Location management
+--
+-- Admins add locations (bulk-generated from a rack/level/position or aisle
+-- zone pattern), block damaged slots and retire locations that are no longer
+-- used. Blocked and retired locations take no new pallets (checked at
+-- put-away); a location cannot be retired while pallets sit on it. The rules
+-- match src/lib/api/location-layout.ts.
+
+alter table public.locations
+	add column if not exists is_active boolean not null default true,
+	add column if not exists is_blocked boolean not null default false;
+
+create policy "locations_insert_admin"
+	on public.locations for insert
+	to authenticated
+	with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin'));
+
+create policy "locations_update_admin"
+	on public.locations for update
+	to authenticated
+	using (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin'))
+	with check (exists (select 1 from public.profiles p where p.id = auth.uid() and p.role = 'Admin'));
+
+-- Refuse to retire a location that still holds pallets
+create or replace function public.wms_check_location_retire()
+returns trigger
+language plpgsql
+as $$
+declare
+	v_held int;
+begin
+	if new.is_active = false and old.is_active is distinct from false then
+		select count(*) into v_held
+		from public.pallets p
+		where p.location_id = new.location_id and public.wms_is_countable(p);
+
+		if v_held > 0 then
+			raise exception 'Location % still holds % pallet(s)', new.location_id, v_held using errcode = 'P0001';
+		end if;
+	end if;
+
+	return new;
+end;
+$$;
+
+drop trigger if exists locations_retire_check on public.locations;
+create trigger locations_retire_check
+	before update of is_active on public.locations
+	for each row
+	execute function public.wms_check_location_retire();
@@ -0,0 +1,228 @@
+-- Pallet license plate numbers
+--
+-- Every pallet gets a human-readable license plate number (LPN) on insert:
+-- <warehouse code>-P-<number>, e.g. W1-P-000123. Numbers run per warehouse
+-- (pallet_lpn_sequences) and are never reused. A pallet belongs to the
+-- warehouse of its location, or to the first warehouse while it has none.
+-- Existing pallets are backfilled in created_at order. The rules match
+-- src/lib/api/pallet-lpn.ts.
+
+create table if not exists public.pallet_lpn_sequences (
+	warehouse_id uuid primary key references public.warehouses (id) on delete cascade,
+	last_value bigint not null default 0
+);
+
+alter table public.pallet_lpn_sequences enable row level security;
+
+-- No policies: numbers are handed out by the trigger below only
+
+alter table public.pallets add column if not exists lpn text;
+
+create or replace function public.wms_next_lpn(p_location_id text)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_warehouse public.warehouses;
+	v_number bigint;
+begin
+	select w.* into v_warehouse
+	from public.warehouses w
+	join public.locations l on l.warehouse_id = w.id
+	where l.location_id = p_location_id;
+
+	if v_warehouse.id is null then
+		select * into v_warehouse from public.warehouses order by created_at, id limit 1;
+	end if;
+
+	if v_warehouse.id is null then
+		raise exception 'No warehouse to number pallets in' using errcode = 'P0002';
+	end if;
+
+	insert into public.pallet_lpn_sequences as s (warehouse_id, last_value)
+	values (v_warehouse.id, 1)
+	on conflict (warehouse_id) do update set last_value = s.last_value + 1
+	returning last_value into v_number;
+
+	return v_warehouse.code || '-P-' || lpad(v_number::text, 6, '0');
+end;
+$$;
+
+-- Assign the LPN on insert (create and split); once set it never changes
+create or replace function public.pallets_assign_lpn()
+returns trigger
+language plpgsql
+as $$
+begin
+	if tg_op = 'INSERT' then
+		new.lpn := public.wms_next_lpn(new.location_id);
+	elsif old.lpn is not null and new.lpn is distinct from old.lpn then
+		raise exception 'A pallet''s LPN cannot change' using errcode = 'P0001';
+	end if;
+	return new;
+end;
+$$;
+
+drop trigger if exists pallets_assign_lpn on public.pallets;
+create trigger pallets_assign_lpn
+	before insert or update of lpn on public.pallets
+	for each row
+	execute function public.pallets_assign_lpn();
+
+-- Backfill: existing pallets, oldest first (kept off the audit trail: no one made these changes)
+alter table public.pallets disable trigger pallets_audit;
+
+do $$
+declare
+	v_pallet record;
+begin
+	for v_pallet in select id, location_id from public.pallets where lpn is null order by created_at, id loop
+		update public.pallets set lpn = public.wms_next_lpn(v_pallet.location_id) where id = v_pallet.id;
+	end loop;
+end;
+$$;
+
+alter table public.pallets enable trigger pallets_audit;
+
+alter table public.pallets alter column lpn set not null;
+
+create unique index if not exists pallets_lpn_key on public.pallets (lpn);
+
+-- Cycle counts: counters may also enter the LPN
+-- p_entries: [{ "location_id", "pallet_id" (full ID, its last 8+ characters or the LPN), "qty" }]
+create or replace function public.wms_submit_cycle_count(
+	p_count_id uuid,
+	p_entries jsonb,
+	p_counted_by_email text default null
+)
+returns jsonb
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_count public.cycle_counts;
+	v_entry record;
+	v_matches int;
+	v_pallet public.pallets;
+begin
+	if auth.uid() is null then
+		raise exception 'Not signed in' using errcode = '42501';
+	end if;
+
+	select * into v_count from public.cycle_counts where id = p_count_id for update;
+
+	if not found then
+		raise exception 'Cycle count not found' using errcode = 'P0002';
+	end if;
+
+	if v_count.status <> 'Open' then
+		raise exception 'Cannot submit a cycle count that is %', v_count.status using errcode = 'P0001';
+	end if;
+
+	for v_entry in
+		select * from jsonb_to_recordset(coalesce(p_entries, '[]'::jsonb)) as e(location_id text, pallet_id text, qty int)
+	loop
+		if not (v_entry.location_id = any (v_count.location_ids)) then
+			raise exception 'Location % is not part of this count', v_entry.location_id using errcode = '22023';
+		end if;
+
+		if v_entry.qty is null or v_entry.qty <= 0 then
+			raise exception 'Qty of pallet % must be a whole number above 0', v_entry.pallet_id using errcode = '22023';
+		end if;
+
+		-- A full id or LPN wins; otherwise the last 8+ characters of the id must name exactly one pallet
+		select count(*) into v_matches
+		from public.pallets p
+		where p.id::text = lower(trim(v_entry.pallet_id))
+			or p.lpn = upper(trim(v_entry.pallet_id))
+			or (
+				length(trim(v_entry.pallet_id)) >= 8
+				and p.id::text like '%' || lower(trim(v_entry.pallet_id))
+				and not exists (
+					select 1 from public.pallets x
+					where x.id::text = lower(trim(v_entry.pallet_id)) or x.lpn = upper(trim(v_entry.pallet_id))
+				)
+			);
+
+		if v_matches = 0 then
+			raise exception 'Pallet % not found', v_entry.pallet_id using errcode = '22023';
+		elsif v_matches > 1 then
+			raise exception 'Pallet id % is ambiguous: % pallets match; enter the full id or the LPN', v_entry.pallet_id, v_matches
+				using errcode = '22023';
+		end if;
+
+		select * into strict v_pallet
+		from public.pallets p
+		where p.id::text = lower(trim(v_entry.pallet_id))
+			or p.lpn = upper(trim(v_entry.pallet_id))
+			or (
+				length(trim(v_entry.pallet_id)) >= 8
+				and p.id::text like '%' || lower(trim(v_entry.pallet_id))
+				and not exists (
+					select 1 from public.pallets x
+					where x.id::text = lower(trim(v_entry.pallet_id)) or x.lpn = upper(trim(v_entry.pallet_id))
+				)
+			)
+		for update;
+
+		if v_pallet.status not in ('Received', 'Stored', 'Staged') or v_pallet.manifest_id is not null then
+			raise exception 'Pallet % is %', v_entry.pallet_id,
+				case when v_pallet.manifest_id is not null then 'loaded' else v_pallet.status::text end
+				using errcode = '22023';
+		end if;
+
+		if v_count.scope = 'Item' and v_pallet.item_id <> v_count.item_id then
+			raise exception 'Pallet % is %, not %', v_entry.pallet_id, v_pallet.item_id, v_count.item_id
+				using errcode = '22023';
+		end if;
+
+		if exists (select 1 from public.cycle_count_lines where cycle_count_id = p_count_id and pallet_id = v_pallet.id) then
+			raise exception 'Pallet % was counted twice', v_entry.pallet_id using errcode = '22023';
+		end if;
+
+		insert into public.cycle_count_lines (
+			cycle_count_id, pallet_id, item_id, location_id, system_location_id, system_qty, counted_qty, qty_variance
+		)
+		values (
+			p_count_id, v_pallet.id, v_pallet.item_id, v_entry.location_id, v_pallet.location_id, v_pallet.qty,
+			v_entry.qty, v_entry.qty - v_pallet.qty
+		);
+
+		v_pallet := null;
+	end loop;
+
+	-- Expected but not counted
+	insert into public.cycle_count_lines (
+		cycle_count_id, pallet_id, item_id, location_id, system_location_id, system_qty, counted_qty, qty_variance
+	)
+	select p_count_id, p.id, p.item_id, null, p.location_id, p.qty, 0, -p.qty
+	from public.pallets p
+	where public.wms_is_countable(p)
+		and p.location_id = any (v_count.location_ids)
+		and (v_count.scope <> 'Item' or p.item_id = v_count.item_id)
+		and not exists (select 1 from public.cycle_count_lines l where l.cycle_count_id = p_count_id and l.pallet_id = p.id);
+
+	update public.cycle_counts
+	set status = case
+			when exists (
+				select 1 from public.cycle_count_lines l
+				where l.cycle_count_id = p_count_id
+					and (l.qty_variance <> 0 or l.location_id is distinct from l.system_location_id)
+			) then 'Submitted'
+			else 'Approved'
+		end,
+		counted_by = auth.uid(),
+		counted_by_email = p_counted_by_email,
+		counted_at = now()
+	where id = p_count_id
+	returning * into v_count;
+
+	return to_jsonb(v_count) || jsonb_build_object(
+		'lines',
+		(select coalesce(jsonb_agg(to_jsonb(l)), '[]'::jsonb) from public.cycle_count_lines l where l.cycle_count_id = p_count_id)
+	);
+end;
+$$;
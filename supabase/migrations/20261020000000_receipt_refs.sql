@@ -0,0 +1,77 @@
+-- Receiving order receipt references
+--
+-- Every receiving order gets a human-friendly receipt reference on insert:
+-- RCV-<year>-<number>, e.g. RCV-2026-0042. Numbers run per calendar year of
+-- created_at (UTC, receipt_ref_sequences) and are never reused, so a container
+-- that comes back later gets a new reference. Existing orders are backfilled
+-- in created_at order. The rules match src/lib/api/receipt-ref.ts.
+
+create table if not exists public.receipt_ref_sequences (
+	year int primary key,
+	last_value bigint not null default 0
+);
+
+alter table public.receipt_ref_sequences enable row level security;
+
+-- No policies: numbers are handed out by the trigger below only
+
+alter table public.receiving_orders add column if not exists receipt_ref text;
+
+create or replace function public.wms_next_receipt_ref(p_created_at timestamptz)
+returns text
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+	v_year int := extract(year from coalesce(p_created_at, now()) at time zone 'UTC');
+	v_number bigint;
+begin
+	insert into public.receipt_ref_sequences as s (year, last_value)
+	values (v_year, 1)
+	on conflict (year) do update set last_value = s.last_value + 1
+	returning last_value into v_number;
+
+	return 'RCV-' || v_year || '-' || lpad(v_number::text, 4, '0');
+end;
+$$;
+
+-- Assign the reference on insert; once set it never changes
+create or replace function public.receiving_orders_assign_receipt_ref()
+returns trigger
+language plpgsql
+as $$
+begin
+	if tg_op = 'INSERT' then
+		new.receipt_ref := public.wms_next_receipt_ref(coalesce(new.created_at, now()));
+	elsif old.receipt_ref is not null and new.receipt_ref is distinct from old.receipt_ref then
+		raise exception 'A receiving order''s receipt ref cannot change' using errcode = 'P0001';
+	end if;
+	return new;
+end;
+$$;
+
+drop trigger if exists receiving_orders_assign_receipt_ref on public.receiving_orders;
+create trigger receiving_orders_assign_receipt_ref
+	before insert or update of receipt_ref on public.receiving_orders
+	for each row
+	execute function public.receiving_orders_assign_receipt_ref();
+
+-- Backfill: existing orders, oldest first (kept off the audit trail: no one made these changes)
+alter table public.receiving_orders disable trigger receiving_orders_audit;
+
+do $$
+declare
+	v_order record;
+begin
+	for v_order in select id, created_at from public.receiving_orders where receipt_ref is null order by created_at, id loop
+		update public.receiving_orders set receipt_ref = public.wms_next_receipt_ref(v_order.created_at) where id = v_order.id;
+	end loop;
+end;
+$$;
+
+alter table public.receiving_orders enable trigger receiving_orders_audit;
+
+alter table public.receiving_orders alter column receipt_ref set not null;
+
+create unique index if not exists receiving_orders_receipt_ref_key on public.receiving_orders (receipt_ref);